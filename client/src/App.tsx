@@ -1,11 +1,15 @@
 import { useState, useEffect, type ReactNode, useCallback, useMemo } from 'react';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import BookList from './components/BookList';
+import BookSearchInput from './components/BookSearchInput';
 import BookForm from './components/BookForm';
 import MemberList from './components/MemberList';
 import MemberForm from './components/MemberForm';
 import LoanManager from './components/LoanManager';
+import CirculationDesk from './components/CirculationDesk';
 import LoanHistory from './components/LoanHistory';
+import MyLibrary from './components/MyLibrary';
+import AccountSecurity from './components/AccountSecurity';
 import Dashboard from './components/Dashboard';
 import BulkImportDialog from './components/BulkImportDialog';
 import MemberBulkImportDialog from './components/MemberBulkImportDialog';
@@ -25,11 +29,22 @@ import WelcomeWizard from './components/WelcomeWizard';
 import FeatureTour from './components/FeatureTour';
 import DataExport from './components/DataExport';
 import Settings from './components/Settings';
+import Notifications from './components/Notifications';
+import Jobs from './components/Jobs';
+import SavedSearches from './components/SavedSearches';
 import { useOnboarding } from './components/OnboardingContext';
 import { config } from './config';
-import { Input, Button, Select, MultiSelect } from './components/ui';
+import { Input, Button } from './components/ui';
 import { Plus, Upload, Loader2 } from 'lucide-react';
 import { apiFetch } from './utils/api';
+import {
+  bookFilterParams,
+  bookFiltersOf,
+  EMPTY_BOOK_FILTERS,
+  type BookFacetCounts,
+  type BookFilters,
+  type SavedSearch,
+} from './utils/bookFields';
 import './App.css';
 
 // Define the book type
@@ -44,8 +59,14 @@ interface Book {
   author: string;
   isbn: string;
   available: boolean;
+  on_hold_shelf?: boolean;
+  available_copies?: number;
+  total_copies?: number;
   cover_image_path?: string;
   description?: string;
+  language?: string | null;
+  publication_year?: number | null;
+  format?: string | null;
   categories?: Category[];
   created_at?: string;
 }
@@ -56,6 +77,8 @@ interface Member {
   name: string;
   email: string;
   phone?: string;
+  barcode?: string | null;
+  member_type?: string;
 }
 
 // ProtectedRoute component
@@ -67,6 +90,22 @@ const ProtectedRoute: React.FC<{ children: ReactNode }> = ({ children }) => {
   return <>{children}</>;
 };
 
+// StaffRoute component - patrons are sent to their own library instead,
+// and staff whose role lacks the page's permission to the dashboard
+const StaffRoute: React.FC<{ children: ReactNode; permission?: string }> = ({ children, permission }) => {
+  const { token, isStaff, hasPermission } = useAuth();
+  if (!token) {
+    return <Navigate to="/login" replace />;
+  }
+  if (!isStaff) {
+    return <Navigate to="/my-library" replace />;
+  }
+  if (permission && !hasPermission(permission)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+  return <>{children}</>;
+};
+
 function App() {
   const [mode, setMode] = useState<'light' | 'dark'>(() => {
     const storedMode = localStorage.getItem('themeMode');
@@ -105,10 +144,13 @@ function App() {
 
   // Filter and Sort states for Books
   const [bookSearchQuery, setBookSearchQuery] = useState('');
-  const [availableStatusFilter, setAvailableStatusFilter] = useState<string>('all'); // 'all', 'true', 'false'
-  const [categoryFilter, setCategoryFilter] = useState<Category[]>([]);
+  const [bookDidYouMean, setBookDidYouMean] = useState<string | undefined>();
+  const [bookSearchError, setBookSearchError] = useState<string | undefined>();
+  const [bookFilters, setBookFilters] = useState<BookFilters>(EMPTY_BOOK_FILTERS);
+  const [bookFacets, setBookFacets] = useState<BookFacetCounts | undefined>();
   const [bookSortBy, setBookSortBy] = useState<string>('id');
   const [bookSortOrder, setBookSortOrder] = useState<"asc" | "desc">('asc');
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
 
   // Pagination states for Books
   const [bookPage, setBookPage] = useState(1);
@@ -120,6 +162,7 @@ function App() {
   const [memberSortBy, setMemberSortBy] = useState<string>('id');
   const [memberSortOrder, setMemberSortOrder] = useState<"asc" | "desc">('asc');
   const [memberSearchQuery, setMemberSearchQuery] = useState('');
+  const [memberDidYouMean, setMemberDidYouMean] = useState<string | undefined>();
 
   // Pagination states for Members
   const [memberPage, setMemberPage] = useState(1);
@@ -151,7 +194,8 @@ function App() {
   // State for Member Bulk Import Dialog
   const [isMemberBulkImportOpen, setIsMemberBulkImportOpen] = useState(false);
 
-  const { token, logout } = useAuth();
+  const { token, logout, isStaff, hasPermission } = useAuth();
+  const canReadMembers = hasPermission('members:read');
   const { startWelcome } = useOnboarding();
   const [isSetupNeeded, setIsSetupNeeded] = useState<boolean | null>(null); // New state for setup status
   const [setupChecked, setSetupChecked] = useState(false); // New state to check if setup status has been verified
@@ -195,19 +239,29 @@ function App() {
     if (!token) return;
     setBooksLoading(true);
     try {
-      let url = `${config.apiUrl}/books?sortBy=${bookSortBy}&sortOrder=${bookSortOrder}&page=${bookPage}&limit=${bookLimit}`;
-      if (bookSearchQuery) url += `&search=${bookSearchQuery}`;
-      if (availableStatusFilter !== 'all') url += `&availableStatus=${availableStatusFilter}`;
-      if (categoryFilter.length > 0) url += `&categoryIds=${categoryFilter.map(cat => cat.id).join(',')}`;
+      // Searches are sorted by relevance until a column is chosen
+      const sortBy = bookSearchQuery && bookSortBy === 'id' ? 'relevance' : bookSortBy;
+      let url = `${config.apiUrl}/books?sortBy=${sortBy}&sortOrder=${bookSortOrder}&page=${bookPage}&limit=${bookLimit}&facets=true`;
+      if (bookSearchQuery) url += `&search=${encodeURIComponent(bookSearchQuery)}`;
+      const filterParams = bookFilterParams(bookFilters).toString();
+      if (filterParams) url += `&${filterParams}`;
 
       const response = await apiFetch(url, {
         headers: { 'Authorization': `Bearer ${token}` },
       });
+      // A search that cannot be run, such as one with an unknown field, is shown by the list as it is typed
+      if (response.status === 400) {
+        setBookSearchError((await response.json()).error);
+        return;
+      }
       if (!response.ok) throw new Error('Failed to fetch books');
       const result = await response.json();
 
       // Handle paginated response
+      setBookSearchError(undefined);
       setBooks(result.data || []);
+      setBookDidYouMean(result.didYouMean);
+      setBookFacets(result.facets);
       if (result.pagination) {
         setBookTotalCount(result.pagination.totalCount);
         setBookTotalPages(result.pagination.totalPages);
@@ -218,14 +272,36 @@ function App() {
     } finally {
       setBooksLoading(false);
     }
-  }, [token, bookSearchQuery, availableStatusFilter, categoryFilter, bookSortBy, bookSortOrder, bookPage, bookLimit]);
+  }, [token, bookSearchQuery, bookFilters, bookSortBy, bookSortOrder, bookPage, bookLimit]);
+
+  const fetchSavedSearches = useCallback(async () => {
+    if (!token) return;
+    try {
+      const response = await apiFetch(`${config.apiUrl}/saved-searches`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      if (!response.ok) throw new Error('Failed to fetch saved searches');
+      setSavedSearches(await response.json());
+    } catch (error) {
+      console.error(error);
+      setNotification({ open: true, message: error instanceof Error ? error.message : 'Failed to fetch saved searches', severity: 'error' });
+    }
+  }, [token]);
+
+  // Show the books a saved search or smart collection finds now
+  const openSavedSearch = useCallback((savedSearch: SavedSearch) => {
+    setBookSearchQuery(savedSearch.search);
+    setBookFilters(bookFiltersOf(savedSearch.filters));
+    setBookPage(1);
+  }, []);
 
   const fetchMembers = useCallback(async () => {
     if (!token) return;
     setMembersLoading(true);
     try {
-      let url = `${config.apiUrl}/members?sortBy=${memberSortBy}&sortOrder=${memberSortOrder}&page=${memberPage}&limit=${memberLimit}`;
-      if (memberSearchQuery) url += `&search=${memberSearchQuery}`;
+      const sortBy = memberSearchQuery && memberSortBy === 'id' ? 'relevance' : memberSortBy;
+      let url = `${config.apiUrl}/members?sortBy=${sortBy}&sortOrder=${memberSortOrder}&page=${memberPage}&limit=${memberLimit}`;
+      if (memberSearchQuery) url += `&search=${encodeURIComponent(memberSearchQuery)}`;
 
       const response = await apiFetch(url, {
         headers: { 'Authorization': `Bearer ${token}` },
@@ -235,6 +311,7 @@ function App() {
 
       // Handle paginated response
       setMembers(result.data || []);
+      setMemberDidYouMean(result.didYouMean);
       if (result.pagination) {
         setMemberTotalCount(result.pagination.totalCount);
         setMemberTotalPages(result.pagination.totalPages);
@@ -248,10 +325,12 @@ function App() {
   }, [token, memberSortBy, memberSortOrder, memberPage, memberLimit, memberSearchQuery]);
 
   useEffect(() => {
-    if (setupChecked && !isSetupNeeded && token) {
+    // Patrons only use My Library, which loads its own data
+    if (setupChecked && !isSetupNeeded && token && isStaff) {
       fetchBooks();
-      fetchMembers();
+      if (canReadMembers) fetchMembers();
       fetchAllCategories();
+      fetchSavedSearches();
 
       // Check if user has completed onboarding
       const hasCompletedWelcome = localStorage.getItem('onboarding_welcome_completed') === 'true';
@@ -260,7 +339,7 @@ function App() {
         setTimeout(() => startWelcome(), 500); // Small delay for smooth transition
       }
     }
-  }, [token, fetchBooks, fetchMembers, fetchAllCategories, isSetupNeeded, setupChecked, startWelcome]);
+  }, [token, isStaff, canReadMembers, fetchBooks, fetchMembers, fetchAllCategories, fetchSavedSearches, isSetupNeeded, setupChecked, startWelcome]);
 
   const handleBookOpenForm = (book: Book | null = null) => {
     setBookToEdit(book);
@@ -410,7 +489,12 @@ function App() {
 
   return (
       <BrowserRouter>
-        <Navbar toggleColorMode={colorMode.toggleColorMode} currentMode={mode} />
+        <Navbar
+          toggleColorMode={colorMode.toggleColorMode}
+          currentMode={mode}
+          pinnedCollections={token ? savedSearches.filter(savedSearch => savedSearch.pinned) : []}
+          onOpenCollection={openSavedSearch}
+        />
         <div className="container mx-auto px-4 mt-6">
           <Routes>
             {isSetupNeeded ? (
@@ -425,73 +509,57 @@ function App() {
                 <Route
                   path="/dashboard"
                   element={
-                    <ProtectedRoute>
+                    <StaffRoute>
                       <Dashboard />
-                    </ProtectedRoute>
+                    </StaffRoute>
                   }
                 />
                 <Route
                   path="/books"
                   element={
-                    <ProtectedRoute>
+                    <StaffRoute>
                       <div>
                         <div className="flex flex-col gap-4 mb-6">
                           {/* Filters Row */}
-                          <div className="flex flex-col sm:flex-row gap-4">
+                          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
                             <div className="flex-1">
-                              <Input
-                                label="Search Books"
-                                value={bookSearchQuery}
-                                onChange={(e) => setBookSearchQuery(e.target.value)}
-                                placeholder="Search by title, author, or ISBN"
-                              />
-                            </div>
-                            <div className="w-full sm:w-auto sm:min-w-[150px]">
-                              <Select
-                                label="Availability"
-                                value={availableStatusFilter}
-                                onChange={(e) => setAvailableStatusFilter(e.target.value)}
-                                options={[
-                                  { value: 'all', label: 'All' },
-                                  { value: 'true', label: 'Available' },
-                                  { value: 'false', label: 'Borrowed' }
-                                ]}
-                              />
-                            </div>
-                            <div className="w-full sm:w-auto sm:min-w-[200px]">
-                              <MultiSelect
-                                label="Filter by Categories"
-                                options={allCategories}
-                                value={categoryFilter}
-                                onChange={(newValue) => setCategoryFilter(newValue)}
-                                placeholder="Select categories"
-                                fullWidth
-                              />
+                              <BookSearchInput value={bookSearchQuery} onChange={setBookSearchQuery} />
                             </div>
+                            <SavedSearches
+                              savedSearches={savedSearches}
+                              search={bookSearchQuery}
+                              filters={bookFilters}
+                              onOpen={openSavedSearch}
+                              onChange={fetchSavedSearches}
+                              setNotification={setNotification}
+                            />
                           </div>
                           {/* Actions Row */}
-                          <div className="flex gap-2">
-                            <Button
-                              variant="primary"
-                              icon={<Plus className="h-5 w-5" />}
-                              onClick={() => handleBookOpenForm()}
-                              className="flex-1 sm:flex-initial"
-                            >
-                              <span className="hidden xs:inline">Add New Book</span>
-                              <span className="xs:hidden">Add Book</span>
-                            </Button>
-                            <Button
-                              variant="secondary"
-                              icon={<Upload className="h-5 w-5" />}
-                              onClick={() => setIsBulkImportOpen(true)}
-                              className="flex-1 sm:flex-initial"
-                            >
-                              <span className="hidden xs:inline">Bulk Import</span>
-                              <span className="xs:hidden">Import</span>
-                            </Button>
-                          </div>
+                          {hasPermission('books:write') && (
+                            <div className="flex gap-2">
+                              <Button
+                                variant="primary"
+                                icon={<Plus className="h-5 w-5" />}
+                                onClick={() => handleBookOpenForm()}
+                                className="flex-1 sm:flex-initial"
+                              >
+                                <span className="hidden xs:inline">Add New Book</span>
+                                <span className="xs:hidden">Add Book</span>
+                              </Button>
+                              <Button
+                                variant="secondary"
+                                icon={<Upload className="h-5 w-5" />}
+                                onClick={() => setIsBulkImportOpen(true)}
+                                className="flex-1 sm:flex-initial"
+                              >
+                                <span className="hidden xs:inline">Bulk Import</span>
+                                <span className="xs:hidden">Import</span>
+                              </Button>
+                            </div>
+                          )}
                         </div>
-                        {booksLoading ? (
+                        {/* Once there are counts, the list and its filters stay while they refresh */}
+                        {booksLoading && !bookFacets ? (
                           <BookListSkeleton />
                         ) : (
                           <BookList
@@ -506,6 +574,16 @@ function App() {
                               setBookSortOrder(newSortOrder);
                             }}
                             allCategories={allCategories}
+                            searchQuery={bookSearchQuery}
+                            didYouMean={bookDidYouMean}
+                            onSearchChange={setBookSearchQuery}
+                            searchError={bookSearchError}
+                            facets={bookFacets}
+                            filters={bookFilters}
+                            onFiltersChange={(filters) => {
+                              setBookFilters(filters);
+                              setBookPage(1);
+                            }}
                             onRefresh={fetchBooks}
                             setNotification={setNotification}
                           />
@@ -519,13 +597,13 @@ function App() {
                           onLimitChange={setBookLimit}
                         />
                       </div>
-                    </ProtectedRoute>
+                    </StaffRoute>
                   }
                 />
                 <Route
                   path="/members"
                   element={
-                    <ProtectedRoute>
+                    <StaffRoute permission="members:read">
                       <div>
                         <div className="flex flex-col gap-4 mb-6">
                           {/* Search Row */}
@@ -541,26 +619,28 @@ function App() {
                             />
                           </div>
                           {/* Actions Row */}
-                          <div className="flex gap-2">
-                            <Button
-                              variant="primary"
-                              icon={<Plus className="h-5 w-5" />}
-                              onClick={() => handleMemberOpenForm()}
-                              className="flex-1 sm:flex-initial"
-                            >
-                              <span className="hidden xs:inline">Add New Member</span>
-                              <span className="xs:hidden">Add Member</span>
-                            </Button>
-                            <Button
-                              variant="secondary"
-                              icon={<Upload className="h-5 w-5" />}
-                              onClick={() => setIsMemberBulkImportOpen(true)}
-                              className="flex-1 sm:flex-initial"
-                            >
-                              <span className="hidden xs:inline">Bulk Import</span>
-                              <span className="xs:hidden">Import</span>
-                            </Button>
-                          </div>
+                          {hasPermission('members:write') && (
+                            <div className="flex gap-2">
+                              <Button
+                                variant="primary"
+                                icon={<Plus className="h-5 w-5" />}
+                                onClick={() => handleMemberOpenForm()}
+                                className="flex-1 sm:flex-initial"
+                              >
+                                <span className="hidden xs:inline">Add New Member</span>
+                                <span className="xs:hidden">Add Member</span>
+                              </Button>
+                              <Button
+                                variant="secondary"
+                                icon={<Upload className="h-5 w-5" />}
+                                onClick={() => setIsMemberBulkImportOpen(true)}
+                                className="flex-1 sm:flex-initial"
+                              >
+                                <span className="hidden xs:inline">Bulk Import</span>
+                                <span className="xs:hidden">Import</span>
+                              </Button>
+                            </div>
+                          )}
                         </div>
                         {membersLoading ? (
                           <MemberListSkeleton />
@@ -576,6 +656,12 @@ function App() {
                               setMemberSortBy(newSortBy);
                               setMemberSortOrder(newSortOrder);
                             }}
+                            searchQuery={memberSearchQuery}
+                            didYouMean={memberDidYouMean}
+                            onSearchChange={(search) => {
+                              setMemberSearchQuery(search);
+                              setMemberPage(1);
+                            }}
                           />
                         )}
                         <Pagination
@@ -587,13 +673,13 @@ function App() {
                           onLimitChange={setMemberLimit}
                         />
                       </div>
-                    </ProtectedRoute>
+                    </StaffRoute>
                   }
                 />
                 <Route
                   path="/loans"
                   element={
-                    <ProtectedRoute>
+                    <StaffRoute permission="loans:checkout">
                       <div>
                         <LoanManager
                           books={books}
@@ -602,49 +688,94 @@ function App() {
                           setNotification={setNotification}
                         />
                       </div>
-                    </ProtectedRoute>
+                    </StaffRoute>
+                  }
+                />
+                <Route
+                  path="/desk"
+                  element={
+                    <StaffRoute permission="loans:checkout">
+                      <div>
+                        <CirculationDesk
+                          onCirculationChange={fetchBooks}
+                          setNotification={setNotification}
+                        />
+                      </div>
+                    </StaffRoute>
                   }
                 />
                 <Route
                   path="/loan-history"
                   element={
-                    <ProtectedRoute>
+                    <StaffRoute permission="members:read">
                       <div>
-                        <LoanHistory />
+                        <LoanHistory setNotification={setNotification} />
                       </div>
+                    </StaffRoute>
+                  }
+                />
+                <Route
+                  path="/my-library"
+                  element={
+                    <ProtectedRoute>
+                      <MyLibrary setNotification={setNotification} />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/account"
+                  element={
+                    <ProtectedRoute>
+                      <AccountSecurity />
                     </ProtectedRoute>
                   }
                 />
                               <Route
                                 path="/categories"
                                 element={
-                                  <ProtectedRoute>
+                                  <StaffRoute permission="books:write">
                                     <CategoryManagement />
-                                  </ProtectedRoute>
+                                  </StaffRoute>
                                 }
                               />
                               <Route
                                 path="/users"
                                 element={
-                                  <ProtectedRoute>
+                                  <StaffRoute permission="users:manage">
                                     <UserManagement />
-                                  </ProtectedRoute>
+                                  </StaffRoute>
                                 }
                               />
                               <Route
                                 path="/export"
                                 element={
-                                  <ProtectedRoute>
+                                  <StaffRoute permission="export:run">
                                     <DataExport />
-                                  </ProtectedRoute>
+                                  </StaffRoute>
                                 }
                               />
                               <Route
                                 path="/settings"
                                 element={
-                                  <ProtectedRoute>
+                                  <StaffRoute permission="settings:manage">
                                     <Settings />
-                                  </ProtectedRoute>
+                                  </StaffRoute>
+                                }
+                              />
+                              <Route
+                                path="/notifications"
+                                element={
+                                  <StaffRoute permission="settings:manage">
+                                    <Notifications />
+                                  </StaffRoute>
+                                }
+                              />
+                              <Route
+                                path="/jobs"
+                                element={
+                                  <StaffRoute permission="settings:manage">
+                                    <Jobs />
+                                  </StaffRoute>
                                 }
                               />
               </>
@@ -0,0 +1,280 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ShieldCheck, Laptop, KeyRound } from 'lucide-react';
+import { config } from '../config';
+import { apiFetch } from '../utils/api';
+import { useAuth } from './AuthContext';
+import { Card, Button, Input, Badge, ErrorMessage } from './ui';
+import { EnrollmentDetails, RecoveryCodeList, type TwoFactorEnrollment } from './TwoFactorSetup';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface Session {
+  id: number;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_used_at: string;
+  current: boolean;
+}
+
+/**
+ * The signed-in user's own security settings: two-factor authentication and open sessions
+ */
+const AccountSecurity = () => {
+  const { token, user, logout } = useAuth();
+  const navigate = useNavigate();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [disabling, setDisabling] = useState(false);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const authHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`,
+  }), [token]);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await apiFetch(`${config.apiUrl}/auth/two-factor`, { headers: authHeaders() });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to fetch two-factor status');
+      }
+      setStatus(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch two-factor status');
+    }
+  }, [authHeaders]);
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const response = await apiFetch(`${config.apiUrl}/auth/sessions`, { headers: authHeaders() });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to fetch sessions');
+      }
+      setSessions(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch sessions');
+    }
+  }, [authHeaders]);
+
+  useEffect(() => {
+    if (!token) return;
+    fetchStatus();
+    fetchSessions();
+  }, [token, fetchStatus, fetchSessions]);
+
+  // Send a request and report its error, if any; returns the parsed body on success
+  const send = async (path: string, method: string, body?: object) => {
+    setError(null);
+    setLoading(true);
+    try {
+      const response = await apiFetch(`${config.apiUrl}${path}`, {
+        method,
+        headers: authHeaders(),
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Request failed');
+      }
+      return response.status === 204 ? {} : await response.json();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStartEnrollment = async () => {
+    const data = await send('/auth/two-factor/enroll', 'POST');
+    if (data) {
+      setEnrollment(data);
+      setCode('');
+    }
+  };
+
+  const handleActivate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await send('/auth/two-factor/activate', 'POST', { code: code.trim() });
+    if (data) {
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      setCode('');
+      fetchStatus();
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // Recovery codes are longer and contain letters
+    const trimmed = code.trim();
+    const proof = /^\d{6}$/.test(trimmed.replace(/\s/g, '')) ? { code: trimmed } : { recoveryCode: trimmed };
+    if (await send('/auth/two-factor/disable', 'POST', proof)) {
+      setDisabling(false);
+      setCode('');
+      fetchStatus();
+    }
+  };
+
+  const handleRevokeSession = async (sessionId: number) => {
+    if (await send(`/auth/sessions/${sessionId}`, 'DELETE')) {
+      fetchSessions();
+    }
+  };
+
+  const handleSignOutEverywhere = () => {
+    if (!window.confirm('Sign out of every device, including this one?')) return;
+    logout(true);
+    navigate('/login');
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-center gap-3">
+        <KeyRound className="h-8 w-8 text-primary" />
+        <div>
+          <h1 className="text-3xl font-bold text-text-primary">Account Security</h1>
+          <p className="text-text-secondary">Signed in as {user?.username}</p>
+        </div>
+      </div>
+
+      {error && (
+        <ErrorMessage
+          message={error}
+          onClose={() => setError(null)}
+        />
+      )}
+
+      <Card>
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="h-6 w-6 text-primary" />
+            <h2 className="text-xl font-semibold text-text-primary">Two-Factor Authentication</h2>
+          </div>
+          {status && (
+            <Badge variant={status.enabled ? 'success' : 'default'}>
+              {status.enabled ? 'On' : 'Off'}
+            </Badge>
+          )}
+        </div>
+
+        {recoveryCodes ? (
+          <div className="space-y-4">
+            <RecoveryCodeList codes={recoveryCodes} />
+            <Button variant="primary" onClick={() => setRecoveryCodes(null)}>Done</Button>
+          </div>
+        ) : enrollment ? (
+          <form onSubmit={handleActivate} className="space-y-4">
+            <EnrollmentDetails enrollment={enrollment} />
+            <Input
+              label="Authentication code"
+              autoComplete="one-time-code"
+              inputMode="numeric"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              required
+              autoFocus
+            />
+            <div className="flex gap-3">
+              <Button type="submit" variant="primary" loading={loading} disabled={!code.trim()}>
+                Turn On
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => setEnrollment(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : status?.enabled ? (
+          <div className="space-y-4">
+            <p className="text-sm text-text-secondary">
+              Signing in asks for a code from your authenticator app. You have {status.recoveryCodesRemaining} unused
+              recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'}.
+            </p>
+            {status.required ? (
+              <p className="text-sm text-text-tertiary">An administrator requires two-factor authentication for your account.</p>
+            ) : disabling ? (
+              <form onSubmit={handleDisable} className="space-y-4">
+                <Input
+                  label="Authentication or recovery code"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  required
+                  autoFocus
+                />
+                <div className="flex gap-3">
+                  <Button type="submit" variant="danger" loading={loading} disabled={!code.trim()}>
+                    Turn Off
+                  </Button>
+                  <Button type="button" variant="ghost" onClick={() => setDisabling(false)}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            ) : (
+              <Button variant="outline" onClick={() => { setDisabling(true); setCode(''); }}>
+                Turn Off Two-Factor
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-text-secondary">
+              Protect your account with a code from an authenticator app in addition to your password.
+            </p>
+            <Button variant="primary" loading={loading} onClick={handleStartEnrollment}>
+              Set Up Two-Factor
+            </Button>
+          </div>
+        )}
+      </Card>
+
+      <Card>
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <div className="flex items-center gap-2">
+            <Laptop className="h-6 w-6 text-primary" />
+            <h2 className="text-xl font-semibold text-text-primary">Sessions</h2>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleSignOutEverywhere}>
+            Sign Out Everywhere
+          </Button>
+        </div>
+        {sessions.length === 0 ? (
+          <p className="text-sm text-text-tertiary">No open sessions.</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {sessions.map((session) => (
+              <li key={session.id} className="flex items-start justify-between gap-4 py-3">
+                <div className="min-w-0 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-text-primary truncate">{session.user_agent || 'Unknown device'}</span>
+                    {session.current && <Badge variant="success" size="sm">this device</Badge>}
+                  </div>
+                  <p className="text-text-tertiary">
+                    {session.ip_address || 'Unknown address'} · last used {new Date(session.last_used_at).toLocaleString()}
+                  </p>
+                </div>
+                {!session.current && (
+                  <Button variant="outline" size="sm" onClick={() => handleRevokeSession(session.id)}>
+                    Revoke
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default AccountSecurity;
@@ -1,27 +1,68 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from 'react';
-import { isTokenExpired } from '../utils/tokenValidation';
+import { getTokenRemainingTime } from '../utils/tokenValidation';
+import { clearStoredSession, onSessionRefreshed, refreshSession } from '../utils/api';
+import { config } from '../config';
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+  // Library member the login is linked to; patrons only see this member's records
+  member_id?: number | null;
+  // Permissions of the user's role at login
+  permissions?: string[];
+}
+
+/**
+ * Users stored before permissions were added only have a role; treat admins as
+ * having every permission and anyone else as having none until they log in again
+ */
+const userHasPermission = (user: AuthUser | null, permission: string): boolean =>
+  user?.permissions ? user.permissions.includes(permission) : user?.role === 'admin';
+
+const userIsStaff = (user: AuthUser | null): boolean =>
+  user?.permissions ? user.permissions.length > 0 : user?.role === 'admin';
 
 interface AuthContextType {
   token: string | null;
-  user: { id: number; username: string; role: string } | null;
-  login: (token: string, user: { id: number; username: string; role: string }) => void;
-  logout: () => void;
+  user: AuthUser | null;
+  login: (token: string, user: AuthUser, refreshToken: string) => void;
+  // Ends the session on the server too; pass true to end every session of the user
+  logout: (everywhere?: boolean) => void;
+  hasPermission: (permission: string) => boolean;
+  // Any staff permission at all; users without one get the patron portal
+  isStaff: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [token, setToken] = useState<string | null>(null);
-  const [user, setUser] = useState<{ id: number; username: string; role: string } | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
 
   // Memoized logout function to prevent dependency issues
-  const logout = useCallback(() => {
+  const logout = useCallback((everywhere: boolean = false) => {
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (refreshToken) {
+      // Best effort: the local session ends whether or not the server hears about it
+      fetch(`${config.apiUrl}/auth/logout`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken, all: everywhere }),
+      }).catch(() => {});
+    }
+
     setToken(null);
     setUser(null);
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
+    clearStoredSession();
   }, []);
 
+  // Keep state in step with refreshes made by apiFetch
+  useEffect(() => onSessionRefreshed(session => {
+    setToken(session.token);
+    setUser(session.user);
+  }), []);
+
   // Validate token on initialization
   useEffect(() => {
     const storedToken = localStorage.getItem('token');
@@ -30,16 +71,19 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     // Check for non-null and non-"undefined" string before parsing
     if (storedToken && storedUser && storedUser !== 'undefined') {
       try {
-        // Validate token expiration
-        if (isTokenExpired(storedToken)) {
-          console.log('Token expired on load, clearing authentication');
-          logout();
-          return;
-        }
-
         const userObject = JSON.parse(storedUser);
         setToken(storedToken);
         setUser(userObject);
+
+        // An expired access token is renewed if the session is still open
+        if (getTokenRemainingTime(storedToken) === 0) {
+          refreshSession().then(session => {
+            if (!session) {
+              console.log('Session expired on load, clearing authentication');
+              logout();
+            }
+          });
+        }
       } catch (error) {
         console.error("Failed to parse user from localStorage", error);
         // Clear corrupted storage
@@ -48,31 +92,45 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   }, [logout]);
 
-  // Periodic token validation - check every minute
+  // Periodic token check - refresh shortly before the access token expires
   useEffect(() => {
     if (!token) return;
 
     const intervalId = setInterval(() => {
-      if (isTokenExpired(token)) {
-        console.log('Token expired during session, logging out');
-        logout();
-        // Redirect to login page
-        window.location.href = '/login';
+      if (getTokenRemainingTime(token) < 2 * 60 * 1000) {
+        refreshSession().then(session => {
+          if (!session) {
+            console.log('Session expired, logging out');
+            logout();
+            // Redirect to login page
+            window.location.href = '/login';
+          }
+        });
       }
     }, 60000); // Check every 60 seconds
 
     return () => clearInterval(intervalId);
   }, [token, logout]);
 
-  const login = (newToken: string, newUser: { id: number; username: string; role: string }) => {
+  const login = (newToken: string, newUser: AuthUser, refreshToken: string) => {
     setToken(newToken);
     setUser(newUser);
     localStorage.setItem('token', newToken);
     localStorage.setItem('user', JSON.stringify(newUser));
+    localStorage.setItem('refreshToken', refreshToken);
   };
 
   return (
-    <AuthContext.Provider value={{ token, user, login, logout }}>
+    <AuthContext.Provider
+      value={{
+        token,
+        user,
+        login,
+        logout,
+        hasPermission: (permission: string) => userHasPermission(user, permission),
+        isStaff: userIsStaff(user),
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
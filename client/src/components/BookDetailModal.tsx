@@ -1,6 +1,9 @@
-import { Modal, Badge, Button } from './ui';
-import { BookOpen, User, Hash, Tag, Clock, Edit, Trash2, BookPlus, BookCheck } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Modal, Badge, Button, Input, Select } from './ui';
+import { BookOpen, User, Hash, Tag, Clock, Edit, Trash2, BookPlus, BookCheck, Bookmark, Layers, Plus } from 'lucide-react';
 import { config } from '../config';
+import { useAuth } from './AuthContext';
+import { apiFetch } from '../utils/api';
 
 interface Category {
   id: number;
@@ -13,12 +16,60 @@ interface Book {
   author: string;
   isbn: string;
   available: boolean;
+  on_hold_shelf?: boolean;
+  available_copies?: number;
+  total_copies?: number;
   cover_image_path?: string;
   description?: string;
   categories?: Category[];
   created_at?: string;
 }
 
+interface Hold {
+  id: number;
+  member_id: number;
+  member_name: string;
+  status: 'waiting' | 'ready';
+  expires_at: string | null;
+  queue_position: number;
+}
+
+type CopyStatus = 'available' | 'on_loan' | 'on_hold_shelf' | 'unavailable' | 'withdrawn';
+
+interface Copy {
+  id: number;
+  barcode: string | null;
+  status: CopyStatus;
+  condition: 'new' | 'good' | 'fair' | 'poor' | 'damaged';
+  location: string | null;
+  member_name?: string | null;
+  due_date?: string | null;
+}
+
+interface ConditionEntry {
+  id: number;
+  condition: Copy['condition'];
+  note: string | null;
+  recorded_by_username: string | null;
+  created_at: string;
+}
+
+const COPY_STATUS_BADGES: Record<CopyStatus, { label: string; variant: 'success' | 'info' | 'warning' | 'error' | 'default' }> = {
+  available: { label: 'Available', variant: 'success' },
+  on_loan: { label: 'On Loan', variant: 'warning' },
+  on_hold_shelf: { label: 'On Hold Shelf', variant: 'info' },
+  unavailable: { label: 'Unavailable', variant: 'default' },
+  withdrawn: { label: 'Withdrawn', variant: 'error' },
+};
+
+const CONDITION_OPTIONS = [
+  { value: 'new', label: 'New' },
+  { value: 'good', label: 'Good' },
+  { value: 'fair', label: 'Fair' },
+  { value: 'poor', label: 'Poor' },
+  { value: 'damaged', label: 'Damaged' },
+];
+
 interface BookDetailModalProps {
   book: Book | null;
   open: boolean;
@@ -27,7 +78,7 @@ interface BookDetailModalProps {
   onDelete?: () => void;
   onBorrow?: () => void;
   onReturn?: () => void;
-  isAdmin?: boolean;
+  canEdit?: boolean;
 }
 
 const BookDetailModal = ({
@@ -38,8 +89,136 @@ const BookDetailModal = ({
   onDelete,
   onBorrow,
   onReturn,
-  isAdmin = false,
+  canEdit = false,
 }: BookDetailModalProps) => {
+  const { token, hasPermission } = useAuth();
+  const canViewHistory = hasPermission('loans:checkout');
+  const [holds, setHolds] = useState<Hold[]>([]);
+  const [copies, setCopies] = useState<Copy[]>([]);
+  const [copiesVersion, setCopiesVersion] = useState(0);
+  const [copyError, setCopyError] = useState<string | null>(null);
+  const [newCopy, setNewCopy] = useState({ barcode: '', location: '', condition: 'good' });
+  const [historyCopyId, setHistoryCopyId] = useState<number | null>(null);
+  const [conditionHistory, setConditionHistory] = useState<ConditionEntry[]>([]);
+
+  const bookId = book?.id;
+
+  useEffect(() => {
+    if (!open || !bookId) return;
+
+    const fetchHolds = async () => {
+      try {
+        const response = await apiFetch(`${config.apiUrl}/holds/book/${bookId}`, {
+          headers: { 'Authorization': `Bearer ${token}` },
+        });
+        if (!response.ok) {
+          throw new Error('Failed to fetch holds');
+        }
+        const result = await response.json();
+        setHolds(result.queue || []);
+      } catch {
+        setHolds([]);
+      }
+    };
+
+    fetchHolds();
+  }, [open, bookId, token]);
+
+  useEffect(() => {
+    if (!open || !bookId) return;
+
+    const fetchCopies = async () => {
+      try {
+        const response = await apiFetch(`${config.apiUrl}/copies/book/${bookId}`, {
+          headers: { 'Authorization': `Bearer ${token}` },
+        });
+        if (!response.ok) {
+          throw new Error('Failed to fetch copies');
+        }
+        setCopies(await response.json());
+      } catch {
+        setCopies([]);
+      }
+    };
+
+    fetchCopies();
+  }, [open, bookId, token, copiesVersion]);
+
+  useEffect(() => {
+    if (!historyCopyId) return;
+
+    const fetchHistory = async () => {
+      try {
+        const response = await apiFetch(`${config.apiUrl}/copies/${historyCopyId}/history`, {
+          headers: { 'Authorization': `Bearer ${token}` },
+        });
+        if (!response.ok) {
+          throw new Error('Failed to fetch condition history');
+        }
+        setConditionHistory(await response.json());
+      } catch {
+        setConditionHistory([]);
+      }
+    };
+
+    fetchHistory();
+  }, [historyCopyId, token, copiesVersion]);
+
+  const sendCopyRequest = async (url: string, init: RequestInit) => {
+    setCopyError(null);
+    try {
+      const response = await apiFetch(url, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || 'Failed to update copy');
+      }
+      setCopiesVersion(version => version + 1);
+      return true;
+    } catch (err) {
+      setCopyError(err instanceof Error ? err.message : 'Failed to update copy');
+      return false;
+    }
+  };
+
+  const handleAddCopy = async () => {
+    const added = await sendCopyRequest(`${config.apiUrl}/copies`, {
+      method: 'POST',
+      body: JSON.stringify({
+        book_id: bookId,
+        barcode: newCopy.barcode.trim() || undefined,
+        location: newCopy.location.trim() || undefined,
+        condition: newCopy.condition,
+      }),
+    });
+    if (added) {
+      setNewCopy({ barcode: '', location: '', condition: 'good' });
+    }
+  };
+
+  const handleSetCopyStatus = (copy: Copy, status: 'available' | 'unavailable' | 'withdrawn') => {
+    if (status === 'withdrawn' && !window.confirm(`Withdraw copy ${copy.barcode || `#${copy.id}`} from the collection?`)) return;
+    sendCopyRequest(`${config.apiUrl}/copies/${copy.id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ status }),
+    });
+  };
+
+  const handleToggleHistory = (copy: Copy) => {
+    setConditionHistory([]);
+    setHistoryCopyId(historyCopyId === copy.id ? null : copy.id);
+  };
+
+  const handleDeleteCopy = (copy: Copy) => {
+    if (!window.confirm(`Delete copy ${copy.barcode || `#${copy.id}`}?`)) return;
+    sendCopyRequest(`${config.apiUrl}/copies/${copy.id}`, { method: 'DELETE' });
+  };
+
   if (!book) return null;
 
   const coverImageUrl = book.cover_image_path
@@ -67,11 +246,16 @@ const BookDetailModal = ({
             {/* Availability Status */}
             <div className="mt-4">
               <Badge
-                variant={book.available ? 'success' : 'warning'}
+                variant={book.available ? 'success' : book.on_hold_shelf ? 'info' : 'warning'}
                 className="w-full justify-center py-2"
               >
-                {book.available ? '✓ Available' : '✗ Currently Borrowed'}
+                {book.available ? '✓ Available' : book.on_hold_shelf ? '⏸ On Hold Shelf' : '✗ Currently Borrowed'}
               </Badge>
+              {book.total_copies !== undefined && (
+                <p className="mt-2 text-center text-sm text-text-secondary">
+                  {book.available_copies ?? 0} of {book.total_copies} {book.total_copies === 1 ? 'copy' : 'copies'} available
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -125,6 +309,128 @@ const BookDetailModal = ({
             </div>
           )}
 
+          {/* Hold Queue */}
+          {holds.length > 0 && (
+            <div>
+              <div className="flex items-center gap-2 text-text-secondary mb-2">
+                <Bookmark className="h-5 w-5" />
+                <span className="text-sm font-medium">Holds ({holds.length})</span>
+              </div>
+              <ol className="space-y-1">
+                {holds.map((hold) => (
+                  <li key={hold.id} className="flex items-center gap-2 text-sm text-text-secondary">
+                    <span className="w-6 text-text-tertiary">{hold.queue_position}.</span>
+                    <span>{hold.member_name}</span>
+                    {hold.status === 'ready' && (
+                      <Badge variant="info" size="sm">
+                        Ready{hold.expires_at && ` until ${new Date(hold.expires_at).toLocaleDateString()}`}
+                      </Badge>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          {/* Copies */}
+          {(copies.length > 0 || canEdit) && (
+            <div>
+              <div className="flex items-center gap-2 text-text-secondary mb-2">
+                <Layers className="h-5 w-5" />
+                <span className="text-sm font-medium">Copies ({copies.length})</span>
+              </div>
+              <ul className="divide-y divide-border border border-border rounded-lg">
+                {copies.map((copy) => (
+                  <li key={copy.id} className="flex flex-wrap items-center gap-2 px-3 py-2 text-sm">
+                    <span className="font-mono text-text-primary">{copy.barcode || `#${copy.id}`}</span>
+                    <Badge variant={COPY_STATUS_BADGES[copy.status].variant} size="sm">
+                      {COPY_STATUS_BADGES[copy.status].label}
+                    </Badge>
+                    <span className="text-text-tertiary capitalize">{copy.condition}</span>
+                    {copy.location && <span className="text-text-tertiary">· {copy.location}</span>}
+                    {copy.member_name && (
+                      <span className="text-text-secondary">
+                        · {copy.member_name}
+                        {copy.due_date && `, due ${new Date(copy.due_date).toLocaleDateString()}`}
+                      </span>
+                    )}
+                    <div className="ml-auto flex gap-1">
+                      {canViewHistory && (
+                        <Button variant="ghost" size="sm" onClick={() => handleToggleHistory(copy)}>
+                          {historyCopyId === copy.id ? 'Hide history' : 'History'}
+                        </Button>
+                      )}
+                      {canEdit && copy.status === 'available' && (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={() => handleSetCopyStatus(copy, 'unavailable')}>
+                            Set aside
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleSetCopyStatus(copy, 'withdrawn')}>
+                            Withdraw
+                          </Button>
+                        </>
+                      )}
+                      {canEdit && (copy.status === 'unavailable' || copy.status === 'withdrawn') && (
+                        <Button variant="ghost" size="sm" onClick={() => handleSetCopyStatus(copy, 'available')}>
+                          Put back
+                        </Button>
+                      )}
+                      {canEdit && copy.status !== 'on_loan' && copy.status !== 'on_hold_shelf' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          icon={<Trash2 className="h-4 w-4" />}
+                          onClick={() => handleDeleteCopy(copy)}
+                          aria-label={`Delete copy ${copy.barcode || copy.id}`}
+                          className="text-red-600 hover:text-red-700"
+                        />
+                      )}
+                    </div>
+                    {historyCopyId === copy.id && (
+                      <ul className="basis-full space-y-1 pl-2 text-xs text-text-tertiary">
+                        {conditionHistory.length === 0 ? (
+                          <li>No condition changes recorded.</li>
+                        ) : conditionHistory.map((entry) => (
+                          <li key={entry.id}>
+                            {new Date(entry.created_at).toLocaleDateString()}: <span className="capitalize">{entry.condition}</span>
+                            {entry.note && ` · ${entry.note}`}
+                            {entry.recorded_by_username && ` · ${entry.recorded_by_username}`}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              {canEdit && (
+                <div className="mt-3 grid grid-cols-1 sm:grid-cols-4 gap-2 items-end">
+                  <Input
+                    label="Barcode"
+                    value={newCopy.barcode}
+                    onChange={(e) => setNewCopy({ ...newCopy, barcode: e.target.value })}
+                    maxLength={50}
+                  />
+                  <Input
+                    label="Location"
+                    value={newCopy.location}
+                    onChange={(e) => setNewCopy({ ...newCopy, location: e.target.value })}
+                    maxLength={255}
+                  />
+                  <Select
+                    label="Condition"
+                    value={newCopy.condition}
+                    onChange={(e) => setNewCopy({ ...newCopy, condition: e.target.value })}
+                    options={CONDITION_OPTIONS}
+                  />
+                  <Button variant="outline" icon={<Plus className="h-4 w-4" />} onClick={handleAddCopy}>
+                    Add Copy
+                  </Button>
+                </div>
+              )}
+              {copyError && <p className="mt-2 text-sm text-red-600">{copyError}</p>}
+            </div>
+          )}
+
           {/* Added Date */}
           {book.created_at && (
             <div className="flex items-center gap-2 text-sm text-text-tertiary">
@@ -162,7 +468,7 @@ const BookDetailModal = ({
             )}
 
             {/* Admin Actions */}
-            {isAdmin && onEdit && (
+            {canEdit && onEdit && (
               <Button
                 variant="outline"
                 icon={<Edit className="h-5 w-5" />}
@@ -174,7 +480,7 @@ const BookDetailModal = ({
                 Edit
               </Button>
             )}
-            {isAdmin && onDelete && (
+            {canEdit && onDelete && (
               <Button
                 variant="ghost"
                 icon={<Trash2 className="h-5 w-5" />}
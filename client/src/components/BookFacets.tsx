@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import {
+  BOOK_FORMAT_LABELS,
+  decadeLabel,
+  hasBookFilters,
+  languageName,
+  EMPTY_BOOK_FILTERS,
+  type BookFacet,
+  type BookFacetCounts,
+  type BookFacetValue,
+  type BookFilters,
+} from '../utils/bookFields';
+
+interface BookFacetsProps {
+  facets: BookFacetCounts;
+  // Every category, to name chosen categories no longer counted
+  allCategories?: Array<{ id: number; name: string }>;
+  filters: BookFilters;
+  onChange: (filters: BookFilters) => void;
+}
+
+// Facets in the order they are shown, with how their values are labelled
+const FACET_SECTIONS: Array<{ facet: BookFacet; title: string; label: (value: BookFacetValue) => string }> = [
+  { facet: 'availability', title: 'Availability', label: ({ value }) => (value === 'true' ? 'Available' : 'Borrowed') },
+  { facet: 'categories', title: 'Categories', label: ({ value, label }) => label ?? value },
+  { facet: 'author', title: 'Author', label: ({ value }) => value },
+  { facet: 'language', title: 'Language', label: ({ value }) => languageName(value) },
+  { facet: 'decade', title: 'Published', label: ({ value }) => decadeLabel(value) },
+  { facet: 'format', title: 'Format', label: ({ value }) => BOOK_FORMAT_LABELS[value] ?? value },
+];
+
+// Values shown before "Show more"
+const COLLAPSED_VALUES = 6;
+
+/**
+ * The values of a facet with their counts, keeping chosen values that no
+ * longer match any book so they can still be unchosen
+ */
+const facetValues = (counts: BookFacetValue[], chosen: string[], labels: Map<string, string>): BookFacetValue[] => [
+  ...counts,
+  ...chosen
+    .filter(value => !counts.some(count => count.value === value))
+    .map(value => ({ value, label: labels.get(value), count: 0 })),
+];
+
+/**
+ * The book list's filter sidebar: each facet's values with how many books
+ * have them. Choosing several values of a facet shows books with any of
+ * them, or with all of them for categories when asked; choices in
+ * different facets must all match.
+ */
+const BookFacets = ({ facets, allCategories = [], filters, onChange }: BookFacetsProps) => {
+  const [expanded, setExpanded] = useState<Set<BookFacet>>(new Set());
+  const categoryLabels = new Map(allCategories.map(category => [String(category.id), category.name]));
+
+  const toggle = (facet: BookFacet, value: string) => {
+    const chosen = filters.values[facet];
+    onChange({
+      ...filters,
+      values: {
+        ...filters.values,
+        [facet]: chosen.includes(value) ? chosen.filter(item => item !== value) : [...chosen, value],
+      },
+    });
+  };
+
+  const toggleExpanded = (facet: BookFacet) => {
+    const next = new Set(expanded);
+    if (next.has(facet)) {
+      next.delete(facet);
+    } else {
+      next.add(facet);
+    }
+    setExpanded(next);
+  };
+
+  return (
+    <aside aria-label="Filters" className="bg-surface rounded-lg shadow-md p-4 space-y-5">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold text-text-primary">Filters</h2>
+        {hasBookFilters(filters) && (
+          <button
+            type="button"
+            onClick={() => onChange(EMPTY_BOOK_FILTERS)}
+            className="flex items-center gap-1 text-sm text-primary hover:underline"
+          >
+            <X className="h-3.5 w-3.5" />
+            Clear all
+          </button>
+        )}
+      </div>
+
+      {FACET_SECTIONS.map(({ facet, title, label }) => {
+        const chosen = filters.values[facet];
+        const values = facetValues(facets[facet] ?? [], chosen, facet === 'categories' ? categoryLabels : new Map());
+        if (values.length === 0) return null;
+        const shown = expanded.has(facet) ? values : values.slice(0, COLLAPSED_VALUES);
+
+        return (
+          <fieldset key={facet}>
+            <legend className="w-full flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-text-primary">{title}</span>
+              {facet === 'categories' && chosen.length > 1 && (
+                <div role="group" aria-label="Match categories" className="flex text-xs border border-border rounded-md overflow-hidden">
+                  {(['any', 'all'] as const).map(match => (
+                    <button
+                      key={match}
+                      type="button"
+                      aria-pressed={filters.categoryMatch === match}
+                      onClick={() => onChange({ ...filters, categoryMatch: match })}
+                      className={`px-2 py-0.5 ${
+                        filters.categoryMatch === match
+                          ? 'bg-primary text-white'
+                          : 'text-text-secondary hover:bg-background-secondary'
+                      }`}
+                    >
+                      {match === 'any' ? 'Any' : 'All'}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </legend>
+            <ul className="space-y-1">
+              {shown.map(value => (
+                <li key={value.value}>
+                  <label className="flex items-center gap-2 text-sm cursor-pointer text-text-secondary hover:text-text-primary">
+                    <input
+                      type="checkbox"
+                      checked={chosen.includes(value.value)}
+                      onChange={() => toggle(facet, value.value)}
+                      className="h-4 w-4 rounded cursor-pointer accent-primary"
+                    />
+                    <span className="flex-1 truncate">{label(value)}</span>
+                    <span className="text-xs text-text-tertiary tabular-nums">{value.count}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            {values.length > COLLAPSED_VALUES && (
+              <button
+                type="button"
+                onClick={() => toggleExpanded(facet)}
+                className="mt-1 text-xs text-primary hover:underline"
+              >
+                {expanded.has(facet) ? 'Show less' : `Show ${values.length - COLLAPSED_VALUES} more`}
+              </button>
+            )}
+          </fieldset>
+        );
+      })}
+    </aside>
+  );
+};
+
+export default BookFacets;
@@ -2,8 +2,9 @@ import { useState, useEffect } from 'react';
 import { config } from '../config';
 import { Upload, Search, X, Image as ImageIcon } from 'lucide-react';
 import { useAuth } from './AuthContext';
-import { Modal, Button, Input, MultiSelect, type MultiSelectOption } from './ui';
+import { Modal, Button, Input, Select, MultiSelect, type MultiSelectOption } from './ui';
 import { apiFetch } from '../utils/api';
+import { BOOK_FORMAT_LABELS } from '../utils/bookFields';
 
 interface Category {
   id: number;
@@ -18,6 +19,9 @@ interface Book {
   available?: boolean;
   cover_image_path?: string;
   description?: string;
+  language?: string | null;
+  publication_year?: number | null;
+  format?: string | null;
   categories?: Category[];
 }
 
@@ -79,6 +83,8 @@ const BookForm = ({ open, onClose, onSubmit, bookToEdit }: BookFormProps) => {
         author: data.author || '',
         isbn: lookupIsbn,
         description: data.description || '',
+        publication_year: data.publicationYear ?? prev.publication_year,
+        language: data.language || prev.language,
       }));
       setCoverPreview(data.coverUrl || null);
     } catch (error) {
@@ -101,8 +107,12 @@ const BookForm = ({ open, onClose, onSubmit, bookToEdit }: BookFormProps) => {
     }
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
+    if (name === 'publication_year') {
+      setBook((prevBook) => ({ ...prevBook, publication_year: value === '' ? null : Number(value) }));
+      return;
+    }
     setBook((prevBook) => ({ ...prevBook, [name]: value }));
   };
 
@@ -243,6 +253,39 @@ const BookForm = ({ open, onClose, onSubmit, bookToEdit }: BookFormProps) => {
           fullWidth
         />
 
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <Input
+            label="Language"
+            name="language"
+            value={book.language || ''}
+            onChange={handleChange}
+            placeholder="e.g. en"
+            helperText="A language code such as en or ml"
+            fullWidth
+          />
+          <Input
+            label="Publication Year"
+            name="publication_year"
+            type="number"
+            min={1}
+            max={9999}
+            value={book.publication_year ?? ''}
+            onChange={handleChange}
+            fullWidth
+          />
+          <Select
+            label="Format"
+            name="format"
+            value={book.format || ''}
+            onChange={handleChange}
+            options={[
+              { value: '', label: 'Not set' },
+              ...Object.entries(BOOK_FORMAT_LABELS).map(([value, label]) => ({ value, label })),
+            ]}
+            fullWidth
+          />
+        </div>
+
         {/* Description */}
         <div>
           <label htmlFor="description" className="block text-sm font-medium text-text-primary mb-2">
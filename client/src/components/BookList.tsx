@@ -1,12 +1,14 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import { config } from '../config';
-import { Edit2, Trash2, ChevronUp, ChevronDown, BookOpen, Plus, Grid3x3, List, CheckSquare, Square } from 'lucide-react';
-import { Badge, EmptyState, BookCard } from './ui';
+import { Edit2, Trash2, ChevronUp, ChevronDown, BookOpen, Plus, Grid3x3, List, CheckSquare, Square, HelpCircle } from 'lucide-react';
+import { Badge, EmptyState, BookCard, DidYouMean, ErrorMessage, Highlight } from './ui';
 import BookDetailModal from './BookDetailModal';
+import BookFacets from './BookFacets';
 import BulkActionsToolbar from './BulkActionsToolbar';
 import { useAuth } from './AuthContext';
 import { apiFetch } from '../utils/api';
+import { hasBookFilters, type BookFacetCounts, type BookFilters } from '../utils/bookFields';
 
 interface Category {
   id: number;
@@ -19,10 +21,16 @@ interface Book {
   author: string;
   isbn: string;
   available: boolean;
+  on_hold_shelf?: boolean;
+  available_copies?: number;
+  total_copies?: number;
   cover_image_path?: string;
   description?: string;
   categories?: Category[];
   created_at?: string;
+  // Returned for searches, with the matching words wrapped in <mark>
+  title_highlight?: string;
+  description_snippet?: string | null;
 }
 
 interface BookListProps {
@@ -34,11 +42,102 @@ interface BookListProps {
   sortOrder: 'asc' | 'desc';
   onSortChange: (sortBy: string, sortOrder: 'asc' | 'desc') => void;
   allCategories?: Category[];
+  searchQuery?: string;
+  // The corrected search, when the search had no exact hits and similar words were matched instead
+  didYouMean?: string;
+  onSearchChange?: (search: string) => void;
+  // Why the search could not be run, such as an unknown field
+  searchError?: string;
+  // Counts for the filter sidebar, which is shown when there are counts
+  facets?: BookFacetCounts;
+  filters?: BookFilters;
+  onFiltersChange?: (filters: BookFilters) => void;
   onRefresh?: () => void;
   setNotification?: (notification: { open: boolean; message: string; severity: 'success' | 'error' | 'info' | 'warning' }) => void;
 }
 
 
+// The fields a search can be narrowed by, with an example of each
+const SEARCH_FIELDS = [
+  { example: 'author:pratchett', description: 'Author contains the words' },
+  { example: 'title:"colour of"', description: 'Title contains the words' },
+  { example: 'category:fantasy', description: 'In the category' },
+  { example: 'isbn:0-552-12475-3', description: 'Has the ISBN' },
+  { example: 'available:yes', description: 'Can be borrowed now (yes or no)' },
+  { example: 'year:>1990', description: 'Published after 1990; also 1990, <=2000, 1990..1999 or 1990s' },
+  { example: 'language:en', description: 'In the language (en also matches en-GB)' },
+  { example: 'format:paperback', description: 'hardcover, paperback, ebook, audiobook, large_print or other' },
+  { example: 'added:this-month', description: 'Added to the catalogue this month; also today, this-week, this-year, 30d, 2026-10 or >=2026-01-01' },
+  { example: 'borrowed:never', description: 'Never lent (never or no); borrowed:yes has been lent' },
+];
+
+/**
+ * A button that opens a list of what can be typed into the search box
+ */
+const SearchHelp = () => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [open]);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        aria-controls="book-search-help"
+        className="flex items-center gap-2 px-4 py-2 bg-background-secondary border border-border rounded-lg hover:bg-background-tertiary transition-colors text-text-primary"
+      >
+        <HelpCircle className="h-5 w-5" />
+        <span>Search Tips</span>
+      </button>
+      {open && (
+        <div
+          id="book-search-help"
+          role="dialog"
+          aria-label="Search tips"
+          className="absolute z-30 left-0 mt-2 w-[22rem] max-w-[90vw] bg-surface border border-border rounded-lg shadow-lg p-4 text-sm"
+        >
+          <p className="text-text-secondary mb-3">
+            Search words match titles, authors, ISBNs, categories and descriptions. Use{' '}
+            <code className="font-mono">"exact phrase"</code>, <code className="font-mono">prefix*</code> and{' '}
+            <code className="font-mono">-word</code>, and narrow by field:
+          </p>
+          <dl className="space-y-2">
+            {SEARCH_FIELDS.map(({ example, description }) => (
+              <div key={example}>
+                <dt className="font-mono text-text-primary">{example}</dt>
+                <dd className="text-text-tertiary text-xs">{description}</dd>
+              </div>
+            ))}
+          </dl>
+          <p className="text-text-secondary mt-3">
+            Put - before a field to exclude it, as in <code className="font-mono">-category:horror</code>.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
 interface SortableHeaderProps {
   label: string;
   columnId: string;
@@ -69,9 +168,9 @@ const SortableHeader = ({ label, columnId, sortBy, sortOrder, onSort }: Sortable
   );
 };
 
-const BookList = ({ books, onEdit, onDelete, onAdd, sortBy, sortOrder, onSortChange, allCategories = [], onRefresh, setNotification }: BookListProps) => {
-  const { user, token } = useAuth();
-  const isAdmin = user?.role === 'admin';
+const BookList = ({ books, onEdit, onDelete, onAdd, sortBy, sortOrder, onSortChange, allCategories = [], searchQuery, didYouMean, onSearchChange, searchError, facets, filters, onFiltersChange, onRefresh, setNotification }: BookListProps) => {
+  const { token, hasPermission } = useAuth();
+  const canEditBooks = hasPermission('books:write');
 
   // View mode state - default to grid view
   const [viewMode, setViewMode] = useState<'table' | 'grid'>(() => {
@@ -261,29 +360,61 @@ const BookList = ({ books, onEdit, onDelete, onAdd, sortBy, sortOrder, onSortCha
     }
   };
 
-  if (books.length === 0) {
-    return (
-      <div className="bg-surface rounded-lg shadow-md">
-        <EmptyState
-          icon={BookOpen}
-          title="No Books Found"
-          description="Your library is empty. Start building your collection by adding your first book!"
-          action={{
-            label: 'Add Your First Book',
-            onClick: onAdd,
-            icon: <Plus className="h-5 w-5" />,
-          }}
-        />
+  const filtered = filters !== undefined && hasBookFilters(filters);
+
+  // The filter sidebar stays beside the list, so filters can be changed when nothing matches
+  const withFacets = (content: React.ReactNode) =>
+    facets && filters && onFiltersChange ? (
+      <div className="flex flex-col lg:flex-row gap-4 items-start">
+        <div className="w-full lg:w-64 lg:flex-shrink-0">
+          <BookFacets facets={facets} allCategories={allCategories} filters={filters} onChange={onFiltersChange} />
+        </div>
+        <div className="flex-1 min-w-0 w-full">{content}</div>
       </div>
+    ) : content;
+
+  if (books.length === 0) {
+    let description = 'Your library is empty. Start building your collection by adding your first book!';
+    if (searchQuery) {
+      description = `No books match “${searchQuery}”, even allowing for typos. Try fewer or different words.`;
+    } else if (filtered) {
+      description = 'No books match the chosen filters. Try choosing fewer of them.';
+    }
+
+    return withFacets(
+      <>
+        {searchError && <ErrorMessage message={searchError} className="mb-4" />}
+        <div className="flex mb-4">
+          <SearchHelp />
+        </div>
+        <div className="bg-surface rounded-lg shadow-md">
+          <EmptyState
+            icon={BookOpen}
+            title="No Books Found"
+            description={searchQuery && filtered ? `${description} Filters are narrowing the search too.` : description}
+            action={canEditBooks && !searchQuery && !filtered ? {
+              label: 'Add Your First Book',
+              onClick: onAdd,
+              icon: <Plus className="h-5 w-5" />,
+            } : undefined}
+          />
+        </div>
+      </>
     );
   }
 
-  return (
+  return withFacets(
     <>
-      {/* View Toggle and Bulk Select Buttons */}
+      {searchError && <ErrorMessage message={searchError} className="mb-4" />}
+      {didYouMean && searchQuery && onSearchChange && !searchError && (
+        <DidYouMean search={searchQuery} suggestion={didYouMean} onSearch={onSearchChange} className="mb-4" />
+      )}
+
+      {/* Search Tips, View Toggle and Bulk Select Buttons */}
       <div className="flex justify-between mb-4">
-        <div>
-          {isAdmin && (
+        <div className="flex gap-2">
+          <SearchHelp />
+          {canEditBooks && (
             <motion.button
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
@@ -346,7 +477,7 @@ const BookList = ({ books, onEdit, onDelete, onAdd, sortBy, sortOrder, onSortCha
         <table className="w-full min-w-[650px]">
           <thead className="bg-background-secondary border-b border-border">
             <tr>
-              {bulkSelectMode && isAdmin && (
+              {bulkSelectMode && canEditBooks && (
                 <th className="px-4 py-3 text-center w-12">
                   <input
                     type="checkbox"
@@ -411,7 +542,7 @@ const BookList = ({ books, onEdit, onDelete, onAdd, sortBy, sortOrder, onSortCha
                       : 'hover:bg-background-secondary'
                   }`}
                 >
-                  {bulkSelectMode && isAdmin && (
+                  {bulkSelectMode && canEditBooks && (
                     <td className="px-4 py-3 text-center">
                       <input
                         type="checkbox"
@@ -437,7 +568,14 @@ const BookList = ({ books, onEdit, onDelete, onAdd, sortBy, sortOrder, onSortCha
                       </div>
                     )}
                   </td>
-                  <td className="px-4 py-3 text-text-primary font-medium">{book.title}</td>
+                  <td className="px-4 py-3">
+                    <div className="text-text-primary font-medium">
+                      {book.title_highlight ? <Highlight text={book.title_highlight} /> : book.title}
+                    </div>
+                    {book.description_snippet?.includes('<mark>') && (
+                      <Highlight text={book.description_snippet} className="block text-xs text-text-tertiary mt-1 line-clamp-2" />
+                    )}
+                  </td>
                   <td className="px-4 py-3 text-text-secondary">{book.author}</td>
                   <td className="px-4 py-3 text-text-secondary font-mono text-sm">{book.isbn}</td>
                   <td className="px-4 py-3">
@@ -454,31 +592,38 @@ const BookList = ({ books, onEdit, onDelete, onAdd, sortBy, sortOrder, onSortCha
                     </div>
                   </td>
                   <td className="px-4 py-3">
-                    <Badge variant={book.available ? 'success' : 'warning'} size="sm">
-                      {book.available ? 'Available' : 'Borrowed'}
+                    <Badge variant={book.available ? 'success' : book.on_hold_shelf ? 'info' : 'warning'} size="sm">
+                      {book.available ? 'Available' : book.on_hold_shelf ? 'On Hold' : 'Borrowed'}
                     </Badge>
+                    {book.total_copies !== undefined && (
+                      <div className="text-xs text-text-tertiary mt-1">
+                        {book.available_copies ?? 0} of {book.total_copies} available
+                      </div>
+                    )}
                   </td>
                   <td className="px-4 py-3">
-                    <div className="flex items-center justify-end gap-2">
-                      <motion.button
-                        whileHover={{ scale: 1.1 }}
-                        whileTap={{ scale: 0.9 }}
-                        onClick={() => onEdit(book)}
-                        className="p-2 text-primary hover:bg-primary/10 rounded-lg transition-colors"
-                        aria-label="Edit book"
-                      >
-                        <Edit2 className="h-4 w-4" />
-                      </motion.button>
-                      <motion.button
-                        whileHover={{ scale: 1.1 }}
-                        whileTap={{ scale: 0.9 }}
-                        onClick={() => onDelete(book.id)}
-                        className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
-                        aria-label="Delete book"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </motion.button>
-                    </div>
+                    {canEditBooks && (
+                      <div className="flex items-center justify-end gap-2">
+                        <motion.button
+                          whileHover={{ scale: 1.1 }}
+                          whileTap={{ scale: 0.9 }}
+                          onClick={() => onEdit(book)}
+                          className="p-2 text-primary hover:bg-primary/10 rounded-lg transition-colors"
+                          aria-label="Edit book"
+                        >
+                          <Edit2 className="h-4 w-4" />
+                        </motion.button>
+                        <motion.button
+                          whileHover={{ scale: 1.1 }}
+                          whileTap={{ scale: 0.9 }}
+                          onClick={() => onDelete(book.id)}
+                          className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                          aria-label="Delete book"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </motion.button>
+                      </div>
+                    )}
                   </td>
                 </motion.tr>
               ))
@@ -496,17 +641,17 @@ const BookList = ({ books, onEdit, onDelete, onAdd, sortBy, sortOrder, onSortCha
         onClose={handleDetailModalClose}
         onEdit={selectedBook ? () => onEdit(selectedBook) : undefined}
         onDelete={selectedBook ? () => onDelete(selectedBook.id) : undefined}
-        isAdmin={isAdmin}
+        canEdit={canEditBooks}
       />
 
       {/* Bulk Actions Toolbar */}
-      {bulkSelectMode && isAdmin && (
+      {bulkSelectMode && canEditBooks && (
         <BulkActionsToolbar
           selectedCount={selectedBookIds.size}
           onClearSelection={clearBulkSelection}
           onDelete={handleBulkDelete}
           onMarkAvailable={() => handleBulkUpdateAvailability(true)}
-          onMarkBorrowed={() => handleBulkUpdateAvailability(false)}
+          onMarkUnavailable={() => handleBulkUpdateAvailability(false)}
           onAddCategories={handleBulkAddCategories}
           onRemoveCategories={handleBulkRemoveCategories}
           onExport={handleBulkExport}
@@ -0,0 +1,156 @@
+import { useEffect, useRef, useState } from 'react';
+import { BookOpen } from 'lucide-react';
+import { config } from '../config';
+import { Input } from './ui';
+import { useAuth } from './AuthContext';
+import { apiFetch } from '../utils/api';
+
+interface BookSuggestion {
+  id: number;
+  title: string;
+  author: string;
+}
+
+interface BookSearchInputProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Wait for a pause in typing before asking for suggestions
+const SUGGEST_DELAY_MS = 350;
+
+// A field of the search, such as author:pratchett, which suggestions would not match
+const SEARCH_FIELD = /(^|\s)-?[a-z]+:\S/i;
+
+/**
+ * The book search box, suggesting the books whose title or author best
+ * match what has been typed so far, misspellings included
+ */
+const BookSearchInput = ({ value, onChange }: BookSearchInputProps) => {
+  const { token } = useAuth();
+  const [suggestions, setSuggestions] = useState<BookSuggestion[]>([]);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  // Only what is typed is completed, not a search chosen from the list
+  const [typed, setTyped] = useState(false);
+  // Suggestions already fetched, by search, so backspacing does not ask again
+  const cache = useRef(new Map<string, BookSuggestion[]>());
+  const completing = typed && value.trim().length >= 2 && !SEARCH_FIELD.test(value);
+
+  useEffect(() => {
+    if (!completing) return;
+
+    const key = value.trim().toLowerCase();
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const cached = cache.current.get(key);
+      if (cached) {
+        setSuggestions(cached);
+        setActiveIndex(-1);
+        return;
+      }
+
+      try {
+        const response = await apiFetch(`${config.apiUrl}/books/suggest?q=${encodeURIComponent(value)}`, {
+          headers: { 'Authorization': `Bearer ${token}` },
+        });
+        if (!response.ok) return;
+        const result = await response.json();
+        cache.current.set(key, result.data || []);
+        if (!cancelled) {
+          setSuggestions(result.data || []);
+          setActiveIndex(-1);
+        }
+      } catch (error) {
+        // Suggestions are a convenience; searching still works without them
+        console.error(error);
+      }
+    }, SUGGEST_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [completing, value, token]);
+
+  const choose = (suggestion: BookSuggestion) => {
+    setTyped(false);
+    onChange(suggestion.title);
+    setOpen(false);
+  };
+
+  const showSuggestions = open && completing && suggestions.length > 0;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((activeIndex + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(activeIndex <= 0 ? suggestions.length - 1 : activeIndex - 1);
+    } else if (e.key === 'Enter' && activeIndex >= 0) {
+      e.preventDefault();
+      choose(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        label="Search Books"
+        value={value}
+        onChange={(e) => {
+          setTyped(true);
+          setOpen(true);
+          onChange(e.target.value);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        placeholder='Search by title, author, ISBN or description; "phrase", -exclude, prefix*, author:name, year:>1990'
+        role="combobox"
+        aria-expanded={showSuggestions}
+        aria-controls="book-search-suggestions"
+        aria-autocomplete="list"
+        autoComplete="off"
+        fullWidth
+      />
+      {showSuggestions && (
+        <ul
+          id="book-search-suggestions"
+          role="listbox"
+          className="absolute z-20 mt-1 w-full bg-surface border border-border rounded-lg shadow-lg overflow-hidden"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Chosen on mouse down, before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                choose(suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex items-center gap-2 px-3 py-2 cursor-pointer ${
+                index === activeIndex ? 'bg-primary/10' : ''
+              }`}
+            >
+              <BookOpen className="h-4 w-4 flex-shrink-0 text-text-tertiary" />
+              <span className="truncate">
+                <span className="text-text-primary">{suggestion.title}</span>
+                {suggestion.author && <span className="text-text-secondary"> · {suggestion.author}</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BookSearchInput;
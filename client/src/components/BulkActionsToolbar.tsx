@@ -14,7 +14,7 @@ interface BulkActionsToolbarProps {
   onClearSelection: () => void;
   onDelete: () => void;
   onMarkAvailable: () => void;
-  onMarkBorrowed: () => void;
+  onMarkUnavailable: () => void;
   onAddCategories: (categoryIds: number[]) => void;
   onRemoveCategories: (categoryIds: number[]) => void;
   onExport: () => void;
@@ -26,7 +26,7 @@ const BulkActionsToolbar = ({
   onClearSelection,
   onDelete,
   onMarkAvailable,
-  onMarkBorrowed,
+  onMarkUnavailable,
   onAddCategories,
   onRemoveCategories,
   onExport,
@@ -89,10 +89,10 @@ const BulkActionsToolbar = ({
                   variant="secondary"
                   size="sm"
                   icon={<XCircle className="h-4 w-4" />}
-                  onClick={onMarkBorrowed}
-                  title="Mark as Borrowed"
+                  onClick={onMarkUnavailable}
+                  title="Take copies out of circulation"
                 >
-                  <span className="hidden sm:inline">Borrowed</span>
+                  <span className="hidden sm:inline">Unavailable</span>
                 </Button>
 
                 <Button
@@ -2,8 +2,10 @@ import { useState } from 'react';
 import { config } from '../config';
 import { apiFetch } from '../utils/api';
 import { Download, Upload, FileText } from 'lucide-react';
-import { Modal, Button } from './ui';
+import { Modal, Button, Select } from './ui';
 import { useAuth } from './AuthContext';
+import ImportReview, { type ImportSummary } from './ImportReview';
+import ImportMapping from './ImportMapping';
 
 interface BulkImportDialogProps {
   open: boolean;
@@ -16,6 +18,35 @@ interface BulkImportDialogProps {
   }) => void;
 }
 
+type ImportSource = 'csv' | 'goodreads' | 'librarything' | 'calibre' | 'marc';
+
+// Where books can be imported from, the files each accepts and how to get them
+const IMPORT_SOURCES: Record<ImportSource, { label: string; accept: string; help?: string }> = {
+  csv: {
+    label: 'CSV file',
+    accept: '.csv',
+  },
+  goodreads: {
+    label: 'Goodreads',
+    accept: '.csv',
+    help: 'In Goodreads, go to My Books → Import and export → Export Library and upload the CSV file. Shelves become categories, and your ratings are noted in the description, such as "Rated 4 out of 5 stars".',
+  },
+  librarything: {
+    label: 'LibraryThing',
+    accept: '.tsv,.txt,.csv,.json',
+    help: 'In LibraryThing, go to More → Import/Export → Export and upload the tab-delimited or JSON file. Tags and your own collections become categories, and your ratings are noted at the end of the description.',
+  },
+  calibre: {
+    label: 'Calibre',
+    accept: '.db,.csv',
+    help: 'Upload metadata.db from your Calibre library folder, or a CSV catalog created with Convert books → Create a catalog. Tags become categories, comments become descriptions, and ratings are noted at the end of the description.',
+  },
+  marc: {
+    label: 'MARC records',
+    accept: '.mrc,.marc,.xml',
+    help: 'Upload MARC 21 records (.mrc) or MARCXML (.xml) from another library. ISBNs (020), authors (100), titles (245), summaries (520) and subjects (650) are imported; records that cannot be read, or are not books, are listed with the reason in the review.',
+  },
+};
 
 const BulkImportDialog = ({
   open,
@@ -24,8 +55,11 @@ const BulkImportDialog = ({
   setNotification,
 }: BulkImportDialogProps) => {
   const { token } = useAuth();
+  const [source, setSource] = useState<ImportSource>('csv');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [preview, setPreview] = useState<ImportSummary | null>(null);
+  const [isReviewing, setIsReviewing] = useState(false);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files.length > 0) {
@@ -36,7 +70,7 @@ const BulkImportDialog = ({
   };
 
   const handleDownloadTemplate = () => {
-    const csvContent = "title,author,isbn,categories,cover_image_url\n";
+    const csvContent = "title,author,isbn,categories,cover_image_url,barcode,condition,location,acquisition_date,price\n";
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
     const link = document.createElement("a");
     if (link.download !== undefined) {
@@ -52,14 +86,15 @@ const BulkImportDialog = ({
 
   const handleUpload = async () => {
     if (!selectedFile) {
-      setNotification({ open: true, message: 'Please select a CSV file to upload.', severity: 'warning' });
+      setNotification({ open: true, message: 'Please select a file to upload.', severity: 'warning' });
       return;
     }
 
     setIsUploading(true);
-    setNotification({ open: true, message: 'Uploading books...', severity: 'info' });
+    setNotification({ open: true, message: 'Checking books...', severity: 'info' });
 
     const formData = new FormData();
+    formData.append('source', source);
     formData.append('file', selectedFile);
 
     try {
@@ -74,16 +109,13 @@ const BulkImportDialog = ({
       const result = await response.json();
 
       if (!response.ok) {
-        throw new Error(result.error || 'Failed to bulk import books');
+        throw new Error(result.error || 'Failed to upload books');
       }
 
-      setNotification({
-        open: true,
-        message: result.message || 'Books imported successfully!',
-        severity: result.errors && result.errors.length > 0 ? 'warning' : 'success',
-      });
-      onImportSuccess(); // Trigger parent to refetch books
-      onClose(); // Close dialog
+      // Check how the columns were mapped, then review what the import would do
+      setPreview(result);
+      setIsReviewing(false);
+      setNotification({ open: false, message: '', severity: 'info' });
     } catch (error: any) {
       console.error('Bulk import error:', error);
       setNotification({ open: true, message: error.message, severity: 'error' });
@@ -93,83 +125,144 @@ const BulkImportDialog = ({
     }
   };
 
+  const handleClose = () => {
+    setPreview(null);
+    setIsReviewing(false);
+    setSelectedFile(null);
+    onClose();
+  };
+
+  const handleImportFinished = (result: ImportSummary) => {
+    if (result.status === 'completed') {
+      setNotification({
+        open: true,
+        message: `Import finished: ${result.created_count} created${result.updated_count > 0 ? `, ${result.updated_count} updated` : ''}${result.failed_count > 0 ? `, ${result.failed_count} failed` : ''}.`,
+        severity: result.failed_count > 0 ? 'warning' : 'success',
+      });
+    } else if (result.status === 'failed') {
+      setNotification({ open: true, message: `Import stopped: ${result.error}`, severity: 'error' });
+    } else {
+      setNotification({ open: true, message: 'The import is continuing in the background.', severity: 'info' });
+    }
+    onImportSuccess(); // Trigger parent to refetch books
+    handleClose();
+  };
+
   return (
     <Modal
       open={open}
-      onClose={onClose}
+      onClose={handleClose}
       title="Bulk Import Books"
-      size="sm"
+      size={preview ? 'lg' : 'sm'}
     >
-      <div className="space-y-6">
-        {/* Instructions */}
-        <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
-          <div className="text-sm text-blue-800 dark:text-blue-300 space-y-2">
-            <p>Download the template, fill in your book details, and upload the CSV file.</p>
-            <ul className="list-disc list-inside space-y-1 ml-2">
-              <li><strong>title</strong> and <strong>author</strong> are required</li>
-              <li><strong>isbn</strong> is optional (used for duplicate detection)</li>
-              <li><strong>categories</strong> is optional (comma-separated, e.g., "Fiction, Mystery")</li>
-              <li><strong>cover_image_url</strong> is optional (URL to download cover image)</li>
-            </ul>
-          </div>
-        </div>
+      {preview && isReviewing ? (
+        <ImportReview
+          preview={preview}
+          updateLabel="To update"
+          onBack={() => setIsReviewing(false)}
+          onCancel={handleClose}
+          onFinished={handleImportFinished}
+        />
+      ) : preview ? (
+        <ImportMapping
+          preview={preview}
+          keyLabel="ISBN"
+          onCancel={handleClose}
+          onContinue={(planned) => { setPreview(planned); setIsReviewing(true); }}
+        />
+      ) : (
+        <div className="space-y-6">
+          <Select
+            label="Import from"
+            value={source}
+            onChange={(e) => { setSource(e.target.value as ImportSource); setSelectedFile(null); }}
+            options={(Object.keys(IMPORT_SOURCES) as ImportSource[]).map(value => ({ value, label: IMPORT_SOURCES[value].label }))}
+            fullWidth
+          />
 
-        {/* Download Template Section */}
-        <div>
-          <h3 className="text-sm font-semibold text-text-primary mb-3">Step 1: Download Template</h3>
-          <Button
-            variant="outline"
-            icon={<Download className="h-5 w-5" />}
-            onClick={handleDownloadTemplate}
-          >
-            Download CSV Template
-          </Button>
-        </div>
+          {source === 'csv' ? (
+            <>
+              {/* Instructions */}
+              <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
+                <div className="text-sm text-blue-800 dark:text-blue-300 space-y-2">
+                  <p>Download the template, fill in your book details, and upload the CSV file. Columns with other names can be matched to these fields after uploading, and you can review what will be created or updated and any problems before the import starts.</p>
+                  <ul className="list-disc list-inside space-y-1 ml-2">
+                    <li><strong>title</strong> and <strong>author</strong> are required</li>
+                    <li><strong>isbn</strong> is optional; when inserting, a row whose ISBN is already in the catalog adds a copy to that book, and when updating it finds the book to update</li>
+                    <li><strong>categories</strong> is optional (comma-separated, e.g., "Fiction, Mystery")</li>
+                    <li><strong>cover_image_url</strong> is optional (URL to download cover image)</li>
+                    <li><strong>barcode</strong>, <strong>condition</strong> (new, good, fair, poor), <strong>location</strong>, <strong>acquisition_date</strong> (YYYY-MM-DD) and <strong>price</strong> describe the copy and are optional</li>
+                  </ul>
+                </div>
+              </div>
 
-        {/* Upload Section */}
-        <div>
-          <h3 className="text-sm font-semibold text-text-primary mb-3">Step 2: Upload CSV File</h3>
-          <label className="block">
-            <input
-              type="file"
-              accept=".csv"
-              onChange={handleFileChange}
-              className="hidden"
-              id="csv-upload"
-            />
-            <div className="border-2 border-dashed border-border rounded-lg p-6 text-center cursor-pointer hover:border-primary hover:bg-background-secondary transition-colors">
-              <FileText className="h-12 w-12 text-text-tertiary mx-auto mb-3" />
-              <p className="text-sm font-medium text-text-primary mb-1">
-                {selectedFile ? selectedFile.name : 'Click to select CSV file'}
-              </p>
-              <p className="text-xs text-text-secondary">
-                {selectedFile ? 'Click to choose a different file' : 'or drag and drop your CSV file here'}
+              {/* Download Template Section */}
+              <div>
+                <h3 className="text-sm font-semibold text-text-primary mb-3">Step 1: Download Template</h3>
+                <Button
+                  variant="outline"
+                  icon={<Download className="h-5 w-5" />}
+                  onClick={handleDownloadTemplate}
+                >
+                  Download CSV Template
+                </Button>
+              </div>
+            </>
+          ) : (
+            <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
+              <p className="text-sm text-blue-800 dark:text-blue-300">
+                {IMPORT_SOURCES[source].help} You can map the fields and review what will be created or updated before the import starts.
               </p>
             </div>
-          </label>
-        </div>
+          )}
 
-        {/* Action Buttons */}
-        <div className="flex justify-end gap-3 pt-4 border-t border-border">
-          <Button
-            type="button"
-            variant="ghost"
-            onClick={onClose}
-            disabled={isUploading}
-          >
-            Cancel
-          </Button>
-          <Button
-            variant="primary"
-            icon={<Upload className="h-5 w-5" />}
-            onClick={handleUpload}
-            disabled={!selectedFile || isUploading}
-            loading={isUploading}
-          >
-            {isUploading ? 'Uploading...' : 'Upload'}
-          </Button>
+          {/* Upload Section */}
+          <div>
+            <h3 className="text-sm font-semibold text-text-primary mb-3">
+              {source === 'csv' ? 'Step 2: Upload CSV File' : `Upload ${IMPORT_SOURCES[source].label} Export`}
+            </h3>
+            <label className="block">
+              <input
+                type="file"
+                accept={IMPORT_SOURCES[source].accept}
+                onChange={handleFileChange}
+                className="hidden"
+                id="csv-upload"
+              />
+              <div className="border-2 border-dashed border-border rounded-lg p-6 text-center cursor-pointer hover:border-primary hover:bg-background-secondary transition-colors">
+                <FileText className="h-12 w-12 text-text-tertiary mx-auto mb-3" />
+                <p className="text-sm font-medium text-text-primary mb-1">
+                  {selectedFile ? selectedFile.name : 'Click to select a file'}
+                </p>
+                <p className="text-xs text-text-secondary">
+                  {selectedFile ? 'Click to choose a different file' : 'or drag and drop your file here'}
+                </p>
+              </div>
+            </label>
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex justify-end gap-3 pt-4 border-t border-border">
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={handleClose}
+              disabled={isUploading}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              icon={<Upload className="h-5 w-5" />}
+              onClick={handleUpload}
+              disabled={!selectedFile || isUploading}
+              loading={isUploading}
+            >
+              {isUploading ? 'Checking...' : 'Preview Import'}
+            </Button>
+          </div>
         </div>
-      </div>
+      )}
     </Modal>
   );
 };
@@ -13,7 +13,8 @@ interface Category {
 
 
 const CategoryManagement = () => {
-  const { token, user } = useAuth();
+  const { token, hasPermission } = useAuth();
+  const canManageCategories = hasPermission('books:write');
   const navigate = useNavigate();
   const [categories, setCategories] = useState<Category[]>([]);
   const [newCategoryName, setNewCategoryName] = useState('');
@@ -22,12 +23,12 @@ const CategoryManagement = () => {
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    if (user?.role !== 'admin') {
-      navigate('/dashboard'); // Redirect if not admin
+    if (!canManageCategories) {
+      navigate('/dashboard'); // Redirect if the role cannot edit the catalogue
     } else {
       fetchCategories();
     }
-  }, [token, user, navigate]);
+  }, [token, canManageCategories, navigate]);
 
   const fetchCategories = async () => {
     setError(null);
@@ -126,12 +127,12 @@ const CategoryManagement = () => {
     }
   };
 
-  if (user?.role !== 'admin') {
+  if (!canManageCategories) {
     return (
       <div className="max-w-4xl mx-auto px-4 py-8">
         <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
           <p className="text-red-800 dark:text-red-300 font-medium">
-            Access Denied: You must be an administrator to manage categories.
+            Access Denied: Your role does not allow managing categories.
           </p>
         </div>
       </div>
@@ -0,0 +1,322 @@
+import { useState, useRef, useEffect } from 'react';
+import { ScanLine, User, X, CheckCircle, XCircle, BookPlus, BookCheck } from 'lucide-react';
+import { Card, Button, Input, Badge } from './ui';
+import { config } from '../config';
+import { useAuth } from './AuthContext';
+import { apiFetch } from '../utils/api';
+import { playScanTone } from '../utils/scanFeedback';
+
+type DeskMode = 'checkout' | 'checkin';
+
+interface Member {
+  id: number;
+  name: string;
+  barcode: string;
+}
+
+interface Book {
+  id: number;
+  title: string;
+  author: string;
+  available: boolean;
+}
+
+interface Copy {
+  id: number;
+  barcode: string | null;
+  status: 'available' | 'on_loan' | 'on_hold_shelf' | 'unavailable' | 'withdrawn';
+}
+
+type ScanResult =
+  | { type: 'member'; code: string; member: Member }
+  | { type: 'copy'; code: string; copy: Copy; book: Book }
+  | { type: 'book'; code: string; book: Book };
+
+interface ScannedItem {
+  code: string;
+  title: string;
+  detail: string;
+}
+
+interface CompletedItem {
+  code: string;
+  book_title: string;
+  copy_barcode?: string | null;
+  member_name?: string | null;
+  fine?: number;
+  hold?: { id: number } | null;
+  loan: { due_date: string };
+}
+
+interface LastScan {
+  ok: boolean;
+  message: string;
+}
+
+interface CirculationDeskProps {
+  onCirculationChange: () => void;
+  setNotification: (notification: {
+    open: boolean;
+    message: string;
+    severity: 'success' | 'error' | 'info' | 'warning';
+  }) => void;
+}
+
+const COPY_STATUS_LABELS: Record<Copy['status'], string> = {
+  available: 'on the shelf',
+  on_loan: 'on loan',
+  on_hold_shelf: 'on the hold shelf',
+  unavailable: 'out of circulation',
+  withdrawn: 'withdrawn',
+};
+
+const CirculationDesk = ({ onCirculationChange, setNotification }: CirculationDeskProps) => {
+  const { token } = useAuth();
+  const [mode, setMode] = useState<DeskMode>('checkout');
+  const [member, setMember] = useState<Member | null>(null);
+  const [items, setItems] = useState<ScannedItem[]>([]);
+  const [completed, setCompleted] = useState<CompletedItem[]>([]);
+  const [code, setCode] = useState('');
+  const [lastScan, setLastScan] = useState<LastScan | null>(null);
+  const [busy, setBusy] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Keep the scan field focused so the scanner's keystrokes always land in it
+  useEffect(() => {
+    if (!busy) inputRef.current?.focus();
+  }, [busy, mode, member, items]);
+
+  const report = (ok: boolean, message: string) => {
+    playScanTone(ok ? 'success' : 'error');
+    setLastScan({ ok, message });
+  };
+
+  const switchMode = (next: DeskMode) => {
+    setMode(next);
+    setMember(null);
+    setItems([]);
+    setCompleted([]);
+    setLastScan(null);
+  };
+
+  /**
+   * Check a scanned item can go into the current batch; returns why not, or null
+   */
+  const rejectItem = (scan: Exclude<ScanResult, { type: 'member' }>): string | null => {
+    if (items.some(item => item.code === scan.code)) {
+      return `${scan.code} is already in this batch`;
+    }
+    if (mode === 'checkout') {
+      if (!member) return 'Scan a member card first';
+      if (scan.type === 'copy' && scan.copy.status !== 'available' && scan.copy.status !== 'on_hold_shelf') {
+        return `${scan.book.title} (${scan.code}) is ${COPY_STATUS_LABELS[scan.copy.status]}`;
+      }
+    } else if (scan.type === 'copy' && scan.copy.status !== 'on_loan') {
+      return `${scan.book.title} (${scan.code}) is not on loan`;
+    }
+    return null;
+  };
+
+  const handleScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const scanned = code.trim();
+    setCode('');
+    if (!scanned) return;
+
+    try {
+      const response = await apiFetch(`${config.apiUrl}/circulation/resolve?code=${encodeURIComponent(scanned)}`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to look up code');
+      }
+
+      const scan = result as ScanResult;
+      if (scan.type === 'member') {
+        if (mode === 'checkin') {
+          report(false, `${scan.member.name}'s card: switch to Check Out to lend items`);
+          return;
+        }
+        setMember(scan.member);
+        setItems([]);
+        setCompleted([]);
+        report(true, `Member: ${scan.member.name}`);
+        return;
+      }
+
+      const rejection = rejectItem(scan);
+      if (rejection) {
+        report(false, rejection);
+        return;
+      }
+
+      const detail = scan.type === 'copy' ? `Copy ${scan.code}` : `ISBN ${scan.code}`;
+      setItems(prev => [...prev, { code: scan.code, title: scan.book.title, detail }]);
+      report(true, `${scan.book.title} added`);
+    } catch (err) {
+      report(false, `${scanned}: ${err instanceof Error ? err.message : 'Failed to look up code'}`);
+    }
+  };
+
+  const handleComplete = async () => {
+    if (items.length === 0 || (mode === 'checkout' && !member)) return;
+
+    setBusy(true);
+    try {
+      const response = await apiFetch(`${config.apiUrl}/circulation/${mode}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          ...(mode === 'checkout' && { member_code: member?.barcode }),
+          codes: items.map(item => item.code),
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to ${mode === 'checkout' ? 'check out' : 'check in'} items`);
+      }
+
+      report(true, result.message);
+      setNotification({ open: true, message: result.message, severity: 'success' });
+      setCompleted(result.items);
+      setItems([]);
+      setMember(null);
+      onCirculationChange();
+    } catch (err) {
+      // Nothing was saved; the batch stays so the offending item can be removed
+      report(false, err instanceof Error ? err.message : 'Failed to complete batch');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 mt-6">
+      <Card>
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <div className="flex items-center gap-2">
+            <ScanLine className="h-6 w-6 text-primary" />
+            <h2 className="text-xl font-semibold text-text-primary">Circulation Desk</h2>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant={mode === 'checkout' ? 'primary' : 'outline'}
+              icon={<BookPlus className="h-5 w-5" />}
+              onClick={() => switchMode('checkout')}
+            >
+              Check Out
+            </Button>
+            <Button
+              variant={mode === 'checkin' ? 'primary' : 'outline'}
+              icon={<BookCheck className="h-5 w-5" />}
+              onClick={() => switchMode('checkin')}
+            >
+              Check In
+            </Button>
+          </div>
+        </div>
+
+        <p className="text-sm text-text-secondary mb-4">
+          {mode === 'checkout'
+            ? 'Scan the member card, then each item. Items can be scanned by copy barcode or ISBN.'
+            : 'Scan each returned item by copy barcode or ISBN.'}
+        </p>
+
+        <form onSubmit={handleScan}>
+          <Input
+            ref={inputRef}
+            label="Scan barcode"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder={mode === 'checkout' && !member ? 'Member card' : 'Item barcode or ISBN'}
+            autoComplete="off"
+            disabled={busy}
+            fullWidth
+          />
+        </form>
+
+        {lastScan && (
+          <div
+            role="status"
+            className={`mt-4 flex items-center gap-2 rounded-lg px-4 py-3 text-sm font-medium ${
+              lastScan.ok
+                ? 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-300'
+                : 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-300'
+            }`}
+          >
+            {lastScan.ok ? <CheckCircle className="h-5 w-5" /> : <XCircle className="h-5 w-5" />}
+            <span>{lastScan.message}</span>
+          </div>
+        )}
+      </Card>
+
+      {(member || items.length > 0) && (
+        <Card>
+          {member && (
+            <div className="flex items-center gap-2 mb-4">
+              <User className="h-5 w-5 text-text-secondary" />
+              <span className="font-medium text-text-primary">{member.name}</span>
+              <span className="font-mono text-sm text-text-tertiary">{member.barcode}</span>
+            </div>
+          )}
+
+          {items.length > 0 ? (
+            <ul className="divide-y divide-border border border-border rounded-lg mb-4">
+              {items.map((item) => (
+                <li key={item.code} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  <span className="flex-1 text-text-primary">{item.title}</span>
+                  <span className="font-mono text-text-tertiary">{item.detail}</span>
+                  <button
+                    type="button"
+                    onClick={() => setItems(prev => prev.filter(other => other.code !== item.code))}
+                    className="p-1 text-text-tertiary hover:text-red-600"
+                    aria-label={`Remove ${item.code}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-text-tertiary mb-4">No items scanned yet.</p>
+          )}
+
+          <Button
+            variant="primary"
+            onClick={handleComplete}
+            loading={busy}
+            disabled={items.length === 0}
+          >
+            {mode === 'checkout' ? `Check Out ${items.length} Item${items.length === 1 ? '' : 's'}` : `Check In ${items.length} Item${items.length === 1 ? '' : 's'}`}
+          </Button>
+        </Card>
+      )}
+
+      {completed.length > 0 && (
+        <Card>
+          <h3 className="text-lg font-semibold text-text-primary mb-3">
+            {mode === 'checkout' ? 'Checked out' : 'Checked in'}
+          </h3>
+          <ul className="space-y-2">
+            {completed.map((item) => (
+              <li key={item.code} className="flex flex-wrap items-center gap-2 text-sm text-text-secondary">
+                <span className="text-text-primary">{item.book_title}</span>
+                <span className="font-mono text-text-tertiary">{item.copy_barcode || item.code}</span>
+                {mode === 'checkout' && <span>due {new Date(item.loan.due_date).toLocaleDateString()}</span>}
+                {item.member_name && <span>from {item.member_name}</span>}
+                {item.hold && <Badge variant="info" size="sm">Hold shelf</Badge>}
+                {item.fine ? <Badge variant="warning" size="sm">Fine {item.fine.toFixed(2)}</Badge> : null}
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default CirculationDesk;
@@ -0,0 +1,256 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Scale, Plus, Save, Trash2 } from 'lucide-react';
+import { Card, Button, Input, Select, Badge } from './ui';
+import { config } from '../config';
+import { apiFetch } from '../utils/api';
+import { useAuth } from './AuthContext';
+
+interface Policy {
+  id: number;
+  category_id: number | null;
+  category_name: string | null;
+  member_type: string | null;
+  loan_period_days: number | null;
+  max_active_loans: number | null;
+  max_renewals: number | null;
+  grace_days: number | null;
+}
+
+interface Category {
+  id: number;
+  name: string;
+}
+
+type PolicyField = 'loan_period_days' | 'max_active_loans' | 'max_renewals' | 'grace_days';
+
+const POLICY_FIELDS: Array<{ field: PolicyField; label: string }> = [
+  { field: 'loan_period_days', label: 'Loan period (days)' },
+  { field: 'max_active_loans', label: 'Max active loans' },
+  { field: 'max_renewals', label: 'Max renewals' },
+  { field: 'grace_days', label: 'Grace days' },
+];
+
+const isGlobal = (policy: Policy) => policy.category_id === null && policy.member_type === null;
+
+const describeScope = (policy: Policy) => {
+  if (isGlobal(policy)) return 'All books, all members';
+  const parts = [];
+  if (policy.category_name) parts.push(`Category: ${policy.category_name}`);
+  if (policy.member_type) parts.push(`Member type: ${policy.member_type}`);
+  return parts.join(' · ');
+};
+
+const CirculationPolicySettings = () => {
+  const { token } = useAuth();
+  const [policies, setPolicies] = useState<Policy[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, Record<PolicyField, string>>>({});
+  const [newCategoryId, setNewCategoryId] = useState<number | ''>('');
+  const [newMemberType, setNewMemberType] = useState('');
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      const [policiesResponse, categoriesResponse] = await Promise.all([
+        apiFetch(`${config.apiUrl}/policies`, { headers: { Authorization: `Bearer ${token}` } }),
+        apiFetch(`${config.apiUrl}/categories`),
+      ]);
+      if (!policiesResponse.ok || !categoriesResponse.ok) {
+        throw new Error('Failed to fetch circulation policies');
+      }
+
+      const data: Policy[] = await policiesResponse.json();
+      setPolicies(data);
+      setCategories(await categoriesResponse.json());
+      setDrafts(Object.fromEntries(data.map(policy => [
+        policy.id,
+        Object.fromEntries(POLICY_FIELDS.map(({ field }) => [field, policy[field] === null ? '' : String(policy[field])])) as Record<PolicyField, string>,
+      ])));
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to fetch circulation policies', error: true });
+    }
+  }, [token]);
+
+  useEffect(() => {
+    const load = async () => {
+      await fetchPolicies();
+    };
+    load();
+  }, [fetchPolicies]);
+
+  const updateDraft = (id: number, field: PolicyField, value: string) => {
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], [field]: value } }));
+  };
+
+  const handleSave = async (policy: Policy) => {
+    const draft = drafts[policy.id];
+    const body = Object.fromEntries(POLICY_FIELDS.map(({ field }) => [field, draft[field] === '' ? null : Number(draft[field])]));
+
+    try {
+      const response = await apiFetch(`${config.apiUrl}/policies/${policy.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save policy');
+      }
+      setMessage({ text: 'Policy saved', error: false });
+      fetchPolicies();
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to save policy', error: true });
+    }
+  };
+
+  const handleDelete = async (policy: Policy) => {
+    if (!window.confirm(`Delete the policy for ${describeScope(policy)}?`)) return;
+
+    try {
+      const response = await apiFetch(`${config.apiUrl}/policies/${policy.id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete policy');
+      }
+      setMessage({ text: 'Policy deleted', error: false });
+      fetchPolicies();
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to delete policy', error: true });
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newCategoryId && !newMemberType.trim()) {
+      setMessage({ text: 'Choose a category and/or a member type for the new policy', error: true });
+      return;
+    }
+
+    try {
+      const response = await apiFetch(`${config.apiUrl}/policies`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          category_id: newCategoryId || null,
+          member_type: newMemberType.trim() || null,
+        }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to add policy');
+      }
+      setNewCategoryId('');
+      setNewMemberType('');
+      setMessage({ text: 'Policy added; fill in the values it should override', error: false });
+      fetchPolicies();
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to add policy', error: true });
+    }
+  };
+
+  return (
+    <Card variant="elevated" padding="lg" className="mb-6">
+      <div className="flex items-start gap-4 mb-6">
+        <div className="p-3 rounded-lg bg-primary/10 dark:bg-primary/20">
+          <Scale className="h-6 w-6 text-primary" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-text-primary mb-1">
+            Circulation Policies
+          </h2>
+          <p className="text-sm text-text-secondary">
+            Loan periods and limits. More specific policies override the global one; leave a field empty to inherit it.
+          </p>
+        </div>
+      </div>
+
+      {message && (
+        <p className={`mb-4 text-sm ${message.error ? 'text-red-600 dark:text-red-400' : 'text-green-700 dark:text-green-300'}`}>
+          {message.text}
+        </p>
+      )}
+
+      <div className="space-y-4">
+        {policies.map(policy => (
+          <div key={policy.id} className="p-4 rounded-lg border border-border">
+            <div className="flex items-center justify-between gap-2 mb-3">
+              <span className="font-medium text-text-primary">{describeScope(policy)}</span>
+              {isGlobal(policy) && <Badge variant="info" size="sm">Global</Badge>}
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+              {POLICY_FIELDS.map(({ field, label }) => (
+                <Input
+                  key={field}
+                  label={label}
+                  type="number"
+                  min={field === 'loan_period_days' ? 1 : 0}
+                  value={drafts[policy.id]?.[field] ?? ''}
+                  placeholder={isGlobal(policy) ? undefined : 'Inherit'}
+                  onChange={(e) => updateDraft(policy.id, field, e.target.value)}
+                  fullWidth
+                />
+              ))}
+            </div>
+            <div className="flex justify-end gap-2 mt-3">
+              {!isGlobal(policy) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  icon={<Trash2 className="h-4 w-4" />}
+                  onClick={() => handleDelete(policy)}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  Delete
+                </Button>
+              )}
+              <Button
+                variant="primary"
+                size="sm"
+                icon={<Save className="h-4 w-4" />}
+                onClick={() => handleSave(policy)}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex flex-col sm:flex-row gap-3 items-end pt-2">
+          <div className="flex-1 w-full">
+            <Select
+              label="Category"
+              value={newCategoryId}
+              onChange={(e) => setNewCategoryId(Number(e.target.value) || '')}
+              options={[
+                { value: '', label: 'Any category' },
+                ...categories.map(category => ({ value: category.id, label: category.name })),
+              ]}
+              fullWidth
+            />
+          </div>
+          <div className="flex-1 w-full">
+            <Input
+              label="Member type"
+              value={newMemberType}
+              placeholder="Any member type"
+              onChange={(e) => setNewMemberType(e.target.value)}
+              fullWidth
+            />
+          </div>
+          <Button
+            variant="outline"
+            icon={<Plus className="h-4 w-4" />}
+            onClick={handleAdd}
+            className="w-full sm:w-auto"
+          >
+            Add Policy
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default CirculationPolicySettings;
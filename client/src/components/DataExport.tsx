@@ -1,16 +1,47 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { Button, Input, Card, Select } from './ui';
 import { Download, FileDown, Calendar } from 'lucide-react';
 import { config } from '../config';
 import { apiFetch } from '../utils/api';
+import type { SavedSearch } from '../utils/bookFields';
+
+type BookExportFormat = 'csv' | 'marc21' | 'marcxml';
+
+const BOOK_EXPORT_FORMATS: Record<BookExportFormat, { label: string; extension: string }> = {
+  csv: { label: 'CSV', extension: 'csv' },
+  marc21: { label: 'MARC 21', extension: 'mrc' },
+  marcxml: { label: 'MARCXML', extension: 'xml' },
+};
 
 const DataExport = () => {
   const [exportType, setExportType] = useState<'books' | 'members' | 'loans'>('books');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [loanStatus, setLoanStatus] = useState('all');
+  const [loanOutcome, setLoanOutcome] = useState('all');
+  const [bookFormat, setBookFormat] = useState<BookExportFormat>('csv');
   const [isExporting, setIsExporting] = useState(false);
+  // Books can be limited to those a saved search or smart collection finds now
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [savedSearchId, setSavedSearchId] = useState('');
+
+  useEffect(() => {
+    const fetchSavedSearches = async () => {
+      try {
+        const token = localStorage.getItem('token');
+        const response = await apiFetch(`${config.apiUrl}/saved-searches`, {
+          headers: { 'Authorization': `Bearer ${token}` },
+        });
+        if (response.ok) {
+          setSavedSearches(await response.json());
+        }
+      } catch (error) {
+        console.error('Error fetching saved searches:', error);
+      }
+    };
+    fetchSavedSearches();
+  }, []);
 
   const handleExport = async () => {
     setIsExporting(true);
@@ -29,10 +60,22 @@ const DataExport = () => {
         params.append('endDate', endDate);
       }
 
+      if (exportType === 'books' && bookFormat !== 'csv') {
+        params.append('format', bookFormat);
+      }
+
+      if (exportType === 'books' && savedSearchId) {
+        params.append('savedSearchId', savedSearchId);
+      }
+
       if (exportType === 'loans' && loanStatus !== 'all') {
         params.append('status', loanStatus);
       }
 
+      if (exportType === 'loans' && loanOutcome !== 'all') {
+        params.append('outcome', loanOutcome);
+      }
+
       url += params.toString();
 
       const response = await apiFetch(url, {
@@ -46,7 +89,7 @@ const DataExport = () => {
         throw new Error('Failed to export data');
       }
 
-      // Get the CSV content
+      // Get the file content
       const blob = await response.blob();
       const downloadUrl = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
@@ -54,7 +97,8 @@ const DataExport = () => {
 
       // Get filename from Content-Disposition header or use default
       const contentDisposition = response.headers.get('Content-Disposition');
-      let filename = `${exportType}_export.csv`;
+      const format = exportType === 'books' ? bookFormat : 'csv';
+      let filename = `${exportType}_export.${BOOK_EXPORT_FORMATS[format].extension}`;
 
       if (contentDisposition) {
         const filenameMatch = contentDisposition.match(/filename="?(.+)"?/);
@@ -80,8 +124,12 @@ const DataExport = () => {
     setStartDate('');
     setEndDate('');
     setLoanStatus('all');
+    setLoanOutcome('all');
+    setSavedSearchId('');
   };
 
+  const formatLabel = BOOK_EXPORT_FORMATS[exportType === 'books' ? bookFormat : 'csv'].label;
+
   return (
     <div className="max-w-4xl mx-auto">
       <motion.div
@@ -91,7 +139,7 @@ const DataExport = () => {
       >
         <div className="mb-6">
           <h1 className="text-3xl font-bold text-text-primary mb-2">Data Export</h1>
-          <p className="text-text-secondary">Export your library data to CSV format for backup or analysis</p>
+          <p className="text-text-secondary">Export your library data to CSV format for backup or analysis, or books as MARC records for other libraries</p>
         </div>
 
         <Card variant="elevated" padding="lg">
@@ -188,6 +236,41 @@ const DataExport = () => {
               </p>
             </div>
 
+            {/* File Format (only for books) */}
+            {exportType === 'books' && (
+              <div className="border-t border-border pt-6">
+                <Select
+                  label="File Format"
+                  value={bookFormat}
+                  onChange={(e) => setBookFormat(e.target.value as BookExportFormat)}
+                  options={[
+                    { value: 'csv', label: 'CSV' },
+                    { value: 'marc21', label: 'MARC 21 (.mrc)' },
+                    { value: 'marcxml', label: 'MARCXML (.xml)' },
+                  ]}
+                  fullWidth
+                />
+                {savedSearches.length > 0 && (
+                  <div className="mt-4">
+                    <Select
+                      label="Books"
+                      value={savedSearchId}
+                      onChange={(e) => setSavedSearchId(e.target.value)}
+                      options={[
+                        { value: '', label: 'All Books' },
+                        ...savedSearches.map((savedSearch) => ({
+                          value: String(savedSearch.id),
+                          label: savedSearch.collection ? `Collection: ${savedSearch.name}` : `Saved search: ${savedSearch.name}`,
+                        })),
+                      ]}
+                      helperText="Only the books the saved search finds now"
+                      fullWidth
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Loan Status Filter (only for loans) */}
             {exportType === 'loans' && (
               <div className="border-t border-border pt-6">
@@ -203,6 +286,21 @@ const DataExport = () => {
                   ]}
                   fullWidth
                 />
+                <div className="mt-4">
+                  <Select
+                    label="Loan Outcome"
+                    value={loanOutcome}
+                    onChange={(e) => setLoanOutcome(e.target.value)}
+                    options={[
+                      { value: 'all', label: 'All Outcomes' },
+                      { value: 'returned', label: 'Returned' },
+                      { value: 'damaged', label: 'Damaged' },
+                      { value: 'lost', label: 'Lost' },
+                      { value: 'claims_returned', label: 'Claims Returned' },
+                    ]}
+                    fullWidth
+                  />
+                </div>
               </div>
             )}
 
@@ -221,7 +319,7 @@ const DataExport = () => {
                 loading={isExporting}
                 icon={<Download className="h-5 w-5" />}
               >
-                {isExporting ? 'Exporting...' : 'Export to CSV'}
+                {isExporting ? 'Exporting...' : `Export to ${formatLabel}`}
               </Button>
             </div>
           </div>
@@ -239,7 +337,9 @@ const DataExport = () => {
               </h3>
               <ul className="text-sm text-text-secondary space-y-1">
                 <li>• Data is exported in CSV format compatible with Excel and Google Sheets</li>
+                <li>• Books can also be exported as MARC 21 or MARCXML records, which other library systems import</li>
                 <li>• Date filters apply to the creation date of records</li>
+                <li>• Books can be limited to a saved search or smart collection, with its books as they are now</li>
                 <li>• All exports include complete record information</li>
                 <li>• Large exports may take a few seconds to process</li>
               </ul>
@@ -13,7 +13,6 @@ const ForgotPassword = () => {
   const [loading, setLoading] = useState(false);
   const [fieldError, setFieldError] = useState<string | undefined>(undefined);
   const [touched, setTouched] = useState(false);
-  const [resetToken, setResetToken] = useState<string | null>(null); // For development mode
   const navigate = useNavigate();
 
   const validateUsername = (value: string): string | null => {
@@ -39,7 +38,6 @@ const ForgotPassword = () => {
     event.preventDefault();
     setError(null);
     setSuccess(null);
-    setResetToken(null);
 
     // Validate username before submit
     const usernameError = validateUsername(username);
@@ -68,16 +66,6 @@ const ForgotPassword = () => {
       }
 
       setSuccess(data.message);
-
-      // In development mode, show the reset token
-      if (data.resetToken) {
-        setResetToken(data.resetToken);
-      } else {
-        // In production, redirect to login after 3 seconds
-        setTimeout(() => {
-          navigate('/login');
-        }, 3000);
-      }
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -118,28 +106,10 @@ const ForgotPassword = () => {
                 variant="info"
               />
 
-              {resetToken && (
-                <div className="space-y-4">
-                  <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
-                    <p className="text-sm font-semibold text-yellow-800 dark:text-yellow-300 mb-2">
-                      Development Mode: Reset Token Generated
-                    </p>
-                    <p className="text-xs text-yellow-700 dark:text-yellow-400 mb-3">
-                      In production, this would be sent via email. Click the button below to proceed with password reset.
-                    </p>
-                    <div className="bg-white dark:bg-gray-800 rounded p-2 mb-3 break-all font-mono text-xs">
-                      {resetToken}
-                    </div>
-                    <Button
-                      variant="primary"
-                      fullWidth
-                      onClick={() => navigate(`/reset-password?token=${resetToken}`)}
-                    >
-                      Proceed to Reset Password
-                    </Button>
-                  </div>
-                </div>
-              )}
+              <p className="text-sm text-text-secondary">
+                The link in the email is valid for a limited time. If no email arrives, check your spam folder or ask
+                a librarian to set an email address on your account.
+              </p>
 
               <Button
                 variant="ghost"
@@ -0,0 +1,254 @@
+import { useState, useEffect, useCallback } from 'react';
+import { config } from '../config';
+import { apiFetch } from '../utils/api';
+import { ArrowRight, Save, Trash2 } from 'lucide-react';
+import { useAuth } from './AuthContext';
+import { Button, Input, Select, ErrorMessage } from './ui';
+import type { ImportMode, ImportSummary } from './ImportReview';
+
+interface ImportProfile {
+  id: number;
+  name: string;
+  mapping: Record<string, string | null>;
+  mode: ImportMode;
+}
+
+interface ImportMappingProps {
+  preview: ImportSummary;
+  // What existing records are matched by, e.g. "ISBN"
+  keyLabel: string;
+  onCancel: () => void;
+  onContinue: (preview: ImportSummary) => void;
+}
+
+const fieldLabel = (field: string) =>
+  field.replace(/_/g, ' ').replace(/^\w/, letter => letter.toUpperCase());
+
+/**
+ * Lets staff map the columns of an uploaded file to the fields of the
+ * import, choose whether rows create records, update them or both, and
+ * save the mapping as a profile for files with the same layout.
+ */
+const ImportMapping = ({ preview, keyLabel, onCancel, onContinue }: ImportMappingProps) => {
+  const { token } = useAuth();
+  const basePath = `${config.apiUrl}/${preview.kind}/bulk-import`;
+  const fields = Object.keys(preview.mapping);
+
+  const [mapping, setMapping] = useState<Record<string, string | null>>(preview.mapping);
+  const [mode, setMode] = useState<ImportMode>(preview.mode);
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [profileId, setProfileId] = useState('');
+  const [profileName, setProfileName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPlanning, setIsPlanning] = useState(false);
+
+  const fetchProfiles = useCallback(async () => {
+    try {
+      const response = await apiFetch(`${basePath}/profiles`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to fetch import profiles');
+      }
+      setProfiles(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch import profiles');
+    }
+  }, [token, basePath]);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  // A profile's columns that this file does not have are left unmapped
+  const handleProfileChange = (value: string) => {
+    setProfileId(value);
+    const profile = profiles.find(saved => String(saved.id) === value);
+    if (!profile) {
+      return;
+    }
+    setProfileName(profile.name);
+    setMode(profile.mode);
+    setMapping(Object.fromEntries(fields.map(field => {
+      const column = profile.mapping[field];
+      return [field, column && preview.columns.includes(column) ? column : null];
+    })));
+  };
+
+  const handleSaveProfile = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const existing = profiles.find(saved => saved.name === profileName.trim());
+      const response = await apiFetch(existing ? `${basePath}/profiles/${existing.id}` : `${basePath}/profiles`, {
+        method: existing ? 'PUT' : 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: profileName, mapping, mode }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save the import profile');
+      }
+      await fetchProfiles();
+      setProfileId(String(result.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the import profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!profileId || !window.confirm('Delete this import profile?')) {
+      return;
+    }
+    setError(null);
+    try {
+      const response = await apiFetch(`${basePath}/profiles/${profileId}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to delete the import profile');
+      }
+      setProfileId('');
+      setProfileName('');
+      await fetchProfiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete the import profile');
+    }
+  };
+
+  const handleContinue = async () => {
+    setIsPlanning(true);
+    setError(null);
+    try {
+      const response = await apiFetch(`${basePath}/${preview.id}/options`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ mapping, mode }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to preview the import');
+      }
+      onContinue(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview the import');
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const columnOptions = [
+    { value: '', label: 'Not imported' },
+    ...preview.columns.map(column => ({ value: column, label: column })),
+  ];
+
+  return (
+    <div className="space-y-6">
+      {error && <ErrorMessage message={error} />}
+
+      <div>
+        <h3 className="text-sm font-semibold text-text-primary mb-3">Import profile</h3>
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="w-56">
+            <Select
+              value={profileId}
+              onChange={(e) => handleProfileChange(e.target.value)}
+              options={[
+                { value: '', label: 'Matched by column headers' },
+                ...profiles.map(profile => ({ value: String(profile.id), label: profile.name })),
+              ]}
+              fullWidth
+            />
+          </div>
+          {profileId && (
+            <Button
+              variant="ghost"
+              icon={<Trash2 className="h-4 w-4" />}
+              onClick={handleDeleteProfile}
+            >
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-text-primary mb-3">Rows should</h3>
+        <Select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as ImportMode)}
+          options={[
+            { value: 'insert', label: 'Insert new records only' },
+            { value: 'update', label: `Update existing records by ${keyLabel}` },
+            { value: 'upsert', label: `Insert or update by ${keyLabel}` },
+          ]}
+          fullWidth
+        />
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-text-primary mb-3">Columns</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {fields.map(field => (
+            <Select
+              key={field}
+              label={fieldLabel(field)}
+              value={mapping[field] ?? ''}
+              onChange={(e) => setMapping({ ...mapping, [field]: e.target.value || null })}
+              options={columnOptions}
+              fullWidth
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex-1 min-w-[12rem]">
+          <Input
+            label="Save as profile"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder="e.g. Supplier spreadsheet"
+            fullWidth
+          />
+        </div>
+        <Button
+          variant="outline"
+          icon={<Save className="h-4 w-4" />}
+          onClick={handleSaveProfile}
+          disabled={!profileName.trim() || isSaving}
+          loading={isSaving}
+        >
+          {profiles.some(saved => saved.name === profileName.trim()) ? 'Update Profile' : 'Save Profile'}
+        </Button>
+      </div>
+
+      <div className="flex justify-end gap-3 pt-4 border-t border-border">
+        <Button variant="ghost" onClick={onCancel} disabled={isPlanning}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          icon={<ArrowRight className="h-5 w-5" />}
+          onClick={handleContinue}
+          disabled={isPlanning}
+          loading={isPlanning}
+        >
+          Review Rows
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportMapping;
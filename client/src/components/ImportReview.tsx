@@ -0,0 +1,373 @@
+import { useState, useEffect, useCallback } from 'react';
+import { config } from '../config';
+import { apiFetch } from '../utils/api';
+import { Download, Upload, CheckCircle, AlertTriangle, ArrowLeft } from 'lucide-react';
+import { useAuth } from './AuthContext';
+import { Button, Select, Badge, ErrorMessage } from './ui';
+import Pagination from './Pagination';
+
+type ImportRowAction = 'create' | 'update' | 'unchanged' | 'duplicate' | 'invalid';
+
+export type ImportMode = 'insert' | 'update' | 'upsert';
+
+export interface ImportSummary {
+  id: number;
+  kind: 'books' | 'members';
+  source: 'csv' | 'goodreads' | 'librarything' | 'calibre';
+  filename: string | null;
+  status: 'previewed' | 'queued' | 'running' | 'completed' | 'failed';
+  columns: string[];
+  mapping: Record<string, string | null>;
+  mode: ImportMode;
+  total_rows: number;
+  create_rows: number;
+  update_rows: number;
+  unchanged_rows: number;
+  duplicate_rows: number;
+  invalid_rows: number;
+  processed_rows: number;
+  created_count: number;
+  updated_count: number;
+  failed_count: number;
+  error: string | null;
+}
+
+interface ImportRow {
+  id: number;
+  row_number: number;
+  data: Record<string, string>;
+  action: ImportRowAction;
+  errors: Array<{ column: string | null; message: string }>;
+  changes: Array<{ field: string; from: string | null; to: string | null }>;
+  status: 'pending' | 'imported' | 'failed' | 'skipped';
+}
+
+interface ImportReviewProps {
+  preview: ImportSummary;
+  // What an update means for this kind of import, e.g. "Copies of catalogued books"
+  updateLabel: string;
+  onBack: () => void;
+  onCancel: () => void;
+  onFinished: (result: ImportSummary) => void;
+}
+
+const ACTION_BADGES: Record<ImportRowAction, { label: string; variant: 'default' | 'success' | 'info' | 'warning' | 'error' }> = {
+  create: { label: 'Create', variant: 'success' },
+  update: { label: 'Update', variant: 'info' },
+  unchanged: { label: 'Unchanged', variant: 'default' },
+  duplicate: { label: 'Duplicate', variant: 'warning' },
+  invalid: { label: 'Invalid', variant: 'error' },
+};
+
+// How often the progress of a running import is checked: quickly at first,
+// then less often the longer it runs
+const POLL_INITIAL_MS = 1500;
+const POLL_MAX_MS = 10000;
+const POLL_BACKOFF = 1.5;
+
+/**
+ * Shows what a bulk import would do, runs it once confirmed, and follows
+ * its progress. Used by the book and member import dialogs.
+ */
+const ImportReview = ({ preview, updateLabel, onBack, onCancel, onFinished }: ImportReviewProps) => {
+  const { token } = useAuth();
+  const basePath = `${config.apiUrl}/${preview.kind}/bulk-import/${preview.id}`;
+  const [current, setCurrent] = useState<ImportSummary>(preview);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  const [page, setPage] = useState(1);
+  const [limit, setLimit] = useState(10);
+  const [totalCount, setTotalCount] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
+  const [actionFilter, setActionFilter] = useState('all');
+
+  const isRunning = current.status === 'queued' || current.status === 'running';
+  const isFinished = current.status === 'completed' || current.status === 'failed';
+  const rowsToImport = current.create_rows + current.update_rows;
+  const rejectedRows = current.duplicate_rows + current.invalid_rows + current.failed_count;
+
+  const fetchRows = useCallback(async () => {
+    try {
+      let url = `${basePath}/rows?page=${page}&limit=${limit}`;
+      if (actionFilter !== 'all') url += `&action=${actionFilter}`;
+
+      const response = await apiFetch(url, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to fetch import rows');
+      }
+      const result = await response.json();
+      setRows(result.data || []);
+      setTotalCount(result.pagination.total);
+      setTotalPages(result.pagination.totalPages);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch import rows');
+    }
+  }, [token, basePath, page, limit, actionFilter]);
+
+  useEffect(() => {
+    fetchRows();
+  }, [fetchRows]);
+
+  // Follow the import until it finishes
+  useEffect(() => {
+    if (!isRunning) {
+      return;
+    }
+    let delay = POLL_INITIAL_MS;
+    let timeoutId: ReturnType<typeof setTimeout>;
+    let cancelled = false;
+
+    const checkProgress = async () => {
+      try {
+        const response = await apiFetch(basePath, {
+          headers: { 'Authorization': `Bearer ${token}` },
+        });
+        if (response.ok && !cancelled) {
+          setCurrent(await response.json());
+        }
+      } catch (err) {
+        console.error('Failed to check import progress:', err);
+      }
+      if (!cancelled) {
+        delay = Math.min(delay * POLL_BACKOFF, POLL_MAX_MS);
+        timeoutId = setTimeout(checkProgress, delay);
+      }
+    };
+
+    timeoutId = setTimeout(checkProgress, delay);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [isRunning, basePath, token]);
+
+  // Show each row's outcome once the import is done
+  useEffect(() => {
+    if (isFinished) {
+      fetchRows();
+    }
+  }, [isFinished, fetchRows]);
+
+  const handleConfirm = async () => {
+    setIsConfirming(true);
+    setError(null);
+    try {
+      const response = await apiFetch(`${basePath}/confirm`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to start the import');
+      }
+      setCurrent(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start the import');
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  const handleDownloadErrors = async () => {
+    try {
+      const response = await apiFetch(`${basePath}/errors.csv`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to download the error report');
+      }
+
+      const blob = await response.blob();
+      const downloadUrl = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = downloadUrl;
+      link.download = `${current.kind}_import_${current.id}_errors.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(downloadUrl);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download the error report');
+    }
+  };
+
+  // The first couple of columns are enough to recognise a row
+  const describeRow = (row: ImportRow) =>
+    current.columns.slice(0, 2).map(column => row.data[column]).filter(Boolean).join(' · ') || '(empty)';
+
+  const counts = [
+    { label: 'To create', value: current.create_rows, className: 'text-green-600 dark:text-green-400' },
+    { label: updateLabel, value: current.update_rows, className: 'text-blue-600 dark:text-blue-400' },
+    { label: 'Unchanged', value: current.unchanged_rows, className: 'text-text-secondary' },
+    { label: 'Duplicates', value: current.duplicate_rows, className: 'text-yellow-600 dark:text-yellow-400' },
+    { label: 'Invalid', value: current.invalid_rows, className: 'text-red-600 dark:text-red-400' },
+  ];
+  const progress = rowsToImport > 0 ? Math.round((current.processed_rows / rowsToImport) * 100) : 100;
+
+  return (
+    <div className="space-y-6">
+      {error && <ErrorMessage message={error} />}
+
+      <div>
+        <h3 className="text-sm font-semibold text-text-primary mb-3">
+          {current.filename || 'Upload'}: {current.total_rows} rows
+        </h3>
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+          {counts.map(count => (
+            <div key={count.label} className="rounded-lg border border-border p-3">
+              <p className={`text-2xl font-bold ${count.className}`}>{count.value}</p>
+              <p className="text-xs text-text-secondary">{count.label}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {(isRunning || isFinished) && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm text-text-secondary">
+            <span>
+              {isRunning && `Importing... ${current.processed_rows} of ${rowsToImport} rows`}
+              {current.status === 'completed' && `Imported: ${current.created_count} created, ${current.updated_count} updated, ${current.failed_count} failed`}
+              {current.status === 'failed' && `Import stopped: ${current.error}`}
+            </span>
+            <span>{progress}%</span>
+          </div>
+          <div className="h-2 rounded-full bg-background-secondary overflow-hidden">
+            <div
+              className={`h-full transition-all ${current.status === 'failed' ? 'bg-red-500' : 'bg-primary'}`}
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between gap-3 mb-3">
+          <h3 className="text-sm font-semibold text-text-primary">Rows</h3>
+          <div className="w-48">
+            <Select
+              value={actionFilter}
+              onChange={(e) => { setActionFilter(e.target.value); setPage(1); }}
+              options={[
+                { value: 'all', label: 'All rows' },
+                { value: 'create', label: 'To create' },
+                { value: 'update', label: updateLabel },
+                { value: 'unchanged', label: 'Unchanged' },
+                { value: 'duplicate', label: 'Duplicates' },
+                { value: 'invalid', label: 'Invalid' },
+              ]}
+            />
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="text-left py-2 px-3 text-sm font-semibold text-text-primary">Row</th>
+                <th className="text-left py-2 px-3 text-sm font-semibold text-text-primary">Record</th>
+                <th className="text-left py-2 px-3 text-sm font-semibold text-text-primary">Action</th>
+                <th className="text-left py-2 px-3 text-sm font-semibold text-text-primary">Details</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {rows.map(row => {
+                const badge = ACTION_BADGES[row.action];
+                return (
+                  <tr key={row.id}>
+                    <td className="py-2 px-3 text-sm text-text-secondary">{row.row_number}</td>
+                    <td className="py-2 px-3 text-sm text-text-primary">{describeRow(row)}</td>
+                    <td className="py-2 px-3">
+                      <Badge variant={row.status === 'failed' ? 'error' : badge.variant} size="sm">
+                        {row.status === 'failed' ? 'Failed' : row.status === 'imported' ? 'Imported' : badge.label}
+                      </Badge>
+                    </td>
+                    <td className="py-2 px-3 text-sm text-text-secondary">
+                      {row.changes.map((change, index) => (
+                        <div key={`change-${index}`}>
+                          <span className="font-medium text-text-primary">{change.field}: </span>
+                          {change.from !== null && <span className="line-through">{change.from}</span>}
+                          {change.from !== null && ' → '}
+                          {change.to}
+                        </div>
+                      ))}
+                      {row.errors.map((rowError, index) => (
+                        <div key={index}>
+                          {rowError.column && <span className="font-medium text-text-primary">{rowError.column}: </span>}
+                          {rowError.message}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <Pagination
+          page={page}
+          totalPages={totalPages}
+          totalCount={totalCount}
+          limit={limit}
+          onPageChange={setPage}
+          onLimitChange={setLimit}
+        />
+      </div>
+
+      <div className="flex flex-wrap justify-end gap-3 pt-4 border-t border-border">
+        {rejectedRows > 0 && (
+          <Button
+            variant="outline"
+            icon={<Download className="h-5 w-5" />}
+            onClick={handleDownloadErrors}
+          >
+            Download Error Report
+          </Button>
+        )}
+        {current.status === 'previewed' && (
+          <>
+            <Button variant="ghost" onClick={onCancel} disabled={isConfirming}>
+              Cancel
+            </Button>
+            <Button
+              variant="outline"
+              icon={<ArrowLeft className="h-5 w-5" />}
+              onClick={onBack}
+              disabled={isConfirming}
+            >
+              Change Mapping
+            </Button>
+            <Button
+              variant="primary"
+              icon={<Upload className="h-5 w-5" />}
+              onClick={handleConfirm}
+              disabled={rowsToImport === 0 || isConfirming}
+              loading={isConfirming}
+            >
+              Import {rowsToImport} Rows
+            </Button>
+          </>
+        )}
+        {isRunning && (
+          <Button variant="ghost" onClick={() => onFinished(current)}>
+            Continue in Background
+          </Button>
+        )}
+        {isFinished && (
+          <Button
+            variant="primary"
+            icon={current.status === 'completed' ? <CheckCircle className="h-5 w-5" /> : <AlertTriangle className="h-5 w-5" />}
+            onClick={() => onFinished(current)}
+          >
+            Done
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportReview;
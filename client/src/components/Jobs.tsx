@@ -0,0 +1,398 @@
+import { useState, useEffect, useCallback } from 'react';
+import { config } from '../config';
+import { apiFetch } from '../utils/api';
+import { Cog, Play, RotateCcw, Trash2, RefreshCw, Clock } from 'lucide-react';
+import { useAuth } from './AuthContext';
+import { Card, Button, Select, Badge, EmptyState, ErrorMessage } from './ui';
+import Pagination from './Pagination';
+
+type JobStatus = 'pending' | 'running' | 'succeeded' | 'dead';
+
+interface Job {
+  id: number;
+  type: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_by: string | null;
+  last_error: string | null;
+  result: Record<string, unknown> | null;
+  created_at: string;
+  finished_at: string | null;
+}
+
+interface JobSchedule {
+  type: string;
+  cron: string;
+  description: string;
+  last_job: Job | null;
+}
+
+interface JobSummary {
+  counts: Record<JobStatus, number>;
+  schedules: JobSchedule[];
+  scheduler: { holder: string; expires_at: string } | null;
+}
+
+const STATUS_BADGES: Record<JobStatus, { label: string; variant: 'success' | 'error' | 'info' | 'default' }> = {
+  pending: { label: 'Pending', variant: 'default' },
+  running: { label: 'Running', variant: 'info' },
+  succeeded: { label: 'Succeeded', variant: 'success' },
+  dead: { label: 'Dead', variant: 'error' },
+};
+
+const JOB_TYPES = [
+  'loans.check_overdue',
+  'notifications.send_loan_notices',
+  'fines.accrue',
+  'holds.expire',
+  'webhooks.deliver',
+  'jobs.prune',
+  'books.download_cover',
+  'books.enrich_metadata',
+];
+
+const describeDetails = (details: Record<string, unknown> | null) =>
+  details && Object.keys(details).length > 0
+    ? Object.entries(details).map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`).join(', ')
+    : '';
+
+const Jobs = () => {
+  const { token } = useAuth();
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [summary, setSummary] = useState<JobSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const [page, setPage] = useState(1);
+  const [limit, setLimit] = useState(25);
+  const [totalCount, setTotalCount] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [typeFilter, setTypeFilter] = useState('all');
+
+  const fetchJobs = useCallback(async () => {
+    setError(null);
+    try {
+      let url = `${config.apiUrl}/jobs?page=${page}&limit=${limit}`;
+      if (statusFilter !== 'all') url += `&status=${statusFilter}`;
+      if (typeFilter !== 'all') url += `&type=${typeFilter}`;
+
+      const response = await apiFetch(url, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to fetch jobs');
+      }
+      const result = await response.json();
+      setJobs(result.data || []);
+      setTotalCount(result.pagination.total);
+      setTotalPages(result.pagination.totalPages);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch jobs');
+    }
+  }, [token, page, limit, statusFilter, typeFilter]);
+
+  const fetchSummary = useCallback(async () => {
+    try {
+      const response = await apiFetch(`${config.apiUrl}/jobs/summary`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to fetch job summary');
+      }
+      setSummary(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch job summary');
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary]);
+
+  const refresh = () => {
+    fetchJobs();
+    fetchSummary();
+  };
+
+  const runAction = async (key: string, path: string, method: 'POST' | 'DELETE', body: object | null, success: string, failure: string) => {
+    setBusyKey(key);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await apiFetch(`${config.apiUrl}/jobs${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        ...(body && { body: JSON.stringify(body) }),
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || failure);
+      }
+      setMessage(success);
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleRunNow = (schedule: JobSchedule) =>
+    runAction(`run-${schedule.type}`, '/run', 'POST', { type: schedule.type }, `${schedule.type} queued to run now.`, 'Failed to queue job');
+
+  const handleRetry = (job: Job) =>
+    runAction(`retry-${job.id}`, `/${job.id}/retry`, 'POST', null, `Job #${job.id} queued to run again.`, 'Failed to retry job');
+
+  const handleDelete = (job: Job) => {
+    if (!window.confirm(`Delete job #${job.id} (${job.type})?`)) return;
+    runAction(`delete-${job.id}`, `/${job.id}`, 'DELETE', null, `Job #${job.id} deleted.`, 'Failed to delete job');
+  };
+
+  const formatDateTime = (dateString: string | null) =>
+    dateString ? new Date(dateString).toLocaleString() : '—';
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <Cog className="h-8 w-8 text-primary" />
+          <h1 className="text-3xl font-bold text-text-primary">Background Jobs</h1>
+        </div>
+        <Button
+          variant="outline"
+          icon={<RefreshCw className="h-5 w-5" />}
+          onClick={refresh}
+        >
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <ErrorMessage
+          message={error}
+          onClose={() => setError(null)}
+          className="mb-6"
+        />
+      )}
+      {message && (
+        <div className="mb-6 rounded-lg border border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-900/20 p-4 text-green-800 dark:text-green-300">
+          {message}
+        </div>
+      )}
+
+      {summary && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            {(Object.keys(STATUS_BADGES) as JobStatus[]).map(status => (
+              <Card key={status}>
+                <button
+                  type="button"
+                  className="w-full text-left"
+                  onClick={() => {
+                    setStatusFilter(status);
+                    setPage(1);
+                  }}
+                >
+                  <div className="text-sm text-text-secondary">{STATUS_BADGES[status].label}</div>
+                  <div className={`text-2xl font-bold ${status === 'dead' && summary.counts.dead > 0 ? 'text-red-600 dark:text-red-400' : 'text-text-primary'}`}>
+                    {summary.counts[status]}
+                  </div>
+                </button>
+              </Card>
+            ))}
+          </div>
+
+          <Card className="mb-6">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4">
+              <div className="flex items-center gap-2">
+                <Clock className="h-6 w-6 text-primary" />
+                <h2 className="text-xl font-semibold text-text-primary">Schedules</h2>
+              </div>
+              <span className="text-sm text-text-tertiary">
+                {summary.scheduler
+                  ? `Queued by ${summary.scheduler.holder}`
+                  : 'No server is queueing scheduled jobs; check that a job worker is running'}
+              </span>
+            </div>
+            <div className="divide-y divide-border">
+              {summary.schedules.map(schedule => (
+                <div key={schedule.type} className="flex flex-col md:flex-row md:items-center justify-between gap-2 py-3">
+                  <div>
+                    <div className="text-text-primary font-medium">{schedule.type}</div>
+                    <div className="text-xs text-text-tertiary">{schedule.description} · <code>{schedule.cron}</code></div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {schedule.last_job ? (
+                      <span className="flex items-center gap-2 text-sm text-text-secondary">
+                        Last run {formatDateTime(schedule.last_job.finished_at || schedule.last_job.created_at)}
+                        <Badge variant={STATUS_BADGES[schedule.last_job.status].variant} size="sm">
+                          {STATUS_BADGES[schedule.last_job.status].label}
+                        </Badge>
+                      </span>
+                    ) : (
+                      <span className="text-sm text-text-tertiary">Not run yet</span>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      icon={<Play className="h-4 w-4" />}
+                      onClick={() => handleRunNow(schedule)}
+                      loading={busyKey === `run-${schedule.type}`}
+                    >
+                      Run Now
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        </>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-4 mb-4">
+        <div className="sm:w-48">
+          <Select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value);
+              setPage(1);
+            }}
+            options={[
+              { value: 'all', label: 'All Status' },
+              ...Object.entries(STATUS_BADGES).map(([value, { label }]) => ({ value, label })),
+            ]}
+            fullWidth
+          />
+        </div>
+        <div className="sm:w-64">
+          <Select
+            value={typeFilter}
+            onChange={(e) => {
+              setTypeFilter(e.target.value);
+              setPage(1);
+            }}
+            options={[
+              { value: 'all', label: 'All Job Types' },
+              ...JOB_TYPES.map(type => ({ value: type, label: type })),
+            ]}
+            fullWidth
+          />
+        </div>
+      </div>
+
+      {jobs.length === 0 ? (
+        <Card>
+          <EmptyState
+            icon={Cog}
+            title="No Jobs"
+            description="Scheduled checks, cover downloads and other background work will be listed here."
+          />
+        </Card>
+      ) : (
+        <Card>
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[900px]">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Job</th>
+                  <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Queued</th>
+                  <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Finished</th>
+                  <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Status</th>
+                  <th className="text-right py-3 px-4 text-sm font-semibold text-text-primary">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {jobs.map(job => {
+                  const badge = STATUS_BADGES[job.status];
+                  return (
+                    <tr key={job.id} className="hover:bg-background-secondary transition-colors">
+                      <td className="py-3 px-4">
+                        <div className="text-text-primary font-medium">#{job.id} {job.type}</div>
+                        {describeDetails(job.payload) && (
+                          <div className="text-xs text-text-tertiary break-all">{describeDetails(job.payload)}</div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-text-secondary text-sm">{formatDateTime(job.created_at)}</td>
+                      <td className="py-3 px-4 text-text-secondary text-sm">{formatDateTime(job.finished_at)}</td>
+                      <td className="py-3 px-4">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={badge.variant} size="sm">{badge.label}</Badge>
+                          <span className="text-xs text-text-tertiary">
+                            {job.attempts}/{job.max_attempts} attempts
+                          </span>
+                        </div>
+                        {job.status === 'pending' && job.attempts > 0 && (
+                          <div className="text-xs text-text-tertiary mt-1">Retrying {formatDateTime(job.run_at)}</div>
+                        )}
+                        {job.status === 'running' && job.locked_by && (
+                          <div className="text-xs text-text-tertiary mt-1">On {job.locked_by}</div>
+                        )}
+                        {job.last_error && (
+                          <div className="text-xs text-red-600 dark:text-red-400 mt-1">{job.last_error}</div>
+                        )}
+                        {job.status === 'succeeded' && describeDetails(job.result) && (
+                          <div className="text-xs text-text-tertiary mt-1">{describeDetails(job.result)}</div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="flex justify-end gap-2">
+                          {job.status === 'dead' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              icon={<RotateCcw className="h-4 w-4" />}
+                              onClick={() => handleRetry(job)}
+                              loading={busyKey === `retry-${job.id}`}
+                            >
+                              Retry
+                            </Button>
+                          )}
+                          {job.status !== 'running' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              icon={<Trash2 className="h-4 w-4" />}
+                              onClick={() => handleDelete(job)}
+                              loading={busyKey === `delete-${job.id}`}
+                              className="text-red-600 hover:text-red-700"
+                            >
+                              Delete
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <Pagination
+            page={page}
+            totalPages={totalPages}
+            totalCount={totalCount}
+            limit={limit}
+            onPageChange={setPage}
+            onLimitChange={(newLimit) => {
+              setLimit(newLimit);
+              setPage(1);
+            }}
+          />
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default Jobs;
@@ -3,9 +3,12 @@ import { config } from '../config';
 import { apiFetch } from '../utils/api';
 import { motion } from 'framer-motion';
 import { useSearchParams, useNavigate } from 'react-router-dom';
-import { Search, FileText, Calendar, AlertCircle, BookOpen } from 'lucide-react';
-import { Input, Select, Badge, EmptyState } from './ui';
+import { Search, FileText, Calendar, AlertCircle, BookOpen, RefreshCw, PackageX } from 'lucide-react';
+import { Input, Select, Badge, EmptyState, Button, Modal } from './ui';
 import Pagination from './Pagination';
+import { useAuth } from './AuthContext';
+
+type LoanOutcome = 'returned' | 'damaged' | 'lost' | 'claims_returned';
 
 interface Loan {
   id: number;
@@ -14,11 +17,56 @@ interface Loan {
   borrow_date: string;
   due_date: string;
   return_date: string | null;
+  renewal_count: number;
+  max_renewals: number;
+  outcome: LoanOutcome | null;
+  outcome_note: string | null;
+}
+
+interface CloseForm {
+  outcome: LoanOutcome;
+  replacement_charge: string;
+  condition: string;
+  note: string;
 }
 
+const OUTCOME_BADGES: Record<LoanOutcome, { label: string; variant: 'success' | 'warning' | 'error' | 'info' }> = {
+  returned: { label: 'Returned', variant: 'success' },
+  damaged: { label: 'Damaged', variant: 'warning' },
+  lost: { label: 'Lost', variant: 'error' },
+  claims_returned: { label: 'Claims Returned', variant: 'info' },
+};
+
+const OUTCOME_OPTIONS = [
+  { value: 'returned', label: 'Returned' },
+  { value: 'damaged', label: 'Returned damaged' },
+  { value: 'lost', label: 'Lost' },
+  { value: 'claims_returned', label: 'Claims returned' },
+];
+
+const CONDITION_OPTIONS = [
+  { value: '', label: 'Unchanged' },
+  { value: 'new', label: 'New' },
+  { value: 'good', label: 'Good' },
+  { value: 'fair', label: 'Fair' },
+  { value: 'poor', label: 'Poor' },
+  { value: 'damaged', label: 'Damaged' },
+];
 
-const LoanHistory = () => {
+const EMPTY_CLOSE_FORM: CloseForm = { outcome: 'lost', replacement_charge: '', condition: '', note: '' };
+
+interface LoanHistoryProps {
+  setNotification: (notification: {
+    open: boolean;
+    message: string;
+    severity: 'success' | 'error' | 'info' | 'warning';
+  }) => void;
+}
+
+
+const LoanHistory = ({ setNotification }: LoanHistoryProps) => {
   const navigate = useNavigate();
+  const { token } = useAuth();
   const [searchParams, setSearchParams] = useSearchParams();
   const [loans, setLoans] = useState<Loan[]>([]);
   const [loading, setLoading] = useState(true);
@@ -33,6 +81,13 @@ const LoanHistory = () => {
   // Filter state
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState(searchParams.get('status') || 'all');
+  const [outcomeFilter, setOutcomeFilter] = useState(searchParams.get('outcome') || 'all');
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // Close loan dialog state
+  const [closingLoan, setClosingLoan] = useState<Loan | null>(null);
+  const [closeForm, setCloseForm] = useState<CloseForm>(EMPTY_CLOSE_FORM);
+  const [closing, setClosing] = useState(false);
 
   useEffect(() => {
     const fetchLoans = async () => {
@@ -41,6 +96,7 @@ const LoanHistory = () => {
       try {
         let url = `${config.apiUrl}/loans?page=${page}&limit=${limit}`;
         if (statusFilter !== 'all') url += `&status=${statusFilter}`;
+        if (outcomeFilter !== 'all') url += `&outcome=${outcomeFilter}`;
         if (searchQuery) url += `&search=${searchQuery}`;
 
         const response = await apiFetch(url);
@@ -62,7 +118,75 @@ const LoanHistory = () => {
     };
 
     fetchLoans();
-  }, [page, limit, statusFilter, searchQuery]);
+  }, [page, limit, statusFilter, outcomeFilter, searchQuery, refreshKey]);
+
+  const handleRenew = async (loan: Loan) => {
+    try {
+      const response = await apiFetch(`${config.apiUrl}/loans/${loan.id}/renew`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to renew loan');
+      }
+
+      const renewed = await response.json();
+      setNotification({
+        open: true,
+        message: `Loan renewed! New due date: ${new Date(renewed.due_date).toLocaleDateString()}`,
+        severity: 'success'
+      });
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      setNotification({ open: true, message: err instanceof Error ? err.message : 'Failed to renew loan', severity: 'error' });
+    }
+  };
+
+  const handleOpenClose = (loan: Loan) => {
+    setClosingLoan(loan);
+    setCloseForm(EMPTY_CLOSE_FORM);
+  };
+
+  const handleCloseLoan = async () => {
+    if (!closingLoan) return;
+
+    const { outcome, replacement_charge, condition, note } = closeForm;
+    const chargeable = outcome === 'lost' || outcome === 'damaged';
+
+    setClosing(true);
+    try {
+      const response = await apiFetch(`${config.apiUrl}/loans/${closingLoan.id}/close`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          outcome,
+          ...(chargeable && replacement_charge && { replacement_charge: parseFloat(replacement_charge) }),
+          ...(outcome === 'returned' && condition && { condition }),
+          ...(note.trim() && { note: note.trim() }),
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to close loan');
+      }
+
+      setNotification({ open: true, message: result.message, severity: 'success' });
+      setClosingLoan(null);
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      setNotification({ open: true, message: err instanceof Error ? err.message : 'Failed to close loan', severity: 'error' });
+    } finally {
+      setClosing(false);
+    }
+  };
 
   const formatDate = (dateString: string | null) => {
     if (!dateString) return 'N/A';
@@ -71,7 +195,8 @@ const LoanHistory = () => {
 
   const getStatusBadge = (loan: Loan) => {
     if (loan.return_date) {
-      return <Badge variant="success" size="sm">Returned</Badge>;
+      const badge = OUTCOME_BADGES[loan.outcome || 'returned'];
+      return <Badge variant={badge.variant} size="sm">{badge.label}</Badge>;
     }
     if (new Date(loan.due_date) < new Date()) {
       return <Badge variant="error" size="sm">Overdue</Badge>;
@@ -137,6 +262,27 @@ const LoanHistory = () => {
             fullWidth
           />
         </div>
+        <div className="sm:w-48">
+          <Select
+            value={outcomeFilter}
+            onChange={(e) => {
+              const newOutcome = e.target.value;
+              setOutcomeFilter(newOutcome);
+              setPage(1);
+              if (newOutcome === 'all') {
+                searchParams.delete('outcome');
+              } else {
+                searchParams.set('outcome', newOutcome);
+              }
+              setSearchParams(searchParams);
+            }}
+            options={[
+              { value: 'all', label: 'All Outcomes' },
+              ...OUTCOME_OPTIONS.map(({ value }) => ({ value, label: OUTCOME_BADGES[value as LoanOutcome].label })),
+            ]}
+            fullWidth
+          />
+        </div>
       </div>
 
       {/* Table */}
@@ -156,7 +302,7 @@ const LoanHistory = () => {
       ) : (
         <div className="bg-surface rounded-lg shadow-md overflow-hidden">
           <div className="overflow-x-auto">
-            <table className="w-full min-w-[650px]">
+            <table className="w-full min-w-[800px]">
               <thead className="bg-background-secondary border-b border-border">
                 <tr>
                   <th className="px-4 py-3 text-left text-sm font-semibold text-text-primary">Book</th>
@@ -164,7 +310,9 @@ const LoanHistory = () => {
                   <th className="px-4 py-3 text-left text-sm font-semibold text-text-primary">Borrow Date</th>
                   <th className="px-4 py-3 text-left text-sm font-semibold text-text-primary">Due Date</th>
                   <th className="px-4 py-3 text-left text-sm font-semibold text-text-primary">Return Date</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-text-primary">Renewals</th>
                   <th className="px-4 py-3 text-left text-sm font-semibold text-text-primary">Status</th>
+                  <th className="px-4 py-3 text-right text-sm font-semibold text-text-primary">Actions</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-border">
@@ -200,7 +348,35 @@ const LoanHistory = () => {
                         <span className="text-text-tertiary">Not returned</span>
                       )}
                     </td>
-                    <td className="px-4 py-3">{getStatusBadge(loan)}</td>
+                    <td className="px-4 py-3 text-text-secondary">
+                      {loan.renewal_count} / {loan.max_renewals}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div title={loan.outcome_note || undefined}>{getStatusBadge(loan)}</div>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {!loan.return_date && (
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            icon={<RefreshCw className="h-4 w-4" />}
+                            onClick={() => handleRenew(loan)}
+                            disabled={loan.renewal_count >= loan.max_renewals}
+                          >
+                            Renew
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            icon={<PackageX className="h-4 w-4" />}
+                            onClick={() => handleOpenClose(loan)}
+                          >
+                            Close
+                          </Button>
+                        </div>
+                      )}
+                    </td>
                   </motion.tr>
                 ))
                 }
@@ -218,6 +394,89 @@ const LoanHistory = () => {
         onPageChange={setPage}
         onLimitChange={setLimit}
       />
+
+      {/* Dialog for closing a loan as lost, damaged or claims returned */}
+      <Modal
+        open={!!closingLoan}
+        onClose={() => setClosingLoan(null)}
+        title="Close Loan"
+        size="sm"
+      >
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleCloseLoan();
+          }}
+          className="space-y-4"
+        >
+          <p className="text-sm text-text-secondary">
+            {closingLoan?.book_title}, borrowed by {closingLoan?.member_name}
+          </p>
+
+          <Select
+            label="Outcome"
+            value={closeForm.outcome}
+            onChange={(e) => setCloseForm({ ...closeForm, outcome: e.target.value as LoanOutcome })}
+            options={OUTCOME_OPTIONS}
+            fullWidth
+          />
+
+          {(closeForm.outcome === 'lost' || closeForm.outcome === 'damaged') && (
+            <Input
+              label="Replacement charge"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={closeForm.replacement_charge}
+              onChange={(e) => setCloseForm({ ...closeForm, replacement_charge: e.target.value })}
+              helperText="Leave blank to charge nothing"
+              fullWidth
+            />
+          )}
+
+          {closeForm.outcome === 'returned' && (
+            <Select
+              label="Condition"
+              value={closeForm.condition}
+              onChange={(e) => setCloseForm({ ...closeForm, condition: e.target.value })}
+              options={CONDITION_OPTIONS}
+              fullWidth
+            />
+          )}
+
+          <Input
+            label="Note"
+            value={closeForm.note}
+            onChange={(e) => setCloseForm({ ...closeForm, note: e.target.value })}
+            placeholder={closeForm.outcome === 'damaged' ? 'e.g. Water damage to the cover' : ''}
+            maxLength={1000}
+            fullWidth
+          />
+
+          {closeForm.outcome !== 'returned' && (
+            <p className="text-sm text-text-tertiary">
+              The copy will be withdrawn from circulation.
+            </p>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4 border-t border-border">
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => setClosingLoan(null)}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant="primary"
+              loading={closing}
+            >
+              Close Loan
+            </Button>
+          </div>
+        </form>
+      </Modal>
     </div>
   );
 };
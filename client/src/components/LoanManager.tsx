@@ -1,6 +1,6 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { config } from '../config';
-import { BookPlus, BookCheck } from 'lucide-react';
+import { BookPlus, BookCheck, Bookmark, RefreshCw } from 'lucide-react';
 import { Card, Button, Select } from './ui';
 import { useAuth } from './AuthContext';
 import { apiFetch } from '../utils/api';
@@ -11,6 +11,9 @@ interface Book {
   author: string;
   isbn: string;
   available: boolean;
+  on_hold_shelf?: boolean;
+  available_copies?: number;
+  total_copies?: number;
 }
 
 interface Member {
@@ -19,6 +22,17 @@ interface Member {
   email: string;
 }
 
+interface ActiveLoan {
+  id: number;
+  copy_id: number;
+  copy_barcode: string | null;
+  book_title: string;
+  member_name: string;
+  due_date: string;
+  renewal_count: number;
+  max_renewals: number;
+}
+
 interface LoanManagerProps {
   books: Book[];
   members: Member[];
@@ -35,10 +49,35 @@ const LoanManager = ({ books, members, onLoanChange, setNotification }: LoanMana
   const { token } = useAuth();
   const [selectedBookToBorrow, setSelectedBookToBorrow] = useState<number | ''>('');
   const [selectedMember, setSelectedMember] = useState<number | ''>('');
-  const [selectedBookToReturn, setSelectedBookToReturn] = useState<number | ''>('');
+  const [selectedCopyToReturn, setSelectedCopyToReturn] = useState<number | ''>('');
+  const [selectedBookToHold, setSelectedBookToHold] = useState<number | ''>('');
+  const [selectedHoldMember, setSelectedHoldMember] = useState<number | ''>('');
+  const [selectedLoanToRenew, setSelectedLoanToRenew] = useState<number | ''>('');
+  const [activeLoans, setActiveLoans] = useState<ActiveLoan[]>([]);
+  const [loansRefreshKey, setLoansRefreshKey] = useState(0);
 
-  const availableBooks = books.filter(book => book.available);
-  const borrowedBooks = books.filter(book => !book.available);
+  useEffect(() => {
+    const fetchActiveLoans = async () => {
+      try {
+        const response = await apiFetch(`${config.apiUrl}/loans?status=active&limit=1000`, {
+          headers: { 'Authorization': `Bearer ${token}` },
+        });
+        if (!response.ok) {
+          throw new Error('Failed to fetch active loans');
+        }
+        const result = await response.json();
+        setActiveLoans(result.data || []);
+      } catch {
+        setActiveLoans([]);
+      }
+    };
+
+    fetchActiveLoans();
+  }, [token, books, loansRefreshKey]);
+
+  // Books on the hold shelf can only be borrowed by the member they are reserved for
+  const availableBooks = books.filter(book => book.available || book.on_hold_shelf);
+  const unavailableBooks = books.filter(book => !book.available);
 
   const handleBorrow = async () => {
     if (!selectedBookToBorrow || !selectedMember) {
@@ -71,8 +110,8 @@ const LoanManager = ({ books, members, onLoanChange, setNotification }: LoanMana
   };
 
   const handleReturn = async () => {
-    if (!selectedBookToReturn) {
-      setNotification({ open: true, message: 'Please select a book to return.', severity: 'warning' });
+    if (!selectedCopyToReturn) {
+      setNotification({ open: true, message: 'Please select a copy to return.', severity: 'warning' });
       return;
     }
 
@@ -83,7 +122,7 @@ const LoanManager = ({ books, members, onLoanChange, setNotification }: LoanMana
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`,
         },
-        body: JSON.stringify({ book_id: selectedBookToReturn }),
+        body: JSON.stringify({ copy_id: selectedCopyToReturn }),
       });
 
       if (!response.ok) {
@@ -91,20 +130,90 @@ const LoanManager = ({ books, members, onLoanChange, setNotification }: LoanMana
         throw new Error(errorData.error || 'Failed to return book');
       }
 
-      setNotification({ open: true, message: 'Book returned successfully!', severity: 'success' });
-      setSelectedBookToReturn('');
+      const result = await response.json();
+      setNotification({
+        open: true,
+        message: result.hold ? 'Book returned and placed on the hold shelf.' : 'Book returned successfully!',
+        severity: 'success'
+      });
+      setSelectedCopyToReturn('');
       onLoanChange();
     } catch (err: any) {
       setNotification({ open: true, message: err.message, severity: 'error' });
     }
   };
 
+  const handlePlaceHold = async () => {
+    if (!selectedBookToHold || !selectedHoldMember) {
+      setNotification({ open: true, message: 'Please select a book and a member to place a hold.', severity: 'warning' });
+      return;
+    }
+
+    try {
+      const response = await apiFetch(`${config.apiUrl}/holds`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ book_id: selectedBookToHold, member_id: selectedHoldMember }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to place hold');
+      }
+
+      const hold = await response.json();
+      setNotification({ open: true, message: `Hold placed! Position ${hold.queue_position} in the queue.`, severity: 'success' });
+      setSelectedBookToHold('');
+      setSelectedHoldMember('');
+      onLoanChange();
+    } catch (err) {
+      setNotification({ open: true, message: err instanceof Error ? err.message : 'Failed to place hold', severity: 'error' });
+    }
+  };
+
+  const handleRenew = async () => {
+    if (!selectedLoanToRenew) {
+      setNotification({ open: true, message: 'Please select a loan to renew.', severity: 'warning' });
+      return;
+    }
+
+    try {
+      const response = await apiFetch(`${config.apiUrl}/loans/${selectedLoanToRenew}/renew`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to renew loan');
+      }
+
+      const loan = await response.json();
+      setNotification({
+        open: true,
+        message: `Loan renewed until ${new Date(loan.due_date).toLocaleDateString()} (${loan.renewal_count} of ${loan.max_renewals} renewals used).`,
+        severity: 'success'
+      });
+      setSelectedLoanToRenew('');
+      setLoansRefreshKey(key => key + 1);
+    } catch (err) {
+      setNotification({ open: true, message: err instanceof Error ? err.message : 'Failed to renew loan', severity: 'error' });
+    }
+  };
+
   // Prepare options for Select components
   const bookBorrowOptions = [
     { value: '', label: 'Select a book' },
     ...availableBooks.map(book => ({
       value: book.id,
-      label: `${book.title} by ${book.author}`
+      label: `${book.title} by ${book.author}${book.on_hold_shelf ? ' (on hold shelf)' : ''}${
+        book.total_copies ? ` (${book.available_copies ?? 0} of ${book.total_copies} available)` : ''
+      }`
     }))
   ];
 
@@ -116,9 +225,25 @@ const LoanManager = ({ books, members, onLoanChange, setNotification }: LoanMana
     }))
   ];
 
-  const bookReturnOptions = [
+  const copyReturnOptions = [
+    { value: '', label: 'Select a copy' },
+    ...activeLoans.map(loan => ({
+      value: loan.copy_id,
+      label: `${loan.book_title}${loan.copy_barcode ? ` [${loan.copy_barcode}]` : ''} - ${loan.member_name}`
+    }))
+  ];
+
+  const loanRenewOptions = [
+    { value: '', label: 'Select a loan' },
+    ...activeLoans.map(loan => ({
+      value: loan.id,
+      label: `${loan.book_title} - ${loan.member_name} (due ${new Date(loan.due_date).toLocaleDateString()}, ${loan.renewal_count}/${loan.max_renewals} renewals used)`
+    }))
+  ];
+
+  const bookHoldOptions = [
     { value: '', label: 'Select a book' },
-    ...borrowedBooks.map(book => ({
+    ...unavailableBooks.map(book => ({
       value: book.id,
       label: `${book.title} by ${book.author}`
     }))
@@ -174,10 +299,10 @@ const LoanManager = ({ books, members, onLoanChange, setNotification }: LoanMana
         <div className="flex flex-col sm:flex-row gap-4 items-end">
           <div className="flex-1 w-full">
             <Select
-              label="Book"
-              value={selectedBookToReturn}
-              onChange={(e) => setSelectedBookToReturn(Number(e.target.value) || '')}
-              options={bookReturnOptions}
+              label="Copy"
+              value={selectedCopyToReturn}
+              onChange={(e) => setSelectedCopyToReturn(Number(e.target.value) || '')}
+              options={copyReturnOptions}
               fullWidth
             />
           </div>
@@ -191,6 +316,72 @@ const LoanManager = ({ books, members, onLoanChange, setNotification }: LoanMana
           </Button>
         </div>
       </Card>
+
+      {/* Renew Loan Section */}
+      <Card>
+        <div className="flex items-center gap-2 mb-4">
+          <RefreshCw className="h-6 w-6 text-primary" />
+          <h2 className="text-xl font-semibold text-text-primary">Renew Loan</h2>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-4 items-end">
+          <div className="flex-1 w-full">
+            <Select
+              label="Loan"
+              value={selectedLoanToRenew}
+              onChange={(e) => setSelectedLoanToRenew(Number(e.target.value) || '')}
+              options={loanRenewOptions}
+              fullWidth
+            />
+          </div>
+
+          <Button
+            variant="outline"
+            onClick={handleRenew}
+            className="w-full sm:w-auto"
+          >
+            Renew
+          </Button>
+        </div>
+      </Card>
+
+      {/* Place Hold Section */}
+      <Card>
+        <div className="flex items-center gap-2 mb-4">
+          <Bookmark className="h-6 w-6 text-primary" />
+          <h2 className="text-xl font-semibold text-text-primary">Place Hold</h2>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-4 items-end">
+          <div className="flex-1 w-full">
+            <Select
+              label="Book"
+              value={selectedBookToHold}
+              onChange={(e) => setSelectedBookToHold(Number(e.target.value) || '')}
+              options={bookHoldOptions}
+              fullWidth
+            />
+          </div>
+
+          <div className="flex-1 w-full">
+            <Select
+              label="Member"
+              value={selectedHoldMember}
+              onChange={(e) => setSelectedHoldMember(Number(e.target.value) || '')}
+              options={memberOptions}
+              fullWidth
+            />
+          </div>
+
+          <Button
+            variant="outline"
+            onClick={handlePlaceHold}
+            className="w-full sm:w-auto"
+          >
+            Place Hold
+          </Button>
+        </div>
+      </Card>
     </div>
   );
 };
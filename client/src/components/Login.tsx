@@ -3,9 +3,22 @@ import { useNavigate, Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { useAuth } from './AuthContext';
 import { Button, Input, Card, ErrorMessage } from './ui';
-import { LogIn, User, Lock } from 'lucide-react';
+import { LogIn, User, Lock, ShieldCheck } from 'lucide-react';
 import { config } from '../config';
 import { validateRequired, validateMinLength } from '../utils/validation';
+import { EnrollmentDetails, RecoveryCodeList, type TwoFactorEnrollment } from './TwoFactorSetup';
+
+interface LoginResult {
+  token: string;
+  refreshToken: string;
+  user: { id: number; username: string; role: string; member_id?: number | null; permissions?: string[] };
+}
+
+// Between the password and the second factor
+interface TwoFactorChallenge {
+  challengeToken: string;
+  setupRequired: boolean;
+}
 
 const Login = () => {
   const [username, setUsername] = useState('');
@@ -14,9 +27,28 @@ const Login = () => {
   const [loading, setLoading] = useState(false);
   const [fieldErrors, setFieldErrors] = useState<{ username?: string; password?: string }>({});
   const [touched, setTouched] = useState<{ username?: boolean; password?: boolean }>({});
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  // A login that enrolled two-factor waits here until the recovery codes have been seen
+  const [enrolledLogin, setEnrolledLogin] = useState<{ result: LoginResult; recoveryCodes: string[] } | null>(null);
   const navigate = useNavigate();
   const { login } = useAuth();
 
+  const completeLogin = (result: LoginResult) => {
+    login(result.token, result.user, result.refreshToken);
+    navigate('/');
+  };
+
+  const handleCancelTwoFactor = () => {
+    setChallenge(null);
+    setEnrollment(null);
+    setCode('');
+    setUseRecoveryCode(false);
+    setError(null);
+  };
+
   const validateUsername = (value: string): string | null => {
     const requiredError = validateRequired(value, 'Username');
     if (requiredError) return requiredError;
@@ -93,9 +125,24 @@ const Login = () => {
         throw new Error(data.error || 'Invalid username or password');
       }
 
-      const { token, user: userData } = data;
-      login(token, userData);
-      navigate('/');
+      if (data.twoFactorRequired) {
+        setChallenge({ challengeToken: data.challengeToken, setupRequired: data.setupRequired });
+        if (data.setupRequired) {
+          const setupResponse = await fetch(`${config.apiUrl}/auth/login/two-factor/setup`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ challengeToken: data.challengeToken }),
+          });
+          const setupData = await setupResponse.json();
+          if (!setupResponse.ok) {
+            throw new Error(setupData.error || 'Failed to start two-factor setup');
+          }
+          setEnrollment(setupData);
+        }
+        return;
+      }
+
+      completeLogin(data);
     } catch (err: any) {
       setError(err.message || 'An error occurred during login');
     } finally {
@@ -103,6 +150,125 @@ const Login = () => {
     }
   };
 
+  const handleVerify = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!challenge) return;
+    setError(null);
+    setLoading(true);
+
+    try {
+      const response = await fetch(`${config.apiUrl}/auth/login/two-factor`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          challengeToken: challenge.challengeToken,
+          ...(useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() }),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        // An expired challenge means starting over from the password
+        if (response.status === 401 && data.error?.includes('expired')) {
+          handleCancelTwoFactor();
+        }
+        throw new Error(data.error || 'Invalid authentication code');
+      }
+
+      if (data.recoveryCodes) {
+        setEnrolledLogin({ result: data, recoveryCodes: data.recoveryCodes });
+        return;
+      }
+      completeLogin(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred during login');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderTwoFactorStep = () => {
+    if (enrolledLogin) {
+      return (
+        <div className="space-y-6">
+          <RecoveryCodeList codes={enrolledLogin.recoveryCodes} />
+          <Button variant="primary" size="lg" fullWidth onClick={() => completeLogin(enrolledLogin.result)}>
+            I have saved my codes
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleVerify} className="space-y-6">
+        <div className="flex items-center gap-2 text-text-primary">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          <h2 className="font-semibold">
+            {challenge?.setupRequired ? 'Set up two-factor authentication' : 'Two-factor authentication'}
+          </h2>
+        </div>
+
+        {challenge?.setupRequired && (
+          <>
+            <p className="text-sm text-text-secondary">Your account requires two-factor authentication.</p>
+            {enrollment && <EnrollmentDetails enrollment={enrollment} />}
+          </>
+        )}
+
+        <Input
+          label={useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+          id="code"
+          name="code"
+          autoComplete="one-time-code"
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          autoFocus
+          required
+          fullWidth
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          helperText={useRecoveryCode ? 'One of the codes you saved when you set up two-factor' : 'The 6-digit code from your authenticator app'}
+          disabled={loading}
+        />
+
+        {error && (
+          <ErrorMessage
+            message={error}
+            onClose={() => setError(null)}
+          />
+        )}
+
+        <Button
+          type="submit"
+          variant="primary"
+          size="lg"
+          fullWidth
+          loading={loading}
+          disabled={!code.trim()}
+        >
+          Verify
+        </Button>
+
+        <div className="flex justify-between text-sm">
+          <button type="button" onClick={handleCancelTwoFactor} className="text-text-secondary hover:text-text-primary transition-colors">
+            Back
+          </button>
+          {!challenge?.setupRequired && (
+            <button
+              type="button"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setCode('');
+              }}
+              className="text-primary hover:text-primary-dark transition-colors"
+            >
+              {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+            </button>
+          )}
+        </div>
+      </form>
+    );
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background px-4">
       <motion.div
@@ -129,67 +295,69 @@ const Login = () => {
         </div>
 
         <Card variant="elevated" padding="lg">
-          <form onSubmit={handleLogin} className="space-y-6">
-            <Input
-              label="Username"
-              type="text"
-              id="username"
-              name="username"
-              autoComplete="username"
-              autoFocus
-              required
-              fullWidth
-              value={username}
-              onChange={handleUsernameChange}
-              onBlur={handleUsernameBlur}
-              error={fieldErrors.username}
-              startIcon={<User className="h-5 w-5" />}
-              disabled={loading}
-            />
-
-            <Input
-              label="Password"
-              type="password"
-              id="password"
-              name="password"
-              autoComplete="current-password"
-              required
-              fullWidth
-              value={password}
-              onChange={handlePasswordChange}
-              onBlur={handlePasswordBlur}
-              error={fieldErrors.password}
-              startIcon={<Lock className="h-5 w-5" />}
-              disabled={loading}
-            />
+          {challenge ? renderTwoFactorStep() : (
+            <form onSubmit={handleLogin} className="space-y-6">
+              <Input
+                label="Username"
+                type="text"
+                id="username"
+                name="username"
+                autoComplete="username"
+                autoFocus
+                required
+                fullWidth
+                value={username}
+                onChange={handleUsernameChange}
+                onBlur={handleUsernameBlur}
+                error={fieldErrors.username}
+                startIcon={<User className="h-5 w-5" />}
+                disabled={loading}
+              />
 
-            {error && (
-              <ErrorMessage
-                message={error}
-                onClose={() => setError(null)}
+              <Input
+                label="Password"
+                type="password"
+                id="password"
+                name="password"
+                autoComplete="current-password"
+                required
+                fullWidth
+                value={password}
+                onChange={handlePasswordChange}
+                onBlur={handlePasswordBlur}
+                error={fieldErrors.password}
+                startIcon={<Lock className="h-5 w-5" />}
+                disabled={loading}
               />
-            )}
-
-            <Button
-              type="submit"
-              variant="primary"
-              size="lg"
-              fullWidth
-              loading={loading}
-              icon={<LogIn className="h-5 w-5" />}
-            >
-              {loading ? 'Signing in...' : 'Sign In'}
-            </Button>
 
-            <div className="text-center">
-              <Link
-                to="/forgot-password"
-                className="text-sm text-primary hover:text-primary-dark transition-colors"
+              {error && (
+                <ErrorMessage
+                  message={error}
+                  onClose={() => setError(null)}
+                />
+              )}
+
+              <Button
+                type="submit"
+                variant="primary"
+                size="lg"
+                fullWidth
+                loading={loading}
+                icon={<LogIn className="h-5 w-5" />}
               >
-                Forgot your password?
-              </Link>
-            </div>
-          </form>
+                {loading ? 'Signing in...' : 'Sign In'}
+              </Button>
+
+              <div className="text-center">
+                <Link
+                  to="/forgot-password"
+                  className="text-sm text-primary hover:text-primary-dark transition-colors"
+                >
+                  Forgot your password?
+                </Link>
+              </div>
+            </form>
+          )}
         </Card>
 
         <p className="mt-6 text-center text-sm text-text-secondary">
@@ -4,6 +4,8 @@ import { apiFetch } from '../utils/api';
 import { Download, Upload, FileText } from 'lucide-react';
 import { Modal, Button } from './ui';
 import { useAuth } from './AuthContext';
+import ImportReview, { type ImportSummary } from './ImportReview';
+import ImportMapping from './ImportMapping';
 
 interface MemberBulkImportDialogProps {
   open: boolean;
@@ -26,6 +28,8 @@ const MemberBulkImportDialog = ({
   const { token } = useAuth();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [preview, setPreview] = useState<ImportSummary | null>(null);
+  const [isReviewing, setIsReviewing] = useState(false);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files.length > 0) {
@@ -57,7 +61,7 @@ const MemberBulkImportDialog = ({
     }
 
     setIsUploading(true);
-    setNotification({ open: true, message: 'Uploading members...', severity: 'info' });
+    setNotification({ open: true, message: 'Checking members...', severity: 'info' });
 
     const formData = new FormData();
     formData.append('file', selectedFile);
@@ -74,16 +78,13 @@ const MemberBulkImportDialog = ({
       const result = await response.json();
 
       if (!response.ok) {
-        throw new Error(result.error || 'Failed to bulk import members');
+        throw new Error(result.error || 'Failed to upload members');
       }
 
-      setNotification({
-        open: true,
-        message: result.message || 'Members imported successfully!',
-        severity: result.errors && result.errors.length > 0 ? 'warning' : 'success',
-      });
-      onImportSuccess(); // Trigger parent to refetch members
-      onClose(); // Close dialog
+      // Check how the columns were mapped, then review what the import would do
+      setPreview(result);
+      setIsReviewing(false);
+      setNotification({ open: false, message: '', severity: 'info' });
     } catch (error: any) {
       console.error('Bulk import error:', error);
       setNotification({ open: true, message: error.message, severity: 'error' });
@@ -93,78 +94,121 @@ const MemberBulkImportDialog = ({
     }
   };
 
+  const handleClose = () => {
+    setPreview(null);
+    setIsReviewing(false);
+    setSelectedFile(null);
+    onClose();
+  };
+
+  const handleImportFinished = (result: ImportSummary) => {
+    if (result.status === 'completed') {
+      setNotification({
+        open: true,
+        message: `Import finished: ${result.created_count} created${result.updated_count > 0 ? `, ${result.updated_count} updated` : ''}${result.failed_count > 0 ? `, ${result.failed_count} failed` : ''}.`,
+        severity: result.failed_count > 0 ? 'warning' : 'success',
+      });
+    } else if (result.status === 'failed') {
+      setNotification({ open: true, message: `Import stopped: ${result.error}`, severity: 'error' });
+    } else {
+      setNotification({ open: true, message: 'The import is continuing in the background.', severity: 'info' });
+    }
+    onImportSuccess(); // Trigger parent to refetch members
+    handleClose();
+  };
+
   return (
     <Modal
       open={open}
-      onClose={onClose}
+      onClose={handleClose}
       title="Bulk Import Members"
-      size="sm"
+      size={preview ? 'lg' : 'sm'}
     >
-      <div className="space-y-6">
-        {/* Instructions */}
-        <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
-          <p className="text-sm text-blue-800 dark:text-blue-300">
-            Download the template, fill in your member details, and upload the CSV file.
-            Only 'name', 'email', and 'phone' columns will be processed. Phone is optional.
-          </p>
-        </div>
-
-        {/* Download Template Section */}
-        <div>
-          <h3 className="text-sm font-semibold text-text-primary mb-3">Step 1: Download Template</h3>
-          <Button
-            variant="outline"
-            icon={<Download className="h-5 w-5" />}
-            onClick={handleDownloadTemplate}
-          >
-            Download CSV Template
-          </Button>
-        </div>
-
-        {/* Upload Section */}
-        <div>
-          <h3 className="text-sm font-semibold text-text-primary mb-3">Step 2: Upload CSV File</h3>
-          <label className="block">
-            <input
-              type="file"
-              accept=".csv"
-              onChange={handleFileChange}
-              className="hidden"
-              id="csv-upload-members"
-            />
-            <div className="border-2 border-dashed border-border rounded-lg p-6 text-center cursor-pointer hover:border-primary hover:bg-background-secondary transition-colors">
-              <FileText className="h-12 w-12 text-text-tertiary mx-auto mb-3" />
-              <p className="text-sm font-medium text-text-primary mb-1">
-                {selectedFile ? selectedFile.name : 'Click to select CSV file'}
-              </p>
-              <p className="text-xs text-text-secondary">
-                {selectedFile ? 'Click to choose a different file' : 'or drag and drop your CSV file here'}
-              </p>
-            </div>
-          </label>
-        </div>
-
-        {/* Action Buttons */}
-        <div className="flex justify-end gap-3 pt-4 border-t border-border">
-          <Button
-            type="button"
-            variant="ghost"
-            onClick={onClose}
-            disabled={isUploading}
-          >
-            Cancel
-          </Button>
-          <Button
-            variant="primary"
-            icon={<Upload className="h-5 w-5" />}
-            onClick={handleUpload}
-            disabled={!selectedFile || isUploading}
-            loading={isUploading}
-          >
-            {isUploading ? 'Uploading...' : 'Upload'}
-          </Button>
+      {preview && isReviewing ? (
+        <ImportReview
+          preview={preview}
+          updateLabel="To update"
+          onBack={() => setIsReviewing(false)}
+          onCancel={handleClose}
+          onFinished={handleImportFinished}
+        />
+      ) : preview ? (
+        <ImportMapping
+          preview={preview}
+          keyLabel="email"
+          onCancel={handleClose}
+          onContinue={(planned) => { setPreview(planned); setIsReviewing(true); }}
+        />
+      ) : (
+        <div className="space-y-6">
+          {/* Instructions */}
+          <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
+            <p className="text-sm text-blue-800 dark:text-blue-300">
+              Download the template, fill in your member details, and upload the CSV file.
+              Only 'name', 'email', and 'phone' columns will be processed. Phone is optional.
+              Columns with other names can be matched to these fields after uploading, and
+              members can be updated by email. You can review what will be created or updated
+              and any problems before the import starts.
+            </p>
+          </div>
+
+          {/* Download Template Section */}
+          <div>
+            <h3 className="text-sm font-semibold text-text-primary mb-3">Step 1: Download Template</h3>
+            <Button
+              variant="outline"
+              icon={<Download className="h-5 w-5" />}
+              onClick={handleDownloadTemplate}
+            >
+              Download CSV Template
+            </Button>
+          </div>
+
+          {/* Upload Section */}
+          <div>
+            <h3 className="text-sm font-semibold text-text-primary mb-3">Step 2: Upload CSV File</h3>
+            <label className="block">
+              <input
+                type="file"
+                accept=".csv"
+                onChange={handleFileChange}
+                className="hidden"
+                id="csv-upload-members"
+              />
+              <div className="border-2 border-dashed border-border rounded-lg p-6 text-center cursor-pointer hover:border-primary hover:bg-background-secondary transition-colors">
+                <FileText className="h-12 w-12 text-text-tertiary mx-auto mb-3" />
+                <p className="text-sm font-medium text-text-primary mb-1">
+                  {selectedFile ? selectedFile.name : 'Click to select CSV file'}
+                </p>
+                <p className="text-xs text-text-secondary">
+                  {selectedFile ? 'Click to choose a different file' : 'or drag and drop your CSV file here'}
+                </p>
+              </div>
+            </label>
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex justify-end gap-3 pt-4 border-t border-border">
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={handleClose}
+              disabled={isUploading}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              icon={<Upload className="h-5 w-5" />}
+              onClick={handleUpload}
+              disabled={!selectedFile || isUploading}
+              loading={isUploading}
+            >
+              {isUploading ? 'Checking...' : 'Preview Import'}
+            </Button>
+          </div>
         </div>
-      </div>
+      )}
     </Modal>
   );
 };
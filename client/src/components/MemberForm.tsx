@@ -7,6 +7,8 @@ interface Member {
   name: string;
   email: string;
   phone?: string;
+  barcode?: string | null;
+  member_type?: string;
 }
 
 interface MemberFormProps {
@@ -23,7 +25,7 @@ interface ValidationErrors {
 }
 
 const MemberForm = ({ open, onClose, onSubmit, memberToEdit }: MemberFormProps) => {
-  const [member, setMember] = useState<Member>({ name: '', email: '', phone: '' });
+  const [member, setMember] = useState<Member>({ name: '', email: '', phone: '', member_type: 'standard' });
   const [errors, setErrors] = useState<ValidationErrors>({});
   const [touched, setTouched] = useState<{ [key: string]: boolean }>({});
 
@@ -31,7 +33,7 @@ const MemberForm = ({ open, onClose, onSubmit, memberToEdit }: MemberFormProps)
     if (memberToEdit) {
       setMember(memberToEdit);
     } else {
-      setMember({ name: '', email: '', phone: '' });
+      setMember({ name: '', email: '', phone: '', member_type: 'standard' });
     }
     setErrors({});
     setTouched({});
@@ -134,6 +136,31 @@ const MemberForm = ({ open, onClose, onSubmit, memberToEdit }: MemberFormProps)
           fullWidth
         />
 
+        <Input
+          label="Library card barcode (optional)"
+          name="barcode"
+          type="text"
+          value={member.barcode || ''}
+          onChange={handleChange}
+          helperText="Scan the member's card to fill this in"
+          onKeyDown={(e) => {
+            // Scanners finish with Enter; don't let that submit the form
+            if (e.key === 'Enter') e.preventDefault();
+          }}
+          maxLength={50}
+          fullWidth
+        />
+
+        <Input
+          label="Member type"
+          name="member_type"
+          type="text"
+          value={member.member_type || ''}
+          onChange={handleChange}
+          helperText="Selects which circulation policies apply, e.g. standard, staff, child"
+          fullWidth
+        />
+
         <div className="flex justify-end gap-3 pt-4 border-t border-border">
           <Button
             type="button"
@@ -1,12 +1,14 @@
 import { motion } from 'framer-motion';
 import { Edit2, Trash2, ChevronUp, ChevronDown, Users, UserPlus } from 'lucide-react';
-import { EmptyState } from './ui';
+import { DidYouMean, EmptyState } from './ui';
+import { useAuth } from './AuthContext';
 
 interface Member {
   id: number;
   name: string;
   email: string;
   phone?: string;
+  barcode?: string | null;
 }
 
 interface MemberListProps {
@@ -17,6 +19,10 @@ interface MemberListProps {
   sortBy: string;
   sortOrder: 'asc' | 'desc';
   onSortChange: (sortBy: string, sortOrder: 'asc' | 'desc') => void;
+  searchQuery?: string;
+  // The corrected search, when the search had no exact hits and similar words were matched instead
+  didYouMean?: string;
+  onSearchChange?: (search: string) => void;
 }
 
 interface SortableHeaderProps {
@@ -49,7 +55,10 @@ const SortableHeader = ({ label, columnId, sortBy, sortOrder, onSort }: Sortable
   );
 };
 
-const MemberList = ({ members, onEdit, onDelete, onAdd, sortBy, sortOrder, onSortChange }: MemberListProps) => {
+const MemberList = ({ members, onEdit, onDelete, onAdd, sortBy, sortOrder, onSortChange, searchQuery, didYouMean, onSearchChange }: MemberListProps) => {
+  const { hasPermission } = useAuth();
+  const canEditMembers = hasPermission('members:write');
+
   const handleSortRequest = (columnId: string) => {
     const isAsc = sortBy === columnId && sortOrder === 'asc';
     onSortChange(columnId, isAsc ? 'desc' : 'asc');
@@ -60,96 +69,110 @@ const MemberList = ({ members, onEdit, onDelete, onAdd, sortBy, sortOrder, onSor
       <div className="bg-surface rounded-lg shadow-md">
         <EmptyState
           icon={Users}
-          title="No Members Yet"
-          description="Start growing your library community by adding your first member!"
-          action={{
+          title={searchQuery ? 'No Members Found' : 'No Members Yet'}
+          description={searchQuery
+            ? `No members match “${searchQuery}”, even allowing for typos.`
+            : 'Start growing your library community by adding your first member!'}
+          action={canEditMembers && !searchQuery ? {
             label: 'Add First Member',
             onClick: onAdd,
             icon: <UserPlus className="h-5 w-5" />,
-          }}
+          } : undefined}
         />
       </div>
     );
   }
 
   return (
-    <div className="bg-surface rounded-lg shadow-md overflow-hidden">
-      <div className="overflow-x-auto">
-        <table className="w-full min-w-[500px]">
-          <thead className="bg-background-secondary border-b border-border">
-            <tr>
-              <th className="px-4 py-3 text-left text-sm">
-                <SortableHeader
-                  label="Name"
-                  columnId="name"
-                  sortBy={sortBy}
-                  sortOrder={sortOrder}
-                  onSort={handleSortRequest}
-                />
-              </th>
-              <th className="px-4 py-3 text-left text-sm">
-                <SortableHeader
-                  label="Email"
-                  columnId="email"
-                  sortBy={sortBy}
-                  sortOrder={sortOrder}
-                  onSort={handleSortRequest}
-                />
-              </th>
-              <th className="px-4 py-3 text-left text-sm font-semibold text-text-primary">Phone</th>
-              <th className="px-4 py-3 text-right text-sm font-semibold text-text-primary">Actions</th>
-            </tr>
-          </thead>
-          <tbody className="divide-y divide-border">
-            {members.map((member, index) => (
-                <motion.tr
-                  key={member.id}
-                  initial={{ opacity: 0, y: 10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: index * 0.05, duration: 0.2 }}
-                  className="hover:bg-background-secondary transition-colors"
-                >
-                  <td className="px-4 py-3">
-                    <div className="flex items-center gap-3">
-                      <div className="w-10 h-10 bg-secondary/10 rounded-full flex items-center justify-center flex-shrink-0">
-                        <span className="text-secondary font-semibold text-sm">
-                          {member.name.charAt(0).toUpperCase()}
-                        </span>
+    <>
+      {didYouMean && searchQuery && onSearchChange && (
+        <DidYouMean search={searchQuery} suggestion={didYouMean} onSearch={onSearchChange} className="mb-4" />
+      )}
+      <div className="bg-surface rounded-lg shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[500px]">
+            <thead className="bg-background-secondary border-b border-border">
+              <tr>
+                <th className="px-4 py-3 text-left text-sm">
+                  <SortableHeader
+                    label="Name"
+                    columnId="name"
+                    sortBy={sortBy}
+                    sortOrder={sortOrder}
+                    onSort={handleSortRequest}
+                  />
+                </th>
+                <th className="px-4 py-3 text-left text-sm">
+                  <SortableHeader
+                    label="Email"
+                    columnId="email"
+                    sortBy={sortBy}
+                    sortOrder={sortOrder}
+                    onSort={handleSortRequest}
+                  />
+                </th>
+                <th className="px-4 py-3 text-left text-sm font-semibold text-text-primary">Phone</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold text-text-primary">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {members.map((member, index) => (
+                  <motion.tr
+                    key={member.id}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: index * 0.05, duration: 0.2 }}
+                    className="hover:bg-background-secondary transition-colors"
+                  >
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 bg-secondary/10 rounded-full flex items-center justify-center flex-shrink-0">
+                          <span className="text-secondary font-semibold text-sm">
+                            {member.name.charAt(0).toUpperCase()}
+                          </span>
+                        </div>
+                        <div>
+                          <span className="text-text-primary font-medium">{member.name}</span>
+                          {member.barcode && (
+                            <p className="text-xs font-mono text-text-tertiary">{member.barcode}</p>
+                          )}
+                        </div>
                       </div>
-                      <span className="text-text-primary font-medium">{member.name}</span>
-                    </div>
-                  </td>
-                  <td className="px-4 py-3 text-text-secondary">{member.email}</td>
-                  <td className="px-4 py-3 text-text-secondary">{member.phone || 'N/A'}</td>
-                  <td className="px-4 py-3">
-                    <div className="flex items-center justify-end gap-2">
-                      <motion.button
-                        whileHover={{ scale: 1.1 }}
-                        whileTap={{ scale: 0.9 }}
-                        onClick={() => onEdit(member)}
-                        className="p-2 text-primary hover:bg-primary/10 rounded-lg transition-colors"
-                        aria-label="Edit member"
-                      >
-                        <Edit2 className="h-4 w-4" />
-                      </motion.button>
-                      <motion.button
-                        whileHover={{ scale: 1.1 }}
-                        whileTap={{ scale: 0.9 }}
-                        onClick={() => onDelete(member.id)}
-                        className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
-                        aria-label="Delete member"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </motion.button>
-                    </div>
-                  </td>
-                </motion.tr>
-              ))
-            }
-          </tbody>
-        </table>
+                    </td>
+                    <td className="px-4 py-3 text-text-secondary">{member.email}</td>
+                    <td className="px-4 py-3 text-text-secondary">{member.phone || 'N/A'}</td>
+                    <td className="px-4 py-3">
+                      {canEditMembers && (
+                        <div className="flex items-center justify-end gap-2">
+                          <motion.button
+                            whileHover={{ scale: 1.1 }}
+                            whileTap={{ scale: 0.9 }}
+                            onClick={() => onEdit(member)}
+                            className="p-2 text-primary hover:bg-primary/10 rounded-lg transition-colors"
+                            aria-label="Edit member"
+                          >
+                            <Edit2 className="h-4 w-4" />
+                          </motion.button>
+                          <motion.button
+                            whileHover={{ scale: 1.1 }}
+                            whileTap={{ scale: 0.9 }}
+                            onClick={() => onDelete(member.id)}
+                            className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                            aria-label="Delete member"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </motion.button>
+                        </div>
+                      )}
+                    </td>
+                  </motion.tr>
+                ))
+              }
+            </tbody>
+          </table>
+        </div>
       </div>
-    </div>
+    </>
   );
 };
 
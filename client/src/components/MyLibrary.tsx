@@ -0,0 +1,448 @@
+import { useState, useEffect } from 'react';
+import { Library, BookOpen, Bookmark, Wallet, History, Search, RefreshCw, X, AlertCircle } from 'lucide-react';
+import { Card, Button, Input, Badge } from './ui';
+import Pagination from './Pagination';
+import { config } from '../config';
+import { useAuth } from './AuthContext';
+import { apiFetch } from '../utils/api';
+
+interface Member {
+  id: number;
+  name: string;
+  email: string;
+  barcode?: string | null;
+}
+
+interface Loan {
+  id: number;
+  book_title: string;
+  borrow_date: string;
+  due_date: string;
+  return_date: string | null;
+  outcome: string | null;
+  renewal_count: number;
+  max_renewals: number;
+}
+
+interface Hold {
+  id: number;
+  book_title: string;
+  status: 'waiting' | 'ready';
+  queue_position: number;
+  expires_at: string | null;
+}
+
+interface AccountEntry {
+  id: number;
+  type: 'fine' | 'charge' | 'payment' | 'waiver';
+  amount: number;
+  description: string;
+  created_at: string;
+}
+
+interface Account {
+  balance: number;
+  data: AccountEntry[];
+}
+
+interface Book {
+  id: number;
+  title: string;
+  author: string;
+  available: boolean;
+}
+
+interface MyLibraryProps {
+  setNotification: (notification: {
+    open: boolean;
+    message: string;
+    severity: 'success' | 'error' | 'info' | 'warning';
+  }) => void;
+}
+
+const HISTORY_LIMIT = 10;
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString();
+
+/**
+ * Self-service area for patrons: their loans, holds and fines, with renewals
+ * and holds they can manage themselves. The server limits every request to
+ * the member the login is linked to.
+ */
+const MyLibrary = ({ setNotification }: MyLibraryProps) => {
+  const { token } = useAuth();
+  const [member, setMember] = useState<Member | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [currentLoans, setCurrentLoans] = useState<Loan[]>([]);
+  const [pastLoans, setPastLoans] = useState<Loan[]>([]);
+  const [historyPage, setHistoryPage] = useState(1);
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [historyPages, setHistoryPages] = useState(0);
+  const [holds, setHolds] = useState<Hold[]>([]);
+  const [account, setAccount] = useState<Account | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const [bookSearch, setBookSearch] = useState('');
+  const [searchResults, setSearchResults] = useState<Book[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    const fetchMember = async () => {
+      try {
+        const response = await apiFetch(`${config.apiUrl}/members/me`, {
+          headers: { 'Authorization': `Bearer ${token}` },
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load your library account');
+        }
+        setMember(result);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load your library account');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMember();
+  }, [token]);
+
+  useEffect(() => {
+    if (!member) return;
+
+    const headers = { 'Authorization': `Bearer ${token}` };
+    const getJson = async (url: string) => {
+      const response = await apiFetch(url, { headers });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to load your library account');
+      }
+      return response.json();
+    };
+
+    const fetchOverview = async () => {
+      try {
+        const [loans, activeHolds, memberAccount] = await Promise.all([
+          getJson(`${config.apiUrl}/loans?status=active&limit=100`),
+          getJson(`${config.apiUrl}/holds?status=active&limit=100`),
+          getJson(`${config.apiUrl}/members/${member.id}/account?limit=5`),
+        ]);
+        setCurrentLoans(loans.data || []);
+        setHolds(activeHolds.data || []);
+        setAccount(memberAccount);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load your library account');
+      }
+    };
+
+    fetchOverview();
+  }, [member, token, refreshKey]);
+
+  useEffect(() => {
+    if (!member) return;
+
+    const fetchHistory = async () => {
+      try {
+        const response = await apiFetch(
+          `${config.apiUrl}/loans?status=returned&page=${historyPage}&limit=${HISTORY_LIMIT}`,
+          { headers: { 'Authorization': `Bearer ${token}` } }
+        );
+        if (!response.ok) {
+          throw new Error('Failed to load your loan history');
+        }
+        const result = await response.json();
+        setPastLoans(result.data || []);
+        setHistoryTotal(result.pagination?.total || 0);
+        setHistoryPages(result.pagination?.totalPages || 0);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load your loan history');
+      }
+    };
+
+    fetchHistory();
+  }, [member, token, historyPage]);
+
+  const sendRequest = async (url: string, init: RequestInit, fallback: string) => {
+    const response = await apiFetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      throw new Error(result.error || fallback);
+    }
+    return response.status === 204 ? null : response.json();
+  };
+
+  const handleRenew = async (loan: Loan) => {
+    try {
+      const renewed = await sendRequest(`${config.apiUrl}/loans/${loan.id}/renew`, { method: 'POST' }, 'Failed to renew loan');
+      setNotification({
+        open: true,
+        message: `Renewed "${loan.book_title}" until ${formatDate(renewed.due_date)}`,
+        severity: 'success',
+      });
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      setNotification({ open: true, message: err instanceof Error ? err.message : 'Failed to renew loan', severity: 'error' });
+    }
+  };
+
+  const handleCancelHold = async (hold: Hold) => {
+    if (!window.confirm(`Cancel your hold on "${hold.book_title}"?`)) return;
+    try {
+      await sendRequest(`${config.apiUrl}/holds/${hold.id}`, { method: 'DELETE' }, 'Failed to cancel hold');
+      setNotification({ open: true, message: 'Hold cancelled', severity: 'success' });
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      setNotification({ open: true, message: err instanceof Error ? err.message : 'Failed to cancel hold', severity: 'error' });
+    }
+  };
+
+  const handlePlaceHold = async (book: Book) => {
+    if (!member) return;
+    try {
+      const hold = await sendRequest(
+        `${config.apiUrl}/holds`,
+        { method: 'POST', body: JSON.stringify({ book_id: book.id, member_id: member.id }) },
+        'Failed to place hold'
+      );
+      setNotification({
+        open: true,
+        message: `Hold placed on "${book.title}". You are number ${hold.queue_position} in the queue.`,
+        severity: 'success',
+      });
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      setNotification({ open: true, message: err instanceof Error ? err.message : 'Failed to place hold', severity: 'error' });
+    }
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bookSearch.trim()) return;
+
+    setSearching(true);
+    try {
+      const result = await sendRequest(
+        `${config.apiUrl}/books?search=${encodeURIComponent(bookSearch.trim())}&limit=10`,
+        { method: 'GET' },
+        'Failed to search the catalogue'
+      );
+      setSearchResults(result.data || []);
+    } catch (err) {
+      setNotification({ open: true, message: err instanceof Error ? err.message : 'Failed to search the catalogue', severity: 'error' });
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-12 w-12 border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (error || !member) {
+    return (
+      <div className="flex justify-center items-center min-h-[400px]">
+        <div className="text-center">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <p className="text-lg text-red-600">{error || 'Failed to load your library account'}</p>
+          <p className="text-sm text-text-secondary mt-2">Please ask library staff to link your login to your library card.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isOverdue = (loan: Loan) => new Date(loan.due_date) < new Date();
+  const heldTitles = new Set(holds.map(hold => hold.book_title));
+
+  return (
+    <div className="space-y-6 mt-6">
+      <div className="flex items-center gap-2">
+        <Library className="h-6 w-6 text-primary" />
+        <h2 className="text-xl font-semibold text-text-primary">My Library</h2>
+        <span className="text-text-secondary">· {member.name}</span>
+        {member.barcode && <span className="font-mono text-sm text-text-tertiary">{member.barcode}</span>}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Current loans */}
+        <Card>
+          <div className="flex items-center gap-2 mb-4">
+            <BookOpen className="h-5 w-5 text-text-secondary" />
+            <h3 className="text-lg font-semibold text-text-primary">On loan ({currentLoans.length})</h3>
+          </div>
+          {currentLoans.length === 0 ? (
+            <p className="text-sm text-text-tertiary">You have nothing on loan.</p>
+          ) : (
+            <ul className="divide-y divide-border">
+              {currentLoans.map((loan) => (
+                <li key={loan.id} className="flex flex-wrap items-center gap-2 py-2 text-sm">
+                  <span className="flex-1 text-text-primary font-medium">{loan.book_title}</span>
+                  <Badge variant={isOverdue(loan) ? 'error' : 'info'} size="sm">
+                    {isOverdue(loan) ? 'Overdue' : 'Due'} {formatDate(loan.due_date)}
+                  </Badge>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    icon={<RefreshCw className="h-4 w-4" />}
+                    onClick={() => handleRenew(loan)}
+                    disabled={loan.renewal_count >= loan.max_renewals}
+                    title={`${loan.renewal_count} of ${loan.max_renewals} renewals used`}
+                  >
+                    Renew
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+
+        {/* Holds */}
+        <Card>
+          <div className="flex items-center gap-2 mb-4">
+            <Bookmark className="h-5 w-5 text-text-secondary" />
+            <h3 className="text-lg font-semibold text-text-primary">Holds ({holds.length})</h3>
+          </div>
+          {holds.length === 0 ? (
+            <p className="text-sm text-text-tertiary">You have no holds. Search the catalogue below to place one.</p>
+          ) : (
+            <ul className="divide-y divide-border">
+              {holds.map((hold) => (
+                <li key={hold.id} className="flex flex-wrap items-center gap-2 py-2 text-sm">
+                  <span className="flex-1 text-text-primary font-medium">{hold.book_title}</span>
+                  {hold.status === 'ready' ? (
+                    <Badge variant="success" size="sm">
+                      Ready to collect{hold.expires_at && ` until ${formatDate(hold.expires_at)}`}
+                    </Badge>
+                  ) : (
+                    <Badge variant="default" size="sm">Number {hold.queue_position} in queue</Badge>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleCancelHold(hold)}
+                    className="p-1 text-text-tertiary hover:text-red-600"
+                    aria-label={`Cancel hold on ${hold.book_title}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+
+        {/* Fines and charges */}
+        <Card>
+          <div className="flex items-center gap-2 mb-4">
+            <Wallet className="h-5 w-5 text-text-secondary" />
+            <h3 className="text-lg font-semibold text-text-primary">Fines</h3>
+            {account && (
+              <Badge variant={account.balance > 0 ? 'warning' : 'success'} size="sm">
+                {account.balance > 0 ? `You owe ${account.balance.toFixed(2)}` : 'Nothing owed'}
+              </Badge>
+            )}
+          </div>
+          {!account || account.data.length === 0 ? (
+            <p className="text-sm text-text-tertiary">No fines or payments yet.</p>
+          ) : (
+            <ul className="divide-y divide-border">
+              {account.data.map((entry) => (
+                <li key={entry.id} className="flex items-center gap-2 py-2 text-sm">
+                  <span className="text-text-tertiary">{formatDate(entry.created_at)}</span>
+                  <span className="flex-1 text-text-primary">{entry.description}</span>
+                  <span className={entry.amount > 0 ? 'text-red-600' : 'text-green-600'}>
+                    {entry.amount.toFixed(2)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+
+        {/* Catalogue search to place holds */}
+        <Card>
+          <div className="flex items-center gap-2 mb-4">
+            <Search className="h-5 w-5 text-text-secondary" />
+            <h3 className="text-lg font-semibold text-text-primary">Find a book</h3>
+          </div>
+          <form onSubmit={handleSearch} className="flex gap-2 mb-3">
+            <div className="flex-1">
+              <Input
+                value={bookSearch}
+                onChange={(e) => setBookSearch(e.target.value)}
+                placeholder="Title, author or ISBN"
+                fullWidth
+              />
+            </div>
+            <Button type="submit" variant="primary" loading={searching}>Search</Button>
+          </form>
+          <ul className="divide-y divide-border">
+            {searchResults.map((book) => (
+              <li key={book.id} className="flex flex-wrap items-center gap-2 py-2 text-sm">
+                <span className="flex-1">
+                  <span className="text-text-primary font-medium">{book.title}</span>
+                  <span className="text-text-tertiary"> · {book.author}</span>
+                </span>
+                {book.available ? (
+                  <Badge variant="success" size="sm">On the shelf</Badge>
+                ) : heldTitles.has(book.title) ? (
+                  <Badge variant="info" size="sm">On hold for you</Badge>
+                ) : (
+                  <Button variant="outline" size="sm" onClick={() => handlePlaceHold(book)}>
+                    Place hold
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </Card>
+      </div>
+
+      {/* Loan history */}
+      <Card>
+        <div className="flex items-center gap-2 mb-4">
+          <History className="h-5 w-5 text-text-secondary" />
+          <h3 className="text-lg font-semibold text-text-primary">Loan history</h3>
+        </div>
+        {pastLoans.length === 0 ? (
+          <p className="text-sm text-text-tertiary">No past loans yet.</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {pastLoans.map((loan) => (
+              <li key={loan.id} className="flex flex-wrap items-center gap-2 py-2 text-sm">
+                <span className="flex-1 text-text-primary">{loan.book_title}</span>
+                <span className="text-text-tertiary">
+                  {formatDate(loan.borrow_date)} – {loan.return_date && formatDate(loan.return_date)}
+                </span>
+                {loan.outcome && loan.outcome !== 'returned' && (
+                  <Badge variant="warning" size="sm">{loan.outcome.replace(/_/g, ' ')}</Badge>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        {historyPages > 1 && (
+          <Pagination
+            page={historyPage}
+            totalPages={historyPages}
+            totalCount={historyTotal}
+            limit={HISTORY_LIMIT}
+            onPageChange={setHistoryPage}
+            onLimitChange={() => {}}
+          />
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default MyLibrary;
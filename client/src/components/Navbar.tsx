@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
@@ -8,6 +8,7 @@ import {
   BookOpen,
   Users,
   ArrowLeftRight,
+  ScanLine,
   History,
   FolderOpen,
   UserCog,
@@ -18,23 +19,35 @@ import {
   Sparkles,
   Download,
   Settings,
+  Library,
+  KeyRound,
+  Mail,
+  Cog,
+  Layers,
+  ChevronDown,
 } from 'lucide-react';
 import { useAuth } from './AuthContext';
 import { useOnboarding } from './OnboardingContext';
 import { config } from '../config';
 import { Button } from './ui';
+import type { SavedSearch } from '../utils/bookFields';
 
 interface NavbarProps {
   toggleColorMode: () => void;
   currentMode: 'light' | 'dark';
+  // Smart collections the user pinned, opened in the book list
+  pinnedCollections?: SavedSearch[];
+  onOpenCollection?: (collection: SavedSearch) => void;
 }
 
-const Navbar = ({ toggleColorMode, currentMode }: NavbarProps) => {
-  const { user, logout } = useAuth();
+const Navbar = ({ toggleColorMode, currentMode, pinnedCollections = [], onOpenCollection }: NavbarProps) => {
+  const { user, logout, isStaff, hasPermission } = useAuth();
   const { startTour } = useOnboarding();
   const navigate = useNavigate();
   const [drawerOpen, setDrawerOpen] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
+  const [collectionsOpen, setCollectionsOpen] = useState(false);
+  const collectionsRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     const checkMobile = () => {
@@ -47,27 +60,59 @@ const Navbar = ({ toggleColorMode, currentMode }: NavbarProps) => {
     return () => window.removeEventListener('resize', checkMobile);
   }, []);
 
+  useEffect(() => {
+    if (!collectionsOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (collectionsRef.current && !collectionsRef.current.contains(event.target as Node)) {
+        setCollectionsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [collectionsOpen]);
+
+  const openCollection = (collection: SavedSearch) => {
+    onOpenCollection?.(collection);
+    navigate('/books');
+    setCollectionsOpen(false);
+    setDrawerOpen(false);
+  };
+
+  const showCollections = isStaff && pinnedCollections.length > 0;
+
   const handleLogout = () => {
     logout();
     navigate('/login');
     setDrawerOpen(false);
   };
 
+  // Staff get the library management pages their role allows; patrons only their own library
   const navItems = [
-    { text: 'Dashboard', icon: <Home className="h-5 w-5" />, path: '/dashboard', requiresAuth: true },
-    { text: 'Books', icon: <BookOpen className="h-5 w-5" />, path: '/books', requiresAuth: true },
-    { text: 'Members', icon: <Users className="h-5 w-5" />, path: '/members', requiresAuth: true },
-    { text: 'Borrow/Return', icon: <ArrowLeftRight className="h-5 w-5" />, path: '/loans', requiresAuth: true },
-    { text: 'Loan History', icon: <History className="h-5 w-5" />, path: '/loan-history', requiresAuth: true },
-    { text: 'Category Management', icon: <FolderOpen className="h-5 w-5" />, path: '/categories', requiresAdmin: true, requiresAuth: true },
-    { text: 'User Management', icon: <UserCog className="h-5 w-5" />, path: '/users', requiresAdmin: true, requiresAuth: true },
-    { text: 'Data Export', icon: <Download className="h-5 w-5" />, path: '/export', requiresAdmin: true, requiresAuth: true },
-    { text: 'Settings', icon: <Settings className="h-5 w-5" />, path: '/settings', requiresAdmin: true, requiresAuth: true },
+    { text: 'Dashboard', icon: <Home className="h-5 w-5" />, path: '/dashboard', requiresStaff: true, requiresAuth: true },
+    { text: 'Books', icon: <BookOpen className="h-5 w-5" />, path: '/books', requiresStaff: true, requiresAuth: true },
+    { text: 'Members', icon: <Users className="h-5 w-5" />, path: '/members', requiresStaff: true, permission: 'members:read', requiresAuth: true },
+    { text: 'Borrow/Return', icon: <ArrowLeftRight className="h-5 w-5" />, path: '/loans', requiresStaff: true, permission: 'loans:checkout', requiresAuth: true },
+    { text: 'Circulation Desk', icon: <ScanLine className="h-5 w-5" />, path: '/desk', requiresStaff: true, permission: 'loans:checkout', requiresAuth: true },
+    { text: 'Loan History', icon: <History className="h-5 w-5" />, path: '/loan-history', requiresStaff: true, permission: 'members:read', requiresAuth: true },
+    { text: 'My Library', icon: <Library className="h-5 w-5" />, path: '/my-library', requiresPatron: true, requiresAuth: true },
+    { text: 'Category Management', icon: <FolderOpen className="h-5 w-5" />, path: '/categories', requiresStaff: true, permission: 'books:write', requiresAuth: true },
+    { text: 'User Management', icon: <UserCog className="h-5 w-5" />, path: '/users', requiresStaff: true, permission: 'users:manage', requiresAuth: true },
+    { text: 'Data Export', icon: <Download className="h-5 w-5" />, path: '/export', requiresStaff: true, permission: 'export:run', requiresAuth: true },
+    { text: 'Notifications', icon: <Mail className="h-5 w-5" />, path: '/notifications', requiresStaff: true, permission: 'settings:manage', requiresAuth: true },
+    { text: 'Background Jobs', icon: <Cog className="h-5 w-5" />, path: '/jobs', requiresStaff: true, permission: 'settings:manage', requiresAuth: true },
+    { text: 'Settings', icon: <Settings className="h-5 w-5" />, path: '/settings', requiresStaff: true, permission: 'settings:manage', requiresAuth: true },
+    { text: 'Account', icon: <KeyRound className="h-5 w-5" />, path: '/account', requiresAuth: true },
   ];
 
   const filteredNavItems = navItems.filter((item) => {
     if (!item.requiresAuth || user) {
-      if (item.requiresAdmin && user?.role !== 'admin') {
+      if (item.requiresStaff && !isStaff) {
+        return false;
+      }
+      if (item.permission && !hasPermission(item.permission)) {
+        return false;
+      }
+      if (item.requiresPatron && isStaff) {
         return false;
       }
       return true;
@@ -91,7 +136,7 @@ const Navbar = ({ toggleColorMode, currentMode }: NavbarProps) => {
                   <Menu className="h-6 w-6" />
                 </button>
               )}
-              <Link to="/dashboard" className="flex items-center gap-3 hover:opacity-90 transition-opacity">
+              <Link to={user && !isStaff ? '/my-library' : '/dashboard'} className="flex items-center gap-3 hover:opacity-90 transition-opacity">
                 <img
                   src={config.libraryLogo}
                   alt={`${config.libraryName} Logo`}
@@ -114,6 +159,34 @@ const Navbar = ({ toggleColorMode, currentMode }: NavbarProps) => {
                   </Link>
                 ))}
 
+                {/* Pinned Smart Collections */}
+                {showCollections && (
+                  <div className="relative" ref={collectionsRef}>
+                    <button
+                      onClick={() => setCollectionsOpen(!collectionsOpen)}
+                      aria-expanded={collectionsOpen}
+                      className="flex items-center gap-1 px-3 py-2 rounded-md text-sm font-medium hover:bg-primary-dark transition-colors"
+                    >
+                      <Layers className="h-4 w-4" />
+                      Collections
+                      <ChevronDown className="h-4 w-4" />
+                    </button>
+                    {collectionsOpen && (
+                      <div className="absolute right-0 mt-2 w-56 bg-surface border border-border rounded-lg shadow-lg py-1 z-50">
+                        {pinnedCollections.map((collection) => (
+                          <button
+                            key={collection.id}
+                            onClick={() => openCollection(collection)}
+                            className="block w-full text-left px-4 py-2 text-sm text-text-primary hover:bg-background-secondary truncate"
+                          >
+                            {collection.name}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Theme Toggle */}
                 <button
                   onClick={toggleColorMode}
@@ -220,6 +293,23 @@ const Navbar = ({ toggleColorMode, currentMode }: NavbarProps) => {
                   </Link>
                 ))}
 
+                {/* Pinned Smart Collections in Drawer */}
+                {showCollections && (
+                  <div className="mt-2 pt-2 border-t border-border">
+                    <div className="px-4 py-2 text-xs font-semibold uppercase text-text-tertiary">Collections</div>
+                    {pinnedCollections.map((collection) => (
+                      <button
+                        key={collection.id}
+                        onClick={() => openCollection(collection)}
+                        className="flex items-center gap-3 px-4 py-3 rounded-lg hover:bg-background-secondary transition-colors text-text-primary w-full text-left"
+                      >
+                        <Layers className="h-5 w-5" />
+                        <span className="truncate">{collection.name}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+
                 {/* Theme Toggle in Drawer */}
                 <button
                   onClick={() => {
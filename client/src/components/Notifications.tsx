@@ -0,0 +1,384 @@
+import { useState, useEffect, useCallback } from 'react';
+import { config } from '../config';
+import { apiFetch } from '../utils/api';
+import { Mail, Send, RotateCcw, FileText } from 'lucide-react';
+import { useAuth } from './AuthContext';
+import { Card, Button, Input, Select, Badge, EmptyState, ErrorMessage } from './ui';
+import Pagination from './Pagination';
+
+type NotificationKind = 'due_soon' | 'overdue' | 'final_notice';
+type NotificationStatus = 'pending' | 'sent' | 'failed';
+
+interface LoanNotification {
+  id: number;
+  kind: NotificationKind;
+  member_name: string;
+  book_title: string | null;
+  recipient: string;
+  subject: string;
+  status: NotificationStatus;
+  error: string | null;
+  attempts: number;
+  created_at: string;
+  sent_at: string | null;
+}
+
+interface NotificationTemplate {
+  kind: NotificationKind;
+  subject: string;
+  body: string;
+  updated_at: string;
+}
+
+const KIND_LABELS: Record<NotificationKind, string> = {
+  due_soon: 'Due soon',
+  overdue: 'Overdue',
+  final_notice: 'Final notice',
+};
+
+const STATUS_BADGES: Record<NotificationStatus, { label: string; variant: 'success' | 'error' | 'default' }> = {
+  sent: { label: 'Sent', variant: 'success' },
+  failed: { label: 'Failed', variant: 'error' },
+  pending: { label: 'Pending', variant: 'default' },
+};
+
+const PLACEHOLDERS = ['member_name', 'book_title', 'book_author', 'due_date', 'days', 'library_name'];
+
+const Notifications = () => {
+  const { token } = useAuth();
+  const [notifications, setNotifications] = useState<LoanNotification[]>([]);
+  const [templates, setTemplates] = useState<NotificationTemplate[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [resendingId, setResendingId] = useState<number | null>(null);
+  const [savingKind, setSavingKind] = useState<NotificationKind | null>(null);
+
+  const [page, setPage] = useState(1);
+  const [limit, setLimit] = useState(25);
+  const [totalCount, setTotalCount] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [kindFilter, setKindFilter] = useState('all');
+
+  const fetchNotifications = useCallback(async () => {
+    setError(null);
+    try {
+      let url = `${config.apiUrl}/notifications?page=${page}&limit=${limit}`;
+      if (statusFilter !== 'all') url += `&status=${statusFilter}`;
+      if (kindFilter !== 'all') url += `&kind=${kindFilter}`;
+
+      const response = await apiFetch(url, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to fetch notifications');
+      }
+      const result = await response.json();
+      setNotifications(result.data || []);
+      setTotalCount(result.pagination.total);
+      setTotalPages(result.pagination.totalPages);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch notifications');
+    }
+  }, [token, page, limit, statusFilter, kindFilter]);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const response = await apiFetch(`${config.apiUrl}/notifications/templates`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to fetch templates');
+      }
+      setTemplates(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch templates');
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await apiFetch(`${config.apiUrl}/notifications/run`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to send notices');
+      }
+      setMessage(result.sent + result.failed === 0
+        ? 'No notices were due.'
+        : `Sent ${result.sent} notice(s)${result.failed ? `, ${result.failed} failed` : ''}.`);
+      fetchNotifications();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send notices');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleResend = async (notification: LoanNotification) => {
+    setResendingId(notification.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await apiFetch(`${config.apiUrl}/notifications/${notification.id}/resend`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to resend notification');
+      }
+      if (result.status === 'failed') {
+        setError(`Resending to ${result.recipient} failed: ${result.error}`);
+      } else {
+        setMessage(`Notification resent to ${result.recipient}.`);
+      }
+      fetchNotifications();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resend notification');
+    } finally {
+      setResendingId(null);
+    }
+  };
+
+  const updateTemplateField = (kind: NotificationKind, field: 'subject' | 'body', value: string) => {
+    setTemplates(current => current.map(template => template.kind === kind ? { ...template, [field]: value } : template));
+  };
+
+  const handleSaveTemplate = async (template: NotificationTemplate) => {
+    setSavingKind(template.kind);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await apiFetch(`${config.apiUrl}/notifications/templates/${template.kind}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ subject: template.subject, body: template.body }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save template');
+      }
+      setTemplates(current => current.map(existing => existing.kind === result.kind ? result : existing));
+      setMessage(`${KIND_LABELS[template.kind]} template saved.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSavingKind(null);
+    }
+  };
+
+  const formatDateTime = (dateString: string | null) =>
+    dateString ? new Date(dateString).toLocaleString() : '—';
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <Mail className="h-8 w-8 text-primary" />
+          <h1 className="text-3xl font-bold text-text-primary">Notifications</h1>
+        </div>
+        <Button
+          variant="primary"
+          icon={<Send className="h-5 w-5" />}
+          onClick={handleRun}
+          loading={running}
+        >
+          Send Due Notices Now
+        </Button>
+      </div>
+
+      {error && (
+        <ErrorMessage
+          message={error}
+          onClose={() => setError(null)}
+          className="mb-6"
+        />
+      )}
+      {message && (
+        <div className="mb-6 rounded-lg border border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-900/20 p-4 text-green-800 dark:text-green-300">
+          {message}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-4 mb-4">
+        <div className="sm:w-48">
+          <Select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value);
+              setPage(1);
+            }}
+            options={[
+              { value: 'all', label: 'All Status' },
+              { value: 'sent', label: 'Sent' },
+              { value: 'failed', label: 'Failed' },
+              { value: 'pending', label: 'Pending' },
+            ]}
+            fullWidth
+          />
+        </div>
+        <div className="sm:w-48">
+          <Select
+            value={kindFilter}
+            onChange={(e) => {
+              setKindFilter(e.target.value);
+              setPage(1);
+            }}
+            options={[
+              { value: 'all', label: 'All Notices' },
+              ...Object.entries(KIND_LABELS).map(([value, label]) => ({ value, label })),
+            ]}
+            fullWidth
+          />
+        </div>
+      </div>
+
+      {notifications.length === 0 ? (
+        <Card>
+          <EmptyState
+            icon={Mail}
+            title="No Notifications"
+            description="Due-soon, overdue and final notices sent to members will be listed here."
+          />
+        </Card>
+      ) : (
+        <Card>
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[900px]">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Notice</th>
+                  <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Member</th>
+                  <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Book</th>
+                  <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Sent</th>
+                  <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Status</th>
+                  <th className="text-right py-3 px-4 text-sm font-semibold text-text-primary">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {notifications.map(notification => {
+                  const badge = STATUS_BADGES[notification.status];
+                  return (
+                    <tr key={notification.id} className="hover:bg-background-secondary transition-colors">
+                      <td className="py-3 px-4">
+                        <div className="text-text-primary font-medium">{KIND_LABELS[notification.kind]}</div>
+                        <div className="text-xs text-text-tertiary">{notification.subject}</div>
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="text-text-primary">{notification.member_name}</div>
+                        <div className="text-xs text-text-tertiary">{notification.recipient}</div>
+                      </td>
+                      <td className="py-3 px-4 text-text-secondary">{notification.book_title || '—'}</td>
+                      <td className="py-3 px-4 text-text-secondary text-sm">
+                        {formatDateTime(notification.sent_at || notification.created_at)}
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={badge.variant} size="sm">{badge.label}</Badge>
+                          {notification.attempts > 1 && (
+                            <span className="text-xs text-text-tertiary">{notification.attempts} attempts</span>
+                          )}
+                        </div>
+                        {notification.error && (
+                          <div className="text-xs text-red-600 dark:text-red-400 mt-1">{notification.error}</div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          icon={<RotateCcw className="h-4 w-4" />}
+                          onClick={() => handleResend(notification)}
+                          loading={resendingId === notification.id}
+                        >
+                          Resend
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <Pagination
+            page={page}
+            totalPages={totalPages}
+            totalCount={totalCount}
+            limit={limit}
+            onPageChange={setPage}
+            onLimitChange={(newLimit) => {
+              setLimit(newLimit);
+              setPage(1);
+            }}
+          />
+        </Card>
+      )}
+
+      <Card className="mt-6">
+        <div className="flex items-center gap-2 mb-2">
+          <FileText className="h-6 w-6 text-primary" />
+          <h2 className="text-xl font-semibold text-text-primary">Templates</h2>
+        </div>
+        <p className="text-sm text-text-secondary mb-4">
+          Placeholders: {PLACEHOLDERS.map(name => `{{${name}}}`).join(', ')}
+        </p>
+        <div className="space-y-6">
+          {templates.map(template => (
+            <div key={template.kind} className="border border-border rounded-lg p-4 space-y-3">
+              <h3 className="font-semibold text-text-primary">{KIND_LABELS[template.kind]}</h3>
+              <Input
+                label="Subject"
+                value={template.subject}
+                onChange={(e) => updateTemplateField(template.kind, 'subject', e.target.value)}
+                fullWidth
+              />
+              <div>
+                <label htmlFor={`template-body-${template.kind}`} className="block text-sm font-medium text-text-primary mb-2">
+                  Body
+                </label>
+                <textarea
+                  id={`template-body-${template.kind}`}
+                  value={template.body}
+                  onChange={(e) => updateTemplateField(template.kind, 'body', e.target.value)}
+                  rows={8}
+                  className="w-full px-4 py-2 rounded-lg border border-border bg-background text-text-primary font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent resize-y"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-text-tertiary">Last changed {formatDateTime(template.updated_at)}</span>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => handleSaveTemplate(template)}
+                  loading={savingKind === template.kind}
+                >
+                  Save Template
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default Notifications;
@@ -0,0 +1,264 @@
+import { useState, useEffect, useRef } from 'react';
+import { Bookmark, BookmarkPlus, Layers, Pin, PinOff, Trash2, Users } from 'lucide-react';
+import { Badge, Button, Input, Modal } from './ui';
+import { useAuth } from './AuthContext';
+import { config } from '../config';
+import { apiFetch } from '../utils/api';
+import { hasBookFilters, savedSearchFilters, type BookFilters, type SavedSearch } from '../utils/bookFields';
+
+interface SavedSearchesProps {
+  savedSearches: SavedSearch[];
+  // The search and filters of the book list, to save
+  search: string;
+  filters: BookFilters;
+  onOpen: (savedSearch: SavedSearch) => void;
+  onChange: () => void;
+  setNotification: (notification: { open: boolean; message: string; severity: 'success' | 'error' | 'info' | 'warning' }) => void;
+}
+
+/**
+ * Saving the book list's search and filters under a name, and opening,
+ * pinning and deleting saved searches. Smart collections can be pinned to
+ * the navigation bar; searches shared by other users are listed after the
+ * user's own, and only their owner can delete them.
+ */
+const SavedSearches = ({ savedSearches, search, filters, onOpen, onChange, setNotification }: SavedSearchesProps) => {
+  const { token, user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [collection, setCollection] = useState(false);
+  const [shared, setShared] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [open]);
+
+  const request = async (path: string, init: RequestInit, failure: string) => {
+    const response = await apiFetch(`${config.apiUrl}/saved-searches${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || failure);
+    }
+    return response.status === 204 ? null : response.json();
+  };
+
+  const run = async (action: () => Promise<unknown>, success?: string) => {
+    try {
+      await action();
+      onChange();
+      if (success) setNotification({ open: true, message: success, severity: 'success' });
+    } catch (err) {
+      setNotification({ open: true, message: err instanceof Error ? err.message : 'Failed to update saved searches', severity: 'error' });
+    }
+  };
+
+  const openSaveDialog = () => {
+    setName('');
+    setCollection(false);
+    setShared(false);
+    setOpen(false);
+    setSaveOpen(true);
+  };
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    await run(async () => {
+      await request('', {
+        method: 'POST',
+        body: JSON.stringify({ name, search, filters: savedSearchFilters(filters), collection, shared }),
+      }, 'Failed to save search');
+      setSaveOpen(false);
+    }, `Saved “${name.trim()}”`);
+    setSaving(false);
+  };
+
+  const handleOpen = (savedSearch: SavedSearch) => {
+    onOpen(savedSearch);
+    setOpen(false);
+  };
+
+  const handleDelete = (savedSearch: SavedSearch) => {
+    if (window.confirm(`Delete the saved search “${savedSearch.name}”?`)) {
+      run(() => request(`/${savedSearch.id}`, { method: 'DELETE' }, 'Failed to delete saved search'));
+    }
+  };
+
+  const togglePin = (savedSearch: SavedSearch) =>
+    run(() => request(`/${savedSearch.id}/pin`, { method: savedSearch.pinned ? 'DELETE' : 'PUT' }, 'Failed to pin collection'));
+
+  const own = savedSearches.filter(savedSearch => savedSearch.user_id === user?.id);
+  const others = savedSearches.filter(savedSearch => savedSearch.user_id !== user?.id);
+  const canSave = search.trim() !== '' || hasBookFilters(filters);
+
+  const renderItem = (savedSearch: SavedSearch) => (
+    <li key={savedSearch.id} className="flex items-center gap-2 py-1.5">
+      <button
+        type="button"
+        onClick={() => handleOpen(savedSearch)}
+        className="flex-1 min-w-0 text-left hover:text-primary"
+        title={savedSearch.search || undefined}
+      >
+        <span className="flex items-center gap-1.5 text-sm text-text-primary">
+          {savedSearch.collection ? <Layers className="h-4 w-4 shrink-0" /> : <Bookmark className="h-4 w-4 shrink-0" />}
+          <span className="truncate">{savedSearch.name}</span>
+        </span>
+        {savedSearch.search && (
+          <span className="block font-mono text-xs text-text-tertiary truncate">{savedSearch.search}</span>
+        )}
+      </button>
+      {savedSearch.shared && savedSearch.user_id === user?.id && <Badge variant="info" size="sm">Shared</Badge>}
+      {savedSearch.user_id !== user?.id && <span className="text-xs text-text-tertiary">{savedSearch.owner_username}</span>}
+      {savedSearch.collection && (
+        <button
+          type="button"
+          onClick={() => togglePin(savedSearch)}
+          aria-label={savedSearch.pinned ? `Unpin ${savedSearch.name}` : `Pin ${savedSearch.name}`}
+          title={savedSearch.pinned ? 'Unpin from the navigation bar' : 'Pin to the navigation bar'}
+          className={`p-1 rounded hover:bg-background-secondary ${savedSearch.pinned ? 'text-primary' : 'text-text-tertiary'}`}
+        >
+          {savedSearch.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+        </button>
+      )}
+      {savedSearch.user_id === user?.id && (
+        <button
+          type="button"
+          onClick={() => handleDelete(savedSearch)}
+          aria-label={`Delete ${savedSearch.name}`}
+          className="p-1 rounded text-text-tertiary hover:text-red-600 hover:bg-background-secondary"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="flex gap-2">
+      <div className="relative" ref={containerRef}>
+        <button
+          type="button"
+          onClick={() => setOpen(!open)}
+          aria-expanded={open}
+          aria-controls="saved-searches"
+          className="flex items-center gap-2 px-4 py-2 bg-background-secondary border border-border rounded-lg hover:bg-background-tertiary transition-colors text-text-primary"
+        >
+          <Bookmark className="h-5 w-5" />
+          <span>Saved Searches</span>
+        </button>
+        {open && (
+          <div
+            id="saved-searches"
+            role="dialog"
+            aria-label="Saved searches"
+            className="absolute z-30 right-0 mt-2 w-[22rem] max-w-[90vw] bg-surface border border-border rounded-lg shadow-lg p-4"
+          >
+            {savedSearches.length === 0 ? (
+              <p className="text-sm text-text-secondary">
+                No saved searches yet. Search or choose filters, then save them to come back to.
+              </p>
+            ) : (
+              <>
+                {own.length > 0 && <ul className="divide-y divide-border">{own.map(renderItem)}</ul>}
+                {others.length > 0 && (
+                  <>
+                    <h3 className="flex items-center gap-1.5 mt-3 mb-1 text-xs font-semibold uppercase text-text-tertiary">
+                      <Users className="h-3.5 w-3.5" />
+                      Shared with you
+                    </h3>
+                    <ul className="divide-y divide-border">{others.map(renderItem)}</ul>
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+      <Button
+        variant="secondary"
+        icon={<BookmarkPlus className="h-5 w-5" />}
+        onClick={openSaveDialog}
+        disabled={!canSave}
+        title={canSave ? undefined : 'Search or choose filters to save them'}
+      >
+        Save Search
+      </Button>
+
+      <Modal open={saveOpen} onClose={() => setSaveOpen(false)} title="Save Search" size="sm">
+        <form onSubmit={handleSave} className="space-y-4">
+          <Input
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Unread fantasy available now"
+            maxLength={100}
+            required
+            fullWidth
+          />
+          {search && (
+            <p className="text-sm text-text-secondary">
+              Search: <code className="font-mono">{search}</code>
+            </p>
+          )}
+          <label className="flex items-start gap-3 text-sm text-text-primary cursor-pointer">
+            <input
+              type="checkbox"
+              checked={collection}
+              onChange={(e) => setCollection(e.target.checked)}
+              className="mt-0.5 h-5 w-5 rounded border-2 cursor-pointer accent-primary"
+            />
+            <span>
+              Smart collection
+              <span className="block text-xs text-text-tertiary">
+                Its books are found again each time it is opened, and it can be pinned to the navigation bar
+              </span>
+            </span>
+          </label>
+          <label className="flex items-start gap-3 text-sm text-text-primary cursor-pointer">
+            <input
+              type="checkbox"
+              checked={shared}
+              onChange={(e) => setShared(e.target.checked)}
+              className="mt-0.5 h-5 w-5 rounded border-2 cursor-pointer accent-primary"
+            />
+            <span>
+              Share with other users
+              <span className="block text-xs text-text-tertiary">They can open and pin it, but only you can change it</span>
+            </span>
+          </label>
+          <div className="flex justify-end gap-3 pt-4 border-t border-border">
+            <Button type="button" variant="ghost" onClick={() => setSaveOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" loading={saving} disabled={!name.trim()}>
+              Save
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+};
+
+export default SavedSearches;
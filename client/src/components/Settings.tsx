@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
+import { Link } from "react-router-dom";
 import { Card, Button } from "./ui";
 import {
   Server,
@@ -10,6 +11,8 @@ import {
 } from "lucide-react";
 import { config } from "../config";
 import { apiFetch } from '../utils/api';
+import CirculationPolicySettings from './CirculationPolicySettings';
+import WebhookSettings from './WebhookSettings';
 
 interface SystemInfo {
   version: string;
@@ -171,6 +174,12 @@ const Settings = () => {
                       Configure SMTP settings in environment variables to enable
                     </p>
                   )}
+                  <Link
+                    to="/notifications"
+                    className="block text-sm text-primary hover:underline mt-2"
+                  >
+                    View sent notices and edit templates
+                  </Link>
                 </div>
 
                 <div>
@@ -183,6 +192,10 @@ const Settings = () => {
             </div>
           ) : null}
         </Card>
+
+        <CirculationPolicySettings />
+
+        <WebhookSettings />
       </motion.div>
     </div>
   );
@@ -3,7 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { useAuth } from './AuthContext';
 import { Button, Input, Card } from './ui';
-import { UserPlus, User, Lock, AlertCircle, CheckCircle, Shield } from 'lucide-react';
+import { UserPlus, User, Mail, Lock, AlertCircle, CheckCircle, Shield } from 'lucide-react';
 import { config } from '../config';
 
 interface SetupProps {
@@ -12,6 +12,7 @@ interface SetupProps {
 
 const Setup = ({ onSetupComplete }: SetupProps) => {
   const [username, setUsername] = useState('');
+  const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -31,7 +32,7 @@ const Setup = ({ onSetupComplete }: SetupProps) => {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ username, password, role: 'admin' }),
+        body: JSON.stringify({ username, password, email, role: 'admin' }),
       });
 
       const data = await response.json();
@@ -57,7 +58,7 @@ const Setup = ({ onSetupComplete }: SetupProps) => {
         throw new Error(loginData.error || 'Automatic login failed after setup');
       }
 
-      login(loginData.token, loginData.user);
+      login(loginData.token, loginData.user, loginData.refreshToken);
       onSetupComplete();
 
       setTimeout(() => {
@@ -131,6 +132,20 @@ const Setup = ({ onSetupComplete }: SetupProps) => {
               helperText="This will be your primary admin account"
             />
 
+            <Input
+              label="Email"
+              type="email"
+              id="email"
+              name="email"
+              autoComplete="email"
+              fullWidth
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              startIcon={<Mail className="h-5 w-5" />}
+              disabled={loading}
+              helperText="Optional; used to send you a link if you forget your password"
+            />
+
             <Input
               label="Admin Password"
               type="password"
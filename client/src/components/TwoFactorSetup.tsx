@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { Copy, Check } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from './ui';
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * What to enter in an authenticator app: a QR code to scan, the otpauth link
+ * that opens the app directly on a phone, and the secret to type in by hand.
+ */
+export const EnrollmentDetails = ({ enrollment }: { enrollment: TwoFactorEnrollment }) => (
+  <div className="space-y-3 text-sm">
+    <p className="text-text-secondary">
+      Scan this code with an authenticator app (such as Google Authenticator, Authy or 1Password), then enter the
+      6-digit code it shows.
+    </p>
+    <div className="flex justify-center">
+      {/* Drawn on a white background so the app can read it in dark mode too */}
+      <div className="rounded-lg bg-white p-3">
+        <QRCodeSVG value={enrollment.otpauthUri} size={176} title="QR code for your authenticator app" />
+      </div>
+    </div>
+    <div className="rounded-lg border border-border bg-background-secondary p-3">
+      <p className="text-xs text-text-tertiary mb-1">Or enter this setup key</p>
+      <p className="font-mono text-text-primary break-all tracking-wider">
+        {enrollment.secret.match(/.{1,4}/g)?.join(' ')}
+      </p>
+    </div>
+    <a href={enrollment.otpauthUri} className="inline-block text-primary hover:text-primary-dark">
+      Open in authenticator app
+    </a>
+  </div>
+);
+
+/**
+ * Recovery codes, shown once right after enrolling
+ */
+export const RecoveryCodeList = ({ codes }: { codes: string[] }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(codes.join('\n'));
+    setCopied(true);
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <p className="text-text-secondary">
+        Save these recovery codes somewhere safe. Each one lets you sign in once without your authenticator app.
+        They will not be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 rounded-lg border border-border bg-background-secondary p-3 font-mono text-text-primary">
+        {codes.map(code => <li key={code}>{code}</li>)}
+      </ul>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        icon={copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+        onClick={handleCopy}
+      >
+        {copied ? 'Copied' : 'Copy codes'}
+      </Button>
+    </div>
+  );
+};
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { config } from '../config';
 import { apiFetch } from '../utils/api';
-import { Edit2, Trash2, Plus, Key, Users, UserPlus } from 'lucide-react';
+import { Edit2, Trash2, Plus, Key, Users, UserPlus, ShieldCheck, Laptop, History } from 'lucide-react';
 import { useAuth } from './AuthContext';
 import { useNavigate } from 'react-router-dom';
 import { Card, Button, Input, Modal, Select, Badge, EmptyState, ErrorMessage } from './ui';
@@ -9,15 +9,85 @@ import { Card, Button, Input, Modal, Select, Badge, EmptyState, ErrorMessage } f
 interface User {
   id: number;
   username: string;
-  role: 'admin' | 'member';
+  email?: string | null;
+  role: string;
+  member_id?: number | null;
+  member_name?: string | null;
+  totp_enabled?: boolean;
+  two_factor_required?: boolean;
+  failed_login_count?: number;
+  locked_until?: string | null;
   created_at: string;
 }
 
+interface UserSession {
+  id: number;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  current: boolean;
+}
+
+interface LoginEvent {
+  id: number;
+  success: boolean;
+  failure_reason: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+const FAILURE_REASON_LABELS: Record<string, string> = {
+  unknown_user: 'Unknown user',
+  invalid_password: 'Wrong password',
+  invalid_two_factor: 'Wrong two-factor code',
+  account_locked: 'Account locked',
+};
+
+const isLocked = (user: User) => !!user.locked_until && new Date(user.locked_until) > new Date();
+
+interface MemberOption {
+  id: number;
+  name: string;
+  email: string;
+}
+
+interface Role {
+  id: number;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  built_in: boolean;
+  user_count: number;
+}
+
+interface PermissionInfo {
+  name: string;
+  description: string;
+}
+
+interface RoleFormData {
+  id?: number;
+  name: string;
+  description: string;
+  permissions: string[];
+}
+
+const EMPTY_ROLE: RoleFormData = { name: '', description: '', permissions: [] };
+
 
 const UserManagement = () => {
-  const { token, user: currentUser } = useAuth();
+  const { token, user: currentUser, hasPermission } = useAuth();
+  const canManageUsers = hasPermission('users:manage');
   const navigate = useNavigate();
   const [users, setUsers] = useState<User[]>([]);
+  const [members, setMembers] = useState<MemberOption[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [permissions, setPermissions] = useState<PermissionInfo[]>([]);
+  const [roleDialogOpen, setRoleDialogOpen] = useState(false);
+  const [roleFormData, setRoleFormData] = useState<RoleFormData>(EMPTY_ROLE);
   const [error, setError] = useState<string | null>(null);
 
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -26,6 +96,10 @@ const UserManagement = () => {
   const [passwordDialogOpen, setPasswordDialogOpen] = useState(false);
   const [passwordChangeUserId, setPasswordChangeUserId] = useState<number | null>(null);
   const [newPassword, setNewPassword] = useState('');
+  const [sessionsUser, setSessionsUser] = useState<User | null>(null);
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [activityUser, setActivityUser] = useState<User | null>(null);
+  const [loginEvents, setLoginEvents] = useState<LoginEvent[]>([]);
 
   const fetchUsers = useCallback(async () => {
     setError(null);
@@ -43,17 +117,53 @@ const UserManagement = () => {
     }
   }, [token]);
 
+  // Members a login can be linked to, for the edit dialog
+  const fetchMembers = useCallback(async () => {
+    try {
+      const response = await apiFetch(`${config.apiUrl}/members?limit=1000&sortBy=name&sortOrder=asc`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to fetch members');
+      }
+      const result = await response.json();
+      setMembers(result.data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch members');
+    }
+  }, [token]);
+
+  // Roles for the role picker and the roles editor, with the permissions they can grant
+  const fetchRoles = useCallback(async () => {
+    try {
+      const headers = { 'Authorization': `Bearer ${token}` };
+      const [rolesResponse, permissionsResponse] = await Promise.all([
+        apiFetch(`${config.apiUrl}/roles`, { headers }),
+        apiFetch(`${config.apiUrl}/roles/permissions`, { headers }),
+      ]);
+      if (!rolesResponse.ok || !permissionsResponse.ok) {
+        throw new Error('Failed to fetch roles');
+      }
+      setRoles(await rolesResponse.json());
+      setPermissions(await permissionsResponse.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch roles');
+    }
+  }, [token]);
+
   useEffect(() => {
-    if (currentUser?.role !== 'admin') {
-      navigate('/dashboard'); // Redirect if not admin
+    if (!canManageUsers) {
+      navigate('/dashboard'); // Redirect if the role cannot manage users
     } else {
       fetchUsers();
+      fetchMembers();
+      fetchRoles();
     }
-  }, [currentUser, navigate, fetchUsers]);
+  }, [canManageUsers, navigate, fetchUsers, fetchMembers, fetchRoles]);
 
   const handleOpenDialog = (user: User | null = null) => {
     setIsEditing(!!user);
-    setCurrentUserData(user ? { ...user } : { role: 'member' });
+    setCurrentUserData(user ? { ...user } : { role: 'patron' });
     setDialogOpen(true);
   };
 
@@ -98,6 +208,86 @@ const UserManagement = () => {
     }
   };
 
+  const fetchSessions = useCallback(async (userId: number) => {
+    try {
+      const response = await apiFetch(`${config.apiUrl}/users/${userId}/sessions`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to fetch sessions');
+      }
+      setSessions(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch sessions');
+    }
+  }, [token]);
+
+  const handleOpenSessionsDialog = (user: User) => {
+    setSessionsUser(user);
+    setSessions([]);
+    fetchSessions(user.id);
+  };
+
+  const handleCloseSessionsDialog = () => {
+    setSessionsUser(null);
+    setSessions([]);
+  };
+
+  // Revoke one session, or every session when no ID is given
+  const handleRevokeSession = async (sessionId?: number) => {
+    if (!sessionsUser) return;
+    setError(null);
+    try {
+      const url = sessionId === undefined
+        ? `${config.apiUrl}/users/${sessionsUser.id}/sessions`
+        : `${config.apiUrl}/users/${sessionsUser.id}/sessions/${sessionId}`;
+      const response = await apiFetch(url, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to revoke session');
+      }
+      fetchSessions(sessionsUser.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke session');
+    }
+  };
+
+  const handleOpenActivityDialog = async (user: User) => {
+    setActivityUser(user);
+    setLoginEvents([]);
+    try {
+      const response = await apiFetch(`${config.apiUrl}/users/${user.id}/login-events`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to fetch login activity');
+      }
+      setLoginEvents(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch login activity');
+    }
+  };
+
+  const handleUnlock = async () => {
+    if (!activityUser) return;
+    setError(null);
+    try {
+      const response = await apiFetch(`${config.apiUrl}/users/${activityUser.id}/unlock`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to unlock account');
+      }
+      setActivityUser({ ...activityUser, failed_login_count: 0, locked_until: null });
+      fetchUsers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock account');
+    }
+  };
+
   const handleDialogChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setCurrentUserData((prev: Partial<User>) => ({ ...prev, [name as string]: value }));
@@ -108,6 +298,11 @@ const UserManagement = () => {
     setCurrentUserData((prev: Partial<User>) => ({ ...prev, [name as string]: value }));
   };
 
+  const handleMemberChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const { value } = e.target;
+    setCurrentUserData((prev: Partial<User>) => ({ ...prev, member_id: value ? Number(value) : null }));
+  };
+
   const handleDialogSubmit = async () => {
     setError(null);
     const url = isEditing
@@ -122,20 +317,126 @@ const UserManagement = () => {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`,
         },
-        body: JSON.stringify(currentUserData),
+        body: JSON.stringify(isEditing
+          ? {
+              username: currentUserData.username,
+              email: currentUserData.email || null,
+              role: currentUserData.role,
+              member_id: currentUserData.member_id ?? null,
+            }
+          : currentUserData),
       });
 
       if (!response.ok) {
         const errData = await response.json();
         throw new Error(errData.error || `Failed to ${isEditing ? 'update' : 'create'} user`);
       }
+
+      const original = users.find(u => u.id === currentUserData.id);
+      if (isEditing && original && !!original.two_factor_required !== !!currentUserData.two_factor_required) {
+        const twoFactorResponse = await apiFetch(`${config.apiUrl}/users/${currentUserData.id}/two-factor`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+          },
+          body: JSON.stringify({ required: !!currentUserData.two_factor_required }),
+        });
+        if (!twoFactorResponse.ok) {
+          throw new Error((await twoFactorResponse.json()).error || 'Failed to update two-factor requirement');
+        }
+      }
       handleCloseDialog();
       fetchUsers();
+      fetchRoles();
     } catch (err: any) {
       setError(err.message);
     }
   };
 
+  const handleResetTwoFactor = async () => {
+    setError(null);
+    if (!window.confirm(`Reset two-factor authentication for ${currentUserData.username}? They will need to set it up again.`)) return;
+    try {
+      const response = await apiFetch(`${config.apiUrl}/users/${currentUserData.id}/two-factor`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to reset two-factor authentication');
+      }
+      setCurrentUserData(prev => ({ ...prev, totp_enabled: false }));
+      fetchUsers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset two-factor authentication');
+    }
+  };
+
+  const handleOpenRoleDialog = (role: Role | null = null) => {
+    setRoleFormData(role
+      ? { id: role.id, name: role.name, description: role.description || '', permissions: role.permissions }
+      : EMPTY_ROLE);
+    setRoleDialogOpen(true);
+  };
+
+  const handleCloseRoleDialog = () => {
+    setRoleDialogOpen(false);
+    setRoleFormData(EMPTY_ROLE);
+  };
+
+  const handleTogglePermission = (permission: string, checked: boolean) => {
+    setRoleFormData(prev => ({
+      ...prev,
+      permissions: checked
+        ? [...prev.permissions, permission]
+        : prev.permissions.filter(other => other !== permission),
+    }));
+  };
+
+  const handleRoleSubmit = async () => {
+    setError(null);
+    const isNew = roleFormData.id === undefined;
+    try {
+      const response = await apiFetch(isNew ? `${config.apiUrl}/roles` : `${config.apiUrl}/roles/${roleFormData.id}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          name: roleFormData.name.trim(),
+          description: roleFormData.description.trim() || null,
+          permissions: roleFormData.permissions,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || `Failed to ${isNew ? 'create' : 'update'} role`);
+      }
+      handleCloseRoleDialog();
+      fetchRoles();
+      fetchUsers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save role');
+    }
+  };
+
+  const handleDeleteRole = async (role: Role) => {
+    setError(null);
+    if (!window.confirm(`Delete the "${role.name}" role?`)) return;
+    try {
+      const response = await apiFetch(`${config.apiUrl}/roles/${role.id}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to delete role');
+      }
+      fetchRoles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete role');
+    }
+  };
+
   const handleDeleteUser = async (userId: number) => {
     setError(null);
     if (window.confirm('Are you sure you want to delete this user? This action cannot be undone.')) {
@@ -156,21 +457,23 @@ const UserManagement = () => {
     }
   };
   
-  if (currentUser?.role !== 'admin') {
+  if (!canManageUsers) {
     return (
       <div className="max-w-7xl mx-auto px-4 py-8">
         <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
           <p className="text-red-800 dark:text-red-300 font-medium">
-            Access Denied: You must be an administrator to view this page.
+            Access Denied: Your role does not allow managing users.
           </p>
         </div>
       </div>
     );
   }
 
-  const roleOptions = [
-    { value: 'member', label: 'Member' },
-    { value: 'admin', label: 'Admin' }
+  const roleOptions = roles.map(role => ({ value: role.name, label: role.name }));
+
+  const memberOptions = [
+    { value: '', label: 'Not linked' },
+    ...members.map(member => ({ value: String(member.id), label: `${member.name} (${member.email})` })),
   ];
 
   return (
@@ -219,6 +522,8 @@ const UserManagement = () => {
                   <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">ID</th>
                   <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Username</th>
                   <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Role</th>
+                  <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Library Member</th>
+                  <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Two-Factor</th>
                   <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Created At</th>
                   <th className="text-right py-3 px-4 text-sm font-semibold text-text-primary">Actions</th>
                 </tr>
@@ -227,12 +532,29 @@ const UserManagement = () => {
                 {users.map((user) => (
                   <tr key={user.id} className="border-b border-border hover:bg-background-secondary transition-colors">
                     <td className="py-3 px-4 text-sm text-text-primary">{user.id}</td>
-                    <td className="py-3 px-4 text-sm text-text-primary font-medium">{user.username}</td>
+                    <td className="py-3 px-4 text-sm text-text-primary font-medium">
+                      <div className="flex items-center gap-2">
+                        {user.username}
+                        {isLocked(user) && <Badge variant="error" size="sm">locked</Badge>}
+                      </div>
+                      {user.email && <div className="text-xs font-normal text-text-tertiary">{user.email}</div>}
+                    </td>
                     <td className="py-3 px-4 text-sm">
                       <Badge variant={user.role === 'admin' ? 'success' : 'info'}>
                         {user.role}
                       </Badge>
                     </td>
+                    <td className="py-3 px-4 text-sm text-text-secondary">
+                      {user.member_name || <span className="text-text-tertiary">Not linked</span>}
+                    </td>
+                    <td className="py-3 px-4 text-sm">
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant={user.totp_enabled ? 'success' : 'default'} size="sm">
+                          {user.totp_enabled ? 'on' : 'off'}
+                        </Badge>
+                        {user.two_factor_required && <Badge variant="warning" size="sm">required</Badge>}
+                      </div>
+                    </td>
                     <td className="py-3 px-4 text-sm text-text-secondary">
                       {new Date(user.created_at).toLocaleString()}
                     </td>
@@ -245,6 +567,20 @@ const UserManagement = () => {
                         >
                           <Edit2 className="h-5 w-5" />
                         </button>
+                        <button
+                          onClick={() => handleOpenSessionsDialog(user)}
+                          className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 text-text-secondary transition-colors"
+                          aria-label="Sessions"
+                        >
+                          <Laptop className="h-5 w-5" />
+                        </button>
+                        <button
+                          onClick={() => handleOpenActivityDialog(user)}
+                          className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 text-text-secondary transition-colors"
+                          aria-label="Login activity"
+                        >
+                          <History className="h-5 w-5" />
+                        </button>
                         <button
                           onClick={() => handleOpenPasswordDialog(user.id)}
                           disabled={currentUser?.id === user.id}
@@ -273,6 +609,82 @@ const UserManagement = () => {
         </Card>
       )}
 
+      {/* Roles editor */}
+      <Card className="mt-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="h-6 w-6 text-primary" />
+            <h2 className="text-xl font-semibold text-text-primary">Roles</h2>
+          </div>
+          <Button
+            variant="outline"
+            icon={<Plus className="h-5 w-5" />}
+            onClick={() => handleOpenRoleDialog()}
+          >
+            Add Custom Role
+          </Button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Role</th>
+                <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Permissions</th>
+                <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Users</th>
+                <th className="text-right py-3 px-4 text-sm font-semibold text-text-primary">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {roles.map((role) => (
+                <tr key={role.id} className="border-b border-border hover:bg-background-secondary transition-colors">
+                  <td className="py-3 px-4 text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-text-primary">{role.name}</span>
+                      {role.built_in && <Badge variant="default" size="sm">built-in</Badge>}
+                    </div>
+                    {role.description && <p className="text-text-tertiary">{role.description}</p>}
+                  </td>
+                  <td className="py-3 px-4 text-sm">
+                    {role.permissions.length === 0 ? (
+                      <span className="text-text-tertiary">Own library records only</span>
+                    ) : (
+                      <div className="flex flex-wrap gap-1">
+                        {role.permissions.map(permission => (
+                          <Badge key={permission} variant="info" size="sm">{permission}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-3 px-4 text-sm text-text-secondary">{role.user_count}</td>
+                  <td className="py-3 px-4 text-right">
+                    {!role.built_in && (
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => handleOpenRoleDialog(role)}
+                          className="p-2 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20 text-blue-600 dark:text-blue-400 transition-colors"
+                          aria-label={`Edit role ${role.name}`}
+                        >
+                          <Edit2 className="h-5 w-5" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteRole(role)}
+                          disabled={role.user_count > 0}
+                          title={role.user_count > 0 ? 'Reassign its users before deleting this role' : undefined}
+                          className="p-2 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600 dark:text-red-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          aria-label={`Delete role ${role.name}`}
+                        >
+                          <Trash2 className="h-5 w-5" />
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
       {/* Dialog for Add/Edit User */}
       <Modal
         open={dialogOpen}
@@ -298,6 +710,16 @@ const UserManagement = () => {
             autoFocus
           />
 
+          <Input
+            label="Email"
+            name="email"
+            type="email"
+            value={currentUserData.email || ''}
+            onChange={handleDialogChange}
+            helperText="Password reset links are sent here"
+            fullWidth
+          />
+
           {!isEditing && (
             <Input
               label="Password"
@@ -312,12 +734,44 @@ const UserManagement = () => {
           <Select
             label="Role"
             name="role"
-            value={currentUserData.role || 'member'}
+            value={currentUserData.role || 'patron'}
             onChange={handleRoleChange}
             options={roleOptions}
+            helperText="Permission changes reach a signed-in user when their session next refreshes"
             fullWidth
           />
 
+          {isEditing && (
+            <Select
+              label="Library Member"
+              name="member_id"
+              value={currentUserData.member_id ? String(currentUserData.member_id) : ''}
+              onChange={handleMemberChange}
+              options={memberOptions}
+              helperText="Patrons only see the loans, holds and fines of this member"
+              fullWidth
+            />
+          )}
+
+          {isEditing && (
+            <div className="space-y-2">
+              <label className="flex items-center gap-3 text-sm text-text-primary cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!!currentUserData.two_factor_required}
+                  onChange={(e) => setCurrentUserData(prev => ({ ...prev, two_factor_required: e.target.checked }))}
+                  className="h-5 w-5 rounded border-2 cursor-pointer accent-primary"
+                />
+                Require two-factor authentication
+              </label>
+              {currentUserData.totp_enabled && (
+                <Button type="button" variant="outline" size="sm" onClick={handleResetTwoFactor}>
+                  Reset Two-Factor
+                </Button>
+              )}
+            </div>
+          )}
+
           <div className="flex justify-end gap-3 pt-4 border-t border-border">
             <Button
               type="button"
@@ -379,6 +833,161 @@ const UserManagement = () => {
           </div>
         </form>
       </Modal>
+
+      {/* Dialog for a user's sessions */}
+      <Modal
+        open={sessionsUser !== null}
+        onClose={handleCloseSessionsDialog}
+        title={`Sessions of ${sessionsUser?.username ?? ''}`}
+      >
+        {sessions.length === 0 ? (
+          <p className="text-sm text-text-tertiary">No open sessions.</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {sessions.map((session) => (
+              <li key={session.id} className="flex items-start justify-between gap-4 py-3">
+                <div className="min-w-0 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-text-primary truncate">{session.user_agent || 'Unknown device'}</span>
+                    {session.current && <Badge variant="success" size="sm">this session</Badge>}
+                  </div>
+                  <p className="text-text-tertiary">
+                    {session.ip_address || 'Unknown address'} · last used {new Date(session.last_used_at).toLocaleString()}
+                  </p>
+                  <p className="text-text-tertiary">Signed in {new Date(session.created_at).toLocaleString()}</p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleRevokeSession(session.id)}>
+                  Revoke
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="mt-4 text-xs text-text-tertiary">
+          A revoked session stops working when its current access token expires, within minutes.
+        </p>
+        <div className="flex justify-end gap-3 pt-4 mt-4 border-t border-border">
+          <Button type="button" variant="ghost" onClick={handleCloseSessionsDialog}>
+            Close
+          </Button>
+          <Button
+            type="button"
+            variant="danger"
+            disabled={sessions.length === 0}
+            onClick={() => handleRevokeSession()}
+          >
+            Revoke All
+          </Button>
+        </div>
+      </Modal>
+
+      {/* Dialog for a user's recent login attempts */}
+      <Modal
+        open={activityUser !== null}
+        onClose={() => setActivityUser(null)}
+        title={`Login activity of ${activityUser?.username ?? ''}`}
+      >
+        {activityUser && isLocked(activityUser) && (
+          <div className="flex items-center justify-between gap-4 mb-4 rounded-lg border border-border bg-background-secondary p-3 text-sm">
+            <span className="text-text-primary">
+              Locked until {new Date(activityUser.locked_until!).toLocaleString()} after {activityUser.failed_login_count} failed logins.
+            </span>
+            <Button variant="primary" size="sm" onClick={handleUnlock}>
+              Unlock
+            </Button>
+          </div>
+        )}
+        {loginEvents.length === 0 ? (
+          <p className="text-sm text-text-tertiary">No login attempts recorded.</p>
+        ) : (
+          <ul className="divide-y divide-border max-h-96 overflow-y-auto">
+            {loginEvents.map((event) => (
+              <li key={event.id} className="py-3 text-sm">
+                <div className="flex items-center gap-2">
+                  <Badge variant={event.success ? 'success' : 'error'} size="sm">
+                    {event.success ? 'Success' : FAILURE_REASON_LABELS[event.failure_reason ?? ''] ?? 'Failed'}
+                  </Badge>
+                  <span className="text-text-secondary">{new Date(event.created_at).toLocaleString()}</span>
+                </div>
+                <p className="text-text-tertiary truncate">
+                  {event.ip_address || 'Unknown address'} · {event.user_agent || 'Unknown device'}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex justify-end gap-3 pt-4 mt-4 border-t border-border">
+          <Button type="button" variant="ghost" onClick={() => setActivityUser(null)}>
+            Close
+          </Button>
+        </div>
+      </Modal>
+
+      {/* Dialog for Add/Edit Custom Role */}
+      <Modal
+        open={roleDialogOpen}
+        onClose={handleCloseRoleDialog}
+        title={roleFormData.id === undefined ? 'Add Custom Role' : 'Edit Role'}
+        size="sm"
+      >
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleRoleSubmit();
+          }}
+          className="space-y-4"
+        >
+          <Input
+            label="Name"
+            value={roleFormData.name}
+            onChange={(e) => setRoleFormData(prev => ({ ...prev, name: e.target.value.toLowerCase() }))}
+            helperText="Lowercase letters, digits, hyphens or underscores"
+            required
+            fullWidth
+            autoFocus
+          />
+          <Input
+            label="Description"
+            value={roleFormData.description}
+            onChange={(e) => setRoleFormData(prev => ({ ...prev, description: e.target.value }))}
+            fullWidth
+          />
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium text-text-primary mb-2">Permissions</legend>
+            {permissions.map((permission) => (
+              <label key={permission.name} className="flex items-start gap-3 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={roleFormData.permissions.includes(permission.name)}
+                  onChange={(e) => handleTogglePermission(permission.name, e.target.checked)}
+                  className="h-5 w-5 mt-0.5 rounded border-2 cursor-pointer accent-primary"
+                />
+                <span>
+                  <span className="font-mono text-text-primary">{permission.name}</span>
+                  <span className="block text-text-tertiary">{permission.description}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          <div className="flex justify-end gap-3 pt-4 border-t border-border">
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={handleCloseRoleDialog}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant="primary"
+              disabled={!roleFormData.name.trim()}
+            >
+              {roleFormData.id === undefined ? 'Create Role' : 'Save Changes'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
     </div>
   );
 };
@@ -0,0 +1,421 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Webhook as WebhookIcon, Plus, Trash2, Send, KeyRound, RotateCcw } from 'lucide-react';
+import { Card, Button, Input, Select, Badge } from './ui';
+import { config } from '../config';
+import { apiFetch } from '../utils/api';
+import { useAuth } from './AuthContext';
+import Pagination from './Pagination';
+
+type DeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+interface Webhook {
+  id: number;
+  url: string;
+  description: string | null;
+  events: string[];
+  active: boolean;
+  created_at: string;
+}
+
+interface WebhookDelivery {
+  id: number;
+  webhook_id: number;
+  webhook_url: string;
+  event: string;
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+}
+
+const STATUS_BADGES: Record<DeliveryStatus, { label: string; variant: 'success' | 'error' | 'default' }> = {
+  succeeded: { label: 'Delivered', variant: 'success' },
+  failed: { label: 'Failed', variant: 'error' },
+  pending: { label: 'Pending', variant: 'default' },
+};
+
+const formatDateTime = (dateString: string) => new Date(dateString).toLocaleString();
+
+const WebhookSettings = () => {
+  const { token } = useAuth();
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [events, setEvents] = useState<string[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  // A secret is only shown once, right after it is generated
+  const [revealedSecret, setRevealedSecret] = useState<{ webhookId: number; secret: string } | null>(null);
+
+  const [newUrl, setNewUrl] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [newEvents, setNewEvents] = useState<string[]>([]);
+
+  const [page, setPage] = useState(1);
+  const [limit, setLimit] = useState(10);
+  const [totalCount, setTotalCount] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
+  const [statusFilter, setStatusFilter] = useState('all');
+
+  const fetchWebhooks = useCallback(async () => {
+    try {
+      const [webhooksResponse, eventsResponse] = await Promise.all([
+        apiFetch(`${config.apiUrl}/webhooks`, { headers: { Authorization: `Bearer ${token}` } }),
+        apiFetch(`${config.apiUrl}/webhooks/events`, { headers: { Authorization: `Bearer ${token}` } }),
+      ]);
+      if (!webhooksResponse.ok || !eventsResponse.ok) {
+        throw new Error('Failed to fetch webhooks');
+      }
+      setWebhooks(await webhooksResponse.json());
+      setEvents(await eventsResponse.json());
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to fetch webhooks', error: true });
+    }
+  }, [token]);
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      let url = `${config.apiUrl}/webhooks/deliveries?page=${page}&limit=${limit}`;
+      if (statusFilter !== 'all') url += `&status=${statusFilter}`;
+
+      const response = await apiFetch(url, { headers: { Authorization: `Bearer ${token}` } });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to fetch webhook deliveries');
+      }
+      const result = await response.json();
+      setDeliveries(result.data || []);
+      setTotalCount(result.pagination.total);
+      setTotalPages(result.pagination.totalPages);
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to fetch webhook deliveries', error: true });
+    }
+  }, [token, page, limit, statusFilter]);
+
+  useEffect(() => {
+    const load = async () => {
+      await fetchWebhooks();
+    };
+    load();
+  }, [fetchWebhooks]);
+
+  useEffect(() => {
+    const load = async () => {
+      await fetchDeliveries();
+    };
+    load();
+  }, [fetchDeliveries]);
+
+  const request = async (path: string, init: RequestInit, failure: string) => {
+    const response = await apiFetch(`${config.apiUrl}/webhooks${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || failure);
+    }
+    return response.status === 204 ? null : response.json();
+  };
+
+  const toggleNewEvent = (event: string) => {
+    setNewEvents(prev => prev.includes(event) ? prev.filter(e => e !== event) : [...prev, event]);
+  };
+
+  const handleAdd = async () => {
+    try {
+      const webhook = await request('', {
+        method: 'POST',
+        body: JSON.stringify({ url: newUrl, description: newDescription || null, events: newEvents }),
+      }, 'Failed to add webhook');
+      setNewUrl('');
+      setNewDescription('');
+      setNewEvents([]);
+      setRevealedSecret({ webhookId: webhook.id, secret: webhook.secret });
+      setMessage({ text: 'Webhook added', error: false });
+      fetchWebhooks();
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to add webhook', error: true });
+    }
+  };
+
+  const handleToggleActive = async (webhook: Webhook) => {
+    try {
+      await request(`/${webhook.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ active: !webhook.active }),
+      }, 'Failed to update webhook');
+      setMessage({ text: webhook.active ? 'Webhook paused' : 'Webhook resumed', error: false });
+      fetchWebhooks();
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to update webhook', error: true });
+    }
+  };
+
+  const handlePing = async (webhook: Webhook) => {
+    try {
+      const delivery: WebhookDelivery = await request(`/${webhook.id}/ping`, { method: 'POST' }, 'Failed to ping webhook');
+      setMessage(delivery.status === 'succeeded'
+        ? { text: 'Ping delivered', error: false }
+        : { text: `Ping failed: ${delivery.error}`, error: true });
+      fetchDeliveries();
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to ping webhook', error: true });
+    }
+  };
+
+  const handleRotateSecret = async (webhook: Webhook) => {
+    if (!window.confirm(`Replace the secret for ${webhook.url}? The receiver will need the new one.`)) return;
+
+    try {
+      const updated = await request(`/${webhook.id}/secret`, { method: 'POST' }, 'Failed to rotate secret');
+      setRevealedSecret({ webhookId: updated.id, secret: updated.secret });
+      setMessage({ text: 'Secret replaced', error: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to rotate secret', error: true });
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!window.confirm(`Delete the webhook for ${webhook.url} and its delivery log?`)) return;
+
+    try {
+      await request(`/${webhook.id}`, { method: 'DELETE' }, 'Failed to delete webhook');
+      setMessage({ text: 'Webhook deleted', error: false });
+      fetchWebhooks();
+      fetchDeliveries();
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to delete webhook', error: true });
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    try {
+      await request(`/deliveries/${delivery.id}/redeliver`, { method: 'POST' }, 'Failed to redeliver');
+      fetchDeliveries();
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to redeliver', error: true });
+    }
+  };
+
+  return (
+    <Card variant="elevated" padding="lg" className="mb-6">
+      <div className="flex items-start gap-4 mb-6">
+        <div className="p-3 rounded-lg bg-primary/10 dark:bg-primary/20">
+          <WebhookIcon className="h-6 w-6 text-primary" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-text-primary mb-1">
+            Webhooks
+          </h2>
+          <p className="text-sm text-text-secondary">
+            Post signed events to other systems when books, members and loans change. Failed deliveries are retried with backoff.
+          </p>
+        </div>
+      </div>
+
+      {message && (
+        <p className={`mb-4 text-sm ${message.error ? 'text-red-600 dark:text-red-400' : 'text-green-700 dark:text-green-300'}`}>
+          {message.text}
+        </p>
+      )}
+
+      <div className="space-y-4">
+        {webhooks.map(webhook => (
+          <div key={webhook.id} className="p-4 rounded-lg border border-border">
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <div className="min-w-0">
+                <div className="font-medium text-text-primary break-all">{webhook.url}</div>
+                {webhook.description && (
+                  <div className="text-xs text-text-tertiary">{webhook.description}</div>
+                )}
+              </div>
+              <Badge variant={webhook.active ? 'success' : 'default'} size="sm">
+                {webhook.active ? 'Active' : 'Paused'}
+              </Badge>
+            </div>
+            <div className="flex flex-wrap gap-1 mb-3">
+              {webhook.events.map(event => (
+                <Badge key={event} variant="info" size="sm">{event}</Badge>
+              ))}
+            </div>
+            {revealedSecret?.webhookId === webhook.id && (
+              <div className="mb-3 p-3 rounded-lg bg-background-secondary text-sm">
+                <div className="text-text-secondary mb-1">
+                  Signing secret; copy it now, it will not be shown again:
+                </div>
+                <code className="break-all text-text-primary">{revealedSecret.secret}</code>
+              </div>
+            )}
+            <div className="flex flex-wrap justify-end gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                icon={<Trash2 className="h-4 w-4" />}
+                onClick={() => handleDelete(webhook)}
+                className="text-red-600 hover:text-red-700"
+              >
+                Delete
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                icon={<KeyRound className="h-4 w-4" />}
+                onClick={() => handleRotateSecret(webhook)}
+              >
+                New Secret
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleToggleActive(webhook)}
+              >
+                {webhook.active ? 'Pause' : 'Resume'}
+              </Button>
+              <Button
+                variant="primary"
+                size="sm"
+                icon={<Send className="h-4 w-4" />}
+                onClick={() => handlePing(webhook)}
+              >
+                Ping
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <div className="p-4 rounded-lg border border-dashed border-border space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <Input
+              label="Payload URL"
+              value={newUrl}
+              placeholder="https://example.com/hooks/homeshelf"
+              onChange={(e) => setNewUrl(e.target.value)}
+              fullWidth
+            />
+            <Input
+              label="Description"
+              value={newDescription}
+              placeholder="Optional"
+              onChange={(e) => setNewDescription(e.target.value)}
+              fullWidth
+            />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {events.map(event => (
+              <label key={event} className="flex items-center gap-2 text-sm text-text-primary cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={newEvents.includes(event)}
+                  onChange={() => toggleNewEvent(event)}
+                  className="h-4 w-4 rounded border-2 cursor-pointer accent-primary"
+                />
+                {event}
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <Button
+              variant="outline"
+              icon={<Plus className="h-4 w-4" />}
+              onClick={handleAdd}
+            >
+              Add Webhook
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3 mt-8 mb-3">
+        <h3 className="text-lg font-semibold text-text-primary">Delivery Log</h3>
+        <div className="w-full sm:w-48">
+          <Select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value);
+              setPage(1);
+            }}
+            options={[
+              { value: 'all', label: 'All Deliveries' },
+              ...Object.entries(STATUS_BADGES).map(([value, { label }]) => ({ value, label })),
+            ]}
+            fullWidth
+          />
+        </div>
+      </div>
+
+      {deliveries.length === 0 ? (
+        <p className="text-sm text-text-secondary py-4">No deliveries yet.</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[800px]">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Event</th>
+                  <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Webhook</th>
+                  <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Queued</th>
+                  <th className="text-left py-3 px-4 text-sm font-semibold text-text-primary">Status</th>
+                  <th className="text-right py-3 px-4 text-sm font-semibold text-text-primary">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {deliveries.map(delivery => {
+                  const badge = STATUS_BADGES[delivery.status];
+                  return (
+                    <tr key={delivery.id} className="hover:bg-background-secondary transition-colors">
+                      <td className="py-3 px-4 text-text-primary font-medium">{delivery.event}</td>
+                      <td className="py-3 px-4 text-text-secondary text-sm break-all">{delivery.webhook_url}</td>
+                      <td className="py-3 px-4 text-text-secondary text-sm">{formatDateTime(delivery.created_at)}</td>
+                      <td className="py-3 px-4">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={badge.variant} size="sm">{badge.label}</Badge>
+                          {delivery.response_status !== null && (
+                            <span className="text-xs text-text-tertiary">HTTP {delivery.response_status}</span>
+                          )}
+                          {delivery.attempts > 1 && (
+                            <span className="text-xs text-text-tertiary">{delivery.attempts} attempts</span>
+                          )}
+                        </div>
+                        {delivery.error && (
+                          <div className="text-xs text-red-600 dark:text-red-400 mt-1">{delivery.error}</div>
+                        )}
+                        {delivery.status === 'pending' && delivery.attempts > 0 && (
+                          <div className="text-xs text-text-tertiary mt-1">
+                            Next attempt {formatDateTime(delivery.next_attempt_at)}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          icon={<RotateCcw className="h-4 w-4" />}
+                          onClick={() => handleRedeliver(delivery)}
+                        >
+                          Redeliver
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <Pagination
+            page={page}
+            totalPages={totalPages}
+            totalCount={totalCount}
+            limit={limit}
+            onPageChange={setPage}
+            onLimitChange={(newLimit) => {
+              setLimit(newLimit);
+              setPage(1);
+            }}
+          />
+        </>
+      )}
+    </Card>
+  );
+};
+
+export default WebhookSettings;
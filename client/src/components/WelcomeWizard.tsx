@@ -83,7 +83,7 @@ const steps: WizardStep[] = [
     description: 'Secure and role-based access control',
     icon: <Shield className="h-16 w-16 text-primary" />,
     features: [
-      'Admin and member role management',
+      'Built-in and custom roles with granular permissions',
       'Secure authentication with JWT',
       'Password reset functionality',
       'Protected routes and data',
@@ -1,6 +1,7 @@
 import { motion } from 'framer-motion';
-import { BookOpen, User, Hash } from 'lucide-react';
+import { BookOpen, User, Hash, Layers } from 'lucide-react';
 import Badge from './Badge';
+import Highlight from './Highlight';
 import { config } from '../../config';
 
 interface Category {
@@ -14,9 +15,13 @@ interface Book {
   author: string;
   isbn: string;
   available: boolean;
+  on_hold_shelf?: boolean;
+  available_copies?: number;
+  total_copies?: number;
   cover_image_path?: string;
   description?: string;
   categories?: Category[];
+  title_highlight?: string;
 }
 
 interface BookCardProps {
@@ -74,8 +79,8 @@ const BookCard = ({ book, onClick, selectable = false, selected = false, onSelec
 
         {/* Availability Badge Overlay */}
         <div className="absolute top-2 right-2">
-          <Badge variant={book.available ? 'success' : 'warning'}>
-            {book.available ? 'Available' : 'Borrowed'}
+          <Badge variant={book.available ? 'success' : book.on_hold_shelf ? 'info' : 'warning'}>
+            {book.available ? 'Available' : book.on_hold_shelf ? 'On Hold' : 'Borrowed'}
           </Badge>
         </div>
       </div>
@@ -84,7 +89,7 @@ const BookCard = ({ book, onClick, selectable = false, selected = false, onSelec
       <div className="p-4 space-y-2">
         {/* Title */}
         <h3 className="font-semibold text-text-primary line-clamp-2 min-h-[3rem]">
-          {book.title}
+          {book.title_highlight ? <Highlight text={book.title_highlight} /> : book.title}
         </h3>
 
         {/* Author */}
@@ -101,6 +106,14 @@ const BookCard = ({ book, onClick, selectable = false, selected = false, onSelec
           </div>
         )}
 
+        {/* Copies */}
+        {book.total_copies !== undefined && (
+          <div className="flex items-center gap-2 text-xs text-text-tertiary">
+            <Layers className="h-3 w-3 flex-shrink-0" />
+            <span>{book.available_copies ?? 0} of {book.total_copies} {book.total_copies === 1 ? 'copy' : 'copies'} available</span>
+          </div>
+        )}
+
         {/* Categories */}
         {book.categories && book.categories.length > 0 && (
           <div className="flex flex-wrap gap-1 pt-1">
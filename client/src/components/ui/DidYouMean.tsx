@@ -0,0 +1,38 @@
+import { SearchCheck } from 'lucide-react';
+
+export interface DidYouMeanProps {
+  // The search as typed, which found nothing as it is
+  search: string;
+  // The search with its misspelled words corrected
+  suggestion: string;
+  onSearch: (search: string) => void;
+  className?: string;
+}
+
+/**
+ * Shown with the results of a search that had no exact hits and was
+ * matched with similar words instead
+ */
+const DidYouMean = ({ search, suggestion, onSearch, className = '' }: DidYouMeanProps) => {
+  return (
+    <div
+      role="status"
+      className={`border rounded-lg p-3 flex items-center gap-2 text-sm bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800 text-blue-800 dark:text-blue-300 ${className}`}
+    >
+      <SearchCheck className="h-4 w-4 flex-shrink-0" />
+      <p>
+        No exact matches for “{search}”, showing similar results. Did you mean{' '}
+        <button
+          type="button"
+          onClick={() => onSearch(suggestion)}
+          className="font-semibold underline hover:no-underline"
+        >
+          {suggestion}
+        </button>
+        ?
+      </p>
+    </div>
+  );
+};
+
+export default DidYouMean;
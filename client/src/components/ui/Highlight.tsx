@@ -0,0 +1,29 @@
+export interface HighlightProps {
+  // Text with the matches of a search wrapped in <mark> and </mark>, as the server highlights them
+  text: string;
+  className?: string;
+}
+
+/**
+ * Shows search highlights from the server. The text is split on the <mark>
+ * tags and rendered as text, so nothing else in it is treated as markup.
+ */
+const Highlight = ({ text, className = '' }: HighlightProps) => {
+  const parts = text.split(/<mark>([\s\S]*?)<\/mark>/);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded-sm dark:bg-yellow-700">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </span>
+  );
+};
+
+export default Highlight;
@@ -0,0 +1,18 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { DidYouMean } from '..';
+
+describe('DidYouMean Component', () => {
+  it('shows the search and the correction', () => {
+    render(<DidYouMean search="tolkein" suggestion="tolkien" onSearch={() => {}} />);
+    expect(screen.getByRole('status')).toHaveTextContent('No exact matches for “tolkein”');
+    expect(screen.getByRole('button', { name: 'tolkien' })).toBeInTheDocument();
+  });
+
+  it('searches for the correction when it is clicked', () => {
+    const handleSearch = vi.fn();
+    render(<DidYouMean search="hary poter" suggestion="harry potter" onSearch={handleSearch} />);
+    fireEvent.click(screen.getByRole('button', { name: 'harry potter' }));
+    expect(handleSearch).toHaveBeenCalledWith('harry potter');
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { render } from '@testing-library/react';
+import { Highlight } from '..';
+
+describe('Highlight Component', () => {
+  it('marks the highlighted words', () => {
+    const { container } = render(<Highlight text="The <mark>Colour</mark> of <mark>Magic</mark>" />);
+    const marks = container.querySelectorAll('mark');
+    expect(marks).toHaveLength(2);
+    expect(marks[0]).toHaveTextContent('Colour');
+    expect(container).toHaveTextContent('The Colour of Magic');
+  });
+
+  it('renders other markup as text', () => {
+    const { container } = render(<Highlight text="<b>Bold</b> <mark>claims</mark>" />);
+    expect(container.querySelector('b')).toBeNull();
+    expect(container).toHaveTextContent('<b>Bold</b> claims');
+  });
+
+  it('renders text without highlights unchanged', () => {
+    const { container } = render(<Highlight text="Dune" className="font-medium" />);
+    expect(container.querySelector('mark')).toBeNull();
+    expect(container.firstChild).toHaveClass('font-medium');
+    expect(container).toHaveTextContent('Dune');
+  });
+});
@@ -29,3 +29,9 @@ export { default as Skeleton } from './Skeleton';
 export type { SkeletonProps } from './Skeleton';
 
 export { default as BookCard } from './BookCard';
+
+export { default as Highlight } from './Highlight';
+export type { HighlightProps } from './Highlight';
+
+export { default as DidYouMean } from './DidYouMean';
+export type { DidYouMeanProps } from './DidYouMean';
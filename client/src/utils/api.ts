@@ -2,22 +2,120 @@
  * API utility for handling fetch requests with automatic auth error handling
  */
 
+import { config } from '../config';
+
 interface FetchOptions extends RequestInit {
   headers?: Record<string, string>;
 }
 
+export interface RefreshedSession {
+  token: string;
+  refreshToken: string;
+  user: {
+    id: number;
+    username: string;
+    role: string;
+    member_id?: number | null;
+    permissions?: string[];
+  };
+}
+
+type SessionListener = (session: RefreshedSession) => void;
+
+const sessionListeners = new Set<SessionListener>();
+let refreshInFlight: Promise<RefreshedSession | null> | null = null;
+
+/**
+ * Subscribe to silent session refreshes; returns an unsubscribe function
+ */
+export function onSessionRefreshed(listener: SessionListener): () => void {
+  sessionListeners.add(listener);
+  return () => {
+    sessionListeners.delete(listener);
+  };
+}
+
+/**
+ * Clear the stored session
+ */
+export function clearStoredSession(): void {
+  localStorage.removeItem('token');
+  localStorage.removeItem('user');
+  localStorage.removeItem('refreshToken');
+}
+
 /**
- * Custom fetch wrapper that automatically handles 401/403 errors
- * and redirects to login when token expires
+ * Swap the stored refresh token for a new access token. Requests failing
+ * at the same time share one refresh, since each refresh token works once.
+ */
+export function refreshSession(): Promise<RefreshedSession | null> {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const refreshToken = localStorage.getItem('refreshToken');
+      if (!refreshToken) return null;
+
+      try {
+        const response = await fetch(`${config.apiUrl}/auth/refresh`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refreshToken }),
+        });
+        if (!response.ok) return null;
+
+        const session: RefreshedSession = await response.json();
+        localStorage.setItem('token', session.token);
+        localStorage.setItem('user', JSON.stringify(session.user));
+        localStorage.setItem('refreshToken', session.refreshToken);
+        sessionListeners.forEach(listener => listener(session));
+        return session;
+      } catch {
+        return null;
+      }
+    })().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+/**
+ * The server answers 403 both for an invalid or expired token and for a
+ * valid login whose role lacks a permission; only the first ends the session.
+ */
+async function isInvalidToken(response: Response): Promise<boolean> {
+  try {
+    const body = await response.clone().json();
+    return body.error === 'Invalid or expired token';
+  } catch {
+    return false;
+  }
+}
+
+const isAuthFailure = async (response: Response): Promise<boolean> =>
+  response.status === 401 || (response.status === 403 && await isInvalidToken(response));
+
+/**
+ * Custom fetch wrapper that automatically handles 401/403 errors: it refreshes
+ * the session and retries once, and redirects to login if that fails
  */
 export async function apiFetch(url: string, options: FetchOptions = {}): Promise<Response> {
-  const response = await fetch(url, options);
+  let response = await fetch(url, options);
+
+  // An expired access token is renewed silently
+  if (options.headers?.['Authorization'] && await isAuthFailure(response)) {
+    const session = await refreshSession();
+    if (session) {
+      response = await fetch(url, {
+        ...options,
+        headers: { ...options.headers, Authorization: `Bearer ${session.token}` },
+      });
+    }
+  }
 
   // Check for 401 Unauthorized or 403 Forbidden - token expired or invalid
-  if (response.status === 401 || response.status === 403) {
+  if (await isAuthFailure(response)) {
     // Clear auth data
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
+    clearStoredSession();
 
     // Redirect to login page
     window.location.href = '/login';
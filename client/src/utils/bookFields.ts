@@ -0,0 +1,141 @@
+/**
+ * The catalogue fields books are filtered by: their labels, the filters
+ * and facet counts of the book list, and the saved searches that keep them
+ */
+
+export const BOOK_FORMAT_LABELS: Record<string, string> = {
+  hardcover: 'Hardcover',
+  paperback: 'Paperback',
+  ebook: 'E-book',
+  audiobook: 'Audiobook',
+  large_print: 'Large print',
+  other: 'Other',
+};
+
+const languageNames = typeof Intl.DisplayNames === 'function'
+  ? new Intl.DisplayNames(undefined, { type: 'language' })
+  : null;
+
+/**
+ * The name of a language tag in the reader's language, such as English for
+ * en, or the tag itself when it is not one the browser knows
+ */
+export const languageName = (tag: string): string => {
+  try {
+    return languageNames?.of(tag) ?? tag;
+  } catch {
+    return tag;
+  }
+};
+
+/**
+ * A publication decade as it is spoken, such as 1990s
+ */
+export const decadeLabel = (decade: string | number): string => `${decade}s`;
+
+// What the book list can be narrowed by, as the server counts them
+export type BookFacet = 'categories' | 'availability' | 'author' | 'language' | 'decade' | 'format';
+
+export interface BookFacetValue {
+  value: string;
+  // Category names; other facets are labelled from their values
+  label?: string;
+  count: number;
+}
+
+export type BookFacetCounts = Partial<Record<BookFacet, BookFacetValue[]>>;
+
+/**
+ * The values chosen for each facet. Books match any value chosen for a
+ * facet, and every facet with values chosen; with categoryMatch 'all',
+ * they must be in all the chosen categories.
+ */
+export interface BookFilters {
+  values: Record<BookFacet, string[]>;
+  categoryMatch: 'any' | 'all';
+}
+
+export const EMPTY_BOOK_FILTERS: BookFilters = {
+  values: { categories: [], availability: [], author: [], language: [], decade: [], format: [] },
+  categoryMatch: 'any',
+};
+
+export const hasBookFilters = (filters: BookFilters): boolean =>
+  Object.values(filters.values).some(values => values.length > 0);
+
+/**
+ * The query string parameters of the filters for GET /books. Authors are
+ * repeated rather than joined, as names can have commas in them.
+ */
+export const bookFilterParams = ({ values, categoryMatch }: BookFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (values.categories.length > 0) {
+    params.set('categoryIds', values.categories.join(','));
+    if (categoryMatch === 'all') params.set('categoryMatch', 'all');
+  }
+  // Both available and borrowed is every book
+  if (values.availability.length === 1) params.set('availableStatus', values.availability[0]);
+  values.author.forEach(author => params.append('authors', author));
+  if (values.language.length > 0) params.set('languages', values.language.join(','));
+  if (values.decade.length > 0) params.set('decades', values.decade.join(','));
+  if (values.format.length > 0) params.set('formats', values.format.join(','));
+  return params;
+};
+
+/**
+ * The filters of a saved search as the server keeps them
+ */
+export interface SavedSearchFilters {
+  categoryIds?: number[];
+  categoryMatch?: 'any' | 'all';
+  available?: boolean;
+  authors?: string[];
+  languages?: string[];
+  decades?: number[];
+  formats?: string[];
+}
+
+/**
+ * A search saved under a name with its filters. A smart collection's books
+ * are found again each time it is opened, and it can be pinned to the
+ * navigation bar; a shared search is listed to every user.
+ */
+export interface SavedSearch {
+  id: number;
+  user_id: number;
+  name: string;
+  search: string;
+  filters: SavedSearchFilters;
+  collection: boolean;
+  shared: boolean;
+  owner_username: string;
+  pinned: boolean;
+}
+
+/**
+ * The book list filters as a saved search keeps them. Both available and
+ * borrowed is every book, so is left out as bookFilterParams() does.
+ */
+export const savedSearchFilters = ({ values, categoryMatch }: BookFilters): SavedSearchFilters => ({
+  ...(values.categories.length > 0 && { categoryIds: values.categories.map(Number), categoryMatch }),
+  ...(values.availability.length === 1 && { available: values.availability[0] === 'true' }),
+  ...(values.author.length > 0 && { authors: values.author }),
+  ...(values.language.length > 0 && { languages: values.language }),
+  ...(values.decade.length > 0 && { decades: values.decade.map(Number) }),
+  ...(values.format.length > 0 && { formats: values.format }),
+});
+
+/**
+ * The book list filters of a saved search
+ */
+export const bookFiltersOf = (filters: SavedSearchFilters): BookFilters => ({
+  values: {
+    categories: (filters.categoryIds ?? []).map(String),
+    availability: filters.available === undefined ? [] : [String(filters.available)],
+    author: filters.authors ?? [],
+    language: filters.languages ?? [],
+    decade: (filters.decades ?? []).map(String),
+    format: filters.formats ?? [],
+  },
+  categoryMatch: filters.categoryMatch ?? 'any',
+});
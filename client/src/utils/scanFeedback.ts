@@ -0,0 +1,30 @@
+/**
+ * Audible feedback for barcode scans at the circulation desk
+ */
+
+type ScanTone = 'success' | 'error';
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Play a short high beep for a good scan, or a low buzz for a rejected one.
+ * Does nothing where the browser has no Web Audio support.
+ */
+export function playScanTone(tone: ScanTone): void {
+  try {
+    audioContext = audioContext || new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+
+    oscillator.type = tone === 'success' ? 'sine' : 'square';
+    oscillator.frequency.value = tone === 'success' ? 880 : 220;
+    gain.gain.value = 0.1;
+
+    oscillator.connect(gain);
+    gain.connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + (tone === 'success' ? 0.12 : 0.35));
+  } catch {
+    // Sound is a nicety; the screen shows the same result
+  }
+}
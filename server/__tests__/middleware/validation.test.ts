@@ -374,14 +374,14 @@ describe('Validation Middleware', () => {
       mockRequest.body = {
         username: 'testuser',
         password: 'password123',
-        role: 'superadmin',
+        role: 'Super Admin!',
       };
 
       validateUser(mockRequest as AuthRequest, mockResponse as Response, nextFunction);
 
       expect(nextFunction).toHaveBeenCalledWith(
         expect.objectContaining({
-          message: expect.stringContaining('must be either "admin" or "member"'),
+          message: expect.stringContaining('must be the name of an existing role'),
           statusCode: 400,
         })
       );
@@ -421,6 +421,49 @@ describe('Validation Middleware', () => {
 
       expect(mockRequest.body.username).not.toContain('<');
     });
+
+    it('should normalize an email address', () => {
+      mockRequest.body = {
+        username: 'testuser',
+        password: 'password123',
+        email: '  Jane.Doe@Example.com ',
+      };
+
+      validateUser(mockRequest as AuthRequest, mockResponse as Response, nextFunction);
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.body.email).toBe('jane.doe@example.com');
+    });
+
+    it('should clear an empty email address', () => {
+      mockRequest.body = {
+        username: 'testuser',
+        password: 'password123',
+        email: '',
+      };
+
+      validateUser(mockRequest as AuthRequest, mockResponse as Response, nextFunction);
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.body.email).toBeNull();
+    });
+
+    it('should reject an invalid email address', () => {
+      mockRequest.body = {
+        username: 'testuser',
+        password: 'password123',
+        email: 'not-an-email',
+      };
+
+      validateUser(mockRequest as AuthRequest, mockResponse as Response, nextFunction);
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: 'Email must be a valid email address',
+          statusCode: 400,
+        })
+      );
+    });
   });
 
   describe('validateCategory middleware', () => {
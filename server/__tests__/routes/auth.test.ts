@@ -5,6 +5,9 @@
  * - Setup status check
  * - User registration
  * - Login flow
+ * - Refresh token rotation, logout and sessions
+ * - Two-factor enrolment and login
+ * - Account lockout and login history
  * - Password reset flow
  */
 
@@ -13,7 +16,10 @@ import express from 'express';
 import { newDb, IMemoryDb } from 'pg-mem';
 import authRoutes from '../../src/routes/auth';
 import { errorHandler } from '../../src/middleware/errorHandler';
-import { hashPassword } from '../../src/utils/authUtils';
+import { hashPassword, verifyToken, generateToken } from '../../src/utils/authUtils';
+import { totpCode, totpStep } from '../../src/utils/totp';
+import { MailService } from '../../src/services/MailService';
+import { MailMessage } from '../../src/types/mail';
 
 // Create in-memory database for testing
 let memDb: IMemoryDb;
@@ -32,6 +38,7 @@ jest.mock('../../src/db', () => {
           };
           return client;
         },
+        query: (text: string, params?: any[]) => queryFn(text, params),
         end: async () => {},
       };
     },
@@ -92,14 +99,42 @@ describe('Authentication Routes', () => {
     queryFn = query;
 
     // Create tables
+    await query(`
+      CREATE TABLE roles (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(50) UNIQUE NOT NULL,
+        description TEXT,
+        permissions TEXT[] NOT NULL DEFAULT '{}',
+        built_in BOOLEAN NOT NULL DEFAULT false,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await query(`
+      INSERT INTO roles (name, permissions, built_in) VALUES
+      ('admin', ARRAY['books:write', 'loans:checkout', 'members:read', 'members:write', 'fines:manage', 'export:run', 'settings:manage', 'users:manage'], true),
+      ('librarian', ARRAY['books:write', 'loans:checkout', 'members:read', 'members:write', 'fines:manage', 'export:run'], true),
+      ('volunteer', ARRAY['loans:checkout', 'members:read'], true),
+      ('patron', '{}', true)
+    `);
+
     await query(`
       CREATE TABLE users (
         id SERIAL PRIMARY KEY,
         username VARCHAR(255) UNIQUE NOT NULL,
+        email VARCHAR(255) UNIQUE,
         password_hash VARCHAR(255) NOT NULL,
-        role VARCHAR(50) NOT NULL DEFAULT 'member',
+        role VARCHAR(50) NOT NULL DEFAULT 'patron' REFERENCES roles(name) ON UPDATE CASCADE,
+        member_id INTEGER UNIQUE,
         reset_token VARCHAR(255),
         reset_token_expires TIMESTAMPTZ,
+        totp_secret VARCHAR(64),
+        totp_enabled BOOLEAN NOT NULL DEFAULT false,
+        totp_last_step INTEGER,
+        two_factor_required BOOLEAN NOT NULL DEFAULT false,
+        failed_login_count INTEGER NOT NULL DEFAULT 0,
+        locked_until TIMESTAMPTZ,
         created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
       )
     `);
@@ -114,11 +149,62 @@ describe('Authentication Routes', () => {
       )
     `);
 
+    await query(`
+      CREATE TABLE user_sessions (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        user_agent TEXT,
+        ip_address VARCHAR(64),
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        last_used_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        expires_at TIMESTAMPTZ NOT NULL,
+        revoked_at TIMESTAMPTZ,
+        revoked_reason VARCHAR(30)
+      )
+    `);
+
+    await query(`
+      CREATE TABLE refresh_tokens (
+        id SERIAL PRIMARY KEY,
+        session_id INTEGER NOT NULL REFERENCES user_sessions(id) ON DELETE CASCADE,
+        token_hash VARCHAR(64) UNIQUE NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        used_at TIMESTAMPTZ
+      )
+    `);
+
+    await query(`
+      CREATE TABLE user_recovery_codes (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        code_hash VARCHAR(64) NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        used_at TIMESTAMPTZ
+      )
+    `);
+
+    await query(`
+      CREATE TABLE login_events (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+        username VARCHAR(255) NOT NULL,
+        success BOOLEAN NOT NULL,
+        failure_reason VARCHAR(30),
+        ip_address VARCHAR(64),
+        user_agent TEXT,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
     app = createTestApp();
   });
 
   beforeEach(async () => {
     // Clean up test data before each test
+    await query('DELETE FROM refresh_tokens');
+    await query('DELETE FROM user_sessions');
+    await query('DELETE FROM user_recovery_codes');
+    await query('DELETE FROM login_events');
     await query('DELETE FROM users');
     await query('DELETE FROM members');
   });
@@ -179,7 +265,7 @@ describe('Authentication Routes', () => {
         .send({
           username: 'testuser',
           password: 'Test123!',
-          role: 'member'
+          role: 'patron'
         })
         .expect(201);
 
@@ -191,7 +277,52 @@ describe('Authentication Routes', () => {
       expect(rows[0].name).toBe('testuser');
     });
 
-    it('should default to member role if not specified', async () => {
+    it('should link the new user to its member entry', async () => {
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({
+          username: 'linkeduser',
+          password: 'Test123!',
+          role: 'admin'
+        })
+        .expect(201);
+
+      const { rows } = await query('SELECT id FROM members WHERE email = $1', [
+        'linkeduser@library.app'
+      ]);
+      expect(response.body.user.member_id).toBe(rows[0].id);
+    });
+
+    it('should store the email address on the user and its member entry', async () => {
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({
+          username: 'mailuser',
+          password: 'Test123!',
+          role: 'admin',
+          email: 'Mail.User@Example.com'
+        })
+        .expect(201);
+
+      expect(response.body.user.email).toBe('mail.user@example.com');
+      const { rows } = await query('SELECT name FROM members WHERE email = $1', ['mail.user@example.com']);
+      expect(rows[0].name).toBe('mailuser');
+    });
+
+    it('should reject a role that does not exist', async () => {
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({
+          username: 'ghostuser',
+          password: 'Ghost123!',
+          role: 'ghost'
+        })
+        .expect(400);
+
+      expect(response.body.error).toContain('does not exist');
+    });
+
+    it('should default to patron role if not specified', async () => {
       const response = await request(app)
         .post('/api/auth/register')
         .send({
@@ -200,7 +331,7 @@ describe('Authentication Routes', () => {
         })
         .expect(201);
 
-      expect(response.body.user.role).toBe('member');
+      expect(response.body.user.role).toBe('patron');
     });
 
     it('should reject duplicate username', async () => {
@@ -210,7 +341,7 @@ describe('Authentication Routes', () => {
         .send({
           username: 'testuser',
           password: 'Test123!',
-          role: 'member'
+          role: 'patron'
         })
         .expect(201);
 
@@ -220,7 +351,7 @@ describe('Authentication Routes', () => {
         .send({
           username: 'testuser',
           password: 'Different123!',
-          role: 'member'
+          role: 'patron'
         })
         .expect(409);
 
@@ -232,7 +363,7 @@ describe('Authentication Routes', () => {
         .post('/api/auth/register')
         .send({
           password: 'Test123!',
-          role: 'member'
+          role: 'patron'
         })
         .expect(400);
 
@@ -244,7 +375,7 @@ describe('Authentication Routes', () => {
         .post('/api/auth/register')
         .send({
           username: 'testuser',
-          role: 'member'
+          role: 'patron'
         })
         .expect(400);
 
@@ -257,7 +388,7 @@ describe('Authentication Routes', () => {
         .send({
           username: 'testuser',
           password: '123',
-          role: 'member'
+          role: 'patron'
         })
         .expect(400);
 
@@ -270,7 +401,7 @@ describe('Authentication Routes', () => {
         .send({
           username: '  <script>alert("xss")</script>  ',
           password: 'Test123!',
-          role: 'member'
+          role: 'patron'
         })
         .expect(201);
 
@@ -295,7 +426,7 @@ describe('Authentication Routes', () => {
         .send({
           username: 'newuser',
           password: 'Test123!',
-          role: 'member'
+          role: 'patron'
         })
         .expect(401);
 
@@ -309,7 +440,7 @@ describe('Authentication Routes', () => {
       const hashedPassword = await hashPassword('Test123!');
       await query(
         'INSERT INTO users (username, password_hash, role) VALUES ($1, $2, $3)',
-        ['testuser', hashedPassword, 'member']
+        ['testuser', hashedPassword, 'patron']
       );
     });
 
@@ -326,13 +457,46 @@ describe('Authentication Routes', () => {
         message: 'Logged in successfully',
         user: {
           username: 'testuser',
-          role: 'member'
+          role: 'patron'
         }
       });
       expect(response.body.token).toBeDefined();
       expect(typeof response.body.token).toBe('string');
     });
 
+    it('should include the linked member in the token', async () => {
+      const { rows } = await query(
+        "INSERT INTO members (name, email) VALUES ('Patron', 'patron@example.com') RETURNING id"
+      );
+      await query('UPDATE users SET member_id = $1 WHERE username = $2', [rows[0].id, 'testuser']);
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({
+          username: 'testuser',
+          password: 'Test123!'
+        })
+        .expect(200);
+
+      expect(response.body.user.member_id).toBe(rows[0].id);
+      expect(verifyToken(response.body.token)?.memberId).toBe(rows[0].id);
+    });
+
+    it('should include the permissions of the role in the token', async () => {
+      await query("UPDATE users SET role = 'volunteer' WHERE username = 'testuser'");
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({
+          username: 'testuser',
+          password: 'Test123!'
+        })
+        .expect(200);
+
+      expect(response.body.user.permissions).toEqual(['loans:checkout', 'members:read']);
+      expect(verifyToken(response.body.token)?.permissions).toEqual(['loans:checkout', 'members:read']);
+    });
+
     it('should return 401 for invalid username', async () => {
       const response = await request(app)
         .post('/api/auth/login')
@@ -391,7 +555,7 @@ describe('Authentication Routes', () => {
       expect(response.body.user).toBeDefined();
       expect(response.body.user.id).toBeDefined();
       expect(response.body.user.username).toBe('testuser');
-      expect(response.body.user.role).toBe('member');
+      expect(response.body.user.role).toBe('patron');
     });
 
     it('should generate valid JWT token', async () => {
@@ -409,17 +573,554 @@ describe('Authentication Routes', () => {
     });
   });
 
+  describe('Sessions', () => {
+    const login = async () => {
+      const response = await request(app)
+        .post('/api/auth/login')
+        .set('User-Agent', 'TestBrowser/1.0')
+        .send({ username: 'testuser', password: 'Test123!' })
+        .expect(200);
+      return response.body;
+    };
+
+    beforeEach(async () => {
+      const hashedPassword = await hashPassword('Test123!');
+      await query(
+        'INSERT INTO users (username, password_hash, role) VALUES ($1, $2, $3)',
+        ['testuser', hashedPassword, 'patron']
+      );
+    });
+
+    it('should return a refresh token and start a session on login', async () => {
+      const body = await login();
+
+      expect(typeof body.refreshToken).toBe('string');
+      expect(verifyToken(body.token)?.sessionId).toBeDefined();
+
+      const { rows } = await query('SELECT * FROM refresh_tokens');
+      expect(rows).toHaveLength(1);
+      // Only the hash is stored
+      expect(rows[0].token_hash).not.toBe(body.refreshToken);
+    });
+
+    it('should swap a refresh token for new tokens', async () => {
+      const body = await login();
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: body.refreshToken })
+        .expect(200);
+
+      expect(response.body.refreshToken).not.toBe(body.refreshToken);
+      expect(response.body.user.username).toBe('testuser');
+      expect(verifyToken(response.body.token)?.sessionId).toBe(verifyToken(body.token)?.sessionId);
+    });
+
+    it('should pick up role changes on refresh', async () => {
+      const body = await login();
+      await query("UPDATE users SET role = 'volunteer' WHERE username = 'testuser'");
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: body.refreshToken })
+        .expect(200);
+
+      expect(verifyToken(response.body.token)?.permissions).toEqual(['loans:checkout', 'members:read']);
+    });
+
+    it('should revoke the session when a used refresh token is presented again', async () => {
+      const body = await login();
+
+      const first = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: body.refreshToken })
+        .expect(200);
+
+      const reuse = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: body.refreshToken })
+        .expect(401);
+      expect(reuse.body.error).toContain('already been used');
+
+      // The newest token is useless too once the session is revoked
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: first.body.refreshToken })
+        .expect(401);
+
+      const { rows } = await query('SELECT revoked_reason FROM user_sessions');
+      expect(rows[0].revoked_reason).toBe('reuse_detected');
+    });
+
+    it('should reject an unknown refresh token', async () => {
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: 'not-a-real-token' })
+        .expect(401);
+
+      expect(response.body.error).toBe('Invalid refresh token');
+    });
+
+    it('should require a refresh token', async () => {
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({})
+        .expect(400);
+    });
+
+    it('should end the session on logout', async () => {
+      const body = await login();
+
+      await request(app)
+        .post('/api/auth/logout')
+        .send({ refreshToken: body.refreshToken })
+        .expect(204);
+
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: body.refreshToken })
+        .expect(401);
+
+      // Logging out again is harmless
+      await request(app)
+        .post('/api/auth/logout')
+        .send({ refreshToken: body.refreshToken })
+        .expect(204);
+    });
+
+    it('should end every session when logging out everywhere', async () => {
+      const first = await login();
+      const second = await login();
+
+      await request(app)
+        .post('/api/auth/logout')
+        .send({ refreshToken: first.refreshToken, all: true })
+        .expect(204);
+
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: second.refreshToken })
+        .expect(401);
+    });
+
+    it('should refuse the access token of a session that has ended', async () => {
+      const body = await login();
+
+      await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${body.token}`)
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/logout')
+        .send({ refreshToken: body.refreshToken })
+        .expect(204);
+
+      const response = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${body.token}`)
+        .expect(401);
+      expect(response.body.error).toBe('Session has been revoked');
+    });
+
+    it('should refuse the access tokens of every session when logging out everywhere', async () => {
+      const first = await login();
+      const second = await login();
+
+      await request(app)
+        .post('/api/auth/logout')
+        .send({ refreshToken: first.refreshToken, all: true })
+        .expect(204);
+
+      await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${second.token}`)
+        .expect(401);
+    });
+
+    it('should list open sessions and mark the current one', async () => {
+      await login();
+      const current = await login();
+
+      const response = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${current.token}`)
+        .expect(200);
+
+      expect(response.body).toHaveLength(2);
+      expect(response.body.filter((s: any) => s.current)).toHaveLength(1);
+      expect(response.body[0].user_agent).toBe('TestBrowser/1.0');
+    });
+
+    it('should revoke one of the user\'s sessions', async () => {
+      const other = await login();
+      const current = await login();
+
+      await request(app)
+        .delete(`/api/auth/sessions/${verifyToken(other.token)?.sessionId}`)
+        .set('Authorization', `Bearer ${current.token}`)
+        .expect(204);
+
+      const response = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${current.token}`)
+        .expect(200);
+      expect(response.body).toHaveLength(1);
+
+      await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${other.token}`)
+        .expect(401);
+    });
+
+    it('should return 404 for a session of another user', async () => {
+      const current = await login();
+
+      await request(app)
+        .delete('/api/auth/sessions/9999')
+        .set('Authorization', `Bearer ${current.token}`)
+        .expect(404);
+    });
+  });
+
+  describe('Two-factor authentication', () => {
+    let userId: number;
+    let userToken: string;
+
+    const currentCode = (secret: string, offset: number = 0) => totpCode(secret, totpStep() + offset);
+
+    const passwordStep = async () => {
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'testuser', password: 'Test123!' })
+        .expect(200);
+      return response.body;
+    };
+
+    // Enrol through the authenticated endpoints; returns the secret and recovery codes
+    const enrol = async () => {
+      const enrollment = await request(app)
+        .post('/api/auth/two-factor/enroll')
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(200);
+      const activation = await request(app)
+        .post('/api/auth/two-factor/activate')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ code: currentCode(enrollment.body.secret, -1) })
+        .expect(200);
+      return { secret: enrollment.body.secret as string, recoveryCodes: activation.body.recoveryCodes as string[] };
+    };
+
+    beforeEach(async () => {
+      const hashedPassword = await hashPassword('Test123!');
+      const { rows } = await query(
+        'INSERT INTO users (username, password_hash, role) VALUES ($1, $2, $3) RETURNING id',
+        ['testuser', hashedPassword, 'librarian']
+      );
+      userId = rows[0].id;
+      userToken = generateToken({ userId, username: 'testuser', role: 'librarian' });
+    });
+
+    it('should return an otpauth URI when enrolling', async () => {
+      const response = await request(app)
+        .post('/api/auth/two-factor/enroll')
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(200);
+
+      expect(response.body.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(response.body.otpauthUri).toContain(`otpauth://totp/`);
+      expect(response.body.otpauthUri).toContain(`secret=${response.body.secret}`);
+    });
+
+    it('should not enable two-factor until a code is confirmed', async () => {
+      await request(app)
+        .post('/api/auth/two-factor/enroll')
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(200);
+
+      const body = await passwordStep();
+      expect(body.token).toBeDefined();
+    });
+
+    it('should reject a wrong code when activating', async () => {
+      await request(app)
+        .post('/api/auth/two-factor/enroll')
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(200);
+
+      const response = await request(app)
+        .post('/api/auth/two-factor/activate')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ code: '000000' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Invalid authentication code');
+    });
+
+    it('should store only hashes of the recovery codes', async () => {
+      const { recoveryCodes } = await enrol();
+
+      expect(recoveryCodes).toHaveLength(10);
+      const { rows } = await query('SELECT code_hash FROM user_recovery_codes');
+      expect(rows).toHaveLength(10);
+      expect(rows.map((r: any) => r.code_hash)).not.toContain(recoveryCodes[0]);
+    });
+
+    it('should ask for a second factor instead of issuing a token', async () => {
+      await enrol();
+
+      const body = await passwordStep();
+
+      expect(body.token).toBeUndefined();
+      expect(body).toMatchObject({ twoFactorRequired: true, setupRequired: false });
+      expect(typeof body.challengeToken).toBe('string');
+      // The challenge is not an access token
+      expect(verifyToken(body.challengeToken)).toBeNull();
+    });
+
+    it('should issue a session after a valid code', async () => {
+      const { secret } = await enrol();
+      const { challengeToken } = await passwordStep();
+
+      const response = await request(app)
+        .post('/api/auth/login/two-factor')
+        .send({ challengeToken, code: currentCode(secret) })
+        .expect(200);
+
+      expect(response.body.user.username).toBe('testuser');
+      expect(typeof response.body.refreshToken).toBe('string');
+    });
+
+    it('should not accept the same code twice', async () => {
+      const { secret } = await enrol();
+      const code = currentCode(secret);
+
+      const first = await passwordStep();
+      await request(app)
+        .post('/api/auth/login/two-factor')
+        .send({ challengeToken: first.challengeToken, code })
+        .expect(200);
+
+      const second = await passwordStep();
+      await request(app)
+        .post('/api/auth/login/two-factor')
+        .send({ challengeToken: second.challengeToken, code })
+        .expect(401);
+    });
+
+    it('should reject a wrong code', async () => {
+      await enrol();
+      const { challengeToken } = await passwordStep();
+
+      const response = await request(app)
+        .post('/api/auth/login/two-factor')
+        .send({ challengeToken, code: '000000' })
+        .expect(401);
+
+      expect(response.body.error).toBe('Invalid authentication code');
+    });
+
+    it('should reject an invalid challenge token', async () => {
+      const response = await request(app)
+        .post('/api/auth/login/two-factor')
+        .send({ challengeToken: userToken, code: '123456' })
+        .expect(401);
+
+      expect(response.body.error).toContain('Login has expired');
+    });
+
+    it('should accept each recovery code once', async () => {
+      const { recoveryCodes } = await enrol();
+
+      const first = await passwordStep();
+      await request(app)
+        .post('/api/auth/login/two-factor')
+        .send({ challengeToken: first.challengeToken, recoveryCode: recoveryCodes[0].toLowerCase() })
+        .expect(200);
+
+      const second = await passwordStep();
+      await request(app)
+        .post('/api/auth/login/two-factor')
+        .send({ challengeToken: second.challengeToken, recoveryCode: recoveryCodes[0] })
+        .expect(401);
+
+      const status = await request(app)
+        .get('/api/auth/two-factor')
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(200);
+      expect(status.body).toEqual({ enabled: true, required: false, recoveryCodesRemaining: 9 });
+    });
+
+    it('should make a user required to have two-factor enrol at login', async () => {
+      await query('UPDATE users SET two_factor_required = true WHERE id = $1', [userId]);
+
+      const { challengeToken, setupRequired } = await passwordStep();
+      expect(setupRequired).toBe(true);
+
+      const setup = await request(app)
+        .post('/api/auth/login/two-factor/setup')
+        .send({ challengeToken })
+        .expect(200);
+
+      const response = await request(app)
+        .post('/api/auth/login/two-factor')
+        .send({ challengeToken, code: currentCode(setup.body.secret) })
+        .expect(200);
+
+      expect(response.body.token).toBeDefined();
+      expect(response.body.recoveryCodes).toHaveLength(10);
+    });
+
+    it('should let a user turn two-factor off with a current code', async () => {
+      const { secret } = await enrol();
+
+      await request(app)
+        .post('/api/auth/two-factor/disable')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ code: currentCode(secret) })
+        .expect(204);
+
+      const body = await passwordStep();
+      expect(body.token).toBeDefined();
+    });
+
+    it('should not let a user turn off required two-factor', async () => {
+      const { secret } = await enrol();
+      await query('UPDATE users SET two_factor_required = true WHERE id = $1', [userId]);
+
+      const response = await request(app)
+        .post('/api/auth/two-factor/disable')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ code: currentCode(secret) })
+        .expect(403);
+
+      expect(response.body.error).toContain('required');
+    });
+  });
+
+  describe('Account lockout', () => {
+    const attempt = (password: string) => request(app)
+      .post('/api/auth/login')
+      .set('User-Agent', 'TestBrowser/1.0')
+      .send({ username: 'testuser', password });
+
+    beforeEach(async () => {
+      const hashedPassword = await hashPassword('Test123!');
+      await query(
+        'INSERT INTO users (username, password_hash, role) VALUES ($1, $2, $3)',
+        ['testuser', hashedPassword, 'patron']
+      );
+    });
+
+    it('should record failed and successful logins', async () => {
+      await attempt('wrong-password').expect(401);
+      await attempt('Test123!').expect(200);
+
+      const { rows } = await query('SELECT * FROM login_events ORDER BY id');
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toMatchObject({ username: 'testuser', success: false, failure_reason: 'invalid_password', user_agent: 'TestBrowser/1.0' });
+      expect(rows[1]).toMatchObject({ success: true, failure_reason: null });
+    });
+
+    it('should record attempts on unknown usernames without a user', async () => {
+      await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'nobody', password: 'whatever' })
+        .expect(401);
+
+      const { rows } = await query('SELECT * FROM login_events');
+      expect(rows[0]).toMatchObject({ user_id: null, username: 'nobody', failure_reason: 'unknown_user' });
+    });
+
+    it('should lock the account after repeated failures', async () => {
+      for (let i = 0; i < 5; i++) {
+        await attempt('wrong-password').expect(401);
+      }
+
+      // Even the right password is refused while locked
+      const response = await attempt('Test123!').expect(423);
+      expect(response.body.error).toContain('Account is locked');
+
+      const { rows } = await query("SELECT failure_reason FROM login_events ORDER BY id DESC LIMIT 1");
+      expect(rows[0].failure_reason).toBe('account_locked');
+    });
+
+    it('should lock for longer with each further failure', async () => {
+      await query("UPDATE users SET failed_login_count = 6, locked_until = NOW() - INTERVAL '1 minute' WHERE username = 'testuser'");
+
+      await attempt('wrong-password').expect(401);
+
+      const { rows } = await query("SELECT locked_until FROM users WHERE username = 'testuser'");
+      const minutes = (new Date(rows[0].locked_until).getTime() - Date.now()) / 60000;
+      // 7th failure with a threshold of 5: 1 minute doubled twice
+      expect(minutes).toBeGreaterThan(3.5);
+      expect(minutes).toBeLessThanOrEqual(4);
+    });
+
+    it('should allow logging in once the lock has expired and reset the count', async () => {
+      await query("UPDATE users SET failed_login_count = 5, locked_until = NOW() - INTERVAL '1 minute' WHERE username = 'testuser'");
+
+      await attempt('Test123!').expect(200);
+
+      const { rows } = await query("SELECT failed_login_count, locked_until FROM users WHERE username = 'testuser'");
+      expect(rows[0]).toEqual({ failed_login_count: 0, locked_until: null });
+    });
+
+    it('should count wrong two-factor codes towards the lockout', async () => {
+      const secret = 'JBSWY3DPEHPK3PXP';
+      await query("UPDATE users SET totp_secret = $1, totp_enabled = true WHERE username = 'testuser'", [secret]);
+      const { body } = await attempt('Test123!').expect(200);
+
+      await request(app)
+        .post('/api/auth/login/two-factor')
+        .send({ challengeToken: body.challengeToken, code: '000000' })
+        .expect(401);
+
+      const { rows } = await query("SELECT failed_login_count FROM users WHERE username = 'testuser'");
+      expect(rows[0].failed_login_count).toBe(1);
+      const events = await query("SELECT failure_reason FROM login_events");
+      expect(events.rows[0].failure_reason).toBe('invalid_two_factor');
+    });
+
+    it('should count wrong codes when enrolling at login towards the lockout', async () => {
+      await query("UPDATE users SET two_factor_required = true WHERE username = 'testuser'");
+      const { body } = await attempt('Test123!').expect(200);
+      await request(app)
+        .post('/api/auth/login/two-factor/setup')
+        .send({ challengeToken: body.challengeToken })
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/login/two-factor')
+        .send({ challengeToken: body.challengeToken, code: '000000' })
+        .expect(400);
+
+      const { rows } = await query("SELECT failed_login_count FROM users WHERE username = 'testuser'");
+      expect(rows[0].failed_login_count).toBe(1);
+      const events = await query("SELECT failure_reason FROM login_events");
+      expect(events.rows[0].failure_reason).toBe('invalid_two_factor');
+    });
+  });
+
   describe('POST /api/auth/forgot-password', () => {
+    let sendMail: jest.SpyInstance<Promise<void>, [MailMessage]>;
+
     beforeEach(async () => {
+      sendMail = jest.spyOn(MailService.prototype, 'send').mockResolvedValue();
+
       // Create a test user
       const hashedPassword = await hashPassword('Test123!');
       await query(
-        'INSERT INTO users (username, password_hash, role) VALUES ($1, $2, $3)',
-        ['testuser', hashedPassword, 'member']
+        'INSERT INTO users (username, password_hash, role, email) VALUES ($1, $2, $3, $4)',
+        ['testuser', hashedPassword, 'patron', 'testuser@example.com']
       );
     });
 
-    it('should generate reset token for existing user', async () => {
+    afterEach(() => {
+      sendMail.mockRestore();
+    });
+
+    it('should email a reset link without returning the token', async () => {
       const response = await request(app)
         .post('/api/auth/forgot-password')
         .send({
@@ -428,12 +1129,32 @@ describe('Authentication Routes', () => {
         .expect(200);
 
       expect(response.body.message).toContain('If a user with that username exists');
+      expect(response.body.resetToken).toBeUndefined();
+
+      expect(sendMail).toHaveBeenCalledTimes(1);
+      const message = sendMail.mock.calls[0][0];
+      expect(message.to).toBe('testuser@example.com');
+      expect(message.subject).toContain('Reset your');
+      expect(message.text).toMatch(/http:\/\/localhost:3000\/reset-password\?token=[0-9a-f]{64}/);
+      expect(message.html).toContain('Hello testuser');
+    });
 
-      // In development mode, token should be included
-      if (process.env.NODE_ENV === 'development') {
-        expect(response.body.resetToken).toBeDefined();
-        expect(response.body.username).toBe('testuser');
-      }
+    it('should send a link whose token resets the password', async () => {
+      await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ username: 'testuser' })
+        .expect(200);
+
+      const token = /token=([0-9a-f]{64})/.exec(sendMail.mock.calls[0][0].text)![1];
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, newPassword: 'NewPassword123!' })
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'testuser', password: 'NewPassword123!' })
+        .expect(200);
     });
 
     it('should store hashed reset token in database', async () => {
@@ -476,6 +1197,31 @@ describe('Authentication Routes', () => {
       expect(diffMinutes).toBeLessThan(65);
     });
 
+    it('should not create a token for a user without an email address', async () => {
+      await query('UPDATE users SET email = NULL');
+
+      const response = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ username: 'testuser' })
+        .expect(200);
+
+      expect(response.body.message).toContain('If a user with that username exists');
+      expect(sendMail).not.toHaveBeenCalled();
+      const { rows } = await query('SELECT reset_token FROM users WHERE username = $1', ['testuser']);
+      expect(rows[0].reset_token).toBeNull();
+    });
+
+    it('should not reveal a failed delivery', async () => {
+      sendMail.mockRejectedValue(new Error('SMTP connection closed'));
+
+      const response = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ username: 'testuser' })
+        .expect(200);
+
+      expect(response.body.message).toContain('If a user with that username exists');
+    });
+
     it('should return success even for non-existent user (prevent enumeration)', async () => {
       const response = await request(app)
         .post('/api/auth/forgot-password')
@@ -485,6 +1231,7 @@ describe('Authentication Routes', () => {
         .expect(200);
 
       expect(response.body.message).toContain('If a user with that username exists');
+      expect(sendMail).not.toHaveBeenCalled();
     });
 
     it('should reject request without username', async () => {
@@ -505,29 +1252,18 @@ describe('Authentication Routes', () => {
       const hashedPassword = await hashPassword('OldPassword123!');
       await query(
         'INSERT INTO users (username, password_hash, role) VALUES ($1, $2, $3)',
-        ['testuser', hashedPassword, 'member']
+        ['testuser', hashedPassword, 'patron']
       );
 
-      // Generate and store reset token
-      const response = await request(app)
-        .post('/api/auth/forgot-password')
-        .send({
-          username: 'testuser'
-        });
-
-      if (process.env.NODE_ENV === 'development') {
-        resetToken = response.body.resetToken;
-      } else {
-        // Manually generate token for test
-        const crypto = require('crypto');
-        resetToken = crypto.randomBytes(32).toString('hex');
-        const hashedToken = crypto.createHash('sha256').update(resetToken).digest('hex');
-        const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
-        await query(
-          'UPDATE users SET reset_token = $1, reset_token_expires = $2 WHERE username = $3',
-          [hashedToken, expiresAt, 'testuser']
-        );
-      }
+      // Store a reset token as forgot-password would; the token itself is only ever emailed
+      const crypto = require('crypto');
+      resetToken = crypto.randomBytes(32).toString('hex');
+      const hashedToken = crypto.createHash('sha256').update(resetToken).digest('hex');
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+      await query(
+        'UPDATE users SET reset_token = $1, reset_token_expires = $2 WHERE username = $3',
+        [hashedToken, expiresAt, 'testuser']
+      );
     });
 
     it('should reset password with valid token', async () => {
@@ -585,6 +1321,26 @@ describe('Authentication Routes', () => {
         .expect(401);
     });
 
+    it('should revoke open sessions after reset', async () => {
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'testuser', password: 'OldPassword123!' })
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({
+          token: resetToken,
+          newPassword: 'NewPassword123!'
+        })
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: login.body.refreshToken })
+        .expect(401);
+    });
+
     it('should clear reset token after successful reset', async () => {
       await request(app)
         .post('/api/auth/reset-password')
@@ -2,7 +2,7 @@
  * Books Routes Integration Tests
  *
  * Tests for all books endpoints including:
- * - List books with pagination, search, and filters
+ * - List books with pagination, search, filters and facet counts
  * - Create, update, delete books
  * - ISBN lookup
  * - Category associations
@@ -16,9 +16,9 @@ import { hashPassword, generateToken } from '../../src/utils/authUtils';
 
 // Test data
 const testBooks = [
-  { id: 1, title: 'The Great Gatsby', author: 'F. Scott Fitzgerald', isbn: '9780743273565', available: true, cover_image_path: null, created_at: new Date(), categories: [] },
-  { id: 2, title: '1984', author: 'George Orwell', isbn: '9780451524935', available: false, cover_image_path: null, created_at: new Date(), categories: [] },
-  { id: 3, title: 'To Kill a Mockingbird', author: 'Harper Lee', isbn: '9780061120084', available: true, cover_image_path: null, created_at: new Date(), categories: [] },
+  { id: 1, title: 'The Great Gatsby', author: 'F. Scott Fitzgerald', isbn: '9780743273565', available: true, cover_image_path: null, language: 'en', publication_year: 1925, format: 'hardcover', created_at: new Date(), categories: [] },
+  { id: 2, title: '1984', author: 'George Orwell', isbn: '9780451524935', available: false, cover_image_path: null, language: 'en', publication_year: 1949, format: 'paperback', created_at: new Date(), categories: [] },
+  { id: 3, title: 'To Kill a Mockingbird', author: 'Harper Lee', isbn: '9780061120084', available: true, cover_image_path: null, language: null, publication_year: 1960, format: 'paperback', created_at: new Date(), categories: [] },
 ];
 
 const testCategories = [
@@ -26,6 +26,15 @@ const testCategories = [
   { id: 2, name: 'Classic', created_at: new Date() },
 ];
 
+// The test books a tsquery finds: every term, or one of its alternatives, is a word of the book
+const searchBooks = (tsquery: string) => {
+  const terms = tsquery.split(' & ').map(term => term.replace(/[()]/g, '').split(' | '));
+  return testBooks.filter(b => {
+    const words = [b.title, b.author, b.isbn].join(' ').toLowerCase().split(/[^a-z0-9]+/);
+    return terms.every(alternatives => alternatives.some(term => words.includes(term)));
+  });
+};
+
 // Mock database query function
 let queryFn: (text: string, params?: any[]) => Promise<any>;
 
@@ -41,6 +50,7 @@ jest.mock('../../src/db', () => {
           };
           return client;
         },
+        query: (text: string, params?: any[]) => queryFn(text, params),
         end: async () => {},
       };
     },
@@ -55,7 +65,7 @@ jest.mock('../../src/utils/fileUpload', () => ({
   coverUpload: {
     single: () => (req: any, res: any, next: any) => next()
   },
-  csvUpload: {
+  importUpload: {
     single: () => (req: any, res: any, next: any) => next()
   },
   uploadsDir: '/tmp/uploads'
@@ -95,23 +105,56 @@ describe('Books Routes', () => {
   beforeAll(async () => {
     // Create mock query function
     mockQuery = jest.fn(async (text: string, params?: any[]) => {
-      // Handle count queries
+      // Handle count queries, counting the books a search finds
       if (text.includes('COUNT(*)')) {
+        if (text.includes('bs.search_vector @@')) {
+          return { rows: [{ count: String(searchBooks(params![0]).length) }] };
+        }
         return { rows: [{ count: '3' }] };
       }
 
+      // Handle similar words for misspelled searches
+      if (text.includes('ts_stat(')) {
+        const similar: Record<string, string> = { gatsbi: 'gatsby', orwel: 'orwell' };
+        return { rows: params![0].filter((input: string) => similar[input]).map((input: string) => ({ input, word: similar[input] })) };
+      }
+
+      // Handle suggestions as you type
+      if (text.includes('word_similarity')) {
+        const typed = String(params![0]).toLowerCase();
+        return { rows: testBooks.filter(b => b.title.toLowerCase().includes(typed) || b.author.toLowerCase().split(' ').some(word => word.startsWith(typed.slice(0, 3)))) };
+      }
+
+      // Handle facet counts, grouping the books a search and availability filter find
+      if (text.includes('COUNT(DISTINCT b.id)')) {
+        let books = text.includes('bs.search_vector @@') ? searchBooks(params![0]) : [...testBooks];
+        const availableParam = params!.find(p => typeof p === 'boolean');
+        if (availableParam !== undefined) {
+          books = books.filter(b => b.available === availableParam);
+        }
+        if (text.includes('c.name AS label')) {
+          return { rows: testCategories.map(c => ({ value: String(c.id), label: c.name, count: books.length })) };
+        }
+        const valueOf: (b: typeof testBooks[number]) => unknown =
+          text.includes('b.available::text') ? b => b.available
+            : text.includes('b.author AS value') ? b => b.author
+            : text.includes('b.language AS value') ? b => b.language
+            : text.includes('publication_year / 10 * 10)::text') ? b => Math.floor(b.publication_year / 10) * 10
+            : b => b.format;
+        const counts = new Map<string, number>();
+        for (const value of books.map(valueOf).filter(value => value !== null)) {
+          counts.set(String(value), (counts.get(String(value)) ?? 0) + 1);
+        }
+        return { rows: [...counts].map(([value, count]) => ({ value, label: null, count })) };
+      }
+
       // Handle SELECT queries for books list
       if (text.includes('SELECT') && text.includes('FROM books b')) {
         let books = [...testBooks];
 
         // Apply search filter
-        if (params && params.length > 0 && text.includes('LOWER(b.title)')) {
-          const searchTerm = String(params[0]).replace(/%/g, '').toLowerCase();
-          books = books.filter(b =>
-            b.title.toLowerCase().includes(searchTerm) ||
-            b.author.toLowerCase().includes(searchTerm) ||
-            (b.isbn && b.isbn.includes(searchTerm))
-          );
+        if (params && params.length > 0 && text.includes('bs.search_vector @@')) {
+          books = searchBooks(params[0]);
         }
 
         // Apply availability filter - check for boolean param which indicates availability filtering
@@ -145,23 +188,28 @@ describe('Books Routes', () => {
         };
       }
 
+      // Handle looking a book up by ID
+      if (text.includes('SELECT * FROM books WHERE id = $1')) {
+        return { rows: testBooks.filter(b => b.id === parseInt(params![0])) };
+      }
+
       // Handle UPDATE queries for books
-      if (text.includes('UPDATE books')) {
-        const idParam = params![params!.length - 1];
-        const book = testBooks.find(b => b.id === parseInt(idParam));
+      if (text.includes('UPDATE books SET')) {
+        const book = testBooks.find(b => b.id === parseInt(params![0]));
         if (book) {
-          return {
-            rows: [{
-              ...book,
-              title: params![0] || book.title,
-              author: params![1] || book.author,
-              isbn: params![2] || book.isbn,
-            }]
-          };
+          const fields = [...text.matchAll(/(\w+) = \$(\d+)/g)].filter(([, field]) => field !== 'id');
+          const updated: any = { ...book };
+          fields.forEach(([, field, index]) => { updated[field] = params![parseInt(index, 10) - 1]; });
+          return { rows: [updated] };
         }
         return { rows: [] };
       }
 
+      // Handle deleting several books at once
+      if (text.includes('DELETE FROM books WHERE id = ANY($1)')) {
+        return { rows: testBooks.filter(b => params![0].includes(b.id)).map(b => ({ id: b.id, cover_image_path: b.cover_image_path })) };
+      }
+
       // Handle DELETE queries
       if (text.includes('DELETE FROM books')) {
         return { rows: [], rowCount: 1 };
@@ -255,6 +303,100 @@ describe('Books Routes', () => {
       expect(response.body.data[0].isbn).toBe('9780743273565');
     });
 
+    it('should rank searches and return highlights', async () => {
+      await request(app)
+        .get('/api/books?search="great gatsby" -mockingbird')
+        .expect(200);
+
+      const listQuery = mockQuery.mock.calls.find((call: any) => call[0].includes('LIMIT'));
+      expect(listQuery[1][0]).toBe('(great <-> gatsby) & !mockingbird');
+      expect(listQuery[0]).toContain('AS title_highlight');
+      expect(listQuery[0]).toContain('AS description_snippet');
+      expect(listQuery[0]).toContain('ORDER BY search_rank DESC');
+    });
+
+    it('should narrow a search by its fields', async () => {
+      await request(app)
+        .get('/api/books?search=' + encodeURIComponent('author:orwell -category:horror available:no year:1940s 1984'))
+        .expect(200);
+
+      const [listQuery, listParams] = mockQuery.mock.calls.find((call: any) => call[0].includes('LIMIT'));
+      expect(listParams.slice(0, 7)).toEqual(['1984', '%orwell%', 'horror', false, 1940, 1949, 25]);
+      expect(listQuery).toContain('b.author ILIKE $2');
+      expect(listQuery).toContain('NOT COALESCE((EXISTS');
+      expect(listQuery).toContain('b.available = $4');
+      expect(listQuery).toContain('b.publication_year >= $5 AND b.publication_year <= $6');
+    });
+
+    it('should narrow by fields alone without ranking', async () => {
+      const response = await request(app)
+        .get('/api/books?search=available:yes&sortBy=relevance')
+        .expect(200);
+
+      expect(response.body.data.every((b: any) => b.available)).toBe(true);
+      const listQuery = mockQuery.mock.calls.find((call: any) => call[0].includes('LIMIT'));
+      expect(listQuery[0]).not.toContain('search_rank');
+    });
+
+    it('should reject a malformed search', async () => {
+      const response = await request(app)
+        .get('/api/books?search=colour:red')
+        .expect(400);
+
+      expect(response.body.error).toContain('Invalid search: unknown field "colour"');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should correct the words of a search with fields and keep the fields', async () => {
+      const response = await request(app)
+        .get('/api/books?search=orwel available:no')
+        .expect(200);
+
+      expect(response.body.didYouMean).toBe('orwell available:no');
+    });
+
+    it('should fall back to similar words and suggest a correction when a search has no hits', async () => {
+      const response = await request(app)
+        .get('/api/books?search=great gatsbi')
+        .expect(200);
+
+      expect(response.body.data.map((b: any) => b.id)).toEqual([1]);
+      expect(response.body.pagination.total).toBe(1);
+      expect(response.body.didYouMean).toBe('great gatsby');
+      const similarQuery = mockQuery.mock.calls.find((call: any) => call[0].includes('ts_stat('));
+      expect(similarQuery[1][0]).toEqual(['great', 'gatsbi']);
+      const listQuery = mockQuery.mock.calls.find((call: any) => call[0].includes('LIMIT'));
+      expect(listQuery[1][0]).toBe('great & (gatsbi | gatsby)');
+    });
+
+    it('should not suggest a correction when a search has hits', async () => {
+      const response = await request(app)
+        .get('/api/books?search=gatsby')
+        .expect(200);
+
+      expect(response.body.didYouMean).toBeUndefined();
+      expect(mockQuery.mock.calls.some((call: any) => call[0].includes('ts_stat('))).toBe(false);
+    });
+
+    it('should not suggest a correction when similar words find nothing either', async () => {
+      const response = await request(app)
+        .get('/api/books?search=gatsbi orwel')
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(0);
+      expect(response.body.didYouMean).toBeUndefined();
+    });
+
+    it('should include copy counts', async () => {
+      await request(app)
+        .get('/api/books')
+        .expect(200);
+
+      const listQuery = mockQuery.mock.calls.find((call: any) => call[0].includes('FROM books b') && !call[0].includes('count_query'));
+      expect(listQuery[0]).toContain('AS available_copies');
+      expect(listQuery[0]).toContain('AS total_copies');
+    });
+
     it('should filter books by availability', async () => {
       const response = await request(app)
         .get('/api/books?availableStatus=true')
@@ -302,6 +444,110 @@ describe('Books Routes', () => {
 
       expect(response.body.data).toHaveLength(0);
     });
+
+    it('should count the books for each facet', async () => {
+      const response = await request(app)
+        .get('/api/books?facets=true')
+        .expect(200);
+
+      expect(Object.keys(response.body.facets)).toEqual(['categories', 'availability', 'author', 'language', 'decade', 'format']);
+      expect(response.body.facets.categories[0]).toEqual({ value: '1', label: 'Fiction', count: 3 });
+      expect(response.body.facets.language).toEqual([{ value: 'en', count: 2 }]);
+      expect(response.body.facets.decade).toEqual([
+        { value: '1920', count: 1 },
+        { value: '1940', count: 1 },
+        { value: '1960', count: 1 },
+      ]);
+      expect(response.body.facets.format).toEqual([{ value: 'hardcover', count: 1 }, { value: 'paperback', count: 2 }]);
+    });
+
+    it('should count only the facets asked for, and none by default', async () => {
+      const response = await request(app)
+        .get('/api/books?facets=language,unknown')
+        .expect(200);
+      expect(Object.keys(response.body.facets)).toEqual(['language']);
+
+      const withoutFacets = await request(app)
+        .get('/api/books')
+        .expect(200);
+      expect(withoutFacets.body.facets).toBeUndefined();
+    });
+
+    it('should count a facet without its own filter', async () => {
+      const response = await request(app)
+        .get('/api/books?facets=availability,author&availableStatus=true')
+        .expect(200);
+
+      const availabilityQuery = mockQuery.mock.calls.find((call: any) => call[0].includes('b.available::text AS value'));
+      expect(availabilityQuery[0]).not.toContain('b.available = $');
+      expect(response.body.facets.availability).toEqual([{ value: 'true', count: 2 }, { value: 'false', count: 1 }]);
+      expect(response.body.facets.author.map((value: any) => value.value)).toEqual(['F. Scott Fitzgerald', 'Harper Lee']);
+    });
+
+    it('should count facets for the search', async () => {
+      const response = await request(app)
+        .get('/api/books?search=orwell&facets=format')
+        .expect(200);
+
+      expect(response.body.facets.format).toEqual([{ value: 'paperback', count: 1 }]);
+    });
+
+    it('should filter by any of the values of a facet and every facet', async () => {
+      await request(app)
+        .get('/api/books?authors=Tolkien, J. R. R.&authors=Harper Lee&languages=en,fr&decades=1940,x&formats=paperback,scroll')
+        .expect(200);
+
+      const [listQuery, listParams] = mockQuery.mock.calls.find((call: any) => call[0].includes('FROM books b') && !call[0].includes('count_query'));
+      expect(listQuery).toContain('b.author = ANY($1::text[])');
+      expect(listQuery).toContain('b.language = ANY($2::text[])');
+      expect(listQuery).toContain('b.publication_year / 10 * 10 = ANY($3::int[])');
+      expect(listQuery).toContain('b.format = ANY($4::text[])');
+      expect(listParams.slice(0, 4)).toEqual([['Tolkien, J. R. R.', 'Harper Lee'], ['en', 'fr'], [1940], ['paperback']]);
+    });
+
+    it('should require every chosen category when matching all of them', async () => {
+      await request(app)
+        .get('/api/books?categoryIds=1,2&categoryMatch=all&facets=categories')
+        .expect(200);
+
+      const [listQuery, listParams] = mockQuery.mock.calls.find((call: any) => call[0].includes('FROM books b') && !call[0].includes('count_query'));
+      expect(listQuery).toContain('HAVING COUNT(DISTINCT bc_filter.category_id) = $2');
+      expect(listParams.slice(0, 2)).toEqual([[1, 2], 2]);
+
+      // Categories narrow their own counts when every one must match
+      const categoriesQuery = mockQuery.mock.calls.find((call: any) => call[0].includes('c.name AS label'));
+      expect(categoriesQuery[0]).toContain('HAVING COUNT(DISTINCT bc_filter.category_id)');
+    });
+  });
+
+  describe('GET /api/books/suggest', () => {
+    it('should suggest the best title and author matches', async () => {
+      const response = await request(app)
+        .get('/api/books/suggest?q=orwel')
+        .expect(200);
+
+      expect(response.body.data.map((b: any) => b.title)).toEqual(['1984']);
+      const suggestQuery = mockQuery.mock.calls.find((call: any) => call[0].includes('word_similarity'));
+      expect(suggestQuery[1]).toEqual(['orwel', '%orwel%', 8]);
+    });
+
+    it('should escape LIKE wildcards and cap the limit', async () => {
+      await request(app)
+        .get('/api/books/suggest?q=100%25_off&limit=500')
+        .expect(200);
+
+      const suggestQuery = mockQuery.mock.calls.find((call: any) => call[0].includes('word_similarity'));
+      expect(suggestQuery[1]).toEqual(['100%_off', '%100\\%\\_off%', 20]);
+    });
+
+    it('should not suggest anything for less than two characters', async () => {
+      const response = await request(app)
+        .get('/api/books/suggest?q=a')
+        .expect(200);
+
+      expect(response.body.data).toEqual([]);
+      expect(mockQuery.mock.calls.some((call: any) => call[0].includes('word_similarity'))).toBe(false);
+    });
   });
 
   describe('POST /api/books', () => {
@@ -325,6 +571,34 @@ describe('Books Routes', () => {
       expect(response.body.id).toBeDefined();
     });
 
+    it('should create the first copy of a new book', async () => {
+      await request(app)
+        .post('/api/books')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          title: 'New Book',
+          author: 'New Author'
+        })
+        .expect(201);
+
+      const copyInsert = mockQuery.mock.calls.find((call: any) => call[0].includes('INSERT INTO copies'));
+      expect(copyInsert[1]).toEqual([4, 'available']);
+    });
+
+    it('should queue a book.created webhook', async () => {
+      await request(app)
+        .post('/api/books')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          title: 'New Book',
+          author: 'New Author'
+        })
+        .expect(201);
+
+      const enqueue = mockQuery.mock.calls.find(([text]) => text.includes('INSERT INTO webhook_deliveries'));
+      expect(enqueue![1][0]).toBe('book.created');
+    });
+
     it('should create book without ISBN', async () => {
       const response = await request(app)
         .post('/api/books')
@@ -363,6 +637,32 @@ describe('Books Routes', () => {
       expect(response.body.error).toContain('Title');
     });
 
+    it('should save the language, publication year and format', async () => {
+      await request(app)
+        .post('/api/books')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ title: 'Chemmeen', author: 'Thakazhi Sivasankara Pillai', language: 'ml', publication_year: 1956, format: 'paperback' })
+        .expect(201);
+
+      const insert = mockQuery.mock.calls.find((call: any) => call[0].includes('INSERT INTO books'));
+      expect(insert[1].slice(4)).toEqual(['ml', 1956, 'paperback']);
+    });
+
+    it.each([
+      [{ language: 'English' }, 'Language'],
+      [{ publication_year: 1956.5 }, 'Publication year'],
+      [{ publication_year: 0 }, 'Publication year'],
+      [{ format: 'scroll' }, 'Format'],
+    ])('should reject an invalid %o', async (fields, message) => {
+      const response = await request(app)
+        .post('/api/books')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ title: 'Test Book', author: 'Test Author', ...fields })
+        .expect(400);
+
+      expect(response.body.error).toContain(message);
+    });
+
     it('should reject missing author', async () => {
       const response = await request(app)
         .post('/api/books')
@@ -403,7 +703,7 @@ describe('Books Routes', () => {
       expect(response.body.author).toContain('Clean Name');
     });
 
-    it('should work with member token', async () => {
+    it('should reject a member token', async () => {
       const response = await request(app)
         .post('/api/books')
         .set('Authorization', `Bearer ${memberToken}`)
@@ -411,9 +711,50 @@ describe('Books Routes', () => {
           title: 'Member Book',
           author: 'Member Author'
         })
+        .expect(403);
+
+      expect(response.body.error).toContain('books:write');
+    });
+
+    it('should work with a librarian token', async () => {
+      const librarianToken = generateToken({ userId: 4, username: 'librarian', role: 'librarian' });
+      const response = await request(app)
+        .post('/api/books')
+        .set('Authorization', `Bearer ${librarianToken}`)
+        .send({
+          title: 'Librarian Book',
+          author: 'Librarian Author'
+        })
         .expect(201);
 
-      expect(response.body.title).toBe('Member Book');
+      expect(response.body.title).toBe('Librarian Book');
+    });
+
+    it('should use the permissions carried in the token', async () => {
+      const catalogerToken = generateToken({
+        userId: 5,
+        username: 'cataloger',
+        role: 'cataloger',
+        permissions: ['books:write']
+      });
+      const volunteerToken = generateToken({
+        userId: 6,
+        username: 'volunteer',
+        role: 'volunteer',
+        permissions: ['loans:checkout', 'members:read']
+      });
+
+      await request(app)
+        .post('/api/books')
+        .set('Authorization', `Bearer ${catalogerToken}`)
+        .send({ title: 'Custom Role Book', author: 'Some Author' })
+        .expect(201);
+
+      await request(app)
+        .post('/api/books')
+        .set('Authorization', `Bearer ${volunteerToken}`)
+        .send({ title: 'Volunteer Book', author: 'Some Author' })
+        .expect(403);
     });
   });
 
@@ -483,6 +824,20 @@ describe('Books Routes', () => {
       expect(response.body.title).not.toContain('<img');
       expect(response.body.title).toContain('Sanitized');
     });
+
+    it('should queue a book.updated webhook', async () => {
+      await request(app)
+        .put('/api/books/1')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          title: 'Updated Gatsby',
+          author: 'F. Scott Fitzgerald'
+        })
+        .expect(200);
+
+      const enqueue = mockQuery.mock.calls.find(([text]) => text.includes('INSERT INTO webhook_deliveries'));
+      expect(enqueue![1][0]).toBe('book.updated');
+    });
   });
 
   describe('DELETE /api/books/:id', () => {
@@ -520,11 +875,11 @@ describe('Books Routes', () => {
       expect(response.body.error).toContain('not found');
     });
 
-    it('should allow member to delete books', async () => {
+    it('should not allow members to delete books', async () => {
       await request(app)
         .delete('/api/books/2')
         .set('Authorization', `Bearer ${memberToken}`)
-        .expect(204);
+        .expect(403);
     });
 
     it('should cascade delete book categories', async () => {
@@ -536,6 +891,40 @@ describe('Books Routes', () => {
       // Verify that mockQuery was called (CASCADE handled by database)
       expect(mockQuery).toHaveBeenCalled();
     });
+
+    it('should queue a book.deleted webhook', async () => {
+      await request(app)
+        .delete('/api/books/1')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(204);
+
+      const enqueue = mockQuery.mock.calls.find(([text]) => text.includes('INSERT INTO webhook_deliveries'));
+      expect(enqueue![1]).toEqual(['book.deleted', expect.stringContaining('"id":1'), null]);
+    });
+  });
+
+  describe('POST /api/books/bulk-delete', () => {
+    it('should delete the books and queue a book.deleted webhook for each', async () => {
+      const response = await request(app)
+        .post('/api/books/bulk-delete')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ bookIds: [1, 2, 999] })
+        .expect(200);
+
+      expect(response.body.deletedCount).toBe(2);
+      const events = mockQuery.mock.calls
+        .filter(([text]) => text.includes('INSERT INTO webhook_deliveries'))
+        .map(([, params]) => params[0]);
+      expect(events).toEqual(['book.deleted', 'book.deleted']);
+    });
+
+    it('should not allow members to delete books', async () => {
+      await request(app)
+        .post('/api/books/bulk-delete')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .send({ bookIds: [1] })
+        .expect(403);
+    });
   });
 
   describe('Category Associations', () => {
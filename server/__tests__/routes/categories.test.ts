@@ -155,7 +155,7 @@ describe('Categories Routes', () => {
       expect(response.body.error).toBe('Authentication token required');
     });
 
-    it('should require admin role', async () => {
+    it('should require the books:write permission', async () => {
       const response = await request(app)
         .post('/api/categories')
         .set('Authorization', `Bearer ${memberToken}`)
@@ -164,7 +164,7 @@ describe('Categories Routes', () => {
         })
         .expect(403);
 
-      expect(response.body.error).toContain('Admin');
+      expect(response.body.error).toContain('books:write');
     });
 
     it('should reject missing name', async () => {
@@ -227,7 +227,7 @@ describe('Categories Routes', () => {
       expect(response.body.error).toBe('Authentication token required');
     });
 
-    it('should require admin role', async () => {
+    it('should require the books:write permission', async () => {
       const response = await request(app)
         .put('/api/categories/1')
         .set('Authorization', `Bearer ${memberToken}`)
@@ -236,7 +236,7 @@ describe('Categories Routes', () => {
         })
         .expect(403);
 
-      expect(response.body.error).toContain('Admin');
+      expect(response.body.error).toContain('books:write');
     });
 
     it('should return 404 for nonexistent category', async () => {
@@ -295,13 +295,13 @@ describe('Categories Routes', () => {
       expect(response.body.error).toBe('Authentication token required');
     });
 
-    it('should require admin role', async () => {
+    it('should require the books:write permission', async () => {
       const response = await request(app)
         .delete('/api/categories/1')
         .set('Authorization', `Bearer ${memberToken}`)
         .expect(403);
 
-      expect(response.body.error).toContain('Admin');
+      expect(response.body.error).toContain('books:write');
     });
 
     it('should return 404 for nonexistent category', async () => {
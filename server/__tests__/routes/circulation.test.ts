@@ -0,0 +1,363 @@
+/**
+ * Circulation Desk Routes Integration Tests
+ *
+ * Tests for all circulation desk endpoints including:
+ * - Resolve scanned member cards, copy barcodes and ISBNs
+ * - Check out a batch of scanned items in one transaction
+ * - Check in a batch of scanned items in one transaction
+ */
+
+import request from 'supertest';
+import express from 'express';
+import circulationRoutes from '../../src/routes/circulation';
+import { errorHandler } from '../../src/middleware/errorHandler';
+import { generateToken } from '../../src/utils/authUtils';
+
+// Test data
+const testMembers = [
+  { id: 1, name: 'John Doe', email: 'john@example.com', barcode: 'M0001', member_type: 'standard' },
+  { id: 2, name: 'Jane Smith', email: 'jane@example.com', barcode: 'M0002', member_type: 'standard' },
+];
+
+const testBooks = [
+  { id: 1, title: 'The Great Gatsby', author: 'F. Scott Fitzgerald', isbn: '978-0-7432-7356-5', available: true },
+  { id: 2, title: '1984', author: 'George Orwell', isbn: '9780451524935', available: false },
+];
+
+let testCopies: any[];
+let testLoans: any[];
+
+// Mock database query function
+let queryFn: (text: string, params?: any[]) => Promise<any>;
+
+// Mock the db module
+jest.mock('../../src/db', () => {
+  return {
+    get pool() {
+      return {
+        connect: async () => {
+          const client = {
+            query: (text: string, params?: any[]) => queryFn(text, params),
+            release: () => {},
+          };
+          return client;
+        },
+        query: (text: string, params?: any[]) => queryFn(text, params),
+        end: async () => {},
+      };
+    },
+    query: async (text: string, params?: any[]) => {
+      return queryFn(text, params);
+    },
+  };
+});
+
+// Create a test app instance
+const createTestApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/circulation', circulationRoutes);
+  app.use(errorHandler);
+  return app;
+};
+
+const isbnDigits = (isbn: string) => isbn.replace(/[^0-9Xx]/g, '').toUpperCase();
+
+describe('Circulation Desk Routes', () => {
+  let app: express.Application;
+  let token: string;
+  let mockQuery: jest.Mock;
+
+  beforeAll(() => {
+    token = generateToken({ userId: 1, username: 'admin', role: 'admin' });
+  });
+
+  beforeEach(() => {
+    app = createTestApp();
+
+    testCopies = [
+      { id: 10, book_id: 1, barcode: 'C0010', status: 'available' },
+      { id: 11, book_id: 1, barcode: 'C0011', status: 'available' },
+      { id: 20, book_id: 2, barcode: 'C0020', status: 'on_loan' },
+    ];
+
+    // Jane has copy C0020 of 1984, due in a week
+    testLoans = [
+      {
+        id: 5, book_id: 2, copy_id: 20, member_id: 2,
+        borrow_date: new Date(), due_date: new Date(Date.now() + 7 * 86400000), return_date: null,
+        loan_period_days: 14, max_renewals: 2, grace_days: 0, renewal_count: 0
+      },
+    ];
+
+    mockQuery = jest.fn(async (text: string, params?: any[]) => {
+      // Handle transaction commands
+      if (text === 'BEGIN' || text === 'COMMIT' || text === 'ROLLBACK') {
+        return { rows: [] };
+      }
+
+      // Handle scanned code lookups
+      if (text.includes('FROM members WHERE barcode = $1')) {
+        return { rows: testMembers.filter(m => m.barcode === params![0]) };
+      }
+      if (text.includes('FROM copies WHERE barcode = $1')) {
+        return { rows: testCopies.filter(c => c.barcode === params![0]).map(c => ({ ...c })) };
+      }
+      if (text.includes('regexp_replace(isbn')) {
+        return { rows: testBooks.filter(b => isbnDigits(b.isbn) === isbnDigits(params![0])) };
+      }
+
+      // Handle book and member lookups
+      if (text.includes('SELECT * FROM books WHERE id = $1')) {
+        return { rows: testBooks.filter(b => b.id === params![0]) };
+      }
+      if (text.includes('SELECT * FROM members WHERE id = $1')) {
+        return { rows: testMembers.filter(m => m.id === params![0]) };
+      }
+
+      // Handle active loan count per member
+      if (text.includes('COUNT(*)') && text.includes('WHERE member_id = $1')) {
+        return { rows: [{ count: String(testLoans.filter(l => l.member_id === params![0] && !l.return_date).length) }] };
+      }
+
+      // Handle applicable circulation policies
+      if (text.includes('FROM circulation_policies')) {
+        return {
+          rows: [{ id: 1, category_id: null, member_type: null, loan_period_days: 14, max_active_loans: 5, max_renewals: 2, grace_days: 0 }]
+        };
+      }
+
+      // Handle member account balance
+      if (text.includes('SUM(amount)') && text.includes('FROM member_account_entries')) {
+        return { rows: [{ balance: 0, total: 0 }] };
+      }
+
+      // Nobody has holds in these tests
+      if (text.includes('FROM holds')) {
+        return { rows: text.includes('EXISTS') ? [{ exists: false }] : [] };
+      }
+
+      // Handle picking a free copy
+      if (text.includes('FROM copies') && text.includes('SKIP LOCKED')) {
+        return { rows: testCopies.filter(c => c.book_id === params![0] && c.status === 'available').slice(0, 1).map(c => ({ ...c })) };
+      }
+
+      // Handle copy lookup by ID
+      if (text.includes('FROM copies WHERE id = $1')) {
+        return { rows: testCopies.filter(c => c.id === params![0]).map(c => ({ ...c })) };
+      }
+
+      // Handle copy status changes
+      if (text.includes('UPDATE copies SET status')) {
+        const copy = testCopies.find(c => c.id === params![0]);
+        if (!copy) return { rows: [] };
+        copy.status = params![1];
+        return { rows: [{ ...copy }] };
+      }
+
+      // Handle loan creation
+      if (text.includes('INSERT INTO loans')) {
+        const columns = text.match(/\(([^)]+)\) VALUES/)![1].split(', ');
+        const loan: any = { id: 100 + testLoans.length, return_date: null, renewal_count: 0 };
+        columns.forEach((column, i) => { loan[column] = params![i]; });
+        testLoans.push(loan);
+        return { rows: [{ ...loan }] };
+      }
+
+      // Handle active loan lookups
+      if (text.includes('SELECT * FROM loans WHERE copy_id = $1')) {
+        return { rows: testLoans.filter(l => l.copy_id === params![0] && !l.return_date) };
+      }
+      if (text.includes('SELECT * FROM loans WHERE book_id = $1')) {
+        return { rows: testLoans.filter(l => l.book_id === params![0] && !l.return_date) };
+      }
+
+      // Handle loan return
+      if (text.includes('UPDATE loans SET')) {
+        const loan = testLoans.find(l => l.id === params![0]);
+        if (!loan) return { rows: [] };
+        loan.return_date = params![1];
+        return { rows: [{ ...loan }] };
+      }
+
+      return { rows: [] };
+    });
+
+    queryFn = mockQuery;
+  });
+
+  describe('GET /api/circulation/resolve', () => {
+    it('should resolve a member card', async () => {
+      const response = await request(app)
+        .get('/api/circulation/resolve?code=M0001')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body).toMatchObject({ type: 'member', code: 'M0001', member: { id: 1, name: 'John Doe' } });
+    });
+
+    it('should resolve a copy barcode to the copy and its book', async () => {
+      const response = await request(app)
+        .get('/api/circulation/resolve?code=C0020')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body).toMatchObject({ type: 'copy', copy: { id: 20, status: 'on_loan' }, book: { title: '1984' } });
+    });
+
+    it('should resolve an ISBN scanned without hyphens', async () => {
+      const response = await request(app)
+        .get('/api/circulation/resolve?code=9780743273565')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body).toMatchObject({ type: 'book', book: { id: 1 } });
+    });
+
+    it('should return 404 for an unknown code', async () => {
+      const response = await request(app)
+        .get('/api/circulation/resolve?code=XYZ')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(404);
+
+      expect(response.body.error).toContain('No member, copy or book');
+    });
+
+    it('should return 400 without a code', async () => {
+      await request(app)
+        .get('/api/circulation/resolve')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(400);
+    });
+
+    it('should require authentication', async () => {
+      await request(app)
+        .get('/api/circulation/resolve?code=M0001')
+        .expect(401);
+    });
+
+    it('should require the loans:checkout permission', async () => {
+      await request(app)
+        .get('/api/circulation/resolve?code=M0001')
+        .set('Authorization', `Bearer ${generateToken({ userId: 2, username: 'patron', role: 'patron', memberId: 1 })}`)
+        .expect(403);
+    });
+
+    it('should allow volunteers at the desk', async () => {
+      await request(app)
+        .get('/api/circulation/resolve?code=M0001')
+        .set('Authorization', `Bearer ${generateToken({ userId: 3, username: 'volunteer', role: 'volunteer' })}`)
+        .expect(200);
+    });
+  });
+
+  describe('POST /api/circulation/checkout', () => {
+    it('should check out several scanned items to the member', async () => {
+      const response = await request(app)
+        .post('/api/circulation/checkout')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ member_code: 'M0001', codes: ['C0010', '978-0743273565'] })
+        .expect(201);
+
+      expect(response.body.message).toBe('2 items checked out');
+      expect(response.body.items).toHaveLength(2);
+      expect(response.body.items[0]).toMatchObject({ code: 'C0010', book_title: 'The Great Gatsby', copy_barcode: 'C0010' });
+      expect(response.body.items[1]).toMatchObject({ code: '978-0743273565', copy_barcode: 'C0011' });
+      expect(testLoans.filter(l => l.member_id === 1)).toHaveLength(2);
+      expect(testCopies.filter(c => c.book_id === 1).every(c => c.status === 'on_loan')).toBe(true);
+      expect(mockQuery).toHaveBeenCalledWith('COMMIT', undefined);
+    });
+
+    it('should roll back the whole batch when one item fails', async () => {
+      const response = await request(app)
+        .post('/api/circulation/checkout')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ member_code: 'M0001', codes: ['C0010', 'C0020'] })
+        .expect(409);
+
+      expect(response.body.error).toBe('C0020: Copy is not available');
+      expect(mockQuery).toHaveBeenCalledWith('ROLLBACK', undefined);
+      expect(mockQuery).not.toHaveBeenCalledWith('COMMIT', undefined);
+    });
+
+    it('should return 404 for an unknown member card', async () => {
+      const response = await request(app)
+        .post('/api/circulation/checkout')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ member_code: 'M9999', codes: ['C0010'] })
+        .expect(404);
+
+      expect(response.body.error).toContain('M9999');
+    });
+
+    it('should reject a member card scanned as an item', async () => {
+      const response = await request(app)
+        .post('/api/circulation/checkout')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ member_code: 'M0001', codes: ['M0002'] })
+        .expect(400);
+
+      expect(response.body.error).toBe('M0002: This is a member card, not an item');
+    });
+
+    it('should reject a batch that scans the same item twice', async () => {
+      await request(app)
+        .post('/api/circulation/checkout')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ member_code: 'M0001', codes: ['C0010', ' C0010 '] })
+        .expect(400);
+    });
+
+    it('should require a member card', async () => {
+      await request(app)
+        .post('/api/circulation/checkout')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ codes: ['C0010'] })
+        .expect(400);
+    });
+
+    it('should require at least one item', async () => {
+      await request(app)
+        .post('/api/circulation/checkout')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ member_code: 'M0001', codes: [] })
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/circulation/checkin', () => {
+    it('should return a scanned copy', async () => {
+      const response = await request(app)
+        .post('/api/circulation/checkin')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ codes: ['C0020'] })
+        .expect(200);
+
+      expect(response.body.message).toBe('1 item returned');
+      expect(response.body.items[0]).toMatchObject({ code: 'C0020', book_title: '1984', member_name: 'Jane Smith', fine: 0, hold: null });
+      expect(testLoans[0].return_date).not.toBeNull();
+      expect(testCopies.find(c => c.id === 20).status).toBe('available');
+    });
+
+    it('should return a book scanned by ISBN', async () => {
+      const response = await request(app)
+        .post('/api/circulation/checkin')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ codes: ['9780451524935'] })
+        .expect(200);
+
+      expect(response.body.items[0].loan.id).toBe(5);
+    });
+
+    it('should name the code of an item that is not on loan', async () => {
+      const response = await request(app)
+        .post('/api/circulation/checkin')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ codes: ['C0020', 'C0010'] })
+        .expect(404);
+
+      expect(response.body.error).toBe('C0010: No active loan found for this copy');
+      expect(mockQuery).toHaveBeenCalledWith('ROLLBACK', undefined);
+    });
+  });
+});
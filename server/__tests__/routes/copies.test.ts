@@ -0,0 +1,463 @@
+/**
+ * Copies Routes Integration Tests
+ *
+ * Tests for all copies endpoints including:
+ * - List the copies of a book (borrowers shown to staff and to the borrower only)
+ * - Add copies (straight to the hold shelf when members are waiting)
+ * - Update copy details and take copies out of circulation
+ * - Copy condition history (staff only)
+ * - Delete copies without loan history
+ */
+
+import request from 'supertest';
+import express from 'express';
+import copiesRoutes from '../../src/routes/copies';
+import { errorHandler } from '../../src/middleware/errorHandler';
+import { generateToken } from '../../src/utils/authUtils';
+
+// Test data
+const testBooks = [
+  { id: 1, title: 'The Great Gatsby', available: true },
+  { id: 2, title: '1984', available: false },
+];
+
+let testCopies: any[];
+let testHolds: any[];
+let testHistory: any[];
+
+// Copies that have been lent out at least once
+const copiesWithLoans = [10, 20];
+
+// Mock database query function
+let queryFn: (text: string, params?: any[]) => Promise<any>;
+
+// Mock the db module
+jest.mock('../../src/db', () => {
+  return {
+    get pool() {
+      return {
+        connect: async () => {
+          const client = {
+            query: (text: string, params?: any[]) => queryFn(text, params),
+            release: () => {},
+          };
+          return client;
+        },
+        query: (text: string, params?: any[]) => queryFn(text, params),
+        end: async () => {},
+      };
+    },
+    query: async (text: string, params?: any[]) => {
+      return queryFn(text, params);
+    },
+  };
+});
+
+// Create a test app instance
+const createTestApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/copies', copiesRoutes);
+  app.use(errorHandler);
+  return app;
+};
+
+describe('Copies Routes', () => {
+  let app: express.Application;
+  let token: string;
+  let patronToken: string;
+  let mockQuery: jest.Mock;
+
+  beforeAll(() => {
+    token = generateToken({ userId: 1, username: 'admin', role: 'admin' });
+    patronToken = generateToken({ userId: 5, username: 'patron', role: 'patron', memberId: 4 });
+  });
+
+  beforeEach(() => {
+    app = createTestApp();
+
+    testCopies = [
+      { id: 10, book_id: 1, barcode: 'C0010', status: 'available', condition: 'good', location: 'Shelf A', acquisition_date: null, price: null },
+      { id: 11, book_id: 1, barcode: 'C0011', status: 'unavailable', condition: 'fair', location: null, acquisition_date: null, price: null },
+      { id: 20, book_id: 2, barcode: 'C0020', status: 'on_loan', condition: 'good', location: null, acquisition_date: null, price: 12.5 },
+    ];
+
+    // Member 4 is waiting for book 2
+    testHolds = [
+      { id: 1, book_id: 2, member_id: 4, copy_id: null, status: 'waiting', created_at: new Date('2024-01-05') },
+    ];
+
+    testHistory = [];
+
+    mockQuery = jest.fn(async (text: string, params?: any[]) => {
+      // Handle transaction commands
+      if (text === 'BEGIN' || text === 'COMMIT' || text === 'ROLLBACK') {
+        return { rows: [] };
+      }
+
+      // Handle book lookups
+      if (text.includes('FROM books WHERE id = $1')) {
+        const book = testBooks.find(b => b.id === params![0]);
+        return { rows: book ? [book] : [] };
+      }
+
+      // Handle copies of a book with borrower details
+      if (text.includes('FROM copies c') && text.includes('WHERE c.book_id = $1')) {
+        return {
+          rows: testCopies
+            .filter(c => c.book_id === params![0])
+            .map(c => c.status === 'on_loan'
+              ? { ...c, member_id: 3, member_name: 'John Doe', due_date: '2024-02-01T00:00:00.000Z' }
+              : { ...c, member_id: null, member_name: null, due_date: null })
+        };
+      }
+
+      // Handle copy deletion
+      if (text.includes('DELETE FROM copies')) {
+        testCopies = testCopies.filter(c => c.id !== params![0]);
+        return { rows: [], rowCount: 1 };
+      }
+
+      // Handle copy lookup by ID
+      if (text.includes('FROM copies WHERE id = $1')) {
+        return { rows: testCopies.filter(c => c.id === params![0]).map(c => ({ ...c })) };
+      }
+
+      // Handle loan history check
+      if (text.includes('FROM loans WHERE copy_id = $1')) {
+        return { rows: [{ exists: copiesWithLoans.includes(params![0]) }] };
+      }
+
+      // Handle copy creation
+      if (text.includes('INSERT INTO copies')) {
+        const columns = text.match(/\(([^)]+)\) VALUES/)![1].split(', ');
+        const copy: any = { id: 30, barcode: null, condition: 'good', location: null, acquisition_date: null, price: null };
+        columns.forEach((column, i) => { copy[column] = params![i]; });
+        testCopies.push(copy);
+        return { rows: [{ ...copy }] };
+      }
+
+      // Handle copy status changes
+      if (text.includes('UPDATE copies SET status')) {
+        const copy = testCopies.find(c => c.id === params![0]);
+        if (!copy) return { rows: [] };
+        copy.status = params![1];
+        return { rows: [{ ...copy }] };
+      }
+
+      // Handle copy detail updates
+      if (text.includes('UPDATE copies SET')) {
+        const copy = testCopies.find(c => c.id === params![0]);
+        if (!copy) return { rows: [] };
+        const fields = [...text.matchAll(/(\w+) = \$(\d+)/g)].filter(([, field]) => field !== 'id');
+        fields.forEach(([, field, index]) => { copy[field] = params![parseInt(index, 10) - 1]; });
+        return { rows: [{ ...copy }] };
+      }
+
+      // Handle condition history
+      if (text.includes('INSERT INTO copy_condition_history')) {
+        const [copy_id, loan_id, condition, note, recorded_by] = params!;
+        const entry = { id: testHistory.length + 1, copy_id, loan_id, condition, note, recorded_by, created_at: new Date() };
+        testHistory.push(entry);
+        return { rows: [entry] };
+      }
+
+      if (text.includes('FROM copy_condition_history')) {
+        return {
+          rows: testHistory
+            .filter(h => h.copy_id === params![0])
+            .map(h => ({ ...h, recorded_by_username: 'admin' }))
+            .reverse()
+        };
+      }
+
+      // Handle next waiting hold lookup
+      if (text.includes('FROM holds') && text.includes("status = 'waiting'")) {
+        return { rows: testHolds.filter(h => h.book_id === params![0] && h.status === 'waiting').slice(0, 1) };
+      }
+
+      // Handle moving a hold to the hold shelf
+      if (text.includes('UPDATE holds')) {
+        const hold = testHolds.find(h => h.id === params![0]);
+        if (!hold) return { rows: [] };
+        hold.status = 'ready';
+        hold.copy_id = params![1];
+        return { rows: [hold] };
+      }
+
+      return { rows: [] };
+    });
+
+    queryFn = mockQuery;
+  });
+
+  describe('GET /api/copies/book/:bookId', () => {
+    it('should list the copies of a book', async () => {
+      const response = await request(app)
+        .get('/api/copies/book/1')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body).toHaveLength(2);
+      expect(response.body[0]).toMatchObject({ barcode: 'C0010', status: 'available' });
+    });
+
+    it('should show staff who has a copy out', async () => {
+      const response = await request(app)
+        .get('/api/copies/book/2')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body[0]).toMatchObject({ member_id: 3, member_name: 'John Doe', due_date: '2024-02-01T00:00:00.000Z' });
+    });
+
+    it('should hide another member\'s loan from a patron', async () => {
+      const response = await request(app)
+        .get('/api/copies/book/2')
+        .set('Authorization', `Bearer ${patronToken}`)
+        .expect(200);
+
+      expect(response.body[0]).toMatchObject({ barcode: 'C0020', status: 'on_loan', member_id: null, member_name: null, due_date: null });
+      expect(JSON.stringify(response.body)).not.toContain('John Doe');
+    });
+
+    it('should show a patron their own loan', async () => {
+      const borrowerToken = generateToken({ userId: 6, username: 'john', role: 'patron', memberId: 3 });
+      const response = await request(app)
+        .get('/api/copies/book/2')
+        .set('Authorization', `Bearer ${borrowerToken}`)
+        .expect(200);
+
+      expect(response.body[0]).toMatchObject({ member_id: 3, member_name: 'John Doe' });
+    });
+
+    it('should return 404 for nonexistent book', async () => {
+      await request(app)
+        .get('/api/copies/book/999')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(404);
+    });
+
+    it('should require authentication', async () => {
+      await request(app)
+        .get('/api/copies/book/1')
+        .expect(401);
+    });
+  });
+
+  describe('POST /api/copies', () => {
+    it('should add an available copy', async () => {
+      const response = await request(app)
+        .post('/api/copies')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ book_id: 1, barcode: 'C0012', condition: 'new', acquisition_date: '2024-03-01', price: 18.99 })
+        .expect(201);
+
+      expect(response.body).toMatchObject({ book_id: 1, barcode: 'C0012', condition: 'new', price: 18.99, status: 'available' });
+      expect(testCopies.find(c => c.id === 30).status).toBe('available');
+    });
+
+    it('should put a new copy on the hold shelf when members are waiting', async () => {
+      const response = await request(app)
+        .post('/api/copies')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ book_id: 2 })
+        .expect(201);
+
+      expect(response.body.status).toBe('on_hold_shelf');
+      expect(testHolds[0]).toMatchObject({ status: 'ready', copy_id: 30 });
+    });
+
+    it('should return 404 for nonexistent book', async () => {
+      await request(app)
+        .post('/api/copies')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ book_id: 999 })
+        .expect(404);
+    });
+
+    it('should reject an unknown condition', async () => {
+      const response = await request(app)
+        .post('/api/copies')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ book_id: 1, condition: 'mint' })
+        .expect(400);
+
+      expect(response.body.error).toContain('Condition must be one of');
+    });
+
+    it('should reject an invalid acquisition date', async () => {
+      const response = await request(app)
+        .post('/api/copies')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ book_id: 1, acquisition_date: '2024-02-30' })
+        .expect(400);
+
+      expect(response.body.error).toContain('acquisition_date');
+    });
+
+    it('should reject a negative price', async () => {
+      await request(app)
+        .post('/api/copies')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ book_id: 1, price: -1 })
+        .expect(400);
+    });
+  });
+
+  describe('PUT /api/copies/:id', () => {
+    it('should update copy details', async () => {
+      const response = await request(app)
+        .put('/api/copies/10')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ location: 'Shelf B', condition: 'fair' })
+        .expect(200);
+
+      expect(response.body).toMatchObject({ location: 'Shelf B', condition: 'fair', status: 'available' });
+    });
+
+    it('should take a copy out of circulation', async () => {
+      const response = await request(app)
+        .put('/api/copies/10')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ status: 'unavailable' })
+        .expect(200);
+
+      expect(response.body.status).toBe('unavailable');
+    });
+
+    it('should withdraw a copy', async () => {
+      const response = await request(app)
+        .put('/api/copies/10')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ status: 'withdrawn' })
+        .expect(200);
+
+      expect(response.body.status).toBe('withdrawn');
+    });
+
+    it('should record a change of condition in the history', async () => {
+      await request(app)
+        .put('/api/copies/10')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ condition: 'damaged' })
+        .expect(200);
+
+      expect(testHistory).toEqual([
+        expect.objectContaining({ copy_id: 10, loan_id: null, condition: 'damaged', recorded_by: 1 })
+      ]);
+    });
+
+    it('should not record history when the condition is unchanged', async () => {
+      await request(app)
+        .put('/api/copies/10')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ condition: 'good', location: 'Shelf C' })
+        .expect(200);
+
+      expect(testHistory).toHaveLength(0);
+    });
+
+    it('should put a copy back into circulation', async () => {
+      const response = await request(app)
+        .put('/api/copies/11')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ status: 'available' })
+        .expect(200);
+
+      expect(response.body.status).toBe('available');
+    });
+
+    it('should return 409 when changing the status of a copy on loan', async () => {
+      const response = await request(app)
+        .put('/api/copies/20')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ status: 'unavailable' })
+        .expect(409);
+
+      expect(response.body.error).toContain('follows circulation');
+    });
+
+    it('should reject a circulation status', async () => {
+      await request(app)
+        .put('/api/copies/10')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ status: 'on_loan' })
+        .expect(400);
+    });
+
+    it('should return 404 for nonexistent copy', async () => {
+      await request(app)
+        .put('/api/copies/999')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ location: 'Shelf B' })
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/copies/:id/history', () => {
+    it('should list condition changes newest first', async () => {
+      testHistory.push(
+        { id: 1, copy_id: 10, loan_id: null, condition: 'fair', note: null, recorded_by: 1, created_at: new Date('2024-01-01') },
+        { id: 2, copy_id: 10, loan_id: 5, condition: 'damaged', note: 'Torn cover', recorded_by: 1, created_at: new Date('2024-02-01') },
+        { id: 3, copy_id: 11, loan_id: null, condition: 'poor', note: null, recorded_by: 1, created_at: new Date('2024-02-01') }
+      );
+
+      const response = await request(app)
+        .get('/api/copies/10/history')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body.map((entry: any) => entry.condition)).toEqual(['damaged', 'fair']);
+      expect(response.body[0]).toMatchObject({ loan_id: 5, note: 'Torn cover', recorded_by_username: 'admin' });
+    });
+
+    it('should require the loans:checkout permission', async () => {
+      await request(app)
+        .get('/api/copies/10/history')
+        .set('Authorization', `Bearer ${patronToken}`)
+        .expect(403);
+    });
+
+    it('should return 404 for nonexistent copy', async () => {
+      await request(app)
+        .get('/api/copies/999/history')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(404);
+    });
+  });
+
+  describe('DELETE /api/copies/:id', () => {
+    it('should delete a copy that was never lent out', async () => {
+      await request(app)
+        .delete('/api/copies/11')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(204);
+
+      expect(testCopies.find(c => c.id === 11)).toBeUndefined();
+    });
+
+    it('should return 409 for a copy with loan history', async () => {
+      const response = await request(app)
+        .delete('/api/copies/10')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(409);
+
+      expect(response.body.error).toContain('loan history');
+    });
+
+    it('should return 409 for a copy on loan', async () => {
+      await request(app)
+        .delete('/api/copies/20')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(409);
+    });
+
+    it('should return 404 for nonexistent copy', async () => {
+      await request(app)
+        .delete('/api/copies/999')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(404);
+    });
+  });
+});
@@ -2,7 +2,8 @@
  * Export Routes Integration Tests
  *
  * Tests for CSV export endpoints:
- * - Export books with date filtering
+ * - Export books with date filtering, as CSV, MARC 21 or MARCXML
+ * - Export the books a saved search finds
  * - Export members with date filtering
  * - Export loans with status and date filtering
  */
@@ -12,6 +13,7 @@ import express from 'express';
 import exportRoutes from '../../src/routes/export';
 import { errorHandler } from '../../src/middleware/errorHandler';
 import { generateToken } from '../../src/utils/authUtils';
+import { readMarc21, readMarcXml } from '../../src/utils/marc';
 
 // Test data
 const testBooks = [
@@ -37,6 +39,11 @@ const testBooks = [
   },
 ];
 
+const testSavedSearches = [
+  { id: 1, user_id: 1, name: 'Orwell', search: 'author:orwell', filters: {}, collection: true, shared: false },
+  { id: 2, user_id: 3, name: 'Private', search: 'author:huxley', filters: {}, collection: true, shared: false },
+];
+
 const testMembers = [
   {
     id: 1,
@@ -65,7 +72,8 @@ const testLoans = [
     borrow_date: new Date('2024-01-01'),
     due_date: new Date('2024-01-15'),
     return_date: null,
-    status: 'active'
+    status: 'active',
+    outcome: null
   },
   {
     id: 2,
@@ -77,7 +85,21 @@ const testLoans = [
     borrow_date: new Date('2024-01-05'),
     due_date: new Date('2024-01-19'),
     return_date: new Date('2024-01-18'),
-    status: 'returned'
+    status: 'returned',
+    outcome: 'returned'
+  },
+  {
+    id: 3,
+    book_title: 'Brave New World',
+    book_author: 'Aldous Huxley',
+    book_isbn: '9780060850524',
+    member_name: 'Jane Smith',
+    member_email: 'jane@example.com',
+    borrow_date: new Date('2024-01-06'),
+    due_date: new Date('2024-01-20'),
+    return_date: new Date('2024-02-01'),
+    status: 'returned',
+    outcome: 'lost'
   },
 ];
 
@@ -90,6 +112,11 @@ jest.mock('../../src/db', () => {
     query: async (text: string, params?: any[]) => {
       return queryFn(text, params);
     },
+    pool: {
+      query: async (text: string, params?: any[]) => {
+        return queryFn(text, params);
+      },
+    },
   };
 });
 
@@ -111,6 +138,12 @@ describe('Export Routes', () => {
   beforeAll(async () => {
     // Create mock query function
     mockQuery = jest.fn(async (text: string, params?: any[]) => {
+      // Handle looking up a saved search the user can see
+      if (text.includes('FROM saved_searches s')) {
+        const [userId, id] = params!;
+        return { rows: testSavedSearches.filter(s => s.id === id && (s.user_id === userId || s.shared)) };
+      }
+
       // Handle books export query
       if (text.includes('FROM books b') && text.includes('LEFT JOIN book_categories')) {
         let books = [...testBooks];
@@ -132,6 +165,12 @@ describe('Export Routes', () => {
           }
         }
 
+        // Apply a saved search's author: field, its last parameter
+        if (text.includes('b.author ILIKE') && params) {
+          const author = String(params[params.length - 1]).replace(/%/g, '').toLowerCase();
+          books = books.filter(b => b.author.toLowerCase().includes(author));
+        }
+
         return { rows: books };
       }
 
@@ -189,6 +228,11 @@ describe('Export Routes', () => {
           if (text.includes('l.borrow_date <=')) {
             const endDate = new Date(params[paramIndex]);
             loans = loans.filter(l => l.borrow_date <= endDate);
+            paramIndex++;
+          }
+
+          if (text.includes('l.outcome = $')) {
+            loans = loans.filter(l => l.outcome === params[paramIndex]);
           }
         }
 
@@ -235,13 +279,13 @@ describe('Export Routes', () => {
       expect(response.body.error).toBe('Authentication token required');
     });
 
-    it('should require admin role', async () => {
+    it('should require the export:run permission', async () => {
       const response = await request(app)
         .get('/api/export/books')
         .set('Authorization', `Bearer ${memberToken}`)
         .expect(403);
 
-      expect(response.body.error).toContain('Admin');
+      expect(response.body.error).toContain('export:run');
     });
 
     it('should filter by start date', async () => {
@@ -295,6 +339,73 @@ describe('Export Routes', () => {
       const lines = response.text.split('\n');
       expect(lines.length).toBeGreaterThan(2);
     });
+    it('should export books as MARC 21 records', async () => {
+      const response = await request(app)
+        .get('/api/export/books?format=marc21')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .responseType('blob')
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('application/marc');
+      expect(response.headers['content-disposition']).toContain('books_export.mrc');
+      const records = readMarc21(response.body);
+      expect(records).toHaveLength(2);
+      expect(records[0].record!.fields).toEqual([
+        { tag: '001', value: '1' },
+        { tag: '008', value: '240101' + '|'.repeat(34) },
+        { tag: '020', ind1: ' ', ind2: ' ', subfields: [{ code: 'a', value: '9780743273565' }] },
+        { tag: '100', ind1: '0', ind2: ' ', subfields: [{ code: 'a', value: 'F. Scott Fitzgerald' }] },
+        { tag: '245', ind1: '1', ind2: '0', subfields: [{ code: 'a', value: 'The Great Gatsby' }] },
+        { tag: '650', ind1: ' ', ind2: '4', subfields: [{ code: 'a', value: 'Fiction' }] },
+        { tag: '650', ind1: ' ', ind2: '4', subfields: [{ code: 'a', value: 'Classic' }] },
+      ]);
+    });
+
+    it('should export books as MARCXML with the same filters', async () => {
+      const response = await request(app)
+        .get('/api/export/books?format=marcxml&startDate=2024-01-10')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('application/marcxml+xml; charset=utf-8');
+      expect(response.headers['content-disposition']).toContain('books_export.xml');
+      const records = readMarcXml(response.text);
+      expect(records).toHaveLength(1);
+      expect(records[0].record!.fields).toContainEqual(
+        { tag: '245', ind1: '1', ind2: '0', subfields: [{ code: 'a', value: '1984' }] }
+      );
+    });
+
+    it('should reject an unknown format', async () => {
+      const response = await request(app)
+        .get('/api/export/books?format=pdf')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+
+      expect(response.body.error).toBe('Format must be one of: csv, marc21, marcxml');
+    });
+
+    it('should export the books a saved search finds', async () => {
+      const response = await request(app)
+        .get('/api/export/books?savedSearchId=1')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.text).toContain('1984');
+      expect(response.text).not.toContain('The Great Gatsby');
+      const exportQuery = mockQuery.mock.calls.find(([text]) => text.includes('LEFT JOIN book_categories'));
+      expect(exportQuery[0]).toContain('b.author ILIKE $1');
+      expect(exportQuery[1]).toEqual(['%orwell%']);
+    });
+
+    it('should not export with another user\'s private saved search', async () => {
+      const response = await request(app)
+        .get('/api/export/books?savedSearchId=2')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+
+      expect(response.body.error).toBe('Saved search not found');
+    });
   });
 
   describe('GET /api/export/members', () => {
@@ -307,7 +418,7 @@ describe('Export Routes', () => {
       expect(response.headers['content-type']).toBe('text/csv; charset=utf-8');
       expect(response.headers['content-disposition']).toContain('attachment');
       expect(response.headers['content-disposition']).toContain('members_export.csv');
-      expect(response.text).toContain('id,name,email,phone,created_at');
+      expect(response.text).toContain('id,name,email,phone,created_at,member_type,outstanding_balance');
       expect(response.text).toContain('John Doe');
       expect(response.text).toContain('jane@example.com');
     });
@@ -320,13 +431,13 @@ describe('Export Routes', () => {
       expect(response.body.error).toBe('Authentication token required');
     });
 
-    it('should require admin role', async () => {
+    it('should require the export:run permission', async () => {
       const response = await request(app)
         .get('/api/export/members')
         .set('Authorization', `Bearer ${memberToken}`)
         .expect(403);
 
-      expect(response.body.error).toContain('Admin');
+      expect(response.body.error).toContain('export:run');
     });
 
     it('should filter by start date', async () => {
@@ -394,13 +505,13 @@ describe('Export Routes', () => {
       expect(response.body.error).toBe('Authentication token required');
     });
 
-    it('should require admin role', async () => {
+    it('should require the export:run permission', async () => {
       const response = await request(app)
         .get('/api/export/loans')
         .set('Authorization', `Bearer ${memberToken}`)
         .expect(403);
 
-      expect(response.body.error).toContain('Admin');
+      expect(response.body.error).toContain('export:run');
     });
 
     it('should filter by start date', async () => {
@@ -453,6 +564,24 @@ describe('Export Routes', () => {
       expect(response.text).not.toContain('The Great Gatsby');
     });
 
+    it('should filter by outcome and include the outcome columns', async () => {
+      const response = await request(app)
+        .get('/api/export/loans?outcome=lost')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.text).toContain('status,copy_barcode,outcome,outcome_note');
+      expect(response.text).toContain('Brave New World');
+      expect(response.text).not.toContain('1984');
+    });
+
+    it('should reject an unknown outcome', async () => {
+      await request(app)
+        .get('/api/export/loans?outcome=stolen')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+    });
+
     it('should filter by overdue status', async () => {
       const response = await request(app)
         .get('/api/export/loans?status=overdue')
@@ -0,0 +1,417 @@
+/**
+ * Holds Routes Integration Tests
+ *
+ * Tests for all holds endpoints including:
+ * - List holds with filters
+ * - Get the hold queue for a book
+ * - Place holds (with queue validation)
+ * - Cancel holds (passing the hold shelf to the next member)
+ */
+
+import request from 'supertest';
+import express from 'express';
+import holdsRoutes from '../../src/routes/holds';
+import { errorHandler } from '../../src/middleware/errorHandler';
+import { generateToken } from '../../src/utils/authUtils';
+
+// Test data
+const testBooks = [
+  { id: 1, title: 'The Great Gatsby', available: false },
+  { id: 2, title: '1984', available: true },
+];
+
+const testMembers = [
+  { id: 1, name: 'John Doe' },
+  { id: 2, name: 'Jane Smith' },
+  { id: 3, name: 'Bob Wilson' },
+];
+
+// Book 1's only copy is on loan to member 1; book 2 has a copy on the shelf
+const testCopies = [
+  { id: 10, book_id: 1, status: 'on_loan' },
+  { id: 20, book_id: 2, status: 'available' },
+];
+
+const testActiveLoans = [
+  { id: 1, book_id: 1, copy_id: 10, member_id: 1, return_date: null },
+];
+
+let testHolds: any[];
+
+// Mock database query function
+let queryFn: (text: string, params?: any[]) => Promise<any>;
+
+// Mock the db module
+jest.mock('../../src/db', () => {
+  return {
+    get pool() {
+      return {
+        connect: async () => {
+          const client = {
+            query: (text: string, params?: any[]) => queryFn(text, params),
+            release: () => {},
+          };
+          return client;
+        },
+        query: (text: string, params?: any[]) => queryFn(text, params),
+        end: async () => {},
+      };
+    },
+    query: async (text: string, params?: any[]) => {
+      return queryFn(text, params);
+    },
+  };
+});
+
+// Create a test app instance
+const createTestApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/holds', holdsRoutes);
+  app.use(errorHandler);
+  return app;
+};
+
+const withDetails = (hold: any, index: number) => ({
+  ...hold,
+  book_title: testBooks.find(b => b.id === hold.book_id)?.title,
+  member_name: testMembers.find(m => m.id === hold.member_id)?.name,
+  queue_position: index + 1,
+});
+
+describe('Holds Routes', () => {
+  let app: express.Application;
+  let adminToken: string;
+  let memberToken: string;
+  let mockQuery: jest.Mock;
+
+  beforeAll(() => {
+    adminToken = generateToken({ userId: 1, username: 'admin', role: 'admin' });
+    memberToken = generateToken({ userId: 2, username: 'member', role: 'member', memberId: 2 });
+  });
+
+  beforeEach(() => {
+    app = createTestApp();
+
+    // Member 2 is waiting for book 1
+    testHolds = [
+      { id: 1, book_id: 1, member_id: 2, status: 'waiting', created_at: new Date('2024-01-05') },
+    ];
+
+    mockQuery = jest.fn(async (text: string, params?: any[]) => {
+      // Handle transaction commands
+      if (text === 'BEGIN' || text === 'COMMIT' || text === 'ROLLBACK') {
+        return { rows: [] };
+      }
+
+      // Handle book lookups
+      if (text.includes('FROM books WHERE id = $1')) {
+        const book = testBooks.find(b => b.id === params![0]);
+        return { rows: book ? [book] : [] };
+      }
+
+      // Handle member lookups
+      if (text.includes('FROM members WHERE id = $1')) {
+        const member = testMembers.find(m => m.id === params![0]);
+        return { rows: member ? [member] : [] };
+      }
+
+      // Handle a member's active loan lookup
+      if (text.includes('FROM loans WHERE book_id = $1 AND member_id = $2')) {
+        return { rows: testActiveLoans.filter(l => l.book_id === params![0] && l.member_id === params![1]) };
+      }
+
+      // Handle available copy lookups
+      if (text.includes('FROM copies WHERE book_id = $1') && text.includes("status = 'available'")) {
+        return { rows: [{ exists: testCopies.some(c => c.book_id === params![0] && c.status === 'available') }] };
+      }
+
+      // Handle copy status changes
+      if (text.includes('UPDATE copies SET status')) {
+        return { rows: [{ id: params![0], status: params![1] }] };
+      }
+
+      // Handle paginated hold search
+      if (text.includes('COUNT(*)::integer as count FROM holds')) {
+        return { rows: [{ count: String(testHolds.length) }] };
+      }
+      if (text.includes('FROM holds h') && text.includes('ORDER BY h.created_at DESC')) {
+        return { rows: testHolds.map(withDetails) };
+      }
+
+      // Handle queue lookups
+      if (text.includes('FROM holds h') && text.includes('WHERE h.book_id = $1')) {
+        const queue = testHolds
+          .filter(h => h.book_id === params![0] && ['waiting', 'ready'].includes(h.status))
+          .sort((a, b) => (a.status === 'ready' ? -1 : 0) - (b.status === 'ready' ? -1 : 0));
+        return { rows: queue.map(withDetails) };
+      }
+
+      // Handle a member's hold shelf lookup
+      if (text.includes('FROM holds') && text.includes('member_id = $2') && text.includes("status = 'ready'")) {
+        return { rows: testHolds.filter(h => h.book_id === params![0] && h.member_id === params![1] && h.status === 'ready') };
+      }
+
+      // Handle a member's active hold lookup
+      if (text.includes('FROM holds') && text.includes('member_id = $2')) {
+        return {
+          rows: testHolds.filter(h =>
+            h.book_id === params![0] && h.member_id === params![1] && ['waiting', 'ready'].includes(h.status)
+          )
+        };
+      }
+
+      // Handle ready hold lookup
+      if (text.includes('FROM holds') && text.includes("status = 'ready'") && text.includes('book_id = $1')) {
+        return { rows: testHolds.filter(h => h.book_id === params![0] && h.status === 'ready') };
+      }
+
+      // Handle next waiting hold lookup
+      if (text.includes('FROM holds') && text.includes("status = 'waiting'")) {
+        return { rows: testHolds.filter(h => h.book_id === params![0] && h.status === 'waiting').slice(0, 1) };
+      }
+
+      // Handle hold lookup by ID
+      if (text.includes('FROM holds WHERE id = $1')) {
+        return { rows: testHolds.filter(h => h.id === params![0]).map(h => ({ ...h })) };
+      }
+
+      // Handle hold creation
+      if (text.includes('INSERT INTO holds')) {
+        const hold = { id: testHolds.length + 1, book_id: params![0], member_id: params![1], status: params![2], created_at: new Date() };
+        testHolds.push(hold);
+        return { rows: [hold] };
+      }
+
+      // Handle hold status updates
+      if (text.includes('UPDATE holds')) {
+        const hold = testHolds.find(h => h.id === params![0]);
+        if (!hold) return { rows: [] };
+        if (text.includes("status = 'ready'")) {
+          hold.status = 'ready';
+          hold.copy_id = params![1];
+        } else {
+          hold.status = params![1];
+        }
+        return { rows: [hold] };
+      }
+
+      return { rows: [] };
+    });
+
+    queryFn = mockQuery;
+  });
+
+  describe('GET /api/holds', () => {
+    it('should list holds with pagination', async () => {
+      const response = await request(app)
+        .get('/api/holds')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0]).toMatchObject({ book_title: 'The Great Gatsby', member_name: 'Jane Smith' });
+      expect(response.body.pagination).toMatchObject({ page: 1, total: 1 });
+    });
+
+    it('should require authentication', async () => {
+      await request(app)
+        .get('/api/holds')
+        .expect(401);
+    });
+
+    it('should reject an invalid status filter', async () => {
+      const response = await request(app)
+        .get('/api/holds?status=bogus')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+
+      expect(response.body.error).toContain('Status must be one of');
+    });
+  });
+
+  describe('GET /api/holds/book/:bookId', () => {
+    it('should return the queue for a book', async () => {
+      const response = await request(app)
+        .get('/api/holds/book/1')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(200);
+
+      expect(response.body.book_id).toBe(1);
+      expect(response.body.on_hold_shelf).toBe(false);
+      expect(response.body.queue).toHaveLength(1);
+      expect(response.body.queue[0].queue_position).toBe(1);
+    });
+
+    it('should return 404 for nonexistent book', async () => {
+      await request(app)
+        .get('/api/holds/book/999')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('patron access', () => {
+    beforeEach(() => {
+      // Member 3 is also waiting for book 1
+      testHolds.push({ id: 2, book_id: 1, member_id: 3, status: 'waiting', created_at: new Date('2024-01-06') });
+    });
+
+    it('should only list the holds of the member linked to the login', async () => {
+      await request(app)
+        .get('/api/holds?member_id=3')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(200);
+
+      const listQuery = mockQuery.mock.calls.find((call: any) => call[0].includes('ORDER BY h.created_at DESC'));
+      expect(listQuery[0]).toContain('member_id');
+      expect(listQuery[1]).toContain(2);
+      expect(listQuery[1]).not.toContain(3);
+    });
+
+    it('should hide other members from the queue', async () => {
+      const response = await request(app)
+        .get('/api/holds/book/1')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(200);
+
+      expect(response.body.queue.map((hold: any) => hold.member_id)).toEqual([2]);
+    });
+
+    it('should let a patron place a hold for themselves', async () => {
+      testHolds = [];
+
+      const response = await request(app)
+        .post('/api/holds')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .send({ book_id: 1, member_id: 2 })
+        .expect(201);
+
+      expect(response.body).toMatchObject({ book_id: 1, member_id: 2, status: 'waiting' });
+    });
+
+    it('should return 403 when a patron places a hold for someone else', async () => {
+      await request(app)
+        .post('/api/holds')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .send({ book_id: 1, member_id: 3 })
+        .expect(403);
+    });
+
+    it("should return 404 when a patron cancels someone else's hold", async () => {
+      await request(app)
+        .delete('/api/holds/2')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(404);
+
+      expect(testHolds[1].status).toBe('waiting');
+    });
+  });
+
+  describe('POST /api/holds', () => {
+    it('should place a hold at the back of the queue', async () => {
+      const response = await request(app)
+        .post('/api/holds')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ book_id: 1, member_id: 3 })
+        .expect(201);
+
+      expect(response.body).toMatchObject({ book_id: 1, member_id: 3, status: 'waiting', queue_position: 2 });
+    });
+
+    it('should reject missing member_id', async () => {
+      const response = await request(app)
+        .post('/api/holds')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ book_id: 1 })
+        .expect(400);
+
+      expect(response.body.error).toContain('member_id');
+    });
+
+    it('should return 404 for nonexistent member', async () => {
+      await request(app)
+        .post('/api/holds')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ book_id: 1, member_id: 999 })
+        .expect(404);
+    });
+
+    it('should return 409 when the member already has the book on loan', async () => {
+      const response = await request(app)
+        .post('/api/holds')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ book_id: 1, member_id: 1 })
+        .expect(409);
+
+      expect(response.body.error).toContain('on loan');
+    });
+
+    it('should return 409 for a duplicate hold', async () => {
+      const response = await request(app)
+        .post('/api/holds')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ book_id: 1, member_id: 2 })
+        .expect(409);
+
+      expect(response.body.error).toContain('active hold');
+    });
+
+    it('should return 409 when the book is available', async () => {
+      const response = await request(app)
+        .post('/api/holds')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ book_id: 2, member_id: 2 })
+        .expect(409);
+
+      expect(response.body.error).toContain('borrow it instead');
+    });
+  });
+
+  describe('DELETE /api/holds/:id', () => {
+    it('should cancel a waiting hold', async () => {
+      await request(app)
+        .delete('/api/holds/1')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(204);
+
+      expect(testHolds[0].status).toBe('cancelled');
+    });
+
+    it('should return 404 for nonexistent hold', async () => {
+      await request(app)
+        .delete('/api/holds/999')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+    });
+
+    it('should return 409 for a closed hold', async () => {
+      testHolds[0].status = 'fulfilled';
+
+      const response = await request(app)
+        .delete('/api/holds/1')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+
+      expect(response.body.error).toContain('already fulfilled');
+    });
+
+    it('should pass the hold shelf copy to the next member when a ready hold is cancelled', async () => {
+      testHolds[0].status = 'ready';
+      testHolds[0].copy_id = 10;
+      testHolds.push({ id: 2, book_id: 1, member_id: 3, status: 'waiting', created_at: new Date('2024-01-06') });
+
+      await request(app)
+        .delete('/api/holds/1')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(204);
+
+      expect(testHolds[0].status).toBe('cancelled');
+      expect(testHolds[1].status).toBe('ready');
+      expect(testHolds[1].copy_id).toBe(10);
+
+      const statusUpdate = mockQuery.mock.calls.find((call: any) => call[0].includes('UPDATE copies SET status'));
+      expect(statusUpdate[1]).toEqual([10, 'on_hold_shelf']);
+    });
+  });
+});
@@ -0,0 +1,925 @@
+/**
+ * Bulk Import Routes Integration Tests
+ *
+ * Tests for CSV bulk imports of books and members including:
+ * - Previewing an upload: rows to create and update, duplicates, and errors per column
+ * - Mapping columns to fields, import modes, and the changes update rows make
+ * - Import profiles
+ * - Goodreads, LibraryThing and Calibre exports
+ * - Confirming a preview and running it as a background job
+ * - Progress, and rows that fail after the preview
+ * - The error report of rejected rows
+ * - Permissions
+ */
+
+import fs from 'fs';
+import path from 'path';
+import request from 'supertest';
+import express from 'express';
+import { newDb, IMemoryDb } from 'pg-mem';
+import booksRoutes from '../../src/routes/books';
+import membersRoutes from '../../src/routes/members';
+import { errorHandler } from '../../src/middleware/errorHandler';
+import { generateToken } from '../../src/utils/authUtils';
+import { JobService } from '../../src/services/JobService';
+import { jobHandlers } from '../../src/jobs/handlers';
+
+let memDb: IMemoryDb;
+let testPool: any;
+
+// pg-mem cannot parse row-locking clauses; a single test connection needs none
+const withoutRowLocks = (text: string) => text.replace(/FOR UPDATE SKIP LOCKED/g, '');
+
+// Mock the db module to use the in-memory database
+jest.mock('../../src/db', () => {
+  return {
+    get pool() {
+      return {
+        connect: async () => {
+          const client = await testPool.connect();
+          return {
+            query: (text: string, params?: any[]) => client.query(withoutRowLocks(text), params),
+            release: () => client.release(),
+          };
+        },
+        query: (text: string, params?: any[]) => testPool.query(withoutRowLocks(text), params),
+        end: async () => {},
+      };
+    },
+    query: async (text: string, params?: any[]) => testPool.query(text, params),
+  };
+});
+
+// Copies are added without the hold queue or their status, which the copies tests cover
+jest.mock('../../src/services/CopyService', () => ({
+  CopyService: class {
+    async addCopy(bookId: number, data: { barcode?: string }, client: any) {
+      const { rows } = await client.query(
+        'INSERT INTO copies (book_id, barcode) VALUES ($1, $2) RETURNING *',
+        [bookId, data.barcode ?? null]
+      );
+      return rows[0];
+    }
+  },
+}));
+jest.mock('../../src/repositories/CopyRepository', () => ({
+  CopyRepository: class {
+    async createCopy(bookId: number, data: { barcode?: string }, _status: string, client: any) {
+      const { rows } = await client.query(
+        'INSERT INTO copies (book_id, barcode) VALUES ($1, $2) RETURNING *',
+        [bookId, data.barcode ?? null]
+      );
+      return rows[0];
+    }
+  },
+}));
+
+const createTestApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/books', booksRoutes);
+  app.use('/api/members', membersRoutes);
+  app.use(errorHandler);
+  return app;
+};
+
+describe('Bulk Import Routes', () => {
+  let app: express.Application;
+  let adminToken: string;
+  let memberToken: string;
+  const jobService = new JobService();
+  const query = (text: string, params?: any[]) => testPool.query(text, params);
+
+  const upload = (path: string, csv: string, token = adminToken) =>
+    request(app)
+      .post(path)
+      .set('Authorization', `Bearer ${token}`)
+      .attach('file', Buffer.from(csv), 'import.csv');
+
+  const setOptions = (path: string, options: Record<string, unknown>) =>
+    request(app)
+      .put(`${path}/options`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send(options);
+
+  const rowsOf = async (path: string) => {
+    const response = await request(app)
+      .get(`${path}/rows`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    return response.body.data;
+  };
+
+  const confirmAndRun = async (path: string) => {
+    await request(app)
+      .post(`${path}/confirm`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(202);
+    while (await jobService.runNext('worker-1', jobHandlers)) {
+      // Run the import and anything it queued
+    }
+    const response = await request(app)
+      .get(path)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    return response.body;
+  };
+
+  beforeAll(async () => {
+    memDb = newDb();
+    const { Pool } = memDb.adapters.createPg();
+    testPool = new Pool();
+
+    await query(`
+      CREATE TABLE members (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        email VARCHAR(255) NOT NULL UNIQUE,
+        phone VARCHAR(20),
+        member_type VARCHAR(50) NOT NULL DEFAULT 'standard',
+        barcode VARCHAR(50),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    // books.isbn and copies.barcode are unique in the schema, but pg-mem
+    // cannot match = ANY($1) against a unique index, so they are not here
+    await query(`
+      CREATE TABLE books (
+        id SERIAL PRIMARY KEY,
+        title VARCHAR(255) NOT NULL,
+        author VARCHAR(255) NOT NULL,
+        isbn VARCHAR(20),
+        cover_image_path VARCHAR(255),
+        description TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await query(`
+      CREATE TABLE copies (
+        id SERIAL PRIMARY KEY,
+        book_id INTEGER NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+        barcode VARCHAR(50)
+      )
+    `);
+    await query('CREATE TABLE categories (id SERIAL PRIMARY KEY, name VARCHAR(100) NOT NULL UNIQUE)');
+    await query(`
+      CREATE TABLE book_categories (
+        book_id INTEGER NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+        category_id INTEGER NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+        PRIMARY KEY (book_id, category_id)
+      )
+    `);
+    await query(`
+      CREATE TABLE webhooks (
+        id SERIAL PRIMARY KEY,
+        url TEXT NOT NULL,
+        secret VARCHAR(128) NOT NULL,
+        events TEXT[] NOT NULL,
+        active BOOLEAN NOT NULL DEFAULT true
+      )
+    `);
+    await query(`
+      CREATE TABLE webhook_deliveries (
+        id SERIAL PRIMARY KEY,
+        webhook_id INTEGER NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+        event VARCHAR(50) NOT NULL,
+        payload JSONB NOT NULL,
+        dedupe_key VARCHAR(255),
+        status VARCHAR(10) NOT NULL DEFAULT 'pending',
+        next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await query('CREATE UNIQUE INDEX idx_webhook_deliveries_webhook_dedupe_key ON webhook_deliveries (webhook_id, dedupe_key)');
+    await query(`
+      CREATE TABLE jobs (
+        id SERIAL PRIMARY KEY,
+        type VARCHAR(50) NOT NULL,
+        payload JSONB NOT NULL DEFAULT '{}',
+        status VARCHAR(10) NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL DEFAULT 5,
+        run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        dedupe_key VARCHAR(255),
+        locked_by VARCHAR(255),
+        locked_at TIMESTAMPTZ,
+        last_error TEXT,
+        result JSONB,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        started_at TIMESTAMPTZ,
+        finished_at TIMESTAMPTZ
+      )
+    `);
+    await query('CREATE UNIQUE INDEX idx_jobs_dedupe_key ON jobs (dedupe_key)');
+    await query(`
+      CREATE TABLE imports (
+        id SERIAL PRIMARY KEY,
+        kind VARCHAR(20) NOT NULL,
+        source VARCHAR(20) NOT NULL DEFAULT 'csv',
+        filename VARCHAR(255),
+        status VARCHAR(10) NOT NULL DEFAULT 'previewed',
+        columns JSONB NOT NULL DEFAULT '[]',
+        mapping JSONB NOT NULL DEFAULT '{}',
+        mode VARCHAR(10) NOT NULL DEFAULT 'insert',
+        total_rows INTEGER NOT NULL DEFAULT 0,
+        create_rows INTEGER NOT NULL DEFAULT 0,
+        update_rows INTEGER NOT NULL DEFAULT 0,
+        unchanged_rows INTEGER NOT NULL DEFAULT 0,
+        duplicate_rows INTEGER NOT NULL DEFAULT 0,
+        invalid_rows INTEGER NOT NULL DEFAULT 0,
+        processed_rows INTEGER NOT NULL DEFAULT 0,
+        created_count INTEGER NOT NULL DEFAULT 0,
+        updated_count INTEGER NOT NULL DEFAULT 0,
+        failed_count INTEGER NOT NULL DEFAULT 0,
+        job_id INTEGER,
+        error TEXT,
+        created_by INTEGER,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        started_at TIMESTAMPTZ,
+        finished_at TIMESTAMPTZ
+      )
+    `);
+    await query(`
+      CREATE TABLE import_rows (
+        id SERIAL PRIMARY KEY,
+        import_id INTEGER NOT NULL REFERENCES imports(id) ON DELETE CASCADE,
+        row_number INTEGER NOT NULL,
+        data JSONB NOT NULL,
+        read_errors JSONB NOT NULL DEFAULT '[]',
+        action VARCHAR(10) NOT NULL,
+        errors JSONB NOT NULL DEFAULT '[]',
+        changes JSONB NOT NULL DEFAULT '[]',
+        status VARCHAR(10) NOT NULL DEFAULT 'pending'
+      )
+    `);
+    await query(`
+      CREATE TABLE import_profiles (
+        id SERIAL PRIMARY KEY,
+        kind VARCHAR(20) NOT NULL,
+        name VARCHAR(100) NOT NULL,
+        mapping JSONB NOT NULL DEFAULT '{}',
+        mode VARCHAR(10) NOT NULL DEFAULT 'insert',
+        created_by INTEGER,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await query('CREATE UNIQUE INDEX idx_import_profiles_kind_name ON import_profiles (kind, name)');
+
+    app = createTestApp();
+    adminToken = generateToken({ userId: 1, username: 'admin', role: 'admin' });
+    memberToken = generateToken({ userId: 2, username: 'member', role: 'member' });
+  });
+
+  beforeEach(async () => {
+    await query('DELETE FROM import_profiles');
+    await query('DELETE FROM import_rows');
+    await query('DELETE FROM imports');
+    await query('DELETE FROM jobs');
+    await query('DELETE FROM webhook_deliveries');
+    await query('DELETE FROM webhooks');
+    await query('DELETE FROM book_categories');
+    await query('DELETE FROM categories');
+    await query('DELETE FROM copies');
+    await query('DELETE FROM books');
+    await query('DELETE FROM members');
+    await query("INSERT INTO members (name, email) VALUES ('John Doe', 'john@example.com')");
+  });
+
+  describe('members', () => {
+    const csv = [
+      'name,email,phone',
+      'Ada Lovelace,ada@example.com,555-0100',
+      'John Again,JOHN@example.com,',
+      ',grace@example.com,',
+      'Ada Twice,ada@example.com,',
+      'Alan Turing,not-an-email,',
+    ].join('\n');
+
+    it('should preview an upload without importing anything', async () => {
+      const response = await upload('/api/members/bulk-import', csv).expect(201);
+
+      expect(response.body).toMatchObject({
+        kind: 'members',
+        status: 'previewed',
+        filename: 'import.csv',
+        columns: ['name', 'email', 'phone'],
+        total_rows: 5,
+        create_rows: 1,
+        update_rows: 0,
+        duplicate_rows: 2,
+        invalid_rows: 2,
+      });
+
+      const { rows } = await query('SELECT COUNT(*)::int AS count FROM members');
+      expect(rows[0].count).toBe(1);
+    });
+
+    it('should list the rows with their errors per column', async () => {
+      const { body: preview } = await upload('/api/members/bulk-import', csv).expect(201);
+
+      const response = await request(app)
+        .get(`/api/members/bulk-import/${preview.id}/rows`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.pagination.total).toBe(5);
+      expect(response.body.data.map((row: any) => [row.row_number, row.action])).toEqual([
+        [2, 'create'],
+        [3, 'duplicate'],
+        [4, 'invalid'],
+        [5, 'duplicate'],
+        [6, 'invalid'],
+      ]);
+      expect(response.body.data[1].errors).toEqual([
+        { column: 'email', message: 'Member with email JOHN@example.com already exists' },
+      ]);
+      expect(response.body.data[2].errors).toEqual([{ column: 'name', message: 'Name is required' }]);
+      expect(response.body.data[3].errors[0].message).toBe('Email ada@example.com appears on an earlier row');
+      expect(response.body.data[4].errors[0].column).toBe('email');
+
+      const invalid = await request(app)
+        .get(`/api/members/bulk-import/${preview.id}/rows?action=invalid`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(invalid.body.data.map((row: any) => row.row_number)).toEqual([4, 6]);
+    });
+
+    it('should import the accepted rows once the preview is confirmed', async () => {
+      const { body: preview } = await upload('/api/members/bulk-import', csv).expect(201);
+
+      const confirmed = await request(app)
+        .post(`/api/members/bulk-import/${preview.id}/confirm`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(202);
+      expect(confirmed.body.status).toBe('queued');
+
+      const { rows: jobs } = await query('SELECT * FROM jobs');
+      expect(jobs).toHaveLength(1);
+      expect(jobs[0]).toMatchObject({ id: confirmed.body.job_id, type: 'imports.run', payload: { import_id: preview.id } });
+
+      while (await jobService.runNext('worker-1', jobHandlers)) {
+        // Run the import
+      }
+
+      const progress = await request(app)
+        .get(`/api/members/bulk-import/${preview.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(progress.body).toMatchObject({ status: 'completed', processed_rows: 1, created_count: 1, failed_count: 0 });
+      expect(progress.body.finished_at).not.toBeNull();
+
+      const { rows: members } = await query('SELECT email FROM members ORDER BY id');
+      expect(members.map((member: any) => member.email)).toEqual(['john@example.com', 'ada@example.com']);
+    });
+
+    it('should not confirm an import twice', async () => {
+      const { body: preview } = await upload('/api/members/bulk-import', csv).expect(201);
+
+      await request(app)
+        .post(`/api/members/bulk-import/${preview.id}/confirm`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(202);
+      await request(app)
+        .post(`/api/members/bulk-import/${preview.id}/confirm`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+    });
+
+    it('should record rows that can no longer be imported when the job runs', async () => {
+      const { body: preview } = await upload('/api/members/bulk-import', 'name,email\nAda,ada@example.com\nAlan,alan@example.com').expect(201);
+      await query("INSERT INTO members (name, email) VALUES ('Ada L', 'ada@example.com')");
+
+      const progress = await confirmAndRun(`/api/members/bulk-import/${preview.id}`);
+
+      expect(progress).toMatchObject({ status: 'completed', processed_rows: 2, created_count: 1, failed_count: 1 });
+      const { rows } = await query('SELECT status, errors FROM import_rows WHERE import_id = $1 ORDER BY row_number', [preview.id]);
+      expect(rows[0]).toEqual({
+        status: 'failed',
+        errors: [{ column: null, message: 'Member with email ada@example.com already exists' }],
+      });
+      expect(rows[1].status).toBe('imported');
+    });
+
+    it('should download the rejected and failed rows with their errors', async () => {
+      const { body: preview } = await upload('/api/members/bulk-import', csv).expect(201);
+      await query("INSERT INTO members (name, email) VALUES ('Ada L', 'ada@example.com')");
+      await confirmAndRun(`/api/members/bulk-import/${preview.id}`);
+
+      const response = await request(app)
+        .get(`/api/members/bulk-import/${preview.id}/errors.csv`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toContain(`members_import_${preview.id}_errors.csv`);
+      expect(response.text.trim().split('\n')).toEqual([
+        'row,name,email,phone,errors',
+        '2,Ada Lovelace,ada@example.com,555-0100,Member with email ada@example.com already exists',
+        '3,John Again,JOHN@example.com,,email: Member with email JOHN@example.com already exists',
+        '4,,grace@example.com,,name: Name is required',
+        '5,Ada Twice,ada@example.com,,email: Email ada@example.com appears on an earlier row',
+        '6,Alan Turing,not-an-email,,email: Invalid email format: not-an-email',
+      ]);
+    });
+
+    it('should map columns to fields by their headers', async () => {
+      const { body: preview } = await upload(
+        '/api/members/bulk-import',
+        'Full Name,Email Address,Notes\nAda Lovelace,ada@example.com,likes maths'
+      ).expect(201);
+
+      expect(preview.mapping).toEqual({ name: 'Full Name', email: 'Email Address', phone: null });
+      expect(preview.create_rows).toBe(1);
+    });
+
+    it('should plan the rows again when the mapping changes', async () => {
+      const path = '/api/members/bulk-import';
+      const { body: preview } = await upload(path, 'Who,Contact,Mobile\nAda Lovelace,ada@example.com,555-0100').expect(201);
+      expect(preview.invalid_rows).toBe(1);
+
+      const response = await setOptions(`${path}/${preview.id}`, {
+        mapping: { name: 'Who', email: 'Contact', phone: 'Mobile' },
+      }).expect(200);
+      expect(response.body).toMatchObject({ mode: 'insert', create_rows: 1, invalid_rows: 0 });
+
+      await confirmAndRun(`${path}/${preview.id}`);
+      const { rows } = await query("SELECT name, phone FROM members WHERE email = 'ada@example.com'");
+      expect(rows).toEqual([{ name: 'Ada Lovelace', phone: '555-0100' }]);
+    });
+
+    it('should reject a mapping to a column the file does not have', async () => {
+      const path = '/api/members/bulk-import';
+      const { body: preview } = await upload(path, csv).expect(201);
+
+      const unknownColumn = await setOptions(`${path}/${preview.id}`, { mapping: { name: 'Name' } }).expect(400);
+      expect(unknownColumn.body.error).toBe('The file has no column named Name');
+
+      const unknownField = await setOptions(`${path}/${preview.id}`, { mapping: { nickname: 'name' } }).expect(400);
+      expect(unknownField.body.error).toContain('Unknown field: nickname');
+
+      const unmapped = await setOptions(`${path}/${preview.id}`, { mapping: { email: null } }).expect(400);
+      expect(unmapped.body.error).toBe('Map a column to email to create records');
+
+      await setOptions(`${path}/${preview.id}`, { mode: 'replace' }).expect(400);
+    });
+
+    it('should update members matched by email, summarising the changes', async () => {
+      const path = '/api/members/bulk-import';
+      const { body: preview } = await upload(path, [
+        'name,email,phone',
+        'John Doe,JOHN@example.com,555-0199',
+        'Ada Lovelace,ada@example.com,',
+      ].join('\n')).expect(201);
+
+      const { body: planned } = await setOptions(`${path}/${preview.id}`, { mode: 'update' }).expect(200);
+      expect(planned).toMatchObject({ mode: 'update', create_rows: 0, update_rows: 1, invalid_rows: 1 });
+
+      const rows = await rowsOf(`${path}/${preview.id}`);
+      expect(rows[0].changes).toEqual([{ field: 'phone', from: null, to: '555-0199' }]);
+      expect(rows[1].errors).toEqual([{ column: 'email', message: 'No member with email ada@example.com to update' }]);
+
+      const progress = await confirmAndRun(`${path}/${preview.id}`);
+      expect(progress).toMatchObject({ status: 'completed', created_count: 0, updated_count: 1 });
+      const { rows: members } = await query('SELECT email, phone FROM members ORDER BY id');
+      expect(members).toEqual([{ email: 'john@example.com', phone: '555-0199' }]);
+    });
+
+    it('should create and update in upsert mode, skipping rows that change nothing', async () => {
+      const path = '/api/members/bulk-import';
+      const { body: preview } = await upload(path, [
+        'name,email,phone',
+        'John Doe,john@example.com,',
+        'Ada Lovelace,ada@example.com,',
+      ].join('\n')).expect(201);
+
+      const { body: planned } = await setOptions(`${path}/${preview.id}`, { mode: 'upsert' }).expect(200);
+      expect(planned).toMatchObject({ create_rows: 1, update_rows: 0, unchanged_rows: 1 });
+
+      const progress = await confirmAndRun(`${path}/${preview.id}`);
+      expect(progress).toMatchObject({ processed_rows: 1, created_count: 1, updated_count: 0 });
+      const { rows } = await query('SELECT status FROM import_rows WHERE import_id = $1 ORDER BY row_number', [preview.id]);
+      expect(rows.map((row: any) => row.status)).toEqual(['skipped', 'imported']);
+    });
+
+    it('should not change the options of a confirmed import', async () => {
+      const path = '/api/members/bulk-import';
+      const { body: preview } = await upload(path, csv).expect(201);
+      await confirmAndRun(`${path}/${preview.id}`);
+
+      await setOptions(`${path}/${preview.id}`, { mode: 'upsert' }).expect(409);
+    });
+
+    it('should reject an empty file', async () => {
+      const response = await upload('/api/members/bulk-import', 'name,email,phone\n').expect(400);
+      expect(response.body.error).toContain('no valid data rows');
+    });
+  });
+
+  describe('books', () => {
+    beforeEach(async () => {
+      const { rows } = await query(
+        "INSERT INTO books (title, author, isbn) VALUES ('Dune', 'Frank Herbert', '9780441172719') RETURNING id"
+      );
+      await query("INSERT INTO copies (book_id, barcode) VALUES ($1, 'B-001')", [rows[0].id]);
+    });
+
+    const csv = [
+      'title,author,isbn,categories,barcode,price',
+      'Dune,Frank Herbert,9780441172719,,B-002,',
+      'Neuromancer,William Gibson,9780441569595,"Fiction, Cyberpunk",B-003,12.50',
+      'Neuromancer,William Gibson,9780441569595,,B-004,',
+      'Old Copy,Someone,,,B-001,',
+      ',Nobody,12345,,,abc',
+    ].join('\n');
+
+    it('should preview copies of catalogued ISBNs as updates', async () => {
+      const { body: preview } = await upload('/api/books/bulk-import', csv).expect(201);
+
+      expect(preview).toMatchObject({ kind: 'books', total_rows: 5, create_rows: 1, update_rows: 2, duplicate_rows: 1, invalid_rows: 1 });
+
+      const response = await request(app)
+        .get(`/api/books/bulk-import/${preview.id}/rows`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(response.body.data.map((row: any) => row.action)).toEqual(['update', 'create', 'update', 'duplicate', 'invalid']);
+      expect(response.body.data[3].errors).toEqual([{ column: 'barcode', message: 'Barcode B-001 is already in use' }]);
+      expect(response.body.data[4].errors.map((error: any) => error.column)).toEqual(['title', 'isbn', 'price']);
+    });
+
+    it('should create books, add copies and queue metadata lookups', async () => {
+      const { body: preview } = await upload('/api/books/bulk-import', csv).expect(201);
+
+      const progress = await confirmAndRun(`/api/books/bulk-import/${preview.id}`);
+
+      expect(progress).toMatchObject({ status: 'completed', processed_rows: 3, created_count: 1, updated_count: 2, failed_count: 0 });
+
+      const { rows: books } = await query('SELECT id, title FROM books ORDER BY id');
+      expect(books.map((book: any) => book.title)).toEqual(['Dune', 'Neuromancer']);
+      const { rows: copies } = await query('SELECT book_id, barcode FROM copies ORDER BY id');
+      expect(copies.map((copy: any) => [copy.book_id, copy.barcode])).toEqual([
+        [books[0].id, 'B-001'],
+        [books[0].id, 'B-002'],
+        [books[1].id, 'B-003'],
+        [books[1].id, 'B-004'],
+      ]);
+      const { rows: categories } = await query('SELECT name FROM categories ORDER BY name');
+      expect(categories.map((category: any) => category.name)).toEqual(['Cyberpunk', 'Fiction']);
+
+      const { rows: jobs } = await query("SELECT payload FROM jobs WHERE type = 'books.enrich_metadata'");
+      expect(jobs).toEqual([{ payload: { book_id: books[1].id } }]);
+    });
+
+    it('should update catalogued books in upsert mode, summarising the changes', async () => {
+      const path = '/api/books/bulk-import';
+      const { body: preview } = await upload(path, [
+        'Title,Author,ISBN-13,Genre,Barcode',
+        'Dune (40th Anniversary),Frank Herbert,9780441172719,Science Fiction,B-001',
+        'Dune,Frank Herbert,9780441172719,,B-001',
+      ].join('\n')).expect(201);
+      expect(preview.mapping).toMatchObject({ title: 'Title', isbn: 'ISBN-13', categories: 'Genre', barcode: 'Barcode' });
+
+      const { body: planned } = await setOptions(`${path}/${preview.id}`, { mode: 'upsert' }).expect(200);
+      expect(planned).toMatchObject({ update_rows: 1, unchanged_rows: 1, duplicate_rows: 0 });
+
+      const rows = await rowsOf(`${path}/${preview.id}`);
+      expect(rows[0].changes).toEqual([
+        { field: 'title', from: 'Dune', to: 'Dune (40th Anniversary)' },
+        { field: 'categories', from: null, to: 'Science Fiction' },
+      ]);
+
+      const progress = await confirmAndRun(`${path}/${preview.id}`);
+      expect(progress).toMatchObject({ status: 'completed', updated_count: 1, failed_count: 0 });
+      const { rows: books } = await query('SELECT title FROM books');
+      expect(books).toEqual([{ title: 'Dune (40th Anniversary)' }]);
+      const { rows: copies } = await query('SELECT barcode FROM copies');
+      expect(copies).toEqual([{ barcode: 'B-001' }]);
+    });
+
+    it('should require an ISBN for every row in update mode', async () => {
+      const path = '/api/books/bulk-import';
+      const { body: preview } = await upload(path, 'title,author,isbn\nDune,Frank Herbert,\nNew,Someone,9780441569595').expect(201);
+
+      const unmapped = await setOptions(`${path}/${preview.id}`, { mode: 'update', mapping: { isbn: null } }).expect(400);
+      expect(unmapped.body.error).toBe('Map a column to isbn to match records');
+
+      await setOptions(`${path}/${preview.id}`, { mode: 'update' }).expect(200);
+      const rows = await rowsOf(`${path}/${preview.id}`);
+      expect(rows.map((row: any) => row.errors[0].message)).toEqual([
+        'ISBN is required to find the book to update',
+        'No book with ISBN 9780441569595 to update',
+      ]);
+    });
+
+    it('should not find a members import under books', async () => {
+      const { body: preview } = await upload('/api/members/bulk-import', 'name,email\nAda,ada@example.com').expect(201);
+
+      await request(app)
+        .get(`/api/books/bulk-import/${preview.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('catalogue exports', () => {
+    beforeEach(async () => {
+      await query("INSERT INTO books (title, author, isbn) VALUES ('Dune', 'Frank Herbert', '9780441172719')");
+    });
+
+    const uploadExport = (source: string, file: Buffer | string, filename: string) =>
+      request(app)
+        .post('/api/books/bulk-import')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .field('source', source)
+        .attach('file', Buffer.from(file), filename);
+
+    const importedBooks = async () => {
+      const { rows: books } = await query('SELECT id, title, author, isbn, description FROM books ORDER BY id');
+      const { rows: filed } = await query(
+        'SELECT bc.book_id, c.name FROM book_categories bc JOIN categories c ON c.id = bc.category_id'
+      );
+      return books.map((book: any) => ({
+        ...book,
+        categories: filed.filter((row: any) => row.book_id === book.id).map((row: any) => row.name).sort(),
+      }));
+    };
+
+    it('should import a Goodreads export with its shelves and ratings', async () => {
+      const goodreadsCsv = [
+        'Book Id,Title,Author,Author l-f,Additional Authors,ISBN,ISBN13,My Rating,Average Rating,Bookshelves,Exclusive Shelf',
+        '234225,Dune,Frank Herbert,"Herbert, Frank",,"=""0441172717""","=""9780441172719""",5,4.27,"sci-fi, favourites, read",read',
+        '12067,Good Omens,Terry Pratchett,"Pratchett, Terry",Neil Gaiman,"=""""","=""""",0,4.25,to-read,to-read',
+      ].join('\n');
+
+      const { body: preview } = await uploadExport('goodreads', goodreadsCsv, 'goodreads_library_export.csv').expect(201);
+      expect(preview).toMatchObject({ source: 'goodreads', columns: ['title', 'author', 'isbn', 'categories', 'description'], update_rows: 1, create_rows: 1 });
+
+      // Dune is already catalogued, so the export fills in its categories in upsert mode
+      await setOptions(`/api/books/bulk-import/${preview.id}`, { mode: 'upsert' }).expect(200);
+      await confirmAndRun(`/api/books/bulk-import/${preview.id}`);
+
+      const books = await importedBooks();
+      expect(books).toMatchObject([
+        { title: 'Dune', isbn: '9780441172719', description: 'Rated 5 out of 5 stars', categories: ['favourites', 'sci-fi'] },
+        { title: 'Good Omens', author: 'Terry Pratchett', isbn: null, categories: [] },
+      ]);
+    });
+
+    it('should import a tab-separated LibraryThing export', async () => {
+      const tsv = [
+        'Book Id\tTitle\tPrimary Author\tRating\tTags\tCollections\tISBNs',
+        '101\tNeuromancer\tGibson, William\t4\tcyberpunk, sf\tYour library, Favourites\t0441569595, 9780441569595',
+      ].join('\n');
+
+      const { body: preview } = await uploadExport('librarything', tsv, 'LibraryThing_export.tsv').expect(201);
+      await confirmAndRun(`/api/books/bulk-import/${preview.id}`);
+
+      const books = await importedBooks();
+      expect(books[1]).toMatchObject({
+        title: 'Neuromancer',
+        author: 'William Gibson',
+        isbn: '9780441569595',
+        description: 'Rated 4 out of 5 stars',
+        categories: ['Favourites', 'cyberpunk', 'sf'],
+      });
+    });
+
+    it('should import a LibraryThing JSON export', async () => {
+      const json = JSON.stringify({
+        101: {
+          books_id: '101',
+          title: 'Neuromancer',
+          primaryauthor: 'Gibson, William',
+          authors: [{ lf: 'Gibson, William', fl: 'William Gibson' }],
+          isbn: { 0: '0441569595', 2: '9780441569595' },
+          tags: ['cyberpunk'],
+          collections: ['Your library'],
+          rating: 3,
+        },
+      });
+
+      const { body: preview } = await uploadExport('librarything', json, 'librarything_export.json').expect(201);
+      expect(preview.create_rows).toBe(1);
+      await confirmAndRun(`/api/books/bulk-import/${preview.id}`);
+
+      const books = await importedBooks();
+      expect(books[1]).toMatchObject({
+        title: 'Neuromancer', author: 'William Gibson', isbn: '9780441569595', description: 'Rated 3 out of 5 stars', categories: ['cyberpunk'],
+      });
+    });
+
+    it('should import a Calibre library from metadata.db', async () => {
+      const metadataDb = fs.readFileSync(path.join(__dirname, '..', 'fixtures', 'calibre', 'metadata.db'));
+
+      const { body: preview } = await uploadExport('calibre', metadataDb, 'metadata.db').expect(201);
+      expect(preview).toMatchObject({ source: 'calibre', total_rows: 3, create_rows: 2, update_rows: 1 });
+
+      await setOptions(`/api/books/bulk-import/${preview.id}`, { mode: 'upsert' }).expect(200);
+      const rows = await rowsOf(`/api/books/bulk-import/${preview.id}`);
+      expect(rows.map((row: any) => row.row_number)).toEqual([1, 2, 3]);
+      expect(rows[0].changes.map((change: any) => change.field)).toEqual(['categories', 'description']);
+
+      await confirmAndRun(`/api/books/bulk-import/${preview.id}`);
+
+      const books = await importedBooks();
+      expect(books).toHaveLength(3);
+      expect(books[0]).toMatchObject({
+        title: 'Dune',
+        description: 'Set on the desert planet Arrakis.\nRated 5 out of 5 stars',
+        categories: ['Classics', 'Science Fiction'],
+      });
+      expect(books[1]).toMatchObject({
+        title: 'Good Omens',
+        author: 'Terry Pratchett & Neil Gaiman',
+        isbn: '9780060853983',
+        categories: ['Fantasy', 'Humour'],
+      });
+      expect(books[2].description).toMatch(/^A very long description/);
+    });
+
+    it('should import a Calibre catalog CSV', async () => {
+      const catalog = [
+        'author_sort,authors,comments,identifiers,isbn,rating,tags,title',
+        '"Pratchett, Terry",Terry Pratchett & Neil Gaiman,<p>The world ends on <i>Saturday</i>.</p>,"isbn:9780060853983,goodreads:12067",,4,"Fantasy, Humour",Good Omens',
+      ].join('\n');
+
+      const { body: preview } = await uploadExport('calibre', catalog, 'calibre_catalog.csv').expect(201);
+      await confirmAndRun(`/api/books/bulk-import/${preview.id}`);
+
+      const books = await importedBooks();
+      expect(books[1]).toMatchObject({
+        author: 'Terry Pratchett & Neil Gaiman',
+        isbn: '9780060853983',
+        description: 'The world ends on Saturday.\nRated 4 out of 5 stars',
+        categories: ['Fantasy', 'Humour'],
+      });
+    });
+
+    it('should import MARC 21 records, reporting the records that are not books', async () => {
+      const recordsMrc = fs.readFileSync(path.join(__dirname, '..', 'fixtures', 'marc', 'records.mrc'));
+
+      const { body: preview } = await uploadExport('marc', recordsMrc, 'records.mrc').expect(201);
+      expect(preview).toMatchObject({ source: 'marc', total_rows: 5, create_rows: 1, update_rows: 1, invalid_rows: 3 });
+
+      await setOptions(`/api/books/bulk-import/${preview.id}`, { mode: 'upsert' }).expect(200);
+      await confirmAndRun(`/api/books/bulk-import/${preview.id}`);
+
+      const books = await importedBooks();
+      expect(books).toEqual([
+        {
+          id: expect.any(Number),
+          title: 'Dune',
+          author: 'Frank Herbert',
+          isbn: '9780441172719',
+          description: 'Set on the desert planet Arrakis.',
+          categories: ['Desert ecology', 'Science fiction'],
+        },
+        {
+          id: expect.any(Number),
+          title: 'Le petit prince: avec des aquarelles de l\'auteur',
+          author: 'Antoine de Saint-Exupéry',
+          isbn: null,
+          description: null,
+          categories: ['Fables'],
+        },
+      ]);
+
+      const response = await request(app)
+        .get(`/api/books/bulk-import/${preview.id}/errors.csv`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      const report = response.text.trim().split('\n');
+      expect(report[1]).toBe('3,,,,,,The record could not be read: the leader does not give where the fields start');
+      expect(report[2]).toBe('4,,,,,,"The record is an authority record, not a book"');
+      expect(report[3]).toMatch(/^5,,,,,,The record could not be read: the record is MARC-8 encoded/);
+    });
+
+    it('should import MARCXML records and keep unreadable records invalid when the mode changes', async () => {
+      const recordsXml = fs.readFileSync(path.join(__dirname, '..', 'fixtures', 'marc', 'records.xml'));
+
+      const { body: preview } = await uploadExport('marc', recordsXml, 'records.xml').expect(201);
+      expect(preview).toMatchObject({ total_rows: 2, create_rows: 1, invalid_rows: 1 });
+
+      const { body: replanned } = await setOptions(`/api/books/bulk-import/${preview.id}`, { mode: 'upsert' }).expect(200);
+      expect(replanned).toMatchObject({ create_rows: 1, invalid_rows: 1 });
+      const rows = await rowsOf(`/api/books/bulk-import/${preview.id}`);
+      expect(rows[1].errors).toEqual([{ column: null, message: 'The record could not be read: a datafield has no tag' }]);
+
+      await confirmAndRun(`/api/books/bulk-import/${preview.id}`);
+
+      const books = await importedBooks();
+      expect(books[1]).toMatchObject({
+        title: 'Good omens: the nice & accurate prophecies of Agnes Nutter, witch',
+        author: 'Neil Gaiman',
+        isbn: '9780060853983',
+        description: 'The world ends on Saturday. Next Saturday, in fact. Just before tea.',
+        categories: ['Antichrist'],
+      });
+    });
+
+    it('should reject a file that is not the chosen export', async () => {
+      const response = await uploadExport('goodreads', 'name,email\nAda,ada@example.com', 'members.csv').expect(400);
+      expect(response.body.error).toContain('not a Goodreads export');
+
+      await uploadExport('calibre', 'title,author\nDune,Frank Herbert', 'books.csv').expect(400);
+      await uploadExport('kindle', 'title,author\nDune,Frank Herbert', 'books.csv').expect(400);
+    });
+
+    it('should only read catalogue exports into books', async () => {
+      const response = await request(app)
+        .post('/api/members/bulk-import')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .field('source', 'goodreads')
+        .attach('file', Buffer.from('Title,Author\nDune,Frank Herbert'), 'export.csv')
+        .expect(400);
+      expect(response.body.error).toBe('Only books can be imported from another catalogue');
+    });
+  });
+
+  describe('profiles', () => {
+    const path = '/api/members/bulk-import';
+    const profile = { name: 'Library system export', mapping: { name: 'Patron', email: 'Mail', phone: null }, mode: 'upsert' };
+
+    const createProfile = (body: Record<string, unknown> = profile) =>
+      request(app)
+        .post(`${path}/profiles`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send(body);
+
+    it('should save, list, update and delete profiles', async () => {
+      const { body: created } = await createProfile().expect(201);
+      expect(created).toMatchObject({ kind: 'members', ...profile, created_by: 1 });
+
+      const list = await request(app)
+        .get(`${path}/profiles`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(list.body.map((saved: any) => saved.name)).toEqual(['Library system export']);
+
+      const updated = await request(app)
+        .put(`${path}/profiles/${created.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ ...profile, mode: 'update' })
+        .expect(200);
+      expect(updated.body.mode).toBe('update');
+
+      await request(app)
+        .delete(`${path}/profiles/${created.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(204);
+      await request(app)
+        .delete(`${path}/profiles/${created.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+    });
+
+    it('should validate profiles', async () => {
+      await createProfile({ ...profile, name: ' ' }).expect(400);
+      await createProfile({ ...profile, mode: 'replace' }).expect(400);
+      const response = await createProfile({ ...profile, mapping: { barcode: 'Barcode' } }).expect(400);
+      expect(response.body.error).toContain('Unknown field: barcode');
+
+      await createProfile().expect(201);
+      await createProfile().expect(409);
+    });
+
+    it('should map an upload with a profile', async () => {
+      const { body: saved } = await createProfile().expect(201);
+
+      const response = await request(app)
+        .post(path)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .field('profile_id', String(saved.id))
+        .attach('file', Buffer.from('Patron,Mail\nJohn Doe,john@example.com\nAda Lovelace,ada@example.com'), 'export.csv')
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        mapping: { name: 'Patron', email: 'Mail', phone: null },
+        mode: 'upsert',
+        create_rows: 1,
+        unchanged_rows: 1,
+      });
+    });
+
+    it('should not use a profile for another kind of import', async () => {
+      const { body: saved } = await createProfile().expect(201);
+
+      await request(app)
+        .post('/api/books/bulk-import')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .field('profile_id', String(saved.id))
+        .attach('file', Buffer.from('title,author\nDune,Frank Herbert'), 'import.csv')
+        .expect(404);
+    });
+  });
+
+  describe('permissions', () => {
+    it('should require authentication', async () => {
+      await request(app).post('/api/books/bulk-import').expect(401);
+    });
+
+    it('should require the write permission for the records imported', async () => {
+      await upload('/api/members/bulk-import', 'name,email\nAda,ada@example.com', memberToken).expect(403);
+      await upload('/api/books/bulk-import', 'title,author\nDune,Frank Herbert', memberToken).expect(403);
+    });
+  });
+});
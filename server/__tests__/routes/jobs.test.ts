@@ -0,0 +1,379 @@
+/**
+ * Jobs Routes Integration Tests
+ *
+ * Tests for the background job queue including:
+ * - Queueing jobs, and scheduled jobs once per slot
+ * - Running due jobs and recording their results
+ * - Retrying failed jobs with backoff and dead-lettering them
+ * - Releasing jobs abandoned by a stopped worker, but not long-running ones
+ * - The scheduler lock
+ * - The admin jobs page (settings:manage)
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { newDb, IMemoryDb } from 'pg-mem';
+import jobsRoutes from '../../src/routes/jobs';
+import { errorHandler } from '../../src/middleware/errorHandler';
+import { generateToken } from '../../src/utils/authUtils';
+import { JobService } from '../../src/services/JobService';
+
+let memDb: IMemoryDb;
+let testPool: any;
+
+// pg-mem cannot parse row-locking clauses; a single test connection needs none
+const withoutRowLocks = (text: string) => text.replace(/FOR UPDATE SKIP LOCKED/g, '');
+
+// Mock the db module to use the in-memory database
+jest.mock('../../src/db', () => {
+  return {
+    get pool() {
+      return {
+        connect: async () => {
+          const client = await testPool.connect();
+          return {
+            query: (text: string, params?: any[]) => client.query(withoutRowLocks(text), params),
+            release: () => client.release(),
+          };
+        },
+        query: (text: string, params?: any[]) => testPool.query(withoutRowLocks(text), params),
+        end: async () => {},
+      };
+    },
+    query: async (text: string, params?: any[]) => testPool.query(text, params),
+  };
+});
+
+const createTestApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/jobs', jobsRoutes);
+  app.use(errorHandler);
+  return app;
+};
+
+describe('Jobs Routes', () => {
+  let app: express.Application;
+  let adminToken: string;
+  let librarianToken: string;
+  const jobService = new JobService();
+  const query = (text: string, params?: any[]) => testPool.query(text, params);
+
+  const findJob = async (id: number) => (await query('SELECT * FROM jobs WHERE id = $1', [id])).rows[0];
+  const makeDue = (id: number) => query("UPDATE jobs SET run_at = NOW() - INTERVAL '1 minute' WHERE id = $1", [id]);
+
+  beforeAll(async () => {
+    memDb = newDb();
+    const { Pool } = memDb.adapters.createPg();
+    testPool = new Pool();
+
+    await query(`
+      CREATE TABLE jobs (
+        id SERIAL PRIMARY KEY,
+        type VARCHAR(50) NOT NULL,
+        payload JSONB NOT NULL DEFAULT '{}',
+        status VARCHAR(10) NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL DEFAULT 5,
+        run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        dedupe_key VARCHAR(255),
+        locked_by VARCHAR(255),
+        locked_at TIMESTAMPTZ,
+        last_error TEXT,
+        result JSONB,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        started_at TIMESTAMPTZ,
+        finished_at TIMESTAMPTZ
+      )
+    `);
+    await query('CREATE UNIQUE INDEX idx_jobs_dedupe_key ON jobs (dedupe_key)');
+    await query(`
+      CREATE TABLE job_leader_locks (
+        name VARCHAR(100) PRIMARY KEY,
+        holder VARCHAR(255) NOT NULL,
+        expires_at TIMESTAMPTZ NOT NULL
+      )
+    `);
+
+    app = createTestApp();
+    adminToken = generateToken({ userId: 1, username: 'admin', role: 'admin' });
+    librarianToken = generateToken({ userId: 2, username: 'librarian', role: 'librarian' });
+  });
+
+  beforeEach(async () => {
+    await query('DELETE FROM jobs');
+    await query('DELETE FROM job_leader_locks');
+  });
+
+  describe('queueing and running jobs', () => {
+    it('should run a due job and record its result', async () => {
+      const job = await jobService.enqueue('books.enrich_metadata', { book_id: 7 });
+      const handler = jest.fn().mockResolvedValue({ cover_added: true });
+
+      const finished = await jobService.runNext('worker-1', { 'books.enrich_metadata': handler });
+
+      expect(handler).toHaveBeenCalledWith({ book_id: 7 }, expect.objectContaining({ id: job!.id, attempts: 1 }));
+      expect(finished).toMatchObject({ id: job!.id, status: 'succeeded', attempts: 1, locked_by: null });
+      expect(finished!.result).toEqual({ cover_added: true });
+      expect(finished!.finished_at).not.toBeNull();
+    });
+
+    it('should leave jobs that are not due yet', async () => {
+      await jobService.enqueue('books.enrich_metadata', { book_id: 7 }, { runAt: new Date(Date.now() + 60 * 60 * 1000) });
+      const handler = jest.fn();
+
+      expect(await jobService.runNext('worker-1', { 'books.enrich_metadata': handler })).toBeNull();
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should queue a scheduled job once per slot', async () => {
+      const schedule = { type: 'holds.expire' as const, cron: '0 * * * *', description: 'Expire holds' };
+      const firedAt = new Date('2026-10-18T10:00:00.250Z');
+
+      await jobService.enqueueScheduled(schedule, firedAt);
+      await jobService.enqueueScheduled(schedule, new Date('2026-10-18T10:00:00.900Z'));
+      await jobService.enqueueScheduled(schedule, new Date('2026-10-18T11:00:00.100Z'));
+
+      const { rows } = await query('SELECT * FROM jobs ORDER BY id');
+      expect(rows.map((row: any) => row.dedupe_key)).toEqual([
+        'holds.expire@2026-10-18T10:00:00.000Z',
+        'holds.expire@2026-10-18T11:00:00.000Z',
+      ]);
+      expect(rows[0].max_attempts).toBe(1);
+    });
+
+    it('should not queue a slot again once its job has run', async () => {
+      const schedule = { type: 'holds.expire' as const, cron: '0 * * * *', description: 'Expire holds' };
+      const firedAt = new Date('2026-10-18T10:00:00.250Z');
+
+      await jobService.enqueueScheduled(schedule, firedAt);
+      await jobService.runNext('worker-1', { 'holds.expire': jest.fn() });
+
+      await jobService.enqueueScheduled(schedule, firedAt);
+
+      const { rows } = await query('SELECT status FROM jobs');
+      expect(rows).toEqual([{ status: 'succeeded' }]);
+    });
+  });
+
+  describe('retries and the dead-letter list', () => {
+    it('should retry a failed job with backoff, then mark it dead', async () => {
+      const job = await jobService.enqueue('books.download_cover', { book_id: 1, url: 'https://example.com/c.jpg' }, { maxAttempts: 2 });
+      const handler = jest.fn().mockRejectedValue(new Error('Connection refused'));
+
+      const before = Date.now();
+      const first = await jobService.runNext('worker-1', { 'books.download_cover': handler });
+      expect(first).toMatchObject({ status: 'pending', attempts: 1, last_error: 'Connection refused', locked_by: null });
+      expect(new Date(first!.run_at).getTime()).toBeGreaterThanOrEqual(before + 30 * 1000);
+
+      // Not due again until the backoff has passed
+      expect(await jobService.runNext('worker-1', { 'books.download_cover': handler })).toBeNull();
+
+      await makeDue(job!.id);
+      const second = await jobService.runNext('worker-1', { 'books.download_cover': handler });
+      expect(second).toMatchObject({ status: 'dead', attempts: 2, last_error: 'Connection refused' });
+      expect(second!.finished_at).not.toBeNull();
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should mark a job with no handler dead straight away', async () => {
+      await jobService.enqueue('fines.accrue', {});
+
+      const finished = await jobService.runNext('worker-1', {});
+
+      expect(finished).toMatchObject({ status: 'dead', attempts: 1, last_error: 'No handler for job type fines.accrue' });
+    });
+
+    it('should release jobs abandoned by a stopped worker', async () => {
+      const retryable = await jobService.enqueue('holds.expire', {});
+      const exhausted = await jobService.enqueue('fines.accrue', {}, { maxAttempts: 1 });
+      const recent = await jobService.enqueue('webhooks.deliver', {});
+      await query(
+        "UPDATE jobs SET status = 'running', attempts = 1, locked_by = 'gone', locked_at = NOW() - INTERVAL '1 day' WHERE id IN ($1, $2)",
+        [retryable!.id, exhausted!.id]
+      );
+      await query("UPDATE jobs SET status = 'running', attempts = 1, locked_by = 'busy', locked_at = NOW() WHERE id = $1", [recent!.id]);
+
+      expect(await jobService.releaseStaleJobs()).toBe(2);
+
+      expect(await findJob(retryable!.id)).toMatchObject({ status: 'pending', locked_by: null });
+      expect(await findJob(exhausted!.id)).toMatchObject({ status: 'dead', last_error: 'Worker stopped before the job finished' });
+      expect(await findJob(recent!.id)).toMatchObject({ status: 'running', locked_by: 'busy' });
+    });
+
+    it('should keep renewing the lock of a job that runs longer than the lock timeout', async () => {
+      const job = await jobService.enqueue('imports.run', {});
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      try {
+        const handler = jest.fn(async () => {
+          await query("UPDATE jobs SET locked_at = NOW() - INTERVAL '1 day' WHERE id = $1", [job!.id]);
+          jest.advanceTimersByTime(10 * 60 * 1000);
+          await new Promise(resolve => setImmediate(resolve));
+
+          expect(await jobService.releaseStaleJobs()).toBe(0);
+          expect(await findJob(job!.id)).toMatchObject({ status: 'running', locked_by: 'worker-1' });
+        });
+
+        const finished = await jobService.runNext('worker-1', { 'imports.run': handler });
+
+        expect(handler).toHaveBeenCalled();
+        expect(finished).toMatchObject({ status: 'succeeded', attempts: 1 });
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('scheduler lock', () => {
+    it('should let one replica hold the lock until it expires', async () => {
+      expect(await jobService.acquireSchedulerLock('replica-a', 60 * 1000)).toBe(true);
+      expect(await jobService.acquireSchedulerLock('replica-b', 60 * 1000)).toBe(false);
+      // The holder renews its lease
+      expect(await jobService.acquireSchedulerLock('replica-a', 60 * 1000)).toBe(true);
+
+      await query("UPDATE job_leader_locks SET expires_at = NOW() - INTERVAL '1 second'");
+      expect(await jobService.acquireSchedulerLock('replica-b', 60 * 1000)).toBe(true);
+      expect(await jobService.acquireSchedulerLock('replica-a', 60 * 1000)).toBe(false);
+    });
+
+    it('should free the lock when its holder releases it', async () => {
+      await jobService.acquireSchedulerLock('replica-a', 60 * 1000);
+      await jobService.releaseSchedulerLock('replica-a');
+
+      expect(await jobService.acquireSchedulerLock('replica-b', 60 * 1000)).toBe(true);
+    });
+  });
+
+  describe('GET /api/jobs', () => {
+    it('should list jobs filtered by status and type', async () => {
+      await jobService.enqueue('holds.expire', {});
+      const dead = await jobService.enqueue('fines.accrue', {});
+      await query("UPDATE jobs SET status = 'dead' WHERE id = $1", [dead!.id]);
+
+      const response = await request(app)
+        .get('/api/jobs?status=dead')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0]).toMatchObject({ id: dead!.id, type: 'fines.accrue' });
+      expect(response.body.pagination.total).toBe(1);
+
+      const byType = await request(app)
+        .get('/api/jobs?type=holds.expire')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(byType.body.data.map((job: any) => job.type)).toEqual(['holds.expire']);
+    });
+
+    it('should reject an unknown status or type', async () => {
+      await request(app)
+        .get('/api/jobs?status=stuck')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+      await request(app)
+        .get('/api/jobs?type=books.burn')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+    });
+
+    it('should require the settings:manage permission', async () => {
+      await request(app)
+        .get('/api/jobs')
+        .set('Authorization', `Bearer ${librarianToken}`)
+        .expect(403);
+    });
+  });
+
+  describe('GET /api/jobs/summary', () => {
+    it('should count jobs by status and show the schedules and scheduler', async () => {
+      await jobService.enqueue('holds.expire', {});
+      await jobService.enqueue('holds.expire', {});
+      await jobService.acquireSchedulerLock('replica-a', 60 * 1000);
+
+      const response = await request(app)
+        .get('/api/jobs/summary')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.counts).toEqual({ pending: 2, running: 0, succeeded: 0, dead: 0 });
+      expect(response.body.scheduler.holder).toBe('replica-a');
+      const holds = response.body.schedules.find((schedule: any) => schedule.type === 'holds.expire');
+      expect(holds.cron).toBe('0 * * * *');
+      expect(holds.last_job.type).toBe('holds.expire');
+      const fines = response.body.schedules.find((schedule: any) => schedule.type === 'fines.accrue');
+      expect(fines.last_job).toBeNull();
+    });
+  });
+
+  describe('POST /api/jobs/run', () => {
+    it('should queue a scheduled job to run now', async () => {
+      const response = await request(app)
+        .post('/api/jobs/run')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ type: 'holds.expire' })
+        .expect(202);
+
+      expect(response.body).toMatchObject({ type: 'holds.expire', status: 'pending', max_attempts: 1 });
+    });
+
+    it('should reject a job type that is not scheduled', async () => {
+      const response = await request(app)
+        .post('/api/jobs/run')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ type: 'books.download_cover' })
+        .expect(400);
+
+      expect(response.body.error).toContain('not a scheduled job');
+    });
+  });
+
+  describe('POST /api/jobs/:id/retry', () => {
+    it('should requeue a dead job with fresh attempts', async () => {
+      const job = await jobService.enqueue('fines.accrue', {});
+      await query("UPDATE jobs SET status = 'dead', attempts = 5, last_error = 'boom' WHERE id = $1", [job!.id]);
+
+      const response = await request(app)
+        .post(`/api/jobs/${job!.id}/retry`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body).toMatchObject({ status: 'pending', attempts: 0 });
+    });
+
+    it('should only retry dead jobs', async () => {
+      const job = await jobService.enqueue('fines.accrue', {});
+
+      await request(app)
+        .post(`/api/jobs/${job!.id}/retry`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+      await request(app)
+        .post('/api/jobs/9999/retry')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('DELETE /api/jobs/:id', () => {
+    it('should delete a job that is not running', async () => {
+      const job = await jobService.enqueue('fines.accrue', {});
+
+      await request(app)
+        .delete(`/api/jobs/${job!.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(204);
+
+      expect(await findJob(job!.id)).toBeUndefined();
+    });
+
+    it('should refuse to delete a running job', async () => {
+      const job = await jobService.enqueue('fines.accrue', {});
+      await query("UPDATE jobs SET status = 'running' WHERE id = $1", [job!.id]);
+
+      await request(app)
+        .delete(`/api/jobs/${job!.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+    });
+  });
+});
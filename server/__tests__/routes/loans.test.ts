@@ -2,8 +2,10 @@
  * Loans Routes Integration Tests
  *
  * Tests for all loans endpoints including:
- * - Borrow books (with transaction handling)
- * - Return books (with transaction handling)
+ * - Borrow books (picking a copy, with transaction handling)
+ * - Return books (by book or copy, with transaction handling)
+ * - Renew loans (with renewal limits and holds)
+ * - Close loans as returned, damaged, lost or claims returned
  * - Get loan history with pagination, filtering, and search
  */
 
@@ -84,6 +86,7 @@ describe('Loans Routes', () => {
   let app: express.Application;
   let adminToken: string;
   let memberToken: string;
+  let patronToken: string;
   let mockQuery: jest.Mock;
 
   beforeAll(async () => {
@@ -94,21 +97,108 @@ describe('Loans Routes', () => {
         return { rows: [] };
       }
 
+      // Handle active loan count per member - member 7 is at the default limit of 5
+      if (text.includes('COUNT(*)') && text.includes('WHERE member_id = $1')) {
+        return { rows: [{ count: params![0] === 7 ? '5' : '1' }] };
+      }
+
       // Handle count queries
       if (text.includes('COUNT(*)')) {
         return { rows: [{ count: '3' }] };
       }
 
-      // Handle SELECT for book availability (for borrow)
-      if (text.includes('SELECT available FROM books')) {
-        const bookId = params![0];
-        if (bookId === 999) {
-          return { rows: [] }; // Book not found
+      // Handle hold shelf lookups - copy 50 of book 5 is on the hold shelf for member 3
+      if (text.includes('FROM holds') && text.includes("status = 'ready'")) {
+        const memberId = text.includes('member_id = $2') ? params![1] : 3;
+        if (params![0] === 5 && memberId === 3) {
+          return { rows: [{ id: 10, book_id: 5, member_id: 3, copy_id: 50, status: 'ready' }] };
         }
-        if (bookId === 2) {
-          return { rows: [{ available: false }] }; // Book unavailable
+        return { rows: [] };
+      }
+
+      // Handle next waiting hold lookup - book 6 has a member waiting
+      if (text.includes('FROM holds') && text.includes("status = 'waiting'")) {
+        if (params![0] === 6) {
+          return { rows: [{ id: 11, book_id: 6, member_id: 4, status: 'waiting' }] };
         }
-        return { rows: [{ available: true }] }; // Book available
+        return { rows: [] };
+      }
+
+      // Handle holds by other members - someone else is waiting for book 6
+      if (text.includes('FROM holds') && text.includes('member_id <> $2')) {
+        return { rows: [{ exists: params![0] === 6 }] };
+      }
+
+      // Handle hold status updates
+      if (text.includes('UPDATE holds')) {
+        const status = text.includes("status = 'ready'") ? 'ready' : params![1];
+        const hold = params![0] === 10
+          ? { book_id: 5, member_id: 3, copy_id: 50 }
+          : { book_id: 6, member_id: 4, copy_id: text.includes("status = 'ready'") ? params![1] : null };
+        return { rows: [{ id: params![0], ...hold, status }] };
+      }
+
+      // Handle member account balance - member 9 owes more than the borrowing limit
+      if (text.includes('SUM(amount)') && text.includes('FROM member_account_entries')) {
+        if (text.includes("type = 'fine'")) {
+          return { rows: [{ total: 0 }] };
+        }
+        return { rows: [{ balance: params![0] === 9 ? 25 : 0 }] };
+      }
+
+      // Handle member row lock for ledger entries
+      if (text.includes('SELECT id FROM members') && text.includes('FOR UPDATE')) {
+        return { rows: [{ id: params![0] }] };
+      }
+
+      // Handle ledger INSERT
+      if (text.includes('INSERT INTO member_account_entries')) {
+        return { rows: [{ id: 1, member_id: params![0], loan_id: params![1], type: params![2], amount: params![3] }] };
+      }
+
+      // Handle member lookup (for borrow)
+      if (text.includes('SELECT * FROM members WHERE id = $1')) {
+        if (params![0] === 998) {
+          return { rows: [] }; // Member not found
+        }
+        return { rows: [{ id: params![0], name: 'Test Member', member_type: 'standard' }] };
+      }
+
+      // Handle applicable circulation policies - reference book 8 has a 3-day loan period
+      if (text.includes('FROM circulation_policies')) {
+        const policies: any[] = [
+          { id: 1, category_id: null, member_type: null, loan_period_days: 14, max_active_loans: 5, max_renewals: 2, grace_days: 0 }
+        ];
+        if (params![0] === 8) {
+          policies.push({ id: 2, category_id: 4, member_type: null, loan_period_days: 3, max_active_loans: null, max_renewals: 0, grace_days: null });
+        }
+        return { rows: policies };
+      }
+
+      // Handle book lookup (for borrow)
+      if (text.includes('FROM books WHERE id = $1')) {
+        return { rows: params![0] === 999 ? [] : [{ id: params![0] }] };
+      }
+
+      // Handle picking a free copy - copy N0 belongs to book N; books 2 and 5 have none on the shelf
+      if (text.includes('FROM copies') && text.includes('SKIP LOCKED')) {
+        const bookId = params![0];
+        if (bookId === 2 || bookId === 5) {
+          return { rows: [] };
+        }
+        return { rows: [{ id: bookId * 10, book_id: bookId, status: 'available' }] };
+      }
+
+      // Handle locking a specific copy - copy 50 is on the hold shelf, copy 21 is on loan
+      if (text.includes('FROM copies WHERE id = $1')) {
+        const copyId = params![0];
+        const status = copyId === 50 ? 'on_hold_shelf' : copyId === 21 ? 'on_loan' : 'available';
+        return { rows: [{ id: copyId, book_id: Math.floor(copyId / 10), status }] };
+      }
+
+      // Handle copy status changes
+      if (text.includes('UPDATE copies SET status')) {
+        return { rows: [{ id: params![0], status: params![1] }] };
       }
 
       // Handle INSERT loan
@@ -117,7 +207,8 @@ describe('Loans Routes', () => {
           rows: [{
             id: 4,
             book_id: params![0],
-            member_id: params![1],
+            copy_id: params![1],
+            member_id: params![2],
             borrow_date: new Date(),
             due_date: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000),
             return_date: null
@@ -125,32 +216,61 @@ describe('Loans Routes', () => {
         };
       }
 
-      // Handle UPDATE books availability
-      if (text.includes('UPDATE books SET available')) {
-        return { rows: [] };
-      }
-
-      // Handle SELECT active loan for return
-      if (text.includes('SELECT * FROM loans WHERE book_id')) {
-        const bookId = params![0];
-        if (bookId === 999) {
+      // Handle SELECT active loans for return - book 12 has two copies out
+      if (text.includes('SELECT * FROM loans WHERE book_id') || text.includes('SELECT * FROM loans WHERE copy_id')) {
+        const byCopy = text.includes('copy_id = $1');
+        const bookId = byCopy ? Math.floor(params![0] / 10) : params![0];
+        if (bookId === 99 || bookId === 999) {
           return { rows: [] }; // No active loan
         }
+        // Book 9 was due ten days ago
+        const dueDate = bookId === 9 ? new Date(Date.now() - 10 * 24 * 60 * 60 * 1000) : new Date();
+        const loan = {
+          id: 1,
+          book_id: bookId,
+          copy_id: byCopy ? params![0] : bookId * 10,
+          member_id: 1,
+          borrow_date: new Date(),
+          due_date: dueDate,
+          return_date: null,
+          grace_days: 0
+        };
+        if (bookId === 12 && !byCopy) {
+          return { rows: [loan, { ...loan, id: 2, copy_id: 121, member_id: 2 }] };
+        }
+        return { rows: [loan] };
+      }
+
+      // Handle SELECT loan by ID (for renew)
+      if (text.includes('SELECT * FROM loans WHERE id = $1')) {
+        const loansById: Record<number, any> = {
+          1: { id: 1, book_id: 1, copy_id: 10, member_id: 1, due_date: new Date('2030-01-15'), return_date: null, renewal_count: 0, loan_period_days: 14, max_renewals: 2 },
+          2: { id: 2, book_id: 2, member_id: 2, due_date: new Date('2024-01-16'), return_date: new Date('2024-01-10'), renewal_count: 0, loan_period_days: 14, max_renewals: 2 },
+          3: { id: 3, book_id: 3, copy_id: 30, member_id: 1, due_date: new Date('2030-01-03'), return_date: null, renewal_count: 2, loan_period_days: 14, max_renewals: 2 },
+          6: { id: 6, book_id: 6, copy_id: 60, member_id: 1, due_date: new Date('2030-01-03'), return_date: null, renewal_count: 0, loan_period_days: 14, max_renewals: 2 },
+          7: { id: 7, book_id: 1, copy_id: 10, member_id: 1, due_date: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000), return_date: null, renewal_count: 0, loan_period_days: 14, max_renewals: 2, grace_days: 0 },
+        };
+        const loan = loansById[params![0]];
+        return { rows: loan ? [loan] : [] };
+      }
+
+      // Handle UPDATE loan due date (renew)
+      if (text.includes('UPDATE loans SET due_date')) {
         return {
-          rows: [{
-            id: 1,
-            book_id: bookId,
-            member_id: 1,
-            borrow_date: new Date(),
-            due_date: new Date(),
-            return_date: null
-          }]
+          rows: [{ id: params![0], book_id: 1, member_id: 1, due_date: params![1], return_date: null, renewal_count: 1, max_renewals: 2 }]
+        };
+      }
+
+      // Handle closing a loan with an outcome
+      if (text.includes('UPDATE loans SET') && text.includes('outcome_note')) {
+        return {
+          rows: [{ id: params![0], book_id: 1, member_id: 1, return_date: params![1], outcome: params![2], outcome_note: params![3] }]
         };
       }
 
       // Handle UPDATE loan with return date
       if (text.includes('UPDATE loans SET return_date')) {
-        return { rows: [] };
+        return { rows: [{ id: params![0], book_id: 1, member_id: 1, return_date: params![1], outcome: params![2] }] };
       }
 
       // Handle SELECT queries for loan history
@@ -167,6 +287,11 @@ describe('Loans Routes', () => {
           loans = loans.filter(l => l.return_date === null && l.due_date < new Date());
         }
 
+        // Apply patron filter
+        if (text.includes('loans.member_id = $1')) {
+          loans = loans.filter(l => l.member_id === params![0]);
+        }
+
         // Apply search filter
         if (params && params.length > 0 && text.includes('LOWER(books.title)')) {
           const searchTerm = String(params[0]).replace(/%/g, '').toLowerCase();
@@ -193,6 +318,7 @@ describe('Loans Routes', () => {
     // Generate tokens
     adminToken = generateToken({ userId: 1, username: 'admin', role: 'admin' });
     memberToken = generateToken({ userId: 2, username: 'member', role: 'member' });
+    patronToken = generateToken({ userId: 5, username: 'patron', role: 'member', memberId: 1 });
 
     app = createTestApp();
   });
@@ -283,7 +409,7 @@ describe('Loans Routes', () => {
       expect(response.body.error).toContain('not available');
     });
 
-    it('should work with member token', async () => {
+    it('should require the loans:checkout permission', async () => {
       const response = await request(app)
         .post('/api/loans/borrow')
         .set('Authorization', `Bearer ${memberToken}`)
@@ -291,9 +417,185 @@ describe('Loans Routes', () => {
           book_id: 1,
           member_id: 2
         })
+        .expect(403);
+
+      expect(response.body.error).toContain('loans:checkout');
+    });
+
+    it('should return 404 for nonexistent member', async () => {
+      const response = await request(app)
+        .post('/api/loans/borrow')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          book_id: 1,
+          member_id: 998
+        })
+        .expect(404);
+
+      expect(response.body.error).toContain('Member not found');
+    });
+
+    it('should return 409 when the member is at their active loan limit', async () => {
+      const response = await request(app)
+        .post('/api/loans/borrow')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          book_id: 1,
+          member_id: 7
+        })
+        .expect(409);
+
+      expect(response.body.error).toContain('limit of 5 active loans');
+    });
+
+    it('should record the global policy terms on the loan', async () => {
+      await request(app)
+        .post('/api/loans/borrow')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          book_id: 1,
+          member_id: 1
+        })
+        .expect(201);
+
+      const insert = mockQuery.mock.calls.find((call: any) => call[0].includes('INSERT INTO loans'));
+      expect(insert[1]).toEqual([1, 10, 1, expect.any(Date), expect.any(Date), 14, 2, 0]);
+    });
+
+    it('should queue a loan.created webhook event before committing the loan', async () => {
+      await request(app)
+        .post('/api/loans/borrow')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          book_id: 1,
+          member_id: 1
+        })
         .expect(201);
 
-      expect(response.body.member_id).toBe(2);
+      const statements = mockQuery.mock.calls.map((call: any) => call[0]);
+      const enqueue = statements.findIndex((text: string) => text.includes('INSERT INTO webhook_deliveries'));
+      expect(enqueue).toBeGreaterThan(statements.findIndex((text: string) => text.includes('INSERT INTO loans')));
+      expect(enqueue).toBeLessThan(statements.indexOf('COMMIT'));
+      expect(mockQuery.mock.calls[enqueue][1][0]).toBe('loan.created');
+    });
+
+    it('should lock the member before counting their active loans', async () => {
+      await request(app)
+        .post('/api/loans/borrow')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          book_id: 1,
+          member_id: 1
+        })
+        .expect(201);
+
+      const statements = mockQuery.mock.calls.map((call: any) => call[0]);
+      const lock = statements.findIndex((text: string) => text.includes('SELECT * FROM members WHERE id = $1 FOR UPDATE'));
+      expect(lock).toBeGreaterThan(statements.indexOf('BEGIN'));
+      expect(lock).toBeLessThan(statements.findIndex((text: string) => text.includes('COUNT(*)') && text.includes('WHERE member_id = $1')));
+    });
+
+    it('should apply a category policy over the global policy', async () => {
+      await request(app)
+        .post('/api/loans/borrow')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          book_id: 8,
+          member_id: 1
+        })
+        .expect(201);
+
+      const insert = mockQuery.mock.calls.find((call: any) => call[0].includes('INSERT INTO loans'));
+      expect(insert[1]).toEqual([8, 80, 1, expect.any(Date), expect.any(Date), 3, 0, 0]);
+      const [, , , borrowDate, dueDate] = insert[1];
+      expect(Math.round((dueDate - borrowDate) / (24 * 60 * 60 * 1000))).toBe(3);
+    });
+
+    it('should return 409 when the member owes more than the borrowing limit', async () => {
+      const response = await request(app)
+        .post('/api/loans/borrow')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          book_id: 1,
+          member_id: 9
+        })
+        .expect(409);
+
+      expect(response.body.error).toContain('outstanding balance of 25.00');
+    });
+
+    it('should let the member the book is reserved for borrow it from the hold shelf', async () => {
+      const response = await request(app)
+        .post('/api/loans/borrow')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          book_id: 5,
+          member_id: 3
+        })
+        .expect(201);
+
+      expect(response.body).toMatchObject({ book_id: 5, copy_id: 50 });
+      const fulfilled = mockQuery.mock.calls.some((call: any) =>
+        call[0].includes('UPDATE holds') && call[1]?.[1] === 'fulfilled'
+      );
+      expect(fulfilled).toBe(true);
+    });
+
+    it('should return 409 when the book is on the hold shelf for another member', async () => {
+      const response = await request(app)
+        .post('/api/loans/borrow')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          book_id: 5,
+          member_id: 1
+        })
+        .expect(409);
+
+      expect(response.body.error).toContain('hold shelf');
+    });
+
+    it('should check out the requested copy and mark it on loan', async () => {
+      const response = await request(app)
+        .post('/api/loans/borrow')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          book_id: 1,
+          copy_id: 11,
+          member_id: 1
+        })
+        .expect(201);
+
+      expect(response.body.copy_id).toBe(11);
+      const statusUpdate = mockQuery.mock.calls.find((call: any) => call[0].includes('UPDATE copies SET status'));
+      expect(statusUpdate[1]).toEqual([11, 'on_loan']);
+    });
+
+    it('should return 409 when the requested copy is already on loan', async () => {
+      const response = await request(app)
+        .post('/api/loans/borrow')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          book_id: 2,
+          copy_id: 21,
+          member_id: 1
+        })
+        .expect(409);
+
+      expect(response.body.error).toContain('Copy is not available');
+    });
+
+    it('should return 404 when the requested copy belongs to another book', async () => {
+      const response = await request(app)
+        .post('/api/loans/borrow')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          book_id: 1,
+          copy_id: 30,
+          member_id: 1
+        })
+        .expect(404);
+
+      expect(response.body.error).toContain('Copy not found');
     });
 
     it('should use transaction (BEGIN and COMMIT)', async () => {
@@ -349,6 +651,31 @@ describe('Loans Routes', () => {
       expect(response.body.error).toContain('book_id');
     });
 
+    it('should return a specific copy', async () => {
+      await request(app)
+        .post('/api/loans/return')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          copy_id: 121
+        })
+        .expect(200);
+
+      const statusUpdate = mockQuery.mock.calls.find((call: any) => call[0].includes('UPDATE copies SET status'));
+      expect(statusUpdate[1]).toEqual([121, 'available']);
+    });
+
+    it('should require copy_id when several copies of the book are on loan', async () => {
+      const response = await request(app)
+        .post('/api/loans/return')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          book_id: 12
+        })
+        .expect(400);
+
+      expect(response.body.error).toContain('specify copy_id');
+    });
+
     it('should return 404 when no active loan found', async () => {
       const response = await request(app)
         .post('/api/loans/return')
@@ -361,16 +688,74 @@ describe('Loans Routes', () => {
       expect(response.body.error).toContain('No active loan');
     });
 
-    it('should work with member token', async () => {
+    it('should require the loans:checkout permission', async () => {
+      await request(app)
+        .post('/api/loans/return')
+        .set('Authorization', `Bearer ${patronToken}`)
+        .send({
+          book_id: 1
+        })
+        .expect(403);
+    });
+
+    it('should not charge a fine for an on-time return', async () => {
       const response = await request(app)
         .post('/api/loans/return')
-        .set('Authorization', `Bearer ${memberToken}`)
+        .set('Authorization', `Bearer ${adminToken}`)
         .send({
           book_id: 1
         })
         .expect(200);
 
-      expect(response.body.message).toContain('returned successfully');
+      expect(response.body.fine).toBeUndefined();
+      const fineInsert = mockQuery.mock.calls.find((call: any) => call[0].includes('INSERT INTO member_account_entries'));
+      expect(fineInsert).toBeUndefined();
+    });
+
+    it('should charge an overdue fine for a late return', async () => {
+      const response = await request(app)
+        .post('/api/loans/return')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          book_id: 9
+        })
+        .expect(200);
+
+      // 10 days late at the default 0.25 per day
+      expect(response.body.fine).toBe(2.5);
+      const fineInsert = mockQuery.mock.calls.find((call: any) => call[0].includes('INSERT INTO member_account_entries'));
+      expect(fineInsert[1].slice(0, 5)).toEqual([1, 1, 'fine', 2.5, 2.5]);
+    });
+
+    it('should make the copy available when nobody is waiting', async () => {
+      await request(app)
+        .post('/api/loans/return')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          book_id: 1
+        })
+        .expect(200);
+
+      const statusUpdate = mockQuery.mock.calls.find((call: any) => call[0].includes('UPDATE copies SET status'));
+      expect(statusUpdate[1]).toEqual([10, 'available']);
+    });
+
+    it('should place the copy on the hold shelf for the next member in the queue', async () => {
+      const response = await request(app)
+        .post('/api/loans/return')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          book_id: 6
+        })
+        .expect(200);
+
+      expect(response.body.message).toContain('hold shelf');
+      expect(response.body.hold).toMatchObject({ id: 11, member_id: 4, status: 'ready' });
+
+      const statusUpdate = mockQuery.mock.calls.find((call: any) => call[0].includes('UPDATE copies SET status'));
+      expect(statusUpdate[1]).toEqual([60, 'on_hold_shelf']);
+      const markReady = mockQuery.mock.calls.find((call: any) => call[0].includes("status = 'ready'") && call[0].includes('UPDATE holds'));
+      expect(markReady[1].slice(0, 2)).toEqual([11, 60]);
     });
 
     it('should use transaction (BEGIN and COMMIT)', async () => {
@@ -391,10 +776,232 @@ describe('Loans Routes', () => {
     });
   });
 
+  describe('POST /api/loans/:id/renew', () => {
+    it('should renew a loan by one loan period', async () => {
+      const response = await request(app)
+        .post('/api/loans/1/renew')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body).toMatchObject({ id: 1, renewal_count: 1, max_renewals: 2 });
+      expect(new Date(response.body.due_date)).toEqual(new Date('2030-01-29'));
+    });
+
+    it('should record the renewal in loan history', async () => {
+      await request(app)
+        .post('/api/loans/1/renew')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      const renewalInsert = mockQuery.mock.calls.find((call: any) => call[0].includes('INSERT INTO loan_renewals'));
+      expect(renewalInsert).toBeDefined();
+      expect(renewalInsert[1][0]).toBe(1);
+      expect(renewalInsert[1][1]).toEqual(new Date('2030-01-15'));
+    });
+
+    it('should require authentication', async () => {
+      await request(app)
+        .post('/api/loans/1/renew')
+        .expect(401);
+    });
+
+    it('should return 404 for nonexistent loan', async () => {
+      await request(app)
+        .post('/api/loans/999/renew')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+    });
+
+    it('should return 409 for a returned loan', async () => {
+      const response = await request(app)
+        .post('/api/loans/2/renew')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+
+      expect(response.body.error).toContain('already been returned');
+    });
+
+    it('should let a patron renew their own loan', async () => {
+      await request(app)
+        .post('/api/loans/1/renew')
+        .set('Authorization', `Bearer ${patronToken}`)
+        .expect(200);
+    });
+
+    it("should return 404 when a patron renews someone else's loan", async () => {
+      await request(app)
+        .post('/api/loans/2/renew')
+        .set('Authorization', `Bearer ${generateToken({ userId: 6, username: 'other', role: 'member', memberId: 3 })}`)
+        .expect(404);
+    });
+
+    it('should return 409 when the renewal limit is reached', async () => {
+      const response = await request(app)
+        .post('/api/loans/3/renew')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+
+      expect(response.body.error).toContain('maximum of 2 renewals');
+    });
+
+    it('should return 409 when another member has a hold on the book', async () => {
+      const response = await request(app)
+        .post('/api/loans/6/renew')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+
+      expect(response.body.error).toContain('on hold for another member');
+
+      const dueDateUpdate = mockQuery.mock.calls.find((call: any) => call[0].includes('UPDATE loans SET due_date'));
+      expect(dueDateUpdate).toBeUndefined();
+    });
+
+    it('should charge the fine accrued so far when renewing an overdue loan', async () => {
+      await request(app)
+        .post('/api/loans/7/renew')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      // 10 days late at the default 0.25 per day
+      const fineInsert = mockQuery.mock.calls.find((call: any) => call[0].includes('INSERT INTO member_account_entries'));
+      expect(fineInsert[1].slice(0, 4)).toEqual([1, 7, 'fine', 2.5]);
+
+      // Extended from today, not from the missed due date
+      const dueDateUpdate = mockQuery.mock.calls.find((call: any) => call[0].includes('UPDATE loans SET due_date'));
+      expect(new Date(dueDateUpdate[1][1]).getTime()).toBeGreaterThan(Date.now() + 13 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should not charge a fine when renewing a loan that is not overdue', async () => {
+      await request(app)
+        .post('/api/loans/1/renew')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      const fineInsert = mockQuery.mock.calls.find((call: any) => call[0].includes('INSERT INTO member_account_entries'));
+      expect(fineInsert).toBeUndefined();
+    });
+  });
+
+  describe('POST /api/loans/:id/close', () => {
+    it('should close a lost loan, withdraw the copy and charge for a replacement', async () => {
+      const response = await request(app)
+        .post('/api/loans/1/close')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ outcome: 'lost', replacement_charge: 18.5, note: 'Left on a train' })
+        .expect(200);
+
+      expect(response.body.message).toBe('Loan closed as lost');
+      expect(response.body.loan).toMatchObject({ id: 1, outcome: 'lost', outcome_note: 'Left on a train' });
+      expect(response.body.charge).toMatchObject({ member_id: 1, loan_id: 1, type: 'charge', amount: 18.5 });
+      expect(response.body.hold).toBeNull();
+
+      const withdrawal = mockQuery.mock.calls.find((call: any) => call[0].includes('UPDATE copies SET status'));
+      expect(withdrawal[1]).toEqual([10, 'withdrawn']);
+    });
+
+    it('should record the condition of a damaged copy', async () => {
+      const response = await request(app)
+        .post('/api/loans/1/close')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ outcome: 'damaged', note: 'Water damage' })
+        .expect(200);
+
+      expect(response.body.loan.outcome).toBe('damaged');
+      expect(response.body.charge).toBeNull();
+
+      const historyInsert = mockQuery.mock.calls.find((call: any) => call[0].includes('INSERT INTO copy_condition_history'));
+      expect(historyInsert[1]).toEqual([10, 1, 'damaged', 'Water damage', 1]);
+    });
+
+    it('should put a returned copy back into circulation', async () => {
+      const response = await request(app)
+        .post('/api/loans/1/close')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ outcome: 'returned', condition: 'fair' })
+        .expect(200);
+
+      expect(response.body.loan.outcome).toBe('returned');
+
+      const statusUpdate = mockQuery.mock.calls.find((call: any) => call[0].includes('UPDATE copies SET status'));
+      expect(statusUpdate[1]).toEqual([10, 'available']);
+
+      const enqueue = mockQuery.mock.calls.find((call: any) => call[0].includes('INSERT INTO webhook_deliveries'));
+      expect(enqueue[1][0]).toBe('loan.returned');
+    });
+
+    it('should queue a loan.closed webhook event for a loan that was not returned', async () => {
+      await request(app)
+        .post('/api/loans/1/close')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ outcome: 'lost' })
+        .expect(200);
+
+      const enqueue = mockQuery.mock.calls.find((call: any) => call[0].includes('INSERT INTO webhook_deliveries'));
+      expect(enqueue[1][0]).toBe('loan.closed');
+    });
+
+    it('should not charge a fine for a claims-returned loan', async () => {
+      const response = await request(app)
+        .post('/api/loans/3/close')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ outcome: 'claims_returned' })
+        .expect(200);
+
+      expect(response.body.fine).toBe(0);
+      const fineInsert = mockQuery.mock.calls.find((call: any) => call[0].includes('INSERT INTO member_account_entries'));
+      expect(fineInsert).toBeUndefined();
+    });
+
+    it('should return 409 for a loan that is already closed', async () => {
+      const response = await request(app)
+        .post('/api/loans/2/close')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ outcome: 'lost' })
+        .expect(409);
+
+      expect(response.body.error).toContain('already been closed');
+    });
+
+    it('should return 404 for nonexistent loan', async () => {
+      await request(app)
+        .post('/api/loans/999/close')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ outcome: 'lost' })
+        .expect(404);
+    });
+
+    it('should require the loans:checkout permission', async () => {
+      await request(app)
+        .post('/api/loans/1/close')
+        .set('Authorization', `Bearer ${patronToken}`)
+        .send({ outcome: 'lost' })
+        .expect(403);
+    });
+
+    it('should reject an unknown outcome', async () => {
+      const response = await request(app)
+        .post('/api/loans/1/close')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ outcome: 'stolen' })
+        .expect(400);
+
+      expect(response.body.error).toContain('Outcome must be one of');
+    });
+
+    it('should reject a replacement charge for a claims-returned loan', async () => {
+      await request(app)
+        .post('/api/loans/1/close')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ outcome: 'claims_returned', replacement_charge: 10 })
+        .expect(400);
+    });
+  });
+
   describe('GET /api/loans', () => {
     it('should get all loans with default pagination', async () => {
       const response = await request(app)
         .get('/api/loans')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.data).toHaveLength(3);
@@ -409,6 +1016,7 @@ describe('Loans Routes', () => {
     it('should paginate loans correctly', async () => {
       const response = await request(app)
         .get('/api/loans?page=1&limit=2')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.data).toHaveLength(2);
@@ -423,6 +1031,7 @@ describe('Loans Routes', () => {
     it('should filter active loans', async () => {
       const response = await request(app)
         .get('/api/loans?status=active')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.data.length).toBeGreaterThan(0);
@@ -434,6 +1043,7 @@ describe('Loans Routes', () => {
     it('should filter returned loans', async () => {
       const response = await request(app)
         .get('/api/loans?status=returned')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.data.length).toBeGreaterThan(0);
@@ -445,6 +1055,7 @@ describe('Loans Routes', () => {
     it('should filter overdue loans', async () => {
       const response = await request(app)
         .get('/api/loans?status=overdue')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.data).toBeDefined();
@@ -453,6 +1064,7 @@ describe('Loans Routes', () => {
     it('should search loans by book title', async () => {
       const response = await request(app)
         .get('/api/loans?search=gatsby')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.data.length).toBeGreaterThan(0);
@@ -462,6 +1074,7 @@ describe('Loans Routes', () => {
     it('should search loans by member name', async () => {
       const response = await request(app)
         .get('/api/loans?search=john')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.data.length).toBeGreaterThan(0);
@@ -470,6 +1083,7 @@ describe('Loans Routes', () => {
     it('should return empty array when no loans match search', async () => {
       const response = await request(app)
         .get('/api/loans?search=nonexistent')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.data).toHaveLength(0);
@@ -478,9 +1092,31 @@ describe('Loans Routes', () => {
     it('should combine status filter and search', async () => {
       const response = await request(app)
         .get('/api/loans?status=active&search=john')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.data).toBeDefined();
     });
+    it('should require authentication', async () => {
+      await request(app)
+        .get('/api/loans')
+        .expect(401);
+    });
+
+    it('should only return the loans of the member linked to a patron login', async () => {
+      const response = await request(app)
+        .get('/api/loans')
+        .set('Authorization', `Bearer ${patronToken}`)
+        .expect(200);
+
+      expect(response.body.data.map((l: any) => l.id)).toEqual([1, 3]);
+    });
+
+    it('should return 403 for a member login that is not linked', async () => {
+      await request(app)
+        .get('/api/loans')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(403);
+    });
   });
 });
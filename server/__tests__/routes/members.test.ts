@@ -5,6 +5,7 @@
  * - List members with pagination and search
  * - Get, create, update, delete members
  * - CSV bulk import
+ * - Member accounts (fines ledger)
  */
 
 import request from 'supertest';
@@ -20,6 +21,21 @@ const testMembers = [
   { id: 3, name: 'Bob Johnson', email: 'bob@example.com', phone: null, created_at: new Date('2024-01-03') },
 ];
 
+const testAccountEntries = [
+  { id: 2, member_id: 1, loan_id: null, type: 'payment', amount: -1, balance_after: 4.5, description: 'Payment', created_at: new Date('2024-01-12') },
+  { id: 1, member_id: 1, loan_id: 7, type: 'fine', amount: 5.5, balance_after: 5.5, description: 'Overdue fine for loan #7 (22 days late)', created_at: new Date('2024-01-10') },
+];
+
+// The test members a tsquery finds: every term, or one of its alternatives, starts a word of the member
+const searchMembers = (tsquery: string) => {
+  const terms = tsquery.split(' & ').map(term => term.replace(/[()]/g, '').split(' | ').map(prefix => prefix.replace(/:\*$/, '')));
+  return testMembers.filter(m => {
+    const words = [m.name, m.email.replace(/[@._+-]/g, ' '), (m.phone || '').replace(/\D/g, '')]
+      .join(' ').toLowerCase().split(/\s+/);
+    return terms.every(alternatives => alternatives.some(prefix => words.some(word => word.startsWith(prefix))));
+  });
+};
+
 // Mock database query function
 let queryFn: (text: string, params?: any[]) => Promise<any>;
 
@@ -35,6 +51,7 @@ jest.mock('../../src/db', () => {
           };
           return client;
         },
+        query: (text: string, params?: any[]) => queryFn(text, params),
         end: async () => {},
       };
     },
@@ -46,7 +63,7 @@ jest.mock('../../src/db', () => {
 
 // Mock file upload utilities
 jest.mock('../../src/utils/fileUpload', () => ({
-  csvUpload: {
+  importUpload: {
     single: () => (req: any, res: any, next: any) => {
       // Simulate file upload
       req.file = req.body.file || null;
@@ -68,16 +85,64 @@ describe('Members Routes', () => {
   let app: express.Application;
   let adminToken: string;
   let memberToken: string;
+  let patronToken: string;
   let mockQuery: jest.Mock;
+  let savedImport: Record<string, any> = {};
 
   beforeAll(async () => {
     // Create mock query function
     mockQuery = jest.fn(async (text: string, params?: any[]) => {
+      // Handle member account balance - member 1 owes 4.50
+      if (text.includes('SUM(amount)') && text.includes('FROM member_account_entries')) {
+        return { rows: [{ balance: params![0] === 1 ? 4.5 : 0 }] };
+      }
+
+      // Handle member account ledger
+      if (text.includes('FROM member_account_entries') && text.includes('ORDER BY')) {
+        return { rows: testAccountEntries.filter(e => e.member_id === params![0]) };
+      }
+
+      // Handle member row lock for ledger entries
+      if (text.includes('FROM members WHERE id = $1 FOR UPDATE')) {
+        return { rows: testMembers.filter(m => m.id === params![0]).map(m => ({ id: m.id })) };
+      }
+
+      // Handle ledger INSERT
+      if (text.includes('INSERT INTO member_account_entries')) {
+        return {
+          rows: [{
+            id: 3,
+            member_id: params![0],
+            loan_id: params![1],
+            type: params![2],
+            amount: params![3],
+            balance_after: params![4],
+            description: params![5],
+            created_by: params![6],
+            created_at: new Date()
+          }]
+        };
+      }
+
       // Handle count queries
       if (text.includes('COUNT(*)')) {
+        if (text.includes('ms.search_vector @@') && !text.includes('m.id = $1')) {
+          return { rows: [{ count: String(searchMembers(params![0]).length) }] };
+        }
         return { rows: [{ count: '3' }] };
       }
 
+      // Handle similar words for misspelled searches
+      if (text.includes('ts_stat(')) {
+        const similar: Record<string, string> = { jhon: 'john' };
+        return { rows: params![0].filter((input: string) => similar[input]).map((input: string) => ({ input, word: similar[input] })) };
+      }
+
+      // Handle the member linked to a login - user 5 is linked to member 1
+      if (text.includes('JOIN users u ON u.member_id = m.id')) {
+        return { rows: params![0] === 5 ? [testMembers[0]] : [] };
+      }
+
       // Handle SELECT by ID (more specific, check first!)
       if (text.includes('SELECT * FROM members WHERE id')) {
         const id = params![0];
@@ -86,17 +151,18 @@ describe('Members Routes', () => {
       }
 
       // Handle SELECT queries for members list
-      if (text.includes('SELECT * FROM members')) {
+      if (text.includes('SELECT m.* FROM members m')) {
         let members = [...testMembers];
 
+        // Apply the patron scope
+        if (text.includes('m.id = $1')) {
+          members = members.filter(m => m.id === params![0]);
+        }
+
         // Apply search filter
-        if (params && params.length > 0 && text.includes('LOWER(name)')) {
-          const searchTerm = String(params[0]).replace(/%/g, '').toLowerCase();
-          members = members.filter(m =>
-            m.name.toLowerCase().includes(searchTerm) ||
-            m.email.toLowerCase().includes(searchTerm) ||
-            (m.phone && m.phone.includes(searchTerm))
-          );
+        if (text.includes('ms.search_vector @@')) {
+          const matching = searchMembers(params![text.includes('m.id = $1') ? 1 : 0]);
+          members = members.filter(m => matching.includes(m));
         }
 
         // Apply pagination
@@ -121,18 +187,13 @@ describe('Members Routes', () => {
       }
 
       // Handle UPDATE queries
-      if (text.includes('UPDATE members')) {
-        const id = params![params!.length - 1];
-        const member = testMembers.find(m => m.id === parseInt(id));
+      if (text.includes('UPDATE members SET')) {
+        const member = testMembers.find(m => m.id === parseInt(params![0]));
         if (member) {
-          return {
-            rows: [{
-              ...member,
-              name: params![0],
-              email: params![1],
-              phone: params![2],
-            }]
-          };
+          const fields = [...text.matchAll(/(\w+) = \$(\d+)/g)].filter(([, field]) => field !== 'id');
+          const updated: any = { ...member };
+          fields.forEach(([, field, index]) => { updated[field] = params![parseInt(index, 10) - 1]; });
+          return { rows: [updated] };
         }
         return { rows: [] };
       }
@@ -142,10 +203,30 @@ describe('Members Routes', () => {
         return { rows: [], rowCount: 1 };
       }
 
-      // Handle duplicate email check (for bulk import)
-      if (text.includes('SELECT id FROM members WHERE LOWER(email)')) {
-        // Return empty to allow import
-        return { rows: [] };
+      // Handle matching bulk import rows to members by email
+      if (text.includes('SELECT LOWER(email) AS email, name, phone FROM members')) {
+        const emails: string[] = params?.[0] || [];
+        return {
+          rows: testMembers
+            .filter(m => emails.includes(m.email))
+            .map(m => ({ email: m.email, name: m.name, phone: m.phone })),
+        };
+      }
+
+      // Handle saving a bulk import preview and its plan
+      if (text.includes('INSERT INTO imports')) {
+        const [kind, source, filename, columns, createdBy] = params || [];
+        savedImport = { id: 1, kind, source, filename, status: 'previewed', columns: JSON.parse(columns), created_by: createdBy };
+        return { rows: [savedImport] };
+      }
+      if (text.includes('UPDATE imports SET') && text.includes('mapping')) {
+        const [, mapping, mode, totalRows, createRows, updateRows, unchangedRows, duplicateRows, invalidRows] = params || [];
+        savedImport = {
+          ...savedImport, mapping: JSON.parse(mapping), mode,
+          total_rows: totalRows, create_rows: createRows, update_rows: updateRows, unchanged_rows: unchangedRows,
+          duplicate_rows: duplicateRows, invalid_rows: invalidRows,
+        };
+        return { rows: [savedImport] };
       }
 
       // Handle BEGIN/COMMIT for transactions
@@ -162,6 +243,7 @@ describe('Members Routes', () => {
     // Generate tokens
     adminToken = generateToken({ userId: 1, username: 'admin', role: 'admin' });
     memberToken = generateToken({ userId: 2, username: 'member', role: 'member' });
+    patronToken = generateToken({ userId: 5, username: 'patron', role: 'member', memberId: 1 });
 
     app = createTestApp();
   });
@@ -174,6 +256,7 @@ describe('Members Routes', () => {
     it('should get all members with default pagination', async () => {
       const response = await request(app)
         .get('/api/members')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.data).toHaveLength(3);
@@ -188,6 +271,7 @@ describe('Members Routes', () => {
     it('should paginate members correctly', async () => {
       const response = await request(app)
         .get('/api/members?page=1&limit=2')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.data).toHaveLength(2);
@@ -202,6 +286,7 @@ describe('Members Routes', () => {
     it('should search members by name', async () => {
       const response = await request(app)
         .get('/api/members?search=john')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.data.length).toBeGreaterThan(0);
@@ -213,6 +298,7 @@ describe('Members Routes', () => {
     it('should search members by email', async () => {
       const response = await request(app)
         .get('/api/members?search=jane')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.data.length).toBeGreaterThan(0);
@@ -221,6 +307,7 @@ describe('Members Routes', () => {
     it('should search members by phone', async () => {
       const response = await request(app)
         .get('/api/members?search=555')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.data).toBeDefined();
@@ -229,6 +316,7 @@ describe('Members Routes', () => {
     it('should sort members by name ascending', async () => {
       const response = await request(app)
         .get('/api/members?sortBy=name&sortOrder=asc')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.data).toBeDefined();
@@ -238,25 +326,137 @@ describe('Members Routes', () => {
     it('should sort members by name descending', async () => {
       const response = await request(app)
         .get('/api/members?sortBy=name&sortOrder=desc')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.data).toBeDefined();
       expect(mockQuery).toHaveBeenCalled();
     });
 
+    it('should match the start of words and sort searches by relevance', async () => {
+      const response = await request(app)
+        .get('/api/members?search=jo+do')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.map((m: any) => m.id)).toEqual([1]);
+      const listQuery = mockQuery.mock.calls.find((call: any) => call[0].includes('LIMIT'));
+      expect(listQuery[1][0]).toBe('jo:* & do:*');
+      expect(listQuery[0]).toContain('ORDER BY ts_rank(ms.search_vector');
+    });
+
+    it('should sort searches by another column when asked to', async () => {
+      await request(app)
+        .get('/api/members?search=jane&sortBy=email')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      const listQuery = mockQuery.mock.calls.find((call: any) => call[0].includes('LIMIT'));
+      expect(listQuery[0]).toContain('ORDER BY m.email ASC');
+    });
+
+    it('should fall back to similar words and suggest a correction when a search has no hits', async () => {
+      const response = await request(app)
+        .get('/api/members?search=jhon')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      // John Doe, and Bob Johnson as john starts Johnson
+      expect(response.body.data.map((m: any) => m.id)).toEqual([1, 3]);
+      expect(response.body.didYouMean).toBe('john');
+      const listQuery = mockQuery.mock.calls.find((call: any) => call[0].includes('LIMIT'));
+      expect(listQuery[1][0]).toBe('(jhon:* | john)');
+    });
+
     it('should return empty array when no members match search', async () => {
       const response = await request(app)
         .get('/api/members?search=nonexistentmember')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.data).toHaveLength(0);
     });
   });
 
+  describe('patron access', () => {
+    it('should only list the member linked to the login', async () => {
+      const response = await request(app)
+        .get('/api/members')
+        .set('Authorization', `Bearer ${patronToken}`)
+        .expect(200);
+
+      expect(response.body.data.map((m: any) => m.id)).toEqual([1]);
+      const listQuery = mockQuery.mock.calls.find((call: any) => call[0].includes('LIMIT'));
+      expect(listQuery[0]).toContain('id = $1');
+      expect(listQuery[1][0]).toBe(1);
+    });
+
+    it('should not offer a patron corrections from other members', async () => {
+      const response = await request(app)
+        .get('/api/members?search=jhon')
+        .set('Authorization', `Bearer ${patronToken}`)
+        .expect(200);
+
+      expect(response.body.didYouMean).toBeUndefined();
+      expect(mockQuery.mock.calls.some((call: any) => call[0].includes('ts_stat('))).toBe(false);
+    });
+
+    it('should return the linked member from /me', async () => {
+      const response = await request(app)
+        .get('/api/members/me')
+        .set('Authorization', `Bearer ${patronToken}`)
+        .expect(200);
+
+      expect(response.body.id).toBe(1);
+    });
+
+    it('should return 404 from /me for a login with no member', async () => {
+      const response = await request(app)
+        .get('/api/members/me')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(404);
+
+      expect(response.body.error).toContain('not linked');
+    });
+
+    it('should let a patron read their own account', async () => {
+      await request(app)
+        .get('/api/members/1/account')
+        .set('Authorization', `Bearer ${patronToken}`)
+        .expect(200);
+    });
+
+    it("should return 403 for another member's record", async () => {
+      const response = await request(app)
+        .get('/api/members/2')
+        .set('Authorization', `Bearer ${patronToken}`)
+        .expect(403);
+
+      expect(response.body.error).toContain('your own library records');
+    });
+
+    it("should return 403 for another member's account", async () => {
+      await request(app)
+        .get('/api/members/2/account')
+        .set('Authorization', `Bearer ${patronToken}`)
+        .expect(403);
+    });
+
+    it('should return 403 for a member login that is not linked', async () => {
+      const response = await request(app)
+        .get('/api/members')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(403);
+
+      expect(response.body.error).toContain('not linked');
+    });
+  });
+
   describe('GET /api/members/:id', () => {
     it('should get a specific member by ID', async () => {
       const response = await request(app)
         .get('/api/members/1')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body).toMatchObject({
@@ -269,6 +469,7 @@ describe('Members Routes', () => {
     it('should return 404 for nonexistent member', async () => {
       const response = await request(app)
         .get('/api/members/999')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(404);
 
       expect(response.body.error).toContain('not found');
@@ -277,6 +478,7 @@ describe('Members Routes', () => {
     it('should return member with null phone', async () => {
       const response = await request(app)
         .get('/api/members/3')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.phone).toBeNull();
@@ -303,6 +505,47 @@ describe('Members Routes', () => {
       expect(response.body.id).toBeDefined();
     });
 
+    it('should store a library card barcode', async () => {
+      await request(app)
+        .post('/api/members')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          name: 'Card Holder',
+          email: 'card@example.com',
+          barcode: ' M0042 '
+        })
+        .expect(201);
+
+      const insertCall = mockQuery.mock.calls.find(([text]) => text.includes('INSERT INTO members'));
+      expect(insertCall![1][4]).toBe('M0042');
+    });
+
+    it('should queue a member.created webhook event', async () => {
+      await request(app)
+        .post('/api/members')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          name: 'New Member',
+          email: 'newmember@example.com'
+        })
+        .expect(201);
+
+      const enqueue = mockQuery.mock.calls.find(([text]) => text.includes('INSERT INTO webhook_deliveries'));
+      expect(enqueue![1][0]).toBe('member.created');
+    });
+
+    it('should reject a barcode longer than 50 characters', async () => {
+      await request(app)
+        .post('/api/members')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          name: 'Card Holder',
+          email: 'card@example.com',
+          barcode: 'M'.repeat(51)
+        })
+        .expect(400);
+    });
+
     it('should create member without phone', async () => {
       const response = await request(app)
         .post('/api/members')
@@ -380,7 +623,7 @@ describe('Members Routes', () => {
       expect(response.body.name).toContain('Clean Name');
     });
 
-    it('should work with member token', async () => {
+    it('should require the members:write permission', async () => {
       const response = await request(app)
         .post('/api/members')
         .set('Authorization', `Bearer ${memberToken}`)
@@ -388,9 +631,9 @@ describe('Members Routes', () => {
           name: 'Member Created',
           email: 'membercreated@example.com'
         })
-        .expect(201);
+        .expect(403);
 
-      expect(response.body.name).toBe('Member Created');
+      expect(response.body.error).toContain('members:write');
     });
   });
 
@@ -449,6 +692,20 @@ describe('Members Routes', () => {
       expect(response.body.error).toContain('email');
     });
 
+    it('should queue a member.updated webhook event', async () => {
+      await request(app)
+        .put('/api/members/1')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          name: 'Updated Name',
+          email: 'updated@example.com'
+        })
+        .expect(200);
+
+      const enqueue = mockQuery.mock.calls.find(([text]) => text.includes('INSERT INTO webhook_deliveries'));
+      expect(enqueue![1][0]).toBe('member.updated');
+    });
+
     it('should sanitize updated name', async () => {
       const response = await request(app)
         .put('/api/members/1')
@@ -491,18 +748,28 @@ describe('Members Routes', () => {
       expect(response.body.error).toContain('not found');
     });
 
-    it('should allow member to delete members', async () => {
+    it('should queue a member.deleted webhook event', async () => {
+      await request(app)
+        .delete('/api/members/1')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(204);
+
+      const enqueue = mockQuery.mock.calls.find(([text]) => text.includes('INSERT INTO webhook_deliveries'));
+      expect(enqueue![1]).toEqual(['member.deleted', expect.stringContaining('"id":1'), null]);
+    });
+
+    it('should not allow members to delete members', async () => {
       await request(app)
         .delete('/api/members/2')
         .set('Authorization', `Bearer ${memberToken}`)
-        .expect(204);
+        .expect(403);
     });
   });
 
   describe('POST /api/members/bulk-import', () => {
-    it('should import members from CSV', async () => {
+    it('should preview a members CSV before importing it', async () => {
       const csvData = {
-        buffer: Buffer.from('name,email,phone\nTest User,test@example.com,555-0100'),
+        buffer: 'name,email,phone\nTest User,test@example.com,555-0100\nJohn Again,john@example.com,\nNo Email,,',
         originalname: 'members.csv',
         mimetype: 'text/csv'
       };
@@ -511,10 +778,20 @@ describe('Members Routes', () => {
         .post('/api/members/bulk-import')
         .set('Authorization', `Bearer ${adminToken}`)
         .send({ file: csvData })
-        .expect(200);
+        .expect(201);
 
-      expect(response.body.message).toContain('imported');
-      expect(response.body.imported).toBeGreaterThanOrEqual(0);
+      expect(response.body).toMatchObject({
+        kind: 'members',
+        status: 'previewed',
+        columns: ['name', 'email', 'phone'],
+        mapping: { name: 'name', email: 'email', phone: 'phone' },
+        mode: 'insert',
+        total_rows: 3,
+        create_rows: 1,
+        duplicate_rows: 1,
+        invalid_rows: 1,
+      });
+      expect(mockQuery.mock.calls.some(([text]) => text.includes('INSERT INTO members'))).toBe(false);
     });
 
     it('should require authentication', async () => {
@@ -535,4 +812,125 @@ describe('Members Routes', () => {
       expect(response.body.error).toContain('file');
     });
   });
+
+  describe('GET /api/members/:id/account', () => {
+    it('should return the balance and ledger entries', async () => {
+      const response = await request(app)
+        .get('/api/members/1/account')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.member_id).toBe(1);
+      expect(response.body.balance).toBe(4.5);
+      expect(response.body.data).toHaveLength(2);
+      expect(response.body.data[1].type).toBe('fine');
+    });
+
+    it('should require authentication', async () => {
+      await request(app)
+        .get('/api/members/1/account')
+        .expect(401);
+    });
+
+    it('should return 404 for nonexistent member', async () => {
+      await request(app)
+        .get('/api/members/999/account')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('POST /api/members/:id/account/payments', () => {
+    it('should record a payment and update the running balance', async () => {
+      const response = await request(app)
+        .post('/api/members/1/account/payments')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ amount: 2 })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        member_id: 1,
+        type: 'payment',
+        amount: -2,
+        balance_after: 2.5,
+        description: 'Payment'
+      });
+    });
+
+    it('should require the members:write permission', async () => {
+      await request(app)
+        .post('/api/members/1/account/payments')
+        .set('Authorization', `Bearer ${patronToken}`)
+        .send({ amount: 2 })
+        .expect(403);
+    });
+
+    it('should reject a payment above the outstanding balance', async () => {
+      const response = await request(app)
+        .post('/api/members/1/account/payments')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ amount: 10 })
+        .expect(400);
+
+      expect(response.body.error).toContain('exceeds the outstanding balance');
+    });
+
+    it('should reject a non-positive amount', async () => {
+      const response = await request(app)
+        .post('/api/members/1/account/payments')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ amount: -5 })
+        .expect(400);
+
+      expect(response.body.error).toContain('positive number');
+    });
+
+    it('should reject fractions of a cent', async () => {
+      await request(app)
+        .post('/api/members/1/account/payments')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ amount: 1.005 })
+        .expect(400);
+    });
+
+    it('should return 404 for nonexistent member', async () => {
+      await request(app)
+        .post('/api/members/999/account/payments')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ amount: 1 })
+        .expect(404);
+    });
+  });
+
+  describe('POST /api/members/:id/account/waivers', () => {
+    it('should waive part of the balance', async () => {
+      const response = await request(app)
+        .post('/api/members/1/account/waivers')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ amount: 4.5, description: 'First offence' })
+        .expect(201);
+
+      expect(response.body).toMatchObject({ type: 'waiver', amount: -4.5, balance_after: 0, description: 'First offence' });
+    });
+
+    it('should require the members:write permission', async () => {
+      await request(app)
+        .post('/api/members/1/account/waivers')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .send({ amount: 1 })
+        .expect(403);
+    });
+  });
+
+  describe('POST /api/members/:id/account/charges', () => {
+    it('should add a charge to the balance', async () => {
+      const response = await request(app)
+        .post('/api/members/2/account/charges')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ amount: 3.25, description: 'Damaged dust jacket' })
+        .expect(201);
+
+      expect(response.body).toMatchObject({ member_id: 2, type: 'charge', amount: 3.25, balance_after: 3.25 });
+    });
+  });
 });
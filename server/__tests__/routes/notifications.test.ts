@@ -0,0 +1,349 @@
+/**
+ * Notifications Routes Integration Tests
+ *
+ * Tests for loan notification emails including:
+ * - Sending due-soon, overdue and final notices once per due date
+ * - Recording failed deliveries and resending them
+ * - Listing notifications
+ * - Editing templates (settings:manage)
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { newDb, IMemoryDb } from 'pg-mem';
+import notificationsRoutes from '../../src/routes/notifications';
+import { errorHandler } from '../../src/middleware/errorHandler';
+import { generateToken } from '../../src/utils/authUtils';
+import { MailService } from '../../src/services/MailService';
+import { MailMessage } from '../../src/types/mail';
+
+let memDb: IMemoryDb;
+let testPool: any;
+
+// Mock the db module to use the in-memory database
+jest.mock('../../src/db', () => {
+  return {
+    get pool() {
+      return {
+        connect: async () => testPool.connect(),
+        query: (text: string, params?: any[]) => testPool.query(text, params),
+        end: async () => {},
+      };
+    },
+    query: async (text: string, params?: any[]) => testPool.query(text, params),
+  };
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY_MS);
+
+const createTestApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/notifications', notificationsRoutes);
+  app.use(errorHandler);
+  return app;
+};
+
+describe('Notifications Routes', () => {
+  let app: express.Application;
+  let adminToken: string;
+  let librarianToken: string;
+  let sendMail: jest.SpyInstance<Promise<void>, [MailMessage]>;
+  const query = (text: string, params?: any[]) => testPool.query(text, params);
+
+  // Add an open loan of a new book, due the given number of days from now
+  const addLoan = async (memberId: number, title: string, dueInDays: number, returned = false) => {
+    const book = await query('INSERT INTO books (title, author) VALUES ($1, $2) RETURNING id', [title, 'Some Author']);
+    const loan = await query(
+      'INSERT INTO loans (book_id, member_id, due_date, return_date) VALUES ($1, $2, $3, $4) RETURNING id',
+      [book.rows[0].id, memberId, daysFromNow(dueInDays), returned ? new Date() : null]
+    );
+    return loan.rows[0].id as number;
+  };
+
+  beforeAll(async () => {
+    memDb = newDb();
+    const { Pool } = memDb.adapters.createPg();
+    testPool = new Pool();
+
+    await query(`
+      CREATE TABLE members (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        email VARCHAR(255) UNIQUE NOT NULL
+      )
+    `);
+    await query(`
+      CREATE TABLE books (
+        id SERIAL PRIMARY KEY,
+        title VARCHAR(255) NOT NULL,
+        author VARCHAR(255) NOT NULL
+      )
+    `);
+    await query(`
+      CREATE TABLE loans (
+        id SERIAL PRIMARY KEY,
+        book_id INTEGER NOT NULL REFERENCES books(id),
+        member_id INTEGER NOT NULL REFERENCES members(id),
+        due_date TIMESTAMPTZ NOT NULL,
+        return_date TIMESTAMPTZ
+      )
+    `);
+    await query(`
+      CREATE TABLE notification_templates (
+        id SERIAL PRIMARY KEY,
+        kind VARCHAR(20) UNIQUE NOT NULL,
+        subject TEXT NOT NULL,
+        body TEXT NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await query(`
+      CREATE TABLE notifications (
+        id SERIAL PRIMARY KEY,
+        kind VARCHAR(20) NOT NULL,
+        loan_id INTEGER REFERENCES loans(id) ON DELETE SET NULL,
+        member_id INTEGER NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+        due_date TIMESTAMPTZ,
+        recipient VARCHAR(255) NOT NULL,
+        subject TEXT NOT NULL,
+        body TEXT NOT NULL,
+        status VARCHAR(10) NOT NULL DEFAULT 'pending',
+        error TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        sent_at TIMESTAMPTZ
+      )
+    `);
+    await query('CREATE UNIQUE INDEX idx_notifications_loan_kind_due_date ON notifications (loan_id, kind, due_date)');
+
+    app = createTestApp();
+    adminToken = generateToken({ userId: 1, username: 'admin', role: 'admin' });
+    librarianToken = generateToken({ userId: 2, username: 'librarian', role: 'librarian' });
+  });
+
+  beforeEach(async () => {
+    await query('DELETE FROM notifications');
+    await query('DELETE FROM notification_templates');
+    await query('DELETE FROM loans');
+    await query('DELETE FROM books');
+    await query('DELETE FROM members');
+
+    await query(`
+      INSERT INTO notification_templates (kind, subject, body) VALUES
+      ('due_soon', 'Due soon: {{book_title}}', 'Hello {{member_name}}, {{book_title}} is due in {{days}} day(s).'),
+      ('overdue', 'Overdue: {{book_title}}', 'Hello {{member_name}}, {{book_title}} is {{days}} day(s) overdue.'),
+      ('final_notice', 'Final notice: {{book_title}}', 'Hello {{member_name}}, {{book_title}} is {{days}} days overdue.')
+    `);
+    await query("INSERT INTO members (id, name, email) VALUES (1, 'Ada Reader', 'ada@example.com'), (2, 'Ben Borrower', 'ben@example.com')");
+
+    sendMail = jest.spyOn(MailService.prototype, 'send').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    sendMail.mockRestore();
+  });
+
+  describe('POST /api/notifications/run', () => {
+    it('should send each kind of notice to the member', async () => {
+      await addLoan(1, 'Due Tomorrow', 1);
+      await addLoan(1, 'Three Days Late', -3);
+      await addLoan(2, 'Long Overdue', -20);
+      await addLoan(2, 'Due Next Month', 30);
+      await addLoan(2, 'Returned Late', -3, true);
+
+      const response = await request(app)
+        .post('/api/notifications/run')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body).toEqual({ sent: 3, failed: 0 });
+      const messages = sendMail.mock.calls.map(([message]) => message);
+      expect(messages.map(message => message.subject).sort()).toEqual([
+        'Due soon: Due Tomorrow',
+        'Final notice: Long Overdue',
+        'Overdue: Three Days Late',
+      ]);
+      const overdue = messages.find(message => message.subject === 'Overdue: Three Days Late')!;
+      expect(overdue.to).toBe('ada@example.com');
+      expect(overdue.text).toBe('Hello Ada Reader, Three Days Late is 3 day(s) overdue.');
+      expect(overdue.html).toContain('<p>Hello Ada Reader, Three Days Late is 3 day(s) overdue.</p>');
+    });
+
+    it('should not notify a member again on the next run', async () => {
+      await addLoan(1, 'Three Days Late', -3);
+
+      await request(app).post('/api/notifications/run').set('Authorization', `Bearer ${adminToken}`).expect(200);
+      const response = await request(app)
+        .post('/api/notifications/run')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body).toEqual({ sent: 0, failed: 0 });
+      expect(sendMail).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send a new reminder after a renewal moves the due date', async () => {
+      const loanId = await addLoan(1, 'Renewed Book', 1);
+      await request(app).post('/api/notifications/run').set('Authorization', `Bearer ${adminToken}`).expect(200);
+
+      await query('UPDATE loans SET due_date = $1 WHERE id = $2', [daysFromNow(2), loanId]);
+      const response = await request(app)
+        .post('/api/notifications/run')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body).toEqual({ sent: 1, failed: 0 });
+    });
+
+    it('should record a failed delivery without retrying it', async () => {
+      await addLoan(1, 'Three Days Late', -3);
+      sendMail.mockRejectedValueOnce(new Error('SMTP RCPT failed: 550 no such user'));
+
+      const first = await request(app)
+        .post('/api/notifications/run')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(first.body).toEqual({ sent: 0, failed: 1 });
+
+      const { rows } = await query('SELECT status, error, attempts FROM notifications');
+      expect(rows[0]).toMatchObject({ status: 'failed', error: 'SMTP RCPT failed: 550 no such user', attempts: 1 });
+
+      const second = await request(app)
+        .post('/api/notifications/run')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(second.body).toEqual({ sent: 0, failed: 0 });
+    });
+
+    it('should require the settings:manage permission', async () => {
+      await request(app)
+        .post('/api/notifications/run')
+        .set('Authorization', `Bearer ${librarianToken}`)
+        .expect(403);
+    });
+  });
+
+  describe('POST /api/notifications/:id/resend', () => {
+    it('should resend to the member\'s current email address', async () => {
+      await addLoan(1, 'Three Days Late', -3);
+      sendMail.mockRejectedValueOnce(new Error('Connection refused'));
+      await request(app).post('/api/notifications/run').set('Authorization', `Bearer ${adminToken}`).expect(200);
+      await query("UPDATE members SET email = 'ada@new.example.com' WHERE id = 1");
+      const { rows } = await query('SELECT id FROM notifications');
+
+      const response = await request(app)
+        .post(`/api/notifications/${rows[0].id}/resend`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body).toMatchObject({ status: 'sent', recipient: 'ada@new.example.com', attempts: 2, error: null });
+      expect(sendMail).toHaveBeenLastCalledWith(expect.objectContaining({
+        to: 'ada@new.example.com',
+        subject: 'Overdue: Three Days Late',
+      }));
+    });
+
+    it('should return 404 for a nonexistent notification', async () => {
+      await request(app)
+        .post('/api/notifications/999/resend')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/notifications', () => {
+    beforeEach(async () => {
+      await addLoan(1, 'Due Tomorrow', 1);
+      await addLoan(2, 'Three Days Late', -3);
+      sendMail.mockImplementation(async (message: MailMessage) => {
+        if (message.to === 'ben@example.com') {
+          throw new Error('Mailbox full');
+        }
+      });
+      await request(app).post('/api/notifications/run').set('Authorization', `Bearer ${adminToken}`).expect(200);
+    });
+
+    it('should list notifications with their member and book', async () => {
+      const response = await request(app)
+        .get('/api/notifications')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.pagination.total).toBe(2);
+      expect(response.body.data).toEqual(expect.arrayContaining([
+        expect.objectContaining({ kind: 'due_soon', status: 'sent', member_name: 'Ada Reader', book_title: 'Due Tomorrow' }),
+        expect.objectContaining({ kind: 'overdue', status: 'failed', member_name: 'Ben Borrower', error: 'Mailbox full' }),
+      ]));
+    });
+
+    it('should filter by status', async () => {
+      const response = await request(app)
+        .get('/api/notifications?status=failed')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].recipient).toBe('ben@example.com');
+    });
+
+    it('should reject an unknown status', async () => {
+      await request(app)
+        .get('/api/notifications?status=bounced')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+    });
+  });
+
+  describe('templates', () => {
+    it('should list the templates', async () => {
+      const response = await request(app)
+        .get('/api/notifications/templates')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.map((template: { kind: string }) => template.kind)).toEqual(['due_soon', 'overdue', 'final_notice']);
+    });
+
+    it('should update a template used by later notices', async () => {
+      await request(app)
+        .put('/api/notifications/templates/overdue')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ subject: 'Please return {{book_title}}', body: 'Dear {{member_name}}, it was due on {{due_date}}.' })
+        .expect(200);
+
+      await addLoan(1, 'Three Days Late', -3);
+      await request(app).post('/api/notifications/run').set('Authorization', `Bearer ${adminToken}`).expect(200);
+
+      expect(sendMail.mock.calls[0][0].subject).toBe('Please return Three Days Late');
+      expect(sendMail.mock.calls[0][0].text).toMatch(/^Dear Ada Reader, it was due on \w+ \d+, \d{4}\.$/);
+    });
+
+    it('should reject unknown placeholders', async () => {
+      const response = await request(app)
+        .put('/api/notifications/templates/overdue')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ subject: 'Overdue', body: 'Pay {{fine_amount}} now' })
+        .expect(400);
+
+      expect(response.body.error).toContain('Unknown placeholder {{fine_amount}}');
+    });
+
+    it('should return 404 for an unknown kind', async () => {
+      await request(app)
+        .put('/api/notifications/templates/birthday')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ subject: 'Happy birthday', body: 'Hello' })
+        .expect(404);
+    });
+
+    it('should require a subject and body', async () => {
+      await request(app)
+        .put('/api/notifications/templates/overdue')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ subject: ' ' })
+        .expect(400);
+    });
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Circulation Policies Routes Integration Tests
+ *
+ * Tests for all policy endpoints including:
+ * - List policies
+ * - Create, update and delete policies (admin-only)
+ * - Protection of the global policy
+ */
+
+import request from 'supertest';
+import express from 'express';
+import policiesRoutes from '../../src/routes/policies';
+import { errorHandler } from '../../src/middleware/errorHandler';
+import { generateToken } from '../../src/utils/authUtils';
+
+// Test data
+const testPolicies = [
+  { id: 1, category_id: null, member_type: null, loan_period_days: 14, max_active_loans: 5, max_renewals: 2, grace_days: 0, category_name: null },
+  { id: 2, category_id: 4, member_type: null, loan_period_days: 3, max_active_loans: null, max_renewals: 0, grace_days: null, category_name: 'Reference' },
+];
+
+// Mock database query function
+let queryFn: (text: string, params?: any[]) => Promise<any>;
+
+// Mock the db module
+jest.mock('../../src/db', () => {
+  return {
+    get pool() {
+      return {
+        connect: async () => {
+          const client = {
+            query: (text: string, params?: any[]) => queryFn(text, params),
+            release: () => {},
+          };
+          return client;
+        },
+        query: (text: string, params?: any[]) => queryFn(text, params),
+        end: async () => {},
+      };
+    },
+    query: async (text: string, params?: any[]) => {
+      return queryFn(text, params);
+    },
+  };
+});
+
+// Create a test app instance
+const createTestApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/policies', policiesRoutes);
+  app.use(errorHandler);
+  return app;
+};
+
+describe('Circulation Policies Routes', () => {
+  let app: express.Application;
+  let adminToken: string;
+  let memberToken: string;
+  let mockQuery: jest.Mock;
+
+  beforeAll(async () => {
+    // Create mock query function
+    mockQuery = jest.fn(async (text: string, params?: any[]) => {
+      // Handle list with category names
+      if (text.includes('LEFT JOIN categories')) {
+        return { rows: testPolicies };
+      }
+
+      // Handle SELECT policy by ID
+      if (text.includes('SELECT * FROM circulation_policies WHERE id = $1')) {
+        const policy = testPolicies.find(p => p.id === params![0]);
+        return { rows: policy ? [policy] : [] };
+      }
+
+      // Handle INSERT policy
+      if (text.includes('INSERT INTO circulation_policies')) {
+        const columns = text.match(/\(([^)]+)\) VALUES/)![1].split(', ');
+        const policy: any = { id: 3 };
+        columns.forEach((column, i) => { policy[column] = params![i]; });
+        return { rows: [policy] };
+      }
+
+      // Handle UPDATE policy
+      if (text.includes('UPDATE circulation_policies')) {
+        const policy = testPolicies.find(p => p.id === params![0]);
+        return { rows: policy ? [{ ...policy, loan_period_days: params![1] }] : [] };
+      }
+
+      // Handle DELETE policy
+      if (text.includes('DELETE FROM circulation_policies')) {
+        return { rows: [], rowCount: 1 };
+      }
+
+      // Default empty result
+      return { rows: [] };
+    });
+
+    queryFn = mockQuery;
+
+    // Generate tokens
+    adminToken = generateToken({ userId: 1, username: 'admin', role: 'admin' });
+    memberToken = generateToken({ userId: 2, username: 'member', role: 'member' });
+
+    app = createTestApp();
+  });
+
+  beforeEach(() => {
+    mockQuery.mockClear();
+  });
+
+  describe('GET /api/policies', () => {
+    it('should list all policies', async () => {
+      const response = await request(app)
+        .get('/api/policies')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(200);
+
+      expect(response.body).toHaveLength(2);
+      expect(response.body[1].category_name).toBe('Reference');
+    });
+
+    it('should require authentication', async () => {
+      await request(app)
+        .get('/api/policies')
+        .expect(401);
+    });
+  });
+
+  describe('POST /api/policies', () => {
+    it('should create a member type policy', async () => {
+      const response = await request(app)
+        .post('/api/policies')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ member_type: 'Staff', max_active_loans: 20 })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        category_id: null,
+        member_type: 'staff',
+        max_active_loans: 20
+      });
+    });
+
+    it('should require the settings:manage permission', async () => {
+      await request(app)
+        .post('/api/policies')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .send({ member_type: 'staff', max_active_loans: 20 })
+        .expect(403);
+    });
+
+    it('should reject a second global policy', async () => {
+      const response = await request(app)
+        .post('/api/policies')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ loan_period_days: 21 })
+        .expect(409);
+
+      expect(response.body.error).toContain('global policy already exists');
+    });
+
+    it('should reject a loan period of zero days', async () => {
+      const response = await request(app)
+        .post('/api/policies')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ category_id: 4, loan_period_days: 0 })
+        .expect(400);
+
+      expect(response.body.error).toContain('loan_period_days');
+    });
+
+    it('should reject a non-integer category_id', async () => {
+      await request(app)
+        .post('/api/policies')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ category_id: 'dvd', loan_period_days: 7 })
+        .expect(400);
+    });
+  });
+
+  describe('PUT /api/policies/:id', () => {
+    it('should update a policy', async () => {
+      const response = await request(app)
+        .put('/api/policies/2')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ loan_period_days: 7 })
+        .expect(200);
+
+      expect(response.body.loan_period_days).toBe(7);
+    });
+
+    it('should not allow clearing a field of the global policy', async () => {
+      const response = await request(app)
+        .put('/api/policies/1')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ grace_days: null })
+        .expect(400);
+
+      expect(response.body.error).toContain('global policy must set grace_days');
+    });
+
+    it('should return 404 for nonexistent policy', async () => {
+      await request(app)
+        .put('/api/policies/999')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ loan_period_days: 7 })
+        .expect(404);
+    });
+  });
+
+  describe('DELETE /api/policies/:id', () => {
+    it('should delete a category policy', async () => {
+      await request(app)
+        .delete('/api/policies/2')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(204);
+    });
+
+    it('should not delete the global policy', async () => {
+      const response = await request(app)
+        .delete('/api/policies/1')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+
+      expect(response.body.error).toContain('cannot be deleted');
+    });
+  });
+});
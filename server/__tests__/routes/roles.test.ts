@@ -0,0 +1,274 @@
+/**
+ * Roles Routes Integration Tests
+ *
+ * Tests for all role endpoints including:
+ * - List roles and permissions
+ * - Create, update and delete custom roles (users:manage)
+ * - Protection of built-in roles and roles in use
+ */
+
+import request from 'supertest';
+import express from 'express';
+import rolesRoutes from '../../src/routes/roles';
+import { errorHandler } from '../../src/middleware/errorHandler';
+import { generateToken } from '../../src/utils/authUtils';
+
+// Test data
+const testRoles = [
+  { id: 1, name: 'admin', description: 'Full access', permissions: ['books:write', 'users:manage'], built_in: true, user_count: 1 },
+  { id: 2, name: 'patron', description: 'Library member', permissions: [], built_in: true, user_count: 4 },
+  { id: 5, name: 'cataloger', description: 'Catalogue only', permissions: ['books:write'], built_in: false, user_count: 2 },
+  { id: 6, name: 'archivist', description: null, permissions: ['export:run'], built_in: false, user_count: 0 },
+];
+
+// Mock database query function
+let queryFn: (text: string, params?: any[]) => Promise<any>;
+
+// Mock the db module
+jest.mock('../../src/db', () => {
+  return {
+    get pool() {
+      return {
+        connect: async () => {
+          const client = {
+            query: (text: string, params?: any[]) => queryFn(text, params),
+            release: () => {},
+          };
+          return client;
+        },
+        query: (text: string, params?: any[]) => queryFn(text, params),
+        end: async () => {},
+      };
+    },
+    query: async (text: string, params?: any[]) => {
+      return queryFn(text, params);
+    },
+  };
+});
+
+// Create a test app instance
+const createTestApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/roles', rolesRoutes);
+  app.use(errorHandler);
+  return app;
+};
+
+describe('Roles Routes', () => {
+  let app: express.Application;
+  let adminToken: string;
+  let librarianToken: string;
+  let mockQuery: jest.Mock;
+
+  beforeAll(async () => {
+    // Create mock query function
+    mockQuery = jest.fn(async (text: string, params?: any[]) => {
+      // Handle list with user counts
+      if (text.includes('LEFT JOIN users u ON u.role = r.name')) {
+        return { rows: testRoles };
+      }
+
+      // Handle SELECT role by ID
+      if (text.includes('SELECT * FROM roles WHERE id = $1')) {
+        const role = testRoles.find(r => r.id === params![0]);
+        return { rows: role ? [role] : [] };
+      }
+
+      // Handle SELECT role by name
+      if (text.includes('SELECT * FROM roles WHERE name = $1')) {
+        const role = testRoles.find(r => r.name === params![0]);
+        return { rows: role ? [role] : [] };
+      }
+
+      // Handle user count for a role
+      if (text.includes('FROM users WHERE role = $1')) {
+        const role = testRoles.find(r => r.name === params![0]);
+        return { rows: [{ count: role ? role.user_count : 0 }] };
+      }
+
+      // Handle INSERT role
+      if (text.includes('INSERT INTO roles')) {
+        const columns = text.match(/\(([^)]+)\) VALUES/)![1].split(', ');
+        const role: any = { id: 7, built_in: false };
+        columns.forEach((column, i) => { role[column] = params![i]; });
+        return { rows: [role] };
+      }
+
+      // Handle UPDATE role
+      if (text.includes('UPDATE roles')) {
+        const role = testRoles.find(r => r.id === params![0]);
+        return { rows: role ? [{ ...role, name: params![1], description: params![2], permissions: params![3] }] : [] };
+      }
+
+      // Handle DELETE role
+      if (text.includes('DELETE FROM roles')) {
+        return { rows: [], rowCount: 1 };
+      }
+
+      // Default empty result
+      return { rows: [] };
+    });
+
+    queryFn = mockQuery;
+
+    // Generate tokens
+    adminToken = generateToken({ userId: 1, username: 'admin', role: 'admin' });
+    librarianToken = generateToken({ userId: 2, username: 'librarian', role: 'librarian' });
+
+    app = createTestApp();
+  });
+
+  beforeEach(() => {
+    mockQuery.mockClear();
+  });
+
+  describe('GET /api/roles', () => {
+    it('should list all roles with user counts', async () => {
+      const response = await request(app)
+        .get('/api/roles')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body).toHaveLength(4);
+      expect(response.body[2]).toMatchObject({ name: 'cataloger', user_count: 2 });
+    });
+
+    it('should require the users:manage permission', async () => {
+      const response = await request(app)
+        .get('/api/roles')
+        .set('Authorization', `Bearer ${librarianToken}`)
+        .expect(403);
+
+      expect(response.body.error).toContain('users:manage');
+    });
+
+    it('should require authentication', async () => {
+      await request(app)
+        .get('/api/roles')
+        .expect(401);
+    });
+  });
+
+  describe('GET /api/roles/permissions', () => {
+    it('should list every permission with a description', async () => {
+      const response = await request(app)
+        .get('/api/roles/permissions')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.map((p: any) => p.name)).toEqual(expect.arrayContaining([
+        'books:write', 'loans:checkout', 'members:read', 'export:run', 'users:manage'
+      ]));
+      expect(response.body[0].description).toBeTruthy();
+    });
+  });
+
+  describe('POST /api/roles', () => {
+    it('should create a custom role', async () => {
+      const response = await request(app)
+        .post('/api/roles')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'shelver', description: 'Reshelves returns', permissions: ['loans:checkout', 'loans:checkout'] })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        name: 'shelver',
+        description: 'Reshelves returns',
+        permissions: ['loans:checkout'],
+        built_in: false
+      });
+    });
+
+    it('should reject an unknown permission', async () => {
+      const response = await request(app)
+        .post('/api/roles')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'shelver', permissions: ['books:burn'] })
+        .expect(400);
+
+      expect(response.body.error).toContain('Unknown permission: books:burn');
+    });
+
+    it('should reject an invalid name', async () => {
+      await request(app)
+        .post('/api/roles')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'Head Librarian', permissions: [] })
+        .expect(400);
+    });
+
+    it('should reject the name of an existing role', async () => {
+      const response = await request(app)
+        .post('/api/roles')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'cataloger', permissions: [] })
+        .expect(409);
+
+      expect(response.body.error).toContain('already exists');
+    });
+
+    it('should reject the name of a built-in role', async () => {
+      await request(app)
+        .post('/api/roles')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'volunteer', permissions: [] })
+        .expect(409);
+    });
+  });
+
+  describe('PUT /api/roles/:id', () => {
+    it('should update a custom role', async () => {
+      const response = await request(app)
+        .put('/api/roles/5')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'cataloger', description: 'Catalogue and export', permissions: ['books:write', 'export:run'] })
+        .expect(200);
+
+      expect(response.body.permissions).toEqual(['books:write', 'export:run']);
+    });
+
+    it('should not allow changing a built-in role', async () => {
+      const response = await request(app)
+        .put('/api/roles/2')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'patron', permissions: ['books:write'] })
+        .expect(400);
+
+      expect(response.body.error).toBe('Built-in roles cannot be changed');
+    });
+
+    it('should return 404 for a missing role', async () => {
+      await request(app)
+        .put('/api/roles/99')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'ghost', permissions: [] })
+        .expect(404);
+    });
+  });
+
+  describe('DELETE /api/roles/:id', () => {
+    it('should delete an unused custom role', async () => {
+      await request(app)
+        .delete('/api/roles/6')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(204);
+    });
+
+    it('should not delete a role assigned to users', async () => {
+      const response = await request(app)
+        .delete('/api/roles/5')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+
+      expect(response.body.error).toContain('assigned to 2 users');
+    });
+
+    it('should not delete a built-in role', async () => {
+      await request(app)
+        .delete('/api/roles/1')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+    });
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Saved Searches Routes Integration Tests
+ *
+ * Tests for saved searches and smart collections including:
+ * - Saving a search with its filters, checking its fields and filters
+ * - Listing a user's own searches and those shared by others
+ * - Only the owner changing or deleting a search
+ * - Pinning smart collections, and unpinning when they stop being shared
+ * - Finding a saved search's books when it is run
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { newDb, IMemoryDb } from 'pg-mem';
+import savedSearchesRoutes from '../../src/routes/savedSearches';
+import { errorHandler } from '../../src/middleware/errorHandler';
+import { generateToken } from '../../src/utils/authUtils';
+import { BookService } from '../../src/services/BookService';
+
+let memDb: IMemoryDb;
+let testPool: any;
+
+// Mock the db module to use the in-memory database
+jest.mock('../../src/db', () => {
+  return {
+    get pool() {
+      return {
+        connect: async () => testPool.connect(),
+        query: (text: string, params?: any[]) => testPool.query(text, params),
+        end: async () => {},
+      };
+    },
+    query: async (text: string, params?: any[]) => testPool.query(text, params),
+  };
+});
+
+const createTestApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/saved-searches', savedSearchesRoutes);
+  app.use(errorHandler);
+  return app;
+};
+
+describe('Saved Searches Routes', () => {
+  let app: express.Application;
+  let adminToken: string;
+  let librarianToken: string;
+  const query = (text: string, params?: any[]) => testPool.query(text, params);
+
+  const saveSearch = async (token: string, body: Record<string, unknown>) => {
+    const response = await request(app)
+      .post('/api/saved-searches')
+      .set('Authorization', `Bearer ${token}`)
+      .send(body)
+      .expect(201);
+    return response.body;
+  };
+
+  const listSearches = async (token: string) => {
+    const response = await request(app)
+      .get('/api/saved-searches')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    return response.body;
+  };
+
+  beforeAll(async () => {
+    memDb = newDb();
+    const { Pool } = memDb.adapters.createPg();
+    testPool = new Pool();
+
+    await query(`
+      CREATE TABLE users (
+        id SERIAL PRIMARY KEY,
+        username VARCHAR(255) NOT NULL
+      )
+    `);
+    await query(`
+      CREATE TABLE saved_searches (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        search TEXT NOT NULL DEFAULT '',
+        filters JSONB NOT NULL DEFAULT '{}',
+        collection BOOLEAN NOT NULL DEFAULT false,
+        shared BOOLEAN NOT NULL DEFAULT false,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await query('CREATE UNIQUE INDEX saved_searches_user_id_name_index ON saved_searches (user_id, name)');
+    await query(`
+      CREATE TABLE saved_search_pins (
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        saved_search_id INTEGER NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (user_id, saved_search_id)
+      )
+    `);
+    await query("INSERT INTO users (username) VALUES ('admin'), ('librarian')");
+
+    app = createTestApp();
+    adminToken = generateToken({ userId: 1, username: 'admin', role: 'admin' });
+    librarianToken = generateToken({ userId: 2, username: 'librarian', role: 'librarian' });
+  });
+
+  beforeEach(async () => {
+    await query('DELETE FROM saved_search_pins');
+    await query('DELETE FROM saved_searches');
+  });
+
+  describe('saving searches', () => {
+    it('should save a search with its filters', async () => {
+      const saved = await saveSearch(adminToken, {
+        name: '  Unread fantasy available now ',
+        search: 'category:fantasy borrowed:never',
+        filters: { available: true, formats: ['paperback'], categoryIds: [3], categoryMatch: 'any' },
+        collection: true,
+      });
+
+      expect(saved).toMatchObject({
+        user_id: 1,
+        name: 'Unread fantasy available now',
+        search: 'category:fantasy borrowed:never',
+        filters: { available: true, formats: ['paperback'], categoryIds: [3], categoryMatch: 'any' },
+        collection: true,
+        shared: false,
+      });
+    });
+
+    it('should require authentication', async () => {
+      await request(app).get('/api/saved-searches').expect(401);
+    });
+
+    it.each([
+      [{ search: 'dune' }, 'Name is required'],
+      [{ name: 'Colours', search: 'colour:red' }, 'Invalid search: unknown field "colour"'],
+      [{ name: 'Scrolls', filters: { formats: ['scroll'] } }, 'Filter formats must be a list of: hardcover'],
+      [{ name: 'Odd', filters: { decades: ['1990s'] } }, 'Filter decades must be a list of years'],
+      [{ name: 'Shared', shared: 'yes' }, 'Shared must be true or false'],
+    ])('should reject %j', async (body, error) => {
+      const response = await request(app)
+        .post('/api/saved-searches')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send(body)
+        .expect(400);
+
+      expect(response.body.error).toContain(error);
+    });
+
+    it('should reject a second search with the same name', async () => {
+      await saveSearch(adminToken, { name: 'New this month', search: 'added:this-month' });
+
+      await request(app)
+        .post('/api/saved-searches')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'New this month', search: 'added:30d' })
+        .expect(409);
+    });
+  });
+
+  describe('sharing', () => {
+    it('should list a user\'s own searches and those shared by others', async () => {
+      await saveSearch(adminToken, { name: 'Admin private', search: 'author:pratchett' });
+      await saveSearch(adminToken, { name: 'Admin shared', search: 'added:this-month', collection: true, shared: true });
+      await saveSearch(librarianToken, { name: 'Librarian private', search: 'year:1990s' });
+
+      const searches = await listSearches(librarianToken);
+
+      expect(searches.map((search: any) => search.name)).toEqual(['Admin shared', 'Librarian private']);
+      expect(searches[0]).toMatchObject({ owner_username: 'admin', pinned: false });
+    });
+
+    it('should only let the owner change or delete a shared search', async () => {
+      const shared = await saveSearch(adminToken, { name: 'Admin shared', search: 'format:ebook', shared: true });
+
+      const update = await request(app)
+        .put(`/api/saved-searches/${shared.id}`)
+        .set('Authorization', `Bearer ${librarianToken}`)
+        .send({ name: 'Taken over' })
+        .expect(403);
+      expect(update.body.error).toBe('Only the owner of a saved search can change it');
+
+      await request(app)
+        .delete(`/api/saved-searches/${shared.id}`)
+        .set('Authorization', `Bearer ${librarianToken}`)
+        .expect(403);
+
+      await request(app)
+        .delete(`/api/saved-searches/${shared.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(204);
+    });
+
+    it('should hide another user\'s private search', async () => {
+      const saved = await saveSearch(adminToken, { name: 'Admin private', search: 'author:pratchett' });
+
+      const response = await request(app)
+        .get(`/api/saved-searches/${saved.id}`)
+        .set('Authorization', `Bearer ${librarianToken}`)
+        .expect(404);
+
+      expect(response.body.error).toBe('Saved search not found');
+    });
+  });
+
+  describe('pinning collections', () => {
+    it('should pin and unpin a shared collection', async () => {
+      const collection = await saveSearch(adminToken, { name: 'New this month', search: 'added:this-month', collection: true, shared: true });
+
+      await request(app)
+        .put(`/api/saved-searches/${collection.id}/pin`)
+        .set('Authorization', `Bearer ${librarianToken}`)
+        .expect(204);
+      // Pinning twice keeps one pin
+      await request(app)
+        .put(`/api/saved-searches/${collection.id}/pin`)
+        .set('Authorization', `Bearer ${librarianToken}`)
+        .expect(204);
+
+      expect((await listSearches(librarianToken))[0].pinned).toBe(true);
+      expect((await listSearches(adminToken))[0].pinned).toBe(false);
+
+      await request(app)
+        .delete(`/api/saved-searches/${collection.id}/pin`)
+        .set('Authorization', `Bearer ${librarianToken}`)
+        .expect(204);
+      expect((await listSearches(librarianToken))[0].pinned).toBe(false);
+    });
+
+    it('should not pin a saved search that is not a collection', async () => {
+      const saved = await saveSearch(adminToken, { name: 'Pratchett', search: 'author:pratchett' });
+
+      const response = await request(app)
+        .put(`/api/saved-searches/${saved.id}/pin`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+
+      expect(response.body.error).toBe('Only smart collections can be pinned');
+    });
+
+    it('should unpin a collection from other users when it stops being shared', async () => {
+      const collection = await saveSearch(adminToken, { name: 'Audiobooks', search: 'format:audiobook', collection: true, shared: true });
+      for (const token of [adminToken, librarianToken]) {
+        await request(app)
+          .put(`/api/saved-searches/${collection.id}/pin`)
+          .set('Authorization', `Bearer ${token}`)
+          .expect(204);
+      }
+
+      await request(app)
+        .put(`/api/saved-searches/${collection.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'Audiobooks', search: 'format:audiobook', collection: true, shared: false })
+        .expect(200);
+
+      const { rows } = await query('SELECT user_id FROM saved_search_pins');
+      expect(rows).toEqual([{ user_id: 1 }]);
+    });
+  });
+
+  describe('GET /api/saved-searches/:id/books', () => {
+    it('should find the books of a saved search with its filters', async () => {
+      const getBooks = jest.spyOn(BookService.prototype, 'getBooks').mockResolvedValue({
+        data: [],
+        pagination: { page: 2, limit: 10, total: 0, totalPages: 0 },
+      });
+      const collection = await saveSearch(adminToken, {
+        name: 'Unread fantasy',
+        search: 'category:fantasy borrowed:no',
+        filters: { available: true },
+        collection: true,
+        shared: true,
+      });
+
+      await request(app)
+        .get(`/api/saved-searches/${collection.id}/books?page=2&limit=10`)
+        .set('Authorization', `Bearer ${librarianToken}`)
+        .expect(200);
+
+      expect(getBooks).toHaveBeenCalledWith({
+        page: 2,
+        limit: 10,
+        search: 'category:fantasy borrowed:no',
+        filters: { available: true },
+      });
+      getBooks.mockRestore();
+    });
+  });
+});
@@ -84,13 +84,13 @@ describe('System Routes', () => {
       expect(response.body.error).toBe('Authentication token required');
     });
 
-    it('should require admin role', async () => {
+    it('should require the settings:manage permission', async () => {
       const response = await request(app)
         .get('/api/system/info')
         .set('Authorization', `Bearer ${memberToken}`)
         .expect(403);
 
-      expect(response.body.error).toContain('Admin');
+      expect(response.body.error).toContain('settings:manage');
     });
 
     it('should check database connection', async () => {
@@ -6,6 +6,9 @@
  * - Update user (with last admin protection)
  * - Delete user (with self-deletion and last admin protection)
  * - Change user password
+ * - List and revoke a user's sessions
+ * - Require and reset two-factor authentication
+ * - Login history and unlocking accounts
  */
 
 import request from 'supertest';
@@ -16,9 +19,14 @@ import { generateToken } from '../../src/utils/authUtils';
 
 // Test data
 const testUsers = [
-  { id: 1, username: 'admin1', role: 'admin', created_at: new Date('2024-01-01') },
-  { id: 2, username: 'admin2', role: 'admin', created_at: new Date('2024-01-02') },
-  { id: 3, username: 'member1', role: 'member', created_at: new Date('2024-01-03') },
+  { id: 1, username: 'admin1', role: 'admin', member_id: null, member_name: null, created_at: new Date('2024-01-01') },
+  { id: 2, username: 'admin2', role: 'admin', member_id: null, member_name: null, created_at: new Date('2024-01-02') },
+  { id: 3, username: 'member1', role: 'member', member_id: 7, member_name: 'Member One', created_at: new Date('2024-01-03') },
+];
+
+const testSessions = [
+  { id: 11, user_id: 3, user_agent: 'Firefox', ip_address: '10.0.0.5', revoked_at: null, revoked_reason: null },
+  { id: 12, user_id: 3, user_agent: 'Safari', ip_address: '10.0.0.6', revoked_at: null, revoked_reason: null },
 ];
 
 // Mock database query function
@@ -27,6 +35,15 @@ let queryFn: (text: string, params?: any[]) => Promise<any>;
 // Mock the db module
 jest.mock('../../src/db', () => {
   return {
+    get pool() {
+      return {
+        connect: async () => ({
+          query: (text: string, params?: any[]) => queryFn(text, params),
+          release: () => {},
+        }),
+        query: (text: string, params?: any[]) => queryFn(text, params),
+      };
+    },
     query: async (text: string, params?: any[]) => {
       return queryFn(text, params);
     },
@@ -53,7 +70,7 @@ describe('Users Routes', () => {
     // Create mock query function
     mockQuery = jest.fn(async (text: string, params?: any[]) => {
       // Handle SELECT all users
-      if (text.includes('SELECT id, username, role, created_at FROM users')) {
+      if (text.includes('FROM users u') && text.includes('LEFT JOIN members m')) {
         return { rows: [...testUsers] };
       }
 
@@ -79,7 +96,8 @@ describe('Users Routes', () => {
             rows: [{
               id: user.id,
               username: params![0],
-              role: params![1]
+              role: params![1],
+              member_id: params![3] ? params![4] : user.member_id
             }]
           };
         }
@@ -96,6 +114,58 @@ describe('Users Routes', () => {
         return { rows: [], rowCount: 1 };
       }
 
+      // Handle SELECT user by ID
+      if (text.includes('SELECT * FROM users WHERE id = $1')) {
+        const user = testUsers.find(u => u.id === params![0]);
+        return { rows: user ? [{ ...user, totp_enabled: user.id === 3, two_factor_required: false }] : [] };
+      }
+
+      // Handle UPDATE two-factor columns
+      if (text.includes('UPDATE users SET two_factor_required') || text.includes('UPDATE users SET totp_secret')) {
+        return { rows: [{ id: params![0] }], rowCount: 1 };
+      }
+
+      // Handle COUNT unused recovery codes
+      if (text.includes('FROM user_recovery_codes WHERE user_id = $1 AND used_at IS NULL')) {
+        return { rows: [{ count: 4 }] };
+      }
+
+      // Handle SELECT recent login events
+      if (text.includes('FROM login_events')) {
+        return {
+          rows: [
+            { id: 2, user_id: params![0], username: 'member1', success: false, failure_reason: 'invalid_password', ip_address: '10.0.0.5' },
+            { id: 1, user_id: params![0], username: 'member1', success: true, failure_reason: null, ip_address: '10.0.0.5' },
+          ].slice(0, params![1])
+        };
+      }
+
+      // Handle clearing failed logins
+      if (text.includes('UPDATE users SET failed_login_count = 0')) {
+        return { rows: [], rowCount: 1 };
+      }
+
+      // Handle SELECT open sessions of a user
+      if (text.includes('FROM user_sessions') && text.includes('WHERE user_id = $1')) {
+        return { rows: testSessions.filter(s => s.user_id === params![0]) };
+      }
+
+      // Handle SELECT session by ID
+      if (text.includes('SELECT * FROM user_sessions WHERE id = $1')) {
+        const session = testSessions.find(s => s.id === params![0]);
+        return { rows: session ? [session] : [] };
+      }
+
+      // Handle revoking every session of a user
+      if (text.includes('UPDATE user_sessions') && text.includes('WHERE user_id = $1')) {
+        return { rows: [], rowCount: testSessions.filter(s => s.user_id === params![0]).length };
+      }
+
+      // Handle revoking one session
+      if (text.includes('UPDATE user_sessions')) {
+        return { rows: [], rowCount: 1 };
+      }
+
       // Default empty result
       return { rows: [] };
     });
@@ -137,13 +207,13 @@ describe('Users Routes', () => {
       expect(response.body.error).toBe('Authentication token required');
     });
 
-    it('should require admin role', async () => {
+    it('should require the users:manage permission', async () => {
       const response = await request(app)
         .get('/api/users')
         .set('Authorization', `Bearer ${memberToken}`)
         .expect(403);
 
-      expect(response.body.error).toContain('Admin');
+      expect(response.body.error).toContain('users:manage');
     });
 
     it('should not include password hashes', async () => {
@@ -177,6 +247,34 @@ describe('Users Routes', () => {
       });
     });
 
+    it('should link a user to a member', async () => {
+      const response = await request(app)
+        .put('/api/users/2')
+        .set('Authorization', `Bearer ${admin1Token}`)
+        .send({ username: 'admin2', role: 'admin', member_id: 12 })
+        .expect(200);
+
+      expect(response.body.member_id).toBe(12);
+    });
+
+    it('should keep the member link when member_id is not sent', async () => {
+      const response = await request(app)
+        .put('/api/users/3')
+        .set('Authorization', `Bearer ${admin1Token}`)
+        .send({ username: 'member1', role: 'member' })
+        .expect(200);
+
+      expect(response.body.member_id).toBe(7);
+    });
+
+    it('should reject an invalid member_id', async () => {
+      await request(app)
+        .put('/api/users/3')
+        .set('Authorization', `Bearer ${admin1Token}`)
+        .send({ username: 'member1', role: 'member', member_id: 'seven' })
+        .expect(400);
+    });
+
     it('should require authentication', async () => {
       const response = await request(app)
         .put('/api/users/3')
@@ -189,7 +287,7 @@ describe('Users Routes', () => {
       expect(response.body.error).toBe('Authentication token required');
     });
 
-    it('should require admin role', async () => {
+    it('should require the users:manage permission', async () => {
       const response = await request(app)
         .put('/api/users/1')
         .set('Authorization', `Bearer ${memberToken}`)
@@ -199,7 +297,7 @@ describe('Users Routes', () => {
         })
         .expect(403);
 
-      expect(response.body.error).toContain('Admin');
+      expect(response.body.error).toContain('users:manage');
     });
 
     it('should reject missing username', async () => {
@@ -306,13 +404,13 @@ describe('Users Routes', () => {
       expect(response.body.error).toBe('Authentication token required');
     });
 
-    it('should require admin role', async () => {
+    it('should require the users:manage permission', async () => {
       const response = await request(app)
         .delete('/api/users/1')
         .set('Authorization', `Bearer ${memberToken}`)
         .expect(403);
 
-      expect(response.body.error).toContain('Admin');
+      expect(response.body.error).toContain('users:manage');
     });
 
     it('should prevent admin from deleting themselves', async () => {
@@ -399,7 +497,7 @@ describe('Users Routes', () => {
       expect(response.body.error).toBe('Authentication token required');
     });
 
-    it('should require admin role', async () => {
+    it('should require the users:manage permission', async () => {
       const response = await request(app)
         .put('/api/users/1/password')
         .set('Authorization', `Bearer ${memberToken}`)
@@ -408,7 +506,7 @@ describe('Users Routes', () => {
         })
         .expect(403);
 
-      expect(response.body.error).toContain('Admin');
+      expect(response.body.error).toContain('users:manage');
     });
 
     it('should reject missing password', async () => {
@@ -482,4 +580,165 @@ describe('Users Routes', () => {
       }
     });
   });
+
+  describe('user sessions', () => {
+    it('should list a user\'s open sessions', async () => {
+      const response = await request(app)
+        .get('/api/users/3/sessions')
+        .set('Authorization', `Bearer ${admin1Token}`)
+        .expect(200);
+
+      expect(response.body).toHaveLength(2);
+      expect(response.body[0]).toMatchObject({ id: 11, user_agent: 'Firefox', current: false });
+    });
+
+    it('should require the users:manage permission', async () => {
+      await request(app)
+        .get('/api/users/3/sessions')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(403);
+    });
+
+    it('should revoke one session', async () => {
+      await request(app)
+        .delete('/api/users/3/sessions/11')
+        .set('Authorization', `Bearer ${admin1Token}`)
+        .expect(204);
+
+      const revokeCall = mockQuery.mock.calls.find((call: any) =>
+        String(call[0]).includes('UPDATE user_sessions SET revoked_at')
+      );
+      expect(revokeCall![1]).toEqual([11, 'revoked']);
+    });
+
+    it('should return 404 for a session belonging to another user', async () => {
+      await request(app)
+        .delete('/api/users/2/sessions/11')
+        .set('Authorization', `Bearer ${admin1Token}`)
+        .expect(404);
+    });
+
+    it('should revoke every session of a user', async () => {
+      const response = await request(app)
+        .delete('/api/users/3/sessions')
+        .set('Authorization', `Bearer ${admin1Token}`)
+        .expect(200);
+
+      expect(response.body.revoked).toBe(2);
+    });
+
+    it('should revoke sessions when the password is changed', async () => {
+      await request(app)
+        .put('/api/users/3/password')
+        .set('Authorization', `Bearer ${admin1Token}`)
+        .send({ password: 'NewPassword123!' })
+        .expect(200);
+
+      const revokeCall = mockQuery.mock.calls.find((call: any) =>
+        String(call[0]).includes('UPDATE user_sessions')
+      );
+      expect(revokeCall![1]).toEqual([3, 'password_changed']);
+    });
+  });
+
+  describe('two-factor authentication', () => {
+    it('should require two-factor for a user', async () => {
+      const response = await request(app)
+        .put('/api/users/3/two-factor')
+        .set('Authorization', `Bearer ${admin1Token}`)
+        .send({ required: true })
+        .expect(200);
+
+      const updateCall = mockQuery.mock.calls.find((call: any) =>
+        String(call[0]).includes('UPDATE users SET two_factor_required')
+      );
+      expect(updateCall![1]).toEqual([3, true]);
+      expect(response.body).toHaveProperty('recoveryCodesRemaining', 4);
+    });
+
+    it('should reject a non-boolean required flag', async () => {
+      await request(app)
+        .put('/api/users/3/two-factor')
+        .set('Authorization', `Bearer ${admin1Token}`)
+        .send({ required: 'yes' })
+        .expect(400);
+    });
+
+    it('should reset a user\'s two-factor', async () => {
+      await request(app)
+        .delete('/api/users/3/two-factor')
+        .set('Authorization', `Bearer ${admin1Token}`)
+        .expect(204);
+
+      const calls = mockQuery.mock.calls.map((call: any) => String(call[0]));
+      expect(calls.some(text => text.includes('UPDATE users SET totp_secret'))).toBe(true);
+      expect(calls.some(text => text.includes('DELETE FROM user_recovery_codes'))).toBe(true);
+    });
+
+    it('should return 404 when resetting a nonexistent user', async () => {
+      await request(app)
+        .delete('/api/users/999/two-factor')
+        .set('Authorization', `Bearer ${admin1Token}`)
+        .expect(404);
+    });
+
+    it('should require the users:manage permission', async () => {
+      await request(app)
+        .delete('/api/users/3/two-factor')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(403);
+    });
+  });
+
+  describe('login history and lockout', () => {
+    it('should list a user\'s recent login attempts', async () => {
+      const response = await request(app)
+        .get('/api/users/3/login-events')
+        .set('Authorization', `Bearer ${admin1Token}`)
+        .expect(200);
+
+      expect(response.body).toHaveLength(2);
+      expect(response.body[0]).toMatchObject({ success: false, failure_reason: 'invalid_password' });
+
+      const eventsCall = mockQuery.mock.calls.find((call: any) => String(call[0]).includes('FROM login_events'));
+      expect(eventsCall![1]).toEqual([3, 50]);
+    });
+
+    it('should cap the number of events returned', async () => {
+      await request(app)
+        .get('/api/users/3/login-events?limit=5000')
+        .set('Authorization', `Bearer ${admin1Token}`)
+        .expect(200);
+
+      const eventsCall = mockQuery.mock.calls.find((call: any) => String(call[0]).includes('FROM login_events'));
+      expect(eventsCall![1]).toEqual([3, 200]);
+    });
+
+    it('should unlock an account', async () => {
+      const response = await request(app)
+        .post('/api/users/3/unlock')
+        .set('Authorization', `Bearer ${admin1Token}`)
+        .expect(200);
+
+      expect(response.body.message).toBe('Account unlocked');
+      const unlockCall = mockQuery.mock.calls.find((call: any) =>
+        String(call[0]).includes('UPDATE users SET failed_login_count = 0')
+      );
+      expect(unlockCall![1]).toEqual([3]);
+    });
+
+    it('should return 404 when unlocking a nonexistent user', async () => {
+      await request(app)
+        .post('/api/users/999/unlock')
+        .set('Authorization', `Bearer ${admin1Token}`)
+        .expect(404);
+    });
+
+    it('should require the users:manage permission', async () => {
+      await request(app)
+        .get('/api/users/3/login-events')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(403);
+    });
+  });
 });
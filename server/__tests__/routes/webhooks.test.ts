@@ -0,0 +1,371 @@
+/**
+ * Webhooks Routes Integration Tests
+ *
+ * Tests for outgoing webhooks including:
+ * - Registering, updating and removing webhooks (settings:manage)
+ * - Queueing events for subscribed webhooks only, once per dedupe key
+ * - Signed deliveries and ping
+ * - Retrying failed deliveries with backoff and giving up
+ * - The delivery log and redelivery
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import express from 'express';
+import { newDb, IMemoryDb } from 'pg-mem';
+import webhooksRoutes from '../../src/routes/webhooks';
+import { errorHandler } from '../../src/middleware/errorHandler';
+import { generateToken } from '../../src/utils/authUtils';
+import { WebhookService } from '../../src/services/WebhookService';
+import { verifyWebhookSignature } from '../../src/utils/webhookSignature';
+
+let memDb: IMemoryDb;
+let testPool: any;
+
+// Mock the db module to use the in-memory database
+jest.mock('../../src/db', () => {
+  return {
+    get pool() {
+      return {
+        connect: async () => testPool.connect(),
+        query: (text: string, params?: any[]) => testPool.query(text, params),
+        end: async () => {},
+      };
+    },
+    query: async (text: string, params?: any[]) => testPool.query(text, params),
+  };
+});
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const createTestApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/webhooks', webhooksRoutes);
+  app.use(errorHandler);
+  return app;
+};
+
+describe('Webhooks Routes', () => {
+  let app: express.Application;
+  let adminToken: string;
+  let librarianToken: string;
+  let receiver: http.Server;
+  let receiverUrl: string;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+  let scheduleDeliveries: jest.SpyInstance;
+  const webhookService = new WebhookService();
+  const query = (text: string, params?: any[]) => testPool.query(text, params);
+
+  const createWebhook = async (events: string[], active = true) => {
+    const response = await request(app)
+      .post('/api/webhooks')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ url: receiverUrl, events, active, description: 'Test hook' })
+      .expect(201);
+    return response.body;
+  };
+
+  beforeAll(async () => {
+    memDb = newDb();
+    const { Pool } = memDb.adapters.createPg();
+    testPool = new Pool();
+
+    await query(`
+      CREATE TABLE webhooks (
+        id SERIAL PRIMARY KEY,
+        url TEXT NOT NULL,
+        description VARCHAR(255),
+        secret VARCHAR(128) NOT NULL,
+        events TEXT[] NOT NULL,
+        active BOOLEAN NOT NULL DEFAULT true,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await query(`
+      CREATE TABLE webhook_deliveries (
+        id SERIAL PRIMARY KEY,
+        webhook_id INTEGER NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+        event VARCHAR(50) NOT NULL,
+        payload JSONB NOT NULL,
+        dedupe_key VARCHAR(255),
+        status VARCHAR(10) NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        last_attempt_at TIMESTAMPTZ,
+        response_status INTEGER,
+        response_body TEXT,
+        error TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        delivered_at TIMESTAMPTZ
+      )
+    `);
+    await query('CREATE UNIQUE INDEX idx_webhook_deliveries_webhook_dedupe_key ON webhook_deliveries (webhook_id, dedupe_key)');
+
+    // An endpoint that records what it receives and answers with responseStatus
+    receiver = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end(responseStatus < 300 ? 'ok' : 'try again later');
+      });
+    });
+    await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', () => resolve()));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks/library`;
+
+    app = createTestApp();
+    adminToken = generateToken({ userId: 1, username: 'admin', role: 'admin' });
+    librarianToken = generateToken({ userId: 2, username: 'librarian', role: 'librarian' });
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => receiver.close(() => resolve()));
+  });
+
+  beforeEach(async () => {
+    await query('DELETE FROM webhook_deliveries');
+    await query('DELETE FROM webhooks');
+    received = [];
+    responseStatus = 200;
+    // Tests run the delivery worker themselves rather than waiting for the run queued after an event
+    scheduleDeliveries = jest.spyOn(WebhookService.prototype as any, 'scheduleDeliveries').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    scheduleDeliveries.mockRestore();
+  });
+
+  describe('managing webhooks', () => {
+    it('should register a webhook and return its secret once', async () => {
+      const webhook = await createWebhook(['loan.created', 'loan.returned']);
+
+      expect(webhook).toMatchObject({ url: receiverUrl, events: ['loan.created', 'loan.returned'], active: true });
+      expect(webhook.secret).toMatch(/^[0-9a-f]{64}$/);
+
+      const list = await request(app)
+        .get('/api/webhooks')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(list.body).toHaveLength(1);
+      expect(list.body[0].secret).toBeUndefined();
+    });
+
+    it('should reject an invalid URL', async () => {
+      const response = await request(app)
+        .post('/api/webhooks')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ url: 'ftp://example.com/hook', events: ['book.created'] })
+        .expect(400);
+
+      expect(response.body.error).toContain('http or https');
+    });
+
+    it('should reject unknown or missing events', async () => {
+      const unknown = await request(app)
+        .post('/api/webhooks')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ url: receiverUrl, events: ['book.burned'] })
+        .expect(400);
+      expect(unknown.body.error).toContain('Unknown event book.burned');
+
+      await request(app)
+        .post('/api/webhooks')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ url: receiverUrl, events: [] })
+        .expect(400);
+    });
+
+    it('should update the events and pause a webhook', async () => {
+      const webhook = await createWebhook(['book.created']);
+
+      const response = await request(app)
+        .put(`/api/webhooks/${webhook.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ events: ['member.created'], active: false })
+        .expect(200);
+
+      expect(response.body).toMatchObject({ url: receiverUrl, events: ['member.created'], active: false, description: 'Test hook' });
+    });
+
+    it('should rotate the secret', async () => {
+      const webhook = await createWebhook(['book.created']);
+
+      const response = await request(app)
+        .post(`/api/webhooks/${webhook.id}/secret`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.secret).toMatch(/^[0-9a-f]{64}$/);
+      expect(response.body.secret).not.toBe(webhook.secret);
+    });
+
+    it('should delete a webhook', async () => {
+      const webhook = await createWebhook(['book.created']);
+
+      await request(app)
+        .delete(`/api/webhooks/${webhook.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(204);
+      await request(app)
+        .delete(`/api/webhooks/${webhook.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+    });
+
+    it('should require the settings:manage permission', async () => {
+      await request(app)
+        .get('/api/webhooks')
+        .set('Authorization', `Bearer ${librarianToken}`)
+        .expect(403);
+    });
+  });
+
+  describe('deliveries', () => {
+    it('should send a signed ping straight away', async () => {
+      const webhook = await createWebhook(['book.created']);
+
+      const response = await request(app)
+        .post(`/api/webhooks/${webhook.id}/ping`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body).toMatchObject({ event: 'ping', status: 'succeeded', attempts: 1, response_status: 200 });
+      expect(received).toHaveLength(1);
+
+      const { headers, body } = received[0];
+      expect(headers['x-homeshelf-event']).toBe('ping');
+      expect(headers['x-homeshelf-delivery']).toBe(String(response.body.id));
+      const timestamp = Number(headers['x-homeshelf-timestamp']);
+      expect(verifyWebhookSignature(webhook.secret, timestamp, body, headers['x-homeshelf-signature'] as string)).toBe(true);
+      expect(verifyWebhookSignature('wrong-secret', timestamp, body, headers['x-homeshelf-signature'] as string)).toBe(false);
+      expect(JSON.parse(body)).toMatchObject({ event: 'ping', data: { webhook_id: webhook.id } });
+    });
+
+    it('should queue events only for active webhooks subscribed to them', async () => {
+      await createWebhook(['book.created']);
+      await createWebhook(['member.created']);
+      await createWebhook(['book.created'], false);
+
+      const queued = await webhookService.emit('book.created', { id: 7, title: 'Dune' });
+      expect(queued).toBe(1);
+
+      const result = await webhookService.processDueDeliveries();
+      expect(result).toEqual({ succeeded: 1, failed: 0, retrying: 0 });
+      expect(received).toHaveLength(1);
+      expect(JSON.parse(received[0].body)).toMatchObject({ event: 'book.created', data: { id: 7, title: 'Dune' } });
+    });
+
+    it('should send a queued event shortly without waiting for the worker', async () => {
+      scheduleDeliveries.mockRestore();
+      await createWebhook(['loan.returned']);
+
+      await webhookService.emit('loan.returned', { id: 9 });
+
+      for (let waited = 0; received.length === 0 && waited < 5000; waited += 50) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+      expect(received).toHaveLength(1);
+      expect(received[0].headers['x-homeshelf-event']).toBe('loan.returned');
+    });
+
+    it('should queue an event with a dedupe key once', async () => {
+      await createWebhook(['loan.overdue']);
+
+      await webhookService.emit('loan.overdue', { id: 3 }, { dedupeKey: 'loan.overdue:3:2026-10-01' });
+      await webhookService.emit('loan.overdue', { id: 3 }, { dedupeKey: 'loan.overdue:3:2026-10-01' });
+      await webhookService.emit('loan.overdue', { id: 3 }, { dedupeKey: 'loan.overdue:3:2026-10-15' });
+
+      const { rows } = await query('SELECT dedupe_key FROM webhook_deliveries ORDER BY id');
+      expect(rows.map((row: { dedupe_key: string }) => row.dedupe_key)).toEqual([
+        'loan.overdue:3:2026-10-01',
+        'loan.overdue:3:2026-10-15',
+      ]);
+    });
+
+    it('should retry a failed delivery with backoff and give up after the last attempt', async () => {
+      await createWebhook(['loan.created']);
+      responseStatus = 503;
+      await webhookService.emit('loan.created', { id: 1 });
+
+      const first = await webhookService.processDueDeliveries();
+      expect(first).toEqual({ succeeded: 0, failed: 0, retrying: 1 });
+
+      const { rows } = await query('SELECT * FROM webhook_deliveries');
+      expect(rows[0]).toMatchObject({
+        status: 'pending',
+        attempts: 1,
+        response_status: 503,
+        response_body: 'try again later',
+        error: 'Endpoint responded with HTTP 503',
+      });
+      const retryInMinutes = (new Date(rows[0].next_attempt_at).getTime() - Date.now()) / 60000;
+      expect(retryInMinutes).toBeGreaterThan(0.9);
+      expect(retryInMinutes).toBeLessThanOrEqual(1);
+
+      // Not due again until the backoff has passed
+      expect(await webhookService.processDueDeliveries()).toEqual({ succeeded: 0, failed: 0, retrying: 0 });
+
+      // Run out the remaining retries
+      for (let attempt = 2; attempt <= 6; attempt++) {
+        await query("UPDATE webhook_deliveries SET next_attempt_at = NOW() - INTERVAL '1 minute'");
+        await webhookService.processDueDeliveries();
+      }
+
+      const { rows: [delivery] } = await query('SELECT * FROM webhook_deliveries');
+      expect(delivery).toMatchObject({ status: 'failed', attempts: 6 });
+      expect(received).toHaveLength(6);
+    });
+
+    it('should record a delivery to an unreachable endpoint as an error', async () => {
+      const response = await request(app)
+        .post('/api/webhooks')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ url: 'http://127.0.0.1:1/hook', events: ['book.created'] })
+        .expect(201);
+
+      const ping = await request(app)
+        .post(`/api/webhooks/${response.body.id}/ping`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(ping.body).toMatchObject({ status: 'pending', attempts: 1, response_status: null });
+      expect(ping.body.error).toMatch(/ECONNREFUSED/);
+    });
+
+    it('should list and redeliver deliveries', async () => {
+      const webhook = await createWebhook(['member.created']);
+      responseStatus = 500;
+      await webhookService.emit('member.created', { id: 4, name: 'Ada' });
+      await webhookService.processDueDeliveries();
+
+      const list = await request(app)
+        .get(`/api/webhooks/deliveries?status=pending&webhook_id=${webhook.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(list.body.pagination.total).toBe(1);
+      expect(list.body.data[0]).toMatchObject({ event: 'member.created', webhook_url: receiverUrl, attempts: 1 });
+
+      responseStatus = 204;
+      const redelivered = await request(app)
+        .post(`/api/webhooks/deliveries/${list.body.data[0].id}/redeliver`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(redelivered.body).toMatchObject({ status: 'succeeded', attempts: 1, response_status: 204 });
+    });
+
+    it('should reject an unknown delivery status filter', async () => {
+      await request(app)
+        .get('/api/webhooks/deliveries?status=lost')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Book Search Query Tests
+ *
+ * Tests for searches with fields including:
+ * - Splitting fields from the full-text words, with negation and quoted values
+ * - Years as comparisons, ranges and decades
+ * - When books were added, relative to now or between dates
+ * - Errors for unknown fields and values a field cannot take
+ * - Correcting the words of a search without touching its fields
+ */
+
+import { correctBookQuery, parseBookQuery } from '../../src/utils/bookQuery';
+
+describe('Book Search Queries', () => {
+  it('should split fields from the full-text words', () => {
+    expect(parseBookQuery('author:pratchett category:fantasy available:yes year:>1990 -"colour of magic"')).toEqual({
+      text: '-"colour of magic"',
+      conditions: [
+        { field: 'author', value: 'pratchett', negated: false },
+        { field: 'category', value: 'fantasy', negated: false },
+        { field: 'available', value: true, negated: false },
+        { field: 'year', min: 1991, negated: false },
+      ],
+    });
+  });
+
+  it('should read quoted values, negated fields and field names in any case', () => {
+    expect(parseBookQuery('Category:"Science Fiction" -AUTHOR:"terry p" dune')).toEqual({
+      text: 'dune',
+      conditions: [
+        { field: 'category', value: 'Science Fiction', negated: false },
+        { field: 'author', value: 'terry p', negated: true },
+      ],
+    });
+  });
+
+  it('should normalise ISBNs, formats and availability', () => {
+    expect(parseBookQuery('isbn:0-8044-2957-x format:large-print available:NO').conditions).toEqual([
+      { field: 'isbn', value: '080442957X', negated: false },
+      { field: 'format', value: 'large_print', negated: false },
+      { field: 'available', value: false, negated: false },
+    ]);
+  });
+
+  it.each([
+    ['1990', { min: 1990, max: 1990 }],
+    ['>=1990', { min: 1990 }],
+    ['<2000', { max: 1999 }],
+    ['<=2000', { max: 2000 }],
+    ['1990..1999', { min: 1990, max: 1999 }],
+    ['1990s', { min: 1990, max: 1999 }],
+  ])('should read year:%s', (value, bounds) => {
+    expect(parseBookQuery(`year:${value}`).conditions).toEqual([{ field: 'year', ...bounds, negated: false }]);
+  });
+
+  it.each([
+    ['this-month', { from: { startOf: 'month' } }],
+    ['today', { from: { startOf: 'day' } }],
+    ['30d', { from: { daysAgo: 30 } }],
+    ['2026', { from: { date: '2026-01-01' }, before: { date: '2027-01-01' } }],
+    ['2026-12', { from: { date: '2026-12-01' }, before: { date: '2027-01-01' } }],
+    ['2024-02-29', { from: { date: '2024-02-29' }, before: { date: '2024-03-01' } }],
+    ['>2026-10', { from: { date: '2026-11-01' } }],
+    ['<=2026-10-18', { before: { date: '2026-10-19' } }],
+    ['2026-01..2026-03', { from: { date: '2026-01-01' }, before: { date: '2026-04-01' } }],
+  ])('should read added:%s', (value, bounds) => {
+    expect(parseBookQuery(`added:${value}`).conditions).toEqual([{ field: 'added', ...bounds, negated: false }]);
+  });
+
+  it('should read borrowed:never as books that have not been lent', () => {
+    expect(parseBookQuery('borrowed:never -borrowed:yes').conditions).toEqual([
+      { field: 'borrowed', value: false, negated: false },
+      { field: 'borrowed', value: true, negated: true },
+    ]);
+  });
+
+  it('should keep words ending in a colon and times as words', () => {
+    expect(parseBookQuery('Star Wars: 10:30 "re:zero"')).toEqual({ text: 'Star Wars: 10:30 "re:zero"', conditions: [] });
+  });
+
+  it.each([
+    ['colour:red', 'unknown field "colour" in colour:red'],
+    ['year:soon', 'year: takes a year such as 1990'],
+    ['year:2000..1990', 'year: takes a year such as 1990'],
+    ['available:maybe', 'available: takes yes or no'],
+    ['added:soon', 'added: takes today, this-week'],
+    ['added:2026-02-30', 'added: takes today, this-week'],
+    ['added:2026-03..2026-01', 'added: takes today, this-week'],
+    ['borrowed:often', 'borrowed: takes yes or no'],
+    ['format:scroll', 'format: takes one of hardcover'],
+    ['language:English', 'language: takes a language code'],
+    ['isbn:abc', 'isbn: takes the digits of an ISBN'],
+    ['author:"terry', 'the quote after author: is not closed'],
+    ['author:"" hobbit', 'author: needs a value'],
+  ])('should reject %s', (search, reason) => {
+    expect(() => parseBookQuery(search)).toThrow(`Invalid search: ${reason}`);
+  });
+
+  it('should correct the words of a search but not its fields', () => {
+    const similarWords = new Map([['gatsbi', ['gatsby']], ['fitzgerld', ['fitzgerald']]]);
+
+    expect(correctBookQuery('gatsbi author:fitzgerld -gatsbi', similarWords)).toBe('gatsby author:fitzgerld -gatsbi');
+  });
+});
@@ -4,6 +4,7 @@
  * Tests for file upload configuration including:
  * - Cover image upload configuration
  * - CSV file upload configuration
+ * - Bulk import upload configuration
  * - File type validation
  * - File size limits
  */
@@ -11,7 +12,7 @@
 import { Request } from 'express';
 import path from 'path';
 import fs from 'fs';
-import { uploadsDir, coverUpload, csvUpload } from '../../src/utils/fileUpload';
+import { uploadsDir, coverUpload, csvUpload, importUpload } from '../../src/utils/fileUpload';
 
 describe('File Upload Utilities', () => {
   describe('uploadsDir', () => {
@@ -405,4 +406,55 @@ describe('File Upload Utilities', () => {
       });
     });
   });
+
+  describe('importUpload configuration', () => {
+    const importFile = (originalname: string, mimetype: string): Express.Multer.File => ({
+      fieldname: 'file',
+      originalname,
+      encoding: '7bit',
+      mimetype,
+      size: 1024,
+      destination: '',
+      filename: '',
+      path: '',
+      buffer: Buffer.from(''),
+      stream: null as any,
+    });
+
+    let callback: jest.Mock;
+
+    beforeEach(() => {
+      callback = jest.fn();
+    });
+
+    it('should allow files up to 50MB', () => {
+      // @ts-ignore - accessing private property for testing
+      expect(importUpload.limits?.fileSize).toBe(50 * 1024 * 1024);
+    });
+
+    it.each([
+      ['goodreads_library_export.csv', 'text/csv'],
+      ['LibraryThing_export.tsv', 'text/tab-separated-values'],
+      ['librarything_export.json', 'application/json'],
+      ['metadata.db', 'application/octet-stream'],
+      ['records.mrc', 'application/marc'],
+      ['records.xml', 'application/marcxml+xml'],
+    ])('should accept %s', (originalname, mimetype) => {
+      // @ts-ignore
+      importUpload.fileFilter({} as Request, importFile(originalname, mimetype), callback);
+
+      expect(callback).toHaveBeenCalledWith(null, true);
+    });
+
+    it('should reject other files', () => {
+      // @ts-ignore
+      importUpload.fileFilter({} as Request, importFile('library.xlsx', 'application/vnd.ms-excel'), callback);
+
+      expect(callback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: expect.stringContaining('Calibre metadata.db'),
+        })
+      );
+    });
+  });
 });
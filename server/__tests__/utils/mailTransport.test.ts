@@ -0,0 +1,75 @@
+/**
+ * Mail Transport Tests
+ *
+ * Tests for formatting outgoing mail including:
+ * - Quoted-printable encoding
+ * - MIME message headers and parts
+ * - The password reset template
+ */
+
+import { encodeQuotedPrintable, formatMimeMessage } from '../../src/utils/mailTransport';
+import { passwordResetEmail, escapeHtml } from '../../src/utils/emailTemplates';
+
+describe('Mail Transport', () => {
+  describe('encodeQuotedPrintable', () => {
+    it('should leave plain ASCII text readable', () => {
+      expect(encodeQuotedPrintable('Hello reader,\nsee you soon')).toBe('Hello reader,\r\nsee you soon');
+    });
+
+    it('should encode equals signs, non-ASCII and trailing spaces', () => {
+      expect(encodeQuotedPrintable('a=b café \nend')).toBe('a=3Db caf=C3=A9=20\r\nend');
+    });
+
+    it('should break long lines with soft line breaks', () => {
+      const encoded = encodeQuotedPrintable('x'.repeat(100));
+
+      const lines = encoded.split('\r\n');
+      expect(lines[0]).toBe(`${'x'.repeat(75)}=`);
+      expect(lines[1]).toBe('x'.repeat(25));
+    });
+  });
+
+  describe('formatMimeMessage', () => {
+    const message = {
+      to: 'reader@example.com',
+      subject: 'Überfällig',
+      text: 'Plain body',
+      html: '<p>HTML body</p>',
+    };
+
+    it('should include the headers and both parts', () => {
+      const mime = formatMimeMessage(message, '"Library" <library@example.com>');
+
+      expect(mime).toContain('From: "Library" <library@example.com>\r\n');
+      expect(mime).toContain('To: reader@example.com\r\n');
+      expect(mime).toContain(`Subject: =?UTF-8?B?${Buffer.from('Überfällig').toString('base64')}?=\r\n`);
+      expect(mime).toMatch(/Message-ID: <[0-9a-f-]+@example\.com>/);
+      expect(mime).toContain('Content-Type: text/plain; charset=utf-8');
+      expect(mime).toContain('Content-Type: text/html; charset=utf-8');
+      expect(mime).toContain('<p>HTML body</p>');
+    });
+
+    it('should keep header values on one line', () => {
+      const mime = formatMimeMessage({ ...message, subject: 'Hi\r\nBcc: someone@example.com' });
+
+      expect(mime).toContain('Subject: Hi Bcc: someone@example.com\r\n');
+      expect(mime).not.toMatch(/^Bcc:/m);
+    });
+  });
+
+  describe('passwordResetEmail', () => {
+    it('should link to the reset page in both bodies', () => {
+      const email = passwordResetEmail({
+        username: '<b>reader</b>',
+        resetUrl: 'http://localhost:3000/reset-password?token=abc&x=1',
+        expiresInMinutes: 60,
+      });
+
+      expect(email.text).toContain('http://localhost:3000/reset-password?token=abc&x=1');
+      expect(email.text).toContain('expires in 60 minutes');
+      expect(email.html).toContain('href="http://localhost:3000/reset-password?token=abc&amp;x=1"');
+      expect(email.html).toContain(escapeHtml('<b>reader</b>'));
+      expect(email.html).not.toContain('<b>reader</b>');
+    });
+  });
+});
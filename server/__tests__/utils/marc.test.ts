@@ -0,0 +1,126 @@
+/**
+ * MARC Reader and Writer Tests
+ *
+ * Tests for MARC 21 records including:
+ * - Reading ISO 2709 records, with damaged records reported by position
+ * - Reading MARCXML with namespace prefixes, entities and CDATA
+ * - Writing records as ISO 2709 and MARCXML and reading them back
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  isMarcXml,
+  MarcDataField,
+  MarcRecord,
+  readMarc21,
+  readMarcRecords,
+  readMarcXml,
+  writeMarc21,
+  writeMarcXml,
+} from '../../src/utils/marc';
+
+const fixtures = path.join(__dirname, '..', 'fixtures', 'marc');
+
+// Dune, Le petit prince, a record with a bad base address, an authority record and a MARC-8 record
+const recordsMrc = fs.readFileSync(path.join(fixtures, 'records.mrc'));
+// Good Omens, and a record with a field that has no tag
+const recordsXml = fs.readFileSync(path.join(fixtures, 'records.xml'));
+
+const field = (record: MarcRecord, tag: string) => record.fields.find(found => found.tag === tag) as MarcDataField;
+
+describe('MARC Reader and Writer', () => {
+  it('should tell MARCXML from ISO 2709', () => {
+    expect(isMarcXml(recordsXml)).toBe(true);
+    expect(isMarcXml(recordsMrc)).toBe(false);
+  });
+
+  describe('ISO 2709', () => {
+    it('should read control fields, indicators and subfields', () => {
+      const [{ record }] = readMarc21(recordsMrc);
+
+      expect(record!.leader).toBe('00373nam a2200133 i 4500');
+      expect(record!.fields.map(found => found.tag)).toEqual(['001', '008', '020', '020', '100', '245', '520', '650', '650']);
+      expect(record!.fields[0]).toEqual({ tag: '001', value: 'ocm00123456' });
+      expect(field(record!, '245')).toEqual({
+        tag: '245',
+        ind1: '1',
+        ind2: '0',
+        subfields: [{ code: 'a', value: 'Dune /' }, { code: 'c', value: 'Frank Herbert.' }],
+      });
+    });
+
+    it('should read UTF-8 records after a line break', () => {
+      const [, { record }] = readMarc21(recordsMrc);
+
+      expect(field(record!, '100').subfields[0].value).toBe('Saint-Exupéry, Antoine de,');
+    });
+
+    it('should report records that cannot be read and read the records after them', () => {
+      const results = readMarc21(recordsMrc);
+
+      expect(results).toHaveLength(5);
+      expect(results[2].error).toBe('the leader does not give where the fields start');
+      expect(results[3].record!.leader[6]).toBe('z');
+      expect(results[4].error).toContain('MARC-8 encoded with non-ASCII characters');
+    });
+  });
+
+  describe('MARCXML', () => {
+    it('should read prefixed elements, entities and CDATA', () => {
+      const [{ record }] = readMarcXml(recordsXml.toString('utf8'));
+
+      expect(record!.leader).toBe('00000cam a2200000 i 4500');
+      expect(field(record!, '245').subfields[1].value).toBe('the nice & accurate prophecies of Agnes Nutter, witch /');
+      expect(field(record!, '520').subfields[0].value).toBe('The world ends on Saturday. Next Saturday, in fact. Just before tea.');
+      expect(field(record!, '700')).toMatchObject({ ind1: '1', ind2: ' ' });
+
+      const [{ record: marked }] = readMarcXml(
+        '<record><datafield tag="520" ind1=" " ind2=" "><subfield code="a"><![CDATA[Ends on <Saturday> & after]]></subfield></datafield></record>'
+      );
+      expect(field(marked!, '520').subfields[0].value).toBe('Ends on <Saturday> & after');
+    });
+
+    it('should report records that cannot be read', () => {
+      const results = readMarcXml(recordsXml.toString('utf8'));
+
+      expect(results).toHaveLength(2);
+      expect(results[1].error).toBe('a datafield has no tag');
+    });
+  });
+
+  it('should reject files with no records it can read', () => {
+    expect(() => readMarcRecords(Buffer.from('title,author\nDune,Frank Herbert'))).toThrow('Invalid MARC file');
+    expect(() => readMarcRecords(Buffer.from('<?xml version="1.0"?><collection/>'))).toThrow('the file contains no records');
+  });
+
+  describe('writing', () => {
+    const record: MarcRecord = {
+      leader: '00000nam a22000007  4500',
+      fields: [
+        { tag: '001', value: '42' },
+        { tag: '100', ind1: '0', ind2: ' ', subfields: [{ code: 'a', value: 'Antoine de Saint-Exupéry' }] },
+        { tag: '245', ind1: '1', ind2: '0', subfields: [{ code: 'a', value: 'Le petit prince & <the rose>' }] },
+      ],
+    };
+
+    it('should write ISO 2709 with the lengths in bytes', () => {
+      const written = writeMarc21([record, record]);
+      const results = readMarc21(written);
+
+      expect(results.map(result => result.record!.fields)).toEqual([record.fields, record.fields]);
+      const leader = results[0].record!.leader;
+      expect(Number(leader.slice(0, 5))).toBe(written.length / 2);
+      expect(leader.slice(5, 12)).toBe('nam a22');
+      expect(leader.slice(17)).toBe('7  4500');
+    });
+
+    it('should write MARCXML that reads back as the same records', () => {
+      const xml = writeMarcXml([record]);
+
+      expect(xml).toContain('<collection xmlns="http://www.loc.gov/MARC21/slim">');
+      expect(xml).toContain('Le petit prince &amp; &lt;the rose&gt;');
+      expect(readMarcXml(xml)).toEqual([{ record }]);
+    });
+  });
+});
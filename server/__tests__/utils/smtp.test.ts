@@ -0,0 +1,129 @@
+/**
+ * SMTP Client Tests
+ *
+ * Tests for sending mail to a fake SMTP server including:
+ * - The command sequence and authentication
+ * - Dot-stuffing of the message
+ * - Rejected recipients
+ */
+
+import net from 'net';
+import { AddressInfo } from 'net';
+import { sendSmtpMail, dotStuff } from '../../src/utils/smtp';
+
+interface FakeServer {
+  port: number;
+  commands: string[];
+  data: string;
+  close: () => Promise<void>;
+}
+
+/**
+ * A plain-text SMTP server that accepts everything except recipients in rejected
+ */
+const startFakeServer = (rejected: string[] = []): Promise<FakeServer> =>
+  new Promise((resolve) => {
+    const state = { commands: [] as string[], data: '' };
+
+    const server = net.createServer((socket) => {
+      let buffer = '';
+      let inData = false;
+      socket.write('220 fake.test ESMTP\r\n');
+
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString();
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end < 0) return;
+          state.data = buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write('250 queued\r\n');
+        }
+
+        let end: number;
+        while (!inData && (end = buffer.indexOf('\r\n')) >= 0) {
+          const line = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          state.commands.push(line);
+
+          if (line.startsWith('EHLO')) {
+            socket.write('250-fake.test\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n');
+          } else if (line.startsWith('AUTH PLAIN')) {
+            socket.write('235 authenticated\r\n');
+          } else if (line.startsWith('RCPT TO') && rejected.some(address => line.includes(address))) {
+            socket.write('550 no such user\r\n');
+          } else if (line === 'DATA') {
+            inData = true;
+            socket.write('354 go ahead\r\n');
+          } else if (line === 'QUIT') {
+            socket.end('221 bye\r\n');
+          } else {
+            socket.write('250 ok\r\n');
+          }
+        }
+      });
+    });
+
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        port: (server.address() as AddressInfo).port,
+        get commands() { return state.commands; },
+        get data() { return state.data; },
+        close: () => new Promise<void>(done => server.close(() => done())),
+      });
+    });
+  });
+
+describe('SMTP Client', () => {
+  let server: FakeServer;
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should send a message with authentication', async () => {
+    server = await startFakeServer();
+
+    await sendSmtpMail(
+      { host: '127.0.0.1', port: server.port, user: 'library', password: 'secret' },
+      { from: 'library@example.com', to: ['reader@example.com'] },
+      'Subject: Hello\r\n\r\nBody text'
+    );
+
+    expect(server.commands[0]).toMatch(/^EHLO /);
+    expect(server.commands).toContain(`AUTH PLAIN ${Buffer.from('\0library\0secret').toString('base64')}`);
+    expect(server.commands).toContain('MAIL FROM:<library@example.com>');
+    expect(server.commands).toContain('RCPT TO:<reader@example.com>');
+    expect(server.commands[server.commands.length - 1]).toBe('QUIT');
+    expect(server.data).toBe('Subject: Hello\r\n\r\nBody text');
+  });
+
+  it('should skip authentication without a user', async () => {
+    server = await startFakeServer();
+
+    await sendSmtpMail(
+      { host: '127.0.0.1', port: server.port },
+      { from: 'library@example.com', to: ['reader@example.com'] },
+      'Subject: Hello\r\n\r\nBody'
+    );
+
+    expect(server.commands.some(command => command.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('should fail when the server rejects a recipient', async () => {
+    server = await startFakeServer(['nobody@example.com']);
+
+    await expect(sendSmtpMail(
+      { host: '127.0.0.1', port: server.port },
+      { from: 'library@example.com', to: ['nobody@example.com'] },
+      'Subject: Hello\r\n\r\nBody'
+    )).rejects.toThrow('SMTP RCPT failed: 550 no such user');
+  });
+
+  describe('dotStuff', () => {
+    it('should double leading dots and terminate the message', () => {
+      expect(dotStuff('line\n.hidden\n..two')).toBe('line\r\n..hidden\r\n...two\r\n.\r\n');
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * SQLite Reader Tests
+ *
+ * Tests for reading tables from an SQLite file including:
+ * - Column names and INTEGER PRIMARY KEY columns read from the schema
+ * - Tables spread over interior pages
+ * - Values stored on overflow pages
+ * - Files that are not SQLite databases
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { isSqliteFile, readSqliteTables } from '../../src/utils/sqlite';
+
+// A Calibre library with three books, written by SQLite with 1 KB pages
+const metadataDb = fs.readFileSync(path.join(__dirname, '..', 'fixtures', 'calibre', 'metadata.db'));
+
+describe('SQLite Reader', () => {
+  it('should recognise SQLite files', () => {
+    expect(isSqliteFile(metadataDb)).toBe(true);
+    expect(isSqliteFile(Buffer.from('title,author\nDune,Frank Herbert'))).toBe(false);
+  });
+
+  it('should read rows keyed by column name', () => {
+    const { authors } = readSqliteTables(metadataDb, ['authors']);
+
+    expect(authors).toEqual([
+      { id: 1, name: 'Frank Herbert', sort: 'Herbert, Frank', link: '' },
+      { id: 2, name: 'Neil Gaiman', sort: 'Gaiman, Neil', link: '' },
+      { id: 3, name: 'Terry Pratchett', sort: 'Pratchett, Terry', link: '' },
+      { id: 4, name: 'Anne Writer', sort: 'Writer, Anne', link: '' },
+    ]);
+  });
+
+  it('should read the columns of each row and the row ID of INTEGER PRIMARY KEY columns', () => {
+    const { books } = readSqliteTables(metadataDb, ['books']);
+
+    expect(books).toHaveLength(3);
+    expect(books[0]).toMatchObject({ id: 1, title: 'Dune', author_sort: 'Herbert, Frank', series_index: 1, flags: 1 });
+  });
+
+  it('should read tables that span several pages in row ID order', () => {
+    const { tags } = readSqliteTables(metadataDb, ['tags']);
+
+    expect(tags).toHaveLength(304);
+    expect(tags.map(tag => tag.id)).toEqual(Array.from({ length: 304 }, (_, index) => index + 1));
+    expect(tags[303].name).toBe('Unused tag 304');
+  });
+
+  it('should read values stored on overflow pages', () => {
+    const { comments } = readSqliteTables(metadataDb, ['comments']);
+
+    const long = comments.find(comment => comment.book === 3)!.text as string;
+    expect(long).toHaveLength(3437);
+    expect(long.startsWith('<div><p>A very long description')).toBe(true);
+    expect(long.endsWith('overflow pages.</p></div>')).toBe(true);
+  });
+
+  it('should leave out tables the database does not have', () => {
+    expect(readSqliteTables(metadataDb, ['authors', 'publishers'])).not.toHaveProperty('publishers');
+  });
+
+  it('should reject a file that is not an SQLite database', () => {
+    expect(() => readSqliteTables(Buffer.alloc(512), ['books'])).toThrow('Invalid SQLite database');
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Full-Text Search Query Tests
+ *
+ * Tests for turning search box input into to_tsquery() queries including:
+ * - Words, quoted phrases, prefixes and negation
+ * - ISBNs and phone numbers without their hyphens
+ * - Punctuation that is not tsquery syntax
+ * - Similar words for misspelled searches, and the corrected search
+ */
+
+import { correctSearch, searchWords, similarWordsSql, toSimilarWords, toTsQuery } from '../../src/utils/textSearch';
+
+describe('Full-Text Search Queries', () => {
+  it('should require every word', () => {
+    expect(toTsQuery('tolkien  hobbit')).toBe('tolkien & hobbit');
+  });
+
+  it('should match quoted words as a phrase', () => {
+    expect(toTsQuery('"colour of magic" pratchett')).toBe('(colour <-> of <-> magic) & pratchett');
+  });
+
+  it('should match words ending in * as prefixes', () => {
+    expect(toTsQuery('pratch* disc')).toBe('pratch:* & disc');
+    expect(toTsQuery('jo do', { prefixes: true })).toBe('jo:* & do:*');
+  });
+
+  it('should exclude negated words and phrases', () => {
+    expect(toTsQuery('hobbit -"the hobbit" -film')).toBe('hobbit & !(the <-> hobbit) & !film');
+  });
+
+  it('should drop hyphens from ISBNs and phone numbers', () => {
+    expect(toTsQuery('978-0-441-17271-9')).toBe('9780441172719');
+    expect(toTsQuery('0-8044-2957-X')).toBe('080442957X');
+    expect(toTsQuery('+44 555-0101', { prefixes: true })).toBe('44:* & 5550101:*');
+  });
+
+  it('should split words on punctuation and keep combining marks', () => {
+    expect(toTsQuery('Saint-Exupéry')).toBe('(Saint <-> Exupéry)');
+    expect(toTsQuery('ബഷീർ')).toBe('ബഷീർ');
+  });
+
+  it('should return null when there is nothing to search for', () => {
+    expect(toTsQuery('')).toBeNull();
+    expect(toTsQuery('&|!() - "" *')).toBeNull();
+  });
+
+  describe('similar words', () => {
+    const similarWords = toSimilarWords([
+      { input: 'hary', word: 'harry' },
+      { input: 'hary', word: 'hairy' },
+      { input: 'poter', word: 'potter' },
+    ]);
+
+    it('should collect similar words for each word, closest first', () => {
+      expect(similarWords).toEqual(new Map([['hary', ['harry', 'hairy']], ['poter', ['potter']]]));
+    });
+
+    it('should also match the similar words of words that are not negated', () => {
+      expect(toTsQuery('Hary poter -poter', { similarWords })).toBe('(Hary | harry | hairy) & (poter | potter) & !poter');
+      expect(toTsQuery('"hary poter"', { similarWords })).toBe('((hary | harry | hairy) <-> (poter | potter))');
+      expect(toTsQuery('hary', { prefixes: true, similarWords })).toBe('(hary:* | harry | hairy)');
+    });
+
+    it('should look up the words of a search that are not negated or numbers', () => {
+      expect(searchWords('Hary "poter 1997" -stone 978-0-7475-3269-9 hary')).toEqual(['hary', 'poter']);
+    });
+
+    it('should correct a search with the closest words, keeping its syntax', () => {
+      expect(correctSearch('Hary  "poter 1997" -poter', similarWords)).toBe('harry  "potter 1997" -poter');
+    });
+
+    it('should only look up words that are not indexed', () => {
+      expect(similarWordsSql('SELECT words FROM book_search_vectors')).toContain('known.word = w.input');
+      expect(similarWordsSql('SELECT search_vector FROM member_search_vectors', { prefixes: true }))
+        .toContain("known.word LIKE w.input || '%'");
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * TOTP Utilities Tests
+ *
+ * Tests for time-based one-time passwords including:
+ * - Base32 encoding and decoding
+ * - Code generation against the RFC 6238 test vectors
+ * - Verification with clock drift and replay protection
+ * - otpauth URI format
+ */
+
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  totpStep,
+  totpCode,
+  verifyTotp,
+  buildOtpauthUri,
+} from '../../src/utils/totp';
+
+// The RFC 6238 SHA-1 test key, "12345678901234567890", in base32
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP Utilities', () => {
+  describe('base32', () => {
+    it('should encode the RFC 4648 test vectors', () => {
+      expect(base32Encode(Buffer.from('f'))).toBe('MY');
+      expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+    });
+
+    it('should round-trip random bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255, 128]);
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should ignore case, spaces and padding when decoding', () => {
+      expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+    });
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => base32Decode('MZ1W')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotpSecret', () => {
+    it('should generate a 160-bit base32 secret', () => {
+      const secret = generateTotpSecret();
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Decode(secret)).toHaveLength(20);
+    });
+  });
+
+  describe('totpCode', () => {
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+    ])('should match the RFC 6238 vector at %i seconds', (seconds, expected) => {
+      expect(totpCode(RFC_SECRET, totpStep(seconds * 1000))).toBe(expected);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1234567890 * 1000;
+    const step = totpStep(now);
+
+    it('should accept the current code and return its step', () => {
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step), null, now)).toBe(step);
+    });
+
+    it('should accept a code one step either side', () => {
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), null, now)).toBe(step - 1);
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), null, now)).toBe(step + 1);
+    });
+
+    it('should reject a code two steps away', () => {
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), null, now)).toBeNull();
+    });
+
+    it('should reject a code whose step was already used', () => {
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step), step, now)).toBeNull();
+    });
+
+    it('should allow spaces in the code', () => {
+      const code = totpCode(RFC_SECRET, step);
+      expect(verifyTotp(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, null, now)).toBe(step);
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, 'abcdef', null, now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, '12345', null, now)).toBeNull();
+    });
+  });
+
+  describe('buildOtpauthUri', () => {
+    it('should build an otpauth URI with issuer and account', () => {
+      const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', 'alice', 'City Library');
+
+      expect(uri).toMatch(/^otpauth:\/\/totp\/City%20Library%3Aalice\?/);
+      expect(uri).toContain('secret=JBSWY3DPEHPK3PXP');
+      expect(uri).toContain('issuer=City+Library');
+      expect(uri).toContain('digits=6');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Migration: Create holds table
+ *
+ * Holds form a FIFO queue of members waiting for a borrowed book.
+ * Status lifecycle:
+ * - waiting:   in the queue
+ * - ready:     book is on the hold shelf for this member until expires_at
+ * - fulfilled: member checked the book out
+ * - expired:   pickup window passed without checkout
+ * - cancelled: hold withdrawn before fulfilment
+ */
+
+exports.up = (pgm) => {
+  pgm.createTable('holds', {
+    id: 'id',
+    book_id: {
+      type: 'integer',
+      notNull: true,
+      references: '"books"(id)',
+      onDelete: 'CASCADE',
+    },
+    member_id: {
+      type: 'integer',
+      notNull: true,
+      references: '"members"(id)',
+      onDelete: 'CASCADE',
+    },
+    status: {
+      type: 'VARCHAR(20)',
+      notNull: true,
+      default: 'waiting',
+    },
+    ready_at: {
+      type: 'timestamp with time zone',
+    },
+    expires_at: {
+      type: 'timestamp with time zone',
+    },
+    closed_at: {
+      type: 'timestamp with time zone',
+    },
+    created_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+  });
+
+  pgm.addConstraint('holds', 'holds_status_check', {
+    check: "status IN ('waiting', 'ready', 'fulfilled', 'expired', 'cancelled')",
+  });
+
+  pgm.createIndex('holds', ['book_id', 'status'], {
+    name: 'idx_holds_book_id_status',
+  });
+
+  pgm.createIndex('holds', 'member_id', {
+    name: 'idx_holds_member_id',
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('holds');
+};
@@ -0,0 +1,48 @@
+/**
+ * Migration: Add loan renewals
+ *
+ * Tracks how many times each loan has been renewed and keeps a history
+ * row per renewal with the due date before and after.
+ */
+
+exports.up = (pgm) => {
+  pgm.addColumns('loans', {
+    renewal_count: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+  });
+
+  pgm.createTable('loan_renewals', {
+    id: 'id',
+    loan_id: {
+      type: 'integer',
+      notNull: true,
+      references: '"loans"(id)',
+      onDelete: 'CASCADE',
+    },
+    previous_due_date: {
+      type: 'timestamp with time zone',
+      notNull: true,
+    },
+    new_due_date: {
+      type: 'timestamp with time zone',
+      notNull: true,
+    },
+    renewed_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+  });
+
+  pgm.createIndex('loan_renewals', 'loan_id', {
+    name: 'idx_loan_renewals_loan_id',
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('loan_renewals');
+  pgm.dropColumns('loans', ['renewal_count']);
+};
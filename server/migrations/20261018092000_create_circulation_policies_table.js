@@ -0,0 +1,97 @@
+/**
+ * Migration: Create circulation_policies table
+ *
+ * A policy applies globally (no category, no member type), to a category,
+ * to a member type, or to a category/member type pair. Non-global policies
+ * may leave fields NULL to inherit them from a less specific policy.
+ *
+ * Loans keep a copy of the terms they were checked out under so later
+ * policy edits do not change loans that are already out.
+ */
+
+exports.up = (pgm) => {
+  pgm.addColumns('members', {
+    member_type: {
+      type: 'VARCHAR(50)',
+      notNull: true,
+      default: 'standard',
+    },
+  });
+
+  pgm.createTable('circulation_policies', {
+    id: 'id',
+    category_id: {
+      type: 'integer',
+      references: '"categories"(id)',
+      onDelete: 'CASCADE',
+    },
+    member_type: {
+      type: 'VARCHAR(50)',
+    },
+    loan_period_days: {
+      type: 'integer',
+    },
+    max_active_loans: {
+      type: 'integer',
+    },
+    max_renewals: {
+      type: 'integer',
+    },
+    grace_days: {
+      type: 'integer',
+    },
+    created_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+    updated_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+  });
+
+  pgm.addConstraint('circulation_policies', 'circulation_policies_values_check', {
+    check: `(loan_period_days IS NULL OR loan_period_days > 0)
+      AND (max_active_loans IS NULL OR max_active_loans >= 0)
+      AND (max_renewals IS NULL OR max_renewals >= 0)
+      AND (grace_days IS NULL OR grace_days >= 0)`,
+  });
+
+  // One policy per scope; NULLs are folded so only one global policy can exist
+  pgm.sql(`
+    CREATE UNIQUE INDEX idx_circulation_policies_scope
+    ON circulation_policies (COALESCE(category_id, 0), COALESCE(member_type, ''))
+  `);
+
+  // Global policy matching the previous hard-coded behaviour
+  pgm.sql(`
+    INSERT INTO circulation_policies (loan_period_days, max_active_loans, max_renewals, grace_days)
+    VALUES (14, 5, 2, 0)
+  `);
+
+  pgm.addColumns('loans', {
+    loan_period_days: {
+      type: 'integer',
+      notNull: true,
+      default: 14,
+    },
+    max_renewals: {
+      type: 'integer',
+      notNull: true,
+      default: 2,
+    },
+    grace_days: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumns('loans', ['loan_period_days', 'max_renewals', 'grace_days']);
+  pgm.dropTable('circulation_policies');
+  pgm.dropColumns('members', ['member_type']);
+};
@@ -0,0 +1,74 @@
+/**
+ * Migration: Create member_account_entries table
+ *
+ * Append-only ledger of member charges and credits.
+ * Entry types:
+ * - fine:    overdue fine accrued on a loan (positive amount)
+ * - charge:  any other charge (positive amount)
+ * - payment: money received from the member (negative amount)
+ * - waiver:  charge forgiven by staff (negative amount)
+ *
+ * balance_after holds the member's running balance including the entry.
+ */
+
+exports.up = (pgm) => {
+  pgm.createTable('member_account_entries', {
+    id: 'id',
+    member_id: {
+      type: 'integer',
+      notNull: true,
+      references: '"members"(id)',
+      onDelete: 'CASCADE',
+    },
+    loan_id: {
+      type: 'integer',
+      references: '"loans"(id)',
+      onDelete: 'SET NULL',
+    },
+    type: {
+      type: 'VARCHAR(20)',
+      notNull: true,
+    },
+    amount: {
+      type: 'NUMERIC(10, 2)',
+      notNull: true,
+    },
+    balance_after: {
+      type: 'NUMERIC(10, 2)',
+      notNull: true,
+    },
+    description: {
+      type: 'VARCHAR(255)',
+    },
+    created_by: {
+      type: 'integer',
+      references: '"users"(id)',
+      onDelete: 'SET NULL',
+    },
+    created_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+  });
+
+  pgm.addConstraint('member_account_entries', 'member_account_entries_type_check', {
+    check: "type IN ('fine', 'charge', 'payment', 'waiver')",
+  });
+
+  pgm.addConstraint('member_account_entries', 'member_account_entries_amount_sign_check', {
+    check: "(type IN ('fine', 'charge') AND amount > 0) OR (type IN ('payment', 'waiver') AND amount < 0)",
+  });
+
+  pgm.createIndex('member_account_entries', 'member_id', {
+    name: 'idx_member_account_entries_member_id',
+  });
+
+  pgm.createIndex('member_account_entries', 'loan_id', {
+    name: 'idx_member_account_entries_loan_id',
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('member_account_entries');
+};
@@ -0,0 +1,144 @@
+/**
+ * Migration: Create copies table
+ *
+ * A book row is the bibliographic record; each physical item the library
+ * owns is a copy of it. Loans and hold shelf reservations point at a copy.
+ * Status lifecycle:
+ * - available:     on the shelf
+ * - on_loan:       checked out
+ * - on_hold_shelf: set aside for the member at the head of the hold queue
+ * - unavailable:   taken out of circulation by staff (repair, display, ...)
+ *
+ * books.available is kept as a cache of "at least one copy is available"
+ * by a trigger so existing filters and counts keep working.
+ */
+
+exports.up = (pgm) => {
+  pgm.createTable('copies', {
+    id: 'id',
+    book_id: {
+      type: 'integer',
+      notNull: true,
+      references: '"books"(id)',
+      onDelete: 'CASCADE',
+    },
+    barcode: {
+      type: 'VARCHAR(50)',
+      unique: true,
+    },
+    status: {
+      type: 'VARCHAR(20)',
+      notNull: true,
+      default: 'available',
+    },
+    condition: {
+      type: 'VARCHAR(20)',
+      notNull: true,
+      default: 'good',
+    },
+    location: {
+      type: 'VARCHAR(255)',
+    },
+    acquisition_date: {
+      type: 'date',
+    },
+    price: {
+      type: 'NUMERIC(10, 2)',
+    },
+    created_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+  });
+
+  pgm.addConstraint('copies', 'copies_status_check', {
+    check: "status IN ('available', 'on_loan', 'on_hold_shelf', 'unavailable')",
+  });
+
+  pgm.addConstraint('copies', 'copies_condition_check', {
+    check: "condition IN ('new', 'good', 'fair', 'poor')",
+  });
+
+  pgm.addConstraint('copies', 'copies_price_check', {
+    check: 'price IS NULL OR price >= 0',
+  });
+
+  pgm.createIndex('copies', ['book_id', 'status'], {
+    name: 'idx_copies_book_id_status',
+  });
+
+  // Every existing book becomes one copy in the state the book was in
+  pgm.sql(`
+    INSERT INTO copies (book_id, status)
+    SELECT b.id,
+      CASE
+        WHEN EXISTS (SELECT 1 FROM loans l WHERE l.book_id = b.id AND l.return_date IS NULL) THEN 'on_loan'
+        WHEN EXISTS (SELECT 1 FROM holds h WHERE h.book_id = b.id AND h.status = 'ready') THEN 'on_hold_shelf'
+        WHEN b.available IS FALSE THEN 'unavailable'
+        ELSE 'available'
+      END
+    FROM books b
+  `);
+
+  pgm.addColumns('loans', {
+    copy_id: {
+      type: 'integer',
+      references: '"copies"(id)',
+    },
+  });
+
+  pgm.sql('UPDATE loans l SET copy_id = c.id FROM copies c WHERE c.book_id = l.book_id');
+
+  pgm.alterColumn('loans', 'copy_id', { notNull: true });
+
+  pgm.createIndex('loans', 'copy_id', {
+    name: 'idx_loans_copy_id',
+  });
+
+  pgm.addColumns('holds', {
+    copy_id: {
+      type: 'integer',
+      references: '"copies"(id)',
+      onDelete: 'SET NULL',
+    },
+  });
+
+  pgm.sql(`UPDATE holds h SET copy_id = c.id FROM copies c WHERE c.book_id = h.book_id AND h.status = 'ready'`);
+
+  pgm.createFunction(
+    'sync_book_availability',
+    [],
+    { returns: 'trigger', language: 'plpgsql', replace: true },
+    `
+    BEGIN
+      IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        UPDATE books SET available = EXISTS (
+          SELECT 1 FROM copies WHERE book_id = OLD.book_id AND status = 'available'
+        ) WHERE id = OLD.book_id;
+      END IF;
+      IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        UPDATE books SET available = EXISTS (
+          SELECT 1 FROM copies WHERE book_id = NEW.book_id AND status = 'available'
+        ) WHERE id = NEW.book_id;
+      END IF;
+      RETURN NULL;
+    END;
+    `
+  );
+
+  pgm.createTrigger('copies', 'copies_sync_book_availability', {
+    when: 'AFTER',
+    operation: ['INSERT', 'UPDATE', 'DELETE'],
+    level: 'ROW',
+    function: 'sync_book_availability',
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTrigger('copies', 'copies_sync_book_availability');
+  pgm.dropFunction('sync_book_availability', []);
+  pgm.dropColumns('holds', ['copy_id']);
+  pgm.dropColumns('loans', ['copy_id']);
+  pgm.dropTable('copies');
+};
@@ -0,0 +1,26 @@
+/**
+ * Migration: Add member card barcodes
+ *
+ * Library cards are pre-printed, so barcodes are assigned by staff as cards
+ * are issued and stay NULL until then. Items are identified by the barcode
+ * of their copy, or by ISBN; the expression index lets the circulation desk
+ * match a scanned ISBN regardless of the hyphens stored with it.
+ */
+
+exports.up = (pgm) => {
+  pgm.addColumn('members', {
+    barcode: {
+      type: 'VARCHAR(50)',
+      unique: true,
+    },
+  });
+
+  pgm.sql(`
+    CREATE INDEX idx_books_isbn_digits ON books (UPPER(regexp_replace(isbn, '[^0-9Xx]', '', 'g')))
+  `);
+};
+
+exports.down = (pgm) => {
+  pgm.sql('DROP INDEX IF EXISTS idx_books_isbn_digits');
+  pgm.dropColumn('members', 'barcode');
+};
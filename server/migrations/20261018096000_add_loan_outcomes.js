@@ -0,0 +1,105 @@
+/**
+ * Migration: Add loan outcomes and copy condition history
+ *
+ * A loan now closes with an outcome:
+ * - returned:        came back in a fit state to lend again
+ * - damaged:         came back damaged; the copy is withdrawn
+ * - lost:            the member reports it lost; the copy is withdrawn
+ * - claims_returned: the member says it came back but it cannot be found;
+ *                    the copy is withdrawn until it turns up
+ *
+ * return_date is the date the loan was closed, whatever its outcome, so the
+ * existing "active loan" checks keep working. Withdrawn copies are kept
+ * (not deleted) so they stay in loan history and reports.
+ *
+ * copy_condition_history records each change to a copy's condition, and
+ * the loan it came back from when the change was found on return.
+ */
+
+exports.up = (pgm) => {
+  pgm.addColumns('loans', {
+    outcome: {
+      type: 'VARCHAR(20)',
+    },
+    outcome_note: {
+      type: 'TEXT',
+    },
+  });
+
+  pgm.sql("UPDATE loans SET outcome = 'returned' WHERE return_date IS NOT NULL");
+
+  pgm.addConstraint('loans', 'loans_outcome_check', {
+    check: `(return_date IS NULL AND outcome IS NULL)
+      OR (return_date IS NOT NULL AND outcome IN ('returned', 'damaged', 'lost', 'claims_returned'))`,
+  });
+
+  pgm.createIndex('loans', 'outcome', {
+    name: 'idx_loans_outcome',
+  });
+
+  pgm.dropConstraint('copies', 'copies_status_check');
+  pgm.addConstraint('copies', 'copies_status_check', {
+    check: "status IN ('available', 'on_loan', 'on_hold_shelf', 'unavailable', 'withdrawn')",
+  });
+
+  pgm.dropConstraint('copies', 'copies_condition_check');
+  pgm.addConstraint('copies', 'copies_condition_check', {
+    check: "condition IN ('new', 'good', 'fair', 'poor', 'damaged')",
+  });
+
+  pgm.createTable('copy_condition_history', {
+    id: 'id',
+    copy_id: {
+      type: 'integer',
+      notNull: true,
+      references: '"copies"(id)',
+      onDelete: 'CASCADE',
+    },
+    loan_id: {
+      type: 'integer',
+      references: '"loans"(id)',
+      onDelete: 'SET NULL',
+    },
+    condition: {
+      type: 'VARCHAR(20)',
+      notNull: true,
+    },
+    note: {
+      type: 'TEXT',
+    },
+    recorded_by: {
+      type: 'integer',
+      references: '"users"(id)',
+      onDelete: 'SET NULL',
+    },
+    created_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+  });
+
+  pgm.createIndex('copy_condition_history', ['copy_id', 'created_at'], {
+    name: 'idx_copy_condition_history_copy_id',
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('copy_condition_history');
+
+  pgm.sql("UPDATE copies SET condition = 'poor' WHERE condition = 'damaged'");
+  pgm.dropConstraint('copies', 'copies_condition_check');
+  pgm.addConstraint('copies', 'copies_condition_check', {
+    check: "condition IN ('new', 'good', 'fair', 'poor')",
+  });
+
+  pgm.sql("UPDATE copies SET status = 'unavailable' WHERE status = 'withdrawn'");
+  pgm.dropConstraint('copies', 'copies_status_check');
+  pgm.addConstraint('copies', 'copies_status_check', {
+    check: "status IN ('available', 'on_loan', 'on_hold_shelf', 'unavailable')",
+  });
+
+  pgm.dropIndex('loans', 'outcome', { name: 'idx_loans_outcome' });
+  pgm.dropConstraint('loans', 'loans_outcome_check');
+  pgm.dropColumns('loans', ['outcome', 'outcome_note']);
+};
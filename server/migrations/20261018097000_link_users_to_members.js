@@ -0,0 +1,32 @@
+/**
+ * Migration: Link user logins to library members
+ *
+ * A member-role login is a patron and may only see the loans, holds and
+ * account of the member it is linked to. Staff logins may be linked too so
+ * they can borrow, but do not need to be.
+ *
+ * Registration has always created a member named after the user with the
+ * email <username>@library.app; existing logins are linked to that member
+ * where it still exists.
+ */
+
+exports.up = (pgm) => {
+  pgm.addColumn('users', {
+    member_id: {
+      type: 'integer',
+      unique: true,
+      references: '"members"(id)',
+      onDelete: 'SET NULL',
+    },
+  });
+
+  pgm.sql(`
+    UPDATE users u SET member_id = m.id
+    FROM members m
+    WHERE m.email = u.username || '@library.app'
+  `);
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumn('users', 'member_id');
+};
@@ -0,0 +1,80 @@
+/**
+ * Migration: Create roles table
+ *
+ * A role is a named set of permissions. The four built-in roles are seeded
+ * here and cannot be changed; libraries can add custom roles alongside them.
+ * users.role references roles(name), so renaming a custom role follows
+ * through to its users and a role in use cannot be deleted.
+ *
+ * The old "member" role becomes "patron": a login with no staff
+ * permissions that only sees its own library records.
+ */
+
+exports.up = (pgm) => {
+  pgm.createTable('roles', {
+    id: 'id',
+    name: {
+      type: 'VARCHAR(50)',
+      notNull: true,
+      unique: true,
+    },
+    description: {
+      type: 'TEXT',
+    },
+    permissions: {
+      type: 'text[]',
+      notNull: true,
+      default: pgm.func("'{}'"),
+    },
+    built_in: {
+      type: 'boolean',
+      notNull: true,
+      default: false,
+    },
+    created_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+    updated_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+  });
+
+  pgm.sql(`
+    INSERT INTO roles (name, description, permissions, built_in) VALUES
+    ('admin', 'Full access, including users, roles and settings',
+      ARRAY['books:write', 'loans:checkout', 'members:read', 'members:write', 'fines:manage', 'export:run', 'settings:manage', 'users:manage'], true),
+    ('librarian', 'Runs the library: catalogue, circulation, members and fines',
+      ARRAY['books:write', 'loans:checkout', 'members:read', 'members:write', 'fines:manage', 'export:run'], true),
+    ('volunteer', 'Checks items in and out at the desk',
+      ARRAY['loans:checkout', 'members:read'], true),
+    ('patron', 'Library member using the self-service portal', '{}', true)
+  `);
+
+  pgm.sql("UPDATE users SET role = 'patron' WHERE role = 'member'");
+  // Any other role a login had is kept as a custom role with no permissions
+  pgm.sql(`
+    INSERT INTO roles (name)
+    SELECT DISTINCT role FROM users
+    WHERE role NOT IN (SELECT name FROM roles)
+  `);
+
+  pgm.alterColumn('users', 'role', { default: 'patron' });
+  pgm.addConstraint('users', 'users_role_fkey', {
+    foreignKeys: {
+      columns: 'role',
+      references: 'roles(name)',
+      onUpdate: 'CASCADE',
+    },
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropConstraint('users', 'users_role_fkey');
+  pgm.alterColumn('users', 'role', { default: 'member' });
+  pgm.sql("UPDATE users SET role = 'member' WHERE role <> 'admin'");
+  pgm.dropTable('roles');
+};
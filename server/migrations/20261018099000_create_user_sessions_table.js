@@ -0,0 +1,84 @@
+/**
+ * Migration: Create user_sessions and refresh_tokens tables
+ *
+ * Each login starts a session. The client keeps it alive with a refresh
+ * token, which is swapped for a new one on every use (rotation). Only a
+ * SHA-256 hash of each refresh token is stored.
+ *
+ * Used tokens are kept with used_at set: if one is presented again it has
+ * been copied, so the whole session is revoked (reuse detection).
+ */
+
+exports.up = (pgm) => {
+  pgm.createTable('user_sessions', {
+    id: 'id',
+    user_id: {
+      type: 'integer',
+      notNull: true,
+      references: '"users"(id)',
+      onDelete: 'CASCADE',
+    },
+    user_agent: {
+      type: 'TEXT',
+    },
+    ip_address: {
+      type: 'VARCHAR(64)',
+    },
+    created_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+    last_used_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+    expires_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+    },
+    revoked_at: {
+      type: 'timestamp with time zone',
+    },
+    revoked_reason: {
+      type: 'VARCHAR(30)',
+    },
+  });
+
+  pgm.createIndex('user_sessions', 'user_id', {
+    name: 'idx_user_sessions_user_id',
+  });
+
+  pgm.createTable('refresh_tokens', {
+    id: 'id',
+    session_id: {
+      type: 'integer',
+      notNull: true,
+      references: '"user_sessions"(id)',
+      onDelete: 'CASCADE',
+    },
+    token_hash: {
+      type: 'VARCHAR(64)',
+      notNull: true,
+      unique: true,
+    },
+    created_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+    used_at: {
+      type: 'timestamp with time zone',
+    },
+  });
+
+  pgm.createIndex('refresh_tokens', 'session_id', {
+    name: 'idx_refresh_tokens_session_id',
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('refresh_tokens');
+  pgm.dropTable('user_sessions');
+};
@@ -0,0 +1,64 @@
+/**
+ * Migration: Add TOTP two-factor authentication to users
+ *
+ * totp_secret is set when a user starts enrolling and totp_enabled once they
+ * confirm a code from their authenticator app. totp_last_step is the time
+ * step of the last accepted code, so a code cannot be used twice.
+ *
+ * An admin can set two_factor_required; such a user must enrol at their next
+ * login before a session is issued.
+ *
+ * Recovery codes are single-use and only their SHA-256 hashes are stored.
+ */
+
+exports.up = (pgm) => {
+  pgm.addColumns('users', {
+    totp_secret: {
+      type: 'VARCHAR(64)',
+    },
+    totp_enabled: {
+      type: 'boolean',
+      notNull: true,
+      default: false,
+    },
+    totp_last_step: {
+      type: 'integer',
+    },
+    two_factor_required: {
+      type: 'boolean',
+      notNull: true,
+      default: false,
+    },
+  });
+
+  pgm.createTable('user_recovery_codes', {
+    id: 'id',
+    user_id: {
+      type: 'integer',
+      notNull: true,
+      references: '"users"(id)',
+      onDelete: 'CASCADE',
+    },
+    code_hash: {
+      type: 'VARCHAR(64)',
+      notNull: true,
+    },
+    created_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+    used_at: {
+      type: 'timestamp with time zone',
+    },
+  });
+
+  pgm.createIndex('user_recovery_codes', 'user_id', {
+    name: 'idx_user_recovery_codes_user_id',
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('user_recovery_codes');
+  pgm.dropColumns('users', ['totp_secret', 'totp_enabled', 'totp_last_step', 'two_factor_required']);
+};
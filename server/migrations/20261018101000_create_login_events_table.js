@@ -0,0 +1,64 @@
+/**
+ * Migration: Per-account lockout and login history
+ *
+ * failed_login_count counts consecutive failed logins (wrong password or
+ * wrong two-factor code) and is reset by a successful one. Past a threshold
+ * the account is locked until locked_until, for longer with each further
+ * failure.
+ *
+ * login_events records every attempt. user_id is null when the username
+ * matched no account; the attempted username is kept either way.
+ */
+
+exports.up = (pgm) => {
+  pgm.addColumns('users', {
+    failed_login_count: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+    locked_until: {
+      type: 'timestamp with time zone',
+    },
+  });
+
+  pgm.createTable('login_events', {
+    id: 'id',
+    user_id: {
+      type: 'integer',
+      references: '"users"(id)',
+      onDelete: 'CASCADE',
+    },
+    username: {
+      type: 'VARCHAR(255)',
+      notNull: true,
+    },
+    success: {
+      type: 'boolean',
+      notNull: true,
+    },
+    failure_reason: {
+      type: 'VARCHAR(30)',
+    },
+    ip_address: {
+      type: 'VARCHAR(64)',
+    },
+    user_agent: {
+      type: 'TEXT',
+    },
+    created_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+  });
+
+  pgm.createIndex('login_events', ['user_id', 'created_at'], {
+    name: 'idx_login_events_user_id_created_at',
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('login_events');
+  pgm.dropColumns('users', ['failed_login_count', 'locked_until']);
+};
@@ -0,0 +1,26 @@
+/**
+ * Migration: Email address for user logins
+ *
+ * Password reset links are emailed to this address. Logins linked to a
+ * member take over the member's email, except the placeholder
+ * <username>@library.app addresses that registration gives new members.
+ */
+
+exports.up = (pgm) => {
+  pgm.addColumns('users', {
+    email: {
+      type: 'VARCHAR(255)',
+      unique: true,
+    },
+  });
+
+  pgm.sql(`
+    UPDATE users u SET email = m.email
+    FROM members m
+    WHERE u.member_id = m.id AND m.email NOT LIKE '%@library.app'
+  `);
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumns('users', ['email']);
+};
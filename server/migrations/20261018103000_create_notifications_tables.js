@@ -0,0 +1,114 @@
+/**
+ * Migration: Loan notification emails
+ *
+ * notification_templates holds the editable subject and body of each kind
+ * of email; {{placeholders}} are filled in per loan when it is sent.
+ *
+ * notifications records every email sent to a member about a loan. A loan
+ * gets each kind of notice once per due date: the unique index stops a
+ * scheduled run from notifying a member again, while a renewal, which moves
+ * the due date, makes the loan due for new notices.
+ */
+
+exports.up = (pgm) => {
+  pgm.createTable('notification_templates', {
+    id: 'id',
+    kind: {
+      type: 'VARCHAR(20)',
+      notNull: true,
+      unique: true,
+    },
+    subject: {
+      type: 'TEXT',
+      notNull: true,
+    },
+    body: {
+      type: 'TEXT',
+      notNull: true,
+    },
+    updated_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+  });
+
+  pgm.sql(`
+    INSERT INTO notification_templates (kind, subject, body) VALUES
+    ('due_soon', 'Reminder: {{book_title}} is due on {{due_date}}',
+      E'Hello {{member_name}},\\n\\n{{book_title}} by {{book_author}} is due back on {{due_date}}, in {{days}} day(s).\\n\\nIf you need it for longer, you can renew it from your library account unless another member is waiting for it.\\n\\n{{library_name}}'),
+    ('overdue', 'Overdue: {{book_title}}',
+      E'Hello {{member_name}},\\n\\n{{book_title}} by {{book_author}} was due back on {{due_date}} and is now {{days}} day(s) overdue.\\n\\nPlease return or renew it as soon as you can. Overdue fines may apply.\\n\\n{{library_name}}'),
+    ('final_notice', 'Final notice: {{book_title}}',
+      E'Hello {{member_name}},\\n\\n{{book_title}} by {{book_author}} was due back on {{due_date}} and is now {{days}} days overdue. This is our final reminder.\\n\\nIf it is not returned soon, it may be marked as lost and you may be charged for a replacement.\\n\\n{{library_name}}')
+  `);
+
+  pgm.createTable('notifications', {
+    id: 'id',
+    kind: {
+      type: 'VARCHAR(20)',
+      notNull: true,
+    },
+    loan_id: {
+      type: 'integer',
+      references: '"loans"(id)',
+      onDelete: 'SET NULL',
+    },
+    member_id: {
+      type: 'integer',
+      notNull: true,
+      references: '"members"(id)',
+      onDelete: 'CASCADE',
+    },
+    // The loan's due date when the notice was sent
+    due_date: {
+      type: 'timestamp with time zone',
+    },
+    recipient: {
+      type: 'VARCHAR(255)',
+      notNull: true,
+    },
+    subject: {
+      type: 'TEXT',
+      notNull: true,
+    },
+    body: {
+      type: 'TEXT',
+      notNull: true,
+    },
+    // pending while being sent, then sent or failed
+    status: {
+      type: 'VARCHAR(10)',
+      notNull: true,
+      default: 'pending',
+    },
+    error: {
+      type: 'TEXT',
+    },
+    attempts: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+    created_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+    sent_at: {
+      type: 'timestamp with time zone',
+    },
+  });
+
+  pgm.createIndex('notifications', ['loan_id', 'kind', 'due_date'], {
+    name: 'idx_notifications_loan_kind_due_date',
+    unique: true,
+  });
+  pgm.createIndex('notifications', ['member_id']);
+  pgm.createIndex('notifications', ['created_at']);
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('notifications');
+  pgm.dropTable('notification_templates');
+};
@@ -0,0 +1,121 @@
+/**
+ * Migration: Outgoing webhooks
+ *
+ * webhooks holds the URLs admins register, the secret each delivery is
+ * signed with and the events each one subscribes to.
+ *
+ * webhook_deliveries is both the queue and the delivery log: an event is
+ * queued in the same transaction as the change it describes, one row per
+ * subscribed webhook, and the delivery worker sends each row when its
+ * next_attempt_at comes round, retrying with backoff until it succeeds or
+ * runs out of attempts. An event that may be raised repeatedly, such as a
+ * loan becoming overdue, carries a dedupe_key so each webhook gets it once.
+ */
+
+exports.up = (pgm) => {
+  pgm.createTable('webhooks', {
+    id: 'id',
+    url: {
+      type: 'TEXT',
+      notNull: true,
+    },
+    description: {
+      type: 'VARCHAR(255)',
+    },
+    secret: {
+      type: 'VARCHAR(128)',
+      notNull: true,
+    },
+    events: {
+      type: 'TEXT[]',
+      notNull: true,
+    },
+    active: {
+      type: 'boolean',
+      notNull: true,
+      default: true,
+    },
+    created_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+    updated_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+  });
+
+  pgm.createTable('webhook_deliveries', {
+    id: 'id',
+    webhook_id: {
+      type: 'integer',
+      notNull: true,
+      references: '"webhooks"(id)',
+      onDelete: 'CASCADE',
+    },
+    event: {
+      type: 'VARCHAR(50)',
+      notNull: true,
+    },
+    payload: {
+      type: 'JSONB',
+      notNull: true,
+    },
+    dedupe_key: {
+      type: 'VARCHAR(255)',
+    },
+    status: {
+      type: 'VARCHAR(10)',
+      notNull: true,
+      default: 'pending',
+    },
+    attempts: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+    next_attempt_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+    last_attempt_at: {
+      type: 'timestamp with time zone',
+    },
+    response_status: {
+      type: 'integer',
+    },
+    response_body: {
+      type: 'TEXT',
+    },
+    error: {
+      type: 'TEXT',
+    },
+    created_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+    delivered_at: {
+      type: 'timestamp with time zone',
+    },
+  });
+
+  pgm.addConstraint('webhook_deliveries', 'webhook_deliveries_status_check', {
+    check: "status IN ('pending', 'succeeded', 'failed')",
+  });
+
+  pgm.createIndex('webhook_deliveries', ['webhook_id', 'dedupe_key'], {
+    name: 'idx_webhook_deliveries_webhook_dedupe_key',
+    unique: true,
+  });
+  pgm.createIndex('webhook_deliveries', ['status', 'next_attempt_at']);
+  pgm.createIndex('webhook_deliveries', ['created_at']);
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('webhook_deliveries');
+  pgm.dropTable('webhooks');
+};
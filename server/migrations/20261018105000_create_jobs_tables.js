@@ -0,0 +1,107 @@
+/**
+ * Migration: Background job queue
+ *
+ * jobs is a durable queue shared by every API replica. Workers claim the
+ * oldest due pending job with SELECT ... FOR UPDATE SKIP LOCKED, so two
+ * workers never take the same job. A job that throws goes back to pending
+ * with a later run_at until it runs out of attempts, and then stays in the
+ * table as dead (the dead-letter list) until an admin retries or deletes it.
+ * Scheduled jobs carry a dedupe_key naming their slot, so a slot is queued
+ * once however many replicas fire it. The key stays taken once the job has
+ * finished, so a slot is never queued again, until the job is deleted.
+ *
+ * job_leader_locks holds short leases; the replica holding the scheduler
+ * lease is the one that queues scheduled jobs.
+ */
+
+exports.up = (pgm) => {
+  pgm.createTable('jobs', {
+    id: 'id',
+    type: {
+      type: 'VARCHAR(50)',
+      notNull: true,
+    },
+    payload: {
+      type: 'JSONB',
+      notNull: true,
+      default: '{}',
+    },
+    status: {
+      type: 'VARCHAR(10)',
+      notNull: true,
+      default: 'pending',
+    },
+    attempts: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+    max_attempts: {
+      type: 'integer',
+      notNull: true,
+      default: 5,
+    },
+    run_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+    dedupe_key: {
+      type: 'VARCHAR(255)',
+    },
+    locked_by: {
+      type: 'VARCHAR(255)',
+    },
+    locked_at: {
+      type: 'timestamp with time zone',
+    },
+    last_error: {
+      type: 'TEXT',
+    },
+    result: {
+      type: 'JSONB',
+    },
+    created_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+    started_at: {
+      type: 'timestamp with time zone',
+    },
+    finished_at: {
+      type: 'timestamp with time zone',
+    },
+  });
+
+  pgm.addConstraint('jobs', 'jobs_status_check', {
+    check: "status IN ('pending', 'running', 'succeeded', 'dead')",
+  });
+
+  pgm.createIndex('jobs', ['dedupe_key'], {
+    name: 'idx_jobs_dedupe_key',
+    unique: true,
+  });
+  pgm.createIndex('jobs', ['status', 'run_at']);
+  pgm.createIndex('jobs', ['type', 'created_at']);
+
+  pgm.createTable('job_leader_locks', {
+    name: {
+      type: 'VARCHAR(100)',
+      primaryKey: true,
+    },
+    holder: {
+      type: 'VARCHAR(255)',
+      notNull: true,
+    },
+    expires_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+    },
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('job_leader_locks');
+  pgm.dropTable('jobs');
+};
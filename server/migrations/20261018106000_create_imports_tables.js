@@ -0,0 +1,155 @@
+/**
+ * Migration: Bulk imports
+ *
+ * An upload is checked against the catalogue before anything is written:
+ * imports holds the upload and its preview counts, and import_rows holds
+ * each CSV row with the action the preview decided (create, update,
+ * duplicate or invalid) and the errors found per column. Once the preview
+ * is confirmed a background job imports the pending rows one at a time,
+ * recording each row's outcome and the import's progress as it goes, so a
+ * retried job resumes where the last attempt stopped.
+ */
+
+exports.up = (pgm) => {
+  pgm.createTable('imports', {
+    id: 'id',
+    kind: {
+      type: 'VARCHAR(20)',
+      notNull: true,
+    },
+    filename: {
+      type: 'VARCHAR(255)',
+    },
+    status: {
+      type: 'VARCHAR(10)',
+      notNull: true,
+      default: 'previewed',
+    },
+    columns: {
+      type: 'JSONB',
+      notNull: true,
+      default: '[]',
+    },
+    total_rows: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+    create_rows: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+    update_rows: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+    duplicate_rows: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+    invalid_rows: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+    processed_rows: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+    created_count: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+    updated_count: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+    failed_count: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+    job_id: {
+      type: 'integer',
+    },
+    error: {
+      type: 'TEXT',
+    },
+    created_by: {
+      type: 'integer',
+      references: 'users',
+      onDelete: 'SET NULL',
+    },
+    created_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+    started_at: {
+      type: 'timestamp with time zone',
+    },
+    finished_at: {
+      type: 'timestamp with time zone',
+    },
+  });
+
+  pgm.addConstraint('imports', 'imports_kind_check', {
+    check: "kind IN ('books', 'members')",
+  });
+  pgm.addConstraint('imports', 'imports_status_check', {
+    check: "status IN ('previewed', 'queued', 'running', 'completed', 'failed')",
+  });
+  pgm.createIndex('imports', ['created_at']);
+
+  pgm.createTable('import_rows', {
+    id: 'id',
+    import_id: {
+      type: 'integer',
+      notNull: true,
+      references: 'imports',
+      onDelete: 'CASCADE',
+    },
+    row_number: {
+      type: 'integer',
+      notNull: true,
+    },
+    data: {
+      type: 'JSONB',
+      notNull: true,
+    },
+    action: {
+      type: 'VARCHAR(10)',
+      notNull: true,
+    },
+    errors: {
+      type: 'JSONB',
+      notNull: true,
+      default: '[]',
+    },
+    status: {
+      type: 'VARCHAR(10)',
+      notNull: true,
+      default: 'pending',
+    },
+  });
+
+  pgm.addConstraint('import_rows', 'import_rows_action_check', {
+    check: "action IN ('create', 'update', 'duplicate', 'invalid')",
+  });
+  pgm.addConstraint('import_rows', 'import_rows_status_check', {
+    check: "status IN ('pending', 'imported', 'failed', 'skipped')",
+  });
+  pgm.createIndex('import_rows', ['import_id', 'row_number'], { unique: true });
+  pgm.createIndex('import_rows', ['import_id', 'status']);
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('import_rows');
+  pgm.dropTable('imports');
+};
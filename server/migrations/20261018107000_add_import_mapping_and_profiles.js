@@ -0,0 +1,112 @@
+/**
+ * Migration: Column mapping, import modes and import profiles
+ *
+ * An import now maps the fields it imports to columns of the uploaded
+ * file, and has a mode:
+ * - insert: only create records; rows matching an existing record are duplicates
+ *           (for books, a catalogued ISBN still adds a copy)
+ * - update: only update records matched by ISBN or email
+ * - upsert: create or update
+ *
+ * import_rows.changes holds the field changes the preview found for rows
+ * that update a record. A matched row that would change nothing is
+ * unchanged and is not imported.
+ *
+ * import_profiles saves a mapping and mode under a name for reuse.
+ */
+
+exports.up = (pgm) => {
+  pgm.addColumns('imports', {
+    mapping: {
+      type: 'JSONB',
+      notNull: true,
+      default: '{}',
+    },
+    mode: {
+      type: 'VARCHAR(10)',
+      notNull: true,
+      default: 'insert',
+    },
+    unchanged_rows: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+  });
+
+  pgm.addConstraint('imports', 'imports_mode_check', {
+    check: "mode IN ('insert', 'update', 'upsert')",
+  });
+
+  pgm.addColumns('import_rows', {
+    changes: {
+      type: 'JSONB',
+      notNull: true,
+      default: '[]',
+    },
+  });
+
+  pgm.dropConstraint('import_rows', 'import_rows_action_check');
+  pgm.addConstraint('import_rows', 'import_rows_action_check', {
+    check: "action IN ('create', 'update', 'unchanged', 'duplicate', 'invalid')",
+  });
+
+  pgm.createTable('import_profiles', {
+    id: 'id',
+    kind: {
+      type: 'VARCHAR(20)',
+      notNull: true,
+    },
+    name: {
+      type: 'VARCHAR(100)',
+      notNull: true,
+    },
+    mapping: {
+      type: 'JSONB',
+      notNull: true,
+      default: '{}',
+    },
+    mode: {
+      type: 'VARCHAR(10)',
+      notNull: true,
+      default: 'insert',
+    },
+    created_by: {
+      type: 'integer',
+      references: 'users',
+      onDelete: 'SET NULL',
+    },
+    created_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+    updated_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+  });
+
+  pgm.addConstraint('import_profiles', 'import_profiles_kind_check', {
+    check: "kind IN ('books', 'members')",
+  });
+  pgm.addConstraint('import_profiles', 'import_profiles_mode_check', {
+    check: "mode IN ('insert', 'update', 'upsert')",
+  });
+  pgm.createIndex('import_profiles', ['kind', 'name'], { unique: true });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('import_profiles');
+
+  pgm.sql("DELETE FROM import_rows WHERE action = 'unchanged'");
+  pgm.dropConstraint('import_rows', 'import_rows_action_check');
+  pgm.addConstraint('import_rows', 'import_rows_action_check', {
+    check: "action IN ('create', 'update', 'duplicate', 'invalid')",
+  });
+  pgm.dropColumns('import_rows', ['changes']);
+
+  pgm.dropConstraint('imports', 'imports_mode_check');
+  pgm.dropColumns('imports', ['mapping', 'mode', 'unchanged_rows']);
+};
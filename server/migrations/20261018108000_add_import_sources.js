@@ -0,0 +1,29 @@
+/**
+ * Migration: Import sources
+ *
+ * Book imports can read another catalogue's export instead of a CSV file
+ * in HomeShelf's layout:
+ * - csv: HomeShelf's CSV template, or any CSV mapped column by column
+ * - goodreads: a Goodreads library export (CSV)
+ * - librarything: a LibraryThing export (tab-separated or JSON)
+ * - calibre: a Calibre library's metadata.db, or Calibre's CSV export
+ */
+
+exports.up = (pgm) => {
+  pgm.addColumns('imports', {
+    source: {
+      type: 'VARCHAR(20)',
+      notNull: true,
+      default: 'csv',
+    },
+  });
+
+  pgm.addConstraint('imports', 'imports_source_check', {
+    check: "source IN ('csv', 'goodreads', 'librarything', 'calibre')",
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropConstraint('imports', 'imports_source_check');
+  pgm.dropColumns('imports', ['source']);
+};
@@ -0,0 +1,32 @@
+/**
+ * Migration: MARC import source
+ *
+ * Book imports can read MARC 21 records, as ISO 2709 or MARCXML. A record
+ * that cannot be read is kept as an import row with the reason in
+ * read_errors, so it is reported with the others and stays invalid when
+ * the mapping or mode changes.
+ */
+
+exports.up = (pgm) => {
+  pgm.dropConstraint('imports', 'imports_source_check');
+  pgm.addConstraint('imports', 'imports_source_check', {
+    check: "source IN ('csv', 'goodreads', 'librarything', 'calibre', 'marc')",
+  });
+
+  pgm.addColumns('import_rows', {
+    read_errors: {
+      type: 'JSONB',
+      notNull: true,
+      default: '[]',
+    },
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumns('import_rows', ['read_errors']);
+  pgm.sql("DELETE FROM imports WHERE source = 'marc'");
+  pgm.dropConstraint('imports', 'imports_source_check');
+  pgm.addConstraint('imports', 'imports_source_check', {
+    check: "source IN ('csv', 'goodreads', 'librarything', 'calibre')",
+  });
+};
@@ -0,0 +1,176 @@
+/**
+ * Migration: Full-text search
+ *
+ * Books and members are searched through weighted tsvectors kept in their
+ * own tables, so they stay out of the rows the API returns, with GIN
+ * indexes. Triggers keep them up to date:
+ * - books: title and ISBN (weight A), author (B), category names (C) and
+ *   description (D), with English stemming; refreshed when a book changes,
+ *   its categories change or one of its categories is renamed
+ * - members: name and barcode (A), email (B) and phone (C), without
+ *   stemming, as names and addresses are not English words
+ * ISBNs and phone numbers are indexed without their hyphens and spaces.
+ */
+
+exports.up = (pgm) => {
+  pgm.createTable('book_search_vectors', {
+    book_id: {
+      type: 'integer',
+      primaryKey: true,
+      references: '"books"(id)',
+      onDelete: 'CASCADE',
+    },
+    search_vector: {
+      type: 'tsvector',
+      notNull: true,
+    },
+  });
+
+  pgm.createTable('member_search_vectors', {
+    member_id: {
+      type: 'integer',
+      primaryKey: true,
+      references: '"members"(id)',
+      onDelete: 'CASCADE',
+    },
+    search_vector: {
+      type: 'tsvector',
+      notNull: true,
+    },
+  });
+
+  pgm.createFunction(
+    'refresh_book_search_vector',
+    [{ name: 'p_book_id', type: 'integer' }],
+    { returns: 'void', language: 'plpgsql', replace: true },
+    `
+    BEGIN
+      INSERT INTO book_search_vectors (book_id, search_vector)
+      SELECT
+        b.id,
+        setweight(to_tsvector('english', b.title || ' ' || regexp_replace(coalesce(b.isbn, ''), '[^0-9Xx]', '', 'g')), 'A') ||
+        setweight(to_tsvector('english', coalesce(b.author, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce((
+          SELECT string_agg(c.name, ' ')
+          FROM book_categories bc
+          JOIN categories c ON c.id = bc.category_id
+          WHERE bc.book_id = b.id
+        ), '')), 'C') ||
+        setweight(to_tsvector('english', coalesce(b.description, '')), 'D')
+      FROM books b
+      WHERE b.id = p_book_id
+      ON CONFLICT (book_id) DO UPDATE SET search_vector = EXCLUDED.search_vector;
+    END;
+    `
+  );
+
+  pgm.createFunction(
+    'books_refresh_search_vector',
+    [],
+    { returns: 'trigger', language: 'plpgsql', replace: true },
+    `
+    BEGIN
+      PERFORM refresh_book_search_vector(NEW.id);
+      RETURN NULL;
+    END;
+    `
+  );
+
+  pgm.createTrigger('books', 'books_refresh_search_vector', {
+    when: 'AFTER',
+    operation: ['INSERT', 'UPDATE OF title, author, isbn, description'],
+    level: 'ROW',
+    function: 'books_refresh_search_vector',
+  });
+
+  pgm.createFunction(
+    'book_categories_refresh_search_vector',
+    [],
+    { returns: 'trigger', language: 'plpgsql', replace: true },
+    `
+    BEGIN
+      PERFORM refresh_book_search_vector(CASE WHEN TG_OP = 'DELETE' THEN OLD.book_id ELSE NEW.book_id END);
+      RETURN NULL;
+    END;
+    `
+  );
+
+  pgm.createTrigger('book_categories', 'book_categories_refresh_search_vector', {
+    when: 'AFTER',
+    operation: ['INSERT', 'DELETE'],
+    level: 'ROW',
+    function: 'book_categories_refresh_search_vector',
+  });
+
+  pgm.createFunction(
+    'categories_refresh_search_vector',
+    [],
+    { returns: 'trigger', language: 'plpgsql', replace: true },
+    `
+    BEGIN
+      PERFORM refresh_book_search_vector(book_id) FROM book_categories WHERE category_id = NEW.id;
+      RETURN NULL;
+    END;
+    `
+  );
+
+  pgm.createTrigger('categories', 'categories_refresh_search_vector', {
+    when: 'AFTER',
+    operation: ['UPDATE OF name'],
+    level: 'ROW',
+    function: 'categories_refresh_search_vector',
+  });
+
+  pgm.createFunction(
+    'members_refresh_search_vector',
+    [],
+    { returns: 'trigger', language: 'plpgsql', replace: true },
+    `
+    BEGIN
+      INSERT INTO member_search_vectors (member_id, search_vector)
+      VALUES (
+        NEW.id,
+        setweight(to_tsvector('simple', NEW.name || ' ' || coalesce(NEW.barcode, '')), 'A') ||
+        setweight(to_tsvector('simple', regexp_replace(NEW.email, '[@._+-]', ' ', 'g')), 'B') ||
+        setweight(to_tsvector('simple', regexp_replace(coalesce(NEW.phone, ''), '[^0-9]', '', 'g')), 'C')
+      )
+      ON CONFLICT (member_id) DO UPDATE SET search_vector = EXCLUDED.search_vector;
+      RETURN NULL;
+    END;
+    `
+  );
+
+  pgm.createTrigger('members', 'members_refresh_search_vector', {
+    when: 'AFTER',
+    operation: ['INSERT', 'UPDATE OF name, email, phone, barcode'],
+    level: 'ROW',
+    function: 'members_refresh_search_vector',
+  });
+
+  // Index the books and members there already are
+  pgm.sql('SELECT refresh_book_search_vector(id) FROM books');
+  pgm.sql('UPDATE members SET name = name');
+
+  pgm.createIndex('book_search_vectors', 'search_vector', {
+    name: 'idx_book_search_vectors_search_vector',
+    method: 'gin',
+  });
+  pgm.createIndex('member_search_vectors', 'search_vector', {
+    name: 'idx_member_search_vectors_search_vector',
+    method: 'gin',
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTrigger('members', 'members_refresh_search_vector');
+  pgm.dropFunction('members_refresh_search_vector', []);
+  pgm.dropTrigger('categories', 'categories_refresh_search_vector');
+  pgm.dropFunction('categories_refresh_search_vector', []);
+  pgm.dropTrigger('book_categories', 'book_categories_refresh_search_vector');
+  pgm.dropFunction('book_categories_refresh_search_vector', []);
+  pgm.dropTrigger('books', 'books_refresh_search_vector');
+  pgm.dropFunction('books_refresh_search_vector', []);
+  pgm.dropFunction('refresh_book_search_vector', [{ name: 'p_book_id', type: 'integer' }]);
+  pgm.dropTable('member_search_vectors');
+  pgm.dropTable('book_search_vectors');
+};
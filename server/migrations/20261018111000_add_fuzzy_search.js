@@ -0,0 +1,95 @@
+/**
+ * Migration: Fuzzy search
+ *
+ * Adds pg_trgm for matching misspelled searches:
+ * - book_search_vectors.words holds the words of each book's title, author
+ *   and categories as written (without stemming), the vocabulary searches
+ *   with no hits are corrected from
+ * - trigram indexes on book titles and authors for suggestions as you type
+ * Members are corrected from their search vectors, which are not stemmed.
+ */
+
+exports.up = (pgm) => {
+  pgm.createExtension('pg_trgm', { ifNotExists: true });
+
+  pgm.addColumn('book_search_vectors', {
+    words: {
+      type: 'tsvector',
+      notNull: true,
+      default: pgm.func("''::tsvector"),
+    },
+  });
+
+  pgm.createFunction(
+    'refresh_book_search_vector',
+    [{ name: 'p_book_id', type: 'integer' }],
+    { returns: 'void', language: 'plpgsql', replace: true },
+    `
+    DECLARE
+      v_categories TEXT;
+    BEGIN
+      SELECT string_agg(c.name, ' ') INTO v_categories
+      FROM book_categories bc
+      JOIN categories c ON c.id = bc.category_id
+      WHERE bc.book_id = p_book_id;
+
+      INSERT INTO book_search_vectors (book_id, search_vector, words)
+      SELECT
+        b.id,
+        setweight(to_tsvector('english', b.title || ' ' || regexp_replace(coalesce(b.isbn, ''), '[^0-9Xx]', '', 'g')), 'A') ||
+        setweight(to_tsvector('english', coalesce(b.author, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(v_categories, '')), 'C') ||
+        setweight(to_tsvector('english', coalesce(b.description, '')), 'D'),
+        strip(to_tsvector('simple', b.title || ' ' || coalesce(b.author, '') || ' ' || coalesce(v_categories, '')))
+      FROM books b
+      WHERE b.id = p_book_id
+      ON CONFLICT (book_id) DO UPDATE SET search_vector = EXCLUDED.search_vector, words = EXCLUDED.words;
+    END;
+    `
+  );
+
+  // Index the words of the books there already are
+  pgm.sql('SELECT refresh_book_search_vector(id) FROM books');
+
+  pgm.createIndex('books', [{ name: 'title', opclass: 'gin_trgm_ops' }], {
+    name: 'idx_books_title_trgm',
+    method: 'gin',
+  });
+  pgm.createIndex('books', [{ name: 'author', opclass: 'gin_trgm_ops' }], {
+    name: 'idx_books_author_trgm',
+    method: 'gin',
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropIndex('books', 'author', { name: 'idx_books_author_trgm' });
+  pgm.dropIndex('books', 'title', { name: 'idx_books_title_trgm' });
+
+  pgm.createFunction(
+    'refresh_book_search_vector',
+    [{ name: 'p_book_id', type: 'integer' }],
+    { returns: 'void', language: 'plpgsql', replace: true },
+    `
+    BEGIN
+      INSERT INTO book_search_vectors (book_id, search_vector)
+      SELECT
+        b.id,
+        setweight(to_tsvector('english', b.title || ' ' || regexp_replace(coalesce(b.isbn, ''), '[^0-9Xx]', '', 'g')), 'A') ||
+        setweight(to_tsvector('english', coalesce(b.author, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce((
+          SELECT string_agg(c.name, ' ')
+          FROM book_categories bc
+          JOIN categories c ON c.id = bc.category_id
+          WHERE bc.book_id = b.id
+        ), '')), 'C') ||
+        setweight(to_tsvector('english', coalesce(b.description, '')), 'D')
+      FROM books b
+      WHERE b.id = p_book_id
+      ON CONFLICT (book_id) DO UPDATE SET search_vector = EXCLUDED.search_vector;
+    END;
+    `
+  );
+
+  pgm.dropColumn('book_search_vectors', 'words');
+  pgm.dropExtension('pg_trgm', { ifExists: true });
+};
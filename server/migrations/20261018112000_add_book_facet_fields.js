@@ -0,0 +1,38 @@
+/**
+ * Migration: Book language, publication year and format
+ *
+ * Fields the book list can be narrowed by, with counts for each value:
+ * - language: a BCP 47 language tag such as en or ml
+ * - publication_year: the year the edition was published
+ * - format: hardcover, paperback, ebook, audiobook, large print or other
+ */
+
+exports.up = (pgm) => {
+  pgm.addColumns('books', {
+    language: {
+      type: 'VARCHAR(35)',
+      notNull: false,
+    },
+    publication_year: {
+      type: 'INTEGER',
+      notNull: false,
+      check: 'publication_year BETWEEN 1 AND 9999',
+    },
+    format: {
+      type: 'VARCHAR(20)',
+      notNull: false,
+      check: "format IN ('hardcover', 'paperback', 'ebook', 'audiobook', 'large_print', 'other')",
+    },
+  });
+
+  pgm.createIndex('books', 'language', { name: 'idx_books_language' });
+  pgm.createIndex('books', 'publication_year', { name: 'idx_books_publication_year' });
+  pgm.createIndex('books', 'format', { name: 'idx_books_format' });
+};
+
+exports.down = (pgm) => {
+  pgm.dropIndex('books', 'format', { name: 'idx_books_format' });
+  pgm.dropIndex('books', 'publication_year', { name: 'idx_books_publication_year' });
+  pgm.dropIndex('books', 'language', { name: 'idx_books_language' });
+  pgm.dropColumns('books', ['language', 'publication_year', 'format']);
+};
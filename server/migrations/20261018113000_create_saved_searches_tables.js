@@ -0,0 +1,90 @@
+/**
+ * Migration: Saved searches and smart collections
+ *
+ * saved_searches keeps a user's book searches under a name: the search as
+ * it was typed, with its fields, and the book list filters chosen with it.
+ * A smart collection is a saved search whose books are found again each
+ * time it is opened. A shared search can be seen and run by every user,
+ * but only changed by its owner.
+ *
+ * saved_search_pins holds the smart collections each user has pinned to
+ * their navigation bar.
+ */
+
+exports.up = (pgm) => {
+  pgm.createTable('saved_searches', {
+    id: 'id',
+    user_id: {
+      type: 'integer',
+      notNull: true,
+      references: 'users',
+      onDelete: 'CASCADE',
+    },
+    name: {
+      type: 'VARCHAR(100)',
+      notNull: true,
+    },
+    search: {
+      type: 'TEXT',
+      notNull: true,
+      default: '',
+    },
+    filters: {
+      type: 'JSONB',
+      notNull: true,
+      default: '{}',
+    },
+    collection: {
+      type: 'boolean',
+      notNull: true,
+      default: false,
+    },
+    shared: {
+      type: 'boolean',
+      notNull: true,
+      default: false,
+    },
+    created_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+    updated_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+  });
+
+  pgm.createIndex('saved_searches', ['user_id', 'name'], { unique: true });
+  pgm.createIndex('saved_searches', 'shared', { where: 'shared' });
+
+  pgm.createTable('saved_search_pins', {
+    user_id: {
+      type: 'integer',
+      notNull: true,
+      references: 'users',
+      onDelete: 'CASCADE',
+      primaryKey: true,
+    },
+    saved_search_id: {
+      type: 'integer',
+      notNull: true,
+      references: 'saved_searches',
+      onDelete: 'CASCADE',
+      primaryKey: true,
+    },
+    created_at: {
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+  });
+
+  pgm.createIndex('saved_search_pins', 'saved_search_id');
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('saved_search_pins');
+  pgm.dropTable('saved_searches');
+};
@@ -3,6 +3,7 @@
  */
 
 import dotenv from 'dotenv';
+import { MAIL_TRANSPORTS, MailTransportName } from '../types/mail';
 
 dotenv.config();
 
@@ -16,6 +17,11 @@ export interface Config {
 
   // Authentication
   jwtSecret: string;
+  accessTokenTtl: string;
+  refreshTokenDays: number;
+  loginLockoutThreshold: number;
+  loginLockoutBaseMinutes: number;
+  loginLockoutMaxMinutes: number;
 
   // CORS
   clientUrl: string;
@@ -34,11 +40,32 @@ export interface Config {
   smtpUser?: string;
   smtpPassword?: string;
   smtpFrom?: string;
+  mailTransport: MailTransportName;
+  mailDir: string;
+  passwordResetTokenMinutes: number;
+  dueSoonNoticeDays: number;
+  finalNoticeDays: number;
 
   // Features
   overdueChecksEnabled: boolean;
   overdueCheckInterval: number;
 
+  // Circulation
+  holdPickupDays: number;
+
+  // Webhooks
+  webhookTimeoutMs: number;
+
+  // Background jobs
+  jobWorkerEnabled: boolean;
+  jobPollIntervalMs: number;
+  jobLockTimeoutMinutes: number;
+
+  // Fines
+  finePerDay: number;
+  fineMaxAmount: number;
+  fineBlockThreshold: number;
+
   // Branding
   libraryName: string;
   libraryLogo?: string;
@@ -54,6 +81,11 @@ const config: Config = {
 
   // Authentication
   jwtSecret: process.env.JWT_SECRET || 'default-jwt-secret-change-in-production',
+  accessTokenTtl: process.env.ACCESS_TOKEN_TTL || '15m',
+  refreshTokenDays: parseInt(process.env.REFRESH_TOKEN_DAYS || '30', 10),
+  loginLockoutThreshold: parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '5', 10),
+  loginLockoutBaseMinutes: parseInt(process.env.LOGIN_LOCKOUT_BASE_MINUTES || '1', 10),
+  loginLockoutMaxMinutes: parseInt(process.env.LOGIN_LOCKOUT_MAX_MINUTES || '60', 10),
 
   // CORS
   clientUrl: process.env.CLIENT_URL || 'http://localhost:3000',
@@ -72,11 +104,33 @@ const config: Config = {
   smtpUser: process.env.SMTP_USER,
   smtpPassword: process.env.SMTP_PASSWORD,
   smtpFrom: process.env.SMTP_FROM,
+  // Without an SMTP server, outgoing mail is only logged
+  mailTransport: (process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console')) as MailTransportName,
+  mailDir: process.env.MAIL_DIR || 'mail',
+  passwordResetTokenMinutes: parseInt(process.env.PASSWORD_RESET_TOKEN_MINUTES || '60', 10),
+  dueSoonNoticeDays: parseInt(process.env.DUE_SOON_NOTICE_DAYS || '2', 10),
+  finalNoticeDays: parseInt(process.env.FINAL_NOTICE_DAYS || '14', 10),
 
   // Features
   overdueChecksEnabled: process.env.ENABLE_OVERDUE_CHECKS !== 'false',
   overdueCheckInterval: parseInt(process.env.OVERDUE_CHECK_INTERVAL || '60', 10),
 
+  // Circulation
+  holdPickupDays: parseInt(process.env.HOLD_PICKUP_DAYS || '7', 10),
+
+  // Webhooks
+  webhookTimeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+
+  // Background jobs
+  jobWorkerEnabled: process.env.ENABLE_JOB_WORKER !== 'false',
+  jobPollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '5000', 10),
+  jobLockTimeoutMinutes: parseInt(process.env.JOB_LOCK_TIMEOUT_MINUTES || '15', 10),
+
+  // Fines
+  finePerDay: parseFloat(process.env.FINE_PER_DAY || '0.25'),
+  fineMaxAmount: parseFloat(process.env.FINE_MAX_AMOUNT || '10'),
+  fineBlockThreshold: parseFloat(process.env.FINE_BLOCK_THRESHOLD || '10'),
+
   // Branding
   libraryName: process.env.LIBRARY_NAME || 'Library Management System',
   libraryLogo: process.env.LIBRARY_LOGO
@@ -87,6 +141,14 @@ if (!config.jwtSecret || config.jwtSecret === 'default-jwt-secret-change-in-prod
   console.warn('WARNING: JWT_SECRET is not set or using default value. Please set a secure JWT_SECRET in production.');
 }
 
+if (!MAIL_TRANSPORTS.includes(config.mailTransport)) {
+  throw new Error(`MAIL_TRANSPORT must be one of: ${MAIL_TRANSPORTS.join(', ')}`);
+}
+
+if (config.mailTransport === 'smtp' && !config.smtpHost) {
+  throw new Error('SMTP_HOST is required when MAIL_TRANSPORT is smtp');
+}
+
 if (!config.databaseUrl) {
   throw new Error('DATABASE_URL is required but not set in environment variables');
 }
@@ -0,0 +1,322 @@
+/**
+ * Book importer
+ *
+ * Each row describes a book and, optionally, a copy of it; rows are matched
+ * to catalogued books by ISBN. A row for a new book creates it with a copy.
+ * In insert mode a row whose ISBN is already catalogued, or appears on an
+ * earlier row, only adds a copy; in update and upsert modes it also
+ * updates the book's title and author, adds categories it is missing,
+ * fills in a missing cover or description, and adds a copy when the row describes one
+ * that is not on the shelf yet. A row whose barcode belongs to another
+ * copy is a duplicate.
+ */
+
+import { PoolClient } from 'pg';
+import { query } from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { checkCopyFields, isValidISBN, sanitizeString } from '../middleware/validation';
+import { Book } from '../types/book';
+import { CopyInput } from '../types/copy';
+import { ImportField, ImportFieldChange, ImportFieldError, ImportMode, ImportRecord, ImportRowPlan } from '../types/import';
+import { BookService } from '../services/BookService';
+import { CopyService } from '../services/CopyService';
+import { JobService } from '../services/JobService';
+import { Importer } from './importer';
+
+const FIELDS: ImportField[] = [
+  { name: 'title', required: true, aliases: ['book_title'] },
+  { name: 'author', required: true, aliases: ['authors', 'writer', 'author_name'] },
+  { name: 'isbn', required: false, aliases: ['isbn13', 'isbn_13', 'isbn10', 'isbn_10'] },
+  { name: 'categories', required: false, aliases: ['category', 'genre', 'genres', 'subjects', 'tags'] },
+  { name: 'description', required: false, aliases: ['summary', 'synopsis', 'comments'] },
+  { name: 'cover_image_url', required: false, aliases: ['cover_image_path', 'cover', 'cover_url', 'image_url'] },
+  { name: 'barcode', required: false, aliases: ['copy_barcode', 'accession_number'] },
+  { name: 'condition', required: false, aliases: ['copy_condition'] },
+  { name: 'location', required: false, aliases: ['shelf', 'shelf_location'] },
+  { name: 'acquisition_date', required: false, aliases: ['acquired', 'date_acquired', 'acquired_on'] },
+  { name: 'price', required: false, aliases: ['cost', 'purchase_price'] },
+];
+
+const COPY_COLUMNS = ['barcode', 'condition', 'location', 'acquisition_date', 'price'] as const;
+
+interface CataloguedBook {
+  id: number;
+  isbn: string;
+  title: string;
+  author: string;
+  cover_image_path: string | null;
+  description: string | null;
+  categories: string[];
+}
+
+const copyInputOf = (record: ImportRecord): CopyInput => ({
+  barcode: record.barcode || undefined,
+  condition: record.condition ? record.condition.toLowerCase() as CopyInput['condition'] : undefined,
+  location: record.location || undefined,
+  acquisition_date: record.acquisition_date || undefined,
+  price: record.price ? Number(record.price) : undefined,
+});
+
+const describesCopy = (record: ImportRecord) => COPY_COLUMNS.some(column => record[column] !== undefined);
+
+const categoryNamesOf = (record: ImportRecord) =>
+  (record.categories || '').split(',').map(name => name.trim()).filter(Boolean);
+
+const validate = (record: ImportRecord): ImportFieldError[] => {
+  const errors: ImportFieldError[] = [];
+
+  if (record.isbn && !isValidISBN(record.isbn)) {
+    errors.push({ column: 'isbn', message: 'Invalid ISBN format. Must be ISBN-10 or ISBN-13' });
+  }
+
+  // Check the copy columns one at a time so each error names its column
+  const copyInput = copyInputOf(record);
+  for (const column of COPY_COLUMNS) {
+    if (copyInput[column] === undefined) continue;
+    const message = checkCopyFields({ [column]: copyInput[column] });
+    if (message) {
+      errors.push({ column, message });
+    }
+  }
+
+  return errors;
+};
+
+const missingForCreate = (record: ImportRecord): ImportFieldError[] => [
+  ...(record.title ? [] : [{ column: 'title', message: 'Title is required' }]),
+  ...(record.author ? [] : [{ column: 'author', message: 'Author is required' }]),
+];
+
+/**
+ * What an update row would change on a catalogued book
+ */
+const bookChanges = (book: CataloguedBook, record: ImportRecord): ImportFieldChange[] => {
+  const changes: ImportFieldChange[] = [];
+
+  for (const field of ['title', 'author'] as const) {
+    const value = record[field] ? sanitizeString(record[field]) : undefined;
+    if (value && value !== book[field]) {
+      changes.push({ field, from: book[field], to: value });
+    }
+  }
+
+  const filed = book.categories.map(name => name.toLowerCase());
+  const added = categoryNamesOf(record).filter(name => !filed.includes(name.toLowerCase()));
+  if (added.length > 0) {
+    changes.push({ field: 'categories', from: book.categories.join(', ') || null, to: [...book.categories, ...added].join(', ') });
+  }
+
+  if (record.description && !book.description) {
+    changes.push({ field: 'description', from: null, to: sanitizeString(record.description) });
+  }
+
+  if (record.cover_image_url && !book.cover_image_path) {
+    changes.push({ field: 'cover_image_url', from: null, to: record.cover_image_url });
+  }
+
+  return changes;
+};
+
+export const createBookImporter = (): Importer => {
+  const bookService = new BookService();
+  const copyService = new CopyService();
+  const jobService = new JobService();
+
+  // Get or create a category and file the book under it. Returns whether the book was not already filed there.
+  const addCategory = async (bookId: number, name: string, client: PoolClient): Promise<boolean> => {
+    const existing = await client.query<{ id: number }>('SELECT id FROM categories WHERE LOWER(name) = LOWER($1)', [name]);
+    const categoryId = existing.rows.length > 0
+      ? existing.rows[0].id
+      : (await client.query<{ id: number }>('INSERT INTO categories (name) VALUES ($1) RETURNING id', [name])).rows[0].id;
+
+    const { rowCount } = await client.query(
+      'INSERT INTO book_categories (book_id, category_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+      [bookId, categoryId]
+    );
+    return (rowCount || 0) > 0;
+  };
+
+  // A cover given as a URL is downloaded by a background job; anything else is taken as a path
+  const setCover = async (bookId: number, cover: string, client: PoolClient) => {
+    if (/^https?:\/\/.+/i.test(cover)) {
+      await jobService.enqueue('books.download_cover', { book_id: bookId, url: cover }, { client });
+    } else {
+      await bookService.updateBook(bookId, { cover_image_path: cover }, client);
+    }
+  };
+
+  const createBook = async (record: ImportRecord, client: PoolClient): Promise<void> => {
+    const { title, author, isbn, description, cover_image_url } = record;
+
+    const { id: bookId } = await bookService.createBook({
+      title: sanitizeString(title),
+      author: sanitizeString(author),
+      isbn: isbn || null,
+      description: description ? sanitizeString(description) : null,
+      copy: copyInputOf(record),
+    }, client);
+
+    // Fetch the cover, or look the ISBN up for a cover and description, in the background
+    if (cover_image_url) {
+      await setCover(bookId, cover_image_url, client);
+    } else if (isbn) {
+      await jobService.enqueue('books.enrich_metadata', { book_id: bookId }, { client });
+    }
+
+    for (const categoryName of categoryNamesOf(record)) {
+      await addCategory(bookId, categoryName, client);
+    }
+  };
+
+  // Update a catalogued book from a row; returns whether anything changed
+  const updateBook = async (book: Book, record: ImportRecord, copyOnShelf: boolean, client: PoolClient): Promise<boolean> => {
+    let changed = false;
+
+    const title = record.title ? sanitizeString(record.title) : book.title;
+    const author = record.author ? sanitizeString(record.author) : book.author;
+    const description = book.description || (record.description ? sanitizeString(record.description) : null);
+    if (title !== book.title || author !== book.author || description !== (book.description ?? null)) {
+      await bookService.updateBook(book.id, { title, author, description }, client);
+      changed = true;
+    }
+
+    for (const categoryName of categoryNamesOf(record)) {
+      changed = await addCategory(book.id, categoryName, client) || changed;
+    }
+
+    if (record.cover_image_url && !book.cover_image_path) {
+      await setCover(book.id, record.cover_image_url, client);
+      changed = true;
+    }
+
+    if (describesCopy(record) && !copyOnShelf) {
+      await copyService.addCopy(book.id, copyInputOf(record), client);
+      changed = true;
+    }
+
+    return changed;
+  };
+
+  return {
+    fields: FIELDS,
+    keyField: 'isbn',
+
+    async plan(records: ImportRecord[], mode: ImportMode): Promise<ImportRowPlan[]> {
+      const unique = (values: Array<string | undefined>) => [...new Set(values.filter((value): value is string => Boolean(value)))];
+
+      const isbns = unique(records.map(record => record.isbn));
+      const { rows: books } = isbns.length > 0
+        ? await query<Omit<CataloguedBook, 'categories'>>(
+          'SELECT id, isbn, title, author, cover_image_path, description FROM books WHERE isbn = ANY($1)',
+          [isbns]
+        )
+        : { rows: [] };
+      const { rows: filed } = books.length > 0
+        ? await query<{ book_id: number; name: string }>(
+          `SELECT bc.book_id, c.name FROM book_categories bc
+           JOIN categories c ON c.id = bc.category_id
+           WHERE bc.book_id = ANY($1::int[])
+           ORDER BY c.name`,
+          [books.map(book => book.id)]
+        )
+        : { rows: [] };
+      const catalogued = new Map<string, CataloguedBook>(books.map(book => [book.isbn, {
+        ...book,
+        categories: filed.filter(row => row.book_id === book.id).map(row => row.name),
+      }]));
+
+      const barcodes = unique(records.map(record => record.barcode));
+      const { rows: copies } = barcodes.length > 0
+        ? await query<{ barcode: string; book_id: number }>('SELECT barcode, book_id FROM copies WHERE barcode = ANY($1)', [barcodes])
+        : { rows: [] };
+      const barcodesInUse = new Map(copies.map(copy => [copy.barcode, copy.book_id]));
+
+      const isbnsInFile = new Set<string>();
+      const barcodesInFile = new Set<string>();
+
+      return records.map((record): ImportRowPlan => {
+        const { isbn, barcode } = record;
+        if (!isbn && mode === 'update') {
+          return { action: 'invalid', errors: [{ column: 'isbn', message: 'ISBN is required to find the book to update' }], changes: [] };
+        }
+
+        const book = isbn ? catalogued.get(isbn) : undefined;
+        const repeated = Boolean(isbn && isbnsInFile.has(isbn));
+        if (!book && !repeated && mode === 'update') {
+          return { action: 'invalid', errors: [{ column: 'isbn', message: `No book with ISBN ${isbn} to update` }], changes: [] };
+        }
+
+        const errors = [...(!book && !repeated ? missingForCreate(record) : []), ...validate(record)];
+        if (errors.length > 0) {
+          return { action: 'invalid', errors, changes: [] };
+        }
+
+        // A barcode already on this book is that copy, except in insert mode where every row adds a copy
+        const barcodeOwner = barcode ? barcodesInUse.get(barcode) : undefined;
+        const copyOnShelf = Boolean(book && barcodeOwner === book.id && mode !== 'insert');
+        if (barcode && !copyOnShelf) {
+          if (barcodeOwner !== undefined) {
+            return { action: 'duplicate', errors: [{ column: 'barcode', message: `Barcode ${barcode} is already in use` }], changes: [] };
+          }
+          if (barcodesInFile.has(barcode)) {
+            return { action: 'duplicate', errors: [{ column: 'barcode', message: `Barcode ${barcode} appears on an earlier row` }], changes: [] };
+          }
+          barcodesInFile.add(barcode);
+        }
+
+        if (!book && !repeated) {
+          if (isbn) {
+            isbnsInFile.add(isbn);
+          }
+          return { action: 'create', errors: [], changes: [] };
+        }
+
+        const addsCopy = mode === 'insert' || (describesCopy(record) && !copyOnShelf);
+        const changes = [
+          ...(book && mode !== 'insert' ? bookChanges(book, record) : []),
+          ...(addsCopy ? [{ field: 'copies', from: null, to: barcode ? `add copy ${barcode}` : 'add a copy' }] : []),
+        ];
+        return { action: changes.length > 0 ? 'update' : 'unchanged', errors: [], changes };
+      });
+    },
+
+    async importRecord(record: ImportRecord, mode: ImportMode, client: PoolClient): Promise<'created' | 'updated' | 'unchanged'> {
+      const copyError = checkCopyFields(copyInputOf(record));
+      if (copyError) {
+        throw new AppError(copyError, 400);
+      }
+
+      const { isbn, barcode } = record;
+      const { rows: books } = isbn
+        ? await client.query<Book>('SELECT * FROM books WHERE isbn = $1', [isbn])
+        : { rows: [] as Book[] };
+      const book = books[0];
+
+      if (!book && mode === 'update') {
+        throw new AppError(`No book with ISBN ${isbn} to update`, 404);
+      }
+
+      let copyOnShelf = false;
+      if (barcode) {
+        const { rows: copies } = await client.query<{ book_id: number }>('SELECT book_id FROM copies WHERE barcode = $1', [barcode]);
+        copyOnShelf = Boolean(book && copies[0]?.book_id === book.id && mode !== 'insert');
+        if (copies.length > 0 && !copyOnShelf) {
+          throw new AppError(`Barcode ${barcode} is already in use`, 409);
+        }
+      }
+
+      if (!book) {
+        await createBook(record, client);
+        return 'created';
+      }
+
+      // In insert mode a catalogued ISBN means this row is another copy of that book
+      if (mode === 'insert') {
+        await copyService.addCopy(book.id, copyInputOf(record), client);
+        return 'updated';
+      }
+
+      return await updateBook(book, record, copyOnShelf, client) ? 'updated' : 'unchanged';
+    },
+  };
+};
@@ -0,0 +1,30 @@
+/**
+ * Importer contract
+ *
+ * Each kind of bulk import supplies an importer. The preview asks it to
+ * plan every row up front, checking the file against the database and
+ * against its own earlier rows; the import job then asks it to import the
+ * rows the plan accepted, one transaction per row. Rows reach the importer
+ * already mapped from the file's columns to its fields.
+ */
+
+import { PoolClient } from 'pg';
+import { ImportField, ImportMode, ImportRecord, ImportRowPlan } from '../types/import';
+
+export interface Importer {
+  fields: ImportField[];
+
+  // The field rows are matched to existing records by
+  keyField: string;
+
+  /**
+   * Decide what each record would do in the given mode, in file order
+   */
+  plan(records: ImportRecord[], mode: ImportMode): Promise<ImportRowPlan[]>;
+
+  /**
+   * Import one record in the caller's transaction. Throws if the record can
+   * no longer be imported, e.g. a barcode taken since the preview.
+   */
+  importRecord(record: ImportRecord, mode: ImportMode, client: PoolClient): Promise<'created' | 'updated' | 'unchanged'>;
+}
@@ -0,0 +1,13 @@
+/**
+ * Importers for each kind of bulk import
+ */
+
+import { ImportKind } from '../types/import';
+import { Importer } from './importer';
+import { createBookImporter } from './bookImporter';
+import { createMemberImporter } from './memberImporter';
+
+export { Importer } from './importer';
+
+export const createImporter = (kind: ImportKind): Importer =>
+  kind === 'books' ? createBookImporter() : createMemberImporter();
@@ -0,0 +1,85 @@
+/**
+ * Column mapping for bulk imports
+ *
+ * A mapping names the column each importer field is read from. Uploads are
+ * mapped automatically by matching column headers to field names and their
+ * aliases, ignoring case, spaces and punctuation; staff can then change the
+ * mapping before confirming the import.
+ */
+
+import { ImportField, ImportMapping, ImportMode, ImportRecord } from '../types/import';
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+/**
+ * Map each field to the first column whose header matches its name or an alias
+ */
+export const autoMapColumns = (fields: ImportField[], columns: string[]): ImportMapping => {
+  const mapping: ImportMapping = {};
+  const used = new Set<string>();
+
+  for (const field of fields) {
+    const names = [field.name, ...field.aliases];
+    const column = columns.find(candidate => !used.has(candidate) && names.includes(normalizeHeader(candidate)));
+    mapping[field.name] = column ?? null;
+    if (column) {
+      used.add(column);
+    }
+  }
+  return mapping;
+};
+
+/**
+ * Read a CSV row as the importer's fields. Unmapped fields and blank cells
+ * are left out, so an update leaves those fields as they are.
+ */
+export const applyMapping = (mapping: ImportMapping, data: ImportRecord): ImportRecord => {
+  const record: ImportRecord = {};
+  for (const [field, column] of Object.entries(mapping)) {
+    const value = column ? data[column] : undefined;
+    if (value !== undefined && value !== '') {
+      record[field] = value;
+    }
+  }
+  return record;
+};
+
+/**
+ * Check a mapping names known fields and, when columns are given, columns
+ * of the file. Returns an error message, or null if the mapping is valid.
+ */
+export const checkMapping = (fields: ImportField[], mapping: unknown, columns?: string[]): string | null => {
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    return 'Mapping must be an object of field names to column names';
+  }
+
+  const fieldNames = fields.map(field => field.name);
+  for (const [field, column] of Object.entries(mapping)) {
+    if (!fieldNames.includes(field)) {
+      return `Unknown field: ${field}. Fields are: ${fieldNames.join(', ')}`;
+    }
+    if (column !== null && (typeof column !== 'string' || column.length > 255)) {
+      return `The column for ${field} must be a column name or null`;
+    }
+    if (column !== null && columns && !columns.includes(column)) {
+      return `The file has no column named ${column}`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Check the fields the mode needs are mapped: the field rows are matched
+ * by, and for modes that create records, the fields a new record needs.
+ */
+export const checkRequiredFields = (fields: ImportField[], keyField: string, mapping: ImportMapping, mode: ImportMode): string | null => {
+  const required = fields
+    .filter(field => (field.name === keyField && mode === 'update') || (field.required && mode !== 'update'))
+    .map(field => field.name);
+
+  const unmapped = required.filter(field => !mapping[field]);
+  if (unmapped.length > 0) {
+    return `Map a column to ${unmapped.join(', ')} to ${mode === 'update' ? 'match records' : 'create records'}`;
+  }
+  return null;
+};
@@ -0,0 +1,132 @@
+/**
+ * Member importer
+ *
+ * Rows are matched to members by email. A row for a new email creates a
+ * member; in update and upsert modes a row for a member's email updates
+ * their name and phone, and in insert mode it is a duplicate. A row whose
+ * email appears on an earlier row is a duplicate.
+ */
+
+import { PoolClient } from 'pg';
+import { query } from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { isValidEmail, sanitizeString } from '../middleware/validation';
+import { Member } from '../types/member';
+import { ImportField, ImportFieldChange, ImportFieldError, ImportMode, ImportRecord, ImportRowPlan } from '../types/import';
+import { MemberService } from '../services/MemberService';
+import { Importer } from './importer';
+
+const FIELDS: ImportField[] = [
+  { name: 'name', required: true, aliases: ['full_name', 'member_name'] },
+  { name: 'email', required: true, aliases: ['e_mail', 'email_address', 'e_mail_address'] },
+  { name: 'phone', required: false, aliases: ['telephone', 'mobile', 'phone_number'] },
+];
+
+const UPDATABLE_FIELDS = ['name', 'phone'] as const;
+
+const validate = (record: ImportRecord): ImportFieldError[] => {
+  const errors: ImportFieldError[] = [];
+
+  if (!record.email) {
+    errors.push({ column: 'email', message: 'Email is required' });
+  } else if (!isValidEmail(record.email)) {
+    errors.push({ column: 'email', message: `Invalid email format: ${record.email}` });
+  }
+  if (record.phone && record.phone.length > 20) {
+    errors.push({ column: 'phone', message: 'Phone must be at most 20 characters' });
+  }
+
+  return errors;
+};
+
+/**
+ * What an update row would change on a member
+ */
+const memberChanges = (member: { name: string; phone: string | null }, record: ImportRecord): ImportFieldChange[] =>
+  UPDATABLE_FIELDS
+    .filter(field => record[field] !== undefined && sanitizeString(record[field]) !== (member[field] ?? null))
+    .map(field => ({ field, from: member[field] ?? null, to: sanitizeString(record[field]) }));
+
+export const createMemberImporter = (): Importer => {
+  const memberService = new MemberService();
+
+  return {
+    fields: FIELDS,
+    keyField: 'email',
+
+    async plan(records: ImportRecord[], mode: ImportMode): Promise<ImportRowPlan[]> {
+      const emails = [...new Set(records.map(record => (record.email || '').toLowerCase()).filter(Boolean))];
+      const { rows } = emails.length > 0
+        ? await query<{ email: string; name: string; phone: string | null }>(
+          'SELECT LOWER(email) AS email, name, phone FROM members WHERE LOWER(email) = ANY($1)',
+          [emails]
+        )
+        : { rows: [] };
+      const registered = new Map(rows.map(row => [row.email, row]));
+      const emailsInFile = new Set<string>();
+
+      return records.map((record): ImportRowPlan => {
+        const errors = validate(record);
+        if (errors.length > 0) {
+          return { action: 'invalid', errors, changes: [] };
+        }
+
+        const email = record.email.toLowerCase();
+        if (emailsInFile.has(email)) {
+          return { action: 'duplicate', errors: [{ column: 'email', message: `Email ${record.email} appears on an earlier row` }], changes: [] };
+        }
+        emailsInFile.add(email);
+
+        const member = registered.get(email);
+        if (!member) {
+          if (mode === 'update') {
+            return { action: 'invalid', errors: [{ column: 'email', message: `No member with email ${record.email} to update` }], changes: [] };
+          }
+          if (!record.name) {
+            return { action: 'invalid', errors: [{ column: 'name', message: 'Name is required' }], changes: [] };
+          }
+          return { action: 'create', errors: [], changes: [] };
+        }
+
+        if (mode === 'insert') {
+          return { action: 'duplicate', errors: [{ column: 'email', message: `Member with email ${record.email} already exists` }], changes: [] };
+        }
+        const changes = memberChanges(member, record);
+        return { action: changes.length > 0 ? 'update' : 'unchanged', errors: [], changes };
+      });
+    },
+
+    async importRecord(record: ImportRecord, mode: ImportMode, client: PoolClient): Promise<'created' | 'updated' | 'unchanged'> {
+      const email = sanitizeString(record.email).toLowerCase();
+
+      const { rows: members } = await client.query<Member>('SELECT * FROM members WHERE LOWER(email) = $1', [email]);
+      const member = members[0];
+
+      if (member) {
+        if (mode === 'insert') {
+          throw new AppError(`Member with email ${record.email} already exists`, 409);
+        }
+        if (memberChanges(member, record).length === 0) {
+          return 'unchanged';
+        }
+
+        await memberService.updateMember(member.id, {
+          name: record.name ? sanitizeString(record.name) : member.name,
+          phone: record.phone !== undefined ? sanitizeString(record.phone) : member.phone,
+        }, client);
+        return 'updated';
+      }
+
+      if (mode === 'update') {
+        throw new AppError(`No member with email ${record.email} to update`, 404);
+      }
+
+      await memberService.createMember({
+        name: sanitizeString(record.name),
+        email,
+        phone: record.phone ? sanitizeString(record.phone) : null,
+      }, client);
+      return 'created';
+    },
+  };
+};
@@ -0,0 +1,113 @@
+/**
+ * Calibre library
+ *
+ * Either the library's metadata.db or a CSV from Calibre's "Create a
+ * catalog". Tags become categories and the book's comments its
+ * description, with its rating noted at the end. Rows are numbered by
+ * Calibre's book IDs when reading metadata.db.
+ */
+
+import { AppError } from '../../middleware/errorHandler';
+import { ParsedCsv, parseCsvUpload } from '../../utils/csv';
+import { isSqliteFile, readSqliteTables, SqliteRow } from '../../utils/sqlite';
+import { pickIsbn, splitList, stripHtml, toParsedRows, withRating } from './normalize';
+
+const CALIBRE_TABLES = [
+  'books',
+  'authors',
+  'books_authors_link',
+  'tags',
+  'books_tags_link',
+  'comments',
+  'identifiers',
+  'ratings',
+  'books_ratings_link',
+];
+
+const readMetadataDb = (buffer: Buffer): ParsedCsv => {
+  const tables = readSqliteTables(buffer, CALIBRE_TABLES);
+  if (!tables.books) {
+    throw new AppError('This is not a Calibre library: metadata.db has no books table', 400);
+  }
+
+  const byId = (rows: SqliteRow[] = []) => new Map(rows.map(row => [row.id, row]));
+  const authors = byId(tables.authors);
+  const tags = byId(tables.tags);
+  const ratings = byId(tables.ratings);
+
+  // Rows of a table by the book they belong to, grouped once rather than searched for each book
+  const byBook = (rows: SqliteRow[] = []) => {
+    const grouped = new Map<unknown, SqliteRow[]>();
+    for (const row of rows) {
+      const bookRows = grouped.get(row.book);
+      if (bookRows) {
+        bookRows.push(row);
+      } else {
+        grouped.set(row.book, [row]);
+      }
+    }
+    return grouped;
+  };
+
+  // Links are kept in the order they were added, which is the order Calibre lists authors in
+  const linkedBy = (links: SqliteRow[] | undefined, column: string, names: Map<unknown, SqliteRow>) => {
+    const linksByBook = byBook([...(links || [])].sort((a, b) => Number(a.id) - Number(b.id)));
+    return (book: unknown): SqliteRow[] =>
+      (linksByBook.get(book) || [])
+        .map(link => names.get(link[column]))
+        .filter((row): row is SqliteRow => row !== undefined);
+  };
+
+  const authorsOf = linkedBy(tables.books_authors_link, 'author', authors);
+  const tagsOf = linkedBy(tables.books_tags_link, 'tag', tags);
+  const ratingsOf = linkedBy(tables.books_ratings_link, 'rating', ratings);
+  const identifiers = byBook(tables.identifiers);
+  const comments = byBook(tables.comments);
+
+  return toParsedRows(tables.books.map(book => {
+    const rating = ratingsOf(book.id)[0]?.rating;
+    const isbns = (identifiers.get(book.id) || [])
+      .filter(identifier => String(identifier.type).toLowerCase() === 'isbn')
+      .map(identifier => String(identifier.val));
+    const comment = comments.get(book.id)?.[0]?.text;
+
+    return {
+      line: Number(book.id),
+      book: {
+        title: book.title ? String(book.title) : undefined,
+        author: authorsOf(book.id).map(author => author.name).join(' & ') || undefined,
+        isbn: pickIsbn([...isbns, book.isbn ? String(book.isbn) : undefined]),
+        categories: tagsOf(book.id).map(tag => String(tag.name)),
+        // Calibre rates out of 10, two points to a star
+        description: withRating(
+          stripHtml(typeof comment === 'string' ? comment : undefined),
+          typeof rating === 'number' ? rating / 2 : null
+        ),
+      },
+    };
+  }), 'Calibre');
+};
+
+const readCatalogCsv = (buffer: Buffer): ParsedCsv => {
+  const { columns, records } = parseCsvUpload(buffer);
+  if (!columns.includes('title') || !columns.includes('authors')) {
+    throw new AppError('This is not a Calibre catalog: it has no title and authors columns', 400);
+  }
+
+  return toParsedRows(records.map(({ line, data }) => ({
+    line,
+    book: {
+      title: data.title,
+      author: data.authors,
+      isbn: pickIsbn([
+        ...splitList(data.identifiers).filter(identifier => /^isbn:/i.test(identifier)).map(identifier => identifier.slice(5)),
+        data.isbn,
+      ]),
+      categories: splitList(data.tags),
+      description: withRating(stripHtml(data.comments), data.rating),
+    },
+  })), 'Calibre');
+};
+
+export const readCalibreLibrary = (buffer: Buffer): ParsedCsv =>
+  isSqliteFile(buffer) ? readMetadataDb(buffer) : readCatalogCsv(buffer);
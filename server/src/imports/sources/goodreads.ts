@@ -0,0 +1,32 @@
+/**
+ * Goodreads library export
+ *
+ * The CSV from "Import and export" on Goodreads. Shelves become
+ * categories, except the reading-status shelves every book is on. The
+ * export has no descriptions, so the household's rating is the
+ * description; ISBN lookups fill in the rest after the import.
+ */
+
+import { AppError } from '../../middleware/errorHandler';
+import { ParsedCsv, parseCsvUpload } from '../../utils/csv';
+import { pickIsbn, splitList, toParsedRows, withRating } from './normalize';
+
+const READING_STATUS_SHELVES = ['read', 'to-read', 'currently-reading'];
+
+export const readGoodreadsExport = (buffer: Buffer): ParsedCsv => {
+  const { columns, records } = parseCsvUpload(buffer);
+  if (!columns.includes('Title') || !columns.includes('Author')) {
+    throw new AppError('This is not a Goodreads export: it has no Title and Author columns', 400);
+  }
+
+  return toParsedRows(records.map(({ line, data }) => ({
+    line,
+    book: {
+      title: data['Title'],
+      author: data['Author'],
+      isbn: pickIsbn([data['ISBN13'], data['ISBN']]),
+      categories: splitList(data['Bookshelves']).filter(shelf => !READING_STATUS_SHELVES.includes(shelf)),
+      description: withRating(undefined, data['My Rating']),
+    },
+  })), 'Goodreads');
+};
@@ -0,0 +1,23 @@
+/**
+ * Readers for the exports of other catalogues
+ *
+ * Each reads an export into rows with the book importer's fields as
+ * columns, so it is previewed, mapped and imported like a CSV file.
+ */
+
+import { ImportSource } from '../../types/import';
+import { ParsedCsv, parseCsvUpload } from '../../utils/csv';
+import { readCalibreLibrary } from './calibre';
+import { readGoodreadsExport } from './goodreads';
+import { readLibraryThingExport } from './librarything';
+import { readMarcExport } from './marc';
+
+const READERS: Record<ImportSource, (buffer: Buffer) => ParsedCsv> = {
+  csv: buffer => parseCsvUpload(buffer),
+  goodreads: readGoodreadsExport,
+  librarything: readLibraryThingExport,
+  calibre: readCalibreLibrary,
+  marc: readMarcExport,
+};
+
+export const readImportFile = (source: ImportSource, buffer: Buffer): ParsedCsv => READERS[source](buffer);
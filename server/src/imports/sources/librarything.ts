@@ -0,0 +1,80 @@
+/**
+ * LibraryThing export
+ *
+ * Either the tab-separated export or the JSON export. Tags and
+ * collections become categories, except the collections LibraryThing
+ * gives every catalogue, and the household's rating is noted at the end
+ * of the description.
+ */
+
+import { AppError } from '../../middleware/errorHandler';
+import { ParsedCsv, parseCsvUpload } from '../../utils/csv';
+import { LibraryBook, personName, pickIsbn, readText, splitList, toParsedRows, withRating } from './normalize';
+
+const DEFAULT_COLLECTIONS = ['your library', 'wishlist', 'currently reading', 'to read', 'read but unowned'];
+
+const isOwnCollection = (collection: string) => !DEFAULT_COLLECTIONS.includes(collection.toLowerCase());
+
+// JSON values may be a string, a list, or an object of numbered entries
+const valuesOf = (value: unknown): string[] => {
+  if (value === null || value === undefined) return [];
+  if (typeof value === 'string' || typeof value === 'number') return [String(value)];
+  if (Array.isArray(value)) return value.flatMap(valuesOf);
+  if (typeof value === 'object') return Object.values(value).flatMap(valuesOf);
+  return [];
+};
+
+const readJsonExport = (text: string): ParsedCsv => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new AppError(`Invalid LibraryThing JSON export: ${error instanceof Error ? error.message : 'Unknown error'}`, 400);
+  }
+  if (!parsed || typeof parsed !== 'object') {
+    throw new AppError('Invalid LibraryThing JSON export: expected an object of books', 400);
+  }
+
+  const entries = (Array.isArray(parsed) ? parsed : Object.values(parsed)) as Array<Record<string, any>>;
+  return toParsedRows(entries.map((entry, index) => {
+    const authors = Array.isArray(entry.authors) ? entry.authors : [];
+    const book: LibraryBook = {
+      title: valuesOf(entry.title)[0],
+      author: authors[0]?.fl || personName(valuesOf(entry.primaryauthor)[0]),
+      isbn: pickIsbn([...valuesOf(entry.isbn), ...valuesOf(entry.originalisbn)]),
+      categories: [
+        ...valuesOf(entry.tags),
+        ...valuesOf(entry.collections).filter(isOwnCollection),
+      ],
+      description: withRating(valuesOf(entry.description).join('\n') || undefined, valuesOf(entry.rating)[0]),
+    };
+    return { line: index + 1, book };
+  }), 'LibraryThing');
+};
+
+const readTabSeparatedExport = (text: string): ParsedCsv => {
+  const delimiter = text.split('\n', 1)[0].includes('\t') ? '\t' : ',';
+  const { columns, records } = parseCsvUpload(Buffer.from(text), { delimiter });
+  if (!columns.includes('Title')) {
+    throw new AppError('This is not a LibraryThing export: it has no Title column', 400);
+  }
+
+  return toParsedRows(records.map(({ line, data }) => ({
+    line,
+    book: {
+      title: data['Title'],
+      author: personName(data['Primary Author'] || data['Author (last, first)']),
+      isbn: pickIsbn([...splitList(data['ISBNs']), data['ISBN']]),
+      categories: [
+        ...splitList(data['Tags']),
+        ...splitList(data['Collections']).filter(isOwnCollection),
+      ],
+      description: withRating(data['Description'], data['Rating']),
+    },
+  })), 'LibraryThing');
+};
+
+export const readLibraryThingExport = (buffer: Buffer): ParsedCsv => {
+  const text = readText(buffer);
+  return /^\s*[[{]/.test(text) ? readJsonExport(text) : readTabSeparatedExport(text);
+};
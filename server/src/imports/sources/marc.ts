@@ -0,0 +1,151 @@
+/**
+ * MARC 21 records as books
+ *
+ * Reads MARC 21 bibliographic records, as ISO 2709 or MARCXML, into book
+ * import rows, and writes books as records for the MARC export:
+ * - 020 $a: ISBN
+ * - 100/110/111 $a, or else the first 700/710 $a: author
+ * - 245 $a $b $n $p: title
+ * - 520 $a $b: description
+ * - 650/651/653/655 $a: categories
+ * A record that cannot be read, or is not a bibliographic record, is kept
+ * as a row with the reason, so it shows in the preview and the error report.
+ */
+
+import { Book } from '../../types/book';
+import { ParsedCsv } from '../../utils/csv';
+import { isControlField, MarcDataField, MarcField, MarcRecord, readMarcRecords } from '../../utils/marc';
+import { LibraryBook, personName, pickIsbn, toParsedRows } from './normalize';
+
+// Leader position 6 for authority, holdings and community information records
+const NON_BIBLIOGRAPHIC_TYPES: Record<string, string> = {
+  z: 'an authority',
+  u: 'a holdings',
+  v: 'a holdings',
+  x: 'a holdings',
+  y: 'a holdings',
+  q: 'a community information',
+};
+
+const SUBJECT_TAGS = ['650', '651', '653', '655'];
+
+// A field's data may not be longer than 9999 bytes, so long descriptions are split over several 520s
+const MAX_DESCRIPTION_BYTES = 9000;
+
+// A minimal-level record of a book, without ISBD punctuation, in UTF-8
+const BOOK_LEADER = '00000nam a22000007  4500';
+
+const dataFields = (record: MarcRecord, tags: string[]): MarcDataField[] =>
+  record.fields.filter((field): field is MarcDataField => !isControlField(field) && tags.includes(field.tag));
+
+const subfieldValues = (field: MarcDataField, codes: string): string[] =>
+  field.subfields.filter(subfield => codes.includes(subfield.code)).map(subfield => subfield.value);
+
+/**
+ * A value without the punctuation cataloguers put between subfields, keeping
+ * the full stop of an initial such as "Tolkien, J. R. R."
+ */
+const withoutPunctuation = (value: string): string =>
+  value.trim().replace(/\s*[/:;=,]$/, '').replace(/(?<!(?:^|\s)\p{Lu})\.$/u, '').trim();
+
+const titleOf = (record: MarcRecord): string | undefined => {
+  const [field] = dataFields(record, ['245']);
+  if (!field) {
+    return undefined;
+  }
+  let title = '';
+  for (const subfield of field.subfields.filter(subfield => 'abnp'.includes(subfield.code))) {
+    const part = withoutPunctuation(subfield.value);
+    if (!part) continue;
+    if (!title) {
+      title = part;
+    } else {
+      title += subfield.code === 'b' ? `: ${part}` : `. ${part}`;
+    }
+  }
+  return title || undefined;
+};
+
+const authorOf = (record: MarcRecord): string | undefined => {
+  const [mainEntry] = dataFields(record, ['100', '110', '111']);
+  const [addedEntry] = dataFields(record, ['700', '710']);
+  const entry = mainEntry ?? addedEntry;
+  const name = entry && subfieldValues(entry, 'a')[0];
+  return name ? personName(withoutPunctuation(name)) : undefined;
+};
+
+/**
+ * The book a bibliographic record describes
+ */
+const bookOf = (record: MarcRecord): LibraryBook => ({
+  title: titleOf(record),
+  author: authorOf(record),
+  // "0441172717 (pbk.)" is an ISBN with a qualifier
+  isbn: pickIsbn(dataFields(record, ['020']).flatMap(field => subfieldValues(field, 'a').map(value => value.trim().split(/\s/)[0]))),
+  description: dataFields(record, ['520']).map(field => subfieldValues(field, 'ab').join(' ')).join('\n') || undefined,
+  categories: dataFields(record, SUBJECT_TAGS).flatMap(field => subfieldValues(field, 'a').map(withoutPunctuation)),
+});
+
+/**
+ * Read a MARC 21 or MARCXML file, numbering records from 1
+ */
+export const readMarcExport = (buffer: Buffer): ParsedCsv =>
+  toParsedRows(readMarcRecords(buffer).map(({ record, error }, index) => {
+    const line = index + 1;
+    let problem: string | null = null;
+    if (!record) {
+      problem = `The record could not be read: ${error}`;
+    } else if (NON_BIBLIOGRAPHIC_TYPES[record.leader[6]]) {
+      problem = `The record is ${NON_BIBLIOGRAPHIC_TYPES[record.leader[6]]} record, not a book`;
+    }
+    return record && !problem
+      ? { line, book: bookOf(record) }
+      : { line, book: { categories: [] }, errors: [{ column: null, message: problem! }] };
+  }), 'MARC');
+
+const splitDescription = (description: string): string[] => {
+  const parts: string[] = [];
+  for (const paragraph of description.split('\n').map(line => line.trim()).filter(Boolean)) {
+    let rest = paragraph;
+    while (Buffer.byteLength(rest) > MAX_DESCRIPTION_BYTES) {
+      let end = MAX_DESCRIPTION_BYTES;
+      while (Buffer.byteLength(rest.slice(0, end)) > MAX_DESCRIPTION_BYTES) end--;
+      parts.push(rest.slice(0, end));
+      rest = rest.slice(end);
+    }
+    parts.push(rest);
+  }
+  return parts;
+};
+
+/**
+ * A book as a MARC 21 record. Names are written as they are catalogued,
+ * in direct order, so reading the record back gives the same author.
+ */
+export const marcRecordOfBook = (
+  book: Pick<Book, 'id' | 'title' | 'author' | 'isbn' | 'description' | 'created_at'> & { categories: string[] }
+): MarcRecord => {
+  const created = new Date(book.created_at).toISOString();
+  const fields: MarcField[] = [
+    { tag: '001', value: String(book.id) },
+    // Date entered as yymmdd; the other fixed-length data is not coded
+    { tag: '008', value: created.slice(2, 4) + created.slice(5, 7) + created.slice(8, 10) + '|'.repeat(34) },
+  ];
+
+  if (book.isbn) {
+    fields.push({ tag: '020', ind1: ' ', ind2: ' ', subfields: [{ code: 'a', value: book.isbn }] });
+  }
+  if (book.author) {
+    fields.push({ tag: '100', ind1: '0', ind2: ' ', subfields: [{ code: 'a', value: book.author }] });
+  }
+  fields.push({ tag: '245', ind1: book.author ? '1' : '0', ind2: '0', subfields: [{ code: 'a', value: book.title }] });
+  for (const paragraph of splitDescription(book.description || '')) {
+    fields.push({ tag: '520', ind1: ' ', ind2: ' ', subfields: [{ code: 'a', value: paragraph }] });
+  }
+  for (const category of book.categories) {
+    // Second indicator 4: the heading is not from a named thesaurus
+    fields.push({ tag: '650', ind1: ' ', ind2: '4', subfields: [{ code: 'a', value: category }] });
+  }
+
+  return { leader: BOOK_LEADER, fields };
+};
@@ -0,0 +1,125 @@
+/**
+ * Helpers for reading other catalogues' exports as book import rows
+ */
+
+import { AppError } from '../../middleware/errorHandler';
+import { ImportFieldError, ImportRecord } from '../../types/import';
+import { ParsedCsv } from '../../utils/csv';
+
+/**
+ * A book as read from an export, before it becomes an import row
+ */
+export interface LibraryBook {
+  title?: string;
+  author?: string;
+  isbn?: string;
+  categories: string[];
+  description?: string;
+}
+
+// The book importer fields exports are read into, in the order the preview shows them
+const LIBRARY_COLUMNS = ['title', 'author', 'isbn', 'categories', 'description'] as const;
+
+/**
+ * Decode a text export; some spreadsheet exports are UTF-16 with a byte order mark
+ */
+export const readText = (buffer: Buffer): string =>
+  buffer[0] === 0xff && buffer[1] === 0xfe
+    ? buffer.subarray(2).toString('utf16le')
+    : buffer.toString('utf8').replace(/^\uFEFF/, '');
+
+export const splitList = (value: string | undefined, separator: string | RegExp = ','): string[] =>
+  (value || '').split(separator).map(item => item.trim()).filter(Boolean);
+
+/**
+ * The first ISBN-13 among the values, or else the first ISBN. Goodreads
+ * wraps ISBNs in ="..." so spreadsheets keep their leading zeros.
+ */
+export const pickIsbn = (values: Array<string | undefined>): string | undefined => {
+  const isbns = values
+    .map(value => (value || '').replace(/[="'[\]\s-]/g, '').toUpperCase())
+    .filter(Boolean);
+  return isbns.find(isbn => isbn.length === 13) ?? isbns[0];
+};
+
+/**
+ * "Herbert, Frank" as "Frank Herbert"
+ */
+export const personName = (name: string | undefined): string | undefined => {
+  const parts = splitList(name);
+  return parts.length === 2 ? `${parts[1]} ${parts[0]}` : name?.trim() || undefined;
+};
+
+/**
+ * Ratings have no place of their own in the catalogue, so a rated book's
+ * description ends with a line such as "Rated 4 out of 5 stars"
+ */
+export const withRating = (description: string | undefined, stars: number | string | undefined | null): string | undefined => {
+  const rounded = Math.round(Number(stars));
+  if (!(rounded >= 1 && rounded <= 5)) {
+    return description;
+  }
+  const rating = `Rated ${rounded} out of 5 star${rounded === 1 ? '' : 's'}`;
+  return description?.trim() ? `${description.trim()}\n${rating}` : rating;
+};
+
+/**
+ * Plain text from an HTML description, keeping paragraph breaks
+ */
+export const stripHtml = (html: string | undefined): string | undefined => {
+  if (!html) {
+    return undefined;
+  }
+  const text = html
+    .replace(/<br\s*\/?>|<\/(p|div|li|h\d)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, '\'')
+    .replace(/&amp;/g, '&')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+  return text || undefined;
+};
+
+/**
+ * Turn the books read from an export into import rows. Each book keeps
+ * the row or entry number it had in the export, and the reason if the
+ * entry could not be read as a book.
+ */
+export const toParsedRows = (
+  books: Array<{ line: number; book: LibraryBook; errors?: ImportFieldError[] }>,
+  exportName: string
+): ParsedCsv => {
+  if (books.length === 0) {
+    throw new AppError(`The ${exportName} export contains no books`, 400);
+  }
+
+  const records = books.map(({ line, book, errors }) => {
+    const data: ImportRecord = {};
+    // Categories are read back as a comma-separated list, so names lose their commas
+    const categories = [...new Set(book.categories.map(name => name.replace(/\s*,\s*/g, ' ').trim()).filter(Boolean))];
+    const values: Record<typeof LIBRARY_COLUMNS[number], string | undefined> = {
+      title: book.title?.trim(),
+      author: book.author?.trim(),
+      isbn: book.isbn,
+      categories: categories.join(', '),
+      description: book.description?.trim(),
+    };
+    for (const column of LIBRARY_COLUMNS) {
+      if (values[column]) {
+        data[column] = values[column]!;
+      }
+    }
+    return errors ? { line, data, errors } : { line, data };
+  });
+
+  return {
+    columns: LIBRARY_COLUMNS.filter(column => records.some(record => record.data[column] !== undefined)),
+    records,
+  };
+};
@@ -10,10 +10,10 @@ import rateLimit from 'express-rate-limit';
 import addRequestId from 'express-request-id';
 import path from 'path';
 import fs from 'fs';
-import { schedule } from 'node-cron';
 import { query, pool } from './db';
 import config from './config';
 import { logger } from './utils/logger';
+import { startJobRunner } from './jobs/runner';
 
 // Import middleware
 import { errorHandler, notFound } from './middleware/errorHandler';
@@ -23,11 +23,20 @@ import authRoutes from './routes/auth';
 import booksRoutes from './routes/books';
 import membersRoutes from './routes/members';
 import loansRoutes from './routes/loans';
+import holdsRoutes from './routes/holds';
+import copiesRoutes from './routes/copies';
+import circulationRoutes from './routes/circulation';
+import policiesRoutes from './routes/policies';
 import categoriesRoutes from './routes/categories';
 import usersRoutes from './routes/users';
+import rolesRoutes from './routes/roles';
 import dashboardRoutes from './routes/dashboard';
 import exportRoutes from './routes/export';
 import systemRoutes from './routes/system';
+import notificationsRoutes from './routes/notifications';
+import webhooksRoutes from './routes/webhooks';
+import savedSearchesRoutes from './routes/savedSearches';
+import jobsRoutes from './routes/jobs';
 
 const app = express();
 const port = config.port;
@@ -86,17 +95,83 @@ app.use(helmet({
 }));
 
 // Rate limiting - Prevent brute force attacks
-const authLimiter = rateLimit({
+// Failed login and two-factor attempts per IP; accounts also lock themselves after repeated failures
+const loginLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // 10 failed attempts per window
+  skipSuccessfulRequests: true,
+  message: 'Too many login attempts, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const passwordResetLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
   max: 5, // 5 requests per window
+  message: 'Too many password reset attempts, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Other auth changes: token refresh, logout, registration, two-factor setup
+const authLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30, // 30 requests per window
+  skip: (req) => req.method === 'GET' || req.path.startsWith('/login') || req.path.endsWith('-password'),
   message: 'Too many attempts, please try again later',
   standardHeaders: true,
   legacyHeaders: false,
 });
 
+// Read-only auth endpoints such as setup-status, checked on every page load
+const authReadLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 300, // 300 requests per window
+  skip: (req) => req.method !== 'GET',
+  message: 'Too many requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Progress checks of a running bulk import, polled by the import dialogs
+const isImportProgressRead = (req: Request): boolean =>
+  req.method === 'GET' && /^\/bulk-import\/\d+/.test(req.path);
+
+// Book suggestions, requested as a search is typed
+const isBookSuggestion = (req: Request): boolean =>
+  req.method === 'GET' && req.baseUrl === '/api/books' && req.path === '/suggest';
+
 const apiLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 100, // 100 requests per window
+  skip: (req) => isImportProgressRead(req) || isBookSuggestion(req),
+  message: 'Too many requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// The circulation desk makes a request for every barcode scanned
+const deskLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 600, // 600 requests per window
+  message: 'Too many requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const importProgressLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 600, // 600 requests per window
+  skip: (req) => !isImportProgressRead(req),
+  message: 'Too many requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const suggestLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 600, // 600 requests per window
+  skip: (req) => !isBookSuggestion(req),
   message: 'Too many requests, please try again later',
   standardHeaders: true,
   legacyHeaders: false,
@@ -138,28 +213,47 @@ app.get('/', (req: Request, res: Response) => {
       books: '/api/books',
       members: '/api/members',
       loans: '/api/loans',
+      holds: '/api/holds',
+      copies: '/api/copies',
+      circulation: '/api/circulation',
+      policies: '/api/policies',
       categories: '/api/categories',
       users: '/api/users',
       dashboard: '/api/dashboard',
       export: '/api/export',
-      system: '/api/system'
+      system: '/api/system',
+      notifications: '/api/notifications',
+      webhooks: '/api/webhooks',
+      savedSearches: '/api/saved-searches',
+      jobs: '/api/jobs'
     }
   });
 });
 
 // API Routes
 // Apply strict rate limiting to authentication endpoints
-app.use('/api/auth', authLimiter, authRoutes);
+app.use('/api/auth/login', loginLimiter);
+app.use(['/api/auth/forgot-password', '/api/auth/reset-password'], passwordResetLimiter);
+app.use('/api/auth', authLimiter, authReadLimiter, authRoutes);
 
 // Apply general rate limiting to other API endpoints
-app.use('/api/books', apiLimiter, booksRoutes);
-app.use('/api/members', apiLimiter, membersRoutes);
+app.use('/api/books', suggestLimiter, importProgressLimiter, apiLimiter, booksRoutes);
+app.use('/api/members', importProgressLimiter, apiLimiter, membersRoutes);
 app.use('/api/loans', apiLimiter, loansRoutes);
+app.use('/api/holds', apiLimiter, holdsRoutes);
+app.use('/api/copies', apiLimiter, copiesRoutes);
+app.use('/api/circulation', deskLimiter, circulationRoutes);
+app.use('/api/policies', apiLimiter, policiesRoutes);
 app.use('/api/categories', apiLimiter, categoriesRoutes);
 app.use('/api/users', apiLimiter, usersRoutes);
+app.use('/api/roles', apiLimiter, rolesRoutes);
 app.use('/api/dashboard', apiLimiter, dashboardRoutes);
 app.use('/api/export', apiLimiter, exportRoutes);
 app.use('/api/system', apiLimiter, systemRoutes);
+app.use('/api/notifications', apiLimiter, notificationsRoutes);
+app.use('/api/webhooks', apiLimiter, webhooksRoutes);
+app.use('/api/saved-searches', apiLimiter, savedSearchesRoutes);
+app.use('/api/jobs', apiLimiter, jobsRoutes);
 
 // ========================================
 // Error Handling
@@ -178,13 +272,6 @@ interface CountResult {
   count: string;
 }
 
-interface OverdueLoanResult {
-  loan_id: number;
-  book_title: string;
-  member_name: string;
-  due_date: Date;
-}
-
 // Function to check and ensure at least one admin user exists
 const ensureAdminUserExists = async (): Promise<void> => {
   try {
@@ -203,38 +290,6 @@ const ensureAdminUserExists = async (): Promise<void> => {
   }
 };
 
-// Function to check for overdue loans
-const checkOverdueLoans = async (): Promise<void> => {
-  try {
-    const { rows } = await query<OverdueLoanResult>(
-      `SELECT
-        l.id AS loan_id,
-        b.title AS book_title,
-        m.name AS member_name,
-        l.due_date
-      FROM loans l
-      JOIN books b ON l.book_id = b.id
-      JOIN members m ON l.member_id = m.id
-      WHERE l.return_date IS NULL AND l.due_date < CURRENT_TIMESTAMP`
-    );
-
-    if (rows.length > 0) {
-      console.warn(`[OVERDUE REMINDER] Found ${rows.length} overdue loans:`);
-      rows.forEach(loan => {
-        console.warn(
-          `  - Loan ID: ${loan.loan_id}, Book: "${loan.book_title}", Member: ${loan.member_name}, Due Date: ${new Date(loan.due_date).toLocaleDateString()}`
-        );
-      });
-      // Here you would typically implement a notification mechanism
-      // (e.g., email, push notification, in-app alert)
-    } else {
-      console.log('[OVERDUE REMINDER] No overdue loans found.');
-    }
-  } catch (err: any) {
-    console.error('[OVERDUE REMINDER ERROR]', err.stack);
-  }
-};
-
 // ========================================
 // Security Validation
 // ========================================
@@ -256,6 +311,8 @@ if (config.jwtSecret.length < 32) {
 // ========================================
 // Server Startup
 // ========================================
+let stopJobRunner: (() => Promise<void>) | null = null;
+
 app.listen(port, () => {
   console.log(`\n========================================`);
   console.log(`🚀 Library Management System API`);
@@ -269,28 +326,26 @@ app.listen(port, () => {
   // Check admin user existence
   ensureAdminUserExists();
 
-  // Schedule cron job to check for overdue loans if enabled
-  if (config.overdueChecksEnabled) {
-    const cronPattern = `*/${config.overdueCheckInterval} * * * *`;
-    schedule(cronPattern, () => {
-      console.log('[CRON JOB] Checking for overdue loans...');
-      checkOverdueLoans();
-    });
-    console.log(`⏰ Overdue checks scheduled (every ${config.overdueCheckInterval} minutes)\n`);
+  // Run queued jobs, and scheduled ones such as the overdue check, in this process
+  if (config.jobWorkerEnabled) {
+    stopJobRunner = startJobRunner();
+    console.log(`⏰ Job worker started (polling every ${config.jobPollIntervalMs} ms)\n`);
   }
 });
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   console.log('SIGTERM signal received: closing HTTP server');
+  await stopJobRunner?.();
   pool.end(() => {
     console.log('Database pool closed');
     process.exit(0);
   });
 });
 
-process.on('SIGINT', () => {
+process.on('SIGINT', async () => {
   console.log('SIGINT signal received: closing HTTP server');
+  await stopJobRunner?.();
   pool.end(() => {
     console.log('Database pool closed');
     process.exit(0);
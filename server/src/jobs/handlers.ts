@@ -0,0 +1,92 @@
+/**
+ * Job handlers
+ *
+ * What each job type does. A handler throws to fail the job and returns
+ * the summary kept as the job's result.
+ */
+
+import { JobType } from '../types/job';
+import { JobHandler, JobService } from '../services/JobService';
+import { LoanService } from '../services/LoanService';
+import { NotificationService } from '../services/NotificationService';
+import { MemberAccountService } from '../services/MemberAccountService';
+import { HoldService } from '../services/HoldService';
+import { WebhookService } from '../services/WebhookService';
+import { BookService } from '../services/BookService';
+import { ImportService } from '../services/ImportService';
+import { logger } from '../utils/logger';
+
+// How long succeeded jobs are kept for the jobs page
+const SUCCEEDED_JOB_RETENTION_DAYS = 30;
+// How long finished and unconfirmed imports are kept for their error reports
+const IMPORT_RETENTION_DAYS = 30;
+
+export const jobHandlers: Record<JobType, JobHandler> = {
+  // Log overdue loans and queue loan.overdue webhook events for loans that became overdue since the last check
+  'loans.check_overdue': async () => {
+    const loanService = new LoanService();
+    const overdueLoans = await loanService.getOverdueLoans();
+
+    if (overdueLoans.length > 0) {
+      logger.warn(`[OVERDUE REMINDER] Found ${overdueLoans.length} overdue loans`, {
+        loans: overdueLoans.map(loan => ({ id: loan.id, book: loan.book_title, member: loan.member_name, due_date: loan.due_date })),
+      });
+    }
+
+    const webhookDeliveries = await loanService.emitOverdueEvents();
+    return { overdue: overdueLoans.length, webhook_deliveries: webhookDeliveries };
+  },
+
+  // Email due-soon, overdue and final notices not sent yet
+  'notifications.send_loan_notices': async () => {
+    const { sent, failed } = await new NotificationService().sendLoanNotices();
+    if (sent > 0 || failed > 0) {
+      logger.info(`[NOTICES] Sent ${sent} loan notices${failed > 0 ? `, ${failed} failed` : ''}`);
+    }
+    return { sent, failed };
+  },
+
+  'fines.accrue': async () => {
+    const { loans, total } = await new MemberAccountService().accrueOverdueFines();
+    if (loans > 0) {
+      logger.warn(`[FINES] Charged ${total.toFixed(2)} in overdue fines across ${loans} loans`);
+    }
+    return { loans, total };
+  },
+
+  // Expire unclaimed holds and pass their copies on to the next member in the queue
+  'holds.expire': async () => {
+    const expiredHolds = await new HoldService().expireHolds();
+    if (expiredHolds.length > 0) {
+      logger.warn(`[HOLD EXPIRY] Expired ${expiredHolds.length} unclaimed holds`, {
+        holds: expiredHolds.map(hold => ({ id: hold.id, book_id: hold.book_id, member_id: hold.member_id })),
+      });
+    }
+    return { expired: expiredHolds.length };
+  },
+
+  // Send webhook deliveries that are due, including retries
+  'webhooks.deliver': async () => {
+    return { ...await new WebhookService().processDueDeliveries() };
+  },
+
+  // Also prunes old imports, whose rows are kept only for the import dialog and its error report
+  'jobs.prune': async () => {
+    return {
+      deleted: await new JobService().pruneSucceeded(SUCCEEDED_JOB_RETENTION_DAYS),
+      imports_deleted: await new ImportService().pruneImports(IMPORT_RETENTION_DAYS),
+    };
+  },
+
+  'books.download_cover': async (payload) => {
+    return await new BookService().downloadCover(payload.book_id, payload.url);
+  },
+
+  'books.enrich_metadata': async (payload) => {
+    return await new BookService().enrichMetadata(payload.book_id);
+  },
+
+  'imports.run': async (payload, job) => {
+    return await new ImportService().runImport(payload.import_id, job.attempts >= job.max_attempts);
+  },
+};
@@ -0,0 +1,98 @@
+/**
+ * Job runner
+ *
+ * Runs in every API replica that has the job worker enabled. The worker
+ * polls the queue and runs due jobs one at a time. The scheduler fires the
+ * job schedules in every replica, but only the replica holding the
+ * scheduler lock queues them; the lock is renewed on a heartbeat and taken
+ * over by another replica if its holder stops renewing it.
+ */
+
+import os from 'os';
+import crypto from 'crypto';
+import { schedule, ScheduledTask } from 'node-cron';
+import { JobService } from '../services/JobService';
+import { jobHandlers } from './handlers';
+import { getJobSchedules } from './schedules';
+import { logger } from '../utils/logger';
+import config from '../config';
+
+// How often the scheduler lock is renewed and abandoned jobs are released
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+// How long the scheduler lock lasts without renewal
+const SCHEDULER_LOCK_TTL_MS = 90 * 1000;
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+/**
+ * Start the worker and scheduler. Returns a function that stops them.
+ */
+export const startJobRunner = (): (() => Promise<void>) => {
+  const jobService = new JobService();
+  const workerId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+  let working = false;
+  let stopping = false;
+  let isScheduler = false;
+
+  // Run due jobs until the queue has none left
+  const work = async () => {
+    if (working || stopping) {
+      return;
+    }
+    working = true;
+    try {
+      while (!stopping && await jobService.runNext(workerId, jobHandlers)) {
+        // Keep going while jobs are due
+      }
+    } catch (err) {
+      logger.error('Job worker failed', { error: errorMessage(err) });
+    } finally {
+      working = false;
+    }
+  };
+
+  const heartbeat = async () => {
+    try {
+      const wasScheduler = isScheduler;
+      isScheduler = await jobService.acquireSchedulerLock(workerId, SCHEDULER_LOCK_TTL_MS);
+      if (isScheduler && !wasScheduler) {
+        logger.info('This replica is now queueing scheduled jobs', { workerId });
+      }
+
+      const released = await jobService.releaseStaleJobs();
+      if (released > 0) {
+        logger.warn(`Released ${released} jobs abandoned by a stopped worker`);
+      }
+    } catch (err) {
+      isScheduler = false;
+      logger.error('Job scheduler heartbeat failed', { error: errorMessage(err) });
+    }
+  };
+
+  const tasks: ScheduledTask[] = getJobSchedules().map(jobSchedule =>
+    schedule(jobSchedule.cron, () => {
+      if (!isScheduler) {
+        return;
+      }
+      jobService.enqueueScheduled(jobSchedule, new Date())
+        .then(work)
+        .catch(err => {
+          logger.error('Failed to queue scheduled job', { type: jobSchedule.type, error: errorMessage(err) });
+        });
+    })
+  );
+
+  const workTimer = setInterval(work, config.jobPollIntervalMs);
+  const heartbeatTimer = setInterval(heartbeat, HEARTBEAT_INTERVAL_MS);
+  heartbeat().then(work);
+
+  return async () => {
+    stopping = true;
+    clearInterval(workTimer);
+    clearInterval(heartbeatTimer);
+    tasks.forEach(task => task.stop());
+    if (isScheduler) {
+      await jobService.releaseSchedulerLock(workerId).catch(() => undefined);
+    }
+  };
+};
@@ -0,0 +1,54 @@
+/**
+ * Job schedules
+ *
+ * The cron schedules the scheduler queues jobs on. Schedules switched off
+ * in the configuration are left out.
+ */
+
+import { JobSchedule } from '../types/job';
+import config from '../config';
+
+export const getJobSchedules = (): JobSchedule[] => {
+  const schedules: JobSchedule[] = [];
+
+  if (config.overdueChecksEnabled) {
+    const overdueCron = `*/${config.overdueCheckInterval} * * * *`;
+    schedules.push({
+      type: 'loans.check_overdue',
+      cron: overdueCron,
+      description: `Check for overdue loans and raise loan.overdue webhook events (every ${config.overdueCheckInterval} minutes)`,
+    });
+    if (config.emailNotificationsEnabled) {
+      schedules.push({
+        type: 'notifications.send_loan_notices',
+        cron: overdueCron,
+        description: `Email due-soon, overdue and final notices (every ${config.overdueCheckInterval} minutes)`,
+      });
+    }
+  }
+
+  schedules.push(
+    {
+      type: 'fines.accrue',
+      cron: '15 0 * * *',
+      description: 'Accrue overdue fines (daily, shortly after midnight)',
+    },
+    {
+      type: 'holds.expire',
+      cron: '0 * * * *',
+      description: `Expire unclaimed holds (hourly, pickup window ${config.holdPickupDays} days)`,
+    },
+    {
+      type: 'webhooks.deliver',
+      cron: '* * * * *',
+      description: 'Send queued and retried webhook deliveries (every minute)',
+    },
+    {
+      type: 'jobs.prune',
+      cron: '30 3 * * *',
+      description: 'Delete succeeded jobs and finished imports older than 30 days (daily)',
+    },
+  );
+
+  return schedules;
+};
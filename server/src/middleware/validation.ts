@@ -7,6 +7,21 @@ import { Response, NextFunction } from 'express';
 import { filterXSS } from 'xss';
 import { AuthRequest } from '../types/express';
 import { AppError } from './errorHandler';
+import { BOOK_FORMATS } from '../types/book';
+import { COPY_CONDITIONS } from '../types/copy';
+import { LOAN_OUTCOMES } from '../types/loan';
+import { ALL_PERMISSIONS, Permission } from '../types/role';
+
+/**
+ * Role names are lowercase words joined by hyphens or underscores
+ */
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_-]{1,49}$/;
+
+/**
+ * BCP 47 language tags as books are catalogued: a language with optional
+ * script, region and variant subtags, such as en, ml or zh-Hant-TW
+ */
+const LANGUAGE_TAG_PATTERN = /^[a-z]{2,3}(?:-[a-z\d]{2,8})*$/i;
 
 /**
  * Validate email format
@@ -67,6 +82,20 @@ export const validateBook = (
     return next(new AppError('Invalid ISBN format. Must be ISBN-10 or ISBN-13', 400));
   }
 
+  const { language, publication_year, format } = req.body;
+  if (language && (typeof language !== 'string' || language.length > 35 || !LANGUAGE_TAG_PATTERN.test(language))) {
+    return next(new AppError('Language must be a language tag such as en or pt-BR', 400));
+  }
+
+  if (publication_year !== undefined && publication_year !== null && publication_year !== ''
+    && !(Number.isInteger(Number(publication_year)) && Number(publication_year) >= 1 && Number(publication_year) <= 9999)) {
+    return next(new AppError('Publication year must be a whole number between 1 and 9999', 400));
+  }
+
+  if (format && !BOOK_FORMATS.includes(format)) {
+    return next(new AppError(`Format must be one of: ${BOOK_FORMATS.join(', ')}`, 400));
+  }
+
   // Sanitize inputs
   req.body.title = sanitizeString(title);
   req.body.author = sanitizeString(author);
@@ -97,10 +126,21 @@ export const validateMember = (
     return next(new AppError('Phone must be a string', 400));
   }
 
+  const { member_type, barcode } = req.body;
+  if (member_type && (typeof member_type !== 'string' || member_type.length > 50)) {
+    return next(new AppError('Member type must be a string of at most 50 characters', 400));
+  }
+
+  if (barcode && (typeof barcode !== 'string' || barcode.length > 50)) {
+    return next(new AppError('Barcode must be a string of at most 50 characters', 400));
+  }
+
   // Sanitize inputs
   req.body.name = sanitizeString(name);
   req.body.email = sanitizeString(email).toLowerCase();
   if (phone) req.body.phone = sanitizeString(phone);
+  if (member_type) req.body.member_type = sanitizeString(member_type).toLowerCase();
+  req.body.barcode = barcode ? sanitizeString(barcode) || null : null;
 
   next();
 };
@@ -123,8 +163,25 @@ export const validateUser = (
     return next(new AppError('Password is required and must be at least 6 characters', 400));
   }
 
-  if (role && !['admin', 'member'].includes(role)) {
-    return next(new AppError('Role must be either "admin" or "member"', 400));
+  // Whether the role exists is checked by the database
+  if (role && (typeof role !== 'string' || !ROLE_NAME_PATTERN.test(role))) {
+    return next(new AppError('Role must be the name of an existing role', 400));
+  }
+
+  const { member_id } = req.body;
+  if (member_id !== undefined && member_id !== null && (!Number.isInteger(member_id) || member_id <= 0)) {
+    return next(new AppError('member_id must be a positive integer or null', 400));
+  }
+
+  // An empty email clears it
+  const { email } = req.body;
+  if (email !== undefined && email !== null && email !== '') {
+    if (typeof email !== 'string' || !isValidEmail(email.trim())) {
+      return next(new AppError('Email must be a valid email address', 400));
+    }
+    req.body.email = sanitizeString(email).toLowerCase();
+  } else if (email === '') {
+    req.body.email = null;
   }
 
   // Sanitize inputs
@@ -160,6 +217,112 @@ export const validateLoan = (
   req: AuthRequest,
   res: Response,
   next: NextFunction
+): void => {
+  const { book_id, copy_id, member_id } = req.body;
+  const isBorrow = req.path.includes('borrow');
+
+  if (copy_id !== undefined && (typeof copy_id !== 'number' || copy_id <= 0)) {
+    return next(new AppError('copy_id must be a positive number', 400));
+  }
+
+  // A return can name just the copy; a checkout always names the book
+  if ((isBorrow || copy_id === undefined) && (!book_id || typeof book_id !== 'number' || book_id <= 0)) {
+    return next(new AppError(isBorrow ? 'Valid book_id is required' : 'Valid book_id or copy_id is required', 400));
+  }
+
+  if (isBorrow && (!member_id || typeof member_id !== 'number' || member_id <= 0)) {
+    return next(new AppError('Valid member_id is required for borrowing', 400));
+  }
+
+  next();
+};
+
+/**
+ * Validation middleware for closing a loan with an outcome
+ */
+export const validateLoanOutcome = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  const { outcome, replacement_charge, condition, note } = req.body;
+
+  if (!LOAN_OUTCOMES.includes(outcome)) {
+    return next(new AppError(`Outcome must be one of: ${LOAN_OUTCOMES.join(', ')}`, 400));
+  }
+
+  if (replacement_charge !== undefined && replacement_charge !== null) {
+    if (outcome !== 'lost' && outcome !== 'damaged') {
+      return next(new AppError('A replacement charge only applies to lost or damaged items', 400));
+    }
+    if (typeof replacement_charge !== 'number' || !isFinite(replacement_charge) || replacement_charge <= 0 || replacement_charge > 100000) {
+      return next(new AppError('Replacement charge must be a positive number', 400));
+    }
+    if (Math.abs(Math.round(replacement_charge * 100) - replacement_charge * 100) > 1e-6) {
+      return next(new AppError('Replacement charge must have at most two decimal places', 400));
+    }
+  }
+
+  if (condition !== undefined && condition !== null) {
+    if (outcome !== 'returned' && outcome !== 'damaged') {
+      return next(new AppError('A condition can only be recorded for items that came back', 400));
+    }
+    if (!COPY_CONDITIONS.includes(condition)) {
+      return next(new AppError(`Condition must be one of: ${COPY_CONDITIONS.join(', ')}`, 400));
+    }
+  }
+
+  if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > 1000)) {
+    return next(new AppError('Note must be a string of at most 1000 characters', 400));
+  }
+
+  if (note) req.body.note = sanitizeString(note);
+
+  next();
+};
+
+/**
+ * Validation middleware for a circulation desk batch of scanned codes
+ */
+export const validateCirculationBatch = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  const { member_code, codes } = req.body;
+  const isCheckout = req.path.includes('checkout');
+  const isScannedCode = (code: unknown): code is string =>
+    typeof code === 'string' && code.trim().length > 0 && code.length <= 50;
+
+  if (isCheckout && !isScannedCode(member_code)) {
+    return next(new AppError('A member card barcode (member_code) is required for checkout', 400));
+  }
+
+  if (!Array.isArray(codes) || codes.length === 0 || codes.length > 50) {
+    return next(new AppError('codes must be a list of 1 to 50 scanned codes', 400));
+  }
+
+  if (!codes.every(isScannedCode)) {
+    return next(new AppError('Each code must be a non-empty string of at most 50 characters', 400));
+  }
+
+  req.body.codes = codes.map((code: string) => code.trim());
+  if (new Set(req.body.codes).size !== codes.length) {
+    return next(new AppError('The same code was scanned more than once', 400));
+  }
+
+  if (isCheckout) req.body.member_code = member_code.trim();
+
+  next();
+};
+
+/**
+ * Validation middleware for placing a hold
+ */
+export const validateHold = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
 ): void => {
   const { book_id, member_id } = req.body;
 
@@ -167,8 +330,174 @@ export const validateLoan = (
     return next(new AppError('Valid book_id is required', 400));
   }
 
-  if (req.path.includes('borrow') && (!member_id || typeof member_id !== 'number' || member_id <= 0)) {
-    return next(new AppError('Valid member_id is required for borrowing', 400));
+  if (!member_id || typeof member_id !== 'number' || member_id <= 0) {
+    return next(new AppError('Valid member_id is required', 400));
+  }
+
+  next();
+};
+
+/**
+ * Check and normalise the descriptive fields of a copy in place.
+ * Empty strings become null. Returns an error message, or null if valid.
+ * Shared by the copy routes and the CSV importer.
+ */
+export const checkCopyFields = (data: Record<string, any>): string | null => {
+  for (const [field, maxLength] of [['barcode', 50], ['location', 255]] as Array<[string, number]>) {
+    const value = data[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'string' || value.length > maxLength) {
+      return `${field} must be a string of at most ${maxLength} characters`;
+    }
+    data[field] = sanitizeString(value) || null;
+  }
+
+  if (data.condition !== undefined && !COPY_CONDITIONS.includes(data.condition)) {
+    return `Condition must be one of: ${COPY_CONDITIONS.join(', ')}`;
+  }
+
+  if (data.acquisition_date === '') data.acquisition_date = null;
+  if (data.acquisition_date !== undefined && data.acquisition_date !== null) {
+    const date = typeof data.acquisition_date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(data.acquisition_date)
+      ? new Date(`${data.acquisition_date}T00:00:00Z`)
+      : null;
+    if (!date || isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== data.acquisition_date) {
+      return 'acquisition_date must be a date in YYYY-MM-DD format';
+    }
+  }
+
+  if (data.price !== undefined && data.price !== null) {
+    const { price } = data;
+    if (typeof price !== 'number' || !isFinite(price) || price < 0 || price > 100000) {
+      return 'Price must be a non-negative number';
+    }
+    if (Math.abs(Math.round(price * 100) - price * 100) > 1e-6) {
+      return 'Price must have at most two decimal places';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Validation middleware for copy creation/update
+ */
+export const validateCopy = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  const { book_id, status } = req.body;
+
+  if (req.method === 'POST' && (!book_id || typeof book_id !== 'number' || book_id <= 0)) {
+    return next(new AppError('Valid book_id is required', 400));
+  }
+
+  if (req.method === 'PUT' && status !== undefined && !['available', 'unavailable', 'withdrawn'].includes(status)) {
+    return next(new AppError('Status must be available, unavailable or withdrawn', 400));
+  }
+
+  const error = checkCopyFields(req.body);
+  if (error) {
+    return next(new AppError(error, 400));
+  }
+
+  next();
+};
+
+/**
+ * Validation middleware for member account payments, waivers and charges
+ */
+export const validateAccountEntry = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  const { amount, description } = req.body;
+
+  if (typeof amount !== 'number' || !isFinite(amount) || amount <= 0 || amount > 100000) {
+    return next(new AppError('Amount must be a positive number', 400));
+  }
+
+  if (Math.abs(Math.round(amount * 100) - amount * 100) > 1e-6) {
+    return next(new AppError('Amount must have at most two decimal places', 400));
+  }
+
+  if (description !== undefined && (typeof description !== 'string' || description.length > 255)) {
+    return next(new AppError('Description must be a string of at most 255 characters', 400));
+  }
+
+  if (description) req.body.description = sanitizeString(description);
+
+  next();
+};
+
+/**
+ * Validation middleware for circulation policies
+ */
+export const validateCirculationPolicy = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  const { category_id, member_type } = req.body;
+
+  if (category_id !== undefined && category_id !== null && (typeof category_id !== 'number' || !Number.isInteger(category_id) || category_id <= 0)) {
+    return next(new AppError('category_id must be a positive integer or null', 400));
+  }
+
+  if (member_type !== undefined && member_type !== null) {
+    if (typeof member_type !== 'string' || member_type.trim().length === 0 || member_type.length > 50) {
+      return next(new AppError('member_type must be a non-empty string of at most 50 characters or null', 400));
+    }
+    req.body.member_type = sanitizeString(member_type).toLowerCase();
+  }
+
+  const fields: Array<[string, number]> = [
+    ['loan_period_days', 1],
+    ['max_active_loans', 0],
+    ['max_renewals', 0],
+    ['grace_days', 0]
+  ];
+  for (const [field, min] of fields) {
+    const value = req.body[field];
+    if (value !== undefined && value !== null && (typeof value !== 'number' || !Number.isInteger(value) || value < min)) {
+      return next(new AppError(`${field} must be an integer of at least ${min} or null`, 400));
+    }
+  }
+
+  next();
+};
+
+/**
+ * Validation middleware for custom role creation/update
+ */
+export const validateRole = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  const { name, description, permissions } = req.body;
+
+  if (typeof name !== 'string' || !ROLE_NAME_PATTERN.test(name)) {
+    return next(new AppError('Role name must be 2-50 lowercase letters, digits, hyphens or underscores, starting with a letter', 400));
+  }
+
+  if (description !== undefined && description !== null && typeof description !== 'string') {
+    return next(new AppError('description must be a string or null', 400));
+  }
+
+  if (!Array.isArray(permissions)) {
+    return next(new AppError('permissions must be an array', 400));
+  }
+  const unknown = permissions.filter((permission: unknown) => !ALL_PERMISSIONS.includes(permission as Permission));
+  if (unknown.length > 0) {
+    return next(new AppError(`Unknown permission: ${unknown.join(', ')}. Must be one of: ${ALL_PERMISSIONS.join(', ')}`, 400));
+  }
+
+  req.body.permissions = [...new Set(permissions)];
+  if (typeof description === 'string') {
+    req.body.description = sanitizeString(description);
   }
 
   next();
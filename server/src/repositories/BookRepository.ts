@@ -4,83 +4,330 @@
 
 import { PoolClient } from 'pg';
 import { BaseRepository, PaginatedResult, PaginationOptions } from './BaseRepository';
+import { BookFacet, BookFacetCounts, BookFacetValue, BookFilters, BookFormat, BookQueryCondition, BookQueryInstant } from '../types/book';
+import { correctBookQuery, parseBookQuery } from '../utils/bookQuery';
+import {
+  HEADLINE_OPTIONS,
+  searchWords,
+  SimilarWords,
+  similarWordsSql,
+  SNIPPET_OPTIONS,
+  toSimilarWords,
+  toTsQuery,
+} from '../utils/textSearch';
 
 export interface Book {
   id: number;
   title: string;
   author: string;
-  isbn?: string;
+  isbn?: string | null;
   available: boolean;
-  cover_image_path?: string;
+  cover_image_path?: string | null;
+  description?: string | null;
+  language?: string | null;
+  publication_year?: number | null;
+  format?: BookFormat | null;
   created_at: Date;
   updated_at?: Date;
 }
 
+export interface BookWithCopyCounts extends Book {
+  available_copies: number;
+  total_copies: number;
+}
+
+/**
+ * How a book matched a search: its rank, its title with the matching words
+ * in <mark>, and the passages of its description that match
+ */
+export interface BookSearchMatch {
+  search_rank: number;
+  title_highlight: string;
+  description_snippet: string | null;
+}
+
+/**
+ * Copy counts behind "N of M copies available", for a query over books aliased as b
+ */
+export const COPY_COUNTS_SQL = `(SELECT COUNT(cp.id)::integer FROM copies cp WHERE cp.book_id = b.id AND cp.status = 'available') AS available_copies,
+      (SELECT COUNT(cp.id)::integer FROM copies cp WHERE cp.book_id = b.id) AS total_copies`;
+
+/**
+ * Full-text search over books aliased as b, for a query from toTsQuery() in
+ * the given parameter: the join to the books' search vectors (aliased as
+ * bs), the condition a book must meet, its rank and the columns of
+ * BookSearchMatch
+ */
+export const bookSearchSql = (param: string): { join: string; condition: string; rank: string; columns: string } => {
+  const tsquery = `to_tsquery('english', ${param})`;
+  const rank = `ts_rank(bs.search_vector, ${tsquery})`;
+  return {
+    join: 'JOIN book_search_vectors bs ON bs.book_id = b.id',
+    condition: `bs.search_vector @@ ${tsquery}`,
+    rank,
+    columns: `${rank} AS search_rank,
+      ts_headline('english', b.title, ${tsquery}, '${HEADLINE_OPTIONS}') AS title_highlight,
+      CASE WHEN b.description IS NULL THEN NULL
+        ELSE ts_headline('english', b.description, ${tsquery}, '${SNIPPET_OPTIONS}') END AS description_snippet`,
+  };
+};
+
+/**
+ * Adds a query parameter and returns its placeholder
+ */
+export type AddParam = (value: unknown) => string;
+
+/**
+ * A fresh parameter list and the function that adds to it
+ */
+export const queryParams = (): { params: unknown[]; param: AddParam } => {
+  const params: unknown[] = [];
+  return { params, param: value => `$${params.push(value)}` };
+};
+
+// A LIKE pattern for text anywhere in a value, with its wildcards escaped
+const containing = (text: string) => `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+
+/**
+ * A time a search compares with, worked out by the database so saved
+ * searches such as added:this-month stay current
+ */
+const instantSql = (instant: BookQueryInstant, param: AddParam): string => {
+  if ('date' in instant) {
+    return `${param(instant.date)}::date`;
+  }
+  if ('startOf' in instant) {
+    return `date_trunc(${param(instant.startOf)}, CURRENT_TIMESTAMP)`;
+  }
+  return `CURRENT_TIMESTAMP - make_interval(days => ${param(instant.daysAgo)})`;
+};
+
+/**
+ * The condition for a field of a search, over books aliased as b
+ */
+const bookQueryConditionSql = (condition: BookQueryCondition, param: AddParam): string => {
+  switch (condition.field) {
+    case 'author':
+    case 'title':
+      return `b.${condition.field} ILIKE ${param(containing(condition.value))}`;
+    case 'category':
+      return `EXISTS (
+        SELECT 1 FROM book_categories bc_query
+        JOIN categories c_query ON c_query.id = bc_query.category_id
+        WHERE bc_query.book_id = b.id AND lower(c_query.name) = lower(${param(condition.value)})
+      )`;
+    case 'isbn':
+      return `UPPER(regexp_replace(b.isbn, '[^0-9Xx]', '', 'g')) = ${param(condition.value)}`;
+    case 'available':
+      return `b.available = ${param(condition.value)}`;
+    case 'language': {
+      const language = param(condition.value.toLowerCase());
+      return `(lower(b.language) = ${language} OR lower(b.language) LIKE ${language} || '-%')`;
+    }
+    case 'format':
+      return `b.format = ${param(condition.value)}`;
+    case 'year':
+      return [
+        ...(condition.min !== undefined ? [`b.publication_year >= ${param(condition.min)}`] : []),
+        ...(condition.max !== undefined ? [`b.publication_year <= ${param(condition.max)}`] : []),
+      ].join(' AND ');
+    case 'added':
+      return [
+        ...(condition.from ? [`b.created_at >= ${instantSql(condition.from, param)}`] : []),
+        ...(condition.before ? [`b.created_at < ${instantSql(condition.before, param)}`] : []),
+      ].join(' AND ');
+    case 'borrowed':
+      return `${condition.value ? '' : 'NOT '}EXISTS (SELECT 1 FROM loans l_query WHERE l_query.book_id = b.id)`;
+  }
+};
+
+/**
+ * The conditions for the fields of a search, over books aliased as b. A
+ * negated field also matches books without a value for it.
+ */
+export const bookQueryConditions = (conditions: BookQueryCondition[], param: AddParam): string[] =>
+  conditions.map(condition => {
+    const sql = bookQueryConditionSql(condition, param);
+    return condition.negated ? `NOT COALESCE((${sql}), false)` : sql;
+  });
+
+/**
+ * The conditions for filters over books aliased as b, leaving out the
+ * facet being counted so its other values can still be chosen
+ */
+export const bookFilterConditions = (filters: BookFilters, param: AddParam, except?: BookFacet): string[] => {
+  const conditions: string[] = [];
+
+  const categoryIds = filters.categoryIds ?? [];
+  if (categoryIds.length > 0 && filters.categoryMatch === 'all') {
+    // Books in every chosen category narrow the categories facet too
+    conditions.push(`b.id IN (
+      SELECT bc_filter.book_id
+      FROM book_categories bc_filter
+      WHERE bc_filter.category_id = ANY(${param(categoryIds)}::int[])
+      GROUP BY bc_filter.book_id
+      HAVING COUNT(DISTINCT bc_filter.category_id) = ${param(categoryIds.length)}
+    )`);
+  } else if (categoryIds.length > 0 && except !== 'categories') {
+    conditions.push(`b.id IN (
+      SELECT DISTINCT bc_filter.book_id
+      FROM book_categories bc_filter
+      WHERE bc_filter.category_id = ANY(${param(categoryIds)}::int[])
+    )`);
+  }
+  if (filters.available !== undefined && except !== 'availability') {
+    conditions.push(`b.available = ${param(filters.available)}`);
+  }
+  if (filters.authors?.length && except !== 'author') {
+    conditions.push(`b.author = ANY(${param(filters.authors)}::text[])`);
+  }
+  if (filters.languages?.length && except !== 'language') {
+    conditions.push(`b.language = ANY(${param(filters.languages)}::text[])`);
+  }
+  if (filters.decades?.length && except !== 'decade') {
+    conditions.push(`b.publication_year / 10 * 10 = ANY(${param(filters.decades)}::int[])`);
+  }
+  if (filters.formats?.length && except !== 'format') {
+    conditions.push(`b.format = ANY(${param(filters.formats)}::text[])`);
+  }
+  conditions.push(...bookQueryConditions(filters.query ?? [], param));
+  return conditions;
+};
+
+/**
+ * What a search with filters, such as a saved search, needs to find its
+ * books aliased as b: the join to their search vectors for its words, if
+ * it has any, and the conditions they must meet
+ */
+export const bookMatchSql = (
+  search: string,
+  filters: BookFilters,
+  param: AddParam
+): { join: string; conditions: string[] } => {
+  const bookQuery = parseBookQuery(search);
+  const tsquery = toTsQuery(bookQuery.text);
+  const searchSql = tsquery ? bookSearchSql(param(tsquery)) : null;
+  return {
+    join: searchSql?.join ?? '',
+    conditions: [
+      ...(searchSql ? [searchSql.condition] : []),
+      ...bookFilterConditions({ ...filters, query: [...(filters.query ?? []), ...bookQuery.conditions] }, param),
+    ],
+  };
+};
+
+// The most values returned for a facet, the most common first
+const FACET_VALUE_LIMIT = 25;
+
+// How each facet groups books: the value, its label and the joins it needs
+const FACET_SQL: Record<BookFacet, { value: string; label?: string; join?: string; group: string }> = {
+  categories: {
+    value: 'c.id::text',
+    label: 'c.name',
+    join: 'JOIN book_categories bc ON bc.book_id = b.id JOIN categories c ON c.id = bc.category_id',
+    group: 'c.id, c.name',
+  },
+  availability: { value: 'b.available::text', group: 'b.available' },
+  author: { value: 'b.author', group: 'b.author' },
+  language: { value: 'b.language', group: 'b.language' },
+  decade: { value: '(b.publication_year / 10 * 10)::text', group: 'b.publication_year / 10 * 10' },
+  format: { value: 'b.format', group: 'b.format' },
+};
+
+/**
+ * A book suggested as a search is typed
+ */
+export interface BookSuggestion {
+  id: number;
+  title: string;
+  author: string;
+}
+
 export interface BookSearchOptions extends PaginationOptions {
   search?: string;
   availableStatus?: string;
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
   categoryId?: number;
+  // Filters as well as the category and availability, such as those of a saved search
+  filters?: BookFilters;
 }
 
 export class BookRepository extends BaseRepository<Book> {
   protected tableName = 'books';
 
   /**
-   * Search books with filters and pagination
+   * Search books with filters and pagination. A search is matched against
+   * titles, authors, ISBNs, categories and descriptions, and its results
+   * are sorted by relevance unless another order is asked for. Fields in
+   * the search, such as author:pratchett, narrow it as in parseBookQuery().
+   * A search with no hits is run again with the words similar to its words,
+   * and the corrected search is returned as didYouMean if that finds books.
    */
-  async search(options: BookSearchOptions, client?: PoolClient): Promise<PaginatedResult<Book>> {
+  async search(
+    options: BookSearchOptions,
+    client?: PoolClient
+  ): Promise<PaginatedResult<BookWithCopyCounts & Partial<BookSearchMatch>> & { didYouMean?: string }> {
     const executor = client || this.pool;
-    const { page, limit, search, availableStatus, sortBy = 'title', sortOrder = 'asc', categoryId } = options;
+    const { page, limit, search, availableStatus, sortOrder = 'asc', categoryId, filters = {} } = options;
 
     const conditions: string[] = [];
-    const params: any[] = [];
-    let paramCount = 0;
-
-    // Search filter
-    if (search) {
-      paramCount++;
-      conditions.push(`(title ILIKE $${paramCount} OR author ILIKE $${paramCount} OR isbn ILIKE $${paramCount})`);
-      params.push(`%${search}%`);
-    }
+    const { params, param } = queryParams();
 
-    // Availability filter
-    if (availableStatus === 'available') {
-      conditions.push('available = true');
-    } else if (availableStatus === 'unavailable') {
-      conditions.push('available = false');
+    // Search filter: its words are full-text and its fields are conditions
+    const bookQuery = parseBookQuery(search ?? '');
+    const tsquery = toTsQuery(bookQuery.text);
+    const searchSql = tsquery ? bookSearchSql(param(tsquery)) : null;
+    if (searchSql) {
+      conditions.push(searchSql.condition);
     }
 
-    // Category filter
-    if (categoryId) {
-      paramCount++;
-      conditions.push(`id IN (SELECT book_id FROM book_categories WHERE category_id = $${paramCount})`);
-      params.push(categoryId);
-    }
+    conditions.push(...bookFilterConditions({ ...filters, query: [...(filters.query ?? []), ...bookQuery.conditions] }, param));
+    conditions.push(...bookFilterConditions({
+      categoryIds: categoryId ? [categoryId] : [],
+      available: availableStatus === 'available' ? true : availableStatus === 'unavailable' ? false : undefined,
+    }, param));
 
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
     // Count total
-    const countResult = await executor.query<{ count: string }>(
-      `SELECT COUNT(*)::integer as count FROM books ${whereClause}`,
-      params
-    );
-    const total = parseInt(countResult.rows[0].count, 10);
+    const countBooks = async () => {
+      const countResult = await executor.query<{ count: string }>(
+        `SELECT COUNT(*)::integer as count FROM books b ${searchSql?.join ?? ''} ${whereClause}`,
+        params
+      );
+      return parseInt(countResult.rows[0].count, 10);
+    };
+    let total = await countBooks();
+
+    // Fall back to similar words for a search with no hits
+    let didYouMean: string | undefined;
+    if (search && searchSql && total === 0) {
+      const similarWords = await this.findSimilarWords(searchWords(bookQuery.text), client);
+      if (similarWords.size > 0) {
+        params[0] = toTsQuery(bookQuery.text, { similarWords });
+        total = await countBooks();
+        didYouMean = total > 0 ? correctBookQuery(search, similarWords) : undefined;
+      }
+    }
 
     // Get paginated results
     const validSortColumns = ['title', 'author', 'created_at'];
-    const column = validSortColumns.includes(sortBy) ? sortBy : 'title';
+    const sortBy = options.sortBy ?? (searchSql ? 'relevance' : 'title');
     const order = sortOrder === 'desc' ? 'DESC' : 'ASC';
+    const orderBy = sortBy === 'relevance' && searchSql
+      ? `${searchSql.rank} DESC, b.title ASC`
+      : `b.${validSortColumns.includes(sortBy) ? sortBy : 'title'} ${order}`;
 
     const offset = (page - 1) * limit;
-    paramCount++;
-    params.push(limit);
-    paramCount++;
-    params.push(offset);
 
-    const { rows } = await executor.query<Book>(
-      `SELECT * FROM books ${whereClause} ORDER BY ${column} ${order} LIMIT $${paramCount - 1} OFFSET $${paramCount}`,
+    const { rows } = await executor.query<BookWithCopyCounts & Partial<BookSearchMatch>>(
+      `SELECT b.*, ${COPY_COUNTS_SQL}${searchSql ? `, ${searchSql.columns}` : ''}
+       FROM books b
+       ${searchSql?.join ?? ''}
+       ${whereClause}
+       ORDER BY ${orderBy}
+       LIMIT ${param(limit)} OFFSET ${param(offset)}`,
       params
     );
 
@@ -91,30 +338,106 @@ export class BookRepository extends BaseRepository<Book> {
         limit,
         total,
         totalPages: Math.ceil(total / limit)
-      }
+      },
+      ...(didYouMean !== undefined && { didYouMean }),
     };
   }
 
   /**
-   * Find book by ISBN
+   * Count the books with each value of the given facets, among the books
+   * matching a search (a query from toTsQuery()) and the filters. Each
+   * facet is counted without its own filter, so a count is how many books
+   * choosing that value as well would add.
    */
-  async findByIsbn(isbn: string, client?: PoolClient): Promise<Book | null> {
+  async countFacets(
+    facets: readonly BookFacet[],
+    tsquery: string | null,
+    filters: BookFilters,
+    client?: PoolClient
+  ): Promise<BookFacetCounts> {
+    const executor = client || this.pool;
+    const counts = await Promise.all(facets.map(async facet => {
+      const { params, param } = queryParams();
+      const searchSql = tsquery ? bookSearchSql(param(tsquery)) : null;
+      const sql = FACET_SQL[facet];
+      const conditions = [
+        ...(searchSql ? [searchSql.condition] : []),
+        ...bookFilterConditions(filters, param, facet),
+        `${sql.value} IS NOT NULL`,
+      ];
+
+      const { rows } = await executor.query<{ value: string; label: string | null; count: number }>(
+        `SELECT ${sql.value} AS value, ${sql.label ?? 'NULL'} AS label, COUNT(DISTINCT b.id)::integer AS count
+         FROM books b
+         ${searchSql?.join ?? ''}
+         ${sql.join ?? ''}
+         WHERE ${conditions.join(' AND ')}
+         GROUP BY ${sql.group}
+         ORDER BY count DESC, value ASC
+         LIMIT ${FACET_VALUE_LIMIT}`,
+        params
+      );
+      return [facet, rows.map(({ value, label, count }): BookFacetValue => (label === null ? { value, count } : { value, label, count }))] as const;
+    }));
+    return Object.fromEntries(counts);
+  }
+
+  /**
+   * Words of book titles, authors and categories similar to the given
+   * words, for those not found in any book
+   */
+  async findSimilarWords(words: string[], client?: PoolClient): Promise<SimilarWords> {
+    const executor = client || this.pool;
+    if (words.length === 0) {
+      return new Map();
+    }
+    const { rows } = await executor.query<{ input: string; word: string }>(
+      similarWordsSql('SELECT words FROM book_search_vectors'),
+      [words]
+    );
+    return toSimilarWords(rows);
+  }
+
+  /**
+   * The books whose title or author best match what has been typed so far,
+   * including misspelled and partly typed words
+   */
+  async suggest(text: string, limit: number, client?: PoolClient): Promise<BookSuggestion[]> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<BookSuggestion>(
+      `SELECT id, title, author
+       FROM books
+       WHERE $1 <% title OR $1 <% author OR title ILIKE $2 OR author ILIKE $2
+       ORDER BY GREATEST(word_similarity($1, title), word_similarity($1, coalesce(author, ''))) DESC, title ASC
+       LIMIT $3`,
+      [text, containing(text), limit]
+    );
+    return rows;
+  }
+
+  /**
+   * Find a book by a scanned ISBN, ignoring the hyphens and spaces stored with it
+   */
+  async findByScannedIsbn(isbn: string, client?: PoolClient): Promise<Book | null> {
     const executor = client || this.pool;
     const { rows } = await executor.query<Book>(
-      'SELECT * FROM books WHERE isbn = $1',
+      `SELECT * FROM books
+       WHERE UPPER(regexp_replace(isbn, '[^0-9Xx]', '', 'g')) = UPPER(regexp_replace($1, '[^0-9Xx]', '', 'g'))
+       ORDER BY id ASC
+       LIMIT 1`,
       [isbn]
     );
     return rows[0] || null;
   }
 
   /**
-   * Update book availability
+   * Find book by ISBN
    */
-  async updateAvailability(id: number, available: boolean, client?: PoolClient): Promise<Book | null> {
+  async findByIsbn(isbn: string, client?: PoolClient): Promise<Book | null> {
     const executor = client || this.pool;
     const { rows } = await executor.query<Book>(
-      'UPDATE books SET available = $2 WHERE id = $1 RETURNING *',
-      [id, available]
+      'SELECT * FROM books WHERE isbn = $1',
+      [isbn]
     );
     return rows[0] || null;
   }
@@ -142,6 +465,37 @@ export class BookRepository extends BaseRepository<Book> {
     return rows[0] || null;
   }
 
+  /**
+   * Set a book's cover and description where it has none, leaving any a librarian has set
+   */
+  async fillMissingMetadata(
+    id: number,
+    metadata: { coverImagePath?: string | null; description?: string | null },
+    client?: PoolClient
+  ): Promise<Book | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Book>(
+      `UPDATE books SET
+         cover_image_path = COALESCE(cover_image_path, $2),
+         description = COALESCE(NULLIF(description, ''), $3)
+       WHERE id = $1 RETURNING *`,
+      [id, metadata.coverImagePath ?? null, metadata.description ?? null]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Delete the books with the given IDs, returning the ones deleted
+   */
+  async deleteMany(ids: number[], client?: PoolClient): Promise<Array<Pick<Book, 'id' | 'cover_image_path'>>> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Pick<Book, 'id' | 'cover_image_path'>>(
+      'DELETE FROM books WHERE id = ANY($1) RETURNING id, cover_image_path',
+      [ids]
+    );
+    return rows;
+  }
+
   /**
    * Bulk create books
    */
@@ -0,0 +1,59 @@
+/**
+ * Circulation Policy Repository - Database operations for circulation policies
+ */
+
+import { PoolClient } from 'pg';
+import { BaseRepository } from './BaseRepository';
+import { CirculationPolicy, CirculationPolicyWithDetails } from '../types/circulationPolicy';
+
+export class CirculationPolicyRepository extends BaseRepository<CirculationPolicy> {
+  protected tableName = 'circulation_policies';
+
+  /**
+   * Get all policies with category names, global policy first
+   */
+  async findAllWithDetails(client?: PoolClient): Promise<CirculationPolicyWithDetails[]> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<CirculationPolicyWithDetails>(
+      `SELECT p.*, c.name as category_name
+       FROM circulation_policies p
+       LEFT JOIN categories c ON p.category_id = c.id
+       ORDER BY (p.category_id IS NOT NULL), (p.member_type IS NOT NULL), c.name ASC, p.member_type ASC`
+    );
+    return rows;
+  }
+
+  /**
+   * Find the global policy (no category, no member type)
+   */
+  async findGlobal(client?: PoolClient): Promise<CirculationPolicy | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<CirculationPolicy>(
+      'SELECT * FROM circulation_policies WHERE category_id IS NULL AND member_type IS NULL'
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Find every policy that can apply to a checkout of a book by a member type:
+   * the global policy, policies for any of the book's categories, and
+   * policies for the member type
+   */
+  async findApplicable(bookId: number, memberType: string, client?: PoolClient): Promise<CirculationPolicy[]> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<CirculationPolicy>(
+      `SELECT * FROM circulation_policies
+       WHERE (category_id IS NULL OR category_id IN (SELECT category_id FROM book_categories WHERE book_id = $1))
+       AND (member_type IS NULL OR member_type = $2)`,
+      [bookId, memberType]
+    );
+    return rows;
+  }
+
+  /**
+   * Update a policy and bump updated_at
+   */
+  async updatePolicy(id: number, data: Partial<CirculationPolicy>, client?: PoolClient): Promise<CirculationPolicy | null> {
+    return await this.update(id, { ...data, updated_at: new Date() }, client);
+  }
+}
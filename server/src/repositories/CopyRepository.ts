@@ -0,0 +1,231 @@
+/**
+ * Copy Repository - Database operations for physical copies of books
+ */
+
+import { PoolClient } from 'pg';
+import { BaseRepository } from './BaseRepository';
+import { Copy, CopyCondition, CopyConditionEntry, CopyInput, CopyStatus, CopyWithDetails } from '../types/copy';
+
+/**
+ * NUMERIC and DATE columns come back from pg as strings/Dates; normalise them for the API
+ */
+const copyColumns = (alias?: string): string => {
+  const p = alias ? `${alias}.` : '';
+  return `${p}id, ${p}book_id, ${p}barcode, ${p}status, ${p}condition, ${p}location,
+  ${p}acquisition_date::text AS acquisition_date,
+  ${p}price::float8 AS price,
+  ${p}created_at`;
+};
+
+const COPY_COLUMNS = copyColumns();
+
+const EDITABLE_FIELDS: Array<keyof CopyInput> = ['barcode', 'condition', 'location', 'acquisition_date', 'price'];
+
+export class CopyRepository extends BaseRepository<Copy> {
+  protected tableName = 'copies';
+
+  /**
+   * Find a copy by ID
+   */
+  async findById(id: number, client?: PoolClient): Promise<Copy | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Copy>(
+      `SELECT ${COPY_COLUMNS} FROM copies WHERE id = $1`,
+      [id]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Find a copy by ID and lock it for the rest of the transaction
+   */
+  async findByIdForUpdate(id: number, client: PoolClient): Promise<Copy | null> {
+    const { rows } = await client.query<Copy>(
+      `SELECT ${COPY_COLUMNS} FROM copies WHERE id = $1 FOR UPDATE`,
+      [id]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Find a copy by its barcode
+   */
+  async findByBarcode(barcode: string, client?: PoolClient): Promise<Copy | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Copy>(
+      `SELECT ${COPY_COLUMNS} FROM copies WHERE barcode = $1`,
+      [barcode]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Get all copies of a book with the borrower of any copy on loan
+   */
+  async findByBookId(bookId: number, client?: PoolClient): Promise<CopyWithDetails[]> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<CopyWithDetails>(
+      `SELECT ${copyColumns('c')},
+        l.member_id,
+        m.name as member_name,
+        l.due_date
+       FROM copies c
+       LEFT JOIN loans l ON l.copy_id = c.id AND l.return_date IS NULL
+       LEFT JOIN members m ON l.member_id = m.id
+       WHERE c.book_id = $1
+       ORDER BY c.id ASC`,
+      [bookId]
+    );
+    return rows;
+  }
+
+  /**
+   * Pick an available copy of a book and lock it for checkout
+   */
+  async findAvailableCopy(bookId: number, client: PoolClient): Promise<Copy | null> {
+    const { rows } = await client.query<Copy>(
+      `SELECT ${COPY_COLUMNS} FROM copies
+       WHERE book_id = $1 AND status = 'available'
+       ORDER BY id ASC
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED`,
+      [bookId]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Check whether any copy of a book is on the shelf
+   */
+  async hasAvailableCopy(bookId: number, client?: PoolClient): Promise<boolean> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<{ exists: boolean }>(
+      `SELECT EXISTS (
+         SELECT 1 FROM copies WHERE book_id = $1 AND status = 'available'
+       ) AS exists`,
+      [bookId]
+    );
+    return rows[0]?.exists ?? false;
+  }
+
+  /**
+   * Check whether a copy has ever been lent out
+   */
+  async hasLoanHistory(id: number, client?: PoolClient): Promise<boolean> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<{ exists: boolean }>(
+      'SELECT EXISTS (SELECT 1 FROM loans WHERE copy_id = $1) AS exists',
+      [id]
+    );
+    return rows[0]?.exists ?? false;
+  }
+
+  /**
+   * Get the copies of the given books that staff took out of circulation
+   */
+  async findUnavailableByBookIds(bookIds: number[], client: PoolClient): Promise<Copy[]> {
+    const { rows } = await client.query<Copy>(
+      `SELECT ${COPY_COLUMNS} FROM copies
+       WHERE book_id = ANY($1) AND status = 'unavailable'
+       ORDER BY id ASC
+       FOR UPDATE`,
+      [bookIds]
+    );
+    return rows;
+  }
+
+  /**
+   * Take every copy of the given books that is on the shelf out of circulation
+   */
+  async markUnavailableByBookIds(bookIds: number[], client?: PoolClient): Promise<number> {
+    const executor = client || this.pool;
+    const { rowCount } = await executor.query(
+      `UPDATE copies SET status = 'unavailable'
+       WHERE book_id = ANY($1) AND status = 'available'`,
+      [bookIds]
+    );
+    return rowCount ?? 0;
+  }
+
+  /**
+   * Add a copy to a book
+   */
+  async createCopy(bookId: number, data: CopyInput, status: CopyStatus, client?: PoolClient): Promise<Copy> {
+    const executor = client || this.pool;
+    const fields = EDITABLE_FIELDS.filter(field => data[field] !== undefined);
+    const columns = ['book_id', 'status', ...fields];
+    const values = [bookId, status, ...fields.map(field => data[field])];
+    const placeholders = values.map((_, i) => `$${i + 1}`).join(', ');
+
+    const { rows } = await executor.query<Copy>(
+      `INSERT INTO copies (${columns.join(', ')}) VALUES (${placeholders}) RETURNING ${COPY_COLUMNS}`,
+      values
+    );
+    return rows[0];
+  }
+
+  /**
+   * Update the descriptive fields of a copy
+   */
+  async updateCopy(id: number, data: CopyInput, client?: PoolClient): Promise<Copy | null> {
+    const executor = client || this.pool;
+    const fields = EDITABLE_FIELDS.filter(field => data[field] !== undefined);
+    if (fields.length === 0) {
+      return this.findById(id, client);
+    }
+
+    const setClause = fields.map((field, i) => `${field} = $${i + 2}`).join(', ');
+    const { rows } = await executor.query<Copy>(
+      `UPDATE copies SET ${setClause} WHERE id = $1 RETURNING ${COPY_COLUMNS}`,
+      [id, ...fields.map(field => data[field])]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Move a copy to a new circulation status
+   */
+  async updateStatus(id: number, status: CopyStatus, client?: PoolClient): Promise<Copy | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Copy>(
+      `UPDATE copies SET status = $2 WHERE id = $1 RETURNING ${COPY_COLUMNS}`,
+      [id, status]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Get the condition history of a copy, newest first
+   */
+  async findConditionHistory(copyId: number, client?: PoolClient): Promise<CopyConditionEntry[]> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<CopyConditionEntry>(
+      `SELECT h.*, u.username as recorded_by_username
+       FROM copy_condition_history h
+       LEFT JOIN users u ON h.recorded_by = u.id
+       WHERE h.copy_id = $1
+       ORDER BY h.created_at DESC, h.id DESC`,
+      [copyId]
+    );
+    return rows;
+  }
+
+  /**
+   * Record the condition a copy was found in
+   */
+  async addConditionEntry(
+    copyId: number,
+    condition: CopyCondition,
+    details: { loanId?: number | null; note?: string | null; userId?: number | null },
+    client?: PoolClient
+  ): Promise<CopyConditionEntry> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<CopyConditionEntry>(
+      `INSERT INTO copy_condition_history (copy_id, loan_id, condition, note, recorded_by)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [copyId, details.loanId ?? null, condition, details.note ?? null, details.userId ?? null]
+    );
+    return rows[0];
+  }
+}
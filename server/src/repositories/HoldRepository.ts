@@ -0,0 +1,231 @@
+/**
+ * Hold Repository - Database operations for holds (reservations)
+ */
+
+import { PoolClient } from 'pg';
+import { BaseRepository, PaginatedResult, PaginationOptions } from './BaseRepository';
+import { Hold, HoldStatus, HoldWithDetails } from '../types/hold';
+
+export interface HoldSearchOptions extends PaginationOptions {
+  bookId?: number;
+  memberId?: number;
+  status?: HoldStatus | 'active';
+}
+
+/**
+ * Queue position among the active holds of the same book.
+ * Ready holds sort first, then waiting holds in FIFO order.
+ */
+const QUEUE_POSITION_SQL = `CASE WHEN h.status IN ('waiting', 'ready') THEN (
+    SELECT COUNT(*)::integer FROM holds q
+    WHERE q.book_id = h.book_id
+    AND q.status IN ('waiting', 'ready')
+    AND (
+      (q.status = 'ready' AND h.status = 'waiting')
+      OR (q.status = h.status AND (q.created_at < h.created_at OR (q.created_at = h.created_at AND q.id <= h.id)))
+    )
+  ) END`;
+
+export class HoldRepository extends BaseRepository<Hold> {
+  protected tableName = 'holds';
+
+  /**
+   * Search holds with filters and pagination
+   */
+  async search(options: HoldSearchOptions, client?: PoolClient): Promise<PaginatedResult<HoldWithDetails>> {
+    const executor = client || this.pool;
+    const { page, limit, bookId, memberId, status } = options;
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+    let paramCount = 0;
+
+    if (bookId) {
+      paramCount++;
+      conditions.push(`h.book_id = $${paramCount}`);
+      params.push(bookId);
+    }
+
+    if (memberId) {
+      paramCount++;
+      conditions.push(`h.member_id = $${paramCount}`);
+      params.push(memberId);
+    }
+
+    // Status filter ('active' covers both queued and on-shelf holds)
+    if (status === 'active') {
+      conditions.push(`h.status IN ('waiting', 'ready')`);
+    } else if (status) {
+      paramCount++;
+      conditions.push(`h.status = $${paramCount}`);
+      params.push(status);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    // Count total
+    const countResult = await executor.query<{ count: string }>(
+      `SELECT COUNT(*)::integer as count FROM holds h ${whereClause}`,
+      params
+    );
+    const total = parseInt(countResult.rows[0].count, 10);
+
+    // Get paginated results
+    const offset = (page - 1) * limit;
+    paramCount++;
+    params.push(limit);
+    paramCount++;
+    params.push(offset);
+
+    const { rows } = await executor.query<HoldWithDetails>(
+      `SELECT h.*,
+        b.title as book_title,
+        m.name as member_name,
+        ${QUEUE_POSITION_SQL} as queue_position
+       FROM holds h
+       JOIN books b ON h.book_id = b.id
+       JOIN members m ON h.member_id = m.id
+       ${whereClause}
+       ORDER BY h.created_at DESC
+       LIMIT $${paramCount - 1} OFFSET $${paramCount}`,
+      params
+    );
+
+    return {
+      data: rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Get the active queue (ready + waiting holds) for a book, in pickup order
+   */
+  async findQueueByBookId(bookId: number, client?: PoolClient): Promise<HoldWithDetails[]> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<HoldWithDetails>(
+      `SELECT h.*,
+        b.title as book_title,
+        m.name as member_name,
+        ${QUEUE_POSITION_SQL} as queue_position
+       FROM holds h
+       JOIN books b ON h.book_id = b.id
+       JOIN members m ON h.member_id = m.id
+       WHERE h.book_id = $1
+       AND h.status IN ('waiting', 'ready')
+       ORDER BY queue_position ASC`,
+      [bookId]
+    );
+    return rows;
+  }
+
+  /**
+   * Find a member's active (waiting or ready) hold on a book
+   */
+  async findActiveHold(bookId: number, memberId: number, client?: PoolClient): Promise<Hold | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Hold>(
+      `SELECT * FROM holds
+       WHERE book_id = $1 AND member_id = $2 AND status IN ('waiting', 'ready')`,
+      [bookId, memberId]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Check whether members other than the given one have active holds on a book
+   */
+  async hasActiveHoldsByOthers(bookId: number, memberId: number, client?: PoolClient): Promise<boolean> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<{ exists: boolean }>(
+      `SELECT EXISTS (
+         SELECT 1 FROM holds
+         WHERE book_id = $1 AND member_id <> $2 AND status IN ('waiting', 'ready')
+       ) AS exists`,
+      [bookId, memberId]
+    );
+    return rows[0]?.exists ?? false;
+  }
+
+  /**
+   * Find a hold currently occupying the hold shelf for a book
+   */
+  async findReadyHoldByBookId(bookId: number, client?: PoolClient): Promise<Hold | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Hold>(
+      `SELECT * FROM holds WHERE book_id = $1 AND status = 'ready' LIMIT 1`,
+      [bookId]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Find the hold shelf reservation of a book for a member
+   */
+  async findReadyHold(bookId: number, memberId: number, client?: PoolClient): Promise<Hold | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Hold>(
+      `SELECT * FROM holds WHERE book_id = $1 AND member_id = $2 AND status = 'ready'`,
+      [bookId, memberId]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Find the oldest waiting hold for a book (head of the FIFO queue)
+   */
+  async findNextWaitingHold(bookId: number, client?: PoolClient): Promise<Hold | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Hold>(
+      `SELECT * FROM holds
+       WHERE book_id = $1 AND status = 'waiting'
+       ORDER BY created_at ASC, id ASC
+       LIMIT 1`,
+      [bookId]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Find ready holds whose pickup window has passed
+   */
+  async findExpiredReadyHolds(client?: PoolClient): Promise<Hold[]> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Hold>(
+      `SELECT * FROM holds
+       WHERE status = 'ready' AND expires_at < CURRENT_TIMESTAMP
+       ORDER BY expires_at ASC`
+    );
+    return rows;
+  }
+
+  /**
+   * Move a hold to the hold shelf with the copy set aside and a pickup deadline
+   */
+  async markReady(id: number, copyId: number, expiresAt: Date, client?: PoolClient): Promise<Hold | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Hold>(
+      `UPDATE holds SET status = 'ready', copy_id = $2, ready_at = CURRENT_TIMESTAMP, expires_at = $3
+       WHERE id = $1 RETURNING *`,
+      [id, copyId, expiresAt]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Close a hold with a terminal status
+   */
+  async close(id: number, status: Extract<HoldStatus, 'fulfilled' | 'expired' | 'cancelled'>, client?: PoolClient): Promise<Hold | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Hold>(
+      `UPDATE holds SET status = $2, closed_at = CURRENT_TIMESTAMP
+       WHERE id = $1 RETURNING *`,
+      [id, status]
+    );
+    return rows[0] || null;
+  }
+}
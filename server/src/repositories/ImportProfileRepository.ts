@@ -0,0 +1,49 @@
+/**
+ * Import Profile Repository - Database operations for saved import mappings
+ */
+
+import { PoolClient } from 'pg';
+import { BaseRepository } from './BaseRepository';
+import { ImportKind, ImportProfile, ImportProfileInput } from '../types/import';
+
+export class ImportProfileRepository extends BaseRepository<ImportProfile> {
+  protected tableName = 'import_profiles';
+
+  async findAllByKind(kind: ImportKind, client?: PoolClient): Promise<ImportProfile[]> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<ImportProfile>(
+      'SELECT * FROM import_profiles WHERE kind = $1 ORDER BY name ASC',
+      [kind]
+    );
+    return rows;
+  }
+
+  async findByKind(kind: ImportKind, id: number, client?: PoolClient): Promise<ImportProfile | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<ImportProfile>(
+      'SELECT * FROM import_profiles WHERE id = $1 AND kind = $2',
+      [id, kind]
+    );
+    return rows[0] || null;
+  }
+
+  async createProfile(kind: ImportKind, input: ImportProfileInput, createdBy: number | null, client?: PoolClient): Promise<ImportProfile> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<ImportProfile>(
+      `INSERT INTO import_profiles (kind, name, mapping, mode, created_by)
+       VALUES ($1, $2, $3::jsonb, $4, $5) RETURNING *`,
+      [kind, input.name, JSON.stringify(input.mapping), input.mode, createdBy]
+    );
+    return rows[0];
+  }
+
+  async updateProfile(id: number, input: ImportProfileInput, client?: PoolClient): Promise<ImportProfile | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<ImportProfile>(
+      `UPDATE import_profiles SET name = $2, mapping = $3::jsonb, mode = $4, updated_at = NOW()
+       WHERE id = $1 RETURNING *`,
+      [id, input.name, JSON.stringify(input.mapping), input.mode]
+    );
+    return rows[0] || null;
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * Import Repository - Database operations for bulk imports and their rows
+ */
+
+import { PoolClient } from 'pg';
+import { BaseRepository, PaginatedResult, PaginationOptions } from './BaseRepository';
+import {
+  Import,
+  ImportFieldError,
+  ImportKind,
+  ImportOptions,
+  ImportRecord,
+  ImportRow,
+  ImportRowAction,
+  ImportRowPlan,
+  ImportRowStatus,
+  ImportSource,
+} from '../types/import';
+
+export interface ImportRowSearchOptions extends PaginationOptions {
+  action?: ImportRowAction;
+}
+
+export interface NewImport {
+  kind: ImportKind;
+  source: ImportSource;
+  filename: string | null;
+  columns: string[];
+  createdBy: number | null;
+}
+
+export interface PlannedRow {
+  rowNumber: number;
+  data: ImportRecord;
+  readErrors: ImportFieldError[];
+  plan: ImportRowPlan;
+}
+
+// Rows written per INSERT when a preview is saved
+const ROW_INSERT_BATCH_SIZE = 200;
+
+export class ImportRepository extends BaseRepository<Import> {
+  protected tableName = 'imports';
+
+  async createImport(input: NewImport, client?: PoolClient): Promise<Import> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Import>(
+      `INSERT INTO imports (kind, source, filename, columns, created_by)
+       VALUES ($1, $2, $3, $4::jsonb, $5)
+       RETURNING *`,
+      [input.kind, input.source, input.filename, JSON.stringify(input.columns), input.createdBy]
+    );
+    return rows[0];
+  }
+
+  /**
+   * Save the mapping, mode and plan of a preview, replacing any earlier
+   * plan. Only rows to create or update are left pending; unchanged and
+   * rejected rows are saved as skipped. Must run in a transaction.
+   */
+  async savePlan(importId: number, options: ImportOptions, planned: PlannedRow[], client: PoolClient): Promise<Import> {
+    const countOf = (action: ImportRowAction) => planned.filter(row => row.plan.action === action).length;
+
+    await client.query('DELETE FROM import_rows WHERE import_id = $1', [importId]);
+
+    for (let start = 0; start < planned.length; start += ROW_INSERT_BATCH_SIZE) {
+      const batch = planned.slice(start, start + ROW_INSERT_BATCH_SIZE);
+      const params: any[] = [];
+      const values = batch.map(row => {
+        const pending = row.plan.action === 'create' || row.plan.action === 'update';
+        params.push(
+          importId,
+          row.rowNumber,
+          JSON.stringify(row.data),
+          JSON.stringify(row.readErrors),
+          row.plan.action,
+          JSON.stringify(row.plan.errors),
+          JSON.stringify(row.plan.changes),
+          pending ? 'pending' : 'skipped'
+        );
+        const n = params.length;
+        return `($${n - 7}, $${n - 6}, $${n - 5}::jsonb, $${n - 4}::jsonb, $${n - 3}, $${n - 2}::jsonb, $${n - 1}::jsonb, $${n})`;
+      });
+      await client.query(
+        `INSERT INTO import_rows (import_id, row_number, data, read_errors, action, errors, changes, status) VALUES ${values.join(', ')}`,
+        params
+      );
+    }
+
+    const { rows } = await client.query<Import>(
+      `UPDATE imports SET
+         mapping = $2::jsonb,
+         mode = $3,
+         total_rows = $4,
+         create_rows = $5,
+         update_rows = $6,
+         unchanged_rows = $7,
+         duplicate_rows = $8,
+         invalid_rows = $9
+       WHERE id = $1
+       RETURNING *`,
+      [
+        importId,
+        JSON.stringify(options.mapping),
+        options.mode,
+        planned.length,
+        countOf('create'),
+        countOf('update'),
+        countOf('unchanged'),
+        countOf('duplicate'),
+        countOf('invalid'),
+      ]
+    );
+    return rows[0];
+  }
+
+  /**
+   * Find an import of the given kind
+   */
+  async findByKind(kind: ImportKind, id: number, client?: PoolClient): Promise<Import | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Import>('SELECT * FROM imports WHERE id = $1 AND kind = $2', [id, kind]);
+    return rows[0] || null;
+  }
+
+  /**
+   * Queue a previewed import. Returns null if it is not awaiting confirmation.
+   */
+  async markQueued(id: number, client?: PoolClient): Promise<Import | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Import>(
+      "UPDATE imports SET status = 'queued' WHERE id = $1 AND status = 'previewed' RETURNING *",
+      [id]
+    );
+    return rows[0] || null;
+  }
+
+  async setJob(id: number, jobId: number, client?: PoolClient): Promise<Import | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Import>(
+      'UPDATE imports SET job_id = $2 WHERE id = $1 RETURNING *',
+      [id, jobId]
+    );
+    return rows[0] || null;
+  }
+
+  async markRunning(id: number, client?: PoolClient): Promise<Import | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Import>(
+      `UPDATE imports SET status = 'running', error = NULL, started_at = COALESCE(started_at, NOW())
+       WHERE id = $1 RETURNING *`,
+      [id]
+    );
+    return rows[0] || null;
+  }
+
+  async markFinished(id: number, status: 'completed' | 'failed', error: string | null, client?: PoolClient): Promise<Import | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Import>(
+      'UPDATE imports SET status = $2, error = $3, finished_at = NOW() WHERE id = $1 RETURNING *',
+      [id, status, error]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * The next rows still to be imported, in file order
+   */
+  async findPendingRows(importId: number, limit: number, client?: PoolClient): Promise<ImportRow[]> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<ImportRow>(
+      `SELECT * FROM import_rows
+       WHERE import_id = $1 AND status = 'pending'
+       ORDER BY row_number ASC
+       LIMIT $2`,
+      [importId, limit]
+    );
+    return rows;
+  }
+
+  /**
+   * All of an import's rows, in file order
+   */
+  async findAllRows(importId: number, client?: PoolClient): Promise<ImportRow[]> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<ImportRow>(
+      'SELECT * FROM import_rows WHERE import_id = $1 ORDER BY row_number ASC',
+      [importId]
+    );
+    return rows;
+  }
+
+  /**
+   * Record a row's outcome and count it towards the import's progress
+   */
+  async recordRowOutcome(
+    row: ImportRow,
+    status: Exclude<ImportRowStatus, 'pending' | 'skipped'>,
+    outcome: { created?: boolean; updated?: boolean; errors?: ImportFieldError[] },
+    client?: PoolClient
+  ): Promise<void> {
+    const executor = client || this.pool;
+    await executor.query(
+      'UPDATE import_rows SET status = $2, errors = $3::jsonb WHERE id = $1',
+      [row.id, status, JSON.stringify(outcome.errors ?? row.errors)]
+    );
+    await executor.query(
+      `UPDATE imports SET
+         processed_rows = processed_rows + 1,
+         created_count = created_count + $2,
+         updated_count = updated_count + $3,
+         failed_count = failed_count + $4
+       WHERE id = $1`,
+      [row.import_id, outcome.created ? 1 : 0, outcome.updated ? 1 : 0, status === 'failed' ? 1 : 0]
+    );
+  }
+
+  /**
+   * Page through an import's rows in file order
+   */
+  async searchRows(importId: number, options: ImportRowSearchOptions, client?: PoolClient): Promise<PaginatedResult<ImportRow>> {
+    const executor = client || this.pool;
+    const { page, limit, action } = options;
+    const offset = (page - 1) * limit;
+
+    const conditions = ['import_id = $1'];
+    const params: any[] = [importId];
+    if (action) {
+      params.push(action);
+      conditions.push(`action = $${params.length}`);
+    }
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+    const { rows: countRows } = await executor.query<{ count: string }>(
+      `SELECT COUNT(*) AS count FROM import_rows ${whereClause}`,
+      params
+    );
+    const total = parseInt(countRows[0].count, 10);
+
+    const { rows } = await executor.query<ImportRow>(
+      `SELECT * FROM import_rows ${whereClause}
+       ORDER BY row_number ASC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+
+    return {
+      data: rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Rows the preview rejected or that failed to import, in file order
+   */
+  async findRejectedRows(importId: number, client?: PoolClient): Promise<ImportRow[]> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<ImportRow>(
+      `SELECT * FROM import_rows
+       WHERE import_id = $1 AND (status = 'failed' OR action IN ('duplicate', 'invalid'))
+       ORDER BY row_number ASC`,
+      [importId]
+    );
+    return rows;
+  }
+
+  /**
+   * Delete imports created before a date that are not queued or running
+   */
+  async deleteFinishedBefore(createdBefore: Date, client?: PoolClient): Promise<number> {
+    const executor = client || this.pool;
+    const { rowCount } = await executor.query(
+      "DELETE FROM imports WHERE status IN ('previewed', 'completed', 'failed') AND created_at < $1",
+      [createdBefore]
+    );
+    return rowCount || 0;
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Job Repository - Database operations for the background job queue
+ */
+
+import { PoolClient } from 'pg';
+import { BaseRepository, PaginatedResult, PaginationOptions } from './BaseRepository';
+import { Job, JobEnqueueOptions, JobStatus, JobType } from '../types/job';
+
+export interface JobSearchOptions extends PaginationOptions {
+  status?: JobStatus;
+  type?: string;
+}
+
+export class JobRepository extends BaseRepository<Job> {
+  protected tableName = 'jobs';
+
+  /**
+   * Queue a job. Returns null if a job with the same dedupe key exists, in
+   * any status: a key stays taken after its job finishes, until the job is deleted.
+   */
+  async enqueue(type: JobType, payload: Record<string, any>, options: JobEnqueueOptions = {}, client?: PoolClient): Promise<Job | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Job>(
+      `INSERT INTO jobs (type, payload, run_at, max_attempts, dedupe_key)
+       VALUES ($1, $2, COALESCE($3, NOW()), COALESCE($4, 5), $5)
+       ON CONFLICT (dedupe_key) DO NOTHING
+       RETURNING *`,
+      [type, JSON.stringify(payload), options.runAt ?? null, options.maxAttempts ?? null, options.dedupeKey ?? null]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Claim the oldest due pending job for a worker. Rows other workers have
+   * locked are skipped, so concurrent workers each get a different job.
+   * Must run in a transaction.
+   */
+  async claimNext(workerId: string, client: PoolClient): Promise<Job | null> {
+    const { rows: due } = await client.query<{ id: number }>(
+      `SELECT id FROM jobs
+       WHERE status = 'pending' AND run_at <= NOW()
+       ORDER BY run_at ASC, id ASC
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED`
+    );
+    if (due.length === 0) {
+      return null;
+    }
+
+    const { rows } = await client.query<Job>(
+      `UPDATE jobs SET
+         status = 'running',
+         attempts = attempts + 1,
+         locked_by = $2,
+         locked_at = NOW(),
+         started_at = NOW()
+       WHERE id = $1 RETURNING *`,
+      [due[0].id, workerId]
+    );
+    return rows[0] || null;
+  }
+
+  async markSucceeded(id: number, result: Record<string, any> | null, client?: PoolClient): Promise<Job | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Job>(
+      `UPDATE jobs SET status = 'succeeded', result = $2::jsonb, last_error = NULL,
+         locked_by = NULL, locked_at = NULL, finished_at = NOW()
+       WHERE id = $1 RETURNING *`,
+      [id, result === null ? null : JSON.stringify(result)]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Record a failed attempt: the job runs again at retryAt, or is dead if retryAt is null
+   */
+  async markFailed(id: number, error: string, retryAt: Date | null, client?: PoolClient): Promise<Job | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Job>(
+      `UPDATE jobs SET
+         status = CASE WHEN $3::timestamptz IS NULL THEN 'dead' ELSE 'pending' END,
+         run_at = COALESCE($3, run_at),
+         last_error = $2,
+         locked_by = NULL,
+         locked_at = NULL,
+         finished_at = CASE WHEN $3::timestamptz IS NULL THEN NOW() ELSE NULL END
+       WHERE id = $1 RETURNING *`,
+      [id, error, retryAt]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Renew a running job's lock for the worker holding it. Returns false if
+   * the worker no longer holds it.
+   */
+  async renewLock(id: number, workerId: string, client?: PoolClient): Promise<boolean> {
+    const executor = client || this.pool;
+    const { rowCount } = await executor.query(
+      "UPDATE jobs SET locked_at = NOW() WHERE id = $1 AND locked_by = $2 AND status = 'running'",
+      [id, workerId]
+    );
+    return (rowCount || 0) > 0;
+  }
+
+  /**
+   * Put back jobs whose lock has not been renewed since lockedBefore, whose
+   * worker is assumed to have stopped. Jobs out of attempts are marked dead.
+   */
+  async releaseStale(lockedBefore: Date, client?: PoolClient): Promise<number> {
+    const executor = client || this.pool;
+    const { rowCount } = await executor.query(
+      `UPDATE jobs SET
+         status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'pending' END,
+         last_error = 'Worker stopped before the job finished',
+         locked_by = NULL,
+         locked_at = NULL,
+         finished_at = CASE WHEN attempts >= max_attempts THEN NOW() ELSE NULL END
+       WHERE status = 'running' AND locked_at < $1`,
+      [lockedBefore]
+    );
+    return rowCount || 0;
+  }
+
+  /**
+   * Queue a dead job to run again straight away, with a fresh set of attempts
+   */
+  async requeueDead(id: number, client?: PoolClient): Promise<Job | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Job>(
+      `UPDATE jobs SET status = 'pending', attempts = 0, run_at = NOW(), finished_at = NULL
+       WHERE id = $1 AND status = 'dead' RETURNING *`,
+      [id]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Delete a job that is not running
+   */
+  async deleteUnlessRunning(id: number, client?: PoolClient): Promise<boolean> {
+    const executor = client || this.pool;
+    const { rowCount } = await executor.query(
+      "DELETE FROM jobs WHERE id = $1 AND status <> 'running'",
+      [id]
+    );
+    return (rowCount || 0) > 0;
+  }
+
+  /**
+   * Delete succeeded jobs that finished before a cut-off
+   */
+  async deleteSucceededBefore(finishedBefore: Date, client?: PoolClient): Promise<number> {
+    const executor = client || this.pool;
+    const { rowCount } = await executor.query(
+      "DELETE FROM jobs WHERE status = 'succeeded' AND finished_at < $1",
+      [finishedBefore]
+    );
+    return rowCount || 0;
+  }
+
+  async countByStatus(client?: PoolClient): Promise<Partial<Record<JobStatus, number>>> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<{ status: JobStatus; count: string }>(
+      'SELECT status, COUNT(*)::integer as count FROM jobs GROUP BY status'
+    );
+    return Object.fromEntries(rows.map(row => [row.status, parseInt(row.count, 10)]));
+  }
+
+  async findLatestByType(type: JobType, client?: PoolClient): Promise<Job | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Job>(
+      'SELECT * FROM jobs WHERE type = $1 ORDER BY created_at DESC, id DESC LIMIT 1',
+      [type]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Search jobs, newest first
+   */
+  async search(options: JobSearchOptions, client?: PoolClient): Promise<PaginatedResult<Job>> {
+    const executor = client || this.pool;
+    const { page, limit, status, type } = options;
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (status) {
+      conditions.push(`status = $${params.push(status)}`);
+    }
+    if (type) {
+      conditions.push(`type = $${params.push(type)}`);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await executor.query<{ count: string }>(
+      `SELECT COUNT(*)::integer as count FROM jobs ${whereClause}`,
+      params
+    );
+    const total = parseInt(countResult.rows[0].count, 10);
+
+    const offset = (page - 1) * limit;
+    const { rows } = await executor.query<Job>(
+      `SELECT * FROM jobs
+       ${whereClause}
+       ORDER BY created_at DESC, id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+
+    return {
+      data: rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Take or renew a named lease. Succeeds if nobody holds it, the holder's
+   * lease has expired, or the caller already holds it.
+   */
+  async acquireLeaderLock(name: string, holder: string, expiresAt: Date, client?: PoolClient): Promise<boolean> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<{ holder: string }>(
+      `INSERT INTO job_leader_locks (name, holder, expires_at)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (name) DO UPDATE SET holder = EXCLUDED.holder, expires_at = EXCLUDED.expires_at
+       WHERE job_leader_locks.holder = EXCLUDED.holder OR job_leader_locks.expires_at < NOW()
+       RETURNING holder`,
+      [name, holder, expiresAt]
+    );
+    return rows.length > 0 && rows[0].holder === holder;
+  }
+
+  async releaseLeaderLock(name: string, holder: string, client?: PoolClient): Promise<void> {
+    const executor = client || this.pool;
+    await executor.query(
+      'DELETE FROM job_leader_locks WHERE name = $1 AND holder = $2',
+      [name, holder]
+    );
+  }
+
+  async findLeaderLock(name: string, client?: PoolClient): Promise<{ holder: string; expires_at: Date } | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<{ holder: string; expires_at: Date }>(
+      'SELECT holder, expires_at FROM job_leader_locks WHERE name = $1 AND expires_at > NOW()',
+      [name]
+    );
+    return rows[0] || null;
+  }
+}
@@ -4,25 +4,35 @@
 
 import { PoolClient } from 'pg';
 import { BaseRepository, PaginatedResult, PaginationOptions } from './BaseRepository';
+import { LoanOutcome, LoanRenewal } from '../types/loan';
 
 export interface Loan {
   id: number;
   book_id: number;
+  copy_id: number;
   member_id: number;
   borrow_date: Date;
   due_date: Date;
   return_date?: Date;
+  outcome?: LoanOutcome | null;
+  outcome_note?: string | null;
+  renewal_count: number;
+  loan_period_days: number;
+  max_renewals: number;
+  grace_days: number;
   created_at: Date;
 }
 
 export interface LoanSearchOptions extends PaginationOptions {
   search?: string;
   status?: 'active' | 'returned' | 'overdue';
+  outcome?: LoanOutcome;
 }
 
 export interface LoanWithDetails extends Loan {
   book_title: string;
   book_author: string;
+  copy_barcode: string | null;
   member_name: string;
   member_email: string;
 }
@@ -35,7 +45,7 @@ export class LoanRepository extends BaseRepository<Loan> {
    */
   async search(options: LoanSearchOptions, client?: PoolClient): Promise<PaginatedResult<LoanWithDetails>> {
     const executor = client || this.pool;
-    const { page, limit, search, status } = options;
+    const { page, limit, search, status, outcome } = options;
 
     const conditions: string[] = [];
     const params: any[] = [];
@@ -57,6 +67,13 @@ export class LoanRepository extends BaseRepository<Loan> {
       conditions.push('l.return_date IS NULL AND l.due_date < CURRENT_TIMESTAMP');
     }
 
+    // Outcome filter (how closed loans ended)
+    if (outcome) {
+      paramCount++;
+      conditions.push(`l.outcome = $${paramCount}`);
+      params.push(outcome);
+    }
+
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
     // Count total
@@ -81,10 +98,12 @@ export class LoanRepository extends BaseRepository<Loan> {
       `SELECT l.*,
         b.title as book_title,
         b.author as book_author,
+        c.barcode as copy_barcode,
         m.name as member_name,
         m.email as member_email
        FROM loans l
        JOIN books b ON l.book_id = b.id
+       JOIN copies c ON l.copy_id = c.id
        JOIN members m ON l.member_id = m.id
        ${whereClause}
        ORDER BY l.borrow_date DESC
@@ -104,14 +123,110 @@ export class LoanRepository extends BaseRepository<Loan> {
   }
 
   /**
-   * Find active loan for a book
+   * Find the active loans of a book, one per copy on loan
    */
-  async findActiveLoanByBookId(bookId: number, client?: PoolClient): Promise<Loan | null> {
+  async findActiveLoansByBookId(bookId: number, client?: PoolClient): Promise<Loan[]> {
     const executor = client || this.pool;
     const { rows } = await executor.query<Loan>(
-      'SELECT * FROM loans WHERE book_id = $1 AND return_date IS NULL',
+      'SELECT * FROM loans WHERE book_id = $1 AND return_date IS NULL ORDER BY borrow_date DESC',
       [bookId]
     );
+    return rows;
+  }
+
+  /**
+   * Find the active loan of a copy
+   */
+  async findActiveLoanByCopyId(copyId: number, client?: PoolClient): Promise<Loan | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Loan>(
+      'SELECT * FROM loans WHERE copy_id = $1 AND return_date IS NULL',
+      [copyId]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Find a member's active loan of any copy of a book
+   */
+  async findActiveLoanForMember(bookId: number, memberId: number, client?: PoolClient): Promise<Loan | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Loan>(
+      'SELECT * FROM loans WHERE book_id = $1 AND member_id = $2 AND return_date IS NULL',
+      [bookId, memberId]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Count a member's loans that have not been returned
+   */
+  async countActiveLoansByMemberId(memberId: number, client?: PoolClient): Promise<number> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<{ count: string }>(
+      'SELECT COUNT(*)::integer as count FROM loans WHERE member_id = $1 AND return_date IS NULL',
+      [memberId]
+    );
+    return parseInt(rows[0].count, 10);
+  }
+
+  /**
+   * Push a loan's due date forward and count the renewal
+   */
+  async renew(id: number, newDueDate: Date, client?: PoolClient): Promise<Loan | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Loan>(
+      `UPDATE loans SET due_date = $2, renewal_count = renewal_count + 1
+       WHERE id = $1 RETURNING *`,
+      [id, newDueDate]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Record a renewal in the loan's history
+   */
+  async createRenewal(loanId: number, previousDueDate: Date, newDueDate: Date, client?: PoolClient): Promise<LoanRenewal> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<LoanRenewal>(
+      `INSERT INTO loan_renewals (loan_id, previous_due_date, new_due_date)
+       VALUES ($1, $2, $3) RETURNING *`,
+      [loanId, previousDueDate, newDueDate]
+    );
+    return rows[0];
+  }
+
+  /**
+   * Get the renewal history of a loan, oldest first
+   */
+  async findRenewalsByLoanId(loanId: number, client?: PoolClient): Promise<LoanRenewal[]> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<LoanRenewal>(
+      'SELECT * FROM loan_renewals WHERE loan_id = $1 ORDER BY renewed_at ASC, id ASC',
+      [loanId]
+    );
+    return rows;
+  }
+
+  /**
+   * Get a loan with its book, copy and member
+   */
+  async findByIdWithDetails(id: number, client?: PoolClient): Promise<LoanWithDetails | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<LoanWithDetails>(
+      `SELECT l.*,
+        b.title as book_title,
+        b.author as book_author,
+        c.barcode as copy_barcode,
+        m.name as member_name,
+        m.email as member_email
+       FROM loans l
+       JOIN books b ON l.book_id = b.id
+       JOIN copies c ON l.copy_id = c.id
+       JOIN members m ON l.member_id = m.id
+       WHERE l.id = $1`,
+      [id]
+    );
     return rows[0] || null;
   }
 
@@ -124,10 +239,12 @@ export class LoanRepository extends BaseRepository<Loan> {
       `SELECT l.*,
         b.title as book_title,
         b.author as book_author,
+        c.barcode as copy_barcode,
         m.name as member_name,
         m.email as member_email
        FROM loans l
        JOIN books b ON l.book_id = b.id
+       JOIN copies c ON l.copy_id = c.id
        JOIN members m ON l.member_id = m.id
        WHERE l.return_date IS NULL
        AND l.due_date < CURRENT_TIMESTAMP
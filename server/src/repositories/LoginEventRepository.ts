@@ -0,0 +1,26 @@
+/**
+ * Login Event Repository - Database operations for the login history
+ */
+
+import { PoolClient } from 'pg';
+import { BaseRepository } from './BaseRepository';
+import { LoginEvent } from '../types/loginEvent';
+
+export class LoginEventRepository extends BaseRepository<LoginEvent> {
+  protected tableName = 'login_events';
+
+  /**
+   * Get a user's most recent login attempts, newest first
+   */
+  async findRecentByUserId(userId: number, limit: number, client?: PoolClient): Promise<LoginEvent[]> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<LoginEvent>(
+      `SELECT * FROM login_events
+       WHERE user_id = $1
+       ORDER BY created_at DESC, id DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+    return rows;
+  }
+}
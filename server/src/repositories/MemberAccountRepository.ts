@@ -0,0 +1,110 @@
+/**
+ * Member Account Repository - Database operations for the fines ledger
+ */
+
+import { PoolClient } from 'pg';
+import { BaseRepository, PaginatedResult, PaginationOptions } from './BaseRepository';
+import { AccountEntry, AccountEntryInput } from '../types/account';
+
+/**
+ * NUMERIC columns come back from pg as strings; cast them for the API
+ */
+const ENTRY_COLUMNS = `id, member_id, loan_id, type,
+  amount::float8 AS amount,
+  balance_after::float8 AS balance_after,
+  description, created_by, created_at`;
+
+export class MemberAccountRepository extends BaseRepository<AccountEntry> {
+  protected tableName = 'member_account_entries';
+
+  /**
+   * Get a member's ledger entries, newest first
+   */
+  async findByMemberId(memberId: number, options: PaginationOptions, client?: PoolClient): Promise<PaginatedResult<AccountEntry>> {
+    const executor = client || this.pool;
+    const { page, limit } = options;
+
+    const countResult = await executor.query<{ count: string }>(
+      'SELECT COUNT(*)::integer as count FROM member_account_entries WHERE member_id = $1',
+      [memberId]
+    );
+    const total = parseInt(countResult.rows[0].count, 10);
+
+    const offset = (page - 1) * limit;
+    const { rows } = await executor.query<AccountEntry>(
+      `SELECT ${ENTRY_COLUMNS} FROM member_account_entries
+       WHERE member_id = $1
+       ORDER BY created_at DESC, id DESC
+       LIMIT $2 OFFSET $3`,
+      [memberId, limit, offset]
+    );
+
+    return {
+      data: rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Get a member's outstanding balance
+   */
+  async getBalance(memberId: number, client?: PoolClient): Promise<number> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<{ balance: number }>(
+      'SELECT COALESCE(SUM(amount), 0)::float8 AS balance FROM member_account_entries WHERE member_id = $1',
+      [memberId]
+    );
+    return Number(rows[0]?.balance ?? 0);
+  }
+
+  /**
+   * Get the total overdue fines already posted for a loan
+   */
+  async getFinesForLoan(loanId: number, client?: PoolClient): Promise<number> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<{ total: number }>(
+      `SELECT COALESCE(SUM(amount), 0)::float8 AS total FROM member_account_entries
+       WHERE loan_id = $1 AND type = 'fine'`,
+      [loanId]
+    );
+    return Number(rows[0]?.total ?? 0);
+  }
+
+  /**
+   * Lock the member row so ledger entries for the member are serialised.
+   * Returns false if the member does not exist.
+   */
+  async lockMember(memberId: number, client: PoolClient): Promise<boolean> {
+    const { rows } = await client.query(
+      'SELECT id FROM members WHERE id = $1 FOR UPDATE',
+      [memberId]
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Append an entry with its running balance. The caller must hold the member lock.
+   */
+  async addEntry(data: AccountEntryInput, balanceAfter: number, client: PoolClient): Promise<AccountEntry> {
+    const { rows } = await client.query<AccountEntry>(
+      `INSERT INTO member_account_entries (member_id, loan_id, type, amount, balance_after, description, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING ${ENTRY_COLUMNS}`,
+      [
+        data.member_id,
+        data.loan_id ?? null,
+        data.type,
+        data.amount,
+        balanceAfter,
+        data.description ?? null,
+        data.created_by ?? null
+      ]
+    );
+    return rows[0];
+  }
+}
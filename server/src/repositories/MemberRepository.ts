@@ -4,16 +4,33 @@
 
 import { PoolClient } from 'pg';
 import { BaseRepository, PaginatedResult, PaginationOptions } from './BaseRepository';
+import { correctSearch, searchWords, SimilarWords, similarWordsSql, toSimilarWords, toTsQuery } from '../utils/textSearch';
 
 export interface Member {
   id: number;
   name: string;
   email: string;
-  phone?: string;
+  phone?: string | null;
+  barcode?: string | null;
+  member_type: string;
   created_at: Date;
   updated_at?: Date;
 }
 
+/**
+ * Full-text search over members aliased as m, for a query from toTsQuery() in
+ * the given parameter: the join to the members' search vectors (aliased as
+ * ms), the condition a member must meet and their rank
+ */
+export const memberSearchSql = (param: string): { join: string; condition: string; rank: string } => {
+  const tsquery = `to_tsquery('simple', ${param})`;
+  return {
+    join: 'JOIN member_search_vectors ms ON ms.member_id = m.id',
+    condition: `ms.search_vector @@ ${tsquery}`,
+    rank: `ts_rank(ms.search_vector, ${tsquery})`,
+  };
+};
+
 export interface MemberSearchOptions extends PaginationOptions {
   search?: string;
   sortBy?: string;
@@ -24,36 +41,61 @@ export class MemberRepository extends BaseRepository<Member> {
   protected tableName = 'members';
 
   /**
-   * Search members with filters and pagination
+   * Search members with filters and pagination. Every word of a search
+   * matches the start of a word of a member's name, email, phone or
+   * barcode, and results are sorted by relevance unless another order is
+   * asked for. A search with no hits is run again with the words similar to
+   * its words, and the corrected search is returned as didYouMean if that
+   * finds members.
    */
-  async search(options: MemberSearchOptions, client?: PoolClient): Promise<PaginatedResult<Member>> {
+  async search(options: MemberSearchOptions, client?: PoolClient): Promise<PaginatedResult<Member> & { didYouMean?: string }> {
     const executor = client || this.pool;
-    const { page, limit, search, sortBy = 'name', sortOrder = 'asc' } = options;
+    const { page, limit, search, sortOrder = 'asc' } = options;
 
     const conditions: string[] = [];
     const params: any[] = [];
     let paramCount = 0;
 
     // Search filter
-    if (search) {
+    const tsquery = search ? toTsQuery(search, { prefixes: true }) : null;
+    let searchSql: ReturnType<typeof memberSearchSql> | null = null;
+    if (tsquery) {
       paramCount++;
-      conditions.push(`(name ILIKE $${paramCount} OR email ILIKE $${paramCount} OR phone ILIKE $${paramCount})`);
-      params.push(`%${search}%`);
+      searchSql = memberSearchSql(`$${paramCount}`);
+      conditions.push(searchSql.condition);
+      params.push(tsquery);
     }
 
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
     // Count total
-    const countResult = await executor.query<{ count: string }>(
-      `SELECT COUNT(*)::integer as count FROM members ${whereClause}`,
-      params
-    );
-    const total = parseInt(countResult.rows[0].count, 10);
+    const countMembers = async () => {
+      const countResult = await executor.query<{ count: string }>(
+        `SELECT COUNT(*)::integer as count FROM members m ${searchSql?.join ?? ''} ${whereClause}`,
+        params
+      );
+      return parseInt(countResult.rows[0].count, 10);
+    };
+    let total = await countMembers();
+
+    // Fall back to similar words for a search with no hits
+    let didYouMean: string | undefined;
+    if (search && searchSql && total === 0) {
+      const similarWords = await this.findSimilarWords(searchWords(search), client);
+      if (similarWords.size > 0) {
+        params[0] = toTsQuery(search, { prefixes: true, similarWords });
+        total = await countMembers();
+        didYouMean = total > 0 ? correctSearch(search, similarWords) : undefined;
+      }
+    }
 
     // Get paginated results
     const validSortColumns = ['name', 'email', 'created_at'];
-    const column = validSortColumns.includes(sortBy) ? sortBy : 'name';
+    const sortBy = options.sortBy ?? (searchSql ? 'relevance' : 'name');
     const order = sortOrder === 'desc' ? 'DESC' : 'ASC';
+    const orderBy = sortBy === 'relevance' && searchSql
+      ? `${searchSql.rank} DESC, m.name ASC`
+      : `m.${validSortColumns.includes(sortBy) ? sortBy : 'name'} ${order}`;
 
     const offset = (page - 1) * limit;
     paramCount++;
@@ -62,7 +104,8 @@ export class MemberRepository extends BaseRepository<Member> {
     params.push(offset);
 
     const { rows } = await executor.query<Member>(
-      `SELECT * FROM members ${whereClause} ORDER BY ${column} ${order} LIMIT $${paramCount - 1} OFFSET $${paramCount}`,
+      `SELECT m.* FROM members m ${searchSql?.join ?? ''} ${whereClause}
+       ORDER BY ${orderBy} LIMIT $${paramCount - 1} OFFSET $${paramCount}`,
       params
     );
 
@@ -73,10 +116,27 @@ export class MemberRepository extends BaseRepository<Member> {
         limit,
         total,
         totalPages: Math.ceil(total / limit)
-      }
+      },
+      ...(didYouMean !== undefined && { didYouMean }),
     };
   }
 
+  /**
+   * Words of member names, emails, phone numbers and barcodes similar to
+   * the given words, for those that do not start any of them
+   */
+  async findSimilarWords(words: string[], client?: PoolClient): Promise<SimilarWords> {
+    const executor = client || this.pool;
+    if (words.length === 0) {
+      return new Map();
+    }
+    const { rows } = await executor.query<{ input: string; word: string }>(
+      similarWordsSql('SELECT search_vector FROM member_search_vectors', { prefixes: true }),
+      [words]
+    );
+    return toSimilarWords(rows);
+  }
+
   /**
    * Find member by email
    */
@@ -89,6 +149,30 @@ export class MemberRepository extends BaseRepository<Member> {
     return rows[0] || null;
   }
 
+  /**
+   * Find member by library card barcode
+   */
+  async findByBarcode(barcode: string, client?: PoolClient): Promise<Member | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Member>(
+      'SELECT * FROM members WHERE barcode = $1',
+      [barcode]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Find a member and lock their row until the transaction ends, so
+   * checkouts for the same member are serialised
+   */
+  async findByIdForUpdate(id: number, client: PoolClient): Promise<Member | null> {
+    const { rows } = await client.query<Member>(
+      'SELECT * FROM members WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+    return rows[0] || null;
+  }
+
   /**
    * Bulk create members
    */
@@ -0,0 +1,142 @@
+/**
+ * Notification Repository - Database operations for the record of sent notifications
+ */
+
+import { PoolClient } from 'pg';
+import { BaseRepository, PaginatedResult, PaginationOptions } from './BaseRepository';
+import {
+  LoanNoticeCandidate,
+  Notification,
+  NotificationKind,
+  NotificationStatus,
+  NotificationWithDetails,
+} from '../types/notification';
+
+export interface NotificationSearchOptions extends PaginationOptions {
+  status?: NotificationStatus;
+  kind?: NotificationKind;
+  memberId?: number;
+}
+
+export class NotificationRepository extends BaseRepository<Notification> {
+  protected tableName = 'notifications';
+
+  /**
+   * Find open loans due between after (exclusive, or unbounded when null)
+   * and until (inclusive) that have not had this kind of notice for their
+   * current due date
+   */
+  async findNoticeCandidates(kind: NotificationKind, after: Date | null, until: Date, client?: PoolClient): Promise<LoanNoticeCandidate[]> {
+    const executor = client || this.pool;
+    const params: any[] = [kind, until];
+    const afterCondition = after ? `AND l.due_date > $${params.push(after)}` : '';
+
+    const { rows } = await executor.query<LoanNoticeCandidate>(
+      `SELECT l.id as loan_id,
+        l.member_id,
+        l.due_date,
+        m.name as member_name,
+        m.email as member_email,
+        b.title as book_title,
+        b.author as book_author
+       FROM loans l
+       JOIN members m ON l.member_id = m.id
+       JOIN books b ON l.book_id = b.id
+       LEFT JOIN notifications n ON n.loan_id = l.id AND n.kind = $1 AND n.due_date = l.due_date
+       WHERE l.return_date IS NULL
+       AND l.due_date <= $2 ${afterCondition}
+       AND n.id IS NULL
+       ORDER BY l.due_date ASC, l.id ASC`,
+      params
+    );
+    return rows;
+  }
+
+  /**
+   * Record a notice before sending it. Returns null if the loan already has
+   * this notice for its due date, say from a run on another server.
+   */
+  async claim(data: Pick<Notification, 'kind' | 'loan_id' | 'member_id' | 'due_date' | 'recipient' | 'subject' | 'body'>, client?: PoolClient): Promise<Notification | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Notification>(
+      `INSERT INTO notifications (kind, loan_id, member_id, due_date, recipient, subject, body)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (loan_id, kind, due_date) DO NOTHING
+       RETURNING *`,
+      [data.kind, data.loan_id, data.member_id, data.due_date, data.recipient, data.subject, data.body]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Record the outcome of a delivery attempt
+   */
+  async recordAttempt(id: number, recipient: string, error: string | null, client?: PoolClient): Promise<Notification | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Notification>(
+      `UPDATE notifications SET
+         recipient = $2,
+         status = CASE WHEN $3::text IS NULL THEN 'sent' ELSE 'failed' END,
+         error = $3,
+         attempts = attempts + 1,
+         sent_at = CASE WHEN $3::text IS NULL THEN NOW() ELSE sent_at END
+       WHERE id = $1 RETURNING *`,
+      [id, recipient, error]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Search notifications, newest first, with the member and book they were about
+   */
+  async search(options: NotificationSearchOptions, client?: PoolClient): Promise<PaginatedResult<NotificationWithDetails>> {
+    const executor = client || this.pool;
+    const { page, limit, status, kind, memberId } = options;
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (status) {
+      conditions.push(`n.status = $${params.push(status)}`);
+    }
+    if (kind) {
+      conditions.push(`n.kind = $${params.push(kind)}`);
+    }
+    if (memberId) {
+      conditions.push(`n.member_id = $${params.push(memberId)}`);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await executor.query<{ count: string }>(
+      `SELECT COUNT(*)::integer as count FROM notifications n ${whereClause}`,
+      params
+    );
+    const total = parseInt(countResult.rows[0].count, 10);
+
+    const offset = (page - 1) * limit;
+    const { rows } = await executor.query<NotificationWithDetails>(
+      `SELECT n.*,
+        m.name as member_name,
+        b.title as book_title
+       FROM notifications n
+       JOIN members m ON n.member_id = m.id
+       LEFT JOIN loans l ON n.loan_id = l.id
+       LEFT JOIN books b ON l.book_id = b.id
+       ${whereClause}
+       ORDER BY n.created_at DESC, n.id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+
+    return {
+      data: rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Notification Template Repository - Database operations for editable email templates
+ */
+
+import { PoolClient } from 'pg';
+import { BaseRepository } from './BaseRepository';
+import { NotificationKind, NotificationTemplate, NotificationTemplateInput } from '../types/notification';
+
+export class NotificationTemplateRepository extends BaseRepository<NotificationTemplate> {
+  protected tableName = 'notification_templates';
+
+  /**
+   * Get every template, in the order notices are sent
+   */
+  async findAllTemplates(client?: PoolClient): Promise<NotificationTemplate[]> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<NotificationTemplate>(
+      'SELECT * FROM notification_templates ORDER BY id ASC'
+    );
+    return rows;
+  }
+
+  async findByKind(kind: NotificationKind, client?: PoolClient): Promise<NotificationTemplate | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<NotificationTemplate>(
+      'SELECT * FROM notification_templates WHERE kind = $1',
+      [kind]
+    );
+    return rows[0] || null;
+  }
+
+  async updateByKind(kind: NotificationKind, input: NotificationTemplateInput, client?: PoolClient): Promise<NotificationTemplate | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<NotificationTemplate>(
+      `UPDATE notification_templates SET subject = $2, body = $3, updated_at = CURRENT_TIMESTAMP
+       WHERE kind = $1 RETURNING *`,
+      [kind, input.subject, input.body]
+    );
+    return rows[0] || null;
+  }
+}
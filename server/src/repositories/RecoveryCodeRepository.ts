@@ -0,0 +1,58 @@
+/**
+ * Recovery Code Repository - Database operations for two-factor recovery codes
+ */
+
+import { PoolClient } from 'pg';
+import { BaseRepository } from './BaseRepository';
+import { RecoveryCode } from '../types/twoFactor';
+
+export class RecoveryCodeRepository extends BaseRepository<RecoveryCode> {
+  protected tableName = 'user_recovery_codes';
+
+  /**
+   * Replace a user's recovery codes with a new set of hashes
+   */
+  async replaceForUser(userId: number, codeHashes: string[], client?: PoolClient): Promise<void> {
+    const executor = client || this.pool;
+    await executor.query('DELETE FROM user_recovery_codes WHERE user_id = $1', [userId]);
+    for (const codeHash of codeHashes) {
+      await executor.query(
+        'INSERT INTO user_recovery_codes (user_id, code_hash) VALUES ($1, $2)',
+        [userId, codeHash]
+      );
+    }
+  }
+
+  /**
+   * Use up an unused recovery code. Returns false if the user has no such code.
+   */
+  async consume(userId: number, codeHash: string, client?: PoolClient): Promise<boolean> {
+    const executor = client || this.pool;
+    const { rowCount } = await executor.query(
+      `UPDATE user_recovery_codes SET used_at = NOW()
+       WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL`,
+      [userId, codeHash]
+    );
+    return (rowCount || 0) > 0;
+  }
+
+  /**
+   * Count a user's unused recovery codes
+   */
+  async countUnused(userId: number, client?: PoolClient): Promise<number> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<{ count: number }>(
+      'SELECT COUNT(*)::integer AS count FROM user_recovery_codes WHERE user_id = $1 AND used_at IS NULL',
+      [userId]
+    );
+    return rows[0].count;
+  }
+
+  /**
+   * Delete all of a user's recovery codes
+   */
+  async deleteForUser(userId: number, client?: PoolClient): Promise<void> {
+    const executor = client || this.pool;
+    await executor.query('DELETE FROM user_recovery_codes WHERE user_id = $1', [userId]);
+  }
+}
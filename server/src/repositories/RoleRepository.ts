@@ -0,0 +1,57 @@
+/**
+ * Role Repository - Database operations for roles
+ */
+
+import { PoolClient } from 'pg';
+import { BaseRepository } from './BaseRepository';
+import { Role, RoleWithUserCount } from '../types/role';
+
+export class RoleRepository extends BaseRepository<Role> {
+  protected tableName = 'roles';
+
+  /**
+   * Get all roles with the number of users holding each, built-in roles first
+   */
+  async findAllWithUserCounts(client?: PoolClient): Promise<RoleWithUserCount[]> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<RoleWithUserCount>(
+      `SELECT r.*, COUNT(u.id)::integer AS user_count
+       FROM roles r
+       LEFT JOIN users u ON u.role = r.name
+       GROUP BY r.id
+       ORDER BY r.built_in DESC, r.id ASC`
+    );
+    return rows;
+  }
+
+  /**
+   * Find a role by its name
+   */
+  async findByName(name: string, client?: PoolClient): Promise<Role | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Role>(
+      'SELECT * FROM roles WHERE name = $1',
+      [name]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Count the users holding a role
+   */
+  async countUsers(name: string, client?: PoolClient): Promise<number> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<{ count: number }>(
+      'SELECT COUNT(*)::integer AS count FROM users WHERE role = $1',
+      [name]
+    );
+    return rows[0].count;
+  }
+
+  /**
+   * Update a role and bump updated_at
+   */
+  async updateRole(id: number, data: Partial<Role>, client?: PoolClient): Promise<Role | null> {
+    return await this.update(id, { ...data, updated_at: new Date() }, client);
+  }
+}
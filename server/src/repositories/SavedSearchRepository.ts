@@ -0,0 +1,94 @@
+/**
+ * Saved Search Repository - Database operations for saved searches, smart
+ * collections and their pins
+ */
+
+import { PoolClient } from 'pg';
+import { BaseRepository } from './BaseRepository';
+import { SavedSearch, SavedSearchInput, SavedSearchSummary } from '../types/savedSearch';
+
+// Saved searches with their owner and whether the user in $1 pinned them
+const SUMMARY_SQL = `
+  SELECT s.*, u.username AS owner_username, (p.user_id IS NOT NULL) AS pinned
+  FROM saved_searches s
+  JOIN users u ON u.id = s.user_id
+  LEFT JOIN saved_search_pins p ON p.saved_search_id = s.id AND p.user_id = $1
+`;
+
+export class SavedSearchRepository extends BaseRepository<SavedSearch> {
+  protected tableName = 'saved_searches';
+
+  /**
+   * A user's own saved searches and those shared by other users, by name
+   */
+  async findVisible(userId: number, client?: PoolClient): Promise<SavedSearchSummary[]> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<SavedSearchSummary>(
+      `${SUMMARY_SQL} WHERE s.user_id = $1 OR s.shared ORDER BY s.name ASC, s.id ASC`,
+      [userId]
+    );
+    return rows;
+  }
+
+  async findVisibleById(id: number, userId: number, client?: PoolClient): Promise<SavedSearchSummary | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<SavedSearchSummary>(
+      `${SUMMARY_SQL} WHERE s.id = $2 AND (s.user_id = $1 OR s.shared)`,
+      [userId, id]
+    );
+    return rows[0] || null;
+  }
+
+  async createSavedSearch(userId: number, input: Required<SavedSearchInput>, client?: PoolClient): Promise<SavedSearch> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<SavedSearch>(
+      `INSERT INTO saved_searches (user_id, name, search, filters, collection, shared)
+       VALUES ($1, $2, $3, $4::jsonb, $5, $6) RETURNING *`,
+      [userId, input.name, input.search, JSON.stringify(input.filters), input.collection, input.shared]
+    );
+    return rows[0];
+  }
+
+  async updateSavedSearch(id: number, input: Required<SavedSearchInput>, client?: PoolClient): Promise<SavedSearch | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<SavedSearch>(
+      `UPDATE saved_searches
+       SET name = $2, search = $3, filters = $4::jsonb, collection = $5, shared = $6, updated_at = NOW()
+       WHERE id = $1 RETURNING *`,
+      [id, input.name, input.search, JSON.stringify(input.filters), input.collection, input.shared]
+    );
+    return rows[0] || null;
+  }
+
+  async pin(id: number, userId: number, client?: PoolClient): Promise<void> {
+    const executor = client || this.pool;
+    await executor.query(
+      `INSERT INTO saved_search_pins (user_id, saved_search_id) VALUES ($1, $2)
+       ON CONFLICT (user_id, saved_search_id) DO NOTHING`,
+      [userId, id]
+    );
+  }
+
+  async unpin(id: number, userId: number, client?: PoolClient): Promise<void> {
+    const executor = client || this.pool;
+    await executor.query(
+      'DELETE FROM saved_search_pins WHERE saved_search_id = $1 AND user_id = $2',
+      [id, userId]
+    );
+  }
+
+  /**
+   * Remove the pins of everyone but the given user, or of everyone
+   */
+  async unpinAll(id: number, exceptUserId: number | null, client?: PoolClient): Promise<void> {
+    const executor = client || this.pool;
+    if (exceptUserId === null) {
+      await executor.query('DELETE FROM saved_search_pins WHERE saved_search_id = $1', [id]);
+    } else {
+      await executor.query(
+        'DELETE FROM saved_search_pins WHERE saved_search_id = $1 AND user_id <> $2',
+        [id, exceptUserId]
+      );
+    }
+  }
+}
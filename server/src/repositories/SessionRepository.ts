@@ -0,0 +1,98 @@
+/**
+ * Session Repository - Database operations for login sessions and their refresh tokens
+ */
+
+import { PoolClient } from 'pg';
+import { BaseRepository } from './BaseRepository';
+import { Session, RefreshToken, SessionRevokedReason } from '../types/session';
+
+export class SessionRepository extends BaseRepository<Session> {
+  protected tableName = 'user_sessions';
+
+  /**
+   * Get a user's sessions that are neither revoked nor expired, most recently used first
+   */
+  async findActiveByUserId(userId: number, client?: PoolClient): Promise<Session[]> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Session>(
+      `SELECT * FROM user_sessions
+       WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+       ORDER BY last_used_at DESC`,
+      [userId]
+    );
+    return rows;
+  }
+
+  /**
+   * Find a refresh token by its hash, whether or not it has been used
+   */
+  async findRefreshToken(tokenHash: string, client?: PoolClient): Promise<RefreshToken | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<RefreshToken>(
+      'SELECT * FROM refresh_tokens WHERE token_hash = $1',
+      [tokenHash]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Store the hash of a new refresh token for a session
+   */
+  async addRefreshToken(sessionId: number, tokenHash: string, client?: PoolClient): Promise<void> {
+    const executor = client || this.pool;
+    await executor.query(
+      'INSERT INTO refresh_tokens (session_id, token_hash) VALUES ($1, $2)',
+      [sessionId, tokenHash]
+    );
+  }
+
+  /**
+   * Mark a refresh token used. Returns false if it had already been used,
+   * so two requests cannot both swap the same token.
+   */
+  async markRefreshTokenUsed(id: number, client?: PoolClient): Promise<boolean> {
+    const executor = client || this.pool;
+    const { rowCount } = await executor.query(
+      'UPDATE refresh_tokens SET used_at = NOW() WHERE id = $1 AND used_at IS NULL',
+      [id]
+    );
+    return (rowCount || 0) > 0;
+  }
+
+  /**
+   * Record that a session was just used, and from where
+   */
+  async touch(id: number, userAgent: string | null, ipAddress: string | null, client?: PoolClient): Promise<void> {
+    const executor = client || this.pool;
+    await executor.query(
+      `UPDATE user_sessions
+       SET last_used_at = NOW(), user_agent = COALESCE($2, user_agent), ip_address = COALESCE($3, ip_address)
+       WHERE id = $1`,
+      [id, userAgent, ipAddress]
+    );
+  }
+
+  /**
+   * Revoke a session if it is not already revoked
+   */
+  async revoke(id: number, reason: SessionRevokedReason, client?: PoolClient): Promise<boolean> {
+    const executor = client || this.pool;
+    const { rowCount } = await executor.query(
+      'UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = $2 WHERE id = $1 AND revoked_at IS NULL',
+      [id, reason]
+    );
+    return (rowCount || 0) > 0;
+  }
+
+  /**
+   * Revoke every open session of a user; returns how many were revoked
+   */
+  async revokeAllForUser(userId: number, reason: SessionRevokedReason, client?: PoolClient): Promise<number> {
+    const executor = client || this.pool;
+    const { rowCount } = await executor.query(
+      'UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = $2 WHERE user_id = $1 AND revoked_at IS NULL',
+      [userId, reason]
+    );
+    return rowCount || 0;
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * User Repository - Database operations for user logins
+ */
+
+import { PoolClient } from 'pg';
+import { BaseRepository } from './BaseRepository';
+import { User } from '../types/user';
+
+export class UserRepository extends BaseRepository<User> {
+  protected tableName = 'users';
+
+  /**
+   * Record the time step of an accepted TOTP code. Returns false if that
+   * step or a later one was already used, so a code cannot be replayed.
+   */
+  async recordTotpStep(id: number, step: number, client?: PoolClient): Promise<boolean> {
+    const executor = client || this.pool;
+    const { rowCount } = await executor.query(
+      `UPDATE users SET totp_last_step = $2
+       WHERE id = $1 AND (totp_last_step IS NULL OR totp_last_step < $2)`,
+      [id, step]
+    );
+    return (rowCount || 0) > 0;
+  }
+
+  /**
+   * Count a failed login; returns the new number of consecutive failures
+   */
+  async incrementFailedLogins(id: number, client?: PoolClient): Promise<number> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<{ failed_login_count: number }>(
+      'UPDATE users SET failed_login_count = failed_login_count + 1 WHERE id = $1 RETURNING failed_login_count',
+      [id]
+    );
+    return rows[0]?.failed_login_count ?? 0;
+  }
+
+  /**
+   * Clear failed logins and any lockout
+   */
+  async resetFailedLogins(id: number, client?: PoolClient): Promise<void> {
+    const executor = client || this.pool;
+    await executor.query(
+      'UPDATE users SET failed_login_count = 0, locked_until = NULL WHERE id = $1',
+      [id]
+    );
+  }
+}
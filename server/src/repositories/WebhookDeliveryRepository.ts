@@ -0,0 +1,176 @@
+/**
+ * Webhook Delivery Repository - Database operations for the webhook delivery queue and log
+ */
+
+import { PoolClient } from 'pg';
+import { BaseRepository, PaginatedResult, PaginationOptions } from './BaseRepository';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookDeliveryWithUrl,
+  WebhookEvent,
+  WebhookPayload,
+} from '../types/webhook';
+
+export interface WebhookDeliverySearchOptions extends PaginationOptions {
+  status?: WebhookDeliveryStatus;
+  webhookId?: number;
+}
+
+export interface WebhookAttemptResult {
+  status: WebhookDeliveryStatus;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  nextAttemptAt: Date | null;
+}
+
+export class WebhookDeliveryRepository extends BaseRepository<WebhookDelivery> {
+  protected tableName = 'webhook_deliveries';
+
+  /**
+   * Queue an event for every active webhook subscribed to it. A webhook that
+   * already has a delivery with the same dedupe key is skipped. Returns how
+   * many deliveries were queued.
+   */
+  async enqueueEvent(event: WebhookEvent, payload: WebhookPayload, dedupeKey: string | null, client?: PoolClient): Promise<number> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<{ id: number }>(
+      `INSERT INTO webhook_deliveries (webhook_id, event, payload, dedupe_key)
+       SELECT w.id, $1, $2::jsonb, $3
+       FROM webhooks w
+       WHERE w.active = true AND $1 = ANY(w.events)
+       ON CONFLICT (webhook_id, dedupe_key) DO NOTHING
+       RETURNING id`,
+      [event, JSON.stringify(payload), dedupeKey]
+    );
+    return rows.length;
+  }
+
+  /**
+   * Queue a delivery for one webhook, whatever it subscribes to
+   */
+  async enqueueFor(webhookId: number, event: string, payload: WebhookPayload, client?: PoolClient): Promise<WebhookDelivery> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<WebhookDelivery>(
+      `INSERT INTO webhook_deliveries (webhook_id, event, payload)
+       VALUES ($1, $2, $3) RETURNING *`,
+      [webhookId, event, JSON.stringify(payload)]
+    );
+    return rows[0];
+  }
+
+  /**
+   * IDs of pending deliveries whose next attempt is due, oldest first.
+   * Deliveries to a deactivated webhook wait until it is active again.
+   */
+  async findDueIds(limit: number, client?: PoolClient): Promise<number[]> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<{ id: number }>(
+      `SELECT d.id FROM webhook_deliveries d
+       JOIN webhooks w ON d.webhook_id = w.id
+       WHERE d.status = 'pending' AND d.next_attempt_at <= NOW() AND w.active = true
+       ORDER BY d.next_attempt_at ASC, d.id ASC
+       LIMIT $1`,
+      [limit]
+    );
+    return rows.map(row => row.id);
+  }
+
+  /**
+   * Take a due delivery for sending by pushing its next attempt out to
+   * leaseUntil, so another worker leaves it alone and it is retried if this
+   * one dies mid-send. Returns null if it is no longer due.
+   */
+  async claim(id: number, leaseUntil: Date, client?: PoolClient): Promise<WebhookDelivery | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<WebhookDelivery>(
+      `UPDATE webhook_deliveries SET next_attempt_at = $2
+       WHERE id = $1 AND status = 'pending' AND next_attempt_at <= NOW()
+       RETURNING *`,
+      [id, leaseUntil]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Record the outcome of a delivery attempt
+   */
+  async recordAttempt(id: number, result: WebhookAttemptResult, client?: PoolClient): Promise<WebhookDelivery | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<WebhookDelivery>(
+      `UPDATE webhook_deliveries SET
+         status = $2,
+         response_status = $3,
+         response_body = $4,
+         error = $5,
+         next_attempt_at = COALESCE($6, next_attempt_at),
+         attempts = attempts + 1,
+         last_attempt_at = NOW(),
+         delivered_at = CASE WHEN $2 = 'succeeded' THEN NOW() ELSE delivered_at END
+       WHERE id = $1 RETURNING *`,
+      [id, result.status, result.responseStatus, result.responseBody, result.error, result.nextAttemptAt]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Queue a finished delivery to be sent again straight away, with a fresh set of retries
+   */
+  async requeue(id: number, client?: PoolClient): Promise<WebhookDelivery | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<WebhookDelivery>(
+      `UPDATE webhook_deliveries SET status = 'pending', attempts = 0, next_attempt_at = NOW()
+       WHERE id = $1 RETURNING *`,
+      [id]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * Search deliveries, newest first, with the URL they were sent to
+   */
+  async search(options: WebhookDeliverySearchOptions, client?: PoolClient): Promise<PaginatedResult<WebhookDeliveryWithUrl>> {
+    const executor = client || this.pool;
+    const { page, limit, status, webhookId } = options;
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (status) {
+      conditions.push(`d.status = $${params.push(status)}`);
+    }
+    if (webhookId) {
+      conditions.push(`d.webhook_id = $${params.push(webhookId)}`);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await executor.query<{ count: string }>(
+      `SELECT COUNT(*)::integer as count FROM webhook_deliveries d ${whereClause}`,
+      params
+    );
+    const total = parseInt(countResult.rows[0].count, 10);
+
+    const offset = (page - 1) * limit;
+    const { rows } = await executor.query<WebhookDeliveryWithUrl>(
+      `SELECT d.*, w.url as webhook_url
+       FROM webhook_deliveries d
+       JOIN webhooks w ON d.webhook_id = w.id
+       ${whereClause}
+       ORDER BY d.created_at DESC, d.id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+
+    return {
+      data: rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+}
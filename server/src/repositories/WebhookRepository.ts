@@ -0,0 +1,65 @@
+/**
+ * Webhook Repository - Database operations for registered webhooks
+ */
+
+import { PoolClient } from 'pg';
+import { BaseRepository } from './BaseRepository';
+import { Webhook, WebhookInput, WebhookSummary } from '../types/webhook';
+
+const SUMMARY_COLUMNS = 'id, url, description, events, active, created_at, updated_at';
+
+export class WebhookRepository extends BaseRepository<Webhook> {
+  protected tableName = 'webhooks';
+
+  /**
+   * Get every webhook, without their secrets
+   */
+  async findAllSummaries(client?: PoolClient): Promise<WebhookSummary[]> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<WebhookSummary>(
+      `SELECT ${SUMMARY_COLUMNS} FROM webhooks ORDER BY id ASC`
+    );
+    return rows;
+  }
+
+  async createWebhook(input: WebhookInput, secret: string, client?: PoolClient): Promise<Webhook> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Webhook>(
+      `INSERT INTO webhooks (url, secret, description, events, active)
+       VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+      [input.url, secret, input.description ?? null, input.events, input.active ?? true]
+    );
+    return rows[0];
+  }
+
+  async updateWebhook(id: number, input: Partial<WebhookInput>, client?: PoolClient): Promise<WebhookSummary | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<WebhookSummary>(
+      `UPDATE webhooks SET
+         url = COALESCE($2, url),
+         description = CASE WHEN $3 THEN $4 ELSE description END,
+         events = COALESCE($5, events),
+         active = COALESCE($6, active),
+         updated_at = NOW()
+       WHERE id = $1 RETURNING ${SUMMARY_COLUMNS}`,
+      [
+        id,
+        input.url ?? null,
+        input.description !== undefined,
+        input.description ?? null,
+        input.events ?? null,
+        input.active ?? null,
+      ]
+    );
+    return rows[0] || null;
+  }
+
+  async updateSecret(id: number, secret: string, client?: PoolClient): Promise<Webhook | null> {
+    const executor = client || this.pool;
+    const { rows } = await executor.query<Webhook>(
+      'UPDATE webhooks SET secret = $2, updated_at = NOW() WHERE id = $1 RETURNING *',
+      [id, secret]
+    );
+    return rows[0] || null;
+  }
+}
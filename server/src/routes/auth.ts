@@ -1,6 +1,6 @@
 /**
  * Authentication routes
- * Handles user registration, login, and setup status
+ * Handles user registration, login (with optional two-factor), sessions and setup status
  */
 
 import express, { Response } from 'express';
@@ -10,10 +10,48 @@ import * as authUtils from '../utils/authUtils';
 import { asyncHandler, AppError } from '../middleware/errorHandler';
 import { validateUser } from '../middleware/validation';
 import { AuthRequest } from '../types/express';
-import { User, UserResponse, LoginRequest } from '../types/user';
+import { User, UserResponse, LoginRequest, TwoFactorChallengeResponse } from '../types/user';
+import { DEFAULT_ROLE } from '../types/role';
+import { SessionClient } from '../types/session';
+import { TwoFactorProof } from '../types/twoFactor';
+import { RoleService } from '../services/RoleService';
+import { SessionService } from '../services/SessionService';
+import { TwoFactorService } from '../services/TwoFactorService';
+import { LoginActivityService } from '../services/LoginActivityService';
+import { MailService } from '../services/MailService';
+import { UserRepository } from '../repositories/UserRepository';
+import { logger } from '../utils/logger';
 import config from '../config';
 
 const router = express.Router();
+const roleService = new RoleService();
+const sessionService = new SessionService();
+const twoFactorService = new TwoFactorService();
+const loginActivityService = new LoginActivityService();
+const mailService = new MailService();
+const userRepository = new UserRepository();
+
+// Where a login or refresh came from, recorded on the session
+const sessionClientOf = (req: AuthRequest): SessionClient => ({
+  userAgent: req.get('user-agent') ?? null,
+  ipAddress: req.ip ?? null
+});
+
+// The second factor sent with a request, as strings
+const proofOf = (req: AuthRequest): TwoFactorProof => ({
+  code: req.body.code ? String(req.body.code) : undefined,
+  recoveryCode: req.body.recoveryCode ? String(req.body.recoveryCode) : undefined
+});
+
+// The user partway through a two-factor login
+const challengedUser = async (challengeToken: unknown): Promise<User> => {
+  const userId = typeof challengeToken === 'string' ? authUtils.verifyChallengeToken(challengeToken) : null;
+  const user = userId === null ? null : await userRepository.findById(userId);
+  if (!user) {
+    throw new AppError('Login has expired; enter your password again', 401);
+  }
+  return user;
+};
 
 // Check if initial admin setup has been completed
 router.get('/setup-status', asyncHandler(async (req: AuthRequest, res: Response) => {
@@ -29,25 +67,29 @@ router.post('/register',
   authUtils.protectRegisterEndpoint,
   validateUser,
   asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { username, password, role } = req.body;
+    const { username, password, role, email } = req.body;
+
+    if (role && !(await roleService.roleExists(role))) {
+      throw new AppError(`Role "${role}" does not exist`, 400);
+    }
 
     const client = await pool.connect();
     try {
       await client.query('BEGIN');
 
+      // Create the member entry the login is linked to
+      const memberResult = await client.query<{ id: number }>(
+        'INSERT INTO members (name, email) VALUES ($1, $2) RETURNING id',
+        [username, email || `${username}@library.app`]
+      );
+
       const hashedPassword = await authUtils.hashPassword(password);
       const userResult = await client.query<UserResponse>(
-        'INSERT INTO users (username, password_hash, role) VALUES ($1, $2, $3) RETURNING id, username, role',
-        [username, hashedPassword, role || 'member']
+        'INSERT INTO users (username, password_hash, role, member_id, email) VALUES ($1, $2, $3, $4, $5) RETURNING id, username, email, role, member_id',
+        [username, hashedPassword, role || DEFAULT_ROLE, memberResult.rows[0].id, email || null]
       );
       const newUser = userResult.rows[0];
 
-      // Also create a corresponding member entry
-      await client.query(
-        'INSERT INTO members (name, email) VALUES ($1, $2)',
-        [newUser.username, `${newUser.username}@library.app`]
-      );
-
       await client.query('COMMIT');
       res.status(201).json({
         message: 'User and member registered successfully',
@@ -78,6 +120,12 @@ router.post('/login', asyncHandler(async (req: AuthRequest, res: Response) => {
 
   const { rows } = await query<User>('SELECT * FROM users WHERE username = $1', [username]);
   const user = rows[0];
+  const sessionClient = sessionClientOf(req);
+
+  // A locked account is refused without checking the password
+  if (user) {
+    await loginActivityService.assertNotLocked(user, sessionClient);
+  }
 
   // Always compare passwords (even if user doesn't exist) to prevent timing attacks
   // Use a dummy hash if user not found to maintain consistent timing
@@ -85,25 +133,180 @@ router.post('/login', asyncHandler(async (req: AuthRequest, res: Response) => {
   const isPasswordValid = await authUtils.comparePasswords(password, hashToCompare);
 
   if (!user || !isPasswordValid) {
+    await loginActivityService.recordFailure(user ?? null, String(username), user ? 'invalid_password' : 'unknown_user', sessionClient);
     res.status(401).json({ error: 'Invalid credentials' });
     return;
   }
 
-  // Generate token with user information
-  const token = authUtils.generateToken({
-    userId: user.id,
-    username: user.username,
-    role: user.role
+  // With two-factor, the session is only issued once the second step succeeds
+  if (user.totp_enabled || user.two_factor_required) {
+    const challenge: TwoFactorChallengeResponse = {
+      twoFactorRequired: true,
+      setupRequired: !user.totp_enabled,
+      challengeToken: authUtils.generateChallengeToken(user.id)
+    };
+    res.json(challenge);
+    return;
+  }
+
+  await loginActivityService.recordSuccess(user, sessionClient);
+
+  // Start a session: a short-lived access token plus a refresh token to renew it
+  const { token, refreshToken, user: userResponse } = await sessionService.startSession(user, sessionClient);
+
+  res.json({
+    message: 'Logged in successfully',
+    token,
+    refreshToken,
+    user: userResponse,
   });
+}));
+
+// Start enrolling during login, for a user required to have two-factor
+router.post('/login/two-factor/setup', asyncHandler(async (req: AuthRequest, res: Response) => {
+  const user = await challengedUser(req.body.challengeToken);
+
+  const enrollment = await twoFactorService.beginEnrollment(user.id);
+  res.json(enrollment);
+}));
+
+// Second login step: a code from the authenticator app or a recovery code.
+// A user enrolling during login confirms their first code here instead.
+router.post('/login/two-factor', asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { challengeToken, code, recoveryCode } = req.body;
+  const user = await challengedUser(challengeToken);
+  const sessionClient = sessionClientOf(req);
+
+  if (!code && !recoveryCode) {
+    throw new AppError('An authentication code or recovery code is required', 400);
+  }
+
+  await loginActivityService.assertNotLocked(user, sessionClient);
+
+  let recoveryCodes: string[] | undefined;
+  if (!user.totp_enabled) {
+    try {
+      recoveryCodes = await twoFactorService.activate(user.id, String(code ?? ''));
+    } catch (err) {
+      // A wrong first code counts towards the lockout like any other wrong code
+      if (err instanceof AppError && err.message === 'Invalid authentication code') {
+        await loginActivityService.recordFailure(user, user.username, 'invalid_two_factor', sessionClient);
+      }
+      throw err;
+    }
+  } else if (!(await twoFactorService.verify(user, proofOf(req)))) {
+    // Wrong codes count towards the lockout like wrong passwords
+    await loginActivityService.recordFailure(user, user.username, 'invalid_two_factor', sessionClient);
+    throw new AppError('Invalid authentication code', 401);
+  }
+
+  await loginActivityService.recordSuccess(user, sessionClient);
+
+  const { token, refreshToken, user: userResponse } = await sessionService.startSession(user, sessionClient);
 
   res.json({
     message: 'Logged in successfully',
     token,
-    user: { id: user.id, username: user.username, role: user.role },
+    refreshToken,
+    user: userResponse,
+    ...(recoveryCodes && { recoveryCodes }),
   });
 }));
 
-// Request password reset
+// Swap a refresh token for a new access token and refresh token
+router.post('/refresh', asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { refreshToken } = req.body;
+
+  if (!refreshToken || typeof refreshToken !== 'string') {
+    throw new AppError('Refresh token is required', 400);
+  }
+
+  const tokens = await sessionService.refresh(refreshToken, sessionClientOf(req));
+  res.json(tokens);
+}));
+
+// End the session a refresh token belongs to, or all of the user's sessions
+router.post('/logout', asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { refreshToken, all } = req.body;
+
+  if (!refreshToken || typeof refreshToken !== 'string') {
+    throw new AppError('Refresh token is required', 400);
+  }
+
+  await sessionService.logout(refreshToken, all === true);
+  res.status(204).send();
+}));
+
+// List the current user's open sessions
+router.get('/sessions',
+  authUtils.authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const sessions = await sessionService.getSessions(req.user!.userId, req.user!.sessionId);
+    res.json(sessions);
+  })
+);
+
+// Revoke one of the current user's sessions
+router.delete('/sessions/:id',
+  authUtils.authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid session ID', 400);
+    }
+
+    await sessionService.revokeSession(req.user!.userId, id);
+    res.status(204).send();
+  })
+);
+
+// Get the current user's two-factor status
+router.get('/two-factor',
+  authUtils.authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const status = await twoFactorService.getStatus(req.user!.userId);
+    res.json(status);
+  })
+);
+
+// Start enrolling an authenticator app
+router.post('/two-factor/enroll',
+  authUtils.authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const enrollment = await twoFactorService.beginEnrollment(req.user!.userId);
+    res.json(enrollment);
+  })
+);
+
+// Confirm the first code to turn two-factor on; returns the recovery codes
+router.post('/two-factor/activate',
+  authUtils.authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { code } = req.body;
+    if (!code) {
+      throw new AppError('Authentication code is required', 400);
+    }
+
+    const recoveryCodes = await twoFactorService.activate(req.user!.userId, String(code));
+    res.json({ recoveryCodes });
+  })
+);
+
+// Turn two-factor off, with a current code or a recovery code
+router.post('/two-factor/disable',
+  authUtils.authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { code, recoveryCode } = req.body;
+    if (!code && !recoveryCode) {
+      throw new AppError('An authentication code or recovery code is required', 400);
+    }
+
+    await twoFactorService.disable(req.user!.userId, proofOf(req));
+    res.status(204).send();
+  })
+);
+
+// Request password reset: email a reset link to the user's address
 router.post('/forgot-password', asyncHandler(async (req: AuthRequest, res: Response) => {
   const { username } = req.body;
 
@@ -111,43 +314,46 @@ router.post('/forgot-password', asyncHandler(async (req: AuthRequest, res: Respo
     throw new AppError('Username is required', 400);
   }
 
-  const { rows } = await query<Pick<User, 'id' | 'username'>>(
-    'SELECT id, username FROM users WHERE username = $1',
+  // The same reply whether or not the user exists or has an email address, to prevent username enumeration
+  const reply = {
+    message: 'If a user with that username exists, a password reset link has been sent to their email address.'
+  };
+
+  const { rows } = await query<Pick<User, 'id' | 'username' | 'email'>>(
+    'SELECT id, username, email FROM users WHERE username = $1',
     [username]
   );
   const user = rows[0];
 
-  // Always return success to prevent username enumeration
   if (!user) {
-    res.json({
-      message: 'If a user with that username exists, a password reset link has been generated.'
-    });
+    res.json(reply);
     return;
   }
 
-  // Generate reset token (32 random bytes as hex string)
-  const resetToken = crypto.randomBytes(32).toString('hex');
-
-  // Set token expiry to 1 hour from now
-  const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+  if (!user.email) {
+    logger.warn('Password reset requested for a user without an email address', { userId: user.id });
+    res.json(reply);
+    return;
+  }
 
-  // Store hashed token in database
+  // Generate reset token (32 random bytes as hex string); only its hash is stored
+  const resetToken = crypto.randomBytes(32).toString('hex');
   const hashedToken = crypto.createHash('sha256').update(resetToken).digest('hex');
+  const expiresAt = new Date(Date.now() + config.passwordResetTokenMinutes * 60 * 1000);
 
   await query(
     'UPDATE users SET reset_token = $1, reset_token_expires = $2 WHERE id = $3',
     [hashedToken, expiresAt, user.id]
   );
 
-  // NOTE: In production, you would send an email here with the reset link
-  // For development, we'll return the token in the response
-  // Example reset URL: http://localhost:3000/reset-password?token=RESET_TOKEN
+  // A failed delivery is logged rather than reported, which would reveal that the user exists
+  try {
+    await mailService.sendPasswordReset(user.email, user.username, resetToken);
+  } catch (err) {
+    logger.error('Failed to send password reset email', { userId: user.id, error: err instanceof Error ? err.message : String(err) });
+  }
 
-  res.json({
-    message: 'If a user with that username exists, a password reset link has been generated.',
-    // Only include this in development mode
-    ...(config.nodeEnv === 'development' && { resetToken, username: user.username })
-  });
+  res.json(reply);
 }));
 
 // Reset password with token
@@ -185,6 +391,9 @@ router.post('/reset-password', asyncHandler(async (req: AuthRequest, res: Respon
     [hashedPassword, user.id]
   );
 
+  // Whoever knew the old password may still hold a session
+  await sessionService.revokeAllSessions(user.id, 'password_changed');
+
   res.json({
     message: 'Password reset successfully. You can now log in with your new password.',
     username: user.username
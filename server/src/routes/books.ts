@@ -4,21 +4,27 @@
  */
 
 import express, { Response, NextFunction } from 'express';
-import axios from 'axios';
 import fs from 'fs';
 import path from 'path';
-import { v4 as uuidv4 } from 'uuid';
-import { parse } from 'csv-parse/sync';
 import { query, pool } from '../db';
 import * as authUtils from '../utils/authUtils';
 import { asyncHandler, AppError } from '../middleware/errorHandler';
 import { validateBook, validatePagination } from '../middleware/validation';
-import { coverUpload, csvUpload, uploadsDir } from '../utils/fileUpload';
+import { coverUpload, uploadsDir } from '../utils/fileUpload';
 import { AuthRequest } from '../types/express';
-import { Book, BookWithCategories, BookQueryParams } from '../types/book';
+import { Book, BookWithCategories, BookQueryParams, BookFacet, BookFilters, BookFormat, BOOK_FACETS, BOOK_FORMATS } from '../types/book';
+import { bookFilterConditions, bookSearchSql, COPY_COUNTS_SQL } from '../repositories/BookRepository';
+import { BookService } from '../services/BookService';
+import { CopyService } from '../services/CopyService';
+import { lookupIsbnMetadata } from '../utils/bookMetadata';
+import { correctBookQuery, parseBookQuery } from '../utils/bookQuery';
+import { toTsQuery } from '../utils/textSearch';
+import { createImportRouter } from './imports';
 import config from '../config';
 
 const router = express.Router();
+const bookService = new BookService();
+const copyService = new CopyService();
 
 interface Category {
   id: number;
@@ -29,75 +35,132 @@ interface BookWithCategoriesDB extends Book {
   categories: Category[];
 }
 
-// Get all books with pagination, search, and filters
+/**
+ * The values of a query parameter given as a comma-separated list, repeated,
+ * or both. Authors are only repeated, as names can have commas in them.
+ */
+const listParam = (value: string | string[] | undefined, split = true): string[] =>
+  (Array.isArray(value) ? value : value === undefined ? [] : [value])
+    .flatMap(item => (split ? String(item).split(',') : [String(item)]))
+    .map(item => item.trim())
+    .filter(Boolean);
+
+const intListParam = (value: string | undefined): number[] =>
+  listParam(value).map(item => parseInt(item, 10)).filter(item => !isNaN(item));
+
+/**
+ * The book list filters of a request. Values that cannot match, such as an
+ * unknown format, are left out.
+ */
+const bookFiltersOf = (params: BookQueryParams): BookFilters => ({
+  categoryIds: intListParam(params.categoryIds),
+  categoryMatch: params.categoryMatch === 'all' ? 'all' : 'any',
+  available: params.availableStatus !== undefined ? params.availableStatus === 'true' : undefined,
+  authors: listParam(params.authors, false),
+  languages: listParam(params.languages),
+  decades: intListParam(params.decades),
+  formats: listParam(params.formats).filter((format): format is BookFormat => (BOOK_FORMATS as readonly string[]).includes(format)),
+});
+
+/**
+ * The facets to count: all of them for facets=true, or those listed
+ */
+const facetsParam = (value: string | undefined): BookFacet[] =>
+  value === 'true'
+    ? [...BOOK_FACETS]
+    : listParam(value).filter((facet): facet is BookFacet => (BOOK_FACETS as readonly string[]).includes(facet));
+
+// Get all books with pagination, search, and filters. Searches are full-text,
+// ranked, and return the title and description passages that matched. A search
+// with no hits is run again with similar words, and the corrected search is
+// returned as didYouMean if that finds books. Fields in a search, such as
+// author:pratchett or year:>1990, narrow it (see utils/bookQuery), and a
+// malformed one is a 400. With facets, the response also counts the books for
+// each category, availability, author, language, publication decade and format.
 router.get('/', validatePagination, asyncHandler(async (req: AuthRequest, res: Response) => {
-  const { search, availableStatus, categoryIds, sortBy, sortOrder, page, limit } = req.query as BookQueryParams;
+  const { search, sortBy, sortOrder, page, limit } = req.query as BookQueryParams;
+  const bookQuery = parseBookQuery(String(search ?? ''));
+  const filters = { ...bookFiltersOf(req.query as BookQueryParams), query: bookQuery.conditions };
+  const facets = facetsParam((req.query as BookQueryParams).facets);
 
   // Pagination parameters
   const pageNum = parseInt(page || '1', 10);
   const limitNum = parseInt(limit || '25', 10);
   const offset = (pageNum - 1) * limitNum;
 
+  const params: any[] = [];
+  const conditions: string[] = [];
+  let paramIndex = 1;
+
+  const tsquery = toTsQuery(bookQuery.text);
+  const searchSql = tsquery ? bookSearchSql(`$${paramIndex}`) : null;
+  if (searchSql) {
+    conditions.push(searchSql.condition);
+    params.push(tsquery);
+    paramIndex++;
+  }
+
   let queryText = `
     SELECT
       b.*,
+      EXISTS (SELECT 1 FROM holds h WHERE h.book_id = b.id AND h.status = 'ready') AS on_hold_shelf,
+      ${COPY_COUNTS_SQL},
+      ${searchSql ? `${searchSql.columns},` : ''}
       COALESCE(json_agg(json_build_object('id', c.id, 'name', c.name) ORDER BY c.name) FILTER (WHERE c.id IS NOT NULL), '[]') AS categories
     FROM books b
+    ${searchSql ? searchSql.join : ''}
     LEFT JOIN book_categories bc ON b.id = bc.book_id
     LEFT JOIN categories c ON bc.category_id = c.id
   `;
-  const params: any[] = [];
-  const conditions: string[] = [];
-  let paramIndex = 1;
 
-  if (search) {
-    conditions.push(`(LOWER(b.title) LIKE $${paramIndex} OR LOWER(b.author) LIKE $${paramIndex} OR LOWER(b.isbn) LIKE $${paramIndex})`);
-    params.push(`%${String(search).toLowerCase()}%`);
-    paramIndex++;
-  }
-
-  if (availableStatus !== undefined) {
-    const isAvailable = availableStatus === 'true';
-    conditions.push(`b.available = $${paramIndex}`);
-    params.push(isAvailable);
-    paramIndex++;
-  }
-
-  if (categoryIds) {
-    const ids = String(categoryIds).split(',').map(id => parseInt(id.trim(), 10)).filter(id => !isNaN(id));
-    if (ids.length > 0) {
-      conditions.push(`b.id IN (
-        SELECT DISTINCT bc_filter.book_id
-        FROM book_categories bc_filter
-        WHERE bc_filter.category_id = ANY($${paramIndex}::int[])
-      )`);
-      params.push(ids);
-      paramIndex += 1;
-    }
-  }
+  conditions.push(...bookFilterConditions(filters, value => {
+    params.push(value);
+    return `$${paramIndex++}`;
+  }));
 
   if (conditions.length > 0) {
     queryText += ` WHERE ${conditions.join(' AND ')}`;
   }
 
-  queryText += ' GROUP BY b.id';
+  // The search vector's primary key is grouped so its columns can be ranked
+  queryText += searchSql ? ' GROUP BY b.id, bs.book_id' : ' GROUP BY b.id';
 
   // Get total count before pagination
   const countQuery = `SELECT COUNT(*) FROM (${queryText}) AS count_query`;
   const { rows: countRows } = await query<{ count: string }>(countQuery, params);
-  const totalCount = parseInt(countRows[0].count, 10);
+  let totalCount = parseInt(countRows[0].count, 10);
+
+  let didYouMean: string | undefined;
+  if (searchSql && totalCount === 0) {
+    const similarWords = await bookService.findSimilarWords(bookQuery.text);
+    if (similarWords.size > 0) {
+      params[0] = toTsQuery(bookQuery.text, { similarWords });
+      const { rows: fuzzyCountRows } = await query<{ count: string }>(countQuery, params);
+      totalCount = parseInt(fuzzyCountRows[0].count, 10);
+      didYouMean = totalCount > 0 ? correctBookQuery(String(search), similarWords) : undefined;
+    }
+  }
 
   const validSortColumns = ['title', 'author', 'isbn', 'available', 'id'];
-  const finalSortBy = validSortColumns.includes(String(sortBy).toLowerCase()) ? String(sortBy) : 'id';
   const finalSortOrder = String(sortOrder).toLowerCase() === 'desc' ? 'DESC' : 'ASC';
 
-  queryText += ` ORDER BY b.${finalSortBy} ${finalSortOrder}`;
+  // Searches are sorted by relevance unless another order is asked for
+  if (searchSql && (sortBy === undefined || sortBy === 'relevance')) {
+    queryText += ' ORDER BY search_rank DESC, b.title ASC';
+  } else {
+    const finalSortBy = validSortColumns.includes(String(sortBy).toLowerCase()) ? String(sortBy) : 'id';
+    queryText += ` ORDER BY b.${finalSortBy} ${finalSortOrder}`;
+  }
 
   // Add pagination
   queryText += ` LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`;
   params.push(limitNum, offset);
 
-  const { rows } = await query<BookWithCategoriesDB>(queryText, params);
+  const [{ rows }, facetCounts] = await Promise.all([
+    query<BookWithCategoriesDB>(queryText, params),
+    // Counted for the search that found the books, corrected or not
+    facets.length > 0 ? bookService.countFacets(facets, searchSql ? params[0] : null, filters) : undefined,
+  ]);
 
   res.json({
     data: rows,
@@ -106,73 +169,35 @@ router.get('/', validatePagination, asyncHandler(async (req: AuthRequest, res: R
       limit: limitNum,
       total: totalCount,
       totalPages: Math.ceil(totalCount / limitNum)
-    }
+    },
+    ...(didYouMean !== undefined && { didYouMean }),
+    ...(facetCounts && { facets: facetCounts }),
   });
 }));
 
+// Suggest books as a search is typed: the best title and author matches,
+// allowing for typos
+router.get('/suggest', asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { q, limit } = req.query as { q?: string; limit?: string };
+  const limitNum = Math.min(Math.max(parseInt(limit || '8', 10) || 8, 1), 20);
+
+  const suggestions = await bookService.suggestBooks(String(q ?? ''), limitNum);
+  res.json({ data: suggestions });
+}));
+
 // ISBN lookup from Open Library and Google Books
-router.post('/lookup', authUtils.authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+router.post('/lookup', authUtils.authenticateToken, authUtils.requirePermission('books:write'), asyncHandler(async (req: AuthRequest, res: Response) => {
   const { isbn } = req.body;
 
   if (!isbn) {
     throw new AppError('ISBN is required', 400);
   }
 
-  let bookData = {
-    title: '',
-    author: '',
-    coverUrl: '',
-    description: '',
-  };
-
-  // 1. Try Open Library
-  try {
-    const openLibraryUrl = `https://openlibrary.org/api/books?bibkeys=ISBN:${isbn}&format=json&jscmd=data`;
-    const openLibraryResponse = await axios.get(openLibraryUrl);
-    const olData = openLibraryResponse.data[`ISBN:${isbn}`];
-
-    if (olData) {
-      bookData.title = olData.title || '';
-      bookData.author = olData.authors ? olData.authors.map((a: any) => a.name).join(', ') : '';
-      if (olData.cover && olData.cover.large) {
-        bookData.coverUrl = olData.cover.large;
-      } else {
-        bookData.coverUrl = `https://covers.openlibrary.org/b/isbn/${isbn}-L.jpg`;
-      }
-    }
-  } catch (olErr: any) {
-    console.error('Open Library lookup failed:', olErr.message);
-  }
-
-  // 2. Fallback to Google Books if data is incomplete and key is provided
-  const googleApiKey = config.googleBooksApiKey;
-  if ((!bookData.title || !bookData.coverUrl) && googleApiKey) {
-    try {
-      const googleBooksUrl = `https://www.googleapis.com/books/v1/volumes?q=isbn:${isbn}&key=${googleApiKey}`;
-      const googleBooksResponse = await axios.get(googleBooksUrl);
-      const gbData = googleBooksResponse.data.items && googleBooksResponse.data.items[0];
-
-      if (gbData) {
-        if (!bookData.title) {
-          bookData.title = gbData.volumeInfo.title || '';
-        }
-        if (!bookData.author && gbData.volumeInfo.authors) {
-          bookData.author = gbData.volumeInfo.authors.join(', ');
-        }
-        if (!bookData.coverUrl && gbData.volumeInfo.imageLinks) {
-          bookData.coverUrl = gbData.volumeInfo.imageLinks.thumbnail || gbData.volumeInfo.imageLinks.smallThumbnail || '';
-        }
-        if (!bookData.description && gbData.volumeInfo.description) {
-          bookData.description = gbData.volumeInfo.description;
-        }
-      }
-    } catch (gbErr: any) {
-      console.error('Google Books lookup failed:', gbErr.message);
-    }
-  }
+  const bookData = await lookupIsbnMetadata(isbn);
 
   // Check if we found any data
   if (!bookData.title && !bookData.author) {
+    const googleApiKey = config.googleBooksApiKey;
     let finalErrorMessage = 'Book not found for the provided ISBN.';
     if (!googleApiKey || googleApiKey === 'YOUR_GOOGLE_BOOKS_API_KEY_HERE') {
       finalErrorMessage = 'Book not found via Open Library. Google Books API key is missing or invalid, so no fallback was attempted.';
@@ -185,270 +210,63 @@ router.post('/lookup', authUtils.authenticateToken, asyncHandler(async (req: Aut
   res.json(bookData);
 }));
 
-// Create a new book
-router.post('/', authUtils.authenticateToken, validateBook, asyncHandler(async (req: AuthRequest, res: Response) => {
-  const { title, author, isbn, description, categoryIds } = req.body;
-
-  const client = await pool.connect();
-  try {
-    await client.query('BEGIN');
-
-    const { rows } = await client.query<Book>(
-      'INSERT INTO books (title, author, isbn, description) VALUES ($1, $2, $3, $4) RETURNING *',
-      [title, author, isbn || null, description || null]
-    );
-    const newBook = rows[0];
-
-    if (categoryIds && categoryIds.length > 0) {
-      for (const categoryId of categoryIds) {
-        await client.query(
-          'INSERT INTO book_categories (book_id, category_id) VALUES ($1, $2)',
-          [newBook.id, categoryId]
-        );
-      }
-    }
-
-    await client.query('COMMIT');
-    res.status(201).json(newBook);
-  } catch (err) {
-    await client.query('ROLLBACK');
-    throw err;
-  } finally {
-    client.release();
-  }
+// Create a new book with a single copy
+router.post('/', authUtils.authenticateToken, authUtils.requirePermission('books:write'), validateBook, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { title, author, isbn, description, language, publication_year, format, categoryIds } = req.body;
+
+  const book = await bookService.createBook({
+    title,
+    author,
+    isbn: isbn || null,
+    description: description || null,
+    language: language || null,
+    publication_year: publication_year || null,
+    format: format || null,
+    categoryIds
+  });
+  res.status(201).json(book);
 }));
 
-// Update a book
-router.put('/:id', authUtils.authenticateToken, validateBook, asyncHandler(async (req: AuthRequest, res: Response) => {
-  const { id } = req.params;
-  const { title, author, isbn, available, cover_image_path, description, categoryIds } = req.body;
-
-  const client = await pool.connect();
-  try {
-    await client.query('BEGIN');
-
-    // Get the old book data to check for old cover image
-    const { rows: oldBookRows } = await client.query<Book>('SELECT cover_image_path FROM books WHERE id = $1', [id]);
-
-    if (oldBookRows.length === 0) {
-      await client.query('ROLLBACK');
-      throw new AppError('Book not found', 404);
-    }
-
-    const oldCoverPath = oldBookRows[0].cover_image_path;
-
-    const { rows } = await client.query<Book>(
-      'UPDATE books SET title = $1, author = $2, isbn = $3, available = $4, cover_image_path = $5, description = $6 WHERE id = $7 RETURNING *',
-      [title, author, isbn || null, available !== undefined ? available : true, cover_image_path || null, description || null, id]
-    );
-
-    const updatedBook = rows[0];
-
-    // Delete old cover image file if it was removed or changed
-    if (oldCoverPath && oldCoverPath !== cover_image_path) {
-      const filePath = path.join(uploadsDir, path.basename(oldCoverPath));
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
-        console.log(`Deleted old cover image: ${filePath}`);
-      }
-    }
-
-    // Update categories
-    await client.query('DELETE FROM book_categories WHERE book_id = $1', [id]);
-
-    if (categoryIds && categoryIds.length > 0) {
-      for (const categoryId of categoryIds) {
-        await client.query(
-          'INSERT INTO book_categories (book_id, category_id) VALUES ($1, $2)',
-          [id, categoryId]
-        );
-      }
-    }
-
-    await client.query('COMMIT');
-    res.json(updatedBook);
-  } catch (err) {
-    await client.query('ROLLBACK');
-    throw err;
-  } finally {
-    client.release();
+// Update a book. Availability is derived from the book's copies and is not editable here.
+router.put('/:id', authUtils.authenticateToken, authUtils.requirePermission('books:write'), validateBook, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const id = parseInt(req.params.id, 10);
+  if (isNaN(id)) {
+    throw new AppError('Invalid book ID', 400);
   }
+
+  const { title, author, isbn, cover_image_path, description, language, publication_year, format, categoryIds } = req.body;
+  const book = await bookService.updateBook(id, {
+    title,
+    author,
+    isbn: isbn || null,
+    cover_image_path: cover_image_path || null,
+    description: description || null,
+    language: language || null,
+    publication_year: publication_year || null,
+    format: format || null,
+    categoryIds: categoryIds || []
+  });
+  res.json(book);
 }));
 
 // Delete a book
-router.delete('/:id', authUtils.authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
-  const { id } = req.params;
-
-  // Get the book to check if it has a cover image
-  const { rows: bookRows } = await query<Book>('SELECT cover_image_path FROM books WHERE id = $1', [id]);
-
-  if (bookRows.length === 0) {
-    throw new AppError('Book not found', 404);
-  }
-
-  const { rowCount } = await query('DELETE FROM books WHERE id = $1', [id]);
-
-  if (!rowCount || rowCount === 0) {
-    throw new AppError('Book not found', 404);
-  }
-
-  // Delete the cover image file if it exists
-  if (bookRows[0].cover_image_path) {
-    const filePath = path.join(uploadsDir, path.basename(bookRows[0].cover_image_path));
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
-      console.log(`Deleted cover image: ${filePath}`);
-    }
+router.delete('/:id', authUtils.authenticateToken, authUtils.requirePermission('books:write'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const id = parseInt(req.params.id, 10);
+  if (isNaN(id)) {
+    throw new AppError('Invalid book ID', 400);
   }
 
+  await bookService.deleteBook(id);
   res.status(204).send();
 }));
 
-// Bulk import books from CSV
-router.post('/bulk-import', authUtils.authenticateToken, csvUpload.single('file'), asyncHandler(async (req: AuthRequest, res: Response) => {
-  if (!req.file) {
-    throw new AppError('CSV file is required', 400);
-  }
-
-  // Log file details for debugging
-  console.log('CSV Upload Details:', {
-    filename: req.file.originalname,
-    mimetype: req.file.mimetype,
-    size: req.file.size,
-    bufferLength: req.file.buffer?.length,
-  });
-
-  let records: any[];
-  try {
-    records = parse(req.file.buffer, {
-      columns: true,
-      skip_empty_lines: true,
-      trim: true,
-      bom: true, // Handle UTF-8 BOM (Byte Order Mark) from Excel
-      relax_column_count: true, // Allow rows with different column counts
-      skip_records_with_error: true, // Skip malformed rows instead of failing
-    });
-    console.log(`Parsed ${records.length} records from CSV`);
-  } catch (error) {
-    console.error('CSV Parse Error:', error);
-    throw new AppError(`Invalid CSV file format: ${error instanceof Error ? error.message : 'Unknown error'}`, 400);
-  }
-
-  if (!records || records.length === 0) {
-    throw new AppError('CSV file is empty or contains no valid data rows', 400);
-  }
-
-  const importedBooks: any[] = [];
-  const errors: string[] = [];
-  const client = await pool.connect();
-
-  try {
-    await client.query('BEGIN');
-
-    for (const [index, record] of records.entries()) {
-      const { title, author, isbn, cover_image_path, cover_image_url, categories } = record;
-
-      if (!title || !author) {
-        errors.push(`Row ${index + 1}: Missing required field (title/author)`);
-        continue;
-      }
-
-      let finalCoverPath: string | null = cover_image_path || null;
-
-      // If cover_image_url is provided, download it
-      const coverUrl = cover_image_url || cover_image_path;
-      if (coverUrl && /^https?:\/\/.+/i.test(coverUrl)) {
-        try {
-          const imageResponse = await axios.get(coverUrl, {
-            responseType: 'arraybuffer',
-            timeout: 10000, // 10 second timeout
-          });
-
-          const fileExt = path.extname(new URL(coverUrl).pathname) || '.jpg';
-          finalCoverPath = `/uploads/${uuidv4()}${fileExt}`;
-          const savePath = path.join(uploadsDir, path.basename(finalCoverPath));
-
-          fs.writeFileSync(savePath, imageResponse.data);
-        } catch (err) {
-          errors.push(`Row ${index + 1}: Failed to download cover image from URL - ${err instanceof Error ? err.message : 'Unknown error'}`);
-          finalCoverPath = null;
-        }
-      }
-
-      // Try inserting book record
-      try {
-        const result = await client.query<{ id: number }>(
-          `INSERT INTO books (title, author, isbn, cover_image_path)
-          VALUES ($1, $2, $3, $4)
-          ON CONFLICT (isbn) DO NOTHING
-          RETURNING id`,
-          [title.trim(), author.trim(), isbn || null, finalCoverPath]
-        );
-
-        if (result.rows.length) {
-          const bookId = result.rows[0].id;
-          importedBooks.push(result.rows[0]);
-
-          // Handle categories if provided (comma-separated)
-          if (categories && typeof categories === 'string' && categories.trim()) {
-            const categoryNames = categories.split(',').map((c: string) => c.trim()).filter(Boolean);
-
-            for (const categoryName of categoryNames) {
-              try {
-                // Get or create category
-                let categoryId: number;
-                const existingCategory = await client.query<{ id: number }>(
-                  'SELECT id FROM categories WHERE LOWER(name) = LOWER($1)',
-                  [categoryName]
-                );
-
-                if (existingCategory.rows.length > 0) {
-                  categoryId = existingCategory.rows[0].id;
-                } else {
-                  // Create new category
-                  const newCategory = await client.query<{ id: number }>(
-                    'INSERT INTO categories (name) VALUES ($1) RETURNING id',
-                    [categoryName]
-                  );
-                  categoryId = newCategory.rows[0].id;
-                }
-
-                // Associate category with book
-                await client.query(
-                  'INSERT INTO book_categories (book_id, category_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
-                  [bookId, categoryId]
-                );
-              } catch (catErr: any) {
-                errors.push(`Row ${index + 1}: Failed to add category '${categoryName}' - ${catErr.message}`);
-              }
-            }
-          }
-        } else {
-          errors.push(`Row ${index + 1}: Duplicate ISBN (${isbn})`);
-        }
-      } catch (err: any) {
-        errors.push(`Row ${index + 1} insert failed: ${err.message}`);
-      }
-    }
-
-    await client.query('COMMIT');
-  } catch (err) {
-    await client.query('ROLLBACK');
-    throw new AppError('Import failed. Transaction aborted.', 500);
-  } finally {
-    client.release();
-  }
-
-  res.status(errors.length ? 207 : 200).json({
-    message: `${importedBooks.length} books imported${errors.length ? `, ${errors.length} issues` : ''}.`,
-    importedBooks,
-    errors,
-  });
-}));
+// Bulk import books from CSV: preview, confirm, progress and error report
+router.use('/bulk-import', createImportRouter('books', 'books:write'));
 
 // Upload book cover image
 router.post('/:id/cover',
   authUtils.authenticateToken,
+  authUtils.requirePermission('books:write'),
   (req: AuthRequest, res: Response, next: NextFunction) => {
     if (!req.params.id) {
       return next(new AppError('Book ID required', 400));
@@ -457,47 +275,31 @@ router.post('/:id/cover',
   },
   coverUpload.single('cover'),
   asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { id } = req.params;
-
     if (!req.file) {
       throw new AppError('No file uploaded', 400);
     }
 
-    // Get the old cover path before updating
-    const { rows: oldBookRows } = await query<Book>('SELECT cover_image_path FROM books WHERE id = $1', [id]);
-
-    if (oldBookRows.length === 0) {
-      // Delete the newly uploaded file since book doesn't exist
+    const id = parseInt(req.params.id, 10);
+    try {
+      if (isNaN(id)) {
+        throw new AppError('Invalid book ID', 400);
+      }
+      // The old cover, if any, is deleted once replaced
+      const book = await bookService.updateBook(id, { cover_image_path: `/uploads/${req.file.filename}` });
+      res.json(book);
+    } catch (err) {
+      // Delete the newly uploaded file since it was not used
       const uploadedFilePath = path.join(uploadsDir, req.file.filename);
       if (fs.existsSync(uploadedFilePath)) {
         fs.unlinkSync(uploadedFilePath);
       }
-      throw new AppError('Book not found', 404);
-    }
-
-    const oldCoverPath = oldBookRows[0].cover_image_path;
-    const cover_image_path = `/uploads/${req.file.filename}`;
-
-    const { rows } = await query<Book>(
-      'UPDATE books SET cover_image_path = $1 WHERE id = $2 RETURNING *',
-      [cover_image_path, id]
-    );
-
-    // Delete old cover image file if it exists
-    if (oldCoverPath) {
-      const filePath = path.join(uploadsDir, path.basename(oldCoverPath));
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
-        console.log(`Deleted old cover image: ${filePath}`);
-      }
+      throw err;
     }
-
-    res.json(rows[0]);
   })
 );
 
 // Bulk delete books
-router.post('/bulk-delete', authUtils.authenticateToken, authUtils.checkAdmin, asyncHandler(async (req: AuthRequest, res: Response) => {
+router.post('/bulk-delete', authUtils.authenticateToken, authUtils.requirePermission('books:write'), asyncHandler(async (req: AuthRequest, res: Response) => {
   const { bookIds } = req.body;
 
   if (!Array.isArray(bookIds) || bookIds.length === 0) {
@@ -509,48 +311,16 @@ router.post('/bulk-delete', authUtils.authenticateToken, authUtils.checkAdmin, a
     throw new AppError('All book IDs must be numbers', 400);
   }
 
-  const client = await pool.connect();
-  try {
-    await client.query('BEGIN');
-
-    // Get all books to check for cover images
-    const { rows: books } = await client.query<Book>(
-      'SELECT id, cover_image_path FROM books WHERE id = ANY($1)',
-      [bookIds]
-    );
-
-    // Delete books (categories will be cascade deleted)
-    const { rowCount } = await client.query(
-      'DELETE FROM books WHERE id = ANY($1)',
-      [bookIds]
-    );
-
-    // Delete cover image files
-    for (const book of books) {
-      if (book.cover_image_path) {
-        const filePath = path.join(uploadsDir, path.basename(book.cover_image_path));
-        if (fs.existsSync(filePath)) {
-          fs.unlinkSync(filePath);
-          console.log(`Deleted cover image: ${filePath}`);
-        }
-      }
-    }
-
-    await client.query('COMMIT');
-    res.json({
-      message: `Successfully deleted ${rowCount} books`,
-      deletedCount: rowCount
-    });
-  } catch (err) {
-    await client.query('ROLLBACK');
-    throw err;
-  } finally {
-    client.release();
-  }
+  // Copies and categories are cascade deleted
+  const deletedCount = await bookService.deleteBooks(bookIds);
+  res.json({
+    message: `Successfully deleted ${deletedCount} books`,
+    deletedCount
+  });
 }));
 
 // Bulk update availability
-router.post('/bulk-update-availability', authUtils.authenticateToken, authUtils.checkAdmin, asyncHandler(async (req: AuthRequest, res: Response) => {
+router.post('/bulk-update-availability', authUtils.authenticateToken, authUtils.requirePermission('books:write'), asyncHandler(async (req: AuthRequest, res: Response) => {
   const { bookIds, available } = req.body;
 
   if (!Array.isArray(bookIds) || bookIds.length === 0) {
@@ -566,19 +336,18 @@ router.post('/bulk-update-availability', authUtils.authenticateToken, authUtils.
     throw new AppError('All book IDs must be numbers', 400);
   }
 
-  const { rowCount } = await query(
-    'UPDATE books SET available = $1 WHERE id = ANY($2)',
-    [available, bookIds]
-  );
+  // Availability follows the copies: take the copies on the shelf out of
+  // circulation, or put the ones staff took out back into it
+  const updatedCount = await copyService.setBooksAvailability(bookIds, available);
 
   res.json({
-    message: `Successfully updated ${rowCount} books`,
-    updatedCount: rowCount
+    message: `Successfully updated ${updatedCount} copies`,
+    updatedCount
   });
 }));
 
 // Bulk add categories
-router.post('/bulk-add-categories', authUtils.authenticateToken, authUtils.checkAdmin, asyncHandler(async (req: AuthRequest, res: Response) => {
+router.post('/bulk-add-categories', authUtils.authenticateToken, authUtils.requirePermission('books:write'), asyncHandler(async (req: AuthRequest, res: Response) => {
   const { bookIds, categoryIds } = req.body;
 
   if (!Array.isArray(bookIds) || bookIds.length === 0) {
@@ -629,7 +398,7 @@ router.post('/bulk-add-categories', authUtils.authenticateToken, authUtils.check
 }));
 
 // Bulk remove categories
-router.post('/bulk-remove-categories', authUtils.authenticateToken, authUtils.checkAdmin, asyncHandler(async (req: AuthRequest, res: Response) => {
+router.post('/bulk-remove-categories', authUtils.authenticateToken, authUtils.requirePermission('books:write'), asyncHandler(async (req: AuthRequest, res: Response) => {
   const { bookIds, categoryIds } = req.body;
 
   if (!Array.isArray(bookIds) || bookIds.length === 0) {
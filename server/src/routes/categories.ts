@@ -1,6 +1,6 @@
 /**
  * Categories routes
- * Handles category CRUD operations (admin-only for CUD)
+ * Handles category CRUD operations (books:write permission for CUD)
  */
 
 import express, { Response } from 'express';
@@ -19,10 +19,10 @@ router.get('/', asyncHandler(async (req: AuthRequest, res: Response) => {
   res.json(rows);
 }));
 
-// Create a new category (admin-only)
+// Create a new category (books:write)
 router.post('/',
   authUtils.authenticateToken,
-  authUtils.checkAdmin,
+  authUtils.requirePermission('books:write'),
   validateCategory,
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const { name } = req.body;
@@ -36,10 +36,10 @@ router.post('/',
   })
 );
 
-// Update a category (admin-only)
+// Update a category (books:write)
 router.put('/:id',
   authUtils.authenticateToken,
-  authUtils.checkAdmin,
+  authUtils.requirePermission('books:write'),
   validateCategory,
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
@@ -58,10 +58,10 @@ router.put('/:id',
   })
 );
 
-// Delete a category (admin-only)
+// Delete a category (books:write)
 router.delete('/:id',
   authUtils.authenticateToken,
-  authUtils.checkAdmin,
+  authUtils.requirePermission('books:write'),
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
 
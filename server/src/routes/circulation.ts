@@ -0,0 +1,62 @@
+/**
+ * Circulation desk routes (loans:checkout permission)
+ * Resolves scanned barcodes and checks batches of items out and in
+ */
+
+import express, { Response } from 'express';
+import * as authUtils from '../utils/authUtils';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { validateCirculationBatch } from '../middleware/validation';
+import { AuthRequest } from '../types/express';
+import { DeskCheckinRequest, DeskCheckoutRequest } from '../types/circulation';
+import { CirculationService } from '../services/CirculationService';
+
+const router = express.Router();
+const circulationService = new CirculationService();
+
+// Identify a scanned member card, copy barcode or ISBN
+router.get('/resolve',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('loans:checkout'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const code = typeof req.query.code === 'string' ? req.query.code.trim() : '';
+    if (!code || code.length > 50) {
+      throw new AppError('A scanned code of at most 50 characters is required', 400);
+    }
+
+    const scan = await circulationService.resolveCode(code);
+    res.json(scan);
+  })
+);
+
+// Check out a batch of scanned items to a member
+router.post('/checkout',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('loans:checkout'),
+  validateCirculationBatch,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { member_code, codes } = req.body as DeskCheckoutRequest;
+    const items = await circulationService.checkout(member_code, codes);
+    res.status(201).json({
+      message: `${items.length} ${items.length === 1 ? 'item' : 'items'} checked out`,
+      items
+    });
+  })
+);
+
+// Return a batch of scanned items
+router.post('/checkin',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('loans:checkout'),
+  validateCirculationBatch,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { codes } = req.body as DeskCheckinRequest;
+    const items = await circulationService.checkin(codes);
+    res.json({
+      message: `${items.length} ${items.length === 1 ? 'item' : 'items'} returned`,
+      items
+    });
+  })
+);
+
+export default router;
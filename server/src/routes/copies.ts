@@ -0,0 +1,115 @@
+/**
+ * Copies routes
+ * Handles the physical copies (items) of each book (books:write permission for changes)
+ *
+ * Who has a copy out is visible to staff with members:read or loans:checkout;
+ * patrons only see the borrower details of their own loans.
+ */
+
+import express, { Response } from 'express';
+import * as authUtils from '../utils/authUtils';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { validateCopy } from '../middleware/validation';
+import { AuthRequest } from '../types/express';
+import { CopyService } from '../services/CopyService';
+import { CopyWithDetails } from '../types/copy';
+
+const router = express.Router();
+const copyService = new CopyService();
+
+const pickCopyInput = (body: any) => ({
+  barcode: body.barcode,
+  condition: body.condition,
+  location: body.location,
+  acquisition_date: body.acquisition_date,
+  price: body.price
+});
+
+const canSeeBorrowers = (req: AuthRequest): boolean =>
+  authUtils.hasPermission(req.user, 'members:read') || authUtils.hasPermission(req.user, 'loans:checkout');
+
+// Blank out who has a copy and when it is due, unless the loan is the caller's own
+const hideOtherBorrowers = (copy: CopyWithDetails, memberId: number | null | undefined): CopyWithDetails => {
+  if (copy.member_id == null || copy.member_id === memberId) {
+    return copy;
+  }
+  return { ...copy, member_id: null, member_name: null, due_date: null };
+};
+
+// Get the copies of a book
+router.get('/book/:bookId',
+  authUtils.authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const bookId = parseInt(req.params.bookId, 10);
+    if (isNaN(bookId)) {
+      throw new AppError('Invalid book ID', 400);
+    }
+
+    const copies = await copyService.getBookCopies(bookId);
+    if (canSeeBorrowers(req)) {
+      res.json(copies);
+      return;
+    }
+
+    res.json(copies.map(copy => hideOtherBorrowers(copy, req.user?.memberId)));
+  })
+);
+
+// Add a copy to a book
+router.post('/',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('books:write'),
+  validateCopy,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const copy = await copyService.addCopy(req.body.book_id, pickCopyInput(req.body));
+    res.status(201).json(copy);
+  })
+);
+
+// Update a copy
+router.put('/:id',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('books:write'),
+  validateCopy,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid copy ID', 400);
+    }
+
+    const copy = await copyService.updateCopy(id, { ...pickCopyInput(req.body), status: req.body.status }, req.user?.userId);
+    res.json(copy);
+  })
+);
+
+// Get the condition history of a copy
+router.get('/:id/history',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('loans:checkout'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid copy ID', 400);
+    }
+
+    const history = await copyService.getConditionHistory(id);
+    res.json(history);
+  })
+);
+
+// Delete a copy
+router.delete('/:id',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('books:write'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid copy ID', 400);
+    }
+
+    await copyService.deleteCopy(id);
+    res.status(204).send();
+  })
+);
+
+export default router;
@@ -1,15 +1,27 @@
 /**
  * Data export routes
- * Handles CSV export for books, members, and loans
+ * Handles CSV export for books, members, and loans, and MARC 21 export for books.
+ * Books can be narrowed to those a saved search or smart collection finds.
  */
 
 import express, { Response } from 'express';
 import { query } from '../db';
 import * as authUtils from '../utils/authUtils';
-import { asyncHandler } from '../middleware/errorHandler';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
 import { AuthRequest } from '../types/express';
+import { LoanOutcome, LOAN_OUTCOMES } from '../types/loan';
+import { marcRecordOfBook } from '../imports/sources/marc';
+import { writeMarc21, writeMarcXml } from '../utils/marc';
+import { bookMatchSql } from '../repositories/BookRepository';
+import { SavedSearchService } from '../services/SavedSearchService';
 
 const router = express.Router();
+const savedSearchService = new SavedSearchService();
+
+// Books can be exported as CSV, as MARC 21 (ISO 2709) or as MARCXML
+const BOOK_EXPORT_FORMATS = ['csv', 'marc21', 'marcxml'] as const;
+
+type BookExportFormat = typeof BOOK_EXPORT_FORMATS[number];
 
 // Helper function to convert array of objects to CSV
 const convertToCSV = (data: any[], headers: string[]): string => {
@@ -52,12 +64,27 @@ const convertToCSV = (data: any[], headers: string[]): string => {
   return csvRows.join('\n');
 };
 
-// Export books to CSV
+// Export books to CSV or MARC, all of them or those a saved search finds now
 router.get('/books',
   authUtils.authenticateToken,
-  authUtils.checkAdmin,
+  authUtils.requirePermission('export:run'),
   asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { startDate, endDate } = req.query as { startDate?: string; endDate?: string };
+    const { startDate, endDate, format = 'csv', savedSearchId } = req.query as {
+      startDate?: string;
+      endDate?: string;
+      format?: BookExportFormat;
+      savedSearchId?: string;
+    };
+
+    if (!BOOK_EXPORT_FORMATS.includes(format)) {
+      throw new AppError(`Format must be one of: ${BOOK_EXPORT_FORMATS.join(', ')}`, 400);
+    }
+    if (savedSearchId !== undefined && isNaN(parseInt(savedSearchId, 10))) {
+      throw new AppError('Invalid saved search ID', 400);
+    }
+    const savedSearch = savedSearchId !== undefined
+      ? await savedSearchService.getSavedSearch(parseInt(savedSearchId, 10), req.user!.userId)
+      : null;
 
     let queryText = `
     SELECT
@@ -67,11 +94,10 @@ router.get('/books',
       b.isbn,
       b.available,
       b.cover_image_path,
+      b.description,
       b.created_at,
       STRING_AGG(c.name, '; ') as categories
     FROM books b
-    LEFT JOIN book_categories bc ON b.id = bc.book_id
-    LEFT JOIN categories c ON bc.category_id = c.id
   `;
 
     const params: any[] = [];
@@ -90,6 +116,20 @@ router.get('/books',
       paramIndex++;
     }
 
+    if (savedSearch) {
+      const match = bookMatchSql(savedSearch.search, savedSearch.filters, value => {
+        params.push(value);
+        return `$${paramIndex++}`;
+      });
+      queryText += ` ${match.join}`;
+      conditions.push(...match.conditions);
+    }
+
+    queryText += `
+    LEFT JOIN book_categories bc ON b.id = bc.book_id
+    LEFT JOIN categories c ON bc.category_id = c.id
+  `;
+
     if (conditions.length > 0) {
       queryText += ` WHERE ${conditions.join(' AND ')}`;
     }
@@ -98,6 +138,24 @@ router.get('/books',
 
     const { rows } = await query(queryText, params);
 
+    if (format !== 'csv') {
+      const records = rows.map(book => marcRecordOfBook({
+        ...book,
+        categories: book.categories ? book.categories.split('; ') : [],
+      }));
+
+      if (format === 'marcxml') {
+        res.setHeader('Content-Type', 'application/marcxml+xml; charset=utf-8');
+        res.setHeader('Content-Disposition', 'attachment; filename=books_export.xml');
+        res.send(writeMarcXml(records));
+      } else {
+        res.setHeader('Content-Type', 'application/marc');
+        res.setHeader('Content-Disposition', 'attachment; filename=books_export.mrc');
+        res.send(writeMarc21(records));
+      }
+      return;
+    }
+
     const headers = ['id', 'title', 'author', 'isbn', 'available', 'cover_image_path', 'categories', 'created_at'];
     const csv = convertToCSV(rows, headers);
 
@@ -113,11 +171,13 @@ router.get('/books',
 // Export members to CSV
 router.get('/members',
   authUtils.authenticateToken,
-  authUtils.checkAdmin,
+  authUtils.requirePermission('export:run'),
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const { startDate, endDate } = req.query as { startDate?: string; endDate?: string };
 
-    let queryText = 'SELECT id, name, email, phone, created_at FROM members';
+    let queryText = `SELECT id, name, email, phone, created_at, member_type,
+      (SELECT COALESCE(SUM(e.amount), 0) FROM member_account_entries e WHERE e.member_id = members.id) AS outstanding_balance
+      FROM members`;
     const params: any[] = [];
     const conditions: string[] = [];
     let paramIndex = 1;
@@ -142,7 +202,7 @@ router.get('/members',
 
     const { rows } = await query(queryText, params);
 
-    const headers = ['id', 'name', 'email', 'phone', 'created_at'];
+    const headers = ['id', 'name', 'email', 'phone', 'created_at', 'member_type', 'outstanding_balance'];
     const csv = convertToCSV(rows, headers);
 
     // Add UTF-8 BOM for Excel compatibility with Unicode characters (Malayalam, etc.)
@@ -157,14 +217,19 @@ router.get('/members',
 // Export loans to CSV
 router.get('/loans',
   authUtils.authenticateToken,
-  authUtils.checkAdmin,
+  authUtils.requirePermission('export:run'),
   asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { startDate, endDate, status } = req.query as {
+    const { startDate, endDate, status, outcome } = req.query as {
       startDate?: string;
       endDate?: string;
       status?: 'active' | 'overdue' | 'returned';
+      outcome?: LoanOutcome;
     };
 
+    if (outcome && !LOAN_OUTCOMES.includes(outcome)) {
+      throw new AppError(`Outcome must be one of: ${LOAN_OUTCOMES.join(', ')}`, 400);
+    }
+
     let queryText = `
     SELECT
       l.id,
@@ -173,9 +238,12 @@ router.get('/loans',
       b.isbn as book_isbn,
       m.name as member_name,
       m.email as member_email,
+      c.barcode as copy_barcode,
       l.borrow_date,
       l.due_date,
       l.return_date,
+      l.outcome,
+      l.outcome_note,
       CASE
         WHEN l.return_date IS NOT NULL THEN 'returned'
         WHEN l.due_date < CURRENT_DATE THEN 'overdue'
@@ -183,6 +251,7 @@ router.get('/loans',
       END as status
     FROM loans l
     JOIN books b ON l.book_id = b.id
+    JOIN copies c ON l.copy_id = c.id
     JOIN members m ON l.member_id = m.id
   `;
 
@@ -212,6 +281,12 @@ router.get('/loans',
       }
     }
 
+    if (outcome) {
+      conditions.push(`l.outcome = $${paramIndex}`);
+      params.push(outcome);
+      paramIndex++;
+    }
+
     if (conditions.length > 0) {
       queryText += ` WHERE ${conditions.join(' AND ')}`;
     }
@@ -220,7 +295,8 @@ router.get('/loans',
 
     const { rows } = await query(queryText, params);
 
-    const headers = ['id', 'book_title', 'book_author', 'book_isbn', 'member_name', 'member_email', 'borrow_date', 'due_date', 'return_date', 'status'];
+    // New columns go at the end so existing spreadsheets keep lining up
+    const headers = ['id', 'book_title', 'book_author', 'book_isbn', 'member_name', 'member_email', 'borrow_date', 'due_date', 'return_date', 'status', 'copy_barcode', 'outcome', 'outcome_note'];
     const csv = convertToCSV(rows, headers);
 
     // Add UTF-8 BOM for Excel compatibility with Unicode characters (Malayalam, etc.)
@@ -0,0 +1,95 @@
+/**
+ * Holds routes
+ * Handles the reservation queue for borrowed books
+ *
+ * Patrons may place, list and cancel their own holds.
+ */
+
+import express, { Response } from 'express';
+import * as authUtils from '../utils/authUtils';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { validateHold, validatePagination } from '../middleware/validation';
+import { AuthRequest } from '../types/express';
+import { HoldQueryParams } from '../types/hold';
+import { HoldService } from '../services/HoldService';
+
+const router = express.Router();
+const holdService = new HoldService();
+
+const HOLD_STATUSES = ['active', 'waiting', 'ready', 'fulfilled', 'expired', 'cancelled'];
+
+// Get holds with pagination and filters
+router.get('/',
+  authUtils.authenticateToken,
+  authUtils.scopeToOwnMember,
+  validatePagination,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { page, limit, book_id, member_id, status } = req.query as HoldQueryParams;
+
+    if (status && !HOLD_STATUSES.includes(status)) {
+      throw new AppError(`Status must be one of: ${HOLD_STATUSES.join(', ')}`, 400);
+    }
+
+    const result = await holdService.getHolds({
+      page: parseInt(page || '1', 10),
+      limit: parseInt(limit || '25', 10),
+      bookId: book_id ? parseInt(book_id, 10) || undefined : undefined,
+      memberId: req.memberScope ?? (member_id ? parseInt(member_id, 10) || undefined : undefined),
+      status
+    });
+
+    res.json(result);
+  })
+);
+
+// Get the hold queue for a book
+router.get('/book/:bookId',
+  authUtils.authenticateToken,
+  authUtils.scopeToOwnMember,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const bookId = parseInt(req.params.bookId, 10);
+    if (isNaN(bookId)) {
+      throw new AppError('Invalid book ID', 400);
+    }
+
+    const queue = await holdService.getBookQueue(bookId);
+
+    // Patrons see where they are in the queue, not who else is in it
+    if (req.memberScope !== undefined) {
+      queue.queue = queue.queue.filter(hold => hold.member_id === req.memberScope);
+    }
+
+    res.json(queue);
+  })
+);
+
+// Place a hold on a borrowed book
+router.post('/',
+  authUtils.authenticateToken,
+  authUtils.scopeToOwnMember,
+  validateHold,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { book_id, member_id } = req.body;
+    authUtils.assertOwnMember(req, member_id);
+
+    const hold = await holdService.placeHold({ bookId: book_id, memberId: member_id });
+    res.status(201).json(hold);
+  })
+);
+
+// Cancel a hold
+router.delete('/:id',
+  authUtils.authenticateToken,
+  authUtils.scopeToOwnMember,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid hold ID', 400);
+    }
+
+    await holdService.cancelHold(id, req.memberScope);
+    res.status(204).send();
+  })
+);
+
+export default router;
@@ -0,0 +1,160 @@
+/**
+ * Bulk import routes
+ * Mounted at /bulk-import by the books and members routes, each with the
+ * permission that lets staff change those records
+ *
+ * Uploading a CSV file returns a preview, with the file's columns mapped to
+ * fields by their headers or by a saved import profile; changing the
+ * mapping or mode plans the rows again. Confirming the preview queues the
+ * import, whose progress the import dialog polls until it finishes.
+ */
+
+import express, { Response } from 'express';
+import * as authUtils from '../utils/authUtils';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { validatePagination } from '../middleware/validation';
+import { importUpload } from '../utils/fileUpload';
+import { AuthRequest } from '../types/express';
+import { Permission } from '../types/role';
+import { ImportKind, ImportOptions, ImportSource, ImportProfileInput, ImportRowQueryParams, IMPORT_ROW_ACTIONS } from '../types/import';
+import { ImportService } from '../services/ImportService';
+
+const importService = new ImportService();
+
+const parseImportId = (value: string): number => {
+  const id = parseInt(value, 10);
+  if (isNaN(id)) {
+    throw new AppError('Invalid import ID', 400);
+  }
+  return id;
+};
+
+const parseProfileId = (value: string): number => {
+  const id = parseInt(value, 10);
+  if (isNaN(id)) {
+    throw new AppError('Invalid import profile ID', 400);
+  }
+  return id;
+};
+
+export const createImportRouter = (kind: ImportKind, permission: Permission) => {
+  const router = express.Router();
+
+  // Upload a CSV file, or for books another catalogue's export, and preview what importing it would do
+  router.post('/',
+    authUtils.authenticateToken,
+    authUtils.requirePermission(permission),
+    importUpload.single('file'),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+      if (!req.file) {
+        throw new AppError('CSV file is required', 400);
+      }
+      // Multipart fields arrive as strings
+      const { profile_id, source } = (req.body || {}) as { profile_id?: string; source?: ImportSource };
+      const profileId = profile_id ? parseProfileId(profile_id) : undefined;
+
+      const preview = await importService.createPreview(kind, req.file, req.user?.userId ?? null, { source, profileId });
+      res.status(201).json(preview);
+    })
+  );
+
+  // Saved mappings; registered before /:importId so "profiles" is not taken for an import ID
+  router.get('/profiles',
+    authUtils.authenticateToken,
+    authUtils.requirePermission(permission),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+      res.json(await importService.getProfiles(kind));
+    })
+  );
+
+  router.post('/profiles',
+    authUtils.authenticateToken,
+    authUtils.requirePermission(permission),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+      const profile = await importService.createProfile(kind, req.body as ImportProfileInput, req.user?.userId ?? null);
+      res.status(201).json(profile);
+    })
+  );
+
+  router.put('/profiles/:profileId',
+    authUtils.authenticateToken,
+    authUtils.requirePermission(permission),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+      res.json(await importService.updateProfile(kind, parseProfileId(req.params.profileId), req.body as ImportProfileInput));
+    })
+  );
+
+  router.delete('/profiles/:profileId',
+    authUtils.authenticateToken,
+    authUtils.requirePermission(permission),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+      await importService.deleteProfile(kind, parseProfileId(req.params.profileId));
+      res.status(204).send();
+    })
+  );
+
+  // An import's preview counts, status and progress
+  router.get('/:importId',
+    authUtils.authenticateToken,
+    authUtils.requirePermission(permission),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+      res.json(await importService.getImport(kind, parseImportId(req.params.importId)));
+    })
+  );
+
+  // Change the preview's column mapping or mode and plan its rows again
+  router.put('/:importId/options',
+    authUtils.authenticateToken,
+    authUtils.requirePermission(permission),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+      const { mapping, mode } = (req.body || {}) as Partial<ImportOptions>;
+      res.json(await importService.setOptions(kind, parseImportId(req.params.importId), { mapping, mode }));
+    })
+  );
+
+  // An import's rows with what the preview decided for each
+  router.get('/:importId/rows',
+    authUtils.authenticateToken,
+    authUtils.requirePermission(permission),
+    validatePagination,
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+      const { page, limit, action } = req.query as ImportRowQueryParams;
+      if (action && !IMPORT_ROW_ACTIONS.includes(action)) {
+        throw new AppError(`Action must be one of: ${IMPORT_ROW_ACTIONS.join(', ')}`, 400);
+      }
+
+      const result = await importService.getRows(kind, parseImportId(req.params.importId), {
+        page: parseInt(page || '1', 10),
+        limit: parseInt(limit || '25', 10),
+        action,
+      });
+      res.json(result);
+    })
+  );
+
+  // Confirm the preview and queue the import
+  router.post('/:importId/confirm',
+    authUtils.authenticateToken,
+    authUtils.requirePermission(permission),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+      const confirmed = await importService.confirmImport(kind, parseImportId(req.params.importId));
+      res.status(202).json(confirmed);
+    })
+  );
+
+  // Download the rows that were not imported, with their errors
+  router.get('/:importId/errors.csv',
+    authUtils.authenticateToken,
+    authUtils.requirePermission(permission),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+      const id = parseImportId(req.params.importId);
+      const csv = await importService.getErrorReport(kind, id);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${kind}_import_${id}_errors.csv"`);
+      res.send(csv);
+    })
+  );
+
+  return router;
+};
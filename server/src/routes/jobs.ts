@@ -0,0 +1,95 @@
+/**
+ * Jobs routes
+ * Handles the background job queue's admin page (settings:manage permission)
+ */
+
+import express, { Response } from 'express';
+import * as authUtils from '../utils/authUtils';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { validatePagination } from '../middleware/validation';
+import { AuthRequest } from '../types/express';
+import { JobQueryParams, JOB_STATUSES, JOB_TYPES } from '../types/job';
+import { JobService } from '../services/JobService';
+
+const router = express.Router();
+const jobService = new JobService();
+
+const parseJobId = (value: string): number => {
+  const id = parseInt(value, 10);
+  if (isNaN(id)) {
+    throw new AppError('Invalid job ID', 400);
+  }
+  return id;
+};
+
+// Counts by status, the schedules with their latest run, and which replica is scheduling
+router.get('/summary',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const summary = await jobService.getSummary();
+    res.json(summary);
+  })
+);
+
+// List jobs, newest first
+router.get('/',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  validatePagination,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { page, limit, status, type } = req.query as JobQueryParams;
+
+    if (status && !JOB_STATUSES.includes(status)) {
+      throw new AppError(`Status must be one of: ${JOB_STATUSES.join(', ')}`, 400);
+    }
+    const types: readonly string[] = JOB_TYPES;
+    if (type && !types.includes(type)) {
+      throw new AppError(`Type must be one of: ${JOB_TYPES.join(', ')}`, 400);
+    }
+
+    const result = await jobService.getJobs({
+      page: parseInt(page || '1', 10),
+      limit: parseInt(limit || '25', 10),
+      status,
+      type,
+    });
+    res.json(result);
+  })
+);
+
+// Queue a scheduled job to run now
+router.post('/run',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { type } = req.body || {};
+    if (!type || typeof type !== 'string') {
+      throw new AppError('Job type is required', 400);
+    }
+    const job = await jobService.runScheduledNow(type);
+    res.status(202).json(job);
+  })
+);
+
+// Retry a dead job
+router.post('/:id/retry',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const job = await jobService.retryJob(parseJobId(req.params.id));
+    res.json(job);
+  })
+);
+
+// Delete a job that is not running
+router.delete('/:id',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    await jobService.deleteJob(parseJobId(req.params.id));
+    res.status(204).send();
+  })
+);
+
+export default router;
@@ -1,118 +1,149 @@
 /**
  * Members routes
- * Handles member CRUD operations
+ * Handles member CRUD operations, bulk import and member accounts (fines ledger)
+ *
+ * Staff with members:read see every member; anyone else may only read
+ * their own record and account. Changes need members:write, and
+ * payments, waivers and charges need fines:manage.
  */
 
 import express, { Response } from 'express';
-import { parse } from 'csv-parse/sync';
-import { query, pool } from '../db';
+import { query } from '../db';
 import * as authUtils from '../utils/authUtils';
 import { asyncHandler, AppError } from '../middleware/errorHandler';
-import { validateMember, validatePagination } from '../middleware/validation';
-import { csvUpload } from '../utils/fileUpload';
+import { validateMember, validatePagination, validateAccountEntry } from '../middleware/validation';
 import { AuthRequest } from '../types/express';
 import { Member, MemberQueryParams } from '../types/member';
+import { AccountEntryRequest } from '../types/account';
+import { MemberAccountService } from '../services/MemberAccountService';
+import { MemberService } from '../services/MemberService';
+import { memberSearchSql } from '../repositories/MemberRepository';
+import { correctSearch, toTsQuery } from '../utils/textSearch';
+import { createImportRouter } from './imports';
 
 const router = express.Router();
+const accountService = new MemberAccountService();
+const memberService = new MemberService();
 
 interface CountResult {
   count: string;
 }
 
-// Get all members with pagination and search
-router.get('/', validatePagination, asyncHandler(async (req: AuthRequest, res: Response) => {
-  const { sortBy, sortOrder, page, limit, search } = req.query as MemberQueryParams;
-
-  // Pagination parameters
-  const pageNum = parseInt(page || '1', 10);
-  const limitNum = parseInt(limit || '25', 10);
-  const offset = (pageNum - 1) * limitNum;
-
-  let queryText = 'SELECT * FROM members';
-  const params: any[] = [];
-  const conditions: string[] = [];
-  let paramIndex = 1;
-
-  // Search filter
-  if (search) {
-    conditions.push(`(LOWER(name) LIKE $${paramIndex} OR LOWER(email) LIKE $${paramIndex} OR LOWER(phone) LIKE $${paramIndex})`);
-    params.push(`%${String(search).toLowerCase()}%`);
-    paramIndex++;
-  }
-
-  if (conditions.length > 0) {
-    queryText += ` WHERE ${conditions.join(' AND ')}`;
-  }
-
-  // Get total count before pagination
-  const countQuery = `SELECT COUNT(*) FROM members${conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''}`;
-  const { rows: countRows } = await query<CountResult>(countQuery, params.slice(0, paramIndex - 1));
-  const totalCount = parseInt(countRows[0].count, 10);
-
-  const validSortColumns = ['name', 'email', 'id', 'created_at'];
-  const finalSortBy = validSortColumns.includes(String(sortBy).toLowerCase()) ? String(sortBy) : 'id';
-  const finalSortOrder = String(sortOrder).toLowerCase() === 'desc' ? 'DESC' : 'ASC';
-
-  queryText += ` ORDER BY ${finalSortBy} ${finalSortOrder}`;
-
-  // Add pagination
-  queryText += ` LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`;
-  params.push(limitNum, offset);
-
-  const { rows } = await query<Member>(queryText, params);
-
-  res.json({
-    data: rows,
-    pagination: {
-      page: pageNum,
-      limit: limitNum,
-      total: totalCount,
-      totalPages: Math.ceil(totalCount / limitNum)
+// Get all members with pagination and search. Each word of a search matches
+// the start of a word of a member's name, email, phone or barcode. A staff
+// search with no hits is run again with similar words, and the corrected
+// search is returned as didYouMean if that finds members.
+router.get('/',
+  authUtils.authenticateToken,
+  authUtils.scopeToOwnMember,
+  validatePagination,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { sortBy, sortOrder, page, limit, search } = req.query as MemberQueryParams;
+
+    // Pagination parameters
+    const pageNum = parseInt(page || '1', 10);
+    const limitNum = parseInt(limit || '25', 10);
+    const offset = (pageNum - 1) * limitNum;
+
+    const params: any[] = [];
+    const conditions: string[] = [];
+    let paramIndex = 1;
+
+    // Patrons only see themselves
+    if (req.memberScope !== undefined) {
+      conditions.push(`m.id = $${paramIndex}`);
+      params.push(req.memberScope);
+      paramIndex++;
     }
-  });
-}));
 
-// Get a specific member by ID
-router.get('/:id', asyncHandler(async (req: AuthRequest, res: Response) => {
-  const { id } = req.params;
+    // Search filter
+    const tsquery = search ? toTsQuery(String(search), { prefixes: true }) : null;
+    const searchSql = tsquery ? memberSearchSql(`$${paramIndex}`) : null;
+    if (searchSql) {
+      conditions.push(searchSql.condition);
+      params.push(tsquery);
+      paramIndex++;
+    }
 
-  const { rows } = await query<Member>('SELECT * FROM members WHERE id = $1', [id]);
+    const fromClause = `FROM members m${searchSql ? ` ${searchSql.join}` : ''}${conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''}`;
+    let queryText = `SELECT m.* ${fromClause}`;
+
+    // Get total count before pagination
+    const countQuery = `SELECT COUNT(*) ${fromClause}`;
+    const { rows: countRows } = await query<CountResult>(countQuery, params.slice(0, paramIndex - 1));
+    let totalCount = parseInt(countRows[0].count, 10);
+
+    // Patrons are not offered corrections, which would come from other members' details
+    let didYouMean: string | undefined;
+    if (searchSql && totalCount === 0 && req.memberScope === undefined) {
+      const similarWords = await memberService.findSimilarWords(String(search));
+      if (similarWords.size > 0) {
+        params[0] = toTsQuery(String(search), { prefixes: true, similarWords });
+        const { rows: fuzzyCountRows } = await query<CountResult>(countQuery, params);
+        totalCount = parseInt(fuzzyCountRows[0].count, 10);
+        didYouMean = totalCount > 0 ? correctSearch(String(search), similarWords) : undefined;
+      }
+    }
 
-  if (rows.length === 0) {
-    throw new AppError('Member not found', 404);
-  }
+    const validSortColumns = ['name', 'email', 'id', 'created_at'];
+    const finalSortOrder = String(sortOrder).toLowerCase() === 'desc' ? 'DESC' : 'ASC';
 
-  res.json(rows[0]);
-}));
+    // Searches are sorted by relevance unless another order is asked for
+    if (searchSql && (sortBy === undefined || sortBy === 'relevance')) {
+      queryText += ` ORDER BY ${searchSql.rank} DESC, m.name ASC`;
+    } else {
+      const finalSortBy = validSortColumns.includes(String(sortBy).toLowerCase()) ? String(sortBy) : 'id';
+      queryText += ` ORDER BY m.${finalSortBy} ${finalSortOrder}`;
+    }
 
-// Create a new member
-router.post('/',
+    // Add pagination
+    queryText += ` LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`;
+    params.push(limitNum, offset);
+
+    const { rows } = await query<Member>(queryText, params);
+
+    res.json({
+      data: rows,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total: totalCount,
+        totalPages: Math.ceil(totalCount / limitNum)
+      },
+      ...(didYouMean !== undefined && { didYouMean }),
+    });
+  })
+);
+
+// Get the member the logged-in user is linked to
+router.get('/me',
   authUtils.authenticateToken,
-  validateMember,
   asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { name, email, phone } = req.body;
-
     const { rows } = await query<Member>(
-      'INSERT INTO members (name, email, phone) VALUES ($1, $2, $3) RETURNING *',
-      [name, email, phone || null]
+      'SELECT m.* FROM members m JOIN users u ON u.member_id = m.id WHERE u.id = $1',
+      [req.user?.userId]
     );
 
-    res.status(201).json(rows[0]);
+    if (rows.length === 0) {
+      throw new AppError('Your login is not linked to a library member', 404);
+    }
+
+    res.json(rows[0]);
   })
 );
 
-// Update a member
-router.put('/:id',
+// Get a specific member by ID
+router.get('/:id',
   authUtils.authenticateToken,
-  validateMember,
+  authUtils.scopeToOwnMember,
   asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { id } = req.params;
-    const { name, email, phone } = req.body;
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid member ID', 400);
+    }
+    authUtils.assertOwnMember(req, id);
 
-    const { rows } = await query<Member>(
-      'UPDATE members SET name = $1, email = $2, phone = $3 WHERE id = $4 RETURNING *',
-      [name, email, phone || null, id]
-    );
+    const { rows } = await query<Member>('SELECT * FROM members WHERE id = $1', [id]);
 
     if (rows.length === 0) {
       throw new AppError('Member not found', 404);
@@ -122,119 +153,132 @@ router.put('/:id',
   })
 );
 
-// Delete a member
-router.delete('/:id',
+// Get a member's account balance and ledger
+router.get('/:id/account',
   authUtils.authenticateToken,
+  authUtils.scopeToOwnMember,
+  validatePagination,
   asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { id } = req.params;
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid member ID', 400);
+    }
+    authUtils.assertOwnMember(req, id);
 
-    const { rowCount } = await query('DELETE FROM members WHERE id = $1', [id]);
+    const { page, limit } = req.query as { page?: string; limit?: string };
+    const account = await accountService.getAccount(id, {
+      page: parseInt(page || '1', 10),
+      limit: parseInt(limit || '25', 10)
+    });
 
-    if (!rowCount || rowCount === 0) {
-      throw new AppError('Member not found', 404);
+    res.json(account);
+  })
+);
+
+// Record a payment against a member's balance (fines:manage)
+router.post('/:id/account/payments',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('fines:manage'),
+  validateAccountEntry,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid member ID', 400);
     }
 
-    res.status(204).send();
+    const { amount, description } = req.body as AccountEntryRequest;
+    const entry = await accountService.recordPayment(id, amount, description, req.user?.userId);
+    res.status(201).json(entry);
   })
 );
 
-// Bulk import members from CSV
-router.post('/bulk-import',
+// Waive part of a member's balance (fines:manage)
+router.post('/:id/account/waivers',
   authUtils.authenticateToken,
-  csvUpload.single('file'),
+  authUtils.requirePermission('fines:manage'),
+  validateAccountEntry,
   asyncHandler(async (req: AuthRequest, res: Response) => {
-    if (!req.file) {
-      throw new AppError('CSV file is required', 400);
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid member ID', 400);
     }
 
-    // Log file details for debugging
-    console.log('CSV Upload Details:', {
-      filename: req.file.originalname,
-      mimetype: req.file.mimetype,
-      size: req.file.size,
-      bufferLength: req.file.buffer?.length,
-    });
+    const { amount, description } = req.body as AccountEntryRequest;
+    const entry = await accountService.recordWaiver(id, amount, description, req.user?.userId);
+    res.status(201).json(entry);
+  })
+);
 
-    let records: any[];
-    try {
-      records = parse(req.file.buffer, {
-        columns: true,
-        skip_empty_lines: true,
-        trim: true,
-        bom: true, // Handle UTF-8 BOM (Byte Order Mark) from Excel
-        relax_column_count: true, // Allow rows with different column counts
-        skip_records_with_error: true, // Skip malformed rows instead of failing
-      });
-      console.log(`Parsed ${records.length} records from CSV`);
-    } catch (error) {
-      console.error('CSV Parse Error:', error);
-      throw new AppError(`Invalid CSV file format: ${error instanceof Error ? error.message : 'Unknown error'}`, 400);
+// Add a manual charge to a member's account (fines:manage)
+router.post('/:id/account/charges',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('fines:manage'),
+  validateAccountEntry,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid member ID', 400);
     }
 
-    if (!records || records.length === 0) {
-      throw new AppError('CSV file is empty or contains no valid data rows', 400);
+    const { amount, description } = req.body as AccountEntryRequest;
+    const entry = await accountService.recordCharge(id, amount, description, req.user?.userId);
+    res.status(201).json(entry);
+  })
+);
+
+// Create a new member (members:write)
+router.post('/',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('members:write'),
+  validateMember,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { name, email, phone, member_type, barcode } = req.body;
+
+    const member = await memberService.createMember({ name, email, phone, member_type, barcode });
+    res.status(201).json(member);
+  })
+);
+
+// Update a member (members:write)
+router.put('/:id',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('members:write'),
+  validateMember,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid member ID', 400);
     }
 
-    const importedMembers: Member[] = [];
-    const errors: string[] = [];
-    const client = await pool.connect();
-
-    try {
-      await client.query('BEGIN');
-
-      for (const [index, record] of records.entries()) {
-        const { name, email, phone } = record;
-
-        if (!name || !email) {
-          errors.push(`Row ${index + 2}: Missing required field (name/email)`);
-          continue;
-        }
-
-        // Validate email format
-        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-        if (!emailRegex.test(email)) {
-          errors.push(`Row ${index + 2}: Invalid email format: ${email}`);
-          continue;
-        }
-
-        // Check for duplicate email
-        const { rows: existingMembers } = await client.query<{ id: number }>(
-          'SELECT id FROM members WHERE LOWER(email) = LOWER($1)',
-          [email]
-        );
-
-        if (existingMembers.length > 0) {
-          errors.push(`Row ${index + 2}: Member with email ${email} already exists`);
-          continue;
-        }
-
-        // Insert member
-        const { rows } = await client.query<Member>(
-          'INSERT INTO members (name, email, phone) VALUES ($1, $2, $3) RETURNING *',
-          [name, email, phone || null]
-        );
-
-        importedMembers.push(rows[0]);
-      }
+    // Leave the member type as it is unless one is given
+    const { name, email, phone, member_type, barcode } = req.body;
+    const member = await memberService.updateMember(id, {
+      name,
+      email,
+      phone: phone || null,
+      barcode,
+      ...(member_type && { member_type })
+    });
+    res.json(member);
+  })
+);
 
-      await client.query('COMMIT');
-
-      const message = `Successfully imported ${importedMembers.length} member(s)${
-        errors.length > 0 ? ` with ${errors.length} error(s)` : ''
-      }`;
-
-      res.json({
-        message,
-        imported: importedMembers.length,
-        errors: errors.length > 0 ? errors : undefined,
-      });
-    } catch (err) {
-      await client.query('ROLLBACK');
-      throw err;
-    } finally {
-      client.release();
+// Delete a member (members:write)
+router.delete('/:id',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('members:write'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid member ID', 400);
     }
+
+    await memberService.deleteMember(id);
+    res.status(204).send();
   })
 );
 
+// Bulk import members from CSV: preview, confirm, progress and error report
+router.use('/bulk-import', createImportRouter('members', 'members:write'));
+
 export default router;
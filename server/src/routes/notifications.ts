@@ -0,0 +1,105 @@
+/**
+ * Notifications routes
+ * Handles the record of loan notification emails and their templates (settings:manage permission)
+ */
+
+import express, { Response } from 'express';
+import * as authUtils from '../utils/authUtils';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { validatePagination } from '../middleware/validation';
+import { AuthRequest } from '../types/express';
+import {
+  NotificationQueryParams,
+  NOTIFICATION_KINDS,
+  NOTIFICATION_STATUSES,
+} from '../types/notification';
+import { NotificationService } from '../services/NotificationService';
+
+const router = express.Router();
+const notificationService = new NotificationService();
+
+// List sent and failed notifications, newest first
+router.get('/',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  validatePagination,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { page, limit, status, kind, member_id } = req.query as NotificationQueryParams;
+
+    if (status && !NOTIFICATION_STATUSES.includes(status)) {
+      throw new AppError(`Status must be one of: ${NOTIFICATION_STATUSES.join(', ')}`, 400);
+    }
+    if (kind && !NOTIFICATION_KINDS.includes(kind)) {
+      throw new AppError(`Kind must be one of: ${NOTIFICATION_KINDS.join(', ')}`, 400);
+    }
+
+    const memberId = member_id ? parseInt(member_id, 10) : undefined;
+    if (memberId !== undefined && isNaN(memberId)) {
+      throw new AppError('Invalid member ID', 400);
+    }
+
+    const result = await notificationService.getNotifications({
+      page: parseInt(page || '1', 10),
+      limit: parseInt(limit || '25', 10),
+      status,
+      kind,
+      memberId,
+    });
+    res.json(result);
+  })
+);
+
+// Send any due-soon, overdue and final notices now instead of waiting for the scheduled check
+router.post('/run',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const result = await notificationService.sendLoanNotices();
+    res.json(result);
+  })
+);
+
+// Get the templates of each kind of notice
+router.get('/templates',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const templates = await notificationService.getTemplates();
+    res.json(templates);
+  })
+);
+
+// Change the template of a kind of notice
+router.put('/templates/:kind',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { subject, body } = req.body;
+    if (typeof subject !== 'string' || !subject.trim() || typeof body !== 'string' || !body.trim()) {
+      throw new AppError('Subject and body are required', 400);
+    }
+
+    const template = await notificationService.updateTemplate(req.params.kind, {
+      subject: subject.trim(),
+      body: body.trim(),
+    });
+    res.json(template);
+  })
+);
+
+// Send a notification again
+router.post('/:id/resend',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid notification ID', 400);
+    }
+
+    const notification = await notificationService.resend(id);
+    res.json(notification);
+  })
+);
+
+export default router;
@@ -0,0 +1,67 @@
+/**
+ * Circulation policy routes
+ * Handles loan period, loan limit, renewal and grace day policies (settings:manage permission for CUD)
+ */
+
+import express, { Response } from 'express';
+import * as authUtils from '../utils/authUtils';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { validateCirculationPolicy } from '../middleware/validation';
+import { AuthRequest } from '../types/express';
+import { CirculationPolicyService } from '../services/CirculationPolicyService';
+
+const router = express.Router();
+const policyService = new CirculationPolicyService();
+
+// Get all policies
+router.get('/',
+  authUtils.authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const policies = await policyService.getPolicies();
+    res.json(policies);
+  })
+);
+
+// Create a category and/or member type policy (settings:manage)
+router.post('/',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  validateCirculationPolicy,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const policy = await policyService.createPolicy(req.body);
+    res.status(201).json(policy);
+  })
+);
+
+// Update a policy (settings:manage)
+router.put('/:id',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  validateCirculationPolicy,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid policy ID', 400);
+    }
+
+    const policy = await policyService.updatePolicy(id, req.body);
+    res.json(policy);
+  })
+);
+
+// Delete a policy (settings:manage)
+router.delete('/:id',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid policy ID', 400);
+    }
+
+    await policyService.deletePolicy(id);
+    res.status(204).send();
+  })
+);
+
+export default router;
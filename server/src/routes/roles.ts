@@ -0,0 +1,78 @@
+/**
+ * Roles routes
+ * Handles built-in and custom roles and the permissions they grant (users:manage permission)
+ */
+
+import express, { Response } from 'express';
+import * as authUtils from '../utils/authUtils';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { validateRole } from '../middleware/validation';
+import { AuthRequest } from '../types/express';
+import { PERMISSIONS } from '../types/role';
+import { RoleService } from '../services/RoleService';
+
+const router = express.Router();
+const roleService = new RoleService();
+
+// Get all roles with their user counts
+router.get('/',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('users:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const roles = await roleService.getRoles();
+    res.json(roles);
+  })
+);
+
+// Get every permission a role can grant, with a description
+router.get('/permissions',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('users:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    res.json(Object.entries(PERMISSIONS).map(([name, description]) => ({ name, description })));
+  })
+);
+
+// Create a custom role
+router.post('/',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('users:manage'),
+  validateRole,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const role = await roleService.createRole(req.body);
+    res.status(201).json(role);
+  })
+);
+
+// Update a custom role
+router.put('/:id',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('users:manage'),
+  validateRole,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid role ID', 400);
+    }
+
+    const role = await roleService.updateRole(id, req.body);
+    res.json(role);
+  })
+);
+
+// Delete a custom role no user holds
+router.delete('/:id',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('users:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid role ID', 400);
+    }
+
+    await roleService.deleteRole(id);
+    res.status(204).send();
+  })
+);
+
+export default router;
@@ -0,0 +1,99 @@
+/**
+ * Saved searches routes
+ * Handles a user's saved book searches and smart collections, sharing them,
+ * pinning collections to the navigation bar and finding their books
+ */
+
+import express, { Response } from 'express';
+import * as authUtils from '../utils/authUtils';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { validatePagination } from '../middleware/validation';
+import { AuthRequest } from '../types/express';
+import { SavedSearchBooksQueryParams, SavedSearchInput } from '../types/savedSearch';
+import { SavedSearchService } from '../services/SavedSearchService';
+
+const router = express.Router();
+const savedSearchService = new SavedSearchService();
+
+const parseId = (value: string): number => {
+  const id = parseInt(value, 10);
+  if (isNaN(id)) {
+    throw new AppError('Invalid saved search ID', 400);
+  }
+  return id;
+};
+
+// List the user's saved searches and those shared by other users
+router.get('/',
+  authUtils.authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    res.json(await savedSearchService.getSavedSearches(req.user!.userId));
+  })
+);
+
+// Save a search, or a smart collection
+router.post('/',
+  authUtils.authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const savedSearch = await savedSearchService.createSavedSearch(req.user!.userId, req.body as SavedSearchInput);
+    res.status(201).json(savedSearch);
+  })
+);
+
+router.get('/:id',
+  authUtils.authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    res.json(await savedSearchService.getSavedSearch(parseId(req.params.id), req.user!.userId));
+  })
+);
+
+// Change a saved search; only its owner can
+router.put('/:id',
+  authUtils.authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    res.json(await savedSearchService.updateSavedSearch(parseId(req.params.id), req.user!.userId, req.body as SavedSearchInput));
+  })
+);
+
+router.delete('/:id',
+  authUtils.authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    await savedSearchService.deleteSavedSearch(parseId(req.params.id), req.user!.userId);
+    res.status(204).send();
+  })
+);
+
+// Pin a smart collection to the user's navigation bar, or unpin it
+router.put('/:id/pin',
+  authUtils.authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    await savedSearchService.pin(parseId(req.params.id), req.user!.userId);
+    res.status(204).send();
+  })
+);
+
+router.delete('/:id/pin',
+  authUtils.authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    await savedSearchService.unpin(parseId(req.params.id), req.user!.userId);
+    res.status(204).send();
+  })
+);
+
+// The books a saved search finds now
+router.get('/:id/books',
+  authUtils.authenticateToken,
+  validatePagination,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { page, limit, sortBy, sortOrder } = req.query as SavedSearchBooksQueryParams;
+    const result = await savedSearchService.getBooks(parseId(req.params.id), req.user!.userId, {
+      page: parseInt(page || '1', 10),
+      limit: parseInt(limit || '25', 10),
+      sortBy,
+      sortOrder,
+    });
+    res.json(result);
+  })
+);
+
+export default router;
@@ -12,10 +12,10 @@ import config from '../config';
 
 const router = express.Router();
 
-// Get system information (admin only)
+// Get system information (settings:manage)
 router.get('/info',
   authUtils.authenticateToken,
-  authUtils.checkAdmin,
+  authUtils.requirePermission('settings:manage'),
   asyncHandler(async (req: AuthRequest, res: Response) => {
     // Check database connection
     let databaseConnected = false;
@@ -26,10 +26,9 @@ router.get('/info',
       console.error('Database connection check failed:', err);
     }
 
-    // Check email configuration
+    // Check email configuration; without SMTP, notices go to files or the log
     const emailEnabled = config.emailNotificationsEnabled &&
-                        !!config.smtpHost &&
-                        !!config.smtpUser;
+                        (config.mailTransport !== 'smtp' || !!config.smtpHost);
 
     res.json({
       version: '1.0.0',
@@ -38,6 +37,7 @@ router.get('/info',
       emailEnabled,
       overdueChecksEnabled: config.overdueChecksEnabled,
       emailConfiguration: emailEnabled ? {
+        transport: config.mailTransport,
         host: config.smtpHost,
         port: config.smtpPort,
         from: config.smtpFrom,
@@ -1,6 +1,6 @@
 /**
  * Users routes
- * Handles user management operations (admin-only)
+ * Handles user management operations (users:manage permission)
  */
 
 import express, { Response } from 'express';
@@ -10,37 +10,47 @@ import { asyncHandler, AppError } from '../middleware/errorHandler';
 import { validateUser } from '../middleware/validation';
 import { AuthRequest } from '../types/express';
 import { UserResponse } from '../types/user';
+import { SessionService } from '../services/SessionService';
+import { TwoFactorService } from '../services/TwoFactorService';
+import { LoginActivityService } from '../services/LoginActivityService';
 
 const router = express.Router();
+const sessionService = new SessionService();
+const twoFactorService = new TwoFactorService();
+const loginActivityService = new LoginActivityService();
 
 interface CountResult {
   count: string;
 }
 
 interface RoleResult {
-  role: 'admin' | 'member';
+  role: string;
 }
 
-// Get all users (admin-only)
+// Get all users
 router.get('/',
   authUtils.authenticateToken,
-  authUtils.checkAdmin,
+  authUtils.requirePermission('users:manage'),
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const { rows } = await query<UserResponse>(
-      'SELECT id, username, role, created_at FROM users ORDER BY id ASC'
+      `SELECT u.id, u.username, u.email, u.role, u.member_id, m.name as member_name,
+              u.totp_enabled, u.two_factor_required, u.failed_login_count, u.locked_until, u.created_at
+       FROM users u
+       LEFT JOIN members m ON u.member_id = m.id
+       ORDER BY u.id ASC`
     );
     res.json(rows);
   })
 );
 
-// Update a user (admin-only)
+// Update a user
 router.put('/:id',
   authUtils.authenticateToken,
-  authUtils.checkAdmin,
+  authUtils.requirePermission('users:manage'),
   validateUser,
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
-    const { username, role } = req.body;
+    const { username, role, member_id, email } = req.body;
     const currentUserId = req.user?.userId;
 
     if (!username || !role) {
@@ -58,9 +68,13 @@ router.put('/:id',
       }
     }
 
+    // The member link and email are left alone unless sent; null unlinks or clears them
     const { rows } = await query<UserResponse>(
-      'UPDATE users SET username = $1, role = $2 WHERE id = $3 RETURNING id, username, role',
-      [username, role, id]
+      `UPDATE users SET username = $1, role = $2,
+         member_id = CASE WHEN $4 THEN $5::integer ELSE member_id END,
+         email = CASE WHEN $6 THEN $7::varchar ELSE email END
+       WHERE id = $3 RETURNING id, username, email, role, member_id`,
+      [username, role, id, member_id !== undefined, member_id ?? null, email !== undefined, email ?? null]
     );
 
     if (rows.length === 0) {
@@ -71,10 +85,10 @@ router.put('/:id',
   })
 );
 
-// Delete a user (admin-only)
+// Delete a user
 router.delete('/:id',
   authUtils.authenticateToken,
-  authUtils.checkAdmin,
+  authUtils.requirePermission('users:manage'),
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     const currentUserId = req.user?.userId;
@@ -103,10 +117,10 @@ router.delete('/:id',
   })
 );
 
-// Change a user's password (admin-only)
+// Change a user's password
 router.put('/:id/password',
   authUtils.authenticateToken,
-  authUtils.checkAdmin,
+  authUtils.requirePermission('users:manage'),
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     const { password } = req.body;
@@ -125,8 +139,120 @@ router.put('/:id/password',
       throw new AppError('User not found', 404);
     }
 
+    await sessionService.revokeAllSessions(parseInt(id, 10), 'password_changed');
+
     res.status(200).json({ message: 'Password updated successfully' });
   })
 );
 
+// List a user's open sessions
+router.get('/:id/sessions',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('users:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid user ID', 400);
+    }
+
+    const sessions = await sessionService.getSessions(id, req.user?.sessionId);
+    res.json(sessions);
+  })
+);
+
+// Revoke every open session of a user
+router.delete('/:id/sessions',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('users:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid user ID', 400);
+    }
+
+    const revoked = await sessionService.revokeAllSessions(id);
+    res.json({ revoked });
+  })
+);
+
+// Revoke one of a user's sessions
+router.delete('/:id/sessions/:sessionId',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('users:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    const sessionId = parseInt(req.params.sessionId, 10);
+    if (isNaN(id) || isNaN(sessionId)) {
+      throw new AppError('Invalid user or session ID', 400);
+    }
+
+    await sessionService.revokeSession(id, sessionId);
+    res.status(204).send();
+  })
+);
+
+// Require (or stop requiring) two-factor authentication for a user
+router.put('/:id/two-factor',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('users:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid user ID', 400);
+    }
+    if (typeof req.body.required !== 'boolean') {
+      throw new AppError('required must be true or false', 400);
+    }
+
+    const status = await twoFactorService.setRequired(id, req.body.required);
+    res.json(status);
+  })
+);
+
+// Reset a user's two-factor authentication, e.g. after a lost phone
+router.delete('/:id/two-factor',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('users:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid user ID', 400);
+    }
+
+    await twoFactorService.reset(id);
+    res.status(204).send();
+  })
+);
+
+// Get a user's recent login attempts
+router.get('/:id/login-events',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('users:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid user ID', 400);
+    }
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '50'), 10) || 50, 1), 200);
+
+    const events = await loginActivityService.getEvents(id, limit);
+    res.json(events);
+  })
+);
+
+// Unlock an account locked by failed logins
+router.post('/:id/unlock',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('users:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      throw new AppError('Invalid user ID', 400);
+    }
+
+    await loginActivityService.unlock(id);
+    res.json({ message: 'Account unlocked' });
+  })
+);
+
 export default router;
@@ -0,0 +1,166 @@
+/**
+ * Webhooks routes
+ * Handles registering outgoing webhooks and their delivery log (settings:manage permission)
+ */
+
+import express, { Response } from 'express';
+import * as authUtils from '../utils/authUtils';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { validatePagination } from '../middleware/validation';
+import { AuthRequest } from '../types/express';
+import {
+  WebhookDeliveryQueryParams,
+  WebhookInput,
+  WEBHOOK_DELIVERY_STATUSES,
+  WEBHOOK_EVENTS,
+} from '../types/webhook';
+import { WebhookService } from '../services/WebhookService';
+
+const router = express.Router();
+const webhookService = new WebhookService();
+
+const parseId = (value: string, name: string): number => {
+  const id = parseInt(value, 10);
+  if (isNaN(id)) {
+    throw new AppError(`Invalid ${name} ID`, 400);
+  }
+  return id;
+};
+
+/**
+ * Read the fields of a webhook from a request body; all are required when creating one
+ */
+const parseWebhookBody = (body: any, partial: boolean): Partial<WebhookInput> => {
+  const { url, description, events, active } = body || {};
+  const input: Partial<WebhookInput> = {};
+
+  if (url !== undefined || !partial) {
+    if (typeof url !== 'string' || !url.trim()) {
+      throw new AppError('URL is required', 400);
+    }
+    input.url = url.trim();
+  }
+  if (events !== undefined || !partial) {
+    if (!Array.isArray(events)) {
+      throw new AppError('Events must be a list of event names', 400);
+    }
+    input.events = events;
+  }
+  if (description !== undefined) {
+    if (description !== null && typeof description !== 'string') {
+      throw new AppError('Description must be text', 400);
+    }
+    input.description = description?.trim() || null;
+  }
+  if (active !== undefined) {
+    if (typeof active !== 'boolean') {
+      throw new AppError('Active must be true or false', 400);
+    }
+    input.active = active;
+  }
+
+  return input;
+};
+
+// List the events a webhook can subscribe to
+router.get('/events',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  (req: AuthRequest, res: Response) => {
+    res.json(WEBHOOK_EVENTS);
+  }
+);
+
+// List the delivery log, newest first
+router.get('/deliveries',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  validatePagination,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { page, limit, status, webhook_id } = req.query as WebhookDeliveryQueryParams;
+
+    if (status && !WEBHOOK_DELIVERY_STATUSES.includes(status)) {
+      throw new AppError(`Status must be one of: ${WEBHOOK_DELIVERY_STATUSES.join(', ')}`, 400);
+    }
+
+    const result = await webhookService.getDeliveries({
+      page: parseInt(page || '1', 10),
+      limit: parseInt(limit || '25', 10),
+      status,
+      webhookId: webhook_id ? parseId(webhook_id, 'webhook') : undefined,
+    });
+    res.json(result);
+  })
+);
+
+// Send a delivery again
+router.post('/deliveries/:id/redeliver',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const delivery = await webhookService.redeliver(parseId(req.params.id, 'delivery'));
+    res.json(delivery);
+  })
+);
+
+// List registered webhooks
+router.get('/',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const webhooks = await webhookService.getWebhooks();
+    res.json(webhooks);
+  })
+);
+
+// Register a webhook; the response includes its secret
+router.post('/',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const webhook = await webhookService.createWebhook(parseWebhookBody(req.body, false) as WebhookInput);
+    res.status(201).json(webhook);
+  })
+);
+
+// Change a webhook's URL, events, description or whether it is active
+router.put('/:id',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const webhook = await webhookService.updateWebhook(parseId(req.params.id, 'webhook'), parseWebhookBody(req.body, true));
+    res.json(webhook);
+  })
+);
+
+// Remove a webhook and its delivery log
+router.delete('/:id',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    await webhookService.deleteWebhook(parseId(req.params.id, 'webhook'));
+    res.status(204).send();
+  })
+);
+
+// Replace a webhook's secret; the response includes the new one
+router.post('/:id/secret',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const webhook = await webhookService.rotateSecret(parseId(req.params.id, 'webhook'));
+    res.json(webhook);
+  })
+);
+
+// Send a ping event to check a webhook is reachable
+router.post('/:id/ping',
+  authUtils.authenticateToken,
+  authUtils.requirePermission('settings:manage'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const delivery = await webhookService.ping(parseId(req.params.id, 'webhook'));
+    res.json(delivery);
+  })
+);
+
+export default router;
@@ -5,24 +5,64 @@
  * keeping routes thin and focused on HTTP concerns.
  */
 
-import { BookRepository, Book, BookSearchOptions } from '../repositories/BookRepository';
+import fs from 'fs';
+import path from 'path';
+import { PoolClient } from 'pg';
+import { BookRepository, Book, BookSearchOptions, BookSuggestion, BookWithCopyCounts } from '../repositories/BookRepository';
+import { CopyRepository } from '../repositories/CopyRepository';
 import { PaginatedResult } from '../repositories/BaseRepository';
 import { AppError } from '../middleware/errorHandler';
+import { WebhookService } from './WebhookService';
+import { uploadsDir } from '../utils/fileUpload';
+import { BookFacet, BookFacetCounts, BookFilters, BookInput } from '../types/book';
+import { CopyInput } from '../types/copy';
+import { downloadCoverImage, lookupIsbnMetadata } from '../utils/bookMetadata';
+import { searchWords, SimilarWords } from '../utils/textSearch';
 
 export class BookService {
   private bookRepository: BookRepository;
+  private copyRepository: CopyRepository;
+  private webhookService: WebhookService;
 
   constructor() {
     this.bookRepository = new BookRepository();
+    this.copyRepository = new CopyRepository();
+    this.webhookService = new WebhookService();
   }
 
   /**
    * Get all books with search/filter/pagination
    */
-  async getBooks(options: BookSearchOptions): Promise<PaginatedResult<Book>> {
+  async getBooks(options: BookSearchOptions): Promise<PaginatedResult<BookWithCopyCounts> & { didYouMean?: string }> {
     return await this.bookRepository.search(options);
   }
 
+  /**
+   * Count the books per value of each facet, for a search (a query from
+   * toTsQuery()) and filters
+   */
+  async countFacets(facets: readonly BookFacet[], tsquery: string | null, filters: BookFilters): Promise<BookFacetCounts> {
+    return await this.bookRepository.countFacets(facets, tsquery, filters);
+  }
+
+  /**
+   * Words in the catalogue similar to the misspelled words of a search
+   */
+  async findSimilarWords(search: string): Promise<SimilarWords> {
+    return await this.bookRepository.findSimilarWords(searchWords(search));
+  }
+
+  /**
+   * Books to suggest for a search as it is typed
+   */
+  async suggestBooks(text: string, limit: number): Promise<BookSuggestion[]> {
+    const trimmed = text.trim();
+    if (trimmed.length < 2) {
+      return [];
+    }
+    return await this.bookRepository.suggest(trimmed, limit);
+  }
+
   /**
    * Get a single book by ID
    */
@@ -46,99 +86,132 @@ export class BookService {
   }
 
   /**
-   * Create a new book
+   * Create a new book with a single copy. The book.created event is queued
+   * in the same transaction; given a client, that is the caller's.
    */
-  async createBook(data: {
-    title: string;
-    author: string;
-    isbn?: string;
-    cover_image_path?: string;
-    categories?: number[];
-  }): Promise<Book> {
-    // Check for duplicate ISBN
-    if (data.isbn) {
-      const existing = await this.bookRepository.findByIsbn(data.isbn);
-      if (existing) {
-        throw new AppError('A book with this ISBN already exists', 409);
-      }
+  async createBook(data: BookInput & { copy?: CopyInput }, client?: PoolClient): Promise<Book> {
+    if (!client) {
+      return await this.bookRepository.transaction(transactionClient => this.createBook(data, transactionClient));
     }
 
-    // Create book
-    const book = await this.bookRepository.create({
-      title: data.title,
-      author: data.author,
-      isbn: data.isbn,
-      cover_image_path: data.cover_image_path,
-      available: true
-    });
+    const { categoryIds, copy, ...fields } = data;
+    const book = await this.bookRepository.create(fields, client);
+    await this.copyRepository.createCopy(book.id, copy ?? {}, 'available', client);
 
-    // Add categories if provided
-    if (data.categories && data.categories.length > 0) {
-      await this.addCategoriesToBook(book.id, data.categories);
+    if (categoryIds && categoryIds.length > 0) {
+      await this.addCategoriesToBook(book.id, categoryIds, client);
     }
 
+    await this.webhookService.emit('book.created', book, { client });
     return book;
   }
 
   /**
-   * Update a book
+   * Update a book. Only the fields given are changed, and categories are
+   * replaced when given. A cover that was removed or replaced is deleted.
+   * The book.updated event is queued in the same transaction; given a
+   * client, that is the caller's.
    */
-  async updateBook(id: number, data: {
-    title?: string;
-    author?: string;
-    isbn?: string;
-    available?: boolean;
-    cover_image_path?: string;
-    categories?: number[];
-  }): Promise<Book> {
-    // Check book exists
-    const existing = await this.bookRepository.findById(id);
+  async updateBook(id: number, data: Partial<BookInput>, client?: PoolClient): Promise<Book> {
+    if (!client) {
+      return await this.bookRepository.transaction(transactionClient => this.updateBook(id, data, transactionClient));
+    }
+
+    const existing = await this.bookRepository.findById(id, client);
     if (!existing) {
       throw new AppError('Book not found', 404);
     }
 
-    // Check ISBN uniqueness if changed
-    if (data.isbn && data.isbn !== existing.isbn) {
-      const duplicate = await this.bookRepository.findByIsbn(data.isbn);
-      if (duplicate && duplicate.id !== id) {
-        throw new AppError('A book with this ISBN already exists', 409);
-      }
+    const { categoryIds, ...fields } = data;
+    const book = await this.bookRepository.update(id, fields, client);
+    if (!book) {
+      throw new AppError('Book not found', 404);
     }
 
-    // Update book
-    const updateData: Partial<Book> = {};
-    if (data.title !== undefined) updateData.title = data.title;
-    if (data.author !== undefined) updateData.author = data.author;
-    if (data.isbn !== undefined) updateData.isbn = data.isbn;
-    if (data.available !== undefined) updateData.available = data.available;
-    if (data.cover_image_path !== undefined) updateData.cover_image_path = data.cover_image_path;
-
-    const book = await this.bookRepository.update(id, updateData);
-    if (!book) {
-      throw new AppError('Failed to update book', 500);
+    if (categoryIds !== undefined) {
+      await this.replaceBookCategories(id, categoryIds, client);
     }
 
-    // Update categories if provided
-    if (data.categories !== undefined) {
-      await this.replaceBookCategories(id, data.categories);
+    if (existing.cover_image_path && fields.cover_image_path !== undefined && existing.cover_image_path !== fields.cover_image_path) {
+      this.deleteCoverImage(existing.cover_image_path);
     }
 
+    await this.webhookService.emit('book.updated', book, { client });
     return book;
   }
 
   /**
-   * Delete a book
+   * Delete a book and its cover. Its copies and categories go with it.
    */
   async deleteBook(id: number): Promise<void> {
+    await this.bookRepository.transaction(async (client) => {
+      const book = await this.bookRepository.findById(id, client);
+      if (!book) {
+        throw new AppError('Book not found', 404);
+      }
+
+      const deleted = await this.bookRepository.delete(id, client);
+      if (!deleted) {
+        throw new AppError('Book not found', 404);
+      }
+
+      await this.webhookService.emit('book.deleted', { id }, { client });
+      if (book.cover_image_path) {
+        this.deleteCoverImage(book.cover_image_path);
+      }
+    });
+  }
+
+  /**
+   * Delete several books and their covers. Returns how many were deleted.
+   */
+  async deleteBooks(ids: number[]): Promise<number> {
+    return await this.bookRepository.transaction(async (client) => {
+      const deleted = await this.bookRepository.deleteMany(ids, client);
+
+      for (const book of deleted) {
+        await this.webhookService.emit('book.deleted', { id: book.id }, { client });
+        if (book.cover_image_path) {
+          this.deleteCoverImage(book.cover_image_path);
+        }
+      }
+      return deleted.length;
+    });
+  }
+
+  /**
+   * Download a cover for a book that has none. Run as a background job after bulk imports.
+   */
+  async downloadCover(id: number, url: string): Promise<{ cover_image_path: string | null }> {
     const book = await this.bookRepository.findById(id);
-    if (!book) {
-      throw new AppError('Book not found', 404);
+    if (!book || book.cover_image_path) {
+      return { cover_image_path: book?.cover_image_path ?? null };
     }
 
-    const deleted = await this.bookRepository.delete(id);
-    if (!deleted) {
-      throw new AppError('Failed to delete book', 500);
+    const coverPath = await downloadCoverImage(url);
+    return { cover_image_path: await this.saveMetadata(id, { coverImagePath: coverPath }) ? coverPath : null };
+  }
+
+  /**
+   * Look a book's ISBN up and fill in the cover and description it is
+   * missing. Run as a background job after bulk imports.
+   */
+  async enrichMetadata(id: number): Promise<{ cover_added: boolean; description_added: boolean }> {
+    const book = await this.bookRepository.findById(id);
+    if (!book || !book.isbn || (book.cover_image_path && book.description)) {
+      return { cover_added: false, description_added: false };
     }
+
+    const metadata = await lookupIsbnMetadata(book.isbn);
+    const coverPath = !book.cover_image_path && metadata.coverUrl ? await downloadCoverImage(metadata.coverUrl) : null;
+    const description = !book.description && metadata.description ? metadata.description : null;
+
+    if (!coverPath && !description) {
+      return { cover_added: false, description_added: false };
+    }
+
+    const coverAdded = await this.saveMetadata(id, { coverImagePath: coverPath, description });
+    return { cover_added: coverAdded, description_added: description !== null };
   }
 
   /**
@@ -184,7 +257,11 @@ export class BookService {
     }
 
     if (booksToImport.length > 0) {
-      await this.bookRepository.bulkCreate(booksToImport);
+      const created = await this.bookRepository.bulkCreate(booksToImport);
+      for (const book of created) {
+        await this.copyRepository.createCopy(book.id, {}, 'available');
+        await this.webhookService.emit('book.created', book);
+      }
       result.imported = booksToImport.length;
     }
 
@@ -194,11 +271,9 @@ export class BookService {
   /**
    * Add categories to a book
    */
-  private async addCategoriesToBook(bookId: number, categoryIds: number[]): Promise<void> {
-    const { query } = await import('../db');
-
+  private async addCategoriesToBook(bookId: number, categoryIds: number[], client: PoolClient): Promise<void> {
     for (const categoryId of categoryIds) {
-      await query(
+      await client.query(
         'INSERT INTO book_categories (book_id, category_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
         [bookId, categoryId]
       );
@@ -208,20 +283,34 @@ export class BookService {
   /**
    * Replace book categories
    */
-  private async replaceBookCategories(bookId: number, categoryIds: number[]): Promise<void> {
-    const { query } = await import('../db');
+  private async replaceBookCategories(bookId: number, categoryIds: number[], client: PoolClient): Promise<void> {
+    await client.query('DELETE FROM book_categories WHERE book_id = $1', [bookId]);
+    await this.addCategoriesToBook(bookId, categoryIds, client);
+  }
 
-    await this.bookRepository.transaction(async (client) => {
-      // Remove existing categories
-      await client.query('DELETE FROM book_categories WHERE book_id = $1', [bookId]);
-
-      // Add new categories
-      for (const categoryId of categoryIds) {
-        await client.query(
-          'INSERT INTO book_categories (book_id, category_id) VALUES ($1, $2)',
-          [bookId, categoryId]
-        );
-      }
-    });
+  private deleteCoverImage(coverImagePath: string): void {
+    const filePath = path.join(uploadsDir, path.basename(coverImagePath));
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+      console.log(`Deleted cover image: ${filePath}`);
+    }
+  }
+
+  /**
+   * Fill in a book's missing metadata and announce the change. Returns
+   * whether the new cover was used; a cover that lost out to one set
+   * meanwhile is deleted.
+   */
+  private async saveMetadata(id: number, metadata: { coverImagePath?: string | null; description?: string | null }): Promise<boolean> {
+    const book = await this.bookRepository.fillMissingMetadata(id, metadata);
+    const coverUsed = Boolean(book && metadata.coverImagePath && book.cover_image_path === metadata.coverImagePath);
+
+    if (metadata.coverImagePath && !coverUsed) {
+      fs.rmSync(path.join(uploadsDir, path.basename(metadata.coverImagePath)), { force: true });
+    }
+    if (book) {
+      await this.webhookService.emit('book.updated', book);
+    }
+    return coverUsed;
   }
 }
@@ -0,0 +1,171 @@
+/**
+ * Circulation Policy Service - Business logic for circulation policies
+ *
+ * Policies are layered from least to most specific: global, category,
+ * member type, then category + member type. Each field of the effective
+ * policy comes from the most specific policy that sets it. When a book is
+ * in several categories with policies at the same level, the most
+ * restrictive value wins.
+ */
+
+import { PoolClient } from 'pg';
+import { CirculationPolicyRepository } from '../repositories/CirculationPolicyRepository';
+import { MemberRepository } from '../repositories/MemberRepository';
+import { LoanRepository } from '../repositories/LoanRepository';
+import { AppError } from '../middleware/errorHandler';
+import {
+  CirculationPolicy,
+  CirculationPolicyInput,
+  CirculationPolicyWithDetails,
+  EffectivePolicy,
+  PolicyField
+} from '../types/circulationPolicy';
+
+export const POLICY_FIELDS: PolicyField[] = ['loan_period_days', 'max_active_loans', 'max_renewals', 'grace_days'];
+
+/**
+ * Used for any field the global policy does not set (e.g. if the row was deleted)
+ */
+const DEFAULT_POLICY: EffectivePolicy = {
+  loan_period_days: 14,
+  max_active_loans: 5,
+  max_renewals: 2,
+  grace_days: 0
+};
+
+const specificity = (policy: CirculationPolicy): number =>
+  (policy.category_id !== null ? 1 : 0) + (policy.member_type !== null ? 2 : 0);
+
+const isGlobal = (policy: Pick<CirculationPolicy, 'category_id' | 'member_type'>): boolean =>
+  policy.category_id === null && policy.member_type === null;
+
+export class CirculationPolicyService {
+  private policyRepository: CirculationPolicyRepository;
+  private memberRepository: MemberRepository;
+  private loanRepository: LoanRepository;
+
+  constructor() {
+    this.policyRepository = new CirculationPolicyRepository();
+    this.memberRepository = new MemberRepository();
+    this.loanRepository = new LoanRepository();
+  }
+
+  /**
+   * Get all policies
+   */
+  async getPolicies(): Promise<CirculationPolicyWithDetails[]> {
+    return await this.policyRepository.findAllWithDetails();
+  }
+
+  /**
+   * Resolve the effective policy for a checkout of a book by a member type
+   */
+  async resolvePolicy(bookId: number, memberType: string, client?: PoolClient): Promise<EffectivePolicy> {
+    const policies = await this.policyRepository.findApplicable(bookId, memberType, client);
+
+    const effective = { ...DEFAULT_POLICY };
+    for (const field of POLICY_FIELDS) {
+      // Walk from the most specific level down to the global policy
+      for (const level of [3, 2, 1, 0]) {
+        const values = policies
+          .filter(policy => specificity(policy) === level && policy[field] !== null)
+          .map(policy => policy[field] as number);
+        if (values.length > 0) {
+          effective[field] = Math.min(...values);
+          break;
+        }
+      }
+    }
+
+    return effective;
+  }
+
+  /**
+   * Resolve the terms for a member checking out a book, rejecting the
+   * checkout if the member is already at their active loan limit. The
+   * member row stays locked until the checkout's transaction ends, so two
+   * checkouts at once cannot both pass the limit.
+   */
+  async resolveCheckoutPolicy(bookId: number, memberId: number, client: PoolClient): Promise<EffectivePolicy> {
+    const member = await this.memberRepository.findByIdForUpdate(memberId, client);
+    if (!member) {
+      throw new AppError('Member not found', 404);
+    }
+
+    const policy = await this.resolvePolicy(bookId, member.member_type, client);
+
+    const activeLoans = await this.loanRepository.countActiveLoansByMemberId(memberId, client);
+    if (activeLoans >= policy.max_active_loans) {
+      throw new AppError(`Member has reached the limit of ${policy.max_active_loans} active loans`, 409);
+    }
+
+    return policy;
+  }
+
+  /**
+   * Create a category and/or member type policy
+   */
+  async createPolicy(input: CirculationPolicyInput): Promise<CirculationPolicy> {
+    const scope = {
+      category_id: input.category_id ?? null,
+      member_type: input.member_type ?? null
+    };
+    if (isGlobal(scope)) {
+      throw new AppError('A global policy already exists; update it instead', 409);
+    }
+
+    return await this.policyRepository.create({
+      ...scope,
+      ...this.pickFields(input)
+    });
+  }
+
+  /**
+   * Update the values of a policy. The scope of a policy cannot change.
+   */
+  async updatePolicy(id: number, input: CirculationPolicyInput): Promise<CirculationPolicy> {
+    const policy = await this.policyRepository.findById(id);
+    if (!policy) {
+      throw new AppError('Policy not found', 404);
+    }
+
+    const fields = this.pickFields(input);
+    if (isGlobal(policy)) {
+      const missing = POLICY_FIELDS.filter(field => field in fields && fields[field] === null);
+      if (missing.length > 0) {
+        throw new AppError(`The global policy must set ${missing.join(', ')}`, 400);
+      }
+    }
+
+    const updated = await this.policyRepository.updatePolicy(id, fields);
+    if (!updated) {
+      throw new AppError('Policy not found', 404);
+    }
+    return updated;
+  }
+
+  /**
+   * Delete a category and/or member type policy
+   */
+  async deletePolicy(id: number): Promise<void> {
+    const policy = await this.policyRepository.findById(id);
+    if (!policy) {
+      throw new AppError('Policy not found', 404);
+    }
+    if (isGlobal(policy)) {
+      throw new AppError('The global policy cannot be deleted', 400);
+    }
+
+    await this.policyRepository.delete(id);
+  }
+
+  private pickFields(input: CirculationPolicyInput): Partial<CirculationPolicy> {
+    const fields: Partial<CirculationPolicy> = {};
+    for (const field of POLICY_FIELDS) {
+      if (field in input) {
+        fields[field] = input[field] ?? null;
+      }
+    }
+    return fields;
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Circulation Service - Business logic for the barcode-driven circulation desk
+ *
+ * Scanned codes are resolved in order as a member card barcode, a copy barcode
+ * and finally an ISBN. A batch of scans is checked out or returned in a single
+ * transaction: if any item fails, none of them are, and the error names the
+ * code that caused it.
+ */
+
+import { PoolClient } from 'pg';
+import { BookRepository } from '../repositories/BookRepository';
+import { CopyRepository } from '../repositories/CopyRepository';
+import { MemberRepository } from '../repositories/MemberRepository';
+import { AppError } from '../middleware/errorHandler';
+import { DeskCheckinItem, DeskCheckoutItem, ScanResult } from '../types/circulation';
+import { LoanService } from './LoanService';
+
+export class CirculationService {
+  private bookRepository: BookRepository;
+  private copyRepository: CopyRepository;
+  private memberRepository: MemberRepository;
+  private loanService: LoanService;
+
+  constructor() {
+    this.bookRepository = new BookRepository();
+    this.copyRepository = new CopyRepository();
+    this.memberRepository = new MemberRepository();
+    this.loanService = new LoanService();
+  }
+
+  /**
+   * Identify a scanned code
+   */
+  async resolveCode(code: string, client?: PoolClient): Promise<ScanResult> {
+    const member = await this.memberRepository.findByBarcode(code, client);
+    if (member) {
+      return { type: 'member', code, member };
+    }
+
+    const copy = await this.copyRepository.findByBarcode(code, client);
+    if (copy) {
+      const book = await this.bookRepository.findById(copy.book_id, client);
+      if (book) {
+        return { type: 'copy', code, copy, book };
+      }
+    }
+
+    const book = await this.bookRepository.findByScannedIsbn(code, client);
+    if (book) {
+      return { type: 'book', code, book };
+    }
+
+    throw new AppError('No member, copy or book matches this code', 404);
+  }
+
+  /**
+   * Check out every scanned item to the member whose card was scanned
+   */
+  async checkout(memberCode: string, codes: string[]): Promise<DeskCheckoutItem[]> {
+    return await this.bookRepository.transaction(async (client) => {
+      const member = await this.memberRepository.findByBarcode(memberCode, client);
+      if (!member) {
+        throw new AppError(`No member has the library card "${memberCode}"`, 404);
+      }
+
+      const items: DeskCheckoutItem[] = [];
+      for (const code of codes) {
+        items.push(await this.forCode(code, async () => {
+          const scan = await this.resolveItem(code, client);
+          const loan = await this.loanService.checkout({
+            bookId: scan.book.id,
+            memberId: member.id,
+            copyId: scan.type === 'copy' ? scan.copy.id : undefined
+          }, client);
+          const copy = scan.type === 'copy' ? scan.copy : await this.copyRepository.findById(loan.copy_id, client);
+          return { code, loan, book_title: scan.book.title, copy_barcode: copy?.barcode ?? null };
+        }));
+      }
+      return items;
+    });
+  }
+
+  /**
+   * Return every scanned item
+   */
+  async checkin(codes: string[]): Promise<DeskCheckinItem[]> {
+    return await this.bookRepository.transaction(async (client) => {
+      const items: DeskCheckinItem[] = [];
+      for (const code of codes) {
+        items.push(await this.forCode(code, async () => {
+          const scan = await this.resolveItem(code, client);
+          const { loan, fine, hold } = await this.loanService.checkin(
+            scan.type === 'copy' ? { copyId: scan.copy.id } : { bookId: scan.book.id },
+            client
+          );
+          const member = await this.memberRepository.findById(loan.member_id, client);
+          return { code, loan, book_title: scan.book.title, member_name: member?.name ?? null, fine, hold };
+        }));
+      }
+      return items;
+    });
+  }
+
+  /**
+   * Resolve a code that must identify an item rather than a member
+   */
+  private async resolveItem(code: string, client: PoolClient): Promise<Exclude<ScanResult, { type: 'member' }>> {
+    const scan = await this.resolveCode(code, client);
+    if (scan.type === 'member') {
+      throw new AppError('This is a member card, not an item', 400);
+    }
+    return scan;
+  }
+
+  /**
+   * Run one item of a batch, prefixing any error with the code that caused it
+   */
+  private async forCode<T>(code: string, fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (err) {
+      if (err instanceof AppError) {
+        throw new AppError(`${code}: ${err.message}`, err.statusCode);
+      }
+      throw err;
+    }
+  }
+}
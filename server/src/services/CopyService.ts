@@ -0,0 +1,229 @@
+/**
+ * Copy Service - Business logic for the physical copies of books
+ *
+ * A copy's status follows circulation: checkout, return and the hold queue
+ * move it between available, on_loan and on_hold_shelf. Staff can only
+ * move copies on the shelf between available, unavailable and withdrawn.
+ * Copies that are lost or come back damaged are withdrawn, never deleted.
+ */
+
+import { PoolClient } from 'pg';
+import { CopyRepository } from '../repositories/CopyRepository';
+import { BookRepository } from '../repositories/BookRepository';
+import { AppError } from '../middleware/errorHandler';
+import { Copy, CopyCondition, CopyConditionEntry, CopyInput, CopyWithDetails } from '../types/copy';
+import { HoldService } from './HoldService';
+
+export class CopyService {
+  private copyRepository: CopyRepository;
+  private bookRepository: BookRepository;
+  private holdService: HoldService;
+
+  constructor() {
+    this.copyRepository = new CopyRepository();
+    this.bookRepository = new BookRepository();
+    this.holdService = new HoldService();
+  }
+
+  /**
+   * Get the copies of a book
+   */
+  async getBookCopies(bookId: number): Promise<CopyWithDetails[]> {
+    const book = await this.bookRepository.findById(bookId);
+    if (!book) {
+      throw new AppError('Book not found', 404);
+    }
+
+    return await this.copyRepository.findByBookId(bookId);
+  }
+
+  /**
+   * Add a copy to a book. If members are waiting for the book, the new
+   * copy goes straight to the hold shelf for the head of the queue.
+   */
+  async addCopy(bookId: number, data: CopyInput, client?: PoolClient): Promise<Copy> {
+    if (!client) {
+      return await this.copyRepository.transaction(transactionClient => this.addCopy(bookId, data, transactionClient));
+    }
+
+    const book = await this.bookRepository.findById(bookId, client);
+    if (!book) {
+      throw new AppError('Book not found', 404);
+    }
+
+    const copy = await this.copyRepository.createCopy(bookId, data, 'unavailable', client);
+    const readyHold = await this.holdService.releaseCopy(copy, client);
+    return { ...copy, status: readyHold ? 'on_hold_shelf' : 'available' };
+  }
+
+  /**
+   * Update a copy's details, and optionally take it out of or put it
+   * back into circulation
+   */
+  async updateCopy(
+    id: number,
+    data: CopyInput & { status?: 'available' | 'unavailable' | 'withdrawn' },
+    userId?: number
+  ): Promise<Copy> {
+    return await this.copyRepository.transaction(async (client) => {
+      const copy = await this.copyRepository.findByIdForUpdate(id, client);
+      if (!copy) {
+        throw new AppError('Copy not found', 404);
+      }
+
+      const { status, ...details } = data;
+      const updated = await this.copyRepository.updateCopy(id, details, client);
+      if (!updated) {
+        throw new AppError('Failed to update copy', 500);
+      }
+
+      if (details.condition !== undefined && details.condition !== copy.condition) {
+        await this.copyRepository.addConditionEntry(id, details.condition, { userId }, client);
+      }
+
+      if (status === undefined || status === copy.status) {
+        return updated;
+      }
+
+      if (copy.status === 'on_loan' || copy.status === 'on_hold_shelf') {
+        throw new AppError(`Copy is ${copy.status.replace(/_/g, ' ')}; its status follows circulation`, 409);
+      }
+
+      if (status === 'unavailable' || status === 'withdrawn') {
+        return (await this.copyRepository.updateStatus(id, status, client)) || updated;
+      }
+
+      const readyHold = await this.holdService.releaseCopy(copy, client);
+      return { ...updated, status: readyHold ? 'on_hold_shelf' : 'available' };
+    });
+  }
+
+  /**
+   * Get the condition history of a copy
+   */
+  async getConditionHistory(id: number): Promise<CopyConditionEntry[]> {
+    const copy = await this.copyRepository.findById(id);
+    if (!copy) {
+      throw new AppError('Copy not found', 404);
+    }
+
+    return await this.copyRepository.findConditionHistory(id);
+  }
+
+  /**
+   * Record the condition a copy came back from a loan in. The history only
+   * gets an entry when the condition changed or staff left a note.
+   */
+  async recordReturnCondition(
+    copyId: number,
+    condition: CopyCondition,
+    details: { loanId: number; note?: string | null; userId?: number },
+    client: PoolClient
+  ): Promise<void> {
+    const copy = await this.copyRepository.findByIdForUpdate(copyId, client);
+    if (!copy || (condition === copy.condition && !details.note)) {
+      return;
+    }
+
+    if (condition !== copy.condition) {
+      await this.copyRepository.updateCopy(copy.id, { condition }, client);
+    }
+    await this.copyRepository.addConditionEntry(copy.id, condition, details, client);
+  }
+
+  /**
+   * Take a copy out of circulation for good, keeping it for the records
+   */
+  async withdrawCopy(id: number, client: PoolClient): Promise<Copy | null> {
+    return await this.copyRepository.updateStatus(id, 'withdrawn', client);
+  }
+
+  /**
+   * Delete a copy that was never lent out
+   */
+  async deleteCopy(id: number): Promise<void> {
+    const copy = await this.copyRepository.findById(id);
+    if (!copy) {
+      throw new AppError('Copy not found', 404);
+    }
+
+    if (copy.status === 'on_loan' || copy.status === 'on_hold_shelf') {
+      throw new AppError(`Copy is ${copy.status.replace(/_/g, ' ')} and cannot be deleted`, 409);
+    }
+
+    const hasLoanHistory = await this.copyRepository.hasLoanHistory(id);
+    if (hasLoanHistory) {
+      throw new AppError('Copy has loan history; withdraw it instead', 409);
+    }
+
+    await this.copyRepository.delete(id);
+  }
+
+  /**
+   * Pick the copy a member checks out and mark it on loan.
+   *
+   * A copy waiting on the hold shelf for the member is used first. Otherwise
+   * the requested copy, or any available one, is taken; if the member picks
+   * a different copy than the one set aside, that one passes down the queue.
+   */
+  async checkoutCopy(bookId: number, memberId: number, copyId: number | undefined, client: PoolClient): Promise<Copy> {
+    const claimedHold = await this.holdService.claimReadyHold(bookId, memberId, client);
+
+    let copy: Copy | null;
+    if (claimedHold?.copy_id && (!copyId || copyId === claimedHold.copy_id)) {
+      copy = await this.copyRepository.findByIdForUpdate(claimedHold.copy_id, client);
+    } else {
+      if (claimedHold?.copy_id) {
+        await this.holdService.releaseCopy({ id: claimedHold.copy_id, book_id: bookId }, client);
+      }
+      copy = copyId
+        ? await this.findRequestedCopy(bookId, copyId, client)
+        : await this.copyRepository.findAvailableCopy(bookId, client);
+    }
+
+    if (!copy) {
+      const onHoldShelf = await this.holdService.isOnHoldShelf(bookId, client);
+      throw new AppError(
+        onHoldShelf ? 'Book is on the hold shelf for another member' : 'Book is currently not available',
+        409
+      );
+    }
+
+    return (await this.copyRepository.updateStatus(copy.id, 'on_loan', client)) || copy;
+  }
+
+  /**
+   * Take the copies of the given books on the shelf out of circulation, or
+   * put the ones staff took out back into it. Returns the number of copies changed.
+   */
+  async setBooksAvailability(bookIds: number[], available: boolean): Promise<number> {
+    if (!available) {
+      return await this.copyRepository.markUnavailableByBookIds(bookIds);
+    }
+
+    return await this.copyRepository.transaction(async (client) => {
+      const copies = await this.copyRepository.findUnavailableByBookIds(bookIds, client);
+      for (const copy of copies) {
+        await this.holdService.releaseCopy(copy, client);
+      }
+      return copies.length;
+    });
+  }
+
+  /**
+   * Lock a specific copy for checkout, checking it belongs to the book and is free
+   */
+  private async findRequestedCopy(bookId: number, copyId: number, client: PoolClient): Promise<Copy> {
+    const copy = await this.copyRepository.findByIdForUpdate(copyId, client);
+    if (!copy || copy.book_id !== bookId) {
+      throw new AppError('Copy not found for this book', 404);
+    }
+    if (copy.status === 'on_hold_shelf') {
+      throw new AppError('Copy is on the hold shelf for another member', 409);
+    }
+    if (copy.status !== 'available') {
+      throw new AppError('Copy is not available', 409);
+    }
+    return copy;
+  }
+}
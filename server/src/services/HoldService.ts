@@ -0,0 +1,205 @@
+/**
+ * Hold Service - Business logic for the reservation queue
+ *
+ * Holds are queued FIFO per book, not per copy. When any copy comes back,
+ * the head of the queue is moved to the hold shelf with that copy, which
+ * stays unavailable to everyone else until the member picks it up or the
+ * pickup window expires.
+ */
+
+import { PoolClient } from 'pg';
+import { HoldRepository, HoldSearchOptions } from '../repositories/HoldRepository';
+import { BookRepository } from '../repositories/BookRepository';
+import { CopyRepository } from '../repositories/CopyRepository';
+import { MemberRepository } from '../repositories/MemberRepository';
+import { LoanRepository } from '../repositories/LoanRepository';
+import { PaginatedResult } from '../repositories/BaseRepository';
+import { AppError } from '../middleware/errorHandler';
+import { Hold, HoldWithDetails } from '../types/hold';
+import { Copy } from '../types/copy';
+import config from '../config';
+
+export class HoldService {
+  private holdRepository: HoldRepository;
+  private bookRepository: BookRepository;
+  private copyRepository: CopyRepository;
+  private memberRepository: MemberRepository;
+  private loanRepository: LoanRepository;
+
+  constructor() {
+    this.holdRepository = new HoldRepository();
+    this.bookRepository = new BookRepository();
+    this.copyRepository = new CopyRepository();
+    this.memberRepository = new MemberRepository();
+    this.loanRepository = new LoanRepository();
+  }
+
+  /**
+   * Get holds with filter/pagination
+   */
+  async getHolds(options: HoldSearchOptions): Promise<PaginatedResult<HoldWithDetails>> {
+    return await this.holdRepository.search(options);
+  }
+
+  /**
+   * Get the hold queue for a book
+   */
+  async getBookQueue(bookId: number): Promise<{
+    book_id: number;
+    on_hold_shelf: boolean;
+    queue: HoldWithDetails[];
+  }> {
+    const book = await this.bookRepository.findById(bookId);
+    if (!book) {
+      throw new AppError('Book not found', 404);
+    }
+
+    const queue = await this.holdRepository.findQueueByBookId(bookId);
+    return {
+      book_id: bookId,
+      on_hold_shelf: queue.some(hold => hold.status === 'ready'),
+      queue
+    };
+  }
+
+  /**
+   * Place a hold on a borrowed book
+   */
+  async placeHold(data: {
+    bookId: number;
+    memberId: number;
+  }): Promise<HoldWithDetails> {
+    return await this.holdRepository.transaction(async (client) => {
+      const book = await this.bookRepository.findById(data.bookId, client);
+      if (!book) {
+        throw new AppError('Book not found', 404);
+      }
+
+      const member = await this.memberRepository.findById(data.memberId, client);
+      if (!member) {
+        throw new AppError('Member not found', 404);
+      }
+
+      const activeLoan = await this.loanRepository.findActiveLoanForMember(data.bookId, data.memberId, client);
+      if (activeLoan) {
+        throw new AppError('Member already has this book on loan', 409);
+      }
+
+      const existingHold = await this.holdRepository.findActiveHold(data.bookId, data.memberId, client);
+      if (existingHold) {
+        throw new AppError('Member already has an active hold on this book', 409);
+      }
+
+      const hasAvailableCopy = await this.copyRepository.hasAvailableCopy(data.bookId, client);
+      if (hasAvailableCopy) {
+        throw new AppError('Book is available; borrow it instead of placing a hold', 409);
+      }
+
+      const hold = await this.holdRepository.create({
+        book_id: data.bookId,
+        member_id: data.memberId,
+        status: 'waiting'
+      }, client);
+
+      const queue = await this.holdRepository.findQueueByBookId(data.bookId, client);
+      return queue.find(entry => entry.id === hold.id) || hold;
+    });
+  }
+
+  /**
+   * Cancel an active hold. If it was on the hold shelf, its copy passes
+   * to the next member in the queue. Given a member, only that member's
+   * holds are found.
+   */
+  async cancelHold(id: number, memberId?: number): Promise<Hold> {
+    return await this.holdRepository.transaction(async (client) => {
+      const hold = await this.holdRepository.findById(id, client);
+      if (!hold || (memberId !== undefined && hold.member_id !== memberId)) {
+        throw new AppError('Hold not found', 404);
+      }
+      if (hold.status !== 'waiting' && hold.status !== 'ready') {
+        throw new AppError(`Hold is already ${hold.status}`, 409);
+      }
+
+      const cancelled = await this.holdRepository.close(id, 'cancelled', client);
+      if (!cancelled) {
+        throw new AppError('Failed to cancel hold', 500);
+      }
+
+      if (hold.status === 'ready' && hold.copy_id) {
+        await this.releaseCopy({ id: hold.copy_id, book_id: hold.book_id }, client);
+      }
+
+      return cancelled;
+    });
+  }
+
+  /**
+   * Check whether a member other than the given one is waiting for a book
+   */
+  async hasHoldsByOthers(bookId: number, memberId: number, client?: PoolClient): Promise<boolean> {
+    return await this.holdRepository.hasActiveHoldsByOthers(bookId, memberId, client);
+  }
+
+  /**
+   * Check whether a book has a copy on the hold shelf for anyone
+   */
+  async isOnHoldShelf(bookId: number, client?: PoolClient): Promise<boolean> {
+    const readyHold = await this.holdRepository.findReadyHoldByBookId(bookId, client);
+    return readyHold !== null;
+  }
+
+  /**
+   * Claim a member's hold shelf reservation of a book for checkout.
+   *
+   * Returns the fulfilled hold (with the copy set aside for the member),
+   * or null if the member has no copy of the book waiting on the hold shelf.
+   */
+  async claimReadyHold(bookId: number, memberId: number, client: PoolClient): Promise<Hold | null> {
+    const readyHold = await this.holdRepository.findReadyHold(bookId, memberId, client);
+    if (!readyHold) {
+      return null;
+    }
+    return await this.holdRepository.close(readyHold.id, 'fulfilled', client);
+  }
+
+  /**
+   * Release a copy that just became free (returned, added, hold cancelled or expired).
+   *
+   * Moves the next waiting hold of the book to the hold shelf with this copy,
+   * or puts the copy back on the shelf when nobody is waiting.
+   * Returns the hold that is now ready, if any.
+   */
+  async releaseCopy(copy: Pick<Copy, 'id' | 'book_id'>, client: PoolClient): Promise<Hold | null> {
+    const nextHold = await this.holdRepository.findNextWaitingHold(copy.book_id, client);
+    if (!nextHold) {
+      await this.copyRepository.updateStatus(copy.id, 'available', client);
+      return null;
+    }
+
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + config.holdPickupDays);
+
+    await this.copyRepository.updateStatus(copy.id, 'on_hold_shelf', client);
+    return await this.holdRepository.markReady(nextHold.id, copy.id, expiresAt, client);
+  }
+
+  /**
+   * Expire hold shelf reservations whose pickup window has passed
+   * and pass each copy on to the next member in its book's queue.
+   */
+  async expireHolds(): Promise<Hold[]> {
+    return await this.holdRepository.transaction(async (client) => {
+      const expiredHolds = await this.holdRepository.findExpiredReadyHolds(client);
+
+      for (const hold of expiredHolds) {
+        await this.holdRepository.close(hold.id, 'expired', client);
+        if (hold.copy_id) {
+          await this.releaseCopy({ id: hold.copy_id, book_id: hold.book_id }, client);
+        }
+      }
+
+      return expiredHolds;
+    });
+  }
+}
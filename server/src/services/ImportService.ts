@@ -0,0 +1,333 @@
+/**
+ * Import Service - Business logic for bulk CSV imports
+ *
+ * An upload is first planned without writing anything to the catalogue:
+ * the preview records which rows would be created, which would update an
+ * existing record and how, which would change nothing, which are
+ * duplicates and which are invalid, with the errors found in each column.
+ * Columns are mapped to fields by their headers, or by a saved import
+ * profile; changing the mapping or the mode plans the rows again.
+ * Confirming the preview queues an
+ * imports.run job that imports the accepted rows one transaction at a time
+ * and records progress as it goes; rows that fail at that point are kept
+ * with their error. Rejected and failed rows can be downloaded as a CSV to
+ * fix and upload again.
+ */
+
+import { ImportRepository, ImportRowSearchOptions, PlannedRow } from '../repositories/ImportRepository';
+import { ImportProfileRepository } from '../repositories/ImportProfileRepository';
+import { PaginatedResult } from '../repositories/BaseRepository';
+import { JobService } from './JobService';
+import { AppError } from '../middleware/errorHandler';
+import { createImporter, Importer } from '../imports';
+import { applyMapping, autoMapColumns, checkMapping, checkRequiredFields } from '../imports/mapping';
+import { readImportFile } from '../imports/sources';
+import { toCsv } from '../utils/csv';
+import { logger } from '../utils/logger';
+import {
+  Import,
+  ImportKind,
+  ImportFieldError,
+  ImportMapping,
+  ImportOptions,
+  ImportProfile,
+  ImportProfileInput,
+  ImportRecord,
+  ImportRow,
+  ImportSource,
+  IMPORT_MODES,
+  IMPORT_SOURCES,
+} from '../types/import';
+
+// Rows read from the queue per query while an import runs
+const ROW_BATCH_SIZE = 100;
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+/**
+ * Plan the rows of a file as the importer's fields. Rows that could not be
+ * read from the file are invalid and are not given to the importer.
+ */
+const planRows = async (
+  importer: Importer,
+  options: ImportOptions,
+  rows: Array<{ rowNumber: number; data: ImportRecord; readErrors: ImportFieldError[] }>
+): Promise<PlannedRow[]> => {
+  const readable = rows.filter(row => row.readErrors.length === 0);
+  const plans = await importer.plan(readable.map(row => applyMapping(options.mapping, row.data)), options.mode);
+  let next = 0;
+  return rows.map(row => ({
+    ...row,
+    plan: row.readErrors.length > 0
+      ? { action: 'invalid', errors: row.readErrors, changes: [] }
+      : plans[next++],
+  }));
+};
+
+export class ImportService {
+  private importRepository: ImportRepository;
+  private importProfileRepository: ImportProfileRepository;
+  private jobService: JobService;
+
+  constructor() {
+    this.importRepository = new ImportRepository();
+    this.importProfileRepository = new ImportProfileRepository();
+    this.jobService = new JobService();
+  }
+
+  /**
+   * Read an uploaded file and save the preview of what importing it would
+   * do. Columns are mapped by the given profile, or else by their headers;
+   * a profile field whose column is not in the file is unmapped. Exports
+   * from other catalogues are read into the book importer's fields.
+   */
+  async createPreview(
+    kind: ImportKind,
+    file: { originalname: string; buffer: Buffer },
+    userId: number | null,
+    options: { source?: ImportSource; profileId?: number } = {}
+  ): Promise<Import> {
+    const { source = 'csv', profileId } = options;
+    if (!IMPORT_SOURCES.includes(source)) {
+      throw new AppError(`Source must be one of: ${IMPORT_SOURCES.join(', ')}`, 400);
+    }
+    if (source !== 'csv' && kind !== 'books') {
+      throw new AppError('Only books can be imported from another catalogue', 400);
+    }
+
+    const { columns, records } = readImportFile(source, file.buffer);
+    const importer = createImporter(kind);
+
+    let importOptions: ImportOptions = { mapping: autoMapColumns(importer.fields, columns), mode: 'insert' };
+    if (profileId !== undefined) {
+      const profile = await this.getProfile(kind, profileId);
+      const mapping: ImportMapping = {};
+      for (const field of importer.fields) {
+        const column = profile.mapping[field.name];
+        mapping[field.name] = column && columns.includes(column) ? column : null;
+      }
+      importOptions = { mapping, mode: profile.mode };
+    }
+
+    const planned = await planRows(importer, importOptions, records.map(record => ({
+      rowNumber: record.line,
+      data: record.data,
+      readErrors: record.errors ?? [],
+    })));
+
+    return await this.importRepository.transaction(async client => {
+      const created = await this.importRepository.createImport({
+        kind,
+        source,
+        filename: file.originalname || null,
+        columns,
+        createdBy: userId,
+      }, client);
+      return await this.importRepository.savePlan(created.id, importOptions, planned, client);
+    });
+  }
+
+  /**
+   * Change a preview's mapping or mode and plan its rows again
+   */
+  async setOptions(kind: ImportKind, id: number, input: Partial<ImportOptions>): Promise<Import> {
+    const found = await this.getImport(kind, id);
+    if (found.status !== 'previewed') {
+      throw new AppError('Import has already been confirmed', 409);
+    }
+
+    const importer = createImporter(kind);
+    const mode = input.mode ?? found.mode;
+    if (!IMPORT_MODES.includes(mode)) {
+      throw new AppError(`Mode must be one of: ${IMPORT_MODES.join(', ')}`, 400);
+    }
+    const mappingError = checkMapping(importer.fields, input.mapping ?? found.mapping, found.columns);
+    if (mappingError) {
+      throw new AppError(mappingError, 400);
+    }
+
+    // Fields left out of the given mapping keep their column
+    const given: ImportMapping = { ...found.mapping, ...input.mapping };
+    const mapping: ImportMapping = {};
+    for (const field of importer.fields) {
+      mapping[field.name] = given[field.name] ?? null;
+    }
+    const requiredError = checkRequiredFields(importer.fields, importer.keyField, mapping, mode);
+    if (requiredError) {
+      throw new AppError(requiredError, 400);
+    }
+
+    const rows = await this.importRepository.findAllRows(id);
+    const planned = await planRows(importer, { mapping, mode }, rows.map(row => ({
+      rowNumber: row.row_number,
+      data: row.data,
+      readErrors: row.read_errors,
+    })));
+
+    return await this.importRepository.transaction(client =>
+      this.importRepository.savePlan(id, { mapping, mode }, planned, client)
+    );
+  }
+
+  async getImport(kind: ImportKind, id: number): Promise<Import> {
+    const found = await this.importRepository.findByKind(kind, id);
+    if (!found) {
+      throw new AppError('Import not found', 404);
+    }
+    return found;
+  }
+
+  async getRows(kind: ImportKind, id: number, options: ImportRowSearchOptions): Promise<PaginatedResult<ImportRow>> {
+    await this.getImport(kind, id);
+    return await this.importRepository.searchRows(id, options);
+  }
+
+  /**
+   * Confirm a previewed import and queue the job that runs it
+   */
+  async confirmImport(kind: ImportKind, id: number): Promise<Import> {
+    await this.getImport(kind, id);
+
+    const confirmed = await this.importRepository.transaction(async client => {
+      const queued = await this.importRepository.markQueued(id, client);
+      if (!queued) {
+        return null;
+      }
+      const job = await this.jobService.enqueue('imports.run', { import_id: id }, { client });
+      return await this.importRepository.setJob(id, job!.id, client);
+    });
+
+    if (!confirmed) {
+      throw new AppError('Import has already been confirmed', 409);
+    }
+    return confirmed;
+  }
+
+  /**
+   * Import the rows still pending. Run by the imports.run job; a retried
+   * job picks up where the last attempt stopped. On the job's last attempt
+   * a failure marks the import failed.
+   */
+  async runImport(id: number, lastAttempt: boolean): Promise<Record<string, number>> {
+    const started = await this.importRepository.markRunning(id);
+    if (!started) {
+      throw new Error(`Import ${id} not found`);
+    }
+
+    try {
+      const importer = createImporter(started.kind);
+      const { mapping, mode } = started;
+      let rows: ImportRow[];
+      while ((rows = await this.importRepository.findPendingRows(id, ROW_BATCH_SIZE)).length > 0) {
+        for (const row of rows) {
+          try {
+            await this.importRepository.transaction(async client => {
+              const outcome = await importer.importRecord(applyMapping(mapping, row.data), mode, client);
+              await this.importRepository.recordRowOutcome(row, 'imported', {
+                created: outcome === 'created',
+                updated: outcome === 'updated',
+              }, client);
+            });
+          } catch (err) {
+            await this.importRepository.recordRowOutcome(row, 'failed', {
+              errors: [{ column: null, message: errorMessage(err) }],
+            });
+          }
+        }
+      }
+    } catch (err) {
+      if (lastAttempt) {
+        await this.importRepository.markFinished(id, 'failed', errorMessage(err));
+      }
+      throw err;
+    }
+
+    const finished = await this.importRepository.markFinished(id, 'completed', null);
+    logger.info(`[IMPORT] Finished ${finished!.kind} import ${id}`, {
+      created: finished!.created_count,
+      updated: finished!.updated_count,
+      failed: finished!.failed_count,
+    });
+    return {
+      created: finished!.created_count,
+      updated: finished!.updated_count,
+      failed: finished!.failed_count,
+    };
+  }
+
+  /**
+   * A CSV of the rows that were not imported: the row number, the original
+   * columns, and what was wrong with the row
+   */
+  async getErrorReport(kind: ImportKind, id: number): Promise<string> {
+    const found = await this.getImport(kind, id);
+    const rows = await this.importRepository.findRejectedRows(id);
+
+    return toCsv(
+      ['row', ...found.columns, 'errors'],
+      rows.map(row => [
+        row.row_number,
+        ...found.columns.map(column => row.data[column]),
+        row.errors.map(error => (error.column ? `${error.column}: ${error.message}` : error.message)).join('; '),
+      ])
+    );
+  }
+
+  async getProfiles(kind: ImportKind): Promise<ImportProfile[]> {
+    return await this.importProfileRepository.findAllByKind(kind);
+  }
+
+  async getProfile(kind: ImportKind, id: number): Promise<ImportProfile> {
+    const profile = await this.importProfileRepository.findByKind(kind, id);
+    if (!profile) {
+      throw new AppError('Import profile not found', 404);
+    }
+    return profile;
+  }
+
+  /**
+   * Save a mapping and mode under a name, to reuse for files with the same columns
+   */
+  async createProfile(kind: ImportKind, input: ImportProfileInput, userId: number | null): Promise<ImportProfile> {
+    this.validateProfile(kind, input);
+    return await this.importProfileRepository.createProfile(kind, { ...input, name: input.name.trim() }, userId);
+  }
+
+  async updateProfile(kind: ImportKind, id: number, input: ImportProfileInput): Promise<ImportProfile> {
+    await this.getProfile(kind, id);
+    this.validateProfile(kind, input);
+    const profile = await this.importProfileRepository.updateProfile(id, { ...input, name: input.name.trim() });
+    if (!profile) {
+      throw new AppError('Import profile not found', 404);
+    }
+    return profile;
+  }
+
+  async deleteProfile(kind: ImportKind, id: number): Promise<void> {
+    await this.getProfile(kind, id);
+    await this.importProfileRepository.delete(id);
+  }
+
+  /**
+   * Delete imports that are not in progress and are older than the given number of days
+   */
+  async pruneImports(olderThanDays: number): Promise<number> {
+    return await this.importRepository.deleteFinishedBefore(new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000));
+  }
+
+  private validateProfile(kind: ImportKind, input: ImportProfileInput): void {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      throw new AppError('Name is required', 400);
+    }
+    if (input.name.trim().length > 100) {
+      throw new AppError('Name must be at most 100 characters', 400);
+    }
+    if (!IMPORT_MODES.includes(input.mode)) {
+      throw new AppError(`Mode must be one of: ${IMPORT_MODES.join(', ')}`, 400);
+    }
+    const mappingError = checkMapping(createImporter(kind).fields, input.mapping);
+    if (mappingError) {
+      throw new AppError(mappingError, 400);
+    }
+  }
+}
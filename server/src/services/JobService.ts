@@ -0,0 +1,200 @@
+/**
+ * Job Service - Business logic for the background job queue
+ *
+ * Anything slow or periodic runs as a job: callers queue one, in their
+ * transaction when they have one, and a worker in any API replica picks it
+ * up. A job that throws is retried after JOB_RETRY_DELAYS_SECONDS until it
+ * has made max_attempts attempts, and is then left dead for an admin to
+ * retry or delete. Scheduled jobs are queued by the replica holding the
+ * scheduler lock.
+ */
+
+import { PoolClient } from 'pg';
+import { JobRepository, JobSearchOptions } from '../repositories/JobRepository';
+import { PaginatedResult } from '../repositories/BaseRepository';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { getJobSchedules } from '../jobs/schedules';
+import {
+  Job,
+  JobEnqueueOptions,
+  JobSchedule,
+  JobSummary,
+  JobType,
+  JOB_RETRY_DELAYS_SECONDS,
+  JOB_STATUSES,
+} from '../types/job';
+import config from '../config';
+
+const SCHEDULER_LOCK = 'scheduler';
+
+/**
+ * Runs a job's work and returns what to record as its result
+ */
+export type JobHandler = (payload: Record<string, any>, job: Job) => Promise<Record<string, any> | void>;
+
+export class JobService {
+  private jobRepository: JobRepository;
+
+  constructor() {
+    this.jobRepository = new JobRepository();
+  }
+
+  /**
+   * Queue a job. Returns null if one with the same dedupe key has ever been
+   * queued and not yet deleted.
+   */
+  async enqueue(type: JobType, payload: Record<string, any>, options: JobEnqueueOptions & { client?: PoolClient } = {}): Promise<Job | null> {
+    const { client, ...enqueueOptions } = options;
+    return await this.jobRepository.enqueue(type, payload, enqueueOptions, client);
+  }
+
+  /**
+   * Queue a scheduled job for the slot it fired in. Scheduled jobs are not
+   * retried, since the next slot runs them again.
+   */
+  async enqueueScheduled(schedule: JobSchedule, firedAt: Date): Promise<Job | null> {
+    const slot = new Date(firedAt);
+    slot.setSeconds(0, 0);
+    return await this.jobRepository.enqueue(schedule.type, {}, {
+      maxAttempts: 1,
+      dedupeKey: `${schedule.type}@${slot.toISOString()}`,
+    });
+  }
+
+  /**
+   * Claim the next due job and run it. Returns the finished job, or null if
+   * none was due. The job's lock is renewed while its handler runs, so a
+   * long job is not released as abandoned.
+   */
+  async runNext(workerId: string, handlers: Partial<Record<JobType, JobHandler>>): Promise<Job | null> {
+    const job = await this.jobRepository.transaction(client => this.jobRepository.claimNext(workerId, client));
+    if (!job) {
+      return null;
+    }
+
+    const handler = handlers[job.type];
+    const lockRenewal = setInterval(() => {
+      this.jobRepository.renewLock(job.id, workerId).catch(err => {
+        logger.warn('Failed to renew job lock', { jobId: job.id, error: err instanceof Error ? err.message : String(err) });
+      });
+    }, config.jobLockTimeoutMinutes * 60 * 1000 / 3);
+    try {
+      if (!handler) {
+        throw new Error(`No handler for job type ${job.type}`);
+      }
+      const result = await handler(job.payload, job);
+      return await this.jobRepository.markSucceeded(job.id, result || null);
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      const retryAt = handler && job.attempts < job.max_attempts ? this.retryTime(job.attempts) : null;
+
+      logger.warn('Job failed', {
+        jobId: job.id,
+        type: job.type,
+        attempt: job.attempts,
+        error,
+        retryAt: retryAt?.toISOString() ?? null,
+      });
+
+      return await this.jobRepository.markFailed(job.id, error, retryAt);
+    } finally {
+      clearInterval(lockRenewal);
+    }
+  }
+
+  /**
+   * Put back jobs whose worker stopped while running them, which is when
+   * their lock has not been renewed for JOB_LOCK_TIMEOUT_MINUTES
+   */
+  async releaseStaleJobs(): Promise<number> {
+    const lockedBefore = new Date(Date.now() - config.jobLockTimeoutMinutes * 60 * 1000);
+    return await this.jobRepository.releaseStale(lockedBefore);
+  }
+
+  /**
+   * Take or renew the scheduler lock for ttlMs. Returns whether the caller holds it.
+   */
+  async acquireSchedulerLock(holder: string, ttlMs: number): Promise<boolean> {
+    return await this.jobRepository.acquireLeaderLock(SCHEDULER_LOCK, holder, new Date(Date.now() + ttlMs));
+  }
+
+  async releaseSchedulerLock(holder: string): Promise<void> {
+    await this.jobRepository.releaseLeaderLock(SCHEDULER_LOCK, holder);
+  }
+
+  /**
+   * Delete succeeded jobs older than the given number of days
+   */
+  async pruneSucceeded(days: number): Promise<number> {
+    return await this.jobRepository.deleteSucceededBefore(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+  }
+
+  async getJobs(options: JobSearchOptions): Promise<PaginatedResult<Job>> {
+    return await this.jobRepository.search(options);
+  }
+
+  /**
+   * Counts by status, the schedules with their latest job, and which replica is scheduling
+   */
+  async getSummary(): Promise<JobSummary> {
+    const counts = await this.jobRepository.countByStatus();
+    const schedules = await Promise.all(getJobSchedules().map(async schedule => ({
+      ...schedule,
+      last_job: await this.jobRepository.findLatestByType(schedule.type),
+    })));
+
+    return {
+      counts: Object.fromEntries(JOB_STATUSES.map(status => [status, counts[status] || 0])) as JobSummary['counts'],
+      schedules,
+      scheduler: await this.jobRepository.findLeaderLock(SCHEDULER_LOCK),
+    };
+  }
+
+  /**
+   * Queue a scheduled job to run now, outside its schedule
+   */
+  async runScheduledNow(type: string): Promise<Job> {
+    const schedule = getJobSchedules().find(s => s.type === type);
+    if (!schedule) {
+      throw new AppError(`${type} is not a scheduled job`, 400);
+    }
+    const job = await this.jobRepository.enqueue(schedule.type, {}, { maxAttempts: 1 });
+    return job as Job;
+  }
+
+  /**
+   * Queue a dead job to run again, with a fresh set of attempts
+   */
+  async retryJob(id: number): Promise<Job> {
+    const job = await this.jobRepository.findById(id);
+    if (!job) {
+      throw new AppError('Job not found', 404);
+    }
+    const requeued = await this.jobRepository.requeueDead(id);
+    if (!requeued) {
+      throw new AppError('Only dead jobs can be retried', 409);
+    }
+    return requeued;
+  }
+
+  /**
+   * Delete a pending, succeeded or dead job; a running job cannot be deleted
+   */
+  async deleteJob(id: number): Promise<void> {
+    const job = await this.jobRepository.findById(id);
+    if (!job) {
+      throw new AppError('Job not found', 404);
+    }
+    const deleted = await this.jobRepository.deleteUnlessRunning(id);
+    if (!deleted) {
+      throw new AppError('A running job cannot be deleted', 409);
+    }
+  }
+
+  private retryTime(attempts: number): Date {
+    const delays = JOB_RETRY_DELAYS_SECONDS;
+    const delay = delays[Math.min(attempts - 1, delays.length - 1)];
+    return new Date(Date.now() + delay * 1000);
+  }
+}
@@ -1,24 +1,49 @@
 /**
  * Loan Service - Business logic for loan operations
  *
- * Handles the complex transaction logic for borrowing and returning books.
+ * Handles the complex transaction logic for borrowing, renewing and returning books.
+ * Loans are made against a copy of a book; picking that copy and hold shelf
+ * handling are delegated to CopyService and HoldService so that both checkout
+ * paths share the same reservation rules.
  */
 
+import { PoolClient } from 'pg';
+
 import { LoanRepository, Loan, LoanSearchOptions, LoanWithDetails } from '../repositories/LoanRepository';
 import { BookRepository } from '../repositories/BookRepository';
 import { MemberRepository } from '../repositories/MemberRepository';
 import { PaginatedResult } from '../repositories/BaseRepository';
 import { AppError } from '../middleware/errorHandler';
+import { LoanOutcome, LoanRenewal } from '../types/loan';
+import { Hold } from '../types/hold';
+import { CopyCondition } from '../types/copy';
+import { AccountEntry } from '../types/account';
+import { HoldService } from './HoldService';
+import { CopyService } from './CopyService';
+import { CirculationPolicyService } from './CirculationPolicyService';
+import { MemberAccountService } from './MemberAccountService';
+import { WebhookService } from './WebhookService';
+import { WebhookEvent } from '../types/webhook';
 
 export class LoanService {
   private loanRepository: LoanRepository;
   private bookRepository: BookRepository;
   private memberRepository: MemberRepository;
+  private holdService: HoldService;
+  private copyService: CopyService;
+  private policyService: CirculationPolicyService;
+  private accountService: MemberAccountService;
+  private webhookService: WebhookService;
 
   constructor() {
     this.loanRepository = new LoanRepository();
     this.bookRepository = new BookRepository();
     this.memberRepository = new MemberRepository();
+    this.holdService = new HoldService();
+    this.copyService = new CopyService();
+    this.policyService = new CirculationPolicyService();
+    this.accountService = new MemberAccountService();
+    this.webhookService = new WebhookService();
   }
 
   /**
@@ -29,84 +54,259 @@ export class LoanService {
   }
 
   /**
-   * Borrow a book - Creates loan and updates book availability
+   * Borrow a book - Creates a loan for one of its copies and marks that copy on loan
    *
    * This operation uses a transaction to ensure data consistency.
    */
   async borrowBook(data: {
     bookId: number;
     memberId: number;
+    copyId?: number;
   }): Promise<Loan> {
-    return await this.loanRepository.transaction(async (client) => {
-      // Check if book exists and is available
-      const book = await this.bookRepository.findById(data.bookId, client);
-      if (!book) {
-        throw new AppError('Book not found', 404);
+    return await this.loanRepository.transaction(client => this.checkout(data, client));
+  }
+
+  /**
+   * Create a loan within the caller's transaction, so several checkouts can
+   * succeed or fail together
+   */
+  async checkout(data: { bookId: number; memberId: number; copyId?: number }, client: PoolClient): Promise<Loan> {
+    // Check if book exists
+    const book = await this.bookRepository.findById(data.bookId, client);
+    if (!book) {
+      throw new AppError('Book not found', 404);
+    }
+
+    // Check the member exists and is under their loan limit
+    const policy = await this.policyService.resolveCheckoutPolicy(data.bookId, data.memberId, client);
+
+    // Members with too much outstanding on their account cannot borrow
+    await this.accountService.assertCanBorrow(data.memberId, client);
+
+    // Take the copy on the hold shelf for this member, or a free one
+    const copy = await this.copyService.checkoutCopy(data.bookId, data.memberId, data.copyId, client);
+
+    // Calculate due date (one loan period from now)
+    const dueDate = new Date();
+    dueDate.setDate(dueDate.getDate() + policy.loan_period_days);
+
+    // Create loan record with the terms it was checked out under
+    const loan = await this.loanRepository.create({
+      book_id: data.bookId,
+      copy_id: copy.id,
+      member_id: data.memberId,
+      borrow_date: new Date(),
+      due_date: dueDate,
+      loan_period_days: policy.loan_period_days,
+      max_renewals: policy.max_renewals,
+      grace_days: policy.grace_days
+    }, client);
+
+    await this.emitLoanEvent('loan.created', loan, client);
+    return loan;
+  }
+
+  /**
+   * Find the active loan being returned, by copy or by book.
+   *
+   * A book is only enough to identify the loan while a single copy of it is out.
+   */
+  async findLoanToReturn(target: { bookId?: number; copyId?: number }, client?: PoolClient): Promise<Loan> {
+    if (target.copyId) {
+      const loan = await this.loanRepository.findActiveLoanByCopyId(target.copyId, client);
+      if (!loan) {
+        throw new AppError('No active loan found for this copy', 404);
       }
-      if (!book.available) {
-        throw new AppError('Book is not available', 409);
+      return loan;
+    }
+
+    const loans = target.bookId ? await this.loanRepository.findActiveLoansByBookId(target.bookId, client) : [];
+    if (loans.length === 0) {
+      throw new AppError('No active loan found for this book', 404);
+    }
+    if (loans.length > 1) {
+      throw new AppError('Several copies of this book are on loan; specify copy_id', 400);
+    }
+    return loans[0];
+  }
+
+  /**
+   * Return a book - Updates the loan record and puts its copy back into circulation
+   *
+   * Any overdue fine not yet charged is posted to the member's account.
+   * If members are waiting for the book, the copy goes to the hold shelf for
+   * the next one in the queue instead of becoming available.
+   * This operation uses a transaction to ensure data consistency.
+   */
+  async returnBook(target: { bookId?: number; copyId?: number }): Promise<{ loan: Loan; fine: number; hold: Hold | null }> {
+    return await this.loanRepository.transaction(client => this.checkin(target, client));
+  }
+
+  /**
+   * Return a loan within the caller's transaction. Also reports the fine
+   * charged and the hold the copy was set aside for, if any.
+   */
+  async checkin(
+    target: { bookId?: number; copyId?: number },
+    client: PoolClient
+  ): Promise<{ loan: Loan; fine: number; hold: Hold | null }> {
+    const loan = await this.findLoanToReturn(target, client);
+
+    // Update loan with return date
+    const updatedLoan = await this.loanRepository.update(loan.id, {
+      return_date: new Date(),
+      outcome: 'returned'
+    } as Partial<Loan>, client);
+
+    if (!updatedLoan) {
+      throw new AppError('Failed to update loan record', 500);
+    }
+
+    const fine = await this.accountService.assessOverdueFine(loan, new Date(), client);
+
+    // Hand the copy to the next hold in the queue, or make it available
+    const hold = await this.holdService.releaseCopy({ id: loan.copy_id, book_id: loan.book_id }, client);
+
+    await this.emitLoanEvent('loan.returned', updatedLoan, client);
+    return { loan: updatedLoan, fine, hold };
+  }
+
+  /**
+   * Close a loan with an outcome, for when staff need more than a plain return:
+   * - returned: optionally records the condition the item came back in
+   * - damaged: records the damage and withdraws the copy
+   * - lost: withdraws the copy
+   * - claims_returned: withdraws the copy until it turns up, and charges no
+   *   overdue fine since the member disputes having it
+   *
+   * A replacement charge for a lost or damaged item is posted to the member's
+   * account alongside any overdue fine. A returned loan raises loan.returned;
+   * any other outcome raises loan.closed, whose payload carries the outcome.
+   */
+  async closeLoan(
+    loanId: number,
+    request: { outcome: LoanOutcome; replacementCharge?: number; condition?: CopyCondition; note?: string },
+    userId?: number
+  ): Promise<{ loan: Loan; fine: number; charge: AccountEntry | null; hold: Hold | null }> {
+    return await this.loanRepository.transaction(async (client) => {
+      const loan = await this.loanRepository.findById(loanId, client);
+      if (!loan) {
+        throw new AppError('Loan not found', 404);
       }
 
-      // Check if member exists
-      const member = await this.memberRepository.findById(data.memberId, client);
-      if (!member) {
-        throw new AppError('Member not found', 404);
+      if (loan.return_date) {
+        throw new AppError('Loan has already been closed', 409);
       }
 
-      // Check if book already has an active loan
-      const activeLoan = await this.loanRepository.findActiveLoanByBookId(data.bookId, client);
-      if (activeLoan) {
-        throw new AppError('Book is currently borrowed', 409);
+      const { outcome, note } = request;
+      const closedLoan = await this.loanRepository.update(loan.id, {
+        return_date: new Date(),
+        outcome,
+        outcome_note: note ?? null
+      } as Partial<Loan>, client);
+
+      if (!closedLoan) {
+        throw new AppError('Failed to update loan record', 500);
       }
 
-      // Calculate due date (14 days from now)
-      const dueDate = new Date();
-      dueDate.setDate(dueDate.getDate() + 14);
+      const fine = outcome === 'claims_returned'
+        ? 0
+        : await this.accountService.assessOverdueFine(loan, new Date(), client);
 
-      // Create loan record
-      const loan = await this.loanRepository.create({
-        book_id: data.bookId,
-        member_id: data.memberId,
-        borrow_date: new Date(),
-        due_date: dueDate
-      }, client);
+      if (request.condition || outcome === 'damaged') {
+        await this.copyService.recordReturnCondition(
+          loan.copy_id,
+          request.condition ?? 'damaged',
+          { loanId: loan.id, note, userId },
+          client
+        );
+      }
 
-      // Update book availability
-      await this.bookRepository.updateAvailability(data.bookId, false, client);
+      // Only a copy that came back in a fit state goes back into circulation
+      let hold: Hold | null = null;
+      if (outcome === 'returned') {
+        hold = await this.holdService.releaseCopy({ id: loan.copy_id, book_id: loan.book_id }, client);
+      } else {
+        await this.copyService.withdrawCopy(loan.copy_id, client);
+      }
 
-      return loan;
+      let charge: AccountEntry | null = null;
+      if (request.replacementCharge) {
+        const book = await this.bookRepository.findById(loan.book_id, client);
+        charge = await this.accountService.recordCharge(
+          loan.member_id,
+          request.replacementCharge,
+          `Replacement charge for ${book ? `"${book.title}"` : `loan #${loan.id}`} (${outcome})`,
+          userId,
+          loan.id,
+          client
+        );
+      }
+
+      await this.emitLoanEvent(outcome === 'returned' ? 'loan.returned' : 'loan.closed', closedLoan, client);
+      return { loan: closedLoan, fine, charge, hold };
     });
   }
 
   /**
-   * Return a book - Updates loan record and book availability
+   * Renew a loan - Pushes the due date forward by the loan's period
    *
-   * This operation uses a transaction to ensure data consistency.
+   * Overdue loans are extended from today rather than from the missed due date,
+   * after posting the fine they have accrued.
+   * Refused once the renewal limit is reached or while another member is
+   * waiting for the book. Given a member, only that member's loans are found.
    */
-  async returnBook(bookId: number): Promise<Loan> {
+  async renewLoan(loanId: number, memberId?: number): Promise<Loan> {
     return await this.loanRepository.transaction(async (client) => {
-      // Find active loan for this book
-      const loan = await this.loanRepository.findActiveLoanByBookId(bookId, client);
-      if (!loan) {
-        throw new AppError('No active loan found for this book', 404);
+      const loan = await this.loanRepository.findById(loanId, client);
+      if (!loan || (memberId !== undefined && loan.member_id !== memberId)) {
+        throw new AppError('Loan not found', 404);
       }
 
-      // Update loan with return date
-      const updatedLoan = await this.loanRepository.update(loan.id, {
-        return_date: new Date()
-      } as Partial<Loan>, client);
+      if (loan.return_date) {
+        throw new AppError('Loan has already been returned', 409);
+      }
 
-      if (!updatedLoan) {
+      if (loan.renewal_count >= loan.max_renewals) {
+        throw new AppError(`Loan has reached the maximum of ${loan.max_renewals} renewals`, 409);
+      }
+
+      const hasHolds = await this.holdService.hasHoldsByOthers(loan.book_id, loan.member_id, client);
+      if (hasHolds) {
+        throw new AppError('Book is on hold for another member', 409);
+      }
+
+      // An overdue loan stops accruing once extended, so post what it owes so far
+      await this.accountService.assessOverdueFine(loan, new Date(), client);
+
+      const previousDueDate = new Date(loan.due_date);
+      const newDueDate = new Date(Math.max(previousDueDate.getTime(), Date.now()));
+      newDueDate.setDate(newDueDate.getDate() + loan.loan_period_days);
+
+      const renewedLoan = await this.loanRepository.renew(loanId, newDueDate, client);
+      if (!renewedLoan) {
         throw new AppError('Failed to update loan record', 500);
       }
 
-      // Update book availability
-      await this.bookRepository.updateAvailability(bookId, true, client);
+      await this.loanRepository.createRenewal(loanId, previousDueDate, newDueDate, client);
 
-      return updatedLoan;
+      await this.emitLoanEvent('loan.renewed', renewedLoan, client);
+      return renewedLoan;
     });
   }
 
+  /**
+   * Get the renewal history of a loan
+   */
+  async getLoanRenewals(loanId: number, memberId?: number): Promise<LoanRenewal[]> {
+    const loan = await this.loanRepository.findById(loanId);
+    if (!loan || (memberId !== undefined && loan.member_id !== memberId)) {
+      throw new AppError('Loan not found', 404);
+    }
+
+    return await this.loanRepository.findRenewalsByLoanId(loanId);
+  }
+
   /**
    * Get loan history for a member
    */
@@ -132,7 +332,23 @@ export class LoanService {
   }
 
   /**
-   * Check if a book is available for borrowing
+   * Queue a loan.overdue webhook event for each overdue loan. A loan raises
+   * the event once per due date, so a renewal that lapses raises it again.
+   * Returns how many deliveries were queued.
+   */
+  async emitOverdueEvents(): Promise<number> {
+    const loans = await this.loanRepository.findOverdueLoans();
+    let queued = 0;
+    for (const loan of loans) {
+      queued += await this.webhookService.emit('loan.overdue', loan, {
+        dedupeKey: `loan.overdue:${loan.id}:${new Date(loan.due_date).toISOString()}`,
+      });
+    }
+    return queued;
+  }
+
+  /**
+   * Check if a book is available for borrowing (any of its copies is on the shelf)
    */
   async isBookAvailable(bookId: number): Promise<boolean> {
     const book = await this.bookRepository.findById(bookId);
@@ -140,7 +356,14 @@ export class LoanService {
       throw new AppError('Book not found', 404);
     }
 
-    const activeLoan = await this.loanRepository.findActiveLoanByBookId(bookId);
-    return book.available && !activeLoan;
+    return book.available;
+  }
+
+  /**
+   * Queue a webhook event for a loan, with its book and member, in the caller's transaction
+   */
+  async emitLoanEvent(event: WebhookEvent, loan: { id: number }, client: PoolClient): Promise<void> {
+    const details = await this.loanRepository.findByIdWithDetails(loan.id, client);
+    await this.webhookService.emit(event, details ?? loan, { client });
   }
 }
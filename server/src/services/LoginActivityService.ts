@@ -0,0 +1,111 @@
+/**
+ * Login Activity Service - Business logic for login history and account lockout
+ *
+ * Every login attempt is recorded. Consecutive failures on an account, by
+ * password or by two-factor code, lock it once they reach the threshold:
+ * first for LOGIN_LOCKOUT_BASE_MINUTES, then twice as long with each
+ * further failure, up to LOGIN_LOCKOUT_MAX_MINUTES. A successful login or
+ * an admin unlock clears the count.
+ */
+
+import { UserRepository } from '../repositories/UserRepository';
+import { LoginEventRepository } from '../repositories/LoginEventRepository';
+import { AppError } from '../middleware/errorHandler';
+import { User } from '../types/user';
+import { SessionClient } from '../types/session';
+import { LoginEvent, LoginFailureReason } from '../types/loginEvent';
+import config from '../config';
+
+export class LoginActivityService {
+  private userRepository: UserRepository;
+  private loginEventRepository: LoginEventRepository;
+
+  constructor() {
+    this.userRepository = new UserRepository();
+    this.loginEventRepository = new LoginEventRepository();
+  }
+
+  /**
+   * Refuse a login to a locked account, recording the attempt
+   */
+  async assertNotLocked(user: User, sessionClient: SessionClient = {}): Promise<void> {
+    if (!user.locked_until || new Date(user.locked_until) <= new Date()) {
+      return;
+    }
+
+    await this.recordEvent(user.id, user.username, 'account_locked', sessionClient);
+    const minutes = Math.ceil((new Date(user.locked_until).getTime() - Date.now()) / 60000);
+    throw new AppError(
+      `Account is locked after too many failed logins; try again in ${minutes} minute${minutes === 1 ? '' : 's'}`,
+      423
+    );
+  }
+
+  /**
+   * Record a failed login, locking the account if it has failed too often.
+   * user is null when the username matched no account.
+   */
+  async recordFailure(user: User | null, username: string, reason: LoginFailureReason, sessionClient: SessionClient = {}): Promise<void> {
+    await this.recordEvent(user?.id ?? null, username, reason, sessionClient);
+    if (!user) {
+      return;
+    }
+
+    const failures = await this.userRepository.incrementFailedLogins(user.id);
+    const lockMinutes = this.lockoutMinutes(failures);
+    if (lockMinutes > 0) {
+      await this.userRepository.update(user.id, { locked_until: new Date(Date.now() + lockMinutes * 60000) });
+    }
+  }
+
+  /**
+   * Record a successful login and clear the failure count
+   */
+  async recordSuccess(user: User, sessionClient: SessionClient = {}): Promise<void> {
+    await this.recordEvent(user.id, user.username, null, sessionClient);
+    if (user.failed_login_count > 0 || user.locked_until) {
+      await this.userRepository.resetFailedLogins(user.id);
+    }
+  }
+
+  /**
+   * Get a user's recent login attempts
+   */
+  async getEvents(userId: number, limit: number = 50): Promise<LoginEvent[]> {
+    return await this.loginEventRepository.findRecentByUserId(userId, limit);
+  }
+
+  /**
+   * Unlock an account and clear its failure count (admin action)
+   */
+  async unlock(userId: number): Promise<void> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    await this.userRepository.resetFailedLogins(userId);
+  }
+
+  /**
+   * How long the failure that brought the count to this number locks the account for
+   */
+  private lockoutMinutes(failures: number): number {
+    const { loginLockoutThreshold, loginLockoutBaseMinutes, loginLockoutMaxMinutes } = config;
+    if (failures < loginLockoutThreshold) {
+      return 0;
+    }
+    return Math.min(loginLockoutBaseMinutes * 2 ** (failures - loginLockoutThreshold), loginLockoutMaxMinutes);
+  }
+
+  private async recordEvent(userId: number | null, username: string, failureReason: LoginFailureReason | null, sessionClient: SessionClient): Promise<void> {
+    await this.loginEventRepository.create({
+      user_id: userId,
+      username: username.slice(0, 255),
+      success: failureReason === null,
+      failure_reason: failureReason,
+      ip_address: sessionClient.ipAddress ?? null,
+      user_agent: sessionClient.userAgent ?? null,
+    });
+  }
+}
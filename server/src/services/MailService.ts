@@ -0,0 +1,33 @@
+/**
+ * Mail Service - Renders and sends outgoing email
+ *
+ * Messages go out through the transport configured by MAIL_TRANSPORT.
+ */
+
+import config from '../config';
+import { createMailTransport, MailTransport } from '../utils/mailTransport';
+import { passwordResetEmail } from '../utils/emailTemplates';
+import { MailMessage } from '../types/mail';
+
+export class MailService {
+  private transport: MailTransport;
+
+  constructor() {
+    this.transport = createMailTransport();
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send(message);
+  }
+
+  /**
+   * Email a password reset link pointing at the client's reset page
+   */
+  async sendPasswordReset(to: string, username: string, resetToken: string): Promise<void> {
+    const resetUrl = `${config.clientUrl.replace(/\/+$/, '')}/reset-password?token=${encodeURIComponent(resetToken)}`;
+    await this.send({
+      to,
+      ...passwordResetEmail({ username, resetUrl, expiresInMinutes: config.passwordResetTokenMinutes }),
+    });
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Member Account Service - Fines and the member ledger
+ *
+ * Overdue fines accrue per day once a loan is past its due date plus the
+ * grace days it was checked out with, up to a cap per loan. Accrual is
+ * idempotent: each run posts only the difference between the fine owed so
+ * far and the fines already charged for the loan, so it is safe to run on a
+ * schedule and again when the loan is returned.
+ */
+
+import { PoolClient } from 'pg';
+import { MemberAccountRepository } from '../repositories/MemberAccountRepository';
+import { MemberRepository } from '../repositories/MemberRepository';
+import { LoanRepository, Loan } from '../repositories/LoanRepository';
+import { PaginatedResult, PaginationOptions } from '../repositories/BaseRepository';
+import { AppError } from '../middleware/errorHandler';
+import { AccountEntry, AccountEntryInput, AccountEntryType, MemberAccount } from '../types/account';
+import config from '../config';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const roundCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+type FineableLoan = Pick<Loan, 'id' | 'member_id' | 'due_date' | 'grace_days'>;
+
+export class MemberAccountService {
+  private accountRepository: MemberAccountRepository;
+  private memberRepository: MemberRepository;
+  private loanRepository: LoanRepository;
+
+  constructor() {
+    this.accountRepository = new MemberAccountRepository();
+    this.memberRepository = new MemberRepository();
+    this.loanRepository = new LoanRepository();
+  }
+
+  /**
+   * Get a member's balance and ledger entries
+   */
+  async getAccount(memberId: number, options: PaginationOptions): Promise<MemberAccount & PaginatedResult<AccountEntry>> {
+    const member = await this.memberRepository.findById(memberId);
+    if (!member) {
+      throw new AppError('Member not found', 404);
+    }
+
+    const balance = await this.accountRepository.getBalance(memberId);
+    const entries = await this.accountRepository.findByMemberId(memberId, options);
+
+    return {
+      member_id: memberId,
+      balance: roundCents(balance),
+      ...entries
+    };
+  }
+
+  /**
+   * Record a payment from the member
+   */
+  async recordPayment(memberId: number, amount: number, description: string | undefined, userId?: number): Promise<AccountEntry> {
+    return await this.recordCredit('payment', memberId, amount, description || 'Payment', userId);
+  }
+
+  /**
+   * Waive part or all of the member's balance
+   */
+  async recordWaiver(memberId: number, amount: number, description: string | undefined, userId?: number): Promise<AccountEntry> {
+    return await this.recordCredit('waiver', memberId, amount, description || 'Waiver', userId);
+  }
+
+  /**
+   * Charge the member for something other than an overdue fine
+   */
+  async recordCharge(memberId: number, amount: number, description: string | undefined, userId?: number, loanId?: number, client?: PoolClient): Promise<AccountEntry> {
+    const post = (executor: PoolClient) => this.postEntry({
+      member_id: memberId,
+      loan_id: loanId ?? null,
+      type: 'charge',
+      amount: roundCents(amount),
+      description: description || 'Charge',
+      created_by: userId ?? null
+    }, executor);
+
+    return client ? await post(client) : await this.accountRepository.transaction(post);
+  }
+
+  /**
+   * Calculate the overdue fine owed for a loan as of a point in time
+   */
+  calculateFine(loan: Pick<FineableLoan, 'due_date' | 'grace_days'>, asOf: Date = new Date()): { daysOverdue: number; amount: number } {
+    const daysOverdue = Math.floor((asOf.getTime() - new Date(loan.due_date).getTime()) / MS_PER_DAY);
+    const chargeableDays = Math.max(0, daysOverdue - (loan.grace_days || 0));
+    const amount = roundCents(Math.min(chargeableDays * config.finePerDay, config.fineMaxAmount));
+    return { daysOverdue: Math.max(0, daysOverdue), amount };
+  }
+
+  /**
+   * Post any overdue fine accrued on a loan that has not been charged yet.
+   * Returns the amount posted.
+   */
+  async assessOverdueFine(loan: FineableLoan, asOf: Date, client: PoolClient): Promise<number> {
+    const { daysOverdue, amount } = this.calculateFine(loan, asOf);
+    if (amount <= 0) {
+      return 0;
+    }
+
+    const alreadyCharged = await this.accountRepository.getFinesForLoan(loan.id, client);
+    const due = roundCents(amount - alreadyCharged);
+    if (due <= 0) {
+      return 0;
+    }
+
+    await this.postEntry({
+      member_id: loan.member_id,
+      loan_id: loan.id,
+      type: 'fine',
+      amount: due,
+      description: `Overdue fine for loan #${loan.id} (${daysOverdue} days late)`
+    }, client);
+
+    return due;
+  }
+
+  /**
+   * Accrue fines on every loan that is still out past its due date
+   */
+  async accrueOverdueFines(): Promise<{ loans: number; total: number }> {
+    const overdueLoans = await this.loanRepository.findOverdueLoans();
+    const now = new Date();
+
+    let loans = 0;
+    let total = 0;
+    for (const loan of overdueLoans) {
+      const posted = await this.accountRepository.transaction(
+        (client) => this.assessOverdueFine(loan, now, client)
+      );
+      if (posted > 0) {
+        loans++;
+        total = roundCents(total + posted);
+      }
+    }
+
+    return { loans, total };
+  }
+
+  /**
+   * Refuse checkouts for members whose balance is above the blocking threshold
+   */
+  async assertCanBorrow(memberId: number, client?: PoolClient): Promise<void> {
+    const balance = await this.accountRepository.getBalance(memberId, client);
+    if (balance > config.fineBlockThreshold) {
+      throw new AppError(
+        `Member has an outstanding balance of ${balance.toFixed(2)}, above the borrowing limit of ${config.fineBlockThreshold.toFixed(2)}`,
+        409
+      );
+    }
+  }
+
+  private async recordCredit(type: Extract<AccountEntryType, 'payment' | 'waiver'>, memberId: number, amount: number, description: string, userId?: number): Promise<AccountEntry> {
+    return await this.accountRepository.transaction(async (client) => {
+      const exists = await this.accountRepository.lockMember(memberId, client);
+      if (!exists) {
+        throw new AppError('Member not found', 404);
+      }
+
+      const balance = await this.accountRepository.getBalance(memberId, client);
+      const credit = roundCents(amount);
+      if (credit > roundCents(balance)) {
+        throw new AppError(`Amount exceeds the outstanding balance of ${balance.toFixed(2)}`, 400);
+      }
+
+      return await this.accountRepository.addEntry({
+        member_id: memberId,
+        type,
+        amount: -credit,
+        description,
+        created_by: userId ?? null
+      }, roundCents(balance - credit), client);
+    });
+  }
+
+  private async postEntry(data: AccountEntryInput, client: PoolClient): Promise<AccountEntry> {
+    const exists = await this.accountRepository.lockMember(data.member_id, client);
+    if (!exists) {
+      throw new AppError('Member not found', 404);
+    }
+
+    const balance = await this.accountRepository.getBalance(data.member_id, client);
+    return await this.accountRepository.addEntry(data, roundCents(balance + data.amount), client);
+  }
+}
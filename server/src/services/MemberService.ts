@@ -2,24 +2,38 @@
  * Member Service - Business logic for member operations
  */
 
+import { PoolClient } from 'pg';
+
 import { MemberRepository, Member, MemberSearchOptions } from '../repositories/MemberRepository';
 import { PaginatedResult } from '../repositories/BaseRepository';
 import { AppError } from '../middleware/errorHandler';
+import { WebhookService } from './WebhookService';
+import { DEFAULT_MEMBER_TYPE } from '../types/member';
+import { searchWords, SimilarWords } from '../utils/textSearch';
 
 export class MemberService {
   private memberRepository: MemberRepository;
+  private webhookService: WebhookService;
 
   constructor() {
     this.memberRepository = new MemberRepository();
+    this.webhookService = new WebhookService();
   }
 
   /**
    * Get all members with search/filter/pagination
    */
-  async getMembers(options: MemberSearchOptions): Promise<PaginatedResult<Member>> {
+  async getMembers(options: MemberSearchOptions): Promise<PaginatedResult<Member> & { didYouMean?: string }> {
     return await this.memberRepository.search(options);
   }
 
+  /**
+   * Words of members' details similar to the misspelled words of a search
+   */
+  async findSimilarWords(search: string): Promise<SimilarWords> {
+    return await this.memberRepository.findSimilarWords(searchWords(search));
+  }
+
   /**
    * Get a single member by ID
    */
@@ -32,15 +46,18 @@ export class MemberService {
   }
 
   /**
-   * Create a new member
+   * Create a new member. Given a client, the member is created and the
+   * member.created event queued within the caller's transaction.
    */
   async createMember(data: {
     name: string;
     email: string;
-    phone?: string;
-  }): Promise<Member> {
+    phone?: string | null;
+    member_type?: string;
+    barcode?: string | null;
+  }, client?: PoolClient): Promise<Member> {
     // Check for duplicate email
-    const existing = await this.memberRepository.findByEmail(data.email);
+    const existing = await this.memberRepository.findByEmail(data.email.toLowerCase(), client);
     if (existing) {
       throw new AppError('A member with this email already exists', 409);
     }
@@ -49,29 +66,36 @@ export class MemberService {
     const member = await this.memberRepository.create({
       name: data.name,
       email: data.email.toLowerCase(),
-      phone: data.phone
-    });
+      phone: data.phone || null,
+      member_type: data.member_type || DEFAULT_MEMBER_TYPE,
+      barcode: data.barcode || null
+    }, client);
 
+    await this.webhookService.emit('member.created', member, { client });
     return member;
   }
 
   /**
-   * Update a member
+   * Update a member. Only the fields given are changed. Given a client, the
+   * member is updated and the member.updated event queued within the
+   * caller's transaction.
    */
   async updateMember(id: number, data: {
     name?: string;
     email?: string;
-    phone?: string;
-  }): Promise<Member> {
+    phone?: string | null;
+    member_type?: string;
+    barcode?: string | null;
+  }, client?: PoolClient): Promise<Member> {
     // Check member exists
-    const existing = await this.memberRepository.findById(id);
+    const existing = await this.memberRepository.findById(id, client);
     if (!existing) {
       throw new AppError('Member not found', 404);
     }
 
     // Check email uniqueness if changed
     if (data.email && data.email.toLowerCase() !== existing.email.toLowerCase()) {
-      const duplicate = await this.memberRepository.findByEmail(data.email);
+      const duplicate = await this.memberRepository.findByEmail(data.email.toLowerCase(), client);
       if (duplicate && duplicate.id !== id) {
         throw new AppError('A member with this email already exists', 409);
       }
@@ -82,12 +106,15 @@ export class MemberService {
     if (data.name !== undefined) updateData.name = data.name;
     if (data.email !== undefined) updateData.email = data.email.toLowerCase();
     if (data.phone !== undefined) updateData.phone = data.phone;
+    if (data.member_type !== undefined) updateData.member_type = data.member_type;
+    if (data.barcode !== undefined) updateData.barcode = data.barcode;
 
-    const member = await this.memberRepository.update(id, updateData);
+    const member = await this.memberRepository.update(id, updateData, client);
     if (!member) {
       throw new AppError('Failed to update member', 500);
     }
 
+    await this.webhookService.emit('member.updated', member, { client });
     return member;
   }
 
@@ -104,6 +131,8 @@ export class MemberService {
     if (!deleted) {
       throw new AppError('Failed to delete member', 500);
     }
+
+    await this.webhookService.emit('member.deleted', { id });
   }
 
   /**
@@ -146,7 +175,10 @@ export class MemberService {
     }
 
     if (membersToImport.length > 0) {
-      await this.memberRepository.bulkCreate(membersToImport);
+      const created = await this.memberRepository.bulkCreate(membersToImport);
+      for (const member of created) {
+        await this.webhookService.emit('member.created', member);
+      }
       result.imported = membersToImport.length;
     }
 
@@ -0,0 +1,178 @@
+/**
+ * Notification Service - Business logic for loan notification emails
+ *
+ * Members get a reminder shortly before a loan is due, an overdue notice
+ * once it is late and a final notice once it is FINAL_NOTICE_DAYS late.
+ * Each notice is recorded before it is sent, so a loan gets each kind once
+ * per due date however often the scheduled check runs; a failed delivery
+ * stays failed until an admin resends it.
+ */
+
+import { NotificationRepository, NotificationSearchOptions } from '../repositories/NotificationRepository';
+import { NotificationTemplateRepository } from '../repositories/NotificationTemplateRepository';
+import { MemberRepository } from '../repositories/MemberRepository';
+import { PaginatedResult } from '../repositories/BaseRepository';
+import { MailService } from './MailService';
+import { AppError } from '../middleware/errorHandler';
+import { fillPlaceholders, placeholdersIn, plainTextEmail } from '../utils/emailTemplates';
+import { logger } from '../utils/logger';
+import {
+  LoanNoticeCandidate,
+  Notification,
+  NotificationKind,
+  NotificationRunResult,
+  NotificationTemplate,
+  NotificationTemplateInput,
+  NotificationWithDetails,
+  NOTIFICATION_KINDS,
+  NOTIFICATION_PLACEHOLDERS,
+} from '../types/notification';
+import config from '../config';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+export class NotificationService {
+  private notificationRepository: NotificationRepository;
+  private templateRepository: NotificationTemplateRepository;
+  private memberRepository: MemberRepository;
+  private mailService: MailService;
+
+  constructor() {
+    this.notificationRepository = new NotificationRepository();
+    this.templateRepository = new NotificationTemplateRepository();
+    this.memberRepository = new MemberRepository();
+    this.mailService = new MailService();
+  }
+
+  /**
+   * Send every due-soon, overdue and final notice that has not been sent yet
+   */
+  async sendLoanNotices(now: Date = new Date()): Promise<NotificationRunResult> {
+    const finalNoticeFrom = addDays(now, -config.finalNoticeDays);
+    // Which due dates each kind of notice is for
+    const windows: [NotificationKind, Date | null, Date][] = [
+      ['due_soon', now, addDays(now, config.dueSoonNoticeDays)],
+      ['overdue', finalNoticeFrom, now],
+      ['final_notice', null, finalNoticeFrom],
+    ];
+
+    const result: NotificationRunResult = { sent: 0, failed: 0 };
+
+    for (const [kind, after, until] of windows) {
+      const template = await this.templateRepository.findByKind(kind);
+      if (!template) {
+        logger.warn('No template for loan notices', { kind });
+        continue;
+      }
+
+      const candidates = await this.notificationRepository.findNoticeCandidates(kind, after, until);
+      for (const candidate of candidates) {
+        const { subject, body } = this.render(template, candidate, now);
+        const notification = await this.notificationRepository.claim({
+          kind,
+          loan_id: candidate.loan_id,
+          member_id: candidate.member_id,
+          due_date: candidate.due_date,
+          recipient: candidate.member_email,
+          subject,
+          body,
+        });
+        if (!notification) {
+          continue;
+        }
+
+        const delivered = await this.deliver(notification, candidate.member_email);
+        result[delivered.status === 'sent' ? 'sent' : 'failed']++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Search sent and failed notifications
+   */
+  async getNotifications(options: NotificationSearchOptions): Promise<PaginatedResult<NotificationWithDetails>> {
+    return await this.notificationRepository.search(options);
+  }
+
+  /**
+   * Send a notification again, to the member's current email address
+   */
+  async resend(id: number): Promise<Notification> {
+    const notification = await this.notificationRepository.findById(id);
+    if (!notification) {
+      throw new AppError('Notification not found', 404);
+    }
+
+    const member = await this.memberRepository.findById(notification.member_id);
+    if (!member) {
+      throw new AppError('Member not found', 404);
+    }
+
+    return await this.deliver(notification, member.email);
+  }
+
+  async getTemplates(): Promise<NotificationTemplate[]> {
+    return await this.templateRepository.findAllTemplates();
+  }
+
+  /**
+   * Change the subject and body of a kind of notice
+   */
+  async updateTemplate(kind: string, input: NotificationTemplateInput): Promise<NotificationTemplate> {
+    if (!NOTIFICATION_KINDS.includes(kind as NotificationKind)) {
+      throw new AppError('Template not found', 404);
+    }
+
+    const known: readonly string[] = NOTIFICATION_PLACEHOLDERS;
+    const unknown = placeholdersIn(`${input.subject}\n${input.body}`).find(name => !known.includes(name));
+    if (unknown) {
+      throw new AppError(`Unknown placeholder {{${unknown}}}; use one of ${known.map(name => `{{${name}}}`).join(', ')}`, 400);
+    }
+
+    const template = await this.templateRepository.updateByKind(kind as NotificationKind, input);
+    if (!template) {
+      throw new AppError('Template not found', 404);
+    }
+    return template;
+  }
+
+  /**
+   * Fill in a template for one loan
+   */
+  private render(template: NotificationTemplate, loan: LoanNoticeCandidate, now: Date): NotificationTemplateInput {
+    const dueDate = new Date(loan.due_date);
+    const days = Math.max(1, Math.round(Math.abs(dueDate.getTime() - now.getTime()) / DAY_MS));
+    const values: Record<string, string> = {
+      member_name: loan.member_name,
+      book_title: loan.book_title,
+      book_author: loan.book_author,
+      due_date: dueDate.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+      days: String(days),
+      library_name: config.libraryName,
+    };
+
+    return {
+      subject: fillPlaceholders(template.subject, values),
+      body: fillPlaceholders(template.body, values),
+    };
+  }
+
+  /**
+   * Send a recorded notification and record how it went
+   */
+  private async deliver(notification: Notification, recipient: string): Promise<Notification> {
+    let error: string | null = null;
+    try {
+      await this.mailService.send({ to: recipient, ...plainTextEmail(notification.subject, notification.body) });
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      logger.warn('Failed to send notification', { notificationId: notification.id, error });
+    }
+
+    return (await this.notificationRepository.recordAttempt(notification.id, recipient, error)) ?? notification;
+  }
+}
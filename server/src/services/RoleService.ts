@@ -0,0 +1,105 @@
+/**
+ * Role Service - Business logic for roles and permissions
+ *
+ * Built-in roles are fixed; custom roles can be created, edited and
+ * deleted while no user holds them. A user's permissions are read from
+ * their role at login and carried in the token.
+ */
+
+import { RoleRepository } from '../repositories/RoleRepository';
+import { AppError } from '../middleware/errorHandler';
+import { Permission, Role, RoleInput, RoleWithUserCount, BUILT_IN_ROLES } from '../types/role';
+
+export class RoleService {
+  private roleRepository: RoleRepository;
+
+  constructor() {
+    this.roleRepository = new RoleRepository();
+  }
+
+  /**
+   * Get all roles with their user counts
+   */
+  async getRoles(): Promise<RoleWithUserCount[]> {
+    return await this.roleRepository.findAllWithUserCounts();
+  }
+
+  /**
+   * Check a role with this name exists
+   */
+  async roleExists(roleName: string): Promise<boolean> {
+    return (await this.roleRepository.findByName(roleName)) !== null;
+  }
+
+  /**
+   * Get the permissions granted by a role; an unknown role grants none
+   */
+  async getPermissions(roleName: string): Promise<Permission[]> {
+    const role = await this.roleRepository.findByName(roleName);
+    return role ? role.permissions : [];
+  }
+
+  /**
+   * Create a custom role
+   */
+  async createRole(input: RoleInput): Promise<Role> {
+    await this.assertNameFree(input.name);
+
+    return await this.roleRepository.create({
+      name: input.name,
+      description: input.description ?? null,
+      permissions: input.permissions,
+    });
+  }
+
+  /**
+   * Update a custom role. Renaming it renames it for its users too.
+   */
+  async updateRole(id: number, input: RoleInput): Promise<Role> {
+    const role = await this.findCustomRole(id);
+    if (input.name !== role.name) {
+      await this.assertNameFree(input.name);
+    }
+
+    const updated = await this.roleRepository.updateRole(id, {
+      name: input.name,
+      description: input.description ?? null,
+      permissions: input.permissions,
+    });
+    if (!updated) {
+      throw new AppError('Role not found', 404);
+    }
+    return updated;
+  }
+
+  /**
+   * Delete a custom role no user holds
+   */
+  async deleteRole(id: number): Promise<void> {
+    const role = await this.findCustomRole(id);
+
+    const userCount = await this.roleRepository.countUsers(role.name);
+    if (userCount > 0) {
+      throw new AppError(`Role is assigned to ${userCount} user${userCount === 1 ? '' : 's'}; reassign them first`, 409);
+    }
+
+    await this.roleRepository.delete(id);
+  }
+
+  private async findCustomRole(id: number): Promise<Role> {
+    const role = await this.roleRepository.findById(id);
+    if (!role) {
+      throw new AppError('Role not found', 404);
+    }
+    if (role.built_in) {
+      throw new AppError('Built-in roles cannot be changed', 400);
+    }
+    return role;
+  }
+
+  private async assertNameFree(name: string): Promise<void> {
+    if (name in BUILT_IN_ROLES || await this.roleRepository.findByName(name)) {
+      throw new AppError(`A role named "${name}" already exists`, 409);
+    }
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Saved Search Service - Business logic for saved searches and smart collections
+ *
+ * A saved search keeps a book search and the filters chosen with it under a
+ * name, so they need not be rebuilt each time. A smart collection is a
+ * saved search whose books are found again whenever it is opened, so books
+ * added this month are always this month's; it can be pinned to the
+ * navigation bar. Shared searches are listed to every user and can be run
+ * and pinned by them, but only their owner can change or delete them.
+ */
+
+import { PoolClient } from 'pg';
+import { SavedSearchRepository } from '../repositories/SavedSearchRepository';
+import { BookWithCopyCounts } from '../repositories/BookRepository';
+import { PaginatedResult } from '../repositories/BaseRepository';
+import { BookService } from './BookService';
+import { AppError } from '../middleware/errorHandler';
+import { parseBookQuery } from '../utils/bookQuery';
+import { BOOK_FORMATS } from '../types/book';
+import { SavedSearch, SavedSearchFilters, SavedSearchInput, SavedSearchSummary } from '../types/savedSearch';
+
+const NAME_MAX_LENGTH = 100;
+const SEARCH_MAX_LENGTH = 500;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isIntegerList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(item => Number.isInteger(item));
+
+/**
+ * The book list filters of a saved search, checked as they are given in a
+ * request body
+ */
+const savedSearchFiltersOf = (value: unknown): SavedSearchFilters => {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new AppError('Filters must be an object', 400);
+  }
+  const { categoryIds, categoryMatch, available, authors, languages, decades, formats } = value as Record<string, unknown>;
+  const filters: SavedSearchFilters = {};
+
+  if (categoryIds !== undefined) {
+    if (!isIntegerList(categoryIds)) throw new AppError('Filter categoryIds must be a list of category IDs', 400);
+    filters.categoryIds = categoryIds;
+  }
+  if (categoryMatch !== undefined) {
+    if (categoryMatch !== 'any' && categoryMatch !== 'all') throw new AppError('Filter categoryMatch must be any or all', 400);
+    filters.categoryMatch = categoryMatch;
+  }
+  if (available !== undefined) {
+    if (typeof available !== 'boolean') throw new AppError('Filter available must be true or false', 400);
+    filters.available = available;
+  }
+  if (authors !== undefined) {
+    if (!isStringList(authors)) throw new AppError('Filter authors must be a list of names', 400);
+    filters.authors = authors;
+  }
+  if (languages !== undefined) {
+    if (!isStringList(languages)) throw new AppError('Filter languages must be a list of language codes', 400);
+    filters.languages = languages;
+  }
+  if (decades !== undefined) {
+    if (!isIntegerList(decades)) throw new AppError('Filter decades must be a list of years', 400);
+    filters.decades = decades;
+  }
+  if (formats !== undefined) {
+    if (!isStringList(formats) || !formats.every(format => (BOOK_FORMATS as readonly string[]).includes(format))) {
+      throw new AppError(`Filter formats must be a list of: ${BOOK_FORMATS.join(', ')}`, 400);
+    }
+    filters.formats = formats as SavedSearchFilters['formats'];
+  }
+
+  return filters;
+};
+
+export class SavedSearchService {
+  private savedSearchRepository: SavedSearchRepository;
+  private bookService: BookService;
+
+  constructor() {
+    this.savedSearchRepository = new SavedSearchRepository();
+    this.bookService = new BookService();
+  }
+
+  async getSavedSearches(userId: number): Promise<SavedSearchSummary[]> {
+    return await this.savedSearchRepository.findVisible(userId);
+  }
+
+  /**
+   * A saved search the user owns or that is shared with them
+   */
+  async getSavedSearch(id: number, userId: number): Promise<SavedSearchSummary> {
+    const savedSearch = await this.savedSearchRepository.findVisibleById(id, userId);
+    if (!savedSearch) {
+      throw new AppError('Saved search not found', 404);
+    }
+    return savedSearch;
+  }
+
+  async createSavedSearch(userId: number, input: SavedSearchInput): Promise<SavedSearch> {
+    return await this.savedSearchRepository.createSavedSearch(userId, this.validateInput(input));
+  }
+
+  /**
+   * Change a saved search. A search that stops being shared is unpinned by
+   * other users, and one that stops being a collection by everyone.
+   */
+  async updateSavedSearch(id: number, userId: number, input: SavedSearchInput): Promise<SavedSearch> {
+    await this.getOwnSavedSearch(id, userId);
+    const savedInput = this.validateInput(input);
+
+    return await this.savedSearchRepository.transaction(async (client: PoolClient) => {
+      const savedSearch = await this.savedSearchRepository.updateSavedSearch(id, savedInput, client);
+      if (!savedSearch) {
+        throw new AppError('Saved search not found', 404);
+      }
+      if (!savedSearch.collection || !savedSearch.shared) {
+        await this.savedSearchRepository.unpinAll(id, savedSearch.collection ? userId : null, client);
+      }
+      return savedSearch;
+    });
+  }
+
+  async deleteSavedSearch(id: number, userId: number): Promise<void> {
+    await this.getOwnSavedSearch(id, userId);
+    await this.savedSearchRepository.delete(id);
+  }
+
+  /**
+   * Pin a smart collection to the user's navigation bar
+   */
+  async pin(id: number, userId: number): Promise<void> {
+    const savedSearch = await this.getSavedSearch(id, userId);
+    if (!savedSearch.collection) {
+      throw new AppError('Only smart collections can be pinned', 400);
+    }
+    await this.savedSearchRepository.pin(id, userId);
+  }
+
+  async unpin(id: number, userId: number): Promise<void> {
+    await this.getSavedSearch(id, userId);
+    await this.savedSearchRepository.unpin(id, userId);
+  }
+
+  /**
+   * The books a saved search finds now, a page at a time
+   */
+  async getBooks(
+    id: number,
+    userId: number,
+    options: { page: number; limit: number; sortBy?: string; sortOrder?: 'asc' | 'desc' }
+  ): Promise<PaginatedResult<BookWithCopyCounts> & { didYouMean?: string }> {
+    const savedSearch = await this.getSavedSearch(id, userId);
+    return await this.bookService.getBooks({ ...options, search: savedSearch.search, filters: savedSearch.filters });
+  }
+
+  private async getOwnSavedSearch(id: number, userId: number): Promise<SavedSearchSummary> {
+    const savedSearch = await this.getSavedSearch(id, userId);
+    if (savedSearch.user_id !== userId) {
+      throw new AppError('Only the owner of a saved search can change it', 403);
+    }
+    return savedSearch;
+  }
+
+  private validateInput(input: SavedSearchInput): Required<SavedSearchInput> {
+    const { name, search = '', filters, collection = false, shared = false } = (input || {}) as SavedSearchInput;
+
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new AppError('Name is required', 400);
+    }
+    if (name.trim().length > NAME_MAX_LENGTH) {
+      throw new AppError(`Name must be at most ${NAME_MAX_LENGTH} characters`, 400);
+    }
+    if (typeof search !== 'string') {
+      throw new AppError('Search must be text', 400);
+    }
+    if (search.length > SEARCH_MAX_LENGTH) {
+      throw new AppError(`Search must be at most ${SEARCH_MAX_LENGTH} characters`, 400);
+    }
+    // A search with an unknown field or a value a field cannot take is a 400 now rather than when it is run
+    parseBookQuery(search);
+    if (typeof collection !== 'boolean') {
+      throw new AppError('Collection must be true or false', 400);
+    }
+    if (typeof shared !== 'boolean') {
+      throw new AppError('Shared must be true or false', 400);
+    }
+
+    return { name: name.trim(), search: search.trim(), filters: savedSearchFiltersOf(filters), collection, shared };
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Session Service - Business logic for login sessions
+ *
+ * A login starts a session and returns a short-lived access token (JWT)
+ * with a long-lived refresh token. Refreshing swaps the refresh token for
+ * a new one and issues a new access token with the user's current role.
+ * A refresh token presented a second time has been copied, so the session
+ * it belongs to is revoked.
+ *
+ * Access tokens are checked against their session, so one from a revoked
+ * session stops working straight away in this replica, and in others once
+ * authenticateToken looks the session up again.
+ */
+
+import crypto from 'crypto';
+import { SessionRepository } from '../repositories/SessionRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { RoleService } from './RoleService';
+import { AppError } from '../middleware/errorHandler';
+import { forgetSessionStatus, generateToken } from '../utils/authUtils';
+import { User } from '../types/user';
+import { SessionClient, SessionRevokedReason, SessionSummary, SessionTokens } from '../types/session';
+import config from '../config';
+
+const hashRefreshToken = (refreshToken: string): string =>
+  crypto.createHash('sha256').update(refreshToken).digest('hex');
+
+export class SessionService {
+  private sessionRepository: SessionRepository;
+  private userRepository: UserRepository;
+  private roleService: RoleService;
+
+  constructor() {
+    this.sessionRepository = new SessionRepository();
+    this.userRepository = new UserRepository();
+    this.roleService = new RoleService();
+  }
+
+  /**
+   * Start a session for a user who has just logged in
+   */
+  async startSession(user: User, sessionClient: SessionClient = {}): Promise<SessionTokens> {
+    const expiresAt = new Date(Date.now() + config.refreshTokenDays * 24 * 60 * 60 * 1000);
+
+    return await this.sessionRepository.transaction(async (client) => {
+      const session = await this.sessionRepository.create({
+        user_id: user.id,
+        user_agent: sessionClient.userAgent ?? null,
+        ip_address: sessionClient.ipAddress ?? null,
+        expires_at: expiresAt
+      }, client);
+
+      const refreshToken = crypto.randomBytes(32).toString('hex');
+      await this.sessionRepository.addRefreshToken(session.id, hashRefreshToken(refreshToken), client);
+
+      return await this.issueTokens(user, session.id, refreshToken);
+    });
+  }
+
+  /**
+   * Swap a refresh token for a new one and a new access token
+   */
+  async refresh(refreshToken: string, sessionClient: SessionClient = {}): Promise<SessionTokens> {
+    const tokens = await this.sessionRepository.transaction(async (client) => {
+      const stored = await this.sessionRepository.findRefreshToken(hashRefreshToken(refreshToken), client);
+      if (!stored) {
+        throw new AppError('Invalid refresh token', 401);
+      }
+
+      const session = await this.sessionRepository.findById(stored.session_id, client);
+      if (!session || session.revoked_at || new Date(session.expires_at) <= new Date()) {
+        throw new AppError('Session has expired or been revoked', 401);
+      }
+
+      if (!(await this.sessionRepository.markRefreshTokenUsed(stored.id, client))) {
+        // Already swapped for a newer token, so someone else has a copy of it.
+        // Returning (not throwing) keeps the revocation from being rolled back.
+        await this.sessionRepository.revoke(session.id, 'reuse_detected', client);
+        return null;
+      }
+
+      const user = await this.userRepository.findById(session.user_id, client);
+      if (!user) {
+        throw new AppError('Session has expired or been revoked', 401);
+      }
+
+      const nextToken = crypto.randomBytes(32).toString('hex');
+      await this.sessionRepository.addRefreshToken(session.id, hashRefreshToken(nextToken), client);
+      await this.sessionRepository.touch(session.id, sessionClient.userAgent ?? null, sessionClient.ipAddress ?? null, client);
+
+      return await this.issueTokens(user, session.id, nextToken);
+    });
+
+    if (!tokens) {
+      forgetSessionStatus();
+      throw new AppError('Refresh token has already been used; the session has been revoked', 401);
+    }
+    return tokens;
+  }
+
+  /**
+   * End the session a refresh token belongs to, or every session of its user.
+   * Unknown tokens are ignored so logging out twice is harmless.
+   */
+  async logout(refreshToken: string, everywhere: boolean = false): Promise<void> {
+    const stored = await this.sessionRepository.findRefreshToken(hashRefreshToken(refreshToken));
+    if (!stored) {
+      return;
+    }
+
+    const session = await this.sessionRepository.findById(stored.session_id);
+    if (!session) {
+      return;
+    }
+
+    if (everywhere) {
+      await this.sessionRepository.revokeAllForUser(session.user_id, 'logout');
+    } else {
+      await this.sessionRepository.revoke(session.id, 'logout');
+    }
+    forgetSessionStatus();
+  }
+
+  /**
+   * List a user's open sessions, marking the one making the request
+   */
+  async getSessions(userId: number, currentSessionId?: number): Promise<SessionSummary[]> {
+    const sessions = await this.sessionRepository.findActiveByUserId(userId);
+    return sessions.map(session => ({ ...session, current: session.id === currentSessionId }));
+  }
+
+  /**
+   * Revoke one of a user's sessions
+   */
+  async revokeSession(userId: number, sessionId: number): Promise<void> {
+    const session = await this.sessionRepository.findById(sessionId);
+    if (!session || session.user_id !== userId) {
+      throw new AppError('Session not found', 404);
+    }
+
+    await this.sessionRepository.revoke(sessionId, 'revoked');
+    forgetSessionStatus();
+  }
+
+  /**
+   * Revoke every open session of a user; returns how many were revoked
+   */
+  async revokeAllSessions(userId: number, reason: SessionRevokedReason = 'revoked'): Promise<number> {
+    const revoked = await this.sessionRepository.revokeAllForUser(userId, reason);
+    forgetSessionStatus();
+    return revoked;
+  }
+
+  private async issueTokens(user: User, sessionId: number, refreshToken: string): Promise<SessionTokens> {
+    const permissions = await this.roleService.getPermissions(user.role);
+    const memberId = user.member_id ?? null;
+
+    const token = generateToken({
+      userId: user.id,
+      username: user.username,
+      role: user.role,
+      memberId,
+      permissions,
+      sessionId
+    });
+
+    return {
+      token,
+      refreshToken,
+      user: { id: user.id, username: user.username, role: user.role, member_id: memberId, permissions, created_at: user.created_at }
+    };
+  }
+}
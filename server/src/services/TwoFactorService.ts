@@ -0,0 +1,167 @@
+/**
+ * Two-Factor Service - Business logic for TOTP two-factor authentication
+ *
+ * Enrolling stores a new secret; two-factor is only enabled once the user
+ * confirms a code from their authenticator app, at which point they get a
+ * set of single-use recovery codes. An admin can require two-factor for a
+ * user, who then has to enrol at their next login, or reset it for a user
+ * who has lost their authenticator.
+ */
+
+import crypto from 'crypto';
+import { UserRepository } from '../repositories/UserRepository';
+import { RecoveryCodeRepository } from '../repositories/RecoveryCodeRepository';
+import { AppError } from '../middleware/errorHandler';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from '../utils/totp';
+import { User } from '../types/user';
+import { TwoFactorEnrollment, TwoFactorProof, TwoFactorStatus } from '../types/twoFactor';
+import config from '../config';
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// Recovery codes are compared without case or the dash they are shown with
+const hashRecoveryCode = (recoveryCode: string): string =>
+  crypto.createHash('sha256').update(recoveryCode.toUpperCase().replace(/[^A-Z0-9]/g, '')).digest('hex');
+
+const generateRecoveryCode = (): string => {
+  const bytes = crypto.randomBytes(10);
+  const chars = Array.from(bytes, byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]).join('');
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+};
+
+export class TwoFactorService {
+  private userRepository: UserRepository;
+  private recoveryCodeRepository: RecoveryCodeRepository;
+
+  constructor() {
+    this.userRepository = new UserRepository();
+    this.recoveryCodeRepository = new RecoveryCodeRepository();
+  }
+
+  /**
+   * Get whether a user has two-factor enabled or required
+   */
+  async getStatus(userId: number): Promise<TwoFactorStatus> {
+    const user = await this.findUser(userId);
+    return {
+      enabled: user.totp_enabled,
+      required: user.two_factor_required,
+      recoveryCodesRemaining: user.totp_enabled ? await this.recoveryCodeRepository.countUnused(userId) : 0,
+    };
+  }
+
+  /**
+   * Start enrolling: store a new secret and return it for the authenticator app.
+   * Starting again replaces a secret that was never confirmed.
+   */
+  async beginEnrollment(userId: number): Promise<TwoFactorEnrollment> {
+    const user = await this.findUser(userId);
+    if (user.totp_enabled) {
+      throw new AppError('Two-factor authentication is already enabled', 409);
+    }
+
+    const secret = generateTotpSecret();
+    await this.userRepository.update(userId, { totp_secret: secret, totp_last_step: null });
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.username, config.libraryName),
+    };
+  }
+
+  /**
+   * Finish enrolling with a code from the authenticator app; returns the
+   * recovery codes, which are only ever shown this once
+   */
+  async activate(userId: number, code: string): Promise<string[]> {
+    const user = await this.findUser(userId);
+    if (user.totp_enabled) {
+      throw new AppError('Two-factor authentication is already enabled', 409);
+    }
+    if (!user.totp_secret) {
+      throw new AppError('Start two-factor enrolment first', 400);
+    }
+
+    const step = verifyTotp(user.totp_secret, code);
+    if (step === null) {
+      throw new AppError('Invalid authentication code', 400);
+    }
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+    await this.userRepository.transaction(async (client) => {
+      await this.userRepository.update(userId, { totp_enabled: true, totp_last_step: step }, client);
+      await this.recoveryCodeRepository.replaceForUser(userId, recoveryCodes.map(hashRecoveryCode), client);
+    });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a second factor at login. A recovery code is used up.
+   */
+  async verify(user: User, proof: TwoFactorProof): Promise<boolean> {
+    if (!user.totp_enabled || !user.totp_secret) {
+      return false;
+    }
+
+    if (proof.recoveryCode) {
+      return await this.recoveryCodeRepository.consume(user.id, hashRecoveryCode(proof.recoveryCode));
+    }
+
+    if (proof.code) {
+      const step = verifyTotp(user.totp_secret, proof.code, user.totp_last_step);
+      return step !== null && await this.userRepository.recordTotpStep(user.id, step);
+    }
+
+    return false;
+  }
+
+  /**
+   * Turn off two-factor for the user themselves, proving they still have it
+   */
+  async disable(userId: number, proof: TwoFactorProof): Promise<void> {
+    const user = await this.findUser(userId);
+    if (user.two_factor_required) {
+      throw new AppError('Two-factor authentication is required for this account', 403);
+    }
+    if (!user.totp_enabled) {
+      throw new AppError('Two-factor authentication is not enabled', 400);
+    }
+    if (!(await this.verify(user, proof))) {
+      throw new AppError('Invalid authentication code', 400);
+    }
+
+    await this.reset(userId);
+  }
+
+  /**
+   * Remove a user's authenticator and recovery codes (admin reset)
+   */
+  async reset(userId: number): Promise<void> {
+    await this.findUser(userId);
+
+    await this.userRepository.transaction(async (client) => {
+      await this.userRepository.update(userId, { totp_secret: null, totp_enabled: false, totp_last_step: null }, client);
+      await this.recoveryCodeRepository.deleteForUser(userId, client);
+    });
+  }
+
+  /**
+   * Require (or stop requiring) two-factor for a user
+   */
+  async setRequired(userId: number, required: boolean): Promise<TwoFactorStatus> {
+    await this.findUser(userId);
+    await this.userRepository.update(userId, { two_factor_required: required });
+    return await this.getStatus(userId);
+  }
+
+  private async findUser(userId: number): Promise<User> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+    return user;
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * Webhook Service - Business logic for outgoing webhooks
+ *
+ * Services emit events as they change books, members and loans. An event is
+ * queued as one delivery per subscribed webhook, in the caller's transaction
+ * when there is one, so a change that rolls back never announces itself.
+ * Deliveries are sent soon after they are queued and then by a worker that
+ * runs every minute; a delivery that fails is retried with backoff until
+ * WEBHOOK_RETRY_DELAYS_MINUTES runs out.
+ */
+
+import crypto from 'crypto';
+import axios from 'axios';
+import { PoolClient } from 'pg';
+import { WebhookRepository } from '../repositories/WebhookRepository';
+import { WebhookDeliveryRepository, WebhookDeliverySearchOptions, WebhookAttemptResult } from '../repositories/WebhookDeliveryRepository';
+import { PaginatedResult } from '../repositories/BaseRepository';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import {
+  DELIVERY_HEADER,
+  EVENT_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  generateWebhookSecret,
+  signWebhookPayload,
+} from '../utils/webhookSignature';
+import {
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryWithUrl,
+  WebhookEvent,
+  WebhookInput,
+  WebhookPayload,
+  WebhookSummary,
+  WEBHOOK_EVENTS,
+  WEBHOOK_RETRY_DELAYS_MINUTES,
+} from '../types/webhook';
+import config from '../config';
+
+// How many due deliveries one worker run sends
+const DELIVERY_BATCH_SIZE = 50;
+// How long after an event is queued to send it, giving the caller's transaction time to commit
+const DELIVERY_DELAY_MS = 1000;
+// How much of an endpoint's response to keep in the delivery log
+const RESPONSE_BODY_LIMIT = 1000;
+
+let scheduledRun: NodeJS.Timeout | null = null;
+
+export interface WebhookRunResult {
+  succeeded: number;
+  failed: number;
+  retrying: number;
+}
+
+export class WebhookService {
+  private webhookRepository: WebhookRepository;
+  private deliveryRepository: WebhookDeliveryRepository;
+
+  constructor() {
+    this.webhookRepository = new WebhookRepository();
+    this.deliveryRepository = new WebhookDeliveryRepository();
+  }
+
+  /**
+   * Queue an event for the webhooks subscribed to it. Give a dedupe key for
+   * an event that may be raised more than once, so each webhook gets it once.
+   * Returns how many deliveries were queued.
+   */
+  async emit(event: WebhookEvent, data: unknown, options: { client?: PoolClient; dedupeKey?: string } = {}): Promise<number> {
+    const queued = await this.deliveryRepository.enqueueEvent(
+      event,
+      this.buildPayload(event, data),
+      options.dedupeKey ?? null,
+      options.client
+    );
+    if (queued > 0) {
+      this.scheduleDeliveries();
+    }
+    return queued;
+  }
+
+  async getWebhooks(): Promise<WebhookSummary[]> {
+    return await this.webhookRepository.findAllSummaries();
+  }
+
+  /**
+   * Register a webhook. The secret is generated here and only returned now
+   * and when it is rotated.
+   */
+  async createWebhook(input: WebhookInput): Promise<Webhook> {
+    this.validateInput(input);
+    return await this.webhookRepository.createWebhook(input, generateWebhookSecret());
+  }
+
+  async updateWebhook(id: number, input: Partial<WebhookInput>): Promise<WebhookSummary> {
+    this.validateInput(input);
+    const webhook = await this.webhookRepository.updateWebhook(id, input);
+    if (!webhook) {
+      throw new AppError('Webhook not found', 404);
+    }
+    return webhook;
+  }
+
+  async deleteWebhook(id: number): Promise<void> {
+    const deleted = await this.webhookRepository.delete(id);
+    if (!deleted) {
+      throw new AppError('Webhook not found', 404);
+    }
+  }
+
+  /**
+   * Replace a webhook's secret, for when it may have leaked
+   */
+  async rotateSecret(id: number): Promise<Webhook> {
+    const webhook = await this.webhookRepository.updateSecret(id, generateWebhookSecret());
+    if (!webhook) {
+      throw new AppError('Webhook not found', 404);
+    }
+    return webhook;
+  }
+
+  /**
+   * Send a ping event to a webhook straight away, to check it is reachable
+   */
+  async ping(id: number): Promise<WebhookDelivery> {
+    const webhook = await this.webhookRepository.findById(id);
+    if (!webhook) {
+      throw new AppError('Webhook not found', 404);
+    }
+
+    const payload = this.buildPayload('ping', { webhook_id: webhook.id, events: webhook.events });
+    const delivery = await this.deliveryRepository.enqueueFor(webhook.id, 'ping', payload);
+    return await this.sendDelivery(delivery.id) ?? delivery;
+  }
+
+  async getDeliveries(options: WebhookDeliverySearchOptions): Promise<PaginatedResult<WebhookDeliveryWithUrl>> {
+    return await this.deliveryRepository.search(options);
+  }
+
+  /**
+   * Send a delivery again straight away, with a fresh set of retries if it fails
+   */
+  async redeliver(id: number): Promise<WebhookDelivery> {
+    const delivery = await this.deliveryRepository.requeue(id);
+    if (!delivery) {
+      throw new AppError('Delivery not found', 404);
+    }
+    return await this.sendDelivery(delivery.id) ?? delivery;
+  }
+
+  /**
+   * Send every delivery whose next attempt is due
+   */
+  async processDueDeliveries(): Promise<WebhookRunResult> {
+    const result: WebhookRunResult = { succeeded: 0, failed: 0, retrying: 0 };
+
+    const ids = await this.deliveryRepository.findDueIds(DELIVERY_BATCH_SIZE);
+    for (const id of ids) {
+      const delivery = await this.sendDelivery(id);
+      if (!delivery) {
+        continue;
+      }
+      if (delivery.status === 'pending') {
+        result.retrying++;
+      } else {
+        result[delivery.status]++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Run the delivery worker shortly, once however many events are queued meanwhile
+   */
+  private scheduleDeliveries(): void {
+    if (scheduledRun) {
+      return;
+    }
+    scheduledRun = setTimeout(() => {
+      scheduledRun = null;
+      this.processDueDeliveries().catch(err => {
+        logger.error('Failed to send webhook deliveries', { error: err instanceof Error ? err.message : String(err) });
+      });
+    }, DELIVERY_DELAY_MS);
+    scheduledRun.unref();
+  }
+
+  /**
+   * Claim a due delivery, post it and record how it went. Returns null if
+   * the delivery is not due or another worker has it.
+   */
+  private async sendDelivery(id: number): Promise<WebhookDelivery | null> {
+    // Long enough that a request still in flight is not picked up again
+    const leaseUntil = new Date(Date.now() + config.webhookTimeoutMs + 60 * 1000);
+    const delivery = await this.deliveryRepository.claim(id, leaseUntil);
+    if (!delivery) {
+      return null;
+    }
+
+    const webhook = await this.webhookRepository.findById(delivery.webhook_id);
+    if (!webhook) {
+      return null;
+    }
+
+    const outcome = await this.post(webhook, delivery);
+    const succeeded = outcome.error === null;
+    const attempt = delivery.attempts + 1;
+    const retryDelay = WEBHOOK_RETRY_DELAYS_MINUTES[attempt - 1];
+
+    const result: WebhookAttemptResult = {
+      ...outcome,
+      status: succeeded ? 'succeeded' : retryDelay === undefined ? 'failed' : 'pending',
+      nextAttemptAt: !succeeded && retryDelay !== undefined ? new Date(Date.now() + retryDelay * 60 * 1000) : null,
+    };
+
+    if (!succeeded) {
+      logger.warn('Webhook delivery failed', {
+        deliveryId: delivery.id,
+        webhookId: webhook.id,
+        attempt,
+        error: outcome.error,
+        retryInMinutes: retryDelay,
+      });
+    }
+
+    return await this.deliveryRepository.recordAttempt(delivery.id, result);
+  }
+
+  /**
+   * Post a delivery's payload, signed with the webhook's secret. Any
+   * response other than a 2xx counts as a failure.
+   */
+  private async post(
+    webhook: Webhook,
+    delivery: WebhookDelivery
+  ): Promise<Pick<WebhookAttemptResult, 'responseStatus' | 'responseBody' | 'error'>> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+      const response = await axios.post<string>(webhook.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'HomeShelf-Webhooks/1.0',
+          [EVENT_HEADER]: delivery.event,
+          [DELIVERY_HEADER]: String(delivery.id),
+          [TIMESTAMP_HEADER]: String(timestamp),
+          [SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, timestamp, body),
+        },
+        timeout: config.webhookTimeoutMs,
+        maxRedirects: 0,
+        responseType: 'text',
+        transformResponse: (data: string) => data,
+        validateStatus: () => true,
+      });
+
+      const responseBody = typeof response.data === 'string' ? response.data.slice(0, RESPONSE_BODY_LIMIT) : null;
+      const ok = response.status >= 200 && response.status < 300;
+      return {
+        responseStatus: response.status,
+        responseBody,
+        error: ok ? null : `Endpoint responded with HTTP ${response.status}`,
+      };
+    } catch (err) {
+      return {
+        responseStatus: null,
+        responseBody: null,
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+  }
+
+  private buildPayload(event: WebhookEvent | 'ping', data: unknown): WebhookPayload {
+    return {
+      id: crypto.randomUUID(),
+      event,
+      occurred_at: new Date().toISOString(),
+      data,
+    };
+  }
+
+  /**
+   * Check a webhook's URL, events and description, where given
+   */
+  private validateInput(input: Partial<WebhookInput>): void {
+    if (input.url !== undefined) {
+      let url: URL;
+      try {
+        url = new URL(input.url);
+      } catch {
+        throw new AppError('URL must be a valid http or https URL', 400);
+      }
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new AppError('URL must be a valid http or https URL', 400);
+      }
+    }
+
+    if (input.events !== undefined) {
+      if (!Array.isArray(input.events) || input.events.length === 0) {
+        throw new AppError('Choose at least one event', 400);
+      }
+      const known: readonly string[] = WEBHOOK_EVENTS;
+      const unknown = input.events.find(event => !known.includes(event));
+      if (unknown) {
+        throw new AppError(`Unknown event ${unknown}; use one of ${WEBHOOK_EVENTS.join(', ')}`, 400);
+      }
+    }
+
+    if (input.description && input.description.length > 255) {
+      throw new AppError('Description must be at most 255 characters', 400);
+    }
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Member account (fines ledger) types
+ */
+
+export type AccountEntryType = 'fine' | 'charge' | 'payment' | 'waiver';
+
+export interface AccountEntry {
+  id: number;
+  member_id: number;
+  loan_id: number | null;
+  type: AccountEntryType;
+  amount: number;
+  balance_after: number;
+  description: string | null;
+  created_by: number | null;
+  created_at: Date;
+}
+
+export interface AccountEntryInput {
+  member_id: number;
+  loan_id?: number | null;
+  type: AccountEntryType;
+  amount: number;
+  description?: string | null;
+  created_by?: number | null;
+}
+
+export interface AccountEntryRequest {
+  amount: number;
+  description?: string;
+}
+
+export interface MemberAccount {
+  member_id: number;
+  balance: number;
+}
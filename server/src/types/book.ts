@@ -2,6 +2,10 @@
  * Book entity and related types
  */
 
+export const BOOK_FORMATS = ['hardcover', 'paperback', 'ebook', 'audiobook', 'large_print', 'other'] as const;
+
+export type BookFormat = typeof BOOK_FORMATS[number];
+
 export interface Book {
   id: number;
   title: string;
@@ -10,14 +14,22 @@ export interface Book {
   available: boolean;
   cover_image_path?: string | null;
   description?: string | null;
+  language?: string | null;
+  publication_year?: number | null;
+  format?: BookFormat | null;
+  on_hold_shelf?: boolean;
   created_at: Date;
 }
 
 export interface BookInput {
   title: string;
   author: string;
-  isbn: string;
-  description?: string;
+  isbn?: string | null;
+  description?: string | null;
+  language?: string | null;
+  publication_year?: number | null;
+  format?: BookFormat | null;
+  cover_image_path?: string | null;
   categoryIds?: number[];
 }
 
@@ -32,13 +44,78 @@ export interface BookQueryParams {
   limit?: string;
   category?: string;
   categoryIds?: string;
+  categoryMatch?: string;
   availability?: string;
   availableStatus?: string;
+  authors?: string | string[];
+  languages?: string;
+  decades?: string;
+  formats?: string;
+  facets?: string;
   search?: string;
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
 }
 
+// What the book list can be narrowed by, each with counts of the books per value
+export const BOOK_FACETS = ['categories', 'availability', 'author', 'language', 'decade', 'format'] as const;
+
+export type BookFacet = typeof BOOK_FACETS[number];
+
+// Fields a search can be narrowed by, as in author:pratchett year:>1990
+export const BOOK_QUERY_FIELDS = ['author', 'title', 'category', 'isbn', 'available', 'year', 'language', 'format', 'added', 'borrowed'] as const;
+
+export type BookQueryField = typeof BOOK_QUERY_FIELDS[number];
+
+/**
+ * A time a search compares when books were added with, worked out when the
+ * search is run: a date, the start of the current day, week, month or
+ * year, or a number of days ago
+ */
+export type BookQueryInstant = { date: string } | { startOf: 'day' | 'week' | 'month' | 'year' } | { daysAgo: number };
+
+/**
+ * A field of a search and the value books must have, or must not have
+ * when negated. Years are between inclusive bounds; books were added from
+ * one instant and before another.
+ */
+export type BookQueryCondition = { negated: boolean } & (
+  | { field: 'author' | 'title' | 'category' | 'isbn' | 'language'; value: string }
+  | { field: 'format'; value: BookFormat }
+  | { field: 'available' | 'borrowed'; value: boolean }
+  | { field: 'year'; min?: number; max?: number }
+  | { field: 'added'; from?: BookQueryInstant; before?: BookQueryInstant }
+);
+
+/**
+ * Filters on the book list. Books match any of the values chosen for a
+ * facet and every facet with values chosen; with categoryMatch 'all', they
+ * must be in all the chosen categories.
+ */
+export interface BookFilters {
+  categoryIds?: number[];
+  categoryMatch?: 'any' | 'all';
+  available?: boolean;
+  authors?: string[];
+  languages?: string[];
+  decades?: number[];
+  formats?: BookFormat[];
+  // The fields of the search
+  query?: BookQueryCondition[];
+}
+
+/**
+ * A value of a facet and how many books have it. Categories are counted by
+ * id, with their name as the label.
+ */
+export interface BookFacetValue {
+  value: string;
+  label?: string;
+  count: number;
+}
+
+export type BookFacetCounts = Partial<Record<BookFacet, BookFacetValue[]>>;
+
 export interface BookWithCategories extends Book {
   categories?: string[];
 }
@@ -0,0 +1,43 @@
+/**
+ * Circulation desk types
+ */
+
+import type { Book } from '../repositories/BookRepository';
+import type { Loan } from '../repositories/LoanRepository';
+import type { Member } from '../repositories/MemberRepository';
+import { Copy } from './copy';
+import { Hold } from './hold';
+
+/**
+ * What a scanned code identified: a member's library card, a copy's barcode,
+ * or a book's ISBN
+ */
+export type ScanResult =
+  | { type: 'member'; code: string; member: Member }
+  | { type: 'copy'; code: string; copy: Copy; book: Book }
+  | { type: 'book'; code: string; book: Book };
+
+export interface DeskCheckoutRequest {
+  member_code: string;
+  codes: string[];
+}
+
+export interface DeskCheckinRequest {
+  codes: string[];
+}
+
+export interface DeskCheckoutItem {
+  code: string;
+  loan: Loan;
+  book_title: string;
+  copy_barcode: string | null;
+}
+
+export interface DeskCheckinItem {
+  code: string;
+  loan: Loan;
+  book_title: string;
+  member_name: string | null;
+  fine: number;
+  hold: Hold | null;
+}
@@ -0,0 +1,40 @@
+/**
+ * Circulation policy entity and related types
+ */
+
+export interface CirculationPolicy {
+  id: number;
+  category_id: number | null;
+  member_type: string | null;
+  loan_period_days: number | null;
+  max_active_loans: number | null;
+  max_renewals: number | null;
+  grace_days: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CirculationPolicyWithDetails extends CirculationPolicy {
+  category_name?: string | null;
+}
+
+export interface CirculationPolicyInput {
+  category_id?: number | null;
+  member_type?: string | null;
+  loan_period_days?: number | null;
+  max_active_loans?: number | null;
+  max_renewals?: number | null;
+  grace_days?: number | null;
+}
+
+/**
+ * Fully resolved terms for a checkout
+ */
+export interface EffectivePolicy {
+  loan_period_days: number;
+  max_active_loans: number;
+  max_renewals: number;
+  grace_days: number;
+}
+
+export type PolicyField = keyof EffectivePolicy;
@@ -0,0 +1,46 @@
+/**
+ * Copy (physical item) entity and related types
+ */
+
+export type CopyStatus = 'available' | 'on_loan' | 'on_hold_shelf' | 'unavailable' | 'withdrawn';
+
+export type CopyCondition = 'new' | 'good' | 'fair' | 'poor' | 'damaged';
+
+export const COPY_CONDITIONS: CopyCondition[] = ['new', 'good', 'fair', 'poor', 'damaged'];
+
+export interface Copy {
+  id: number;
+  book_id: number;
+  barcode: string | null;
+  status: CopyStatus;
+  condition: CopyCondition;
+  location: string | null;
+  acquisition_date: string | null;
+  price: number | null;
+  created_at: Date;
+}
+
+export interface CopyWithDetails extends Copy {
+  member_id?: number | null;
+  member_name?: string | null;
+  due_date?: Date | null;
+}
+
+export interface CopyInput {
+  barcode?: string | null;
+  condition?: CopyCondition;
+  location?: string | null;
+  acquisition_date?: string | null;
+  price?: number | null;
+}
+
+export interface CopyConditionEntry {
+  id: number;
+  copy_id: number;
+  loan_id: number | null;
+  condition: CopyCondition;
+  note: string | null;
+  recorded_by: number | null;
+  recorded_by_username?: string | null;
+  created_at: Date;
+}
@@ -10,6 +10,8 @@ import { JwtPayload } from './user';
  */
 export interface AuthRequest extends Request {
   user?: JwtPayload;
+  /** Member a patron login is limited to; unset for staff */
+  memberScope?: number;
 }
 
 /**
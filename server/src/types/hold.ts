@@ -0,0 +1,36 @@
+/**
+ * Hold (reservation) entity and related types
+ */
+
+export type HoldStatus = 'waiting' | 'ready' | 'fulfilled' | 'expired' | 'cancelled';
+
+export interface Hold {
+  id: number;
+  book_id: number;
+  member_id: number;
+  copy_id: number | null;
+  status: HoldStatus;
+  ready_at: Date | null;
+  expires_at: Date | null;
+  closed_at: Date | null;
+  created_at: Date;
+}
+
+export interface HoldWithDetails extends Hold {
+  book_title?: string;
+  member_name?: string;
+  queue_position?: number;
+}
+
+export interface HoldRequest {
+  book_id: number;
+  member_id: number;
+}
+
+export interface HoldQueryParams {
+  page?: string;
+  limit?: string;
+  book_id?: string;
+  member_id?: string;
+  status?: HoldStatus | 'active';
+}
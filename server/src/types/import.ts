@@ -0,0 +1,147 @@
+/**
+ * Bulk import types
+ */
+
+export const IMPORT_KINDS = ['books', 'members'] as const;
+
+export type ImportKind = typeof IMPORT_KINDS[number];
+
+export const IMPORT_STATUSES = ['previewed', 'queued', 'running', 'completed', 'failed'] as const;
+
+export type ImportStatus = typeof IMPORT_STATUSES[number];
+
+// Where an upload comes from: a CSV file in HomeShelf's own layout, or another catalogue's export (books only)
+export const IMPORT_SOURCES = ['csv', 'goodreads', 'librarything', 'calibre', 'marc'] as const;
+
+export type ImportSource = typeof IMPORT_SOURCES[number];
+
+// insert only creates records, update only changes records matched by ISBN or email, upsert does both
+export const IMPORT_MODES = ['insert', 'update', 'upsert'] as const;
+
+export type ImportMode = typeof IMPORT_MODES[number];
+
+// What a row will do: create a record, update one (for books, also add a copy), leave a matched record as it is, or be rejected
+export const IMPORT_ROW_ACTIONS = ['create', 'update', 'unchanged', 'duplicate', 'invalid'] as const;
+
+export type ImportRowAction = typeof IMPORT_ROW_ACTIONS[number];
+
+export const IMPORT_ROW_STATUSES = ['pending', 'imported', 'failed', 'skipped'] as const;
+
+export type ImportRowStatus = typeof IMPORT_ROW_STATUSES[number];
+
+/**
+ * A problem with a row; column is null when it is not about one column
+ */
+export interface ImportFieldError {
+  column: string | null;
+  message: string;
+}
+
+/**
+ * A change an update row makes to a field of the matched record
+ */
+export interface ImportFieldChange {
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+/**
+ * A CSV row keyed by column header, or after mapping, by field
+ */
+export type ImportRecord = Record<string, string>;
+
+/**
+ * Which column of the file each field is read from; unmapped fields are not imported
+ */
+export type ImportMapping = Record<string, string | null>;
+
+/**
+ * A field an importer reads, with the column headers it is matched to automatically
+ */
+export interface ImportField {
+  name: string;
+  required: boolean;
+  aliases: string[];
+}
+
+/**
+ * What the preview decided for a row
+ */
+export interface ImportRowPlan {
+  action: ImportRowAction;
+  errors: ImportFieldError[];
+  changes: ImportFieldChange[];
+}
+
+export interface Import {
+  id: number;
+  kind: ImportKind;
+  source: ImportSource;
+  filename: string | null;
+  status: ImportStatus;
+  columns: string[];
+  mapping: ImportMapping;
+  mode: ImportMode;
+  total_rows: number;
+  create_rows: number;
+  update_rows: number;
+  unchanged_rows: number;
+  duplicate_rows: number;
+  invalid_rows: number;
+  processed_rows: number;
+  created_count: number;
+  updated_count: number;
+  failed_count: number;
+  job_id: number | null;
+  error: string | null;
+  created_by: number | null;
+  created_at: Date;
+  started_at: Date | null;
+  finished_at: Date | null;
+}
+
+export interface ImportRow {
+  id: number;
+  import_id: number;
+  // The line in the CSV file, counting the header as line 1
+  row_number: number;
+  data: ImportRecord;
+  // Why the row could not be read from the file; such rows are invalid whatever the mapping
+  read_errors: ImportFieldError[];
+  action: ImportRowAction;
+  errors: ImportFieldError[];
+  changes: ImportFieldChange[];
+  status: ImportRowStatus;
+}
+
+/**
+ * A saved mapping and mode, reusable for files with the same layout
+ */
+export interface ImportProfile {
+  id: number;
+  kind: ImportKind;
+  name: string;
+  mapping: ImportMapping;
+  mode: ImportMode;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ImportProfileInput {
+  name: string;
+  mapping: ImportMapping;
+  mode: ImportMode;
+}
+
+export interface ImportOptions {
+  mapping: ImportMapping;
+  mode: ImportMode;
+}
+
+export interface ImportRowQueryParams {
+  page?: string;
+  limit?: string;
+  action?: ImportRowAction;
+}
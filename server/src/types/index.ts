@@ -6,15 +6,60 @@
 // Book types
 export * from './book';
 
+// Copy types
+export * from './copy';
+
 // Member types
 export * from './member';
 
 // Loan types
 export * from './loan';
 
+// Hold types
+export * from './hold';
+
+// Circulation desk types
+export * from './circulation';
+
+// Circulation policy types
+export * from './circulationPolicy';
+
+// Member account types
+export * from './account';
+
 // User types
 export * from './user';
 
+// Role types
+export * from './role';
+
+// Session types
+export * from './session';
+
+// Two-factor authentication types
+export * from './twoFactor';
+
+// Login history types
+export * from './loginEvent';
+
+// Outgoing email types
+export * from './mail';
+
+// Loan notification types
+export * from './notification';
+
+// Outgoing webhook types
+export * from './webhook';
+
+// Background job types
+export * from './job';
+
+// Bulk import types
+export * from './import';
+
+// Saved search types
+export * from './savedSearch';
+
 // Category types
 export * from './category';
 
@@ -0,0 +1,74 @@
+/**
+ * Background job types
+ */
+
+export const JOB_TYPES = [
+  'loans.check_overdue',
+  'notifications.send_loan_notices',
+  'fines.accrue',
+  'holds.expire',
+  'webhooks.deliver',
+  'jobs.prune',
+  'books.download_cover',
+  'books.enrich_metadata',
+  'imports.run',
+] as const;
+
+export type JobType = typeof JOB_TYPES[number];
+
+export const JOB_STATUSES = ['pending', 'running', 'succeeded', 'dead'] as const;
+
+export type JobStatus = typeof JOB_STATUSES[number];
+
+// Seconds to wait before each retry; the last delay is reused for any later attempts
+export const JOB_RETRY_DELAYS_SECONDS = [30, 120, 600, 3600] as const;
+
+export interface Job {
+  id: number;
+  type: JobType;
+  payload: Record<string, any>;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  dedupe_key: string | null;
+  locked_by: string | null;
+  locked_at: Date | null;
+  last_error: string | null;
+  result: Record<string, any> | null;
+  created_at: Date;
+  started_at: Date | null;
+  finished_at: Date | null;
+}
+
+export interface JobEnqueueOptions {
+  runAt?: Date;
+  maxAttempts?: number;
+  dedupeKey?: string;
+}
+
+/**
+ * A job that is queued on a cron schedule by whichever replica holds the scheduler lock
+ */
+export interface JobSchedule {
+  type: JobType;
+  cron: string;
+  description: string;
+}
+
+export interface JobScheduleWithLastRun extends JobSchedule {
+  last_job: Job | null;
+}
+
+export interface JobSummary {
+  counts: Record<JobStatus, number>;
+  schedules: JobScheduleWithLastRun[];
+  scheduler: { holder: string; expires_at: Date } | null;
+}
+
+export interface JobQueryParams {
+  page?: string;
+  limit?: string;
+  status?: JobStatus;
+  type?: string;
+}
@@ -2,19 +2,41 @@
  * Loan entity and related types
  */
 
+import { CopyCondition } from './copy';
+
+export type LoanOutcome = 'returned' | 'damaged' | 'lost' | 'claims_returned';
+
+export const LOAN_OUTCOMES: LoanOutcome[] = ['returned', 'damaged', 'lost', 'claims_returned'];
+
 export interface Loan {
   id: number;
   book_id: number;
+  copy_id: number;
   member_id: number;
   borrow_date: Date;
   due_date: Date;
   return_date: Date | null;
+  outcome: LoanOutcome | null;
+  outcome_note: string | null;
+  renewal_count: number;
+  loan_period_days: number;
+  max_renewals: number;
+  grace_days: number;
   created_at: Date;
 }
 
+export interface LoanRenewal {
+  id: number;
+  loan_id: number;
+  previous_due_date: Date;
+  new_due_date: Date;
+  renewed_at: Date;
+}
+
 export interface LoanWithDetails extends Loan {
   book_title?: string;
   book_author?: string;
+  copy_barcode?: string | null;
   member_name?: string;
   member_email?: string;
   is_overdue?: boolean;
@@ -29,10 +51,18 @@ export interface ReturnRequest {
   loanId: number;
 }
 
+export interface LoanCloseRequest {
+  outcome: LoanOutcome;
+  replacement_charge?: number;
+  condition?: CopyCondition;
+  note?: string;
+}
+
 export interface LoanQueryParams {
   page?: string;
   limit?: string;
   status?: 'all' | 'active' | 'returned' | 'overdue';
+  outcome?: LoanOutcome;
   search?: string;
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
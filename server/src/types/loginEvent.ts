@@ -0,0 +1,25 @@
+/**
+ * Login history and account lockout types
+ */
+
+export const LOGIN_FAILURE_REASONS = ['unknown_user', 'invalid_password', 'invalid_two_factor', 'account_locked'] as const;
+export type LoginFailureReason = typeof LOGIN_FAILURE_REASONS[number];
+
+export interface LoginEvent {
+  id: number;
+  user_id: number | null;
+  username: string;
+  success: boolean;
+  failure_reason: LoginFailureReason | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: Date;
+}
+
+/**
+ * A user's lockout state as shown to admins
+ */
+export interface LockoutStatus {
+  failed_login_count: number;
+  locked_until: Date | null;
+}
@@ -0,0 +1,22 @@
+/**
+ * Outgoing email types
+ */
+
+// smtp sends through the configured SMTP server; file writes each message
+// to MAIL_DIR as an .eml file and console logs it, for development and tests
+export const MAIL_TRANSPORTS = ['smtp', 'file', 'console'] as const;
+
+export type MailTransportName = typeof MAIL_TRANSPORTS[number];
+
+/**
+ * The subject and bodies produced by an email template
+ */
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailMessage extends RenderedEmail {
+  to: string;
+}
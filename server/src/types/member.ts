@@ -2,11 +2,15 @@
  * Member entity and related types
  */
 
+export const DEFAULT_MEMBER_TYPE = 'standard';
+
 export interface Member {
   id: number;
   name: string;
   email: string;
   phone: string;
+  barcode: string | null;
+  member_type: string;
   created_at: Date;
 }
 
@@ -14,6 +18,8 @@ export interface MemberInput {
   name: string;
   email: string;
   phone: string;
+  barcode?: string | null;
+  member_type?: string;
 }
 
 export interface MemberQueryParams {
@@ -0,0 +1,74 @@
+/**
+ * Loan notification email types
+ */
+
+export const NOTIFICATION_KINDS = ['due_soon', 'overdue', 'final_notice'] as const;
+
+export type NotificationKind = typeof NOTIFICATION_KINDS[number];
+
+export const NOTIFICATION_STATUSES = ['pending', 'sent', 'failed'] as const;
+
+export type NotificationStatus = typeof NOTIFICATION_STATUSES[number];
+
+// What a template can refer to as {{name}}
+export const NOTIFICATION_PLACEHOLDERS = ['member_name', 'book_title', 'book_author', 'due_date', 'days', 'library_name'] as const;
+
+export interface NotificationTemplate {
+  id: number;
+  kind: NotificationKind;
+  subject: string;
+  body: string;
+  updated_at: Date;
+}
+
+export interface NotificationTemplateInput {
+  subject: string;
+  body: string;
+}
+
+export interface Notification {
+  id: number;
+  kind: NotificationKind;
+  loan_id: number | null;
+  member_id: number;
+  due_date: Date | null;
+  recipient: string;
+  subject: string;
+  body: string;
+  status: NotificationStatus;
+  error: string | null;
+  attempts: number;
+  created_at: Date;
+  sent_at: Date | null;
+}
+
+export interface NotificationWithDetails extends Notification {
+  member_name: string;
+  book_title: string | null;
+}
+
+/**
+ * An open loan due for a notice, with what its template needs
+ */
+export interface LoanNoticeCandidate {
+  loan_id: number;
+  member_id: number;
+  member_name: string;
+  member_email: string;
+  book_title: string;
+  book_author: string;
+  due_date: Date;
+}
+
+export interface NotificationRunResult {
+  sent: number;
+  failed: number;
+}
+
+export interface NotificationQueryParams {
+  page?: string;
+  limit?: string;
+  status?: NotificationStatus;
+  kind?: NotificationKind;
+  member_id?: string;
+}
@@ -0,0 +1,62 @@
+/**
+ * Role and permission types
+ */
+
+export type Permission =
+  | 'books:write'
+  | 'loans:checkout'
+  | 'members:read'
+  | 'members:write'
+  | 'fines:manage'
+  | 'export:run'
+  | 'settings:manage'
+  | 'users:manage';
+
+/**
+ * Every permission, with what it allows
+ */
+export const PERMISSIONS: Record<Permission, string> = {
+  'books:write': 'Add, edit and delete books, copies and categories',
+  'loans:checkout': 'Check items out and in, and close loans',
+  'members:read': 'View all members with their loans, holds and fines',
+  'members:write': 'Add, edit, delete and import members',
+  'fines:manage': 'Take payments, waive fines and add charges',
+  'export:run': 'Export books, members and loans',
+  'settings:manage': 'Change circulation policies and view system information',
+  'users:manage': 'Manage logins and roles',
+};
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+/**
+ * Permissions of the built-in roles, matching the seeded rows. Used for
+ * tokens issued before permissions were added to them.
+ */
+export const BUILT_IN_ROLES: Record<string, Permission[]> = {
+  admin: ALL_PERMISSIONS,
+  librarian: ['books:write', 'loans:checkout', 'members:read', 'members:write', 'fines:manage', 'export:run'],
+  volunteer: ['loans:checkout', 'members:read'],
+  patron: [],
+};
+
+export const DEFAULT_ROLE = 'patron';
+
+export interface Role {
+  id: number;
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+  built_in: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface RoleWithUserCount extends Role {
+  user_count: number;
+}
+
+export interface RoleInput {
+  name: string;
+  description?: string | null;
+  permissions: Permission[];
+}
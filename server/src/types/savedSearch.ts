@@ -0,0 +1,49 @@
+/**
+ * Saved search and smart collection types
+ */
+
+import { BookFilters } from './book';
+
+/**
+ * The book list filters saved with a search. The fields of the search
+ * itself are parsed each time it is run.
+ */
+export type SavedSearchFilters = Omit<BookFilters, 'query'>;
+
+export interface SavedSearch {
+  id: number;
+  user_id: number;
+  name: string;
+  search: string;
+  filters: SavedSearchFilters;
+  // A smart collection, whose books are found again each time it is opened, and can be pinned
+  collection: boolean;
+  // Whether every user can see and run it; only its owner can change it
+  shared: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * A saved search as listed to a user: whose it is, and whether the user
+ * has pinned it to their navigation bar
+ */
+export interface SavedSearchSummary extends SavedSearch {
+  owner_username: string;
+  pinned: boolean;
+}
+
+export interface SavedSearchInput {
+  name: string;
+  search?: string;
+  filters?: SavedSearchFilters;
+  collection?: boolean;
+  shared?: boolean;
+}
+
+export interface SavedSearchBooksQueryParams {
+  page?: string;
+  limit?: string;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+}
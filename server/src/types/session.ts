@@ -0,0 +1,51 @@
+/**
+ * Login session and refresh token types
+ */
+
+import { UserResponse } from './user';
+
+export type SessionRevokedReason = 'logout' | 'revoked' | 'reuse_detected' | 'password_changed';
+
+export interface Session {
+  id: number;
+  user_id: number;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+  revoked_at: Date | null;
+  revoked_reason: SessionRevokedReason | null;
+}
+
+/**
+ * A session as listed to its user, marking the one making the request
+ */
+export interface SessionSummary extends Session {
+  current: boolean;
+}
+
+export interface RefreshToken {
+  id: number;
+  session_id: number;
+  token_hash: string;
+  created_at: Date;
+  used_at: Date | null;
+}
+
+/**
+ * Where a login or refresh came from, recorded on the session
+ */
+export interface SessionClient {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+/**
+ * Everything the client needs to keep a session going
+ */
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  user: UserResponse;
+}
@@ -0,0 +1,33 @@
+/**
+ * TOTP two-factor authentication types
+ */
+
+export interface RecoveryCode {
+  id: number;
+  user_id: number;
+  code_hash: string;
+  created_at: Date;
+  used_at: Date | null;
+}
+
+/**
+ * What an authenticator app needs to start generating codes
+ */
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * A second factor: a code from the authenticator app or a recovery code
+ */
+export interface TwoFactorProof {
+  code?: string;
+  recoveryCode?: string;
+}
@@ -2,24 +2,48 @@
  * User entity and authentication types
  */
 
+import { Permission } from './role';
+
 export interface User {
   id: number;
   username: string;
+  // Where password reset links are sent
+  email: string | null;
   password_hash: string;
-  role: 'admin' | 'member';
+  role: string;
+  member_id: number | null;
+  // Base32 TOTP secret; set while enrolling, kept while two-factor is enabled
+  totp_secret: string | null;
+  totp_enabled: boolean;
+  // Time step of the last accepted code, so each code works once
+  totp_last_step: number | null;
+  // Set by an admin: the user must enrol at their next login
+  two_factor_required: boolean;
+  // Consecutive failed logins; past the lockout threshold the account is locked until locked_until
+  failed_login_count: number;
+  locked_until: Date | null;
   created_at: Date;
 }
 
 export interface UserInput {
   username: string;
+  email?: string | null;
   password: string;
-  role: 'admin' | 'member';
+  role: string;
 }
 
 export interface UserResponse {
   id: number;
   username: string;
-  role: 'admin' | 'member';
+  email?: string | null;
+  role: string;
+  member_id?: number | null;
+  member_name?: string | null;
+  permissions?: Permission[];
+  totp_enabled?: boolean;
+  two_factor_required?: boolean;
+  failed_login_count?: number;
+  locked_until?: Date | null;
   created_at: Date;
 }
 
@@ -30,13 +54,29 @@ export interface LoginRequest {
 
 export interface LoginResponse {
   token: string;
+  refreshToken: string;
   user: UserResponse;
 }
 
+/**
+ * Login reply when a second factor is needed before a session is issued
+ */
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  // The user has no authenticator yet and must enrol to finish logging in
+  setupRequired: boolean;
+  challengeToken: string;
+}
+
 export interface JwtPayload {
   userId: number;
   username: string;
-  role: 'admin' | 'member';
+  role: string;
+  memberId?: number | null;
+  // Permissions of the role when the token was issued; role changes apply on the next refresh
+  permissions?: Permission[];
+  // Login session the token belongs to
+  sessionId?: number;
   iat?: number;
   exp?: number;
 }
@@ -47,5 +87,6 @@ export interface PasswordUpdateRequest {
 
 export interface SetupRequest {
   username: string;
+  email?: string | null;
   password: string;
 }
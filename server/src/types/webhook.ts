@@ -0,0 +1,87 @@
+/**
+ * Outgoing webhook types
+ */
+
+export const WEBHOOK_EVENTS = [
+  'book.created',
+  'book.updated',
+  'book.deleted',
+  'member.created',
+  'member.updated',
+  'member.deleted',
+  'loan.created',
+  'loan.renewed',
+  'loan.returned',
+  'loan.closed',
+  'loan.overdue',
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const;
+
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number];
+
+// Minutes to wait before each retry; a delivery fails for good once they run out
+export const WEBHOOK_RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720] as const;
+
+export interface Webhook {
+  id: number;
+  url: string;
+  description: string | null;
+  secret: string;
+  events: WebhookEvent[];
+  active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * A webhook as listed to admins; the secret is only shown when it is created or rotated
+ */
+export type WebhookSummary = Omit<Webhook, 'secret'>;
+
+export interface WebhookInput {
+  url: string;
+  description?: string | null;
+  events: WebhookEvent[];
+  active?: boolean;
+}
+
+/**
+ * The JSON body posted to a webhook
+ */
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent | 'ping';
+  occurred_at: string;
+  data: unknown;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  webhook_id: number;
+  event: string;
+  payload: WebhookPayload;
+  dedupe_key: string | null;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  last_attempt_at: Date | null;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  created_at: Date;
+  delivered_at: Date | null;
+}
+
+export interface WebhookDeliveryWithUrl extends WebhookDelivery {
+  webhook_url: string;
+}
+
+export interface WebhookDeliveryQueryParams {
+  page?: string;
+  limit?: string;
+  status?: WebhookDeliveryStatus;
+  webhook_id?: string;
+}
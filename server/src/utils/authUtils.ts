@@ -7,10 +7,14 @@ import jwt from 'jsonwebtoken';
 import { Response, NextFunction } from 'express';
 import { AuthRequest } from '../types/express';
 import { JwtPayload } from '../types/user';
+import { Permission, BUILT_IN_ROLES } from '../types/role';
+import { AppError } from '../middleware/errorHandler';
 import { query } from '../db';
 import config from '../config';
 
 const SALT_ROUNDS = 10;
+// How long whether a session is revoked is remembered before looking it up again
+const SESSION_STATUS_TTL_MS = 30 * 1000;
 
 if (!config.jwtSecret) {
   console.error('FATAL ERROR: JWT_SECRET is not defined. Please set this environment variable.');
@@ -35,10 +39,35 @@ export async function comparePasswords(
 }
 
 /**
- * Generates a JSON Web Token.
+ * Generates a short-lived JSON Web Token; sessions are kept going with refresh tokens.
  */
 export function generateToken(payload: Omit<JwtPayload, 'iat' | 'exp'>): string {
-  return jwt.sign(payload, config.jwtSecret, { expiresIn: '1h' });
+  return jwt.sign(payload, config.jwtSecret, {
+    expiresIn: config.accessTokenTtl as jwt.SignOptions['expiresIn']
+  });
+}
+
+// Login challenges are signed with their own key so one can never pass as an access token
+const challengeSecret = `${config.jwtSecret}:two-factor`;
+
+/**
+ * Generates the token a user holds between entering their password and
+ * their second factor.
+ */
+export function generateChallengeToken(userId: number): string {
+  return jwt.sign({ userId }, challengeSecret, { expiresIn: '5m' });
+}
+
+/**
+ * Verifies a login challenge token. Returns the user ID if valid, null otherwise.
+ */
+export function verifyChallengeToken(token: string): number | null {
+  try {
+    const payload = jwt.verify(token, challengeSecret) as { userId: number };
+    return payload.userId;
+  } catch {
+    return null;
+  }
 }
 
 /**
@@ -53,8 +82,45 @@ export function verifyToken(token: string): JwtPayload | null {
   }
 }
 
+const sessionStatus = new Map<number, { revoked: boolean; checkedAt: number }>();
+
+/**
+ * Whether a session has been revoked, or is gone. Looked up at most once
+ * every SESSION_STATUS_TTL_MS per session, so a session revoked in another
+ * replica stops working within that time.
+ */
+async function isSessionRevoked(sessionId: number): Promise<boolean> {
+  const cached = sessionStatus.get(sessionId);
+  if (cached && Date.now() - cached.checkedAt < SESSION_STATUS_TTL_MS) {
+    return cached.revoked;
+  }
+
+  const { rows } = await query<{ revoked_at: Date | null }>(
+    'SELECT revoked_at FROM user_sessions WHERE id = $1',
+    [sessionId]
+  );
+  const revoked = rows.length === 0 || rows[0].revoked_at !== null;
+
+  for (const [id, status] of sessionStatus) {
+    if (Date.now() - status.checkedAt >= SESSION_STATUS_TTL_MS) {
+      sessionStatus.delete(id);
+    }
+  }
+  sessionStatus.set(sessionId, { revoked, checkedAt: Date.now() });
+  return revoked;
+}
+
+/**
+ * Forget what is remembered about sessions, so sessions this replica has
+ * just revoked stop working straight away.
+ */
+export function forgetSessionStatus(): void {
+  sessionStatus.clear();
+}
+
 /**
- * Middleware to authenticate JWT token.
+ * Middleware to authenticate JWT token. A token from a session that has
+ * been revoked, by logging out or from the sessions list, is refused.
  */
 export function authenticateToken(
   req: AuthRequest,
@@ -75,8 +141,22 @@ export function authenticateToken(
     return;
   }
 
-  req.user = user;
-  next();
+  if (user.sessionId === undefined) {
+    req.user = user;
+    next();
+    return;
+  }
+
+  isSessionRevoked(user.sessionId)
+    .then(revoked => {
+      if (revoked) {
+        res.status(401).json({ error: 'Session has been revoked' });
+        return;
+      }
+      req.user = user;
+      next();
+    })
+    .catch(next);
 }
 
 /**
@@ -95,6 +175,68 @@ export function checkAdmin(
   next();
 }
 
+/**
+ * Permissions of an authenticated user. Tokens issued before permissions
+ * were added fall back to the built-in role of the same name.
+ */
+export function permissionsOf(user: JwtPayload): Permission[] {
+  return user.permissions ?? BUILT_IN_ROLES[user.role] ?? [];
+}
+
+export function hasPermission(user: JwtPayload | undefined, permission: Permission): boolean {
+  return !!user && permissionsOf(user).includes(permission);
+}
+
+/**
+ * Middleware factory requiring the authenticated user's role to grant a permission.
+ * Assumes authenticateToken has already run.
+ */
+export function requirePermission(permission: Permission) {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    if (!hasPermission(req.user, permission)) {
+      res.status(403).json({ error: `Access denied: ${permission} permission required` });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Middleware for routes patrons may use on their own records.
+ * Staff who can read all members pass straight through. Anyone else must be
+ * linked to a library member, whose id is set on req.memberScope for the
+ * route to filter by. Assumes authenticateToken has already run.
+ */
+export function scopeToOwnMember(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void {
+  if (!req.user) {
+    res.status(401).json({ error: 'Authentication token required' });
+    return;
+  }
+
+  if (!hasPermission(req.user, 'members:read')) {
+    if (!req.user.memberId) {
+      res.status(403).json({ error: 'Access denied: your login is not linked to a library member' });
+      return;
+    }
+    req.memberScope = req.user.memberId;
+  }
+  next();
+}
+
+/**
+ * Throws 403 if a patron request is about another member's records.
+ * Assumes scopeToOwnMember has already run.
+ */
+export function assertOwnMember(req: AuthRequest, memberId: number): void {
+  if (req.memberScope !== undefined && req.memberScope !== memberId) {
+    throw new AppError('Access denied: you can only view your own library records', 403);
+  }
+}
+
 /**
  * Middleware to protect the registration endpoint.
  * Allows registration only if no admin user exists (initial setup)
@@ -117,9 +259,9 @@ export async function protectRegisterEndpoint(
       return;
     }
 
-    // An admin exists, so registration requires admin privileges.
+    // An admin exists, so registration requires permission to manage users.
     authenticateToken(req, res, () => {
-      checkAdmin(req, res, next);
+      requirePermission('users:manage')(req, res, next);
     });
   } catch (err) {
     console.error('Error in protectRegisterEndpoint middleware:', err);
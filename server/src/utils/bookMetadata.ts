@@ -0,0 +1,117 @@
+/**
+ * Book metadata lookups
+ *
+ * Finds a book's title, author, cover, description, publication year and
+ * language by ISBN, from Open Library first and then Google Books when an
+ * API key is configured, and downloads cover images into the uploads
+ * directory.
+ */
+
+import axios from 'axios';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { uploadsDir } from './fileUpload';
+import config from '../config';
+
+export interface IsbnMetadata {
+  title: string;
+  author: string;
+  coverUrl: string;
+  description: string;
+  publicationYear: number | null;
+  // A language tag such as en, when Google Books knows it
+  language: string;
+}
+
+/**
+ * The year in a publication date, whether "1999", "May 1999" or "1999-05-01"
+ */
+const yearOf = (date: unknown): number | null => {
+  const match = typeof date === 'string' ? date.match(/\b(\d{4})\b/) : null;
+  return match ? parseInt(match[1], 10) : null;
+};
+
+/**
+ * Look a book up by ISBN. Fields that neither source knows are left empty.
+ */
+export const lookupIsbnMetadata = async (isbn: string): Promise<IsbnMetadata> => {
+  const bookData: IsbnMetadata = {
+    title: '',
+    author: '',
+    coverUrl: '',
+    description: '',
+    publicationYear: null,
+    language: '',
+  };
+
+  // 1. Try Open Library
+  try {
+    const openLibraryUrl = `https://openlibrary.org/api/books?bibkeys=ISBN:${isbn}&format=json&jscmd=data`;
+    const openLibraryResponse = await axios.get(openLibraryUrl);
+    const olData = openLibraryResponse.data[`ISBN:${isbn}`];
+
+    if (olData) {
+      bookData.title = olData.title || '';
+      bookData.author = olData.authors ? olData.authors.map((a: any) => a.name).join(', ') : '';
+      if (olData.cover && olData.cover.large) {
+        bookData.coverUrl = olData.cover.large;
+      } else {
+        bookData.coverUrl = `https://covers.openlibrary.org/b/isbn/${isbn}-L.jpg`;
+      }
+      bookData.publicationYear = yearOf(olData.publish_date);
+    }
+  } catch (olErr: any) {
+    console.error('Open Library lookup failed:', olErr.message);
+  }
+
+  // 2. Fallback to Google Books if data is incomplete and key is provided
+  const googleApiKey = config.googleBooksApiKey;
+  if ((!bookData.title || !bookData.coverUrl) && googleApiKey) {
+    try {
+      const googleBooksUrl = `https://www.googleapis.com/books/v1/volumes?q=isbn:${isbn}&key=${googleApiKey}`;
+      const googleBooksResponse = await axios.get(googleBooksUrl);
+      const gbData = googleBooksResponse.data.items && googleBooksResponse.data.items[0];
+
+      if (gbData) {
+        if (!bookData.title) {
+          bookData.title = gbData.volumeInfo.title || '';
+        }
+        if (!bookData.author && gbData.volumeInfo.authors) {
+          bookData.author = gbData.volumeInfo.authors.join(', ');
+        }
+        if (!bookData.coverUrl && gbData.volumeInfo.imageLinks) {
+          bookData.coverUrl = gbData.volumeInfo.imageLinks.thumbnail || gbData.volumeInfo.imageLinks.smallThumbnail || '';
+        }
+        if (!bookData.description && gbData.volumeInfo.description) {
+          bookData.description = gbData.volumeInfo.description;
+        }
+        if (!bookData.publicationYear) {
+          bookData.publicationYear = yearOf(gbData.volumeInfo.publishedDate);
+        }
+        if (gbData.volumeInfo.language) {
+          bookData.language = gbData.volumeInfo.language;
+        }
+      }
+    } catch (gbErr: any) {
+      console.error('Google Books lookup failed:', gbErr.message);
+    }
+  }
+
+  return bookData;
+};
+
+/**
+ * Download a cover image into the uploads directory and return its /uploads path
+ */
+export const downloadCoverImage = async (url: string): Promise<string> => {
+  const imageResponse = await axios.get(url, {
+    responseType: 'arraybuffer',
+    timeout: 30000,
+  });
+
+  const fileExt = path.extname(new URL(url).pathname) || '.jpg';
+  const coverPath = `/uploads/${uuidv4()}${fileExt}`;
+  fs.writeFileSync(path.join(uploadsDir, path.basename(coverPath)), imageResponse.data);
+  return coverPath;
+};
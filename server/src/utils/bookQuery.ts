@@ -0,0 +1,218 @@
+/**
+ * Book search queries with fields
+ *
+ * A book search can narrow its results by field as well as search words:
+ *   author:pratchett category:fantasy available:yes year:>1990 -"colour of magic"
+ * - author: and title: match part of the author or title: author:"terry p"
+ * - category: matches a category name: category:"science fiction"
+ * - isbn: matches an ISBN, with or without hyphens
+ * - available: takes yes or no
+ * - year: takes a publication year, a comparison, a range or a decade:
+ *   year:1990, year:>1990, year:<=2000, year:1990..1999, year:1990s
+ * - language: takes a language code; en also matches en-GB
+ * - format: hardcover, paperback, ebook, audiobook, large_print or other
+ * - added: when the book was catalogued: today, this-week, this-month,
+ *   this-year, a number of days such as 30d, a date, month or year such
+ *   as 2026-10, a comparison such as >=2026-01-01, or a range 2026-01..2026-03
+ * - borrowed: yes for books that have been lent, no (or never) for books that have not
+ * A field after - must not match: -category:horror. Field names are not
+ * case-sensitive. The rest of the search is full-text, as in textSearch.
+ * A field that is not known, or a value a field cannot take, is an error.
+ */
+
+import { AppError } from '../middleware/errorHandler';
+import { BOOK_FORMATS, BOOK_QUERY_FIELDS, BookFormat, BookQueryCondition, BookQueryField, BookQueryInstant } from '../types/book';
+import { correctSearch, SimilarWords } from './textSearch';
+
+/**
+ * A search split into its full-text words and its fields
+ */
+export interface BookQuery {
+  // The search without its fields, for toTsQuery()
+  text: string;
+  conditions: BookQueryCondition[];
+}
+
+// A field with a "quoted value" or a value, a "phrase" or a word, each either negated with -
+const TOKEN = /(-?)([A-Za-z]+):("([^"]*)("?)|\S*)|-?"[^"]*"?|\S+/g;
+
+const LANGUAGE_TAG = /^[a-z]{2,3}(?:-[a-z\d]{2,8})*$/i;
+
+const YEAR_HELP = 'a year such as 1990, >1990, <=2000, 1990..1999 or 1990s';
+
+const ADDED_HELP = 'today, this-week, this-month, this-year, a number of days such as 30d, or a date such as 2026-10-18, 2026-10, >=2026-01-01 or 2026-01..2026-03';
+
+const STARTS_OF: Record<string, 'day' | 'week' | 'month' | 'year'> = {
+  today: 'day',
+  'this-week': 'week',
+  'this-month': 'month',
+  'this-year': 'year',
+};
+
+const invalid = (reason: string) => new AppError(`Invalid search: ${reason}`, 400);
+
+const isField = (name: string): name is BookQueryField => (BOOK_QUERY_FIELDS as readonly string[]).includes(name);
+
+const parseYear = (value: string): { min?: number; max?: number } => {
+  let match = value.match(/^(\d{1,4})$/);
+  if (match) {
+    return { min: Number(match[1]), max: Number(match[1]) };
+  }
+  match = value.match(/^(\d{1,3}0)s$/);
+  if (match) {
+    return { min: Number(match[1]), max: Number(match[1]) + 9 };
+  }
+  match = value.match(/^(>=|<=|>|<)(\d{1,4})$/);
+  if (match) {
+    const year = Number(match[2]);
+    switch (match[1]) {
+      case '>': return { min: year + 1 };
+      case '>=': return { min: year };
+      case '<': return { max: year - 1 };
+      default: return { max: year };
+    }
+  }
+  match = value.match(/^(\d{1,4})\.\.(\d{1,4})$/);
+  if (match && Number(match[1]) <= Number(match[2])) {
+    return { min: Number(match[1]), max: Number(match[2]) };
+  }
+  throw invalid(`year: takes ${YEAR_HELP}, not "${value}"`);
+};
+
+const isoDate = (year: number, month: number, day: number): string =>
+  new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+
+/**
+ * The first day of a year, month or date, and the first day after it
+ */
+const periodOf = (value: string): { start: string; end: string } | null => {
+  const match = value.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = [Number(match[1]), Number(match[2] ?? 1), Number(match[3] ?? 1)];
+  const start = isoDate(year, month, day);
+  // Dates such as 2026-02-30 roll over into the next month
+  if (start !== `${match[1]}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`) {
+    return null;
+  }
+  let end: string;
+  if (match[3] !== undefined) {
+    end = isoDate(year, month, day + 1);
+  } else if (match[2] !== undefined) {
+    end = isoDate(year, month + 1, 1);
+  } else {
+    end = isoDate(year + 1, 1, 1);
+  }
+  return { start, end };
+};
+
+const parseAdded = (value: string): { from?: BookQueryInstant; before?: BookQueryInstant } => {
+  const startOf = STARTS_OF[value.toLowerCase()];
+  if (startOf) {
+    return { from: { startOf } };
+  }
+  const days = value.match(/^(\d{1,5})d$/i);
+  if (days) {
+    return { from: { daysAgo: Number(days[1]) } };
+  }
+  const period = periodOf(value);
+  if (period) {
+    return { from: { date: period.start }, before: { date: period.end } };
+  }
+  const comparison = value.match(/^(>=|<=|>|<)(.+)$/);
+  const compared = comparison && periodOf(comparison[2]);
+  if (comparison && compared) {
+    switch (comparison[1]) {
+      case '>': return { from: { date: compared.end } };
+      case '>=': return { from: { date: compared.start } };
+      case '<': return { before: { date: compared.start } };
+      default: return { before: { date: compared.end } };
+    }
+  }
+  const [first, last] = value.split('..').map(periodOf);
+  if (first && last && first.start < last.end) {
+    return { from: { date: first.start }, before: { date: last.end } };
+  }
+  throw invalid(`added: takes ${ADDED_HELP}, not "${value}"`);
+};
+
+/**
+ * The condition of a field and its value
+ */
+const conditionOf = (field: BookQueryField, value: string, negated: boolean): BookQueryCondition => {
+  switch (field) {
+    case 'available':
+    case 'borrowed': {
+      const answer = value.toLowerCase();
+      if (['yes', 'y', 'true'].includes(answer)) return { field, value: true, negated };
+      if (['no', 'n', 'false', ...(field === 'borrowed' ? ['never'] : [])].includes(answer)) return { field, value: false, negated };
+      throw invalid(`${field}: takes yes or no, not "${value}"`);
+    }
+    case 'added':
+      return { field, ...parseAdded(value), negated };
+    case 'year':
+      return { field, ...parseYear(value), negated };
+    case 'format': {
+      const format = value.toLowerCase().replace(/[\s-]/g, '_');
+      if (!(BOOK_FORMATS as readonly string[]).includes(format)) {
+        throw invalid(`format: takes one of ${BOOK_FORMATS.join(', ')}, not "${value}"`);
+      }
+      return { field, value: format as BookFormat, negated };
+    }
+    case 'language':
+      if (!LANGUAGE_TAG.test(value)) {
+        throw invalid(`language: takes a language code such as en or pt-BR, not "${value}"`);
+      }
+      return { field, value, negated };
+    case 'isbn': {
+      const isbn = value.replace(/[\s-]/g, '');
+      if (!/^[\dXx]+$/.test(isbn)) {
+        throw invalid(`isbn: takes the digits of an ISBN, not "${value}"`);
+      }
+      return { field, value: isbn.toUpperCase(), negated };
+    }
+    default:
+      return { field, value, negated };
+  }
+};
+
+/**
+ * Split a search into its full-text words and its fields. A word ending in
+ * a colon, such as "Wars:" in a title, is a word rather than a field.
+ * Throws a 400 AppError for an unknown field or a value a field cannot take.
+ */
+export const parseBookQuery = (search: string): BookQuery => {
+  const text: string[] = [];
+  const conditions: BookQueryCondition[] = [];
+
+  for (const [token, negated, name, rawValue, quoted, closing] of search.matchAll(TOKEN)) {
+    if (name === undefined || rawValue === '') {
+      text.push(token);
+      continue;
+    }
+
+    const field = name.toLowerCase();
+    if (!isField(field)) {
+      throw invalid(`unknown field "${name}" in ${token}. Fields are ${BOOK_QUERY_FIELDS.join(', ')}; put words with a colon in quotes to search for them`);
+    }
+    if (quoted !== undefined && closing === '') {
+      throw invalid(`the quote after ${name}: is not closed`);
+    }
+    const value = (quoted ?? rawValue).trim();
+    if (!value) {
+      throw invalid(`${name}: needs a value`);
+    }
+    conditions.push(conditionOf(field, value, negated === '-'));
+  }
+
+  return { text: text.join(' '), conditions };
+};
+
+/**
+ * A search with the misspelled words of its full-text part corrected, as
+ * correctSearch() does, leaving its fields as they were typed
+ */
+export const correctBookQuery = (search: string, similarWords: SimilarWords): string =>
+  search.replace(TOKEN, (token: string, _negated?: string, name?: string, rawValue?: string) =>
+    (name !== undefined && rawValue !== '' ? token : correctSearch(token, similarWords)));
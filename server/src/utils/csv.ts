@@ -0,0 +1,74 @@
+/**
+ * CSV helpers for bulk imports
+ */
+
+import { parse } from 'csv-parse/sync';
+import { AppError } from '../middleware/errorHandler';
+import { ImportFieldError, ImportRecord } from '../types/import';
+
+export interface ParsedCsv {
+  // Column headers in file order
+  columns: string[];
+  // errors are set on records that could not be read, which are invalid whatever the mapping
+  records: Array<{ line: number; data: ImportRecord; errors?: ImportFieldError[] }>;
+}
+
+/**
+ * Parse an uploaded CSV file whose first line holds the column headers.
+ * Each record keeps the line it ended on, so errors can name the row a
+ * spreadsheet shows. Tab-separated files are read without quoting, as
+ * spreadsheet exports leave quotes in their values as they are.
+ */
+export const parseCsvUpload = (buffer: Buffer, options: { delimiter?: ',' | '\t' } = {}): ParsedCsv => {
+  const { delimiter = ',' } = options;
+
+  let parsed: Array<{ record: ImportRecord; info: { lines: number } }>;
+  try {
+    parsed = parse(buffer, {
+      columns: true,
+      delimiter,
+      quote: delimiter === '\t' ? false : '"',
+      info: true,
+      skip_empty_lines: true,
+      trim: true,
+      bom: true, // Handle UTF-8 BOM (Byte Order Mark) from Excel
+      relax_column_count: true, // Allow rows with different column counts
+      skip_records_with_error: true, // Skip malformed rows instead of failing
+    });
+  } catch (error) {
+    throw new AppError(`Invalid CSV file format: ${error instanceof Error ? error.message : 'Unknown error'}`, 400);
+  }
+
+  if (!parsed || parsed.length === 0) {
+    throw new AppError('CSV file is empty or contains no valid data rows', 400);
+  }
+
+  const columns: string[] = [];
+  for (const { record } of parsed) {
+    for (const column of Object.keys(record)) {
+      if (!columns.includes(column)) {
+        columns.push(column);
+      }
+    }
+  }
+
+  return {
+    columns,
+    records: parsed.map(({ record, info }) => ({ line: info.lines, data: record })),
+  };
+};
+
+const escapeCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  // Escape quotes and wrap in quotes if contains comma, quote, or newline
+  const escaped = String(value).replace(/"/g, '""');
+  return /[",\n\r]/.test(escaped) ? `"${escaped}"` : escaped;
+};
+
+/**
+ * Build a CSV document from a header row and value rows
+ */
+export const toCsv = (headers: string[], rows: unknown[][]): string =>
+  [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\n') + '\n';
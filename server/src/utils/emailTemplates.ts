@@ -0,0 +1,92 @@
+/**
+ * Email Templates
+ *
+ * Each template returns the subject with a plain text and an HTML body.
+ * Values are escaped for the HTML body; the shared layout adds the library
+ * name as a header.
+ */
+
+import config from '../config';
+import { RenderedEmail } from '../types/mail';
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Wrap body HTML in the layout shared by all emails
+ */
+const layout = (title: string, bodyHtml: string): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+</head>
+<body style="margin:0;padding:24px;background:#f5f5f4;font-family:Arial,Helvetica,sans-serif;color:#1c1917;">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px;">
+<p style="margin:0 0 24px;font-size:18px;font-weight:bold;">${escapeHtml(config.libraryName)}</p>
+${bodyHtml}
+</div>
+</body>
+</html>
+`;
+
+const button = (url: string, label: string): string =>
+  `<p style="margin:24px 0;"><a href="${escapeHtml(url)}" style="display:inline-block;padding:12px 20px;background:#2563eb;color:#ffffff;border-radius:6px;text-decoration:none;">${escapeHtml(label)}</a></p>`;
+
+/**
+ * Replace {{name}} placeholders with their values; unknown names are left as they are
+ */
+export const fillPlaceholders = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder);
+
+/**
+ * The names of the placeholders a template uses
+ */
+export const placeholdersIn = (template: string): string[] =>
+  Array.from(template.matchAll(/\{\{\s*(\w+)\s*\}\}/g), match => match[1]);
+
+/**
+ * An email written as plain text; the HTML body has a paragraph per block of lines
+ */
+export const plainTextEmail = (subject: string, text: string): RenderedEmail => {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .filter(paragraph => paragraph.trim())
+    .map(paragraph => `<p>${escapeHtml(paragraph.trim()).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+  return { subject, text, html: layout(subject, paragraphs) };
+};
+
+export interface PasswordResetEmailData {
+  username: string;
+  resetUrl: string;
+  expiresInMinutes: number;
+}
+
+export const passwordResetEmail = ({ username, resetUrl, expiresInMinutes }: PasswordResetEmailData): RenderedEmail => {
+  const subject = `Reset your ${config.libraryName} password`;
+
+  const text = [
+    `Hello ${username},`,
+    '',
+    `Someone asked to reset the password of your ${config.libraryName} account. To choose a new password, open this link:`,
+    '',
+    resetUrl,
+    '',
+    `The link works once and expires in ${expiresInMinutes} minutes. If you did not ask for a password reset, you can ignore this email; your password has not been changed.`,
+  ].join('\n');
+
+  const html = layout(subject, `<p>Hello ${escapeHtml(username)},</p>
+<p>Someone asked to reset the password of your ${escapeHtml(config.libraryName)} account. To choose a new password, follow this link:</p>
+${button(resetUrl, 'Reset password')}
+<p style="font-size:13px;color:#57534e;">Or paste this address into your browser: ${escapeHtml(resetUrl)}</p>
+<p style="font-size:13px;color:#57534e;">The link works once and expires in ${expiresInMinutes} minutes. If you did not ask for a password reset, you can ignore this email; your password has not been changed.</p>`);
+
+  return { subject, text, html };
+};
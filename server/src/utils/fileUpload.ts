@@ -1,6 +1,6 @@
 /**
  * File upload configuration using Multer
- * Handles book cover uploads and CSV imports
+ * Handles book cover uploads, CSV imports and catalogue exports
  */
 
 import multer from 'multer';
@@ -56,3 +56,17 @@ export const csvUpload = multer({
     cb(new Error('Only CSV files are allowed!'));
   },
 });
+
+// Multer config for bulk import files: CSV files, and the exports of other
+// catalogues (LibraryThing TSV or JSON, Calibre's metadata.db, MARC 21 or MARCXML)
+export const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 50 * 1024 * 1024 }, // 50MB limit, for large Calibre libraries
+  fileFilter: (req: Request, file: Express.Multer.File, cb) => {
+    if (file.mimetype === 'text/csv' || /\.(csv|tsv|txt|json|db|mrc|marc|xml)$/i.test(file.originalname)) {
+      cb(null, true);
+      return;
+    }
+    cb(new Error('Only CSV, TSV, JSON, MARC or Calibre metadata.db files are allowed!'));
+  },
+});
@@ -0,0 +1,146 @@
+/**
+ * Mail Transports
+ *
+ * Formats outgoing mail as a MIME message with plain text and HTML parts
+ * and delivers it through the transport chosen by MAIL_TRANSPORT: the SMTP
+ * server, .eml files in MAIL_DIR, or the server log.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import config from '../config';
+import { logger } from './logger';
+import { sendSmtpMail } from './smtp';
+import { MailMessage, MailTransportName } from '../types/mail';
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * The sender: SMTP_FROM, shown with the library name unless it has a name of its own
+ */
+export const senderAddress = (): string => {
+  const from = config.smtpFrom || 'noreply@localhost';
+  return from.includes('<') ? from : `"${config.libraryName.replace(/["\\]/g, '')}" <${from}>`;
+};
+
+// The bare address of "Name <address>"
+const bareAddress = (address: string): string => {
+  const match = /<([^>]+)>/.exec(address);
+  return (match ? match[1] : address).trim();
+};
+
+// Header values are kept to one line; outside ASCII they are sent as RFC 2047 encoded words
+const encodeHeader = (value: string): string => {
+  const line = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(line) ? line : `=?UTF-8?B?${Buffer.from(line, 'utf8').toString('base64')}?=`;
+};
+
+/**
+ * Quoted-printable encoding (RFC 2045), which keeps mostly-ASCII text readable
+ */
+export const encodeQuotedPrintable = (text: string): string =>
+  text.split(/\r?\n/).map(line => {
+    const bytes = Buffer.from(line, 'utf8');
+    let encoded = '';
+    let width = 0;
+    bytes.forEach((byte, i) => {
+      const isLast = i === bytes.length - 1;
+      const literal = (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !isLast);
+      const piece = literal ? String.fromCharCode(byte) : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+      // Lines are at most 76 characters, counting the "=" of a soft line break
+      if (width + piece.length > 75) {
+        encoded += '=\r\n';
+        width = 0;
+      }
+      encoded += piece;
+      width += piece.length;
+    });
+    return encoded;
+  }).join('\r\n');
+
+/**
+ * Build the full text of a message, headers included
+ */
+export const formatMimeMessage = (message: MailMessage, from: string = senderAddress()): string => {
+  const boundary = `----=_Part_${crypto.randomBytes(12).toString('hex')}`;
+  const domain = bareAddress(from).split('@')[1] || 'localhost';
+
+  const part = (contentType: string, body: string) => [
+    `--${boundary}`,
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: quoted-printable',
+    '',
+    encodeQuotedPrintable(body),
+  ].join('\r\n');
+
+  return [
+    `From: ${from}`,
+    `To: ${encodeHeader(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    part('text/plain', message.text),
+    part('text/html', message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+};
+
+class SmtpTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    const from = senderAddress();
+    await sendSmtpMail(
+      {
+        host: config.smtpHost!,
+        port: config.smtpPort,
+        secure: config.smtpSecure,
+        user: config.smtpUser,
+        password: config.smtpPassword,
+      },
+      { from: bareAddress(from), to: [bareAddress(message.to)] },
+      formatMimeMessage(message, from)
+    );
+  }
+}
+
+class FileTransport implements MailTransport {
+  private directory = path.resolve(__dirname, '..', '..', config.mailDir);
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const recipient = bareAddress(message.to).replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const file = path.join(this.directory, `${Date.now()}-${recipient}-${crypto.randomBytes(4).toString('hex')}.eml`);
+    await fs.writeFile(file, formatMimeMessage(message));
+    logger.info('Mail written to file', { to: message.to, subject: message.subject, file });
+  }
+}
+
+class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    logger.info('Mail not sent (MAIL_TRANSPORT=console)', {
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  }
+}
+
+/**
+ * The transport for a MAIL_TRANSPORT setting
+ */
+export const createMailTransport = (name: MailTransportName = config.mailTransport): MailTransport => {
+  switch (name) {
+    case 'smtp':
+      return new SmtpTransport();
+    case 'file':
+      return new FileTransport();
+    case 'console':
+      return new ConsoleTransport();
+  }
+};
@@ -0,0 +1,299 @@
+/**
+ * MARC 21 record reader and writer
+ *
+ * Reads and writes bibliographic records as MARC 21 in ISO 2709
+ * ("binary" MARC, usually .mrc) and as MARCXML. Records are read one at a
+ * time, so a damaged record is reported with its position in the file and
+ * the records after it can still be read. Only UTF-8 records, and MARC-8
+ * records that are plain ASCII, can be read.
+ */
+
+import { AppError } from '../middleware/errorHandler';
+
+export interface MarcSubfield {
+  code: string;
+  value: string;
+}
+
+// Fields 001-009 hold a value; the others hold indicators and subfields
+export interface MarcControlField {
+  tag: string;
+  value: string;
+}
+
+export interface MarcDataField {
+  tag: string;
+  ind1: string;
+  ind2: string;
+  subfields: MarcSubfield[];
+}
+
+export type MarcField = MarcControlField | MarcDataField;
+
+export interface MarcRecord {
+  leader: string;
+  fields: MarcField[];
+}
+
+/**
+ * A record read from a file, or why it could not be read
+ */
+export type MarcReadResult = { record: MarcRecord; error?: undefined } | { record?: undefined; error: string };
+
+const RECORD_TERMINATOR = 0x1d;
+const FIELD_TERMINATOR = '\x1e';
+const SUBFIELD_DELIMITER = '\x1f';
+
+const LEADER_LENGTH = 24;
+const DIRECTORY_ENTRY_LENGTH = 12;
+
+// The largest field and record ISO 2709 can describe
+const MAX_FIELD_LENGTH = 9999;
+const MAX_RECORD_LENGTH = 99999;
+
+const MARCXML_NAMESPACE = 'http://www.loc.gov/MARC21/slim';
+
+const invalid = (reason: string) => new AppError(`Invalid MARC file: ${reason}`, 400);
+
+export const isControlField = (field: MarcField): field is MarcControlField => 'value' in field;
+
+export const isControlTag = (tag: string): boolean => /^00[1-9]$/.test(tag);
+
+/**
+ * Whether a file is MARCXML rather than ISO 2709
+ */
+export const isMarcXml = (buffer: Buffer): boolean =>
+  buffer.toString('utf8', 0, 200).replace(/^\uFEFF/, '').trimStart().startsWith('<');
+
+const readIso2709Record = (bytes: Buffer): MarcRecord => {
+  if (bytes.length < LEADER_LENGTH) {
+    throw new Error('the record is shorter than its leader');
+  }
+  const leader = bytes.toString('latin1', 0, LEADER_LENGTH);
+  const baseAddress = Number(leader.slice(12, 17));
+  if (!/^\d{5}$/.test(leader.slice(12, 17)) || baseAddress <= LEADER_LENGTH || baseAddress > bytes.length) {
+    throw new Error('the leader does not give where the fields start');
+  }
+
+  // Leader position 9 is "a" for UTF-8 and blank for MARC-8, which is ASCII for its first 128 characters
+  if (leader[9] !== 'a' && bytes.some(byte => byte > 0x7f)) {
+    throw new Error('the record is MARC-8 encoded with non-ASCII characters; export it as UTF-8 (MARC 21 Unicode) instead');
+  }
+  const encoding = leader[9] === 'a' ? 'utf8' : 'latin1';
+
+  const directory = bytes.toString('latin1', LEADER_LENGTH, baseAddress - 1);
+  if (directory.length % DIRECTORY_ENTRY_LENGTH !== 0 || !/^[\dA-Za-z]*$/.test(directory)) {
+    throw new Error('the record directory is malformed');
+  }
+
+  const fields: MarcField[] = [];
+  for (let entry = 0; entry < directory.length; entry += DIRECTORY_ENTRY_LENGTH) {
+    const tag = directory.slice(entry, entry + 3);
+    const length = Number(directory.slice(entry + 3, entry + 7));
+    const start = baseAddress + Number(directory.slice(entry + 7, entry + 12));
+    if (Number.isNaN(length) || Number.isNaN(start) || start + length > bytes.length) {
+      throw new Error(`field ${tag} runs past the end of the record`);
+    }
+
+    const data = bytes.toString(encoding, start, start + length).replace(/\x1e$/, '');
+    if (isControlTag(tag)) {
+      fields.push({ tag, value: data });
+      continue;
+    }
+    const [indicators, ...subfields] = data.split(SUBFIELD_DELIMITER);
+    fields.push({
+      tag,
+      ind1: indicators[0] ?? ' ',
+      ind2: indicators[1] ?? ' ',
+      subfields: subfields.filter(Boolean).map(subfield => ({ code: subfield[0], value: subfield.slice(1) })),
+    });
+  }
+  return { leader, fields };
+};
+
+/**
+ * Read the records of an ISO 2709 file
+ */
+export const readMarc21 = (buffer: Buffer): MarcReadResult[] => {
+  const results: MarcReadResult[] = [];
+  let start = 0;
+  while (start < buffer.length) {
+    let end = buffer.indexOf(RECORD_TERMINATOR, start);
+    if (end === -1) {
+      end = buffer.length;
+    }
+    const bytes = buffer.subarray(start, end);
+    start = end + 1;
+
+    // Some tools put line breaks between records
+    if (bytes.every(byte => byte === 0x0a || byte === 0x0d || byte === 0x20)) {
+      continue;
+    }
+    try {
+      results.push({ record: readIso2709Record(bytes.subarray(bytes.findIndex(byte => byte !== 0x0a && byte !== 0x0d))) });
+    } catch (err) {
+      results.push({ error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return results;
+};
+
+const decodeXmlText = (text: string): string =>
+  text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, data: string) => data.replace(/&/g, '&amp;').replace(/</g, '&lt;'))
+    .replace(/&(#x[\da-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (entity, name: string) => {
+      if (name[0] === '#') {
+        const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return String.fromCodePoint(code);
+      }
+      return { lt: '<', gt: '>', amp: '&', quot: '"', apos: '\'' }[name.toLowerCase()] ?? entity;
+    });
+
+const readAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeXmlText(match[2] ?? match[3]);
+  }
+  return attributes;
+};
+
+// Elements may carry a namespace prefix, as in <marc:record>
+const element = (name: string, flags = 'g') =>
+  new RegExp(`<(?:[\\w.-]+:)?${name}(?=[\\s/>])([^>]*?)(?:/>|>([\\s\\S]*?)</(?:[\\w.-]+:)?${name}\\s*>)`, flags);
+
+const readXmlRecord = (xml: string): MarcRecord => {
+  const leader = xml.match(element('leader', ''));
+  const fields: MarcField[] = [];
+
+  for (const match of xml.matchAll(/<(?:[\w.-]+:)?(controlfield|datafield)(?=[\s/>])([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:[\w.-]+:)?\1\s*>)/g)) {
+    const [, name, attributeText, content = ''] = match;
+    const attributes = readAttributes(attributeText);
+    if (!attributes.tag || attributes.tag.length !== 3) {
+      throw new Error(`a ${name} has no tag`);
+    }
+
+    if (name === 'controlfield') {
+      fields.push({ tag: attributes.tag, value: decodeXmlText(content) });
+      continue;
+    }
+    const subfields: MarcSubfield[] = [];
+    for (const subfield of content.matchAll(element('subfield'))) {
+      const code = readAttributes(subfield[1]).code;
+      if (!code) {
+        throw new Error(`a subfield of field ${attributes.tag} has no code`);
+      }
+      subfields.push({ code, value: decodeXmlText(subfield[2] ?? '') });
+    }
+    fields.push({ tag: attributes.tag, ind1: attributes.ind1 || ' ', ind2: attributes.ind2 || ' ', subfields });
+  }
+
+  return { leader: leader ? decodeXmlText(leader[2] ?? '').padEnd(LEADER_LENGTH).slice(0, LEADER_LENGTH) : ' '.repeat(LEADER_LENGTH), fields };
+};
+
+/**
+ * Read the records of a MARCXML document: a <collection> of <record>s or a single <record>
+ */
+export const readMarcXml = (text: string): MarcReadResult[] => {
+  const xml = text.replace(/<!--[\s\S]*?-->/g, '');
+  return [...xml.matchAll(element('record'))].map((match): MarcReadResult => {
+    try {
+      return { record: readXmlRecord(match[2] ?? '') };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  });
+};
+
+/**
+ * Read a MARC file in either format
+ */
+export const readMarcRecords = (buffer: Buffer): MarcReadResult[] => {
+  const results = isMarcXml(buffer)
+    ? readMarcXml(buffer.toString('utf8').replace(/^\uFEFF/, ''))
+    : readMarc21(buffer);
+  if (results.length === 0) {
+    throw invalid('the file contains no records');
+  }
+  if (results.every(result => result.error)) {
+    throw invalid(`no record could be read (${results[0].error})`);
+  }
+  return results;
+};
+
+// The delimiters ISO 2709 uses may not appear in field data
+const withoutDelimiters = (value: string) => value.replace(/[\x1d\x1e\x1f]/g, ' ');
+
+/**
+ * Write records as ISO 2709, filling in each leader's record length and
+ * base address and marking it as UTF-8
+ */
+export const writeMarc21 = (records: MarcRecord[]): Buffer =>
+  Buffer.concat(records.map(record => {
+    let directory = '';
+    const data: Buffer[] = [];
+    let offset = 0;
+    for (const field of record.fields) {
+      const text = isControlField(field)
+        ? withoutDelimiters(field.value)
+        : field.ind1 + field.ind2 + field.subfields
+          .map(subfield => SUBFIELD_DELIMITER + subfield.code + withoutDelimiters(subfield.value))
+          .join('');
+      const bytes = Buffer.from(text + FIELD_TERMINATOR, 'utf8');
+      if (bytes.length > MAX_FIELD_LENGTH) {
+        throw new Error(`Field ${field.tag} is too long for a MARC record`);
+      }
+      directory += field.tag + String(bytes.length).padStart(4, '0') + String(offset).padStart(5, '0');
+      data.push(bytes);
+      offset += bytes.length;
+    }
+
+    const baseAddress = LEADER_LENGTH + directory.length + 1;
+    const recordLength = baseAddress + offset + 1;
+    if (recordLength > MAX_RECORD_LENGTH) {
+      throw new Error('The record is too long for a MARC record');
+    }
+    const leader = String(recordLength).padStart(5, '0')
+      + record.leader.slice(5, 9) + 'a' + record.leader.slice(10, 12)
+      + String(baseAddress).padStart(5, '0')
+      + record.leader.slice(17, 24);
+
+    return Buffer.concat([
+      Buffer.from(leader + directory + FIELD_TERMINATOR, 'latin1'),
+      ...data,
+      Buffer.from([RECORD_TERMINATOR]),
+    ]);
+  }));
+
+const escapeXml = (value: string) =>
+  value
+    // Characters XML 1.0 does not allow
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Write records as a MARCXML collection
+ */
+export const writeMarcXml = (records: MarcRecord[]): string => {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', `<collection xmlns="${MARCXML_NAMESPACE}">`];
+  for (const record of records) {
+    lines.push('  <record>');
+    lines.push(`    <leader>${escapeXml(record.leader.slice(0, 9) + 'a' + record.leader.slice(10))}</leader>`);
+    for (const field of record.fields) {
+      if (isControlField(field)) {
+        lines.push(`    <controlfield tag="${field.tag}">${escapeXml(field.value)}</controlfield>`);
+        continue;
+      }
+      lines.push(`    <datafield tag="${field.tag}" ind1="${escapeXml(field.ind1)}" ind2="${escapeXml(field.ind2)}">`);
+      for (const subfield of field.subfields) {
+        lines.push(`      <subfield code="${escapeXml(subfield.code)}">${escapeXml(subfield.value)}</subfield>`);
+      }
+      lines.push('    </datafield>');
+    }
+    lines.push('  </record>');
+  }
+  lines.push('</collection>');
+  return lines.join('\n') + '\n';
+};
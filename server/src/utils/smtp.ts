@@ -0,0 +1,227 @@
+/**
+ * SMTP Client
+ *
+ * A minimal SMTP client for sending already-formatted messages: EHLO,
+ * STARTTLS when the server offers it, AUTH PLAIN, then MAIL FROM, RCPT TO
+ * and DATA. With secure set the connection uses TLS from the start
+ * (usually port 465).
+ */
+
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+
+export interface SmtpOptions {
+  host: string;
+  port?: number;
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+export interface SmtpEnvelope {
+  from: string;
+  to: string[];
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * One SMTP conversation: reads replies, which may span several lines, and
+ * sends commands. The socket is replaced when STARTTLS upgrades it.
+ */
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = '';
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private readonly onData = (chunk: string) => this.receive(chunk);
+  private readonly onError = (err: Error) => this.fail(err);
+  private readonly onClose = () => this.fail(new Error('SMTP connection closed'));
+  private readonly onTimeout = () => this.socket.destroy(new Error('SMTP connection timed out'));
+
+  constructor(socket: net.Socket, private timeoutMs: number) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  async read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return reply;
+    }
+    if (this.failure) {
+      throw this.failure;
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  /**
+   * Send a command and check its reply code
+   */
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, line.split(' ')[0]);
+  }
+
+  async expect(expected: number[], stage: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${stage} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  /**
+   * Switch the connection to TLS after the server accepted STARTTLS
+   */
+  async upgrade(host: string): Promise<void> {
+    const plain = this.socket;
+    this.detach(plain);
+    // Errors on the plain socket reach us through the TLS socket
+    plain.on('error', () => undefined);
+
+    const secure = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const socket = tls.connect({ socket: plain, servername: host }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+    this.socket = secure;
+    this.attach(secure);
+  }
+
+  close(): void {
+    this.detach(this.socket);
+    this.socket.on('error', () => undefined);
+    this.socket.end();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs);
+    socket.on('timeout', this.onTimeout);
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  private detach(socket: net.Socket): void {
+    socket.setTimeout(0);
+    socket.off('timeout', this.onTimeout);
+    socket.off('data', this.onData);
+    socket.off('error', this.onError);
+    socket.off('close', this.onClose);
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let end: number;
+    while ((end = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+
+      // "250-..." continues a reply, "250 ..." ends it
+      const match = /^(\d{3})([ -]?)(.*)$/.exec(line);
+      if (!match) {
+        continue;
+      }
+      this.replyLines.push(match[3]);
+      if (match[2] !== '-') {
+        this.deliver({ code: parseInt(match[1], 10), lines: this.replyLines });
+        this.replyLines = [];
+      }
+    }
+  }
+
+  private deliver(reply: SmtpReply): void {
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(err: Error): void {
+    this.failure = this.failure || err;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(this.failure);
+    }
+  }
+}
+
+const connect = (options: SmtpOptions, timeoutMs: number): Promise<net.Socket> =>
+  new Promise((resolve, reject) => {
+    const port = options.port || (options.secure ? 465 : 587);
+    const onConnect = () => {
+      socket.off('error', reject);
+      socket.off('timeout', onTimeout);
+      socket.setTimeout(0);
+      resolve(socket);
+    };
+    const onTimeout = () => socket.destroy(new Error('SMTP connection timed out'));
+    const socket: net.Socket = options.secure
+      ? tls.connect({ host: options.host, port, servername: options.host }, onConnect)
+      : net.connect({ host: options.host, port }, onConnect);
+    socket.once('error', reject);
+    socket.setTimeout(timeoutMs);
+    socket.once('timeout', onTimeout);
+  });
+
+/**
+ * Escape lines starting with a dot and end the message with <CRLF>.<CRLF>
+ */
+export const dotStuff = (message: string): string =>
+  `${message.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..')}\r\n.\r\n`;
+
+/**
+ * Send one message. message is the full RFC 5322 text, headers included.
+ */
+export const sendSmtpMail = async (options: SmtpOptions, envelope: SmtpEnvelope, message: string): Promise<void> => {
+  const timeoutMs = options.timeoutMs ?? 30000;
+  const connection = new SmtpConnection(await connect(options, timeoutMs), timeoutMs);
+  const hostname = os.hostname() || 'localhost';
+
+  try {
+    await connection.expect([220], 'greeting');
+    const ehlo = await connection.command(`EHLO ${hostname}`, [250]);
+
+    const offersStartTls = ehlo.lines.some(line => line.toUpperCase() === 'STARTTLS');
+    if (!options.secure && offersStartTls) {
+      await connection.command('STARTTLS', [220]);
+      await connection.upgrade(options.host);
+      await connection.command(`EHLO ${hostname}`, [250]);
+    }
+
+    if (options.user) {
+      const credentials = Buffer.from(`\0${options.user}\0${options.password ?? ''}`).toString('base64');
+      await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await connection.command(`MAIL FROM:<${envelope.from}>`, [250]);
+    for (const recipient of envelope.to) {
+      await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await connection.command('DATA', [354]);
+    connection.write(dotStuff(message));
+    await connection.expect([250], 'DATA');
+    await connection.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    connection.close();
+  }
+};
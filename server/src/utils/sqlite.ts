@@ -0,0 +1,258 @@
+/**
+ * Read-only SQLite file reader
+ *
+ * Reads the rows of ordinary tables from an SQLite database held in memory,
+ * following the file format at https://www.sqlite.org/fileformat.html. It
+ * is enough to read an uploaded Calibre metadata.db without a native
+ * SQLite module: it walks table b-trees, follows overflow pages and decodes
+ * records, and does not use indexes or support WITHOUT ROWID tables.
+ */
+
+import { AppError } from '../middleware/errorHandler';
+
+export type SqliteValue = number | string | Buffer | null;
+
+export type SqliteRow = Record<string, SqliteValue>;
+
+const HEADER = 'SQLite format 3\0';
+
+const LEAF_TABLE_PAGE = 0x0d;
+const INTERIOR_TABLE_PAGE = 0x05;
+
+const invalid = (reason: string) => new AppError(`Invalid SQLite database: ${reason}`, 400);
+
+/**
+ * Whether a file starts with the SQLite header
+ */
+export const isSqliteFile = (buffer: Buffer): boolean =>
+  buffer.length >= 100 && buffer.toString('latin1', 0, 16) === HEADER;
+
+/**
+ * The column names of a CREATE TABLE statement, and which column (if any)
+ * is an INTEGER PRIMARY KEY and so stored as the rowid
+ */
+const parseColumns = (sql: string): { columns: string[]; rowidColumn: number } => {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+
+  // Split on commas outside parentheses and quotes
+  const definitions: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+  for (const char of body) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === '\'' || char === '`' || char === '[') {
+      quote = char === '[' ? ']' : char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      definitions.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  definitions.push(current.trim());
+
+  const columns: string[] = [];
+  let rowidColumn = -1;
+  for (const definition of definitions) {
+    if (/^(CONSTRAINT|PRIMARY|UNIQUE|CHECK|FOREIGN)\b/i.test(definition)) continue;
+    const match = definition.match(/^(?:"([^"]+)"|`([^`]+)`|\[([^\]]+)\]|'([^']+)'|(\S+))\s*(.*)$/s);
+    if (!match) continue;
+    if (/^INTEGER\s+PRIMARY\s+KEY\b/i.test(match[6])) {
+      rowidColumn = columns.length;
+    }
+    columns.push(match[1] ?? match[2] ?? match[3] ?? match[4] ?? match[5]);
+  }
+  return { columns, rowidColumn };
+};
+
+class SqliteReader {
+  private pageSize: number;
+  private usableSize: number;
+
+  constructor(private buffer: Buffer) {
+    if (!isSqliteFile(buffer)) {
+      throw invalid('the file is not an SQLite database');
+    }
+    const pageSize = buffer.readUInt16BE(16);
+    this.pageSize = pageSize === 1 ? 65536 : pageSize;
+    this.usableSize = this.pageSize - buffer.readUInt8(20);
+    if (buffer.readUInt32BE(56) > 1) {
+      throw invalid('only UTF-8 databases can be read');
+    }
+  }
+
+  private pageOffset(page: number): number {
+    const offset = (page - 1) * this.pageSize;
+    if (page < 1 || offset + this.pageSize > this.buffer.length) {
+      throw invalid(`page ${page} is out of range`);
+    }
+    return offset;
+  }
+
+  private readVarint(offset: number): { value: number; length: number } {
+    let value = 0n;
+    for (let i = 0; i < 9; i++) {
+      const byte = this.buffer[offset + i];
+      if (i === 8) {
+        return { value: Number((value << 8n) | BigInt(byte)), length: 9 };
+      }
+      value = (value << 7n) | BigInt(byte & 0x7f);
+      if (byte < 0x80) {
+        return { value: Number(value), length: i + 1 };
+      }
+    }
+    throw invalid('bad varint');
+  }
+
+  /**
+   * The payload of a table leaf cell, gathered from its overflow pages if needed
+   */
+  private readPayload(offset: number, size: number): Buffer {
+    const maxLocal = this.usableSize - 35;
+    if (size <= maxLocal) {
+      return this.buffer.subarray(offset, offset + size);
+    }
+
+    const minLocal = Math.floor(((this.usableSize - 12) * 32) / 255) - 23;
+    const candidate = minLocal + ((size - minLocal) % (this.usableSize - 4));
+    const local = candidate <= maxLocal ? candidate : minLocal;
+
+    const parts = [this.buffer.subarray(offset, offset + local)];
+    let remaining = size - local;
+    let page = this.buffer.readUInt32BE(offset + local);
+    while (remaining > 0 && page !== 0) {
+      const pageStart = this.pageOffset(page);
+      const length = Math.min(remaining, this.usableSize - 4);
+      parts.push(this.buffer.subarray(pageStart + 4, pageStart + 4 + length));
+      remaining -= length;
+      page = this.buffer.readUInt32BE(pageStart);
+    }
+    return Buffer.concat(parts);
+  }
+
+  private decodeRecord(payload: Buffer): SqliteValue[] {
+    const readVarintAt = (offset: number) => {
+      let value = 0;
+      for (let i = 0; i < 9; i++) {
+        const byte = payload[offset + i];
+        value = i === 8 ? value * 256 + byte : value * 128 + (byte & 0x7f);
+        if (i === 8 || byte < 0x80) return { value, length: i + 1 };
+      }
+      throw invalid('bad varint');
+    };
+
+    const { value: headerSize, length } = readVarintAt(0);
+    const serialTypes: number[] = [];
+    for (let offset = length; offset < headerSize;) {
+      const serialType = readVarintAt(offset);
+      serialTypes.push(serialType.value);
+      offset += serialType.length;
+    }
+
+    const values: SqliteValue[] = [];
+    let offset = headerSize;
+    for (const serialType of serialTypes) {
+      switch (serialType) {
+        case 0: values.push(null); break;
+        case 1: values.push(payload.readInt8(offset)); offset += 1; break;
+        case 2: values.push(payload.readInt16BE(offset)); offset += 2; break;
+        case 3: values.push(payload.readIntBE(offset, 3)); offset += 3; break;
+        case 4: values.push(payload.readInt32BE(offset)); offset += 4; break;
+        case 5: values.push(payload.readIntBE(offset, 6)); offset += 6; break;
+        case 6: values.push(Number(payload.readBigInt64BE(offset))); offset += 8; break;
+        case 7: values.push(payload.readDoubleBE(offset)); offset += 8; break;
+        case 8: values.push(0); break;
+        case 9: values.push(1); break;
+        default: {
+          if (serialType < 12) {
+            throw invalid(`unknown serial type ${serialType}`);
+          }
+          const size = Math.floor((serialType - 12) / 2);
+          const bytes = payload.subarray(offset, offset + size);
+          values.push(serialType % 2 === 0 ? Buffer.from(bytes) : bytes.toString('utf8'));
+          offset += size;
+        }
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Every record of the table b-tree rooted at a page, in rowid order
+   */
+  readTableTree(rootPage: number): Array<{ rowid: number; values: SqliteValue[] }> {
+    const records: Array<{ rowid: number; values: SqliteValue[] }> = [];
+    const pages = [rootPage];
+    const visited = new Set<number>();
+
+    // Depth-first, children in order, so rows come out in rowid order
+    while (pages.length > 0) {
+      const page = pages.pop()!;
+      if (visited.has(page)) {
+        throw invalid('the table b-tree has a cycle');
+      }
+      visited.add(page);
+
+      const pageStart = this.pageOffset(page);
+      const headerStart = page === 1 ? pageStart + 100 : pageStart;
+      const type = this.buffer.readUInt8(headerStart);
+      const cellCount = this.buffer.readUInt16BE(headerStart + 3);
+
+      if (type === LEAF_TABLE_PAGE) {
+        for (let i = 0; i < cellCount; i++) {
+          let offset = pageStart + this.buffer.readUInt16BE(headerStart + 8 + i * 2);
+          const size = this.readVarint(offset);
+          offset += size.length;
+          const rowid = this.readVarint(offset);
+          offset += rowid.length;
+          records.push({ rowid: rowid.value, values: this.decodeRecord(this.readPayload(offset, size.value)) });
+        }
+      } else if (type === INTERIOR_TABLE_PAGE) {
+        const children: number[] = [];
+        for (let i = 0; i < cellCount; i++) {
+          const offset = pageStart + this.buffer.readUInt16BE(headerStart + 12 + i * 2);
+          children.push(this.buffer.readUInt32BE(offset));
+        }
+        children.push(this.buffer.readUInt32BE(headerStart + 8));
+        pages.push(...children.reverse());
+      } else {
+        throw invalid(`page ${page} is not a table page`);
+      }
+    }
+    return records;
+  }
+}
+
+/**
+ * Read the rows of the named tables. Tables the database does not have
+ * are left out of the result.
+ */
+export const readSqliteTables = (buffer: Buffer, tableNames: string[]): Record<string, SqliteRow[]> => {
+  const reader = new SqliteReader(buffer);
+
+  // The schema table: type, name, tbl_name, rootpage, sql
+  const schema = reader.readTableTree(1).map(({ values }) => values);
+
+  const tables: Record<string, SqliteRow[]> = {};
+  for (const [type, name, , rootPage, sql] of schema) {
+    if (type !== 'table' || typeof name !== 'string' || !tableNames.includes(name)) continue;
+    if (typeof rootPage !== 'number' || typeof sql !== 'string' || /WITHOUT\s+ROWID/i.test(sql)) continue;
+
+    const { columns, rowidColumn } = parseColumns(sql);
+    tables[name] = reader.readTableTree(rootPage).map(({ rowid, values }) => {
+      const row: SqliteRow = {};
+      columns.forEach((column, index) => {
+        // Columns added after a row was written are missing from its record
+        row[column] = index === rowidColumn ? rowid : values[index] ?? null;
+      });
+      return row;
+    });
+  }
+  return tables;
+};
@@ -0,0 +1,152 @@
+/**
+ * Full-text search queries
+ *
+ * Turns what someone types into a search box into a query for
+ * to_tsquery(), matched against the search_vector columns of books and
+ * members:
+ * - every word must match: tolkien hobbit
+ * - "quoted words" must appear together, in order: "colour of magic"
+ * - a word ending in * matches as a prefix: pratch*
+ * - a word or phrase after - must not match: -"the hobbit"
+ * Words are reduced to their letters and digits, so the result is always
+ * valid tsquery syntax. ISBNs and phone numbers lose their hyphens, as
+ * they are indexed without them.
+ *
+ * A search with no exact hits can be run again with similar words: words
+ * that are not in the index also match the indexed words closest to them
+ * by trigram similarity (pg_trgm), so "tolkein" finds Tolkien.
+ */
+
+/**
+ * Indexed words similar to the words of a search, the closest first
+ */
+export type SimilarWords = Map<string, string[]>;
+
+// Letters (with combining marks, for scripts such as Malayalam) and digits
+const WORD_PART = /[\p{L}\p{M}\p{N}]+/gu;
+
+// ISBNs and phone numbers, as in 978-0-441-17271-9, 0-8044-2957-X or 555-0101
+const ISBN_OR_PHONE = /^\+?\d[\d-]{5,}[\dXx]$/;
+
+// A term of a search: a "phrase" or a word, either negated with -
+const TERM = /(-?)"([^"]*)"?|(-?)(\S+)/g;
+
+const wordParts = (text: string): string[] => text.match(WORD_PART) ?? [];
+
+const termParts = (text: string): string[] =>
+  text.split(/\s+/).flatMap(word => (ISBN_OR_PHONE.test(word) ? [word.replace(/[^\dXx]/g, '')] : wordParts(word)));
+
+/**
+ * A word of a query as tsquery, or the word or the indexed words similar to it
+ */
+const lexeme = (part: string, prefix: boolean, similarWords?: SimilarWords): string => {
+  const query = prefix ? `${part}:*` : part;
+  const similar = similarWords?.get(part.toLowerCase());
+  return similar?.length ? `(${[query, ...similar].join(' | ')})` : query;
+};
+
+/**
+ * A word or phrase as tsquery; words with punctuation inside, such as
+ * "Saint-Exupéry", become a phrase of their parts
+ */
+const termQuery = (parts: string[], prefix: boolean, similarWords?: SimilarWords): string | null => {
+  if (parts.length === 0) {
+    return null;
+  }
+  const lexemes = parts.map((part, index) => lexeme(part, prefix && index === parts.length - 1, similarWords));
+  return lexemes.length > 1 ? `(${lexemes.join(' <-> ')})` : lexemes[0];
+};
+
+/**
+ * A to_tsquery() query for a search, or null if it has no words to search
+ * for. With prefixes, every word matches as a prefix, for searches typed a
+ * few letters at a time such as looking up a member at the desk. With
+ * similar words, the words of the search that are not negated also match
+ * the words similar to them.
+ */
+export const toTsQuery = (
+  search: string,
+  options: { prefixes?: boolean; similarWords?: SimilarWords } = {}
+): string | null => {
+  const terms: string[] = [];
+  for (const match of search.matchAll(TERM)) {
+    const [, phraseNegated, phrase, wordNegated, word] = match;
+    const negated = phrase !== undefined ? phraseNegated === '-' : wordNegated === '-';
+    const similarWords = negated ? undefined : options.similarWords;
+    const term = phrase !== undefined
+      ? termQuery(termParts(phrase), false, similarWords)
+      : termQuery(termParts(word.replace(/\*+$/, '')), Boolean(options.prefixes || word.endsWith('*')), similarWords);
+    if (term) {
+      terms.push(negated ? `!${term}` : term);
+    }
+  }
+  return terms.length > 0 ? terms.join(' & ') : null;
+};
+
+/**
+ * The words of a search that could be misspelled: the words that are not
+ * negated, lowercased as they are indexed, leaving out numbers
+ */
+export const searchWords = (search: string): string[] => {
+  const words = new Set<string>();
+  for (const match of search.matchAll(TERM)) {
+    const [, phraseNegated, phrase, wordNegated, word] = match;
+    if ((phrase !== undefined ? phraseNegated : wordNegated) === '-') continue;
+    for (const part of wordParts(phrase ?? word)) {
+      if (!/^\d+$/.test(part)) {
+        words.add(part.toLowerCase());
+      }
+    }
+  }
+  return [...words];
+};
+
+/**
+ * A search with each word that has similar words replaced by the closest,
+ * for suggesting as "did you mean"
+ */
+export const correctSearch = (search: string, similarWords: SimilarWords): string =>
+  search.replace(TERM, (term: string, phraseNegated?: string, phrase?: string, wordNegated?: string) =>
+    (phrase !== undefined ? phraseNegated : wordNegated) === '-'
+      ? term
+      : term.replace(WORD_PART, part => similarWords.get(part.toLowerCase())?.[0] ?? part));
+
+/**
+ * A query for the indexed words similar to the words in the text[]
+ * parameter $1, up to three for each, from the words of a tsvector column.
+ * Only words that are not indexed are looked up; with prefixes, neither are
+ * words that start an indexed word.
+ */
+export const similarWordsSql = (vectors: string, options: { prefixes?: boolean } = {}): string => `
+  WITH dictionary AS (SELECT word, ndoc FROM ts_stat('${vectors.replace(/'/g, "''")}'))
+  SELECT input, word FROM (
+    SELECT
+      w.input,
+      d.word,
+      row_number() OVER (PARTITION BY w.input ORDER BY similarity(d.word, w.input) DESC, d.ndoc DESC, d.word) AS place
+    FROM unnest($1::text[]) AS w(input)
+    JOIN dictionary d ON d.word % w.input
+    WHERE NOT EXISTS (
+      SELECT 1 FROM dictionary known
+      WHERE ${options.prefixes ? "known.word LIKE w.input || '%'" : 'known.word = w.input'}
+    )
+  ) similar
+  WHERE place <= 3
+  ORDER BY input, place
+`;
+
+/**
+ * Similar words from the rows of a similarWordsSql() query
+ */
+export const toSimilarWords = (rows: { input: string; word: string }[]): SimilarWords => {
+  const similarWords: SimilarWords = new Map();
+  for (const { input, word } of rows) {
+    similarWords.set(input, [...(similarWords.get(input) ?? []), word]);
+  }
+  return similarWords;
+};
+
+// ts_headline() options: matches are wrapped in <mark>, which clients turn into highlighting
+export const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+
+export const SNIPPET_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "';
@@ -0,0 +1,33 @@
+/**
+ * Webhook Signatures
+ *
+ * Each delivery carries an X-HomeShelf-Timestamp header (Unix seconds) and an
+ * X-HomeShelf-Signature header of the form "sha256=<hex>": the HMAC-SHA256,
+ * keyed with the webhook's secret, of the timestamp, a "." and the raw body.
+ * Receivers recompute it to check the delivery came from this server, and
+ * check the timestamp is recent to reject replays.
+ */
+
+import crypto from 'crypto';
+
+export const SIGNATURE_HEADER = 'X-HomeShelf-Signature';
+export const TIMESTAMP_HEADER = 'X-HomeShelf-Timestamp';
+export const EVENT_HEADER = 'X-HomeShelf-Event';
+export const DELIVERY_HEADER = 'X-HomeShelf-Delivery';
+
+/**
+ * Generate a secret for a new webhook
+ */
+export const generateWebhookSecret = (): string => crypto.randomBytes(32).toString('hex');
+
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string =>
+  `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+/**
+ * Check a signature in constant time, as a receiver would
+ */
+export const verifyWebhookSignature = (secret: string, timestamp: number, body: string, signature: string): boolean => {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};